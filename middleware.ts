@@ -15,7 +15,7 @@ import { auth } from '@/lib/auth';
  * Redirect unauthenticated users to login page.
  *
  * BUSINESS LOGIC:
- * - Public routes: /, /login, /register, /forgot-password
+ * - Public routes: /, /login, /register, /forgot-password, /accept-invite, /tablet
  * - Protected routes: /dashboard, /api/* (except auth endpoints)
  * - Authenticated users accessing /login or /register → redirect to /dashboard
  *
@@ -32,7 +32,20 @@ export async function middleware(request: NextRequest) {
   const isAuthenticated = !!session?.user;
 
   // Define public paths (accessible without authentication)
-  const publicPaths = ['/login', '/register', '/forgot-password', '/api/auth'];
+  // NOTE: /api/car-counts/ingest authenticates controllers with an API key instead
+  // NOTE: Invite acceptance authenticates with the emailed invite token
+  // NOTE: The tablet roster authenticates with the enrolled device cookie
+  const publicPaths = [
+    '/login',
+    '/register',
+    '/forgot-password',
+    '/accept-invite',
+    '/tablet',
+    '/api/auth',
+    '/api/car-counts/ingest',
+    '/api/invites/accept',
+    '/api/tablet/roster',
+  ];
   const isPublicPath = publicPaths.some((path) => pathname.startsWith(path));
 
   // Define protected paths (require authentication)
@@ -43,7 +56,7 @@ export async function middleware(request: NextRequest) {
    * BUSINESS RULE 1: Redirect unauthenticated users to login
    * WHY: Protect sensitive data and features
    */
-  if (!isAuthenticated && isProtectedPath && !pathname.startsWith('/api/auth')) {
+  if (!isAuthenticated && isProtectedPath && !isPublicPath) {
     const loginUrl = new URL('/login', request.url);
     loginUrl.searchParams.set('callbackUrl', pathname);
     return NextResponse.redirect(loginUrl);
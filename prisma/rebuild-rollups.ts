@@ -0,0 +1,56 @@
+// ===========================================
+// FILE: prisma/rebuild-rollups.ts
+// PURPOSE: Backfill or rebuild daily chemical usage rollups
+// PRD REFERENCE: PRD Section 7 - Analytics & Reporting
+// Run with: npm run db:rollups [-- --site <siteId>]
+// ===========================================
+
+import { prisma } from '@/lib/prisma';
+import { rebuildChemicalUsageRollups } from '@/lib/usage';
+
+/**
+ * Read `--site <id>` from the command line
+ */
+function getSiteArg(): string | undefined {
+  const index = process.argv.indexOf('--site');
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const siteId = getSiteArg();
+  console.log(
+    siteId
+      ? `📊 Rebuilding daily usage rollups for site ${siteId}...\n`
+      : '📊 Rebuilding daily usage rollups for all sites...\n'
+  );
+
+  const configs = await prisma.chemicalSiteConfig.findMany({
+    where: siteId ? { siteId } : {},
+    select: { id: true },
+    orderBy: { siteId: 'asc' },
+  });
+
+  // One transaction per chemical keeps each rebuild consistent without
+  // holding a lock over the whole table
+  let changedRows = 0;
+  for (const [index, config] of configs.entries()) {
+    changedRows += await prisma.$transaction((tx) =>
+      rebuildChemicalUsageRollups(tx, config.id)
+    );
+
+    if ((index + 1) % 100 === 0) {
+      console.log(`   ${index + 1}/${configs.length} chemicals`);
+    }
+  }
+
+  console.log(`✅ Rebuilt ${configs.length} chemicals (${changedRows} rows changed)\n`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Error rebuilding rollups:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -3,376 +3,1096 @@
 -- Generated from Prisma schema
 -- ===========================================
 
--- Create ENUMS
-CREATE TYPE "UserRole" AS ENUM (
-  'DISTRIBUTOR_ADMIN',
-  'DISTRIBUTOR_USER',
-  'ORG_ADMIN',
-  'SITE_MANAGER',
-  'SITE_USER'
-);
-
-CREATE TYPE "ChemicalType" AS ENUM (
-  'PREP_SOAP',
-  'HIGH_PH_PRESOAK',
-  'LOW_PH_PRESOAK',
-  'TIRE_CLEANER',
-  'WHEEL_CLEANER',
-  'TRIPLE_FOAM',
-  'TRIPLE_FOAM_POLISH',
-  'CLEARCOAT_PROTECTANT',
-  'CERAMIC_SEALANT',
-  'TIRE_SHINE',
-  'SPOT_FREE_RINSE',
-  'DRYER_AGENT',
-  'BUG_PREP',
-  'WHEEL_MAGIC',
-  'RAIN_X',
-  'OTHER'
-);
-
-CREATE TYPE "ContainerType" AS ENUM (
-  'DRUM_5_GAL',
-  'DRUM_15_GAL',
-  'DRUM_30_GAL',
-  'DRUM_55_GAL',
-  'BULK_TANK'
-);
-
-CREATE TYPE "WashType" AS ENUM (
-  'TOUCHLESS',
-  'FRICTION',
-  'BOTH'
-);
-
-CREATE TYPE "InjectorSystem" AS ENUM (
-  'HYDROFLEX',
-  'HYDROMINDER'
+-- CreateEnum
+CREATE TYPE "UserRole" AS ENUM ('DISTRIBUTOR_ADMIN', 'DISTRIBUTOR_USER', 'ORG_ADMIN', 'SITE_MANAGER', 'SITE_USER');
+
+-- CreateEnum
+CREATE TYPE "ChemicalType" AS ENUM ('PREP_SOAP', 'HIGH_PH_PRESOAK', 'LOW_PH_PRESOAK', 'WHEEL_TIRE_CLEANER', 'FOAM_DETERGENT', 'FRAGRANCE', 'TRI_COLOR', 'PROTECTANT', 'DRY_AGENT', 'TIRE_SHINE', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "ContainerType" AS ENUM ('HOLDING_TANK_10GAL', 'HOLDING_TANK_15GAL', 'HOLDING_TANK_20GAL', 'HOLDING_TANK_CUSTOM', 'JUG_1GAL', 'JUG_2_5GAL', 'PAIL_5GAL', 'DRUM_15GAL', 'DRUM_30GAL', 'DRUM_55GAL');
+
+-- CreateEnum
+CREATE TYPE "WashType" AS ENUM ('EXPRESS', 'FULL_SERVICE', 'HAND_WASH', 'IN_BAY_AUTOMATIC', 'TOUCHLESS_IBA');
+
+-- CreateEnum
+CREATE TYPE "InjectorSystem" AS ENUM ('HYDROFLEX', 'HYDROMINDER');
+
+-- CreateEnum
+CREATE TYPE "TipCategory" AS ENUM ('STANDARD', 'HYDROMINDER', 'DIAL');
+
+-- CreateEnum
+CREATE TYPE "ScheduledVisitStatus" AS ENUM ('SCHEDULED', 'COMPLETED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "ReplenishmentOrderStatus" AS ENUM ('PROPOSED', 'APPROVED', 'DELIVERED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "ContainerShape" AS ENUM ('CYLINDER', 'RECTANGULAR', 'IRREGULAR');
+
+-- CreateEnum
+CREATE TYPE "CarCountSource" AS ENUM ('MANUAL', 'CSV_IMPORT', 'CONTROLLER');
+
+-- CreateEnum
+CREATE TYPE "DistributorLinkStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "DistributorLinkAction" AS ENUM ('CREATED', 'REQUESTED', 'ACCEPTED', 'DECLINED', 'CANCELLED', 'UNLINKED');
+
+-- CreateEnum
+CREATE TYPE "UserInviteStatus" AS ENUM ('PENDING', 'ACCEPTED', 'REVOKED');
+
+-- CreateEnum
+CREATE TYPE "UsageAnomalyType" AS ENUM ('NEGATIVE_USAGE', 'USAGE_SPIKE', 'OVER_CAPACITY');
+
+-- CreateEnum
+CREATE TYPE "UsageAnomalyStatus" AS ENUM ('OPEN', 'ACKNOWLEDGED', 'RESOLVED');
+
+-- CreateTable
+CREATE TABLE "distributors" (
+    "id" TEXT NOT NULL,
+    "company_name" TEXT NOT NULL,
+    "contact_email" TEXT,
+    "contact_phone" TEXT,
+    "address" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "distributors_pkey" PRIMARY KEY ("id")
 );
 
--- ===========================================
--- TABLES
--- ===========================================
+-- CreateTable
+CREATE TABLE "organizations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "distributor_id" TEXT,
+    "contact_email" TEXT,
+    "contact_phone" TEXT,
+    "address" TEXT,
+    "timezone" TEXT NOT NULL DEFAULT 'America/New_York',
+    "week_starts_on" INTEGER NOT NULL DEFAULT 0,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
 
--- Distributors
-CREATE TABLE "Distributor" (
-  "id" TEXT NOT NULL,
-  "name" TEXT NOT NULL,
-  "contactEmail" TEXT NOT NULL,
-  "contactPhone" TEXT,
-  "address" TEXT,
-  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  "updatedAt" TIMESTAMP(3) NOT NULL,
-
-  CONSTRAINT "Distributor_pkey" PRIMARY KEY ("id")
-);
-
--- Organizations
-CREATE TABLE "Organization" (
-  "id" TEXT NOT NULL,
-  "name" TEXT NOT NULL,
-  "contactEmail" TEXT NOT NULL,
-  "contactPhone" TEXT,
-  "address" TEXT,
-  "distributorId" TEXT NOT NULL,
-  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  "updatedAt" TIMESTAMP(3) NOT NULL,
-
-  CONSTRAINT "Organization_pkey" PRIMARY KEY ("id")
-);
-
--- Sites
-CREATE TABLE "Site" (
-  "id" TEXT NOT NULL,
-  "name" TEXT NOT NULL,
-  "address" TEXT NOT NULL,
-  "organizationId" TEXT NOT NULL,
-  "washType" "WashType" NOT NULL,
-  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  "updatedAt" TIMESTAMP(3) NOT NULL,
-
-  CONSTRAINT "Site_pkey" PRIMARY KEY ("id")
-);
-
--- Users
-CREATE TABLE "User" (
-  "id" TEXT NOT NULL,
-  "email" TEXT NOT NULL,
-  "passwordHash" TEXT NOT NULL,
-  "firstName" TEXT NOT NULL,
-  "lastName" TEXT NOT NULL,
-  "phone" TEXT,
-  "role" "UserRole" NOT NULL,
-  "distributorId" TEXT,
-  "organizationId" TEXT,
-  "isActive" BOOLEAN NOT NULL DEFAULT true,
-  "lastLoginAt" TIMESTAMP(3),
-  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  "updatedAt" TIMESTAMP(3) NOT NULL,
-
-  CONSTRAINT "User_pkey" PRIMARY KEY ("id")
-);
-
--- Site Users (junction table)
-CREATE TABLE "SiteUser" (
-  "id" TEXT NOT NULL,
-  "userId" TEXT NOT NULL,
-  "siteId" TEXT NOT NULL,
-  "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
-
-  CONSTRAINT "SiteUser_pkey" PRIMARY KEY ("id")
-);
-
--- Chemical Master (Distributor catalog)
-CREATE TABLE "ChemicalMaster" (
-  "id" TEXT NOT NULL,
-  "distributorId" TEXT NOT NULL,
-  "name" TEXT NOT NULL,
-  "type" "ChemicalType" NOT NULL,
-  "manufacturer" TEXT,
-  "description" TEXT,
-  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  "updatedAt" TIMESTAMP(3) NOT NULL,
-
-  CONSTRAINT "ChemicalMaster_pkey" PRIMARY KEY ("id")
+    CONSTRAINT "organizations_pkey" PRIMARY KEY ("id")
 );
 
--- Chemical Org Config
-CREATE TABLE "ChemicalOrgConfig" (
-  "id" TEXT NOT NULL,
-  "chemicalMasterId" TEXT NOT NULL,
-  "organizationId" TEXT NOT NULL,
-  "containerType" "ContainerType" NOT NULL,
-  "containerCost" DOUBLE PRECISION NOT NULL,
-  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  "updatedAt" TIMESTAMP(3) NOT NULL,
+-- CreateTable
+CREATE TABLE "distributor_link_requests" (
+    "id" TEXT NOT NULL,
+    "distributor_id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "invite_email" TEXT,
+    "status" "DistributorLinkStatus" NOT NULL DEFAULT 'PENDING',
+    "message" TEXT,
+    "requested_by" TEXT NOT NULL,
+    "responded_by" TEXT,
+    "responded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
 
-  CONSTRAINT "ChemicalOrgConfig_pkey" PRIMARY KEY ("id")
+    CONSTRAINT "distributor_link_requests_pkey" PRIMARY KEY ("id")
 );
 
--- Chemical Site Config
-CREATE TABLE "ChemicalSiteConfig" (
-  "id" TEXT NOT NULL,
-  "chemicalOrgConfigId" TEXT NOT NULL,
-  "siteId" TEXT NOT NULL,
-  "alertThresholdGallons" DOUBLE PRECISION,
-  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  "updatedAt" TIMESTAMP(3) NOT NULL,
-
-  CONSTRAINT "ChemicalSiteConfig_pkey" PRIMARY KEY ("id")
+-- CreateTable
+CREATE TABLE "distributor_link_audits" (
+    "id" TEXT NOT NULL,
+    "distributor_id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "action" "DistributorLinkAction" NOT NULL,
+    "performed_by" TEXT NOT NULL,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "distributor_link_audits_pkey" PRIMARY KEY ("id")
 );
 
--- Injector Types
-CREATE TABLE "InjectorType" (
-  "id" TEXT NOT NULL,
-  "system" "InjectorSystem" NOT NULL,
-  "name" TEXT NOT NULL,
-  "gpm" DOUBLE PRECISION NOT NULL,
-
-  CONSTRAINT "InjectorType_pkey" PRIMARY KEY ("id")
-);
-
--- Tip Types
-CREATE TABLE "TipType" (
-  "id" TEXT NOT NULL,
-  "system" "InjectorSystem" NOT NULL,
-  "name" TEXT NOT NULL,
-  "dilutionRatio" TEXT NOT NULL,
+-- CreateTable
+CREATE TABLE "sites" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "address" TEXT,
+    "wash_type" "WashType" NOT NULL,
+    "visit_reminder_days" INTEGER NOT NULL DEFAULT 14,
+    "timezone" TEXT,
+    "latitude" DECIMAL(9,6),
+    "longitude" DECIMAL(9,6),
+    "visit_window_start" TEXT,
+    "visit_window_end" TEXT,
+    "visit_duration_minutes" INTEGER NOT NULL DEFAULT 45,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
 
-  CONSTRAINT "TipType_pkey" PRIMARY KEY ("id")
-);
-
--- Chemical Site Application
-CREATE TABLE "ChemicalSiteApplication" (
-  "id" TEXT NOT NULL,
-  "chemicalSiteConfigId" TEXT NOT NULL,
-  "tankId" TEXT NOT NULL,
-  "injectorTypeId" TEXT NOT NULL,
-  "tipTypeId" TEXT NOT NULL,
-  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "sites_pkey" PRIMARY KEY ("id")
+);
 
-  CONSTRAINT "ChemicalSiteApplication_pkey" PRIMARY KEY ("id")
-);
-
--- Wash Package Templates
-CREATE TABLE "WashPackageTemplate" (
-  "id" TEXT NOT NULL,
-  "organizationId" TEXT NOT NULL,
-  "name" TEXT NOT NULL,
-  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  "updatedAt" TIMESTAMP(3) NOT NULL,
+-- CreateTable
+CREATE TABLE "users" (
+    "id" TEXT NOT NULL,
+    "email" TEXT,
+    "phone" TEXT,
+    "password_hash" TEXT NOT NULL,
+    "pin_hash" TEXT,
+    "pin_updated_at" TIMESTAMP(3),
+    "pin_failed_attempts" INTEGER NOT NULL DEFAULT 0,
+    "pin_locked_until" TIMESTAMP(3),
+    "role" "UserRole" NOT NULL,
+    "first_name" TEXT NOT NULL,
+    "last_name" TEXT NOT NULL,
+    "distributor_id" TEXT,
+    "organization_id" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "last_login_at" TIMESTAMP(3),
 
-  CONSTRAINT "WashPackageTemplate_pkey" PRIMARY KEY ("id")
+    CONSTRAINT "users_pkey" PRIMARY KEY ("id")
 );
 
--- Wash Package Template Chemicals
-CREATE TABLE "WashPackageTemplateChemical" (
-  "id" TEXT NOT NULL,
-  "washPackageTemplateId" TEXT NOT NULL,
-  "chemicalOrgConfigId" TEXT NOT NULL,
+-- CreateTable
+CREATE TABLE "user_site_access" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "site_id" TEXT NOT NULL,
+    "granted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "granted_by" TEXT,
 
-  CONSTRAINT "WashPackageTemplateChemical_pkey" PRIMARY KEY ("id")
+    CONSTRAINT "user_site_access_pkey" PRIMARY KEY ("id")
 );
 
--- Wash Packages
-CREATE TABLE "WashPackage" (
-  "id" TEXT NOT NULL,
-  "siteId" TEXT NOT NULL,
-  "washPackageTemplateId" TEXT,
-  "name" TEXT NOT NULL,
-  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  "updatedAt" TIMESTAMP(3) NOT NULL,
+-- CreateTable
+CREATE TABLE "user_invites" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "role" "UserRole" NOT NULL,
+    "first_name" TEXT,
+    "last_name" TEXT,
+    "distributor_id" TEXT,
+    "organization_id" TEXT,
+    "site_ids" TEXT[],
+    "token_hash" TEXT NOT NULL,
+    "status" "UserInviteStatus" NOT NULL DEFAULT 'PENDING',
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "invited_by" TEXT NOT NULL,
+    "accepted_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
 
-  CONSTRAINT "WashPackage_pkey" PRIMARY KEY ("id")
+    CONSTRAINT "user_invites_pkey" PRIMARY KEY ("id")
 );
 
--- Wash Package Chemicals
-CREATE TABLE "WashPackageChemical" (
-  "id" TEXT NOT NULL,
-  "washPackageId" TEXT NOT NULL,
-  "chemicalSiteApplicationId" TEXT NOT NULL,
+-- CreateTable
+CREATE TABLE "tablet_devices" (
+    "id" TEXT NOT NULL,
+    "site_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "last_used_at" TIMESTAMP(3),
+    "enrolled_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "enrolled_by" TEXT,
 
-  CONSTRAINT "WashPackageChemical_pkey" PRIMARY KEY ("id")
+    CONSTRAINT "tablet_devices_pkey" PRIMARY KEY ("id")
 );
 
--- Inch-Gallon Conversions
-CREATE TABLE "InchGallonConversion" (
-  "id" TEXT NOT NULL,
-  "containerType" "ContainerType" NOT NULL,
-  "inches" DOUBLE PRECISION NOT NULL,
-  "gallons" DOUBLE PRECISION NOT NULL,
+-- CreateTable
+CREATE TABLE "chemical_masters" (
+    "id" TEXT NOT NULL,
+    "distributor_id" TEXT,
+    "name" TEXT NOT NULL,
+    "type" "ChemicalType" NOT NULL,
+    "manufacturer" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "created_by" TEXT,
 
-  CONSTRAINT "InchGallonConversion_pkey" PRIMARY KEY ("id")
+    CONSTRAINT "chemical_masters_pkey" PRIMARY KEY ("id")
 );
 
--- Visit Logs
-CREATE TABLE "VisitLog" (
-  "id" TEXT NOT NULL,
-  "siteId" TEXT NOT NULL,
-  "userId" TEXT NOT NULL,
-  "visitDate" TIMESTAMP(3) NOT NULL,
-  "publicNotes" TEXT,
-  "privateNotes" TEXT,
-  "serviceNotes" TEXT,
-  "privateServiceNotes" TEXT,
-  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  "updatedAt" TIMESTAMP(3) NOT NULL,
+-- CreateTable
+CREATE TABLE "chemical_org_configs" (
+    "id" TEXT NOT NULL,
+    "chemical_master_id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "primary_container" "ContainerType" NOT NULL,
+    "primary_container_size_gallons" DECIMAL(6,2),
+    "backstock_container" "ContainerType" NOT NULL,
+    "custom_container_id" TEXT,
+    "cost_per_container" DECIMAL(10,2) NOT NULL,
+    "cost_per_gallon" DECIMAL(10,2) NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "created_by" TEXT,
 
-  CONSTRAINT "VisitLog_pkey" PRIMARY KEY ("id")
+    CONSTRAINT "chemical_org_configs_pkey" PRIMARY KEY ("id")
 );
 
--- Visit Log Chemical Entries
-CREATE TABLE "VisitLogChemicalEntry" (
-  "id" TEXT NOT NULL,
-  "visitLogId" TEXT NOT NULL,
-  "chemicalSiteConfigId" TEXT NOT NULL,
-  "levelGallons" DOUBLE PRECISION NOT NULL,
-  "levelInches" DOUBLE PRECISION,
-  "backstockCount" INTEGER NOT NULL,
-  "deliveryReceived" BOOLEAN NOT NULL DEFAULT false,
-  "deliveryCount" INTEGER,
-  "notes" TEXT,
+-- CreateTable
+CREATE TABLE "chemical_prices" (
+    "id" TEXT NOT NULL,
+    "chemical_org_config_id" TEXT NOT NULL,
+    "effective_date" DATE NOT NULL,
+    "cost_per_container" DECIMAL(10,2) NOT NULL,
+    "cost_per_gallon" DECIMAL(10,2) NOT NULL,
+    "note" TEXT,
+    "client_notified_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_by" TEXT,
 
-  CONSTRAINT "VisitLogChemicalEntry_pkey" PRIMARY KEY ("id")
+    CONSTRAINT "chemical_prices_pkey" PRIMARY KEY ("id")
 );
 
--- Visit Log Service Entries
-CREATE TABLE "VisitLogServiceEntry" (
-  "id" TEXT NOT NULL,
-  "visitLogId" TEXT NOT NULL,
-  "chemicalSiteApplicationId" TEXT NOT NULL,
-  "equipmentChanged" BOOLEAN NOT NULL DEFAULT false,
-  "newInjectorTypeId" TEXT,
-  "newTipTypeId" TEXT,
-  "notes" TEXT,
+-- CreateTable
+CREATE TABLE "chemical_site_configs" (
+    "id" TEXT NOT NULL,
+    "chemical_org_config_id" TEXT NOT NULL,
+    "site_id" TEXT NOT NULL,
+    "alert_threshold_gallons" DECIMAL(6,2),
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "added_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "added_by" TEXT,
 
-  CONSTRAINT "VisitLogServiceEntry_pkey" PRIMARY KEY ("id")
+    CONSTRAINT "chemical_site_configs_pkey" PRIMARY KEY ("id")
 );
 
--- Car Count Logs
-CREATE TABLE "CarCountLog" (
-  "id" TEXT NOT NULL,
-  "siteId" TEXT NOT NULL,
-  "logDate" DATE NOT NULL,
-  "totalCars" INTEGER NOT NULL,
-  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  "updatedAt" TIMESTAMP(3) NOT NULL,
+-- CreateTable
+CREATE TABLE "injector_types" (
+    "id" TEXT NOT NULL,
+    "system" "InjectorSystem" NOT NULL,
+    "name" TEXT NOT NULL,
+    "gpm" DECIMAL(5,2) NOT NULL,
+    "display_order" INTEGER NOT NULL,
 
-  CONSTRAINT "CarCountLog_pkey" PRIMARY KEY ("id")
+    CONSTRAINT "injector_types_pkey" PRIMARY KEY ("id")
 );
 
--- Car Count by Package
-CREATE TABLE "CarCountByPackage" (
-  "id" TEXT NOT NULL,
-  "carCountLogId" TEXT NOT NULL,
-  "washPackageId" TEXT NOT NULL,
-  "carCount" INTEGER NOT NULL,
+-- CreateTable
+CREATE TABLE "tip_types" (
+    "id" TEXT NOT NULL,
+    "category" "TipCategory" NOT NULL,
+    "name" TEXT NOT NULL,
+    "display_order" INTEGER NOT NULL,
 
-  CONSTRAINT "CarCountByPackage_pkey" PRIMARY KEY ("id")
+    CONSTRAINT "tip_types_pkey" PRIMARY KEY ("id")
 );
 
--- Scheduled Visits
-CREATE TABLE "ScheduledVisit" (
-  "id" TEXT NOT NULL,
-  "siteId" TEXT NOT NULL,
-  "scheduledDate" DATE NOT NULL,
-  "completed" BOOLEAN NOT NULL DEFAULT false,
-  "visitLogId" TEXT,
-  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
-  "updatedAt" TIMESTAMP(3) NOT NULL,
+-- CreateTable
+CREATE TABLE "chemical_site_applications" (
+    "id" TEXT NOT NULL,
+    "chemical_site_config_id" TEXT NOT NULL,
+    "application_number" INTEGER NOT NULL,
+    "injector_type_id" TEXT NOT NULL,
+    "tip_type_id" TEXT NOT NULL,
+    "application_name" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
 
-  CONSTRAINT "ScheduledVisit_pkey" PRIMARY KEY ("id")
+    CONSTRAINT "chemical_site_applications_pkey" PRIMARY KEY ("id")
 );
 
--- ===========================================
--- INDEXES
--- ===========================================
+-- CreateTable
+CREATE TABLE "inch_gallon_conversions" (
+    "id" TEXT NOT NULL,
+    "container_type" "ContainerType" NOT NULL,
+    "inches" DECIMAL(4,1) NOT NULL,
+    "gallons" DECIMAL(4,1) NOT NULL,
 
-CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
-CREATE UNIQUE INDEX "SiteUser_userId_siteId_key" ON "SiteUser"("userId", "siteId");
-CREATE UNIQUE INDEX "ChemicalOrgConfig_chemicalMasterId_organizationId_containerType_key" ON "ChemicalOrgConfig"("chemicalMasterId", "organizationId", "containerType");
-CREATE UNIQUE INDEX "ChemicalSiteConfig_chemicalOrgConfigId_siteId_key" ON "ChemicalSiteConfig"("chemicalOrgConfigId", "siteId");
-CREATE UNIQUE INDEX "ChemicalSiteApplication_chemicalSiteConfigId_tankId_key" ON "ChemicalSiteApplication"("chemicalSiteConfigId", "tankId");
-CREATE INDEX "VisitLog_siteId_visitDate_idx" ON "VisitLog"("siteId", "visitDate");
-CREATE UNIQUE INDEX "CarCountLog_siteId_logDate_key" ON "CarCountLog"("siteId", "logDate");
-CREATE UNIQUE INDEX "ScheduledVisit_siteId_scheduledDate_key" ON "ScheduledVisit"("siteId", "scheduledDate");
+    CONSTRAINT "inch_gallon_conversions_pkey" PRIMARY KEY ("id")
+);
 
--- ===========================================
--- FOREIGN KEYS
--- ===========================================
+-- CreateTable
+CREATE TABLE "custom_containers" (
+    "id" TEXT NOT NULL,
+    "distributor_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "shape" "ContainerShape" NOT NULL,
+    "capacity_gallons" DECIMAL(8,2) NOT NULL,
+    "height_inches" DECIMAL(6,2),
+    "diameter_inches" DECIMAL(6,2),
+    "length_inches" DECIMAL(6,2),
+    "width_inches" DECIMAL(6,2),
+    "notes" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "created_by" TEXT,
+
+    CONSTRAINT "custom_containers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "custom_container_conversions" (
+    "id" TEXT NOT NULL,
+    "custom_container_id" TEXT NOT NULL,
+    "inches" DECIMAL(6,2) NOT NULL,
+    "gallons" DECIMAL(8,2) NOT NULL,
+
+    CONSTRAINT "custom_container_conversions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "wash_package_templates" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "created_by" TEXT,
+
+    CONSTRAINT "wash_package_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "wash_package_template_items" (
+    "id" TEXT NOT NULL,
+    "template_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "display_order" INTEGER NOT NULL,
+    "single_wash_price" DECIMAL(6,2),
+    "membership_price" DECIMAL(6,2),
+    "description" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wash_package_template_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "wash_package_template_chemicals" (
+    "id" TEXT NOT NULL,
+    "template_item_id" TEXT NOT NULL,
+    "chemical_org_config_id" TEXT NOT NULL,
+    "application_order" INTEGER NOT NULL,
+
+    CONSTRAINT "wash_package_template_chemicals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "wash_packages" (
+    "id" TEXT NOT NULL,
+    "site_id" TEXT NOT NULL,
+    "template_item_id" TEXT,
+    "name" TEXT NOT NULL,
+    "display_order" INTEGER NOT NULL,
+    "single_wash_price" DECIMAL(6,2),
+    "membership_price" DECIMAL(6,2),
+    "description" TEXT,
+    "is_from_template" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "wash_packages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "wash_package_chemicals" (
+    "id" TEXT NOT NULL,
+    "wash_package_id" TEXT NOT NULL,
+    "chemical_site_application_id" TEXT NOT NULL,
+    "application_order" INTEGER NOT NULL,
+
+    CONSTRAINT "wash_package_chemicals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "visit_logs" (
+    "id" TEXT NOT NULL,
+    "site_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "visit_date" DATE NOT NULL,
+    "visit_time" TIMETZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "public_notes" TEXT,
+    "private_notes" TEXT,
+    "service_notes" TEXT,
+    "private_service_notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "visit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "visit_log_chemical_entries" (
+    "id" TEXT NOT NULL,
+    "visit_log_id" TEXT NOT NULL,
+    "chemical_site_config_id" TEXT NOT NULL,
+    "entry_method" TEXT NOT NULL,
+    "level_gallons" DECIMAL(6,2),
+    "level_inches" DECIMAL(6,2),
+    "backstock_count" INTEGER NOT NULL DEFAULT 0,
+    "backstock_gallons" DECIMAL(8,2) NOT NULL DEFAULT 0,
+    "backstock_partial_gallons" DECIMAL(8,2) NOT NULL DEFAULT 0,
+    "delivery_received" BOOLEAN NOT NULL DEFAULT false,
+    "delivery_count" INTEGER,
+    "delivery_gallons" DECIMAL(8,2),
+    "total_on_hand_gallons" DECIMAL(8,2) NOT NULL,
+    "calculated_usage_gallons" DECIMAL(8,2),
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "visit_log_chemical_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "usage_anomalies" (
+    "id" TEXT NOT NULL,
+    "chemical_entry_id" TEXT NOT NULL,
+    "type" "UsageAnomalyType" NOT NULL,
+    "status" "UsageAnomalyStatus" NOT NULL DEFAULT 'OPEN',
+    "observed_value" DECIMAL(8,2) NOT NULL,
+    "expected_value" DECIMAL(8,2),
+    "score" DECIMAL(8,2),
+    "message" TEXT NOT NULL,
+    "detected_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "acknowledged_at" TIMESTAMP(3),
+    "acknowledged_by" TEXT,
+    "acknowledgement_note" TEXT,
+    "resolved_at" TIMESTAMP(3),
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "usage_anomalies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "daily_chemical_usage" (
+    "id" TEXT NOT NULL,
+    "site_id" TEXT NOT NULL,
+    "chemical_site_config_id" TEXT NOT NULL,
+    "usage_date" DATE NOT NULL,
+    "usage_gallons" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "entry_count" INTEGER NOT NULL,
+    "closing_on_hand_gallons" DECIMAL(8,2) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "daily_chemical_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cost_targets" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "site_id" TEXT,
+    "chemical_type" "ChemicalType",
+    "target_cost_per_car" DECIMAL(6,2),
+    "monthly_budget" DECIMAL(10,2),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "updated_by" TEXT,
+
+    CONSTRAINT "cost_targets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "visit_log_service_entries" (
+    "id" TEXT NOT NULL,
+    "visit_log_id" TEXT NOT NULL,
+    "chemical_site_application_id" TEXT NOT NULL,
+    "equipment_changed" BOOLEAN NOT NULL DEFAULT false,
+    "previous_injector_type_id" TEXT,
+    "previous_tip_type_id" TEXT,
+    "new_injector_type_id" TEXT,
+    "new_tip_type_id" TEXT,
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "visit_log_service_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "scheduled_visits" (
+    "id" TEXT NOT NULL,
+    "site_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "scheduled_date" DATE NOT NULL,
+    "notes" TEXT,
+    "status" "ScheduledVisitStatus" NOT NULL DEFAULT 'SCHEDULED',
+    "completed_visit_log_id" TEXT,
+    "route_order" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_visits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "replenishment_orders" (
+    "id" TEXT NOT NULL,
+    "site_id" TEXT NOT NULL,
+    "scheduled_visit_id" TEXT,
+    "status" "ReplenishmentOrderStatus" NOT NULL DEFAULT 'PROPOSED',
+    "deliver_by" DATE NOT NULL,
+    "notes" TEXT,
+    "is_edited" BOOLEAN NOT NULL DEFAULT false,
+    "approved_at" TIMESTAMP(3),
+    "approved_by" TEXT,
+    "delivered_at" TIMESTAMP(3),
+    "delivered_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "replenishment_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "replenishment_order_lines" (
+    "id" TEXT NOT NULL,
+    "order_id" TEXT NOT NULL,
+    "chemical_site_config_id" TEXT NOT NULL,
+    "container_type" "ContainerType" NOT NULL,
+    "container_gallons" DECIMAL(6,2) NOT NULL,
+    "suggested_containers" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "projected_on_hand_gallons" DECIMAL(8,2) NOT NULL,
+    "average_daily_usage" DECIMAL(8,2) NOT NULL,
+    "visit_log_entry_id" TEXT,
+    "chemical_delivery_id" TEXT,
+
+    CONSTRAINT "replenishment_order_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "chemical_deliveries" (
+    "id" TEXT NOT NULL,
+    "site_id" TEXT NOT NULL,
+    "chemical_site_config_id" TEXT NOT NULL,
+    "delivery_date" DATE NOT NULL,
+    "before_visit" BOOLEAN NOT NULL DEFAULT false,
+    "container_count" INTEGER NOT NULL DEFAULT 0,
+    "gallons" DECIMAL(8,2) NOT NULL,
+    "lot_number" TEXT,
+    "invoice_number" TEXT,
+    "notes" TEXT,
+    "delivered_by" TEXT,
+    "recorded_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chemical_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "car_count_logs" (
+    "id" TEXT NOT NULL,
+    "site_id" TEXT NOT NULL,
+    "log_date" DATE NOT NULL,
+    "total_cars" INTEGER NOT NULL,
+    "source" "CarCountSource" NOT NULL DEFAULT 'MANUAL',
+    "entered_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "car_count_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "car_count_by_package" (
+    "id" TEXT NOT NULL,
+    "car_count_log_id" TEXT NOT NULL,
+    "wash_package_id" TEXT NOT NULL,
+    "car_count" INTEGER NOT NULL,
+    "membership_cars" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "car_count_by_package_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "car_count_api_keys" (
+    "id" TEXT NOT NULL,
+    "site_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "key_prefix" TEXT NOT NULL,
+    "key_hash" TEXT NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "last_used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_by" TEXT,
+
+    CONSTRAINT "car_count_api_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "organizations_slug_key" ON "organizations"("slug");
+
+-- CreateIndex
+CREATE INDEX "organizations_distributor_id_idx" ON "organizations"("distributor_id");
+
+-- CreateIndex
+CREATE INDEX "distributor_link_requests_distributor_id_idx" ON "distributor_link_requests"("distributor_id");
+
+-- CreateIndex
+CREATE INDEX "distributor_link_requests_organization_id_idx" ON "distributor_link_requests"("organization_id");
+
+-- CreateIndex
+CREATE INDEX "distributor_link_audits_organization_id_idx" ON "distributor_link_audits"("organization_id");
+
+-- CreateIndex
+CREATE INDEX "distributor_link_audits_distributor_id_idx" ON "distributor_link_audits"("distributor_id");
+
+-- CreateIndex
+CREATE INDEX "sites_organization_id_idx" ON "sites"("organization_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sites_organization_id_slug_key" ON "sites"("organization_id", "slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_phone_key" ON "users"("phone");
+
+-- CreateIndex
+CREATE INDEX "users_email_idx" ON "users"("email");
+
+-- CreateIndex
+CREATE INDEX "users_phone_idx" ON "users"("phone");
+
+-- CreateIndex
+CREATE INDEX "users_distributor_id_idx" ON "users"("distributor_id");
+
+-- CreateIndex
+CREATE INDEX "users_organization_id_idx" ON "users"("organization_id");
+
+-- CreateIndex
+CREATE INDEX "user_site_access_user_id_idx" ON "user_site_access"("user_id");
+
+-- CreateIndex
+CREATE INDEX "user_site_access_site_id_idx" ON "user_site_access"("site_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_site_access_user_id_site_id_key" ON "user_site_access"("user_id", "site_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_invites_token_hash_key" ON "user_invites"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "user_invites_email_idx" ON "user_invites"("email");
+
+-- CreateIndex
+CREATE INDEX "user_invites_distributor_id_idx" ON "user_invites"("distributor_id");
+
+-- CreateIndex
+CREATE INDEX "user_invites_organization_id_idx" ON "user_invites"("organization_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tablet_devices_token_hash_key" ON "tablet_devices"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "tablet_devices_site_id_idx" ON "tablet_devices"("site_id");
+
+-- CreateIndex
+CREATE INDEX "chemical_masters_distributor_id_idx" ON "chemical_masters"("distributor_id");
+
+-- CreateIndex
+CREATE INDEX "chemical_masters_type_idx" ON "chemical_masters"("type");
+
+-- CreateIndex
+CREATE INDEX "chemical_org_configs_organization_id_idx" ON "chemical_org_configs"("organization_id");
+
+-- CreateIndex
+CREATE INDEX "chemical_org_configs_chemical_master_id_idx" ON "chemical_org_configs"("chemical_master_id");
+
+-- CreateIndex
+CREATE INDEX "chemical_org_configs_custom_container_id_idx" ON "chemical_org_configs"("custom_container_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chemical_org_configs_chemical_master_id_organization_id_key" ON "chemical_org_configs"("chemical_master_id", "organization_id");
+
+-- CreateIndex
+CREATE INDEX "chemical_prices_effective_date_idx" ON "chemical_prices"("effective_date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chemical_prices_chemical_org_config_id_effective_date_key" ON "chemical_prices"("chemical_org_config_id", "effective_date");
+
+-- CreateIndex
+CREATE INDEX "chemical_site_configs_site_id_idx" ON "chemical_site_configs"("site_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chemical_site_configs_chemical_org_config_id_site_id_key" ON "chemical_site_configs"("chemical_org_config_id", "site_id");
+
+-- CreateIndex
+CREATE INDEX "chemical_site_applications_chemical_site_config_id_idx" ON "chemical_site_applications"("chemical_site_config_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chemical_site_applications_chemical_site_config_id_applicat_key" ON "chemical_site_applications"("chemical_site_config_id", "application_number");
+
+-- CreateIndex
+CREATE INDEX "inch_gallon_conversions_container_type_idx" ON "inch_gallon_conversions"("container_type");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inch_gallon_conversions_container_type_inches_key" ON "inch_gallon_conversions"("container_type", "inches");
+
+-- CreateIndex
+CREATE INDEX "custom_containers_distributor_id_idx" ON "custom_containers"("distributor_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "custom_containers_distributor_id_name_key" ON "custom_containers"("distributor_id", "name");
+
+-- CreateIndex
+CREATE INDEX "custom_container_conversions_custom_container_id_idx" ON "custom_container_conversions"("custom_container_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "custom_container_conversions_custom_container_id_inches_key" ON "custom_container_conversions"("custom_container_id", "inches");
+
+-- CreateIndex
+CREATE INDEX "wash_package_templates_organization_id_idx" ON "wash_package_templates"("organization_id");
+
+-- CreateIndex
+CREATE INDEX "wash_package_template_items_template_id_idx" ON "wash_package_template_items"("template_id");
+
+-- CreateIndex
+CREATE INDEX "wash_package_template_chemicals_template_item_id_idx" ON "wash_package_template_chemicals"("template_item_id");
+
+-- CreateIndex
+CREATE INDEX "wash_packages_site_id_idx" ON "wash_packages"("site_id");
+
+-- CreateIndex
+CREATE INDEX "wash_package_chemicals_wash_package_id_idx" ON "wash_package_chemicals"("wash_package_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wash_package_chemicals_wash_package_id_chemical_site_applic_key" ON "wash_package_chemicals"("wash_package_id", "chemical_site_application_id");
+
+-- CreateIndex
+CREATE INDEX "visit_logs_site_id_visit_date_idx" ON "visit_logs"("site_id", "visit_date" DESC);
+
+-- CreateIndex
+CREATE INDEX "visit_logs_user_id_idx" ON "visit_logs"("user_id");
+
+-- CreateIndex
+CREATE INDEX "visit_log_chemical_entries_visit_log_id_idx" ON "visit_log_chemical_entries"("visit_log_id");
+
+-- CreateIndex
+CREATE INDEX "visit_log_chemical_entries_chemical_site_config_id_created__idx" ON "visit_log_chemical_entries"("chemical_site_config_id", "created_at" DESC);
+
+-- CreateIndex
+CREATE INDEX "usage_anomalies_status_idx" ON "usage_anomalies"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "usage_anomalies_chemical_entry_id_type_key" ON "usage_anomalies"("chemical_entry_id", "type");
+
+-- CreateIndex
+CREATE INDEX "daily_chemical_usage_site_id_usage_date_idx" ON "daily_chemical_usage"("site_id", "usage_date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "daily_chemical_usage_chemical_site_config_id_usage_date_key" ON "daily_chemical_usage"("chemical_site_config_id", "usage_date");
+
+-- CreateIndex
+CREATE INDEX "cost_targets_site_id_idx" ON "cost_targets"("site_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cost_targets_organization_id_site_id_chemical_type_key" ON "cost_targets"("organization_id", "site_id", "chemical_type");
+
+-- CreateIndex
+CREATE INDEX "visit_log_service_entries_visit_log_id_idx" ON "visit_log_service_entries"("visit_log_id");
+
+-- CreateIndex
+CREATE INDEX "visit_log_service_entries_chemical_site_application_id_idx" ON "visit_log_service_entries"("chemical_site_application_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scheduled_visits_completed_visit_log_id_key" ON "scheduled_visits"("completed_visit_log_id");
+
+-- CreateIndex
+CREATE INDEX "scheduled_visits_site_id_scheduled_date_idx" ON "scheduled_visits"("site_id", "scheduled_date");
+
+-- CreateIndex
+CREATE INDEX "scheduled_visits_status_scheduled_date_idx" ON "scheduled_visits"("status", "scheduled_date");
+
+-- CreateIndex
+CREATE INDEX "scheduled_visits_user_id_scheduled_date_idx" ON "scheduled_visits"("user_id", "scheduled_date");
+
+-- CreateIndex
+CREATE INDEX "replenishment_orders_site_id_status_idx" ON "replenishment_orders"("site_id", "status");
+
+-- CreateIndex
+CREATE INDEX "replenishment_orders_status_deliver_by_idx" ON "replenishment_orders"("status", "deliver_by");
+
+-- CreateIndex
+CREATE INDEX "replenishment_order_lines_chemical_site_config_id_idx" ON "replenishment_order_lines"("chemical_site_config_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "replenishment_order_lines_order_id_chemical_site_config_id_key" ON "replenishment_order_lines"("order_id", "chemical_site_config_id");
+
+-- CreateIndex
+CREATE INDEX "chemical_deliveries_site_id_delivery_date_idx" ON "chemical_deliveries"("site_id", "delivery_date" DESC);
+
+-- CreateIndex
+CREATE INDEX "chemical_deliveries_chemical_site_config_id_delivery_date_idx" ON "chemical_deliveries"("chemical_site_config_id", "delivery_date");
+
+-- CreateIndex
+CREATE INDEX "chemical_deliveries_lot_number_idx" ON "chemical_deliveries"("lot_number");
+
+-- CreateIndex
+CREATE INDEX "car_count_logs_site_id_log_date_idx" ON "car_count_logs"("site_id", "log_date" DESC);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "car_count_logs_site_id_log_date_key" ON "car_count_logs"("site_id", "log_date");
+
+-- CreateIndex
+CREATE INDEX "car_count_by_package_wash_package_id_idx" ON "car_count_by_package"("wash_package_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "car_count_by_package_car_count_log_id_wash_package_id_key" ON "car_count_by_package"("car_count_log_id", "wash_package_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "car_count_api_keys_key_prefix_key" ON "car_count_api_keys"("key_prefix");
+
+-- CreateIndex
+CREATE INDEX "car_count_api_keys_site_id_idx" ON "car_count_api_keys"("site_id");
+
+-- AddForeignKey
+ALTER TABLE "organizations" ADD CONSTRAINT "organizations_distributor_id_fkey" FOREIGN KEY ("distributor_id") REFERENCES "distributors"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "distributor_link_requests" ADD CONSTRAINT "distributor_link_requests_distributor_id_fkey" FOREIGN KEY ("distributor_id") REFERENCES "distributors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "distributor_link_requests" ADD CONSTRAINT "distributor_link_requests_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "distributor_link_requests" ADD CONSTRAINT "distributor_link_requests_requested_by_fkey" FOREIGN KEY ("requested_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "distributor_link_requests" ADD CONSTRAINT "distributor_link_requests_responded_by_fkey" FOREIGN KEY ("responded_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "distributor_link_audits" ADD CONSTRAINT "distributor_link_audits_distributor_id_fkey" FOREIGN KEY ("distributor_id") REFERENCES "distributors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "distributor_link_audits" ADD CONSTRAINT "distributor_link_audits_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "distributor_link_audits" ADD CONSTRAINT "distributor_link_audits_performed_by_fkey" FOREIGN KEY ("performed_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sites" ADD CONSTRAINT "sites_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_distributor_id_fkey" FOREIGN KEY ("distributor_id") REFERENCES "distributors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_site_access" ADD CONSTRAINT "user_site_access_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_site_access" ADD CONSTRAINT "user_site_access_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_site_access" ADD CONSTRAINT "user_site_access_granted_by_fkey" FOREIGN KEY ("granted_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_invites" ADD CONSTRAINT "user_invites_distributor_id_fkey" FOREIGN KEY ("distributor_id") REFERENCES "distributors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_invites" ADD CONSTRAINT "user_invites_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_invites" ADD CONSTRAINT "user_invites_invited_by_fkey" FOREIGN KEY ("invited_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tablet_devices" ADD CONSTRAINT "tablet_devices_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tablet_devices" ADD CONSTRAINT "tablet_devices_enrolled_by_fkey" FOREIGN KEY ("enrolled_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_masters" ADD CONSTRAINT "chemical_masters_distributor_id_fkey" FOREIGN KEY ("distributor_id") REFERENCES "distributors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_masters" ADD CONSTRAINT "chemical_masters_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_org_configs" ADD CONSTRAINT "chemical_org_configs_chemical_master_id_fkey" FOREIGN KEY ("chemical_master_id") REFERENCES "chemical_masters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_org_configs" ADD CONSTRAINT "chemical_org_configs_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_org_configs" ADD CONSTRAINT "chemical_org_configs_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_org_configs" ADD CONSTRAINT "chemical_org_configs_custom_container_id_fkey" FOREIGN KEY ("custom_container_id") REFERENCES "custom_containers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_prices" ADD CONSTRAINT "chemical_prices_chemical_org_config_id_fkey" FOREIGN KEY ("chemical_org_config_id") REFERENCES "chemical_org_configs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_prices" ADD CONSTRAINT "chemical_prices_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_site_configs" ADD CONSTRAINT "chemical_site_configs_chemical_org_config_id_fkey" FOREIGN KEY ("chemical_org_config_id") REFERENCES "chemical_org_configs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_site_configs" ADD CONSTRAINT "chemical_site_configs_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_site_configs" ADD CONSTRAINT "chemical_site_configs_added_by_fkey" FOREIGN KEY ("added_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_site_applications" ADD CONSTRAINT "chemical_site_applications_chemical_site_config_id_fkey" FOREIGN KEY ("chemical_site_config_id") REFERENCES "chemical_site_configs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_site_applications" ADD CONSTRAINT "chemical_site_applications_injector_type_id_fkey" FOREIGN KEY ("injector_type_id") REFERENCES "injector_types"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_site_applications" ADD CONSTRAINT "chemical_site_applications_tip_type_id_fkey" FOREIGN KEY ("tip_type_id") REFERENCES "tip_types"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "custom_containers" ADD CONSTRAINT "custom_containers_distributor_id_fkey" FOREIGN KEY ("distributor_id") REFERENCES "distributors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "custom_containers" ADD CONSTRAINT "custom_containers_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "custom_container_conversions" ADD CONSTRAINT "custom_container_conversions_custom_container_id_fkey" FOREIGN KEY ("custom_container_id") REFERENCES "custom_containers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wash_package_templates" ADD CONSTRAINT "wash_package_templates_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wash_package_templates" ADD CONSTRAINT "wash_package_templates_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wash_package_template_items" ADD CONSTRAINT "wash_package_template_items_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "wash_package_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wash_package_template_chemicals" ADD CONSTRAINT "wash_package_template_chemicals_template_item_id_fkey" FOREIGN KEY ("template_item_id") REFERENCES "wash_package_template_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wash_package_template_chemicals" ADD CONSTRAINT "wash_package_template_chemicals_chemical_org_config_id_fkey" FOREIGN KEY ("chemical_org_config_id") REFERENCES "chemical_org_configs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wash_packages" ADD CONSTRAINT "wash_packages_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wash_packages" ADD CONSTRAINT "wash_packages_template_item_id_fkey" FOREIGN KEY ("template_item_id") REFERENCES "wash_package_template_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wash_package_chemicals" ADD CONSTRAINT "wash_package_chemicals_wash_package_id_fkey" FOREIGN KEY ("wash_package_id") REFERENCES "wash_packages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wash_package_chemicals" ADD CONSTRAINT "wash_package_chemicals_chemical_site_application_id_fkey" FOREIGN KEY ("chemical_site_application_id") REFERENCES "chemical_site_applications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "visit_logs" ADD CONSTRAINT "visit_logs_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "visit_logs" ADD CONSTRAINT "visit_logs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "visit_log_chemical_entries" ADD CONSTRAINT "visit_log_chemical_entries_visit_log_id_fkey" FOREIGN KEY ("visit_log_id") REFERENCES "visit_logs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "visit_log_chemical_entries" ADD CONSTRAINT "visit_log_chemical_entries_chemical_site_config_id_fkey" FOREIGN KEY ("chemical_site_config_id") REFERENCES "chemical_site_configs"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "usage_anomalies" ADD CONSTRAINT "usage_anomalies_chemical_entry_id_fkey" FOREIGN KEY ("chemical_entry_id") REFERENCES "visit_log_chemical_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "usage_anomalies" ADD CONSTRAINT "usage_anomalies_acknowledged_by_fkey" FOREIGN KEY ("acknowledged_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "daily_chemical_usage" ADD CONSTRAINT "daily_chemical_usage_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "daily_chemical_usage" ADD CONSTRAINT "daily_chemical_usage_chemical_site_config_id_fkey" FOREIGN KEY ("chemical_site_config_id") REFERENCES "chemical_site_configs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cost_targets" ADD CONSTRAINT "cost_targets_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cost_targets" ADD CONSTRAINT "cost_targets_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cost_targets" ADD CONSTRAINT "cost_targets_updated_by_fkey" FOREIGN KEY ("updated_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "visit_log_service_entries" ADD CONSTRAINT "visit_log_service_entries_visit_log_id_fkey" FOREIGN KEY ("visit_log_id") REFERENCES "visit_logs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "visit_log_service_entries" ADD CONSTRAINT "visit_log_service_entries_chemical_site_application_id_fkey" FOREIGN KEY ("chemical_site_application_id") REFERENCES "chemical_site_applications"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "visit_log_service_entries" ADD CONSTRAINT "visit_log_service_entries_previous_injector_type_id_fkey" FOREIGN KEY ("previous_injector_type_id") REFERENCES "injector_types"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "visit_log_service_entries" ADD CONSTRAINT "visit_log_service_entries_previous_tip_type_id_fkey" FOREIGN KEY ("previous_tip_type_id") REFERENCES "tip_types"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "visit_log_service_entries" ADD CONSTRAINT "visit_log_service_entries_new_injector_type_id_fkey" FOREIGN KEY ("new_injector_type_id") REFERENCES "injector_types"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "visit_log_service_entries" ADD CONSTRAINT "visit_log_service_entries_new_tip_type_id_fkey" FOREIGN KEY ("new_tip_type_id") REFERENCES "tip_types"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_visits" ADD CONSTRAINT "scheduled_visits_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_visits" ADD CONSTRAINT "scheduled_visits_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "scheduled_visits" ADD CONSTRAINT "scheduled_visits_completed_visit_log_id_fkey" FOREIGN KEY ("completed_visit_log_id") REFERENCES "visit_logs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "replenishment_orders" ADD CONSTRAINT "replenishment_orders_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "replenishment_orders" ADD CONSTRAINT "replenishment_orders_scheduled_visit_id_fkey" FOREIGN KEY ("scheduled_visit_id") REFERENCES "scheduled_visits"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "replenishment_orders" ADD CONSTRAINT "replenishment_orders_approved_by_fkey" FOREIGN KEY ("approved_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "replenishment_orders" ADD CONSTRAINT "replenishment_orders_delivered_by_fkey" FOREIGN KEY ("delivered_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "replenishment_order_lines" ADD CONSTRAINT "replenishment_order_lines_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "replenishment_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "replenishment_order_lines" ADD CONSTRAINT "replenishment_order_lines_chemical_site_config_id_fkey" FOREIGN KEY ("chemical_site_config_id") REFERENCES "chemical_site_configs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "replenishment_order_lines" ADD CONSTRAINT "replenishment_order_lines_visit_log_entry_id_fkey" FOREIGN KEY ("visit_log_entry_id") REFERENCES "visit_log_chemical_entries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "replenishment_order_lines" ADD CONSTRAINT "replenishment_order_lines_chemical_delivery_id_fkey" FOREIGN KEY ("chemical_delivery_id") REFERENCES "chemical_deliveries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_deliveries" ADD CONSTRAINT "chemical_deliveries_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_deliveries" ADD CONSTRAINT "chemical_deliveries_chemical_site_config_id_fkey" FOREIGN KEY ("chemical_site_config_id") REFERENCES "chemical_site_configs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_deliveries" ADD CONSTRAINT "chemical_deliveries_delivered_by_fkey" FOREIGN KEY ("delivered_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "chemical_deliveries" ADD CONSTRAINT "chemical_deliveries_recorded_by_fkey" FOREIGN KEY ("recorded_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "car_count_logs" ADD CONSTRAINT "car_count_logs_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "car_count_logs" ADD CONSTRAINT "car_count_logs_entered_by_fkey" FOREIGN KEY ("entered_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "car_count_by_package" ADD CONSTRAINT "car_count_by_package_car_count_log_id_fkey" FOREIGN KEY ("car_count_log_id") REFERENCES "car_count_logs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "car_count_by_package" ADD CONSTRAINT "car_count_by_package_wash_package_id_fkey" FOREIGN KEY ("wash_package_id") REFERENCES "wash_packages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "car_count_api_keys" ADD CONSTRAINT "car_count_api_keys_site_id_fkey" FOREIGN KEY ("site_id") REFERENCES "sites"("id") ON DELETE CASCADE ON UPDATE CASCADE;
 
-ALTER TABLE "Organization" ADD CONSTRAINT "Organization_distributorId_fkey" FOREIGN KEY ("distributorId") REFERENCES "Distributor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
-ALTER TABLE "Site" ADD CONSTRAINT "Site_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
-ALTER TABLE "User" ADD CONSTRAINT "User_distributorId_fkey" FOREIGN KEY ("distributorId") REFERENCES "Distributor"("id") ON DELETE SET NULL ON UPDATE CASCADE;
-ALTER TABLE "User" ADD CONSTRAINT "User_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
-ALTER TABLE "SiteUser" ADD CONSTRAINT "SiteUser_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "SiteUser" ADD CONSTRAINT "SiteUser_siteId_fkey" FOREIGN KEY ("siteId") REFERENCES "Site"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "ChemicalMaster" ADD CONSTRAINT "ChemicalMaster_distributorId_fkey" FOREIGN KEY ("distributorId") REFERENCES "Distributor"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "ChemicalOrgConfig" ADD CONSTRAINT "ChemicalOrgConfig_chemicalMasterId_fkey" FOREIGN KEY ("chemicalMasterId") REFERENCES "ChemicalMaster"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "ChemicalOrgConfig" ADD CONSTRAINT "ChemicalOrgConfig_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "ChemicalSiteConfig" ADD CONSTRAINT "ChemicalSiteConfig_chemicalOrgConfigId_fkey" FOREIGN KEY ("chemicalOrgConfigId") REFERENCES "ChemicalOrgConfig"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "ChemicalSiteConfig" ADD CONSTRAINT "ChemicalSiteConfig_siteId_fkey" FOREIGN KEY ("siteId") REFERENCES "Site"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "ChemicalSiteApplication" ADD CONSTRAINT "ChemicalSiteApplication_chemicalSiteConfigId_fkey" FOREIGN KEY ("chemicalSiteConfigId") REFERENCES "ChemicalSiteConfig"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "ChemicalSiteApplication" ADD CONSTRAINT "ChemicalSiteApplication_injectorTypeId_fkey" FOREIGN KEY ("injectorTypeId") REFERENCES "InjectorType"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
-ALTER TABLE "ChemicalSiteApplication" ADD CONSTRAINT "ChemicalSiteApplication_tipTypeId_fkey" FOREIGN KEY ("tipTypeId") REFERENCES "TipType"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
-ALTER TABLE "WashPackageTemplate" ADD CONSTRAINT "WashPackageTemplate_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "WashPackageTemplateChemical" ADD CONSTRAINT "WashPackageTemplateChemical_washPackageTemplateId_fkey" FOREIGN KEY ("washPackageTemplateId") REFERENCES "WashPackageTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "WashPackageTemplateChemical" ADD CONSTRAINT "WashPackageTemplateChemical_chemicalOrgConfigId_fkey" FOREIGN KEY ("chemicalOrgConfigId") REFERENCES "ChemicalOrgConfig"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "WashPackage" ADD CONSTRAINT "WashPackage_siteId_fkey" FOREIGN KEY ("siteId") REFERENCES "Site"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "WashPackage" ADD CONSTRAINT "WashPackage_washPackageTemplateId_fkey" FOREIGN KEY ("washPackageTemplateId") REFERENCES "WashPackageTemplate"("id") ON DELETE SET NULL ON UPDATE CASCADE;
-ALTER TABLE "WashPackageChemical" ADD CONSTRAINT "WashPackageChemical_washPackageId_fkey" FOREIGN KEY ("washPackageId") REFERENCES "WashPackage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "WashPackageChemical" ADD CONSTRAINT "WashPackageChemical_chemicalSiteApplicationId_fkey" FOREIGN KEY ("chemicalSiteApplicationId") REFERENCES "ChemicalSiteApplication"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "VisitLog" ADD CONSTRAINT "VisitLog_siteId_fkey" FOREIGN KEY ("siteId") REFERENCES "Site"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "VisitLog" ADD CONSTRAINT "VisitLog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
-ALTER TABLE "VisitLogChemicalEntry" ADD CONSTRAINT "VisitLogChemicalEntry_visitLogId_fkey" FOREIGN KEY ("visitLogId") REFERENCES "VisitLog"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "VisitLogChemicalEntry" ADD CONSTRAINT "VisitLogChemicalEntry_chemicalSiteConfigId_fkey" FOREIGN KEY ("chemicalSiteConfigId") REFERENCES "ChemicalSiteConfig"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
-ALTER TABLE "VisitLogServiceEntry" ADD CONSTRAINT "VisitLogServiceEntry_visitLogId_fkey" FOREIGN KEY ("visitLogId") REFERENCES "VisitLog"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "VisitLogServiceEntry" ADD CONSTRAINT "VisitLogServiceEntry_chemicalSiteApplicationId_fkey" FOREIGN KEY ("chemicalSiteApplicationId") REFERENCES "ChemicalSiteApplication"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
-ALTER TABLE "VisitLogServiceEntry" ADD CONSTRAINT "VisitLogServiceEntry_newInjectorTypeId_fkey" FOREIGN KEY ("newInjectorTypeId") REFERENCES "InjectorType"("id") ON DELETE SET NULL ON UPDATE CASCADE;
-ALTER TABLE "VisitLogServiceEntry" ADD CONSTRAINT "VisitLogServiceEntry_newTipTypeId_fkey" FOREIGN KEY ("newTipTypeId") REFERENCES "TipType"("id") ON DELETE SET NULL ON UPDATE CASCADE;
-ALTER TABLE "CarCountLog" ADD CONSTRAINT "CarCountLog_siteId_fkey" FOREIGN KEY ("siteId") REFERENCES "Site"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "CarCountByPackage" ADD CONSTRAINT "CarCountByPackage_carCountLogId_fkey" FOREIGN KEY ("carCountLogId") REFERENCES "CarCountLog"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "CarCountByPackage" ADD CONSTRAINT "CarCountByPackage_washPackageId_fkey" FOREIGN KEY ("washPackageId") REFERENCES "WashPackage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "ScheduledVisit" ADD CONSTRAINT "ScheduledVisit_siteId_fkey" FOREIGN KEY ("siteId") REFERENCES "Site"("id") ON DELETE CASCADE ON UPDATE CASCADE;
-ALTER TABLE "ScheduledVisit" ADD CONSTRAINT "ScheduledVisit_visitLogId_fkey" FOREIGN KEY ("visitLogId") REFERENCES "VisitLog"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+-- AddForeignKey
+ALTER TABLE "car_count_api_keys" ADD CONSTRAINT "car_count_api_keys_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
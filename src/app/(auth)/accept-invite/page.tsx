@@ -0,0 +1,233 @@
+// ===========================================
+// FILE: src/app/(auth)/accept-invite/page.tsx
+// PURPOSE: Accept a team invite and set a password
+// PRD REFERENCE: PRD Section 4 - Authentication System
+// ===========================================
+
+'use client';
+
+import React, { Suspense, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import Link from 'next/link';
+import { Button, Input } from '@/components/ui';
+import { acceptInviteSchema, type AcceptInviteInput } from '@/lib/validations/users';
+
+interface InviteDetails {
+  email: string;
+  role: string;
+  firstName: string | null;
+  lastName: string | null;
+  teamName: string;
+  expiresAt: string;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  DISTRIBUTOR_ADMIN: 'Distributor Admin',
+  DISTRIBUTOR_USER: 'Distributor User',
+  ORG_ADMIN: 'Organization Admin',
+  SITE_MANAGER: 'Site Manager',
+  SITE_USER: 'Site User',
+};
+
+/**
+ * Accept Invite Page
+ *
+ * WHY: Team members added by an admin arrive here from their invite email
+ * to set a password and activate their account.
+ *
+ * BUSINESS LOGIC:
+ * - The invite token from the link is validated before showing the form
+ * - Email and role come from the invite and cannot be changed
+ * - After accepting, the user signs in normally
+ */
+export default function AcceptInvitePage() {
+  return (
+    <Suspense fallback={<p className="text-center text-text-secondary">Loading invite...</p>}>
+      <AcceptInviteForm />
+    </Suspense>
+  );
+}
+
+function AcceptInviteForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<AcceptInviteInput>({
+    resolver: zodResolver(acceptInviteSchema),
+    defaultValues: { token },
+  });
+
+  /**
+   * Validate the invite token
+   */
+  useEffect(() => {
+    if (!token) {
+      setLoadError('This invite link is missing its token.');
+      return;
+    }
+
+    fetch(`/api/invites/accept?token=${encodeURIComponent(token)}`)
+      .then(async (res) => {
+        const result = await res.json();
+        if (!res.ok) {
+          setLoadError(result.error || 'This invite link is invalid.');
+          return;
+        }
+        setInvite(result);
+        reset({
+          token,
+          firstName: result.firstName || '',
+          lastName: result.lastName || '',
+        });
+      })
+      .catch(() => setLoadError('Unable to load this invite. Please try again.'));
+  }, [token, reset]);
+
+  /**
+   * Accept the invite
+   */
+  const onSubmit = async (data: AcceptInviteInput) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/invites/accept', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        setError(result.error || 'Failed to accept invite. Please try again.');
+        setIsLoading(false);
+        return;
+      }
+
+      router.push('/login?registered=true');
+    } catch (err) {
+      console.error('Accept invite error:', err);
+      setError('An error occurred. Please try again.');
+      setIsLoading(false);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <div className="text-center">
+        <h1 className="text-2xl font-bold font-heading text-text-primary mb-2">
+          Invite Unavailable
+        </h1>
+        <p className="text-sm text-text-secondary mb-6">{loadError}</p>
+        <Link href="/login" className="font-medium text-primary hover:text-primary-hover">
+          Go to sign in
+        </Link>
+      </div>
+    );
+  }
+
+  if (!invite) {
+    return <p className="text-center text-text-secondary">Loading invite...</p>;
+  }
+
+  return (
+    <>
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold font-heading text-text-primary mb-2">
+          Join {invite.teamName}
+        </h1>
+        <p className="text-sm text-text-secondary">
+          You&apos;ve been invited as a {ROLE_LABELS[invite.role] || invite.role}. Set a
+          password to activate your account.
+        </p>
+      </div>
+
+      {/* Error message */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+        <input type="hidden" {...register('token')} />
+
+        {/* Email (fixed by the invite) */}
+        <Input label="Email Address" type="email" value={invite.email} disabled readOnly />
+
+        {/* Name fields */}
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="First Name"
+            placeholder="John"
+            error={errors.firstName?.message}
+            {...register('firstName')}
+          />
+          <Input
+            label="Last Name"
+            placeholder="Doe"
+            error={errors.lastName?.message}
+            {...register('lastName')}
+          />
+        </div>
+
+        {/* Phone (optional) */}
+        <Input
+          label="Phone Number (Optional)"
+          type="tel"
+          placeholder="+1 (555) 000-0000"
+          autoComplete="tel"
+          error={errors.phone?.message}
+          {...register('phone')}
+        />
+
+        {/* Password */}
+        <Input
+          label="Password"
+          type="password"
+          placeholder="Minimum 8 characters"
+          autoComplete="new-password"
+          helperText="Must contain at least one uppercase letter and one number"
+          error={errors.password?.message}
+          {...register('password')}
+        />
+
+        {/* Confirm password */}
+        <Input
+          label="Confirm Password"
+          type="password"
+          placeholder="Re-enter your password"
+          autoComplete="new-password"
+          error={errors.confirmPassword?.message}
+          {...register('confirmPassword')}
+        />
+
+        {/* Submit button */}
+        <Button
+          type="submit"
+          variant="primary"
+          className="w-full"
+          loading={isLoading}
+          disabled={isLoading}
+        >
+          {isLoading ? 'Activating account...' : 'Activate Account'}
+        </Button>
+      </form>
+    </>
+  );
+}
@@ -0,0 +1,255 @@
+// ===========================================
+// FILE: src/app/(auth)/tablet/page.tsx
+// PURPOSE: PIN sign-in screen for shared site tablets (tablet mode)
+// PRD REFERENCE: PRD Section 4.2 - Secondary Authentication (PIN)
+// ===========================================
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { signIn } from 'next-auth/react';
+import Link from 'next/link';
+import { Button } from '@/components/ui';
+
+interface RosterUser {
+  id: string;
+  firstName: string;
+  lastInitial: string;
+}
+
+interface TabletRoster {
+  device: { id: string; name: string };
+  site: { id: string; name: string; slug: string; organizationSlug: string };
+  users: RosterUser[];
+}
+
+const PIN_MAX_LENGTH = 6;
+const PIN_MIN_LENGTH = 4;
+
+/**
+ * Messages for PIN sign-in error codes (see PIN provider in lib/auth)
+ */
+const PIN_ERROR_MESSAGES: Record<string, string> = {
+  invalid_pin: 'Incorrect PIN. Please try again.',
+  pin_locked: 'Too many incorrect attempts. PIN sign-in is locked for a few minutes.',
+  device_not_enrolled: 'This tablet is no longer enrolled. Ask a site manager to enroll it again.',
+};
+
+/**
+ * Tablet Sign-In Page
+ *
+ * WHY: Car wash crews share one tablet in the equipment room. Once a
+ * manager enrolls the tablet to a site, crew members sign in by tapping
+ * their name and entering a 4-6 digit PIN.
+ *
+ * FEATURES:
+ * - Roster of the site's users who have set a PIN
+ * - On-screen number pad (no keyboard needed)
+ * - Clear messaging for wrong PINs, lockouts and unenrolled devices
+ *
+ * BUSINESS LOGIC:
+ * - Sessions are short and auto-lock after inactivity (TabletIdleLock)
+ * - After sign-in the user lands on the tablet's site dashboard
+ */
+export default function TabletSignInPage() {
+  const router = useRouter();
+  const [roster, setRoster] = useState<TabletRoster | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedUser, setSelectedUser] = useState<RosterUser | null>(null);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Load the roster for this device
+   * WHY: The device cookie decides which site's users are listed
+   */
+  useEffect(() => {
+    fetch('/api/tablet/roster')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setRoster(data))
+      .catch((err) => console.error('Error fetching tablet roster:', err))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const selectUser = (user: RosterUser | null) => {
+    setSelectedUser(user);
+    setPin('');
+    setError(null);
+  };
+
+  const pressDigit = (digit: string) => {
+    setError(null);
+    setPin((prev) => (prev.length < PIN_MAX_LENGTH ? prev + digit : prev));
+  };
+
+  /**
+   * Submit the PIN
+   */
+  const handleSubmit = async () => {
+    if (!roster || !selectedUser || pin.length < PIN_MIN_LENGTH) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const result = await signIn('pin', {
+        userId: selectedUser.id,
+        pin,
+        siteId: roster.site.id,
+        redirect: false,
+      });
+
+      if (result?.error) {
+        setError(PIN_ERROR_MESSAGES[result.code ?? ''] ?? PIN_ERROR_MESSAGES.invalid_pin);
+        setPin('');
+        setIsSubmitting(false);
+        return;
+      }
+
+      router.push(`/dashboard/o/${roster.site.organizationSlug}/s/${roster.site.slug}`);
+      router.refresh();
+    } catch (err) {
+      console.error('PIN sign-in error:', err);
+      setError('An error occurred. Please try again.');
+      setIsSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center text-text-secondary py-8">Loading...</div>;
+  }
+
+  // Not enrolled
+  if (!roster) {
+    return (
+      <div className="text-center space-y-4">
+        <h1 className="text-2xl font-bold font-heading text-text-primary">Tablet Mode</h1>
+        <p className="text-sm text-text-secondary">
+          This device isn&apos;t enrolled for tablet mode. A site manager can enroll it
+          from Settings → Tablet Mode after signing in.
+        </p>
+        <Link href="/login">
+          <Button variant="secondary" className="w-full">
+            Sign In with Password
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="text-center mb-6">
+        <h1 className="text-2xl font-bold font-heading text-text-primary mb-2">
+          {roster.site.name}
+        </h1>
+        <p className="text-sm text-text-secondary">
+          {selectedUser
+            ? `Enter the PIN for ${selectedUser.firstName} ${selectedUser.lastInitial}.`
+            : 'Tap your name to sign in.'}
+        </p>
+      </div>
+
+      {/* Error message */}
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {!selectedUser ? (
+        roster.users.length === 0 ? (
+          <p className="text-center text-sm text-text-secondary">
+            No one at this site has set a PIN yet. Sign in with your password and set
+            one under Settings → Tablet Mode.
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            {roster.users.map((user) => (
+              <Button
+                key={user.id}
+                variant="secondary"
+                size="lg"
+                onClick={() => selectUser(user)}
+              >
+                {user.firstName} {user.lastInitial}.
+              </Button>
+            ))}
+          </div>
+        )
+      ) : (
+        <div className="space-y-4">
+          {/* PIN display */}
+          <div className="flex justify-center gap-3 h-6" aria-label="PIN entered">
+            {Array.from({ length: Math.max(pin.length, PIN_MIN_LENGTH) }).map((_, index) => (
+              <span
+                key={index}
+                className={`w-4 h-4 rounded-full border-2 border-primary ${
+                  index < pin.length ? 'bg-primary' : ''
+                }`}
+              />
+            ))}
+          </div>
+
+          {/* Number pad */}
+          <div className="grid grid-cols-3 gap-3">
+            {['1', '2', '3', '4', '5', '6', '7', '8', '9'].map((digit) => (
+              <Button
+                key={digit}
+                variant="secondary"
+                size="lg"
+                onClick={() => pressDigit(digit)}
+                disabled={isSubmitting}
+              >
+                {digit}
+              </Button>
+            ))}
+            <Button
+              variant="ghost"
+              size="lg"
+              onClick={() => setPin((prev) => prev.slice(0, -1))}
+              disabled={isSubmitting || pin.length === 0}
+            >
+              ⌫
+            </Button>
+            <Button
+              variant="secondary"
+              size="lg"
+              onClick={() => pressDigit('0')}
+              disabled={isSubmitting}
+            >
+              0
+            </Button>
+            <Button
+              size="lg"
+              onClick={handleSubmit}
+              loading={isSubmitting}
+              disabled={isSubmitting || pin.length < PIN_MIN_LENGTH}
+            >
+              Go
+            </Button>
+          </div>
+
+          <Button
+            variant="ghost"
+            className="w-full"
+            onClick={() => selectUser(null)}
+            disabled={isSubmitting}
+          >
+            Not {selectedUser.firstName}?
+          </Button>
+        </div>
+      )}
+
+      {/* Footer note */}
+      <p className="mt-6 text-center text-xs text-text-tertiary">
+        {roster.device.name} · Forgot your PIN? Ask your manager to reset it.
+      </p>
+    </div>
+  );
+}
@@ -13,16 +13,66 @@ import { useLocation, useCurrentPage } from '@/contexts/LocationContext';
 import { useDevTool } from '@/contexts/DevToolContext';
 import { buildDashboardUrl } from '@/types';
 
+// Clients icon
+const ClientsIcon = (
+  <svg fill="none" viewBox="0 0 24 24" stroke="currentColor" className="w-5 h-5">
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z"
+    />
+  </svg>
+);
+
 interface DistributorTabMenuProps {
   /** The actual user role from the server session */
   actualRole?: string;
 }
 
+// Team icon
+const TeamIcon = (
+  <svg fill="none" viewBox="0 0 24 24" stroke="currentColor" className="w-5 h-5">
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z"
+    />
+  </svg>
+);
+
+// Orders icon
+const OrdersIcon = (
+  <svg fill="none" viewBox="0 0 24 24" stroke="currentColor" className="w-5 h-5">
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M9 17a2 2 0 11-4 0 2 2 0 014 0zM19 17a2 2 0 11-4 0 2 2 0 014 0zM13 16V6a1 1 0 00-1-1H4a1 1 0 00-1 1v10a1 1 0 001 1h1m8-1a1 1 0 01-1 1H9m4-1V8a1 1 0 011-1h2.586a1 1 0 01.707.293l3.414 3.414a1 1 0 01.293.707V16a1 1 0 01-1 1h-1m-6-1a1 1 0 001 1h1M5 17a2 2 0 104 0m-4 0a2 2 0 114 0m6 0a2 2 0 104 0m-4 0a2 2 0 114 0"
+    />
+  </svg>
+);
+
+// Containers icon
+const ContainersIcon = (
+  <svg fill="none" viewBox="0 0 24 24" stroke="currentColor" className="w-5 h-5">
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4"
+    />
+  </svg>
+);
+
 /**
  * DistributorTabMenu Component
  *
  * WHY: Provides the tab navigation configuration specific to distributor users.
- * Distributors have access to: Overview, Activity, Products, Analytics
+ * Distributors have access to: Overview, Activity, Products, Analytics, Clients, Orders,
+ * Containers
+ * (plus Team for distributor admins)
  * Also includes context-aware action button on the far right.
  *
  * URL-AWARE: Tab hrefs dynamically adjust based on current location context:
@@ -84,6 +134,34 @@ export function DistributorTabMenu({ actualRole }: DistributorTabMenuProps) {
       icon: TabMenuIcons.Analytics,
       active: currentPage === 'analytics',
     },
+    {
+      id: 'clients',
+      label: 'Clients',
+      href: '/organizations',
+      icon: ClientsIcon,
+    },
+    {
+      id: 'orders',
+      label: 'Orders',
+      href: '/orders',
+      icon: OrdersIcon,
+    },
+    {
+      id: 'containers',
+      label: 'Containers',
+      href: '/containers',
+      icon: ContainersIcon,
+    },
+    ...(effectiveRole === 'DISTRIBUTOR_ADMIN'
+      ? [
+          {
+            id: 'team',
+            label: 'Team',
+            href: '/team',
+            icon: TeamIcon,
+          },
+        ]
+      : []),
   ];
 
   return <TabMenu items={distributorTabs} action={action} />;
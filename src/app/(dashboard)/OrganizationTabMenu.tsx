@@ -22,11 +22,54 @@ const WashPackagesIcon = (
   </svg>
 );
 
+// Sites icon
+const SitesIcon = (
+  <svg fill="none" viewBox="0 0 24 24" stroke="currentColor" className="w-5 h-5">
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"
+    />
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"
+    />
+  </svg>
+);
+
+// Distributor icon
+const DistributorIcon = (
+  <svg fill="none" viewBox="0 0 24 24" stroke="currentColor" className="w-5 h-5">
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z"
+    />
+  </svg>
+);
+
+// Team icon
+const TeamIcon = (
+  <svg fill="none" viewBox="0 0 24 24" stroke="currentColor" className="w-5 h-5">
+    <path
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      strokeWidth={2}
+      d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z"
+    />
+  </svg>
+);
+
 /**
  * OrganizationTabMenu Component
  *
  * WHY: Provides the tab navigation configuration specific to organization admin users.
- * Organization admins have access to: Overview, Activity, Wash Packages, Analytics
+ * Organization admins have access to: Overview, Activity, Wash Packages, Analytics, Sites,
+ * Distributor, Team
  * Also includes context-aware action button on the far right.
  *
  * VISIBLE: Only on tablet (md) and desktop (lg+) breakpoints
@@ -60,6 +103,24 @@ export function OrganizationTabMenu() {
       href: '/dashboard/analytics',
       icon: TabMenuIcons.Analytics,
     },
+    {
+      id: 'sites',
+      label: 'Sites',
+      href: '/sites',
+      icon: SitesIcon,
+    },
+    {
+      id: 'distributor',
+      label: 'Distributor',
+      href: '/organizations',
+      icon: DistributorIcon,
+    },
+    {
+      id: 'team',
+      label: 'Team',
+      href: '/team',
+      icon: TeamIcon,
+    },
   ];
 
   return <TabMenu items={organizationTabs} action={action} />;
@@ -9,14 +9,25 @@
 
 import React, { useState, useEffect } from 'react';
 import { PageContainer, PageHeader } from '@/components/layout';
-import { Card, Select } from '@/components/ui';
+import { Button, Card, Select } from '@/components/ui';
+import { CarCountForm } from '@/components/forms';
 import { CostPerCarChart } from '@/components/dashboard/CostPerCarChart';
 import { UsageTrendChart } from '@/components/dashboard/UsageTrendChart';
 import { AnalyticsSummaryCards } from '@/components/dashboard/AnalyticsSummaryCards';
+import { PeriodComparison, type PeriodComparisonData } from '@/components/dashboard/PeriodComparison';
+import {
+  PackageProfitability,
+  type PackageProfitabilityData,
+} from '@/components/dashboard/PackageProfitability';
+import { getComparisonRanges, type ComparisonPreset } from '@/lib/analytics';
+import type { BudgetSummary, TargetVariance } from '@/lib/targets';
+import { formatCurrency } from '@/lib/utils';
+import { getLocalTimeZone, getSiteToday } from '@/lib/timezone';
 
 interface Site {
   id: string;
   name: string;
+  timeZone?: string; // Browser zone is used when not provided
 }
 
 interface SiteAnalyticsDashboardProps {
@@ -30,6 +41,10 @@ interface SummaryData {
     cost: { current: number; change: number; trend: 'up' | 'down' };
     usage: { currentGallons: number; change: number; trend: 'up' | 'down' };
     chemicals: { activeCount: number; lowInventoryCount: number };
+    costPerCar: { target: TargetVariance | null };
+  };
+  targets: {
+    budget: BudgetSummary | null;
   };
   lowInventoryAlerts: Array<{
     chemicalName: string;
@@ -42,8 +57,18 @@ interface CostData {
   summary: {
     totalChemicalCost: number;
     costPerCar: number;
+    totalCars: number;
+    isEstimated: boolean;
     visitCount: number;
   };
+  carCounts: {
+    actualCars: number;
+    estimatedCars: number;
+    siteDays: number;
+    siteDaysWithData: number;
+    source: 'ACTUAL' | 'PARTIAL_ESTIMATE' | 'ESTIMATED';
+    estimatedCarsPerDay: number | null;
+  };
   chemicalBreakdown?: Array<{
     chemicalName: string;
     totalCost: number;
@@ -51,6 +76,34 @@ interface CostData {
   }>;
 }
 
+interface PackageCostData {
+  summary: {
+    unallocatedCost: number;
+    hasPackageCarCounts: boolean;
+  };
+  packages: Array<{
+    packageId: string;
+    packageName: string;
+    carCount: number;
+    totalCost: number;
+    costPerCar: number;
+    chemicalBreakdown: Array<{
+      chemicalName: string;
+      cost: number;
+      costPerCar: number;
+    }>;
+  }>;
+  trend: Array<{
+    periodStart: string;
+    costs: Record<string, number>;
+  }>;
+}
+
+/**
+ * Line colors for per-package cost series
+ */
+const PACKAGE_COLORS = ['#34D239', '#3B82F6', '#F59E0B', '#8B5CF6', '#EF4444', '#14B8A6'];
+
 interface UsageData {
   chemicals: Array<{
     chemicalId: string;
@@ -74,10 +127,14 @@ interface UsageData {
  * FEATURES:
  * - Site selector (if multiple sites)
  * - Summary metrics with trends
- * - Cost per car chart
+ * - Cost per car chart (per package, GPM-weighted)
  * - Usage trend chart
  * - Low inventory alerts
  * - Chemical breakdown table
+ * - Car count entry (flags cost per car when counts are estimated)
+ * - Period comparison (previous period / same month last year)
+ * - Package profitability (chemical cost vs. wash and membership prices)
+ * - Export of the selected period as CSV, JSON or PDF
  */
 export function SiteAnalyticsDashboard({
   sites,
@@ -90,7 +147,16 @@ export function SiteAnalyticsDashboard({
   const [summaryData, setSummaryData] = useState<SummaryData | null>(null);
   const [costData, setCostData] = useState<CostData | null>(null);
   const [usageData, setUsageData] = useState<UsageData | null>(null);
+  const [packageCostData, setPackageCostData] = useState<PackageCostData | null>(null);
   const [loading, setLoading] = useState(true);
+  const [showCarCountForm, setShowCarCountForm] = useState(false);
+  const [exportFormat, setExportFormat] = useState<'csv' | 'json' | 'pdf'>('pdf');
+  const [comparisonPreset, setComparisonPreset] = useState<ComparisonPreset>('previous_period');
+  const [comparisonData, setComparisonData] = useState<PeriodComparisonData | null>(null);
+  const [comparisonLoading, setComparisonLoading] = useState(false);
+  const [shareThreshold, setShareThreshold] = useState('10');
+  const [profitabilityData, setProfitabilityData] = useState<PackageProfitabilityData | null>(null);
+  const [profitabilityLoading, setProfitabilityLoading] = useState(false);
 
   /**
    * Fetch analytics data when site or period changes
@@ -101,15 +167,70 @@ export function SiteAnalyticsDashboard({
     }
   }, [selectedSiteId, period]);
 
+  /**
+   * Fetch the period comparison when site, period or preset changes
+   */
+  useEffect(() => {
+    if (selectedSiteId) {
+      fetchComparison();
+    }
+  }, [selectedSiteId, period, comparisonPreset]);
+
+  const fetchComparison = async () => {
+    try {
+      setComparisonLoading(true);
+      const timeZone = sites.find((s) => s.id === selectedSiteId)?.timeZone ?? getLocalTimeZone();
+      const ranges = getComparisonRanges(comparisonPreset, Number(period), getSiteToday(timeZone));
+      const params = new URLSearchParams({ siteId: selectedSiteId, ...ranges });
+      const res = await fetch(`/api/analytics/compare?${params.toString()}`);
+      setComparisonData(res.ok ? await res.json() : null);
+    } catch (error) {
+      console.error('Error fetching comparison:', error);
+    } finally {
+      setComparisonLoading(false);
+    }
+  };
+
+  /**
+   * Fetch package profitability when site, period or threshold changes
+   */
+  useEffect(() => {
+    if (selectedSiteId) {
+      fetchProfitability();
+    }
+  }, [selectedSiteId, period, shareThreshold]);
+
+  const fetchProfitability = async () => {
+    try {
+      setProfitabilityLoading(true);
+      const timeZone = sites.find((s) => s.id === selectedSiteId)?.timeZone ?? getLocalTimeZone();
+      const endDate = getSiteToday(timeZone);
+      const startDate = new Date(endDate.getTime() - (Number(period) - 1) * 24 * 60 * 60 * 1000);
+      const params = new URLSearchParams({
+        siteId: selectedSiteId,
+        startDate: startDate.toISOString().split('T')[0],
+        endDate: endDate.toISOString().split('T')[0],
+        chemicalShareThreshold: shareThreshold,
+      });
+      const res = await fetch(`/api/analytics/package-profitability?${params.toString()}`);
+      setProfitabilityData(res.ok ? await res.json() : null);
+    } catch (error) {
+      console.error('Error fetching package profitability:', error);
+    } finally {
+      setProfitabilityLoading(false);
+    }
+  };
+
   const fetchAnalytics = async () => {
     try {
       setLoading(true);
 
       // Fetch all analytics data in parallel
-      const [summaryRes, costRes, usageRes] = await Promise.all([
+      const [summaryRes, costRes, usageRes, packageCostRes] = await Promise.all([
         fetch(`/api/analytics/summary?siteId=${selectedSiteId}&period=${period}`),
         fetch(`/api/analytics/cost-per-car?siteId=${selectedSiteId}&includeBreakdown=true`),
         fetch(`/api/analytics/usage?siteId=${selectedSiteId}&period=week`),
+        fetch(`/api/analytics/package-cost?siteId=${selectedSiteId}`),
       ]);
 
       if (summaryRes.ok) {
@@ -126,6 +247,11 @@ export function SiteAnalyticsDashboard({
         const data = await usageRes.json();
         setUsageData(data);
       }
+
+      if (packageCostRes.ok) {
+        const data = await packageCostRes.json();
+        setPackageCostData(data);
+      }
     } catch (error) {
       console.error('Error fetching analytics:', error);
     } finally {
@@ -140,20 +266,23 @@ export function SiteAnalyticsDashboard({
 
   /**
    * Format cost chart data
+   * WHY: One line per package, using GPM-weighted weekly cost per car
    */
   const costChartData =
-    usageData?.chemicals
-      .filter((c) => c.trend.length > 0)
-      .slice(0, 1)
-      .flatMap((c) =>
-        c.trend.map((t) => ({
-          date: new Date(t.periodStart).toLocaleDateString('en-US', {
-            month: 'short',
-            day: 'numeric',
-          }),
-          costPerCar: costData?.summary.costPerCar || 0,
-        }))
-      ) || [];
+    packageCostData?.trend.map((t) => ({
+      date: new Date(t.periodStart).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+      }),
+      ...t.costs,
+    })) || [];
+
+  const costChartLines =
+    packageCostData?.packages.map((pkg, index) => ({
+      key: pkg.packageId,
+      name: pkg.packageName,
+      color: PACKAGE_COLORS[index % PACKAGE_COLORS.length],
+    })) || [];
 
   /**
    * Format usage chart data
@@ -172,6 +301,13 @@ export function SiteAnalyticsDashboard({
         }))
       ) || [];
 
+  /**
+   * Target and budget comparisons for the summary cards
+   * WHY: Over target / over budget reads at a glance without opening a report
+   */
+  const costTarget = summaryData?.metrics.costPerCar.target ?? null;
+  const monthBudget = summaryData?.targets.budget?.budgets[0] ?? null;
+
   /**
    * Build summary metrics
    */
@@ -186,10 +322,16 @@ export function SiteAnalyticsDashboard({
           icon: 'dollar' as const,
         },
         {
-          label: 'Cost Per Car',
+          label: costData?.summary.isEstimated ? 'Cost Per Car (est.)' : 'Cost Per Car',
           value: costData?.summary.costPerCar || 0,
           format: 'currency' as const,
           icon: 'chart' as const,
+          ...(costTarget && {
+            detail: `Target ${formatCurrency(costTarget.targetCostPerCar)} (${
+              costTarget.variancePercent > 0 ? '+' : ''
+            }${costTarget.variancePercent.toFixed(1)}%)`,
+            highlight: costTarget.isOverTarget ? ('error' as const) : ('success' as const),
+          }),
         },
         {
           label: 'Total Usage',
@@ -203,6 +345,22 @@ export function SiteAnalyticsDashboard({
           value: summaryData.metrics.chemicals.lowInventoryCount,
           icon: 'alert' as const,
         },
+        ...(monthBudget
+          ? [
+              {
+                label: 'Projected This Month',
+                value: monthBudget.projectedMonthCost,
+                format: 'currency' as const,
+                icon: 'calendar' as const,
+                detail: `Budget ${formatCurrency(monthBudget.monthlyBudget)}${
+                  monthBudget.isOverBudget
+                    ? ` · ${formatCurrency(monthBudget.projectedVariance)} over`
+                    : ''
+                }`,
+                highlight: monthBudget.isOverBudget ? ('error' as const) : ('success' as const),
+              },
+            ]
+          : []),
       ]
     : [];
 
@@ -218,11 +376,35 @@ export function SiteAnalyticsDashboard({
     );
   }
 
+  /**
+   * Download the selected period in the chosen format
+   * WHY: The export route responds with an attachment, so a plain
+   * navigation downloads it without leaving the page
+   */
+  const handleExport = () => {
+    const endDate = new Date();
+    const startDate = new Date(endDate.getTime() - Number(period) * 24 * 60 * 60 * 1000);
+    const params = new URLSearchParams({
+      siteId: selectedSiteId,
+      startDate: startDate.toISOString().split('T')[0],
+      endDate: endDate.toISOString().split('T')[0],
+      format: exportFormat,
+    });
+    window.location.href = `/api/analytics/export?${params.toString()}`;
+  };
+
   return (
     <PageContainer>
       <PageHeader
         title="Site Analytics"
         subtitle={selectedSite?.name || 'Select a site'}
+        action={
+          selectedSiteId && (
+            <Button onClick={() => setShowCarCountForm(true)}>
+              Enter Car Counts
+            </Button>
+          )
+        }
       />
 
       {/* Site and Period Selectors */}
@@ -249,6 +431,22 @@ export function SiteAnalyticsDashboard({
             { value: '90', label: 'Last 90 Days' },
           ]}
         />
+
+        <div className="flex gap-2 w-full sm:w-auto sm:ml-auto">
+          <Select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as 'csv' | 'json' | 'pdf')}
+            className="w-full sm:w-auto"
+            options={[
+              { value: 'pdf', label: 'PDF Report' },
+              { value: 'csv', label: 'CSV' },
+              { value: 'json', label: 'JSON' },
+            ]}
+          />
+          <Button variant="secondary" onClick={handleExport} disabled={!selectedSiteId}>
+            Export
+          </Button>
+        </div>
       </div>
 
       {loading ? (
@@ -262,16 +460,25 @@ export function SiteAnalyticsDashboard({
             <AnalyticsSummaryCards metrics={summaryMetrics} />
           )}
 
+          {/* Estimated car count notice */}
+          {costData?.summary.isEstimated && (
+            <div className="p-3 bg-warning/10 border border-warning/30 rounded-lg text-sm text-text-secondary">
+              {costData.carCounts.source === 'ESTIMATED'
+                ? 'No car counts recorded for this period.'
+                : `Car counts recorded for ${costData.carCounts.siteDaysWithData} of ${costData.carCounts.siteDays} days.`}{' '}
+              Missing days are estimated at {costData.carCounts.estimatedCarsPerDay} cars/day,
+              so cost per car is approximate.
+            </div>
+          )}
+
           {/* Charts Row */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Cost Per Car Chart */}
             <Card className="p-4">
               <CostPerCarChart
-                title="Cost Per Car Trend"
-                data={costChartData.length > 0 ? costChartData : []}
-                lines={[
-                  { key: 'costPerCar', name: 'Cost/Car', color: '#34D239' },
-                ]}
+                title="Cost Per Car by Package"
+                data={packageCostData?.summary.hasPackageCarCounts ? costChartData : []}
+                lines={costChartLines}
               />
             </Card>
 
@@ -285,6 +492,14 @@ export function SiteAnalyticsDashboard({
             </Card>
           </div>
 
+          {/* Period Comparison */}
+          <PeriodComparison
+            data={comparisonData}
+            preset={comparisonPreset}
+            onPresetChange={setComparisonPreset}
+            loading={comparisonLoading}
+          />
+
           {/* Low Inventory Alerts */}
           {summaryData &&
             summaryData.lowInventoryAlerts &&
@@ -318,6 +533,74 @@ export function SiteAnalyticsDashboard({
               </Card>
             )}
 
+          {/* Package Cost Table */}
+          {packageCostData?.summary.hasPackageCarCounts && (
+            <Card className="p-4">
+              <h3 className="text-lg font-semibold text-text-primary mb-4">
+                Package Cost Per Car
+              </h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left py-2 px-3 text-text-secondary font-medium">
+                        Package
+                      </th>
+                      <th className="text-right py-2 px-3 text-text-secondary font-medium">
+                        Cars
+                      </th>
+                      <th className="text-right py-2 px-3 text-text-secondary font-medium">
+                        Chemical Cost
+                      </th>
+                      <th className="text-right py-2 px-3 text-text-secondary font-medium">
+                        Cost/Car
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {packageCostData.packages.map((pkg) => (
+                      <tr key={pkg.packageId} className="border-b border-border-light">
+                        <td className="py-2 px-3 text-text-primary">
+                          {pkg.packageName}
+                          {pkg.chemicalBreakdown.length > 0 && (
+                            <p className="text-xs text-text-secondary">
+                              {pkg.chemicalBreakdown
+                                .map((chem) => `${chem.chemicalName} $${chem.costPerCar.toFixed(2)}`)
+                                .join(' · ')}
+                            </p>
+                          )}
+                        </td>
+                        <td className="py-2 px-3 text-text-primary text-right">
+                          {pkg.carCount.toLocaleString()}
+                        </td>
+                        <td className="py-2 px-3 text-text-primary text-right">
+                          ${pkg.totalCost.toFixed(2)}
+                        </td>
+                        <td className="py-2 px-3 text-text-primary text-right font-medium">
+                          ${pkg.costPerCar.toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {packageCostData.summary.unallocatedCost > 0 && (
+                <p className="text-xs text-text-secondary mt-3">
+                  ${packageCostData.summary.unallocatedCost.toFixed(2)} of chemical cost is not
+                  assigned to a package with recorded car counts.
+                </p>
+              )}
+            </Card>
+          )}
+
+          {/* Package Profitability */}
+          <PackageProfitability
+            data={profitabilityData}
+            threshold={shareThreshold}
+            onThresholdChange={setShareThreshold}
+            loading={profitabilityLoading}
+          />
+
           {/* Chemical Breakdown Table */}
           {costData?.chemicalBreakdown && costData.chemicalBreakdown.length > 0 && (
             <Card className="p-4">
@@ -375,6 +658,20 @@ export function SiteAnalyticsDashboard({
           )}
         </div>
       )}
+
+      {/* Car Count Entry Modal */}
+      {selectedSiteId && (
+        <CarCountForm
+          isOpen={showCarCountForm}
+          onClose={() => setShowCarCountForm(false)}
+          onSuccess={() => {
+            fetchAnalytics();
+            fetchComparison();
+            fetchProfitability();
+          }}
+          siteId={selectedSiteId}
+        />
+      )}
     </PageContainer>
   );
 }
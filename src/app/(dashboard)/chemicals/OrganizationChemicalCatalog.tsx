@@ -11,6 +11,7 @@ import React, { useState, useEffect } from 'react';
 import { PageContainer, PageHeader } from '@/components/layout';
 import { Card } from '@/components/ui';
 import { SiteChemicalConfigForm } from '@/components/forms';
+import { formatCalendarDate, formatCurrency } from '@/lib/utils';
 
 interface OrganizationChemicalCatalogProps {
   organizationId: string;
@@ -132,8 +133,14 @@ export function OrganizationChemicalCatalog({
                   <div>
                     <p className="text-text-tertiary">Cost</p>
                     <p className="text-text-primary font-medium">
-                      ${config.containerCost.toFixed(2)}
+                      {formatCurrency(config.currentPrice.costPerContainer)}
                     </p>
+                    {config.nextPriceChange && (
+                      <p className="text-xs text-text-secondary">
+                        {formatCurrency(config.nextPriceChange.costPerContainer)} from{' '}
+                        {formatCalendarDate(config.nextPriceChange.effectiveDate)}
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -0,0 +1,245 @@
+// ===========================================
+// FILE: src/app/(dashboard)/containers/ContainerLibrary.tsx
+// PURPOSE: Distributor library of custom containers and their calibration
+// PRD REFERENCE: Implementation Guide - Section "Inch-to-Gallon Interpolation"
+// USED BY: Containers page
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { PageContainer, PageHeader } from '@/components/layout';
+import { Button, Card } from '@/components/ui';
+import { ContainerCalibrationForm, CustomContainerForm } from '@/components/forms';
+import { cn } from '@/lib/utils';
+import type { ContainerShape } from '@/types';
+
+interface CustomContainer {
+  id: string;
+  name: string;
+  shape: ContainerShape;
+  capacityGallons: number;
+  heightInches: number | null;
+  diameterInches: number | null;
+  lengthInches: number | null;
+  widthInches: number | null;
+  notes: string | null;
+  isActive: boolean;
+  chartPoints: number;
+  orgConfigs: number;
+}
+
+interface ContainerLibraryProps {
+  canEdit: boolean; // Distributor admins add, edit and calibrate
+}
+
+/**
+ * Labels for each container shape
+ */
+const SHAPE_LABELS: Record<ContainerShape, string> = {
+  CYLINDER: 'Cylinder',
+  RECTANGULAR: 'Rectangular',
+  IRREGULAR: 'Irregular',
+};
+
+/**
+ * Dimensions of a container for display, e.g. 24" × 30" dia
+ */
+function formatDimensions(container: CustomContainer): string {
+  if (container.shape === 'CYLINDER' && container.heightInches && container.diameterInches) {
+    return `${container.heightInches}" tall × ${container.diameterInches}" dia`;
+  }
+  if (container.shape === 'RECTANGULAR' && container.heightInches) {
+    return `${container.lengthInches}" × ${container.widthInches}" × ${container.heightInches}" tall`;
+  }
+  return container.heightInches ? `${container.heightInches}" tall` : '--';
+}
+
+/**
+ * ContainerLibrary Component
+ *
+ * WHY: Holding tanks don't all come in 10, 15 or 20 gallons. Custom
+ * containers carry their own size and inch chart, and org chemicals
+ * using them convert inch readings with that chart.
+ *
+ * FEATURES:
+ * - Containers with shape, dimensions, capacity and chart status
+ * - Add, edit and delete containers (admins)
+ * - Calibrate from readings or dimensions (admins)
+ */
+export function ContainerLibrary({ canEdit }: ContainerLibraryProps) {
+  const [containers, setContainers] = useState<CustomContainer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingContainer, setEditingContainer] = useState<CustomContainer | null>(null);
+  const [calibratingContainer, setCalibratingContainer] = useState<CustomContainer | null>(null);
+
+  useEffect(() => {
+    fetchContainers();
+  }, []);
+
+  const fetchContainers = async () => {
+    try {
+      setLoading(true);
+      const res = await fetch('/api/containers');
+      const data = res.ok ? await res.json() : [];
+      const toNumber = (value: unknown) => (value === null ? null : Number(value));
+
+      setContainers(
+        data.map((container: any) => ({
+          ...container,
+          capacityGallons: Number(container.capacityGallons),
+          heightInches: toNumber(container.heightInches),
+          diameterInches: toNumber(container.diameterInches),
+          lengthInches: toNumber(container.lengthInches),
+          widthInches: toNumber(container.widthInches),
+          chartPoints: container._count.conversions,
+          orgConfigs: container._count.orgConfigs,
+        }))
+      );
+    } catch (error) {
+      console.error('Error fetching custom containers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (container: CustomContainer) => {
+    if (!confirm(`Delete ${container.name}?`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/containers/${container.id}`, { method: 'DELETE' });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to delete container');
+      }
+
+      fetchContainers();
+    } catch (error: any) {
+      console.error('Error deleting custom container:', error);
+      alert(error.message || 'Failed to delete container. Please try again.');
+    }
+  };
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Containers"
+        subtitle="Custom tanks and their inch-to-gallon charts"
+        action={canEdit && <Button onClick={() => setShowAddForm(true)}>Add Container</Button>}
+      />
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="text-text-secondary">Loading containers...</div>
+        </div>
+      ) : containers.length === 0 ? (
+        <Card className="p-8 text-center">
+          <p className="text-text-secondary">
+            No custom containers. Add one for tanks the standard container types don&apos;t cover.
+          </p>
+        </Card>
+      ) : (
+        <Card className="p-4">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-2 px-3 text-text-secondary font-medium">Name</th>
+                  <th className="text-left py-2 px-3 text-text-secondary font-medium">Shape</th>
+                  <th className="text-left py-2 px-3 text-text-secondary font-medium">Dimensions</th>
+                  <th className="text-right py-2 px-3 text-text-secondary font-medium">Capacity</th>
+                  <th className="text-left py-2 px-3 text-text-secondary font-medium">Chart</th>
+                  <th className="text-right py-2 px-3 text-text-secondary font-medium">In Use</th>
+                  <th className="py-2 px-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {containers.map((container) => (
+                  <tr
+                    key={container.id}
+                    className={cn('border-b border-border-light', !container.isActive && 'opacity-60')}
+                  >
+                    <td className="py-2 px-3 text-text-primary">
+                      {container.name}
+                      {!container.isActive && (
+                        <span className="ml-2 text-xs text-text-secondary">Inactive</span>
+                      )}
+                      {container.notes && (
+                        <p className="text-xs text-text-secondary">{container.notes}</p>
+                      )}
+                    </td>
+                    <td className="py-2 px-3 text-text-secondary">{SHAPE_LABELS[container.shape]}</td>
+                    <td className="py-2 px-3 text-text-secondary">{formatDimensions(container)}</td>
+                    <td className="py-2 px-3 text-text-primary text-right">
+                      {container.capacityGallons.toFixed(1)} gal
+                    </td>
+                    <td
+                      className={cn(
+                        'py-2 px-3',
+                        container.chartPoints > 0 ? 'text-text-secondary' : 'text-warning'
+                      )}
+                    >
+                      {container.chartPoints > 0 ? `${container.chartPoints} points` : 'Not calibrated'}
+                    </td>
+                    <td className="py-2 px-3 text-text-secondary text-right">
+                      {container.orgConfigs}
+                    </td>
+                    <td className="py-2 px-3">
+                      {canEdit && (
+                        <div className="flex justify-end items-center gap-2">
+                          <Button variant="secondary" size="sm" onClick={() => setCalibratingContainer(container)}>
+                            Calibrate
+                          </Button>
+                          <Button variant="secondary" size="sm" onClick={() => setEditingContainer(container)}>
+                            Edit
+                          </Button>
+                          <button
+                            onClick={() => handleDelete(container)}
+                            className="text-error hover:underline text-xs"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      {/* Add Container Form */}
+      <CustomContainerForm
+        isOpen={showAddForm}
+        onClose={() => setShowAddForm(false)}
+        onSuccess={fetchContainers}
+      />
+
+      {/* Edit Container Form */}
+      {editingContainer && (
+        <CustomContainerForm
+          isOpen={!!editingContainer}
+          onClose={() => setEditingContainer(null)}
+          onSuccess={fetchContainers}
+          container={editingContainer}
+        />
+      )}
+
+      {/* Calibration Form */}
+      {calibratingContainer && (
+        <ContainerCalibrationForm
+          isOpen={!!calibratingContainer}
+          onClose={() => setCalibratingContainer(null)}
+          onSuccess={fetchContainers}
+          container={calibratingContainer}
+        />
+      )}
+    </PageContainer>
+  );
+}
@@ -0,0 +1,45 @@
+// ===========================================
+// FILE: src/app/(dashboard)/containers/page.tsx
+// PURPOSE: Custom container library page for distributors
+// PRD REFERENCE: Implementation Guide - Section "Inch-to-Gallon Interpolation"
+// ===========================================
+
+import React from 'react';
+import { auth } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { ContainerLibrary } from './ContainerLibrary';
+
+/**
+ * Containers Page
+ *
+ * WHY: Distributors define the odd tanks they install (cones, totes) and
+ * calibrate them so techs can read them in inches.
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN (edit), DISTRIBUTOR_USER (view)
+ */
+export default async function ContainersPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  const { role } = session.user;
+
+  if (role !== 'DISTRIBUTOR_ADMIN' && role !== 'DISTRIBUTOR_USER') {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+          <h2 className="text-lg font-semibold text-yellow-800 mb-2">
+            Access Restricted
+          </h2>
+          <p className="text-yellow-700">
+            Only distributors can manage custom containers.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return <ContainerLibrary canEdit={role === 'DISTRIBUTOR_ADMIN'} />;
+}
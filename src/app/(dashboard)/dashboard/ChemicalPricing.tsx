@@ -0,0 +1,377 @@
+// ===========================================
+// FILE: src/app/(dashboard)/dashboard/ChemicalPricing.tsx
+// PURPOSE: A client's chemical prices, price history and scheduled changes
+// PRD REFERENCE: PRD Section 3.2 - Organization Chemical Configuration
+// USED BY: /dashboard/o/[orgSlug]/chemical
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { PageContainer, PageHeader } from '@/components/layout';
+import { Button, Card } from '@/components/ui';
+import { PriceChangeForm } from '@/components/forms';
+import { cn, formatCalendarDate, formatCurrency, formatDate } from '@/lib/utils';
+import type { ChemicalPriceValues } from '@/lib/prices';
+
+interface ChemicalPricingProps {
+  organizationId: string;
+  organizationName: string;
+  canEdit: boolean; // Distributor admins schedule and cancel changes
+}
+
+interface OrgChemical {
+  id: string;
+  chemicalMaster: { name: string };
+  currentPrice: ChemicalPriceValues;
+  nextPriceChange: (ChemicalPriceValues & { effectiveDate: string }) | null;
+}
+
+interface PriceHistory {
+  openingPrice: ChemicalPriceValues;
+  changes: Array<ChemicalPriceValues & {
+    id: string;
+    effectiveDate: string;
+    note: string | null;
+    isScheduled: boolean;
+    clientNotifiedAt: string | null;
+    creator: { firstName: string | null; lastName: string | null } | null;
+  }>;
+}
+
+interface PriceChangeRow extends ChemicalPriceValues {
+  id: string;
+  chemicalName: string;
+  effectiveDate: string;
+  previousCostPerGallon: number;
+  changePercent: number | null;
+  isScheduled: boolean;
+  clientNotifiedAt: string | null;
+}
+
+/**
+ * ChemicalPricing Component
+ *
+ * WHY: Prices change over time, and cost analytics value each visit at
+ * the price in effect that day. This page shows what a client pays now,
+ * what's about to change and what has changed.
+ *
+ * FEATURES:
+ * - Current price per chemical, with the next scheduled change
+ * - Price history per chemical (cancel scheduled changes)
+ * - Schedule a price change, optionally emailing the client
+ * - Price change report for the last 12 months and upcoming changes
+ */
+export function ChemicalPricing({
+  organizationId,
+  organizationName,
+  canEdit,
+}: ChemicalPricingProps) {
+  const [chemicals, setChemicals] = useState<OrgChemical[]>([]);
+  const [report, setReport] = useState<PriceChangeRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [history, setHistory] = useState<PriceHistory | null>(null);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [selectedChemical, setSelectedChemical] = useState<OrgChemical | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, [organizationId]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [chemicalsRes, reportRes] = await Promise.all([
+        fetch(`/api/chemicals/org-config?organizationId=${organizationId}`),
+        fetch(`/api/analytics/price-changes?organizationId=${organizationId}`),
+      ]);
+
+      setChemicals(chemicalsRes.ok ? await chemicalsRes.json() : []);
+      if (reportRes.ok) {
+        const data = await reportRes.json();
+        setReport(data.clients[0]?.changes ?? []);
+      } else {
+        setReport([]);
+      }
+    } catch (error) {
+      console.error('Error fetching chemical pricing:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchHistory = async (chemicalId: string) => {
+    try {
+      setHistoryLoading(true);
+      const res = await fetch(`/api/chemicals/org-config/${chemicalId}/prices`);
+      setHistory(res.ok ? await res.json() : null);
+    } catch (error) {
+      console.error('Error fetching price history:', error);
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  const handleToggleHistory = (chemicalId: string) => {
+    if (expandedId === chemicalId) {
+      setExpandedId(null);
+      setHistory(null);
+      return;
+    }
+    setExpandedId(chemicalId);
+    setHistory(null);
+    fetchHistory(chemicalId);
+  };
+
+  const handleCancelChange = async (chemicalId: string, priceId: string) => {
+    if (!confirm('Cancel this scheduled price change?')) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/chemicals/org-config/${chemicalId}/prices/${priceId}`, {
+        method: 'DELETE',
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to cancel price change');
+      }
+
+      fetchData();
+      fetchHistory(chemicalId);
+    } catch (error: any) {
+      console.error('Error cancelling price change:', error);
+      alert(error.message || 'Failed to cancel price change. Please try again.');
+    }
+  };
+
+  const handleScheduleSuccess = () => {
+    fetchData();
+    if (expandedId) {
+      fetchHistory(expandedId);
+    }
+  };
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Chemical Pricing"
+        subtitle={`Prices and scheduled changes for ${organizationName}`}
+      />
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="text-text-secondary">Loading pricing...</div>
+        </div>
+      ) : chemicals.length === 0 ? (
+        <Card>
+          <div className="p-6 text-center text-text-secondary">
+            No chemicals configured for this organization
+          </div>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {/* Current prices */}
+          <Card className="p-4">
+            <h3 className="text-lg font-semibold text-text-primary mb-4">Current Prices</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-2 px-3 text-text-secondary font-medium">Chemical</th>
+                    <th className="text-right py-2 px-3 text-text-secondary font-medium">Per Container</th>
+                    <th className="text-right py-2 px-3 text-text-secondary font-medium">Per Gallon</th>
+                    <th className="text-left py-2 px-3 text-text-secondary font-medium">Next Change</th>
+                    <th className="py-2 px-3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {chemicals.map((chemical) => (
+                    <React.Fragment key={chemical.id}>
+                      <tr className="border-b border-border-light">
+                        <td className="py-2 px-3 text-text-primary font-medium">
+                          {chemical.chemicalMaster.name}
+                        </td>
+                        <td className="py-2 px-3 text-text-primary text-right">
+                          {formatCurrency(chemical.currentPrice.costPerContainer)}
+                        </td>
+                        <td className="py-2 px-3 text-text-primary text-right">
+                          {formatCurrency(chemical.currentPrice.costPerGallon)}
+                        </td>
+                        <td className="py-2 px-3 text-text-secondary">
+                          {chemical.nextPriceChange
+                            ? `${formatCurrency(chemical.nextPriceChange.costPerGallon)}/gal from ${formatCalendarDate(chemical.nextPriceChange.effectiveDate)}`
+                            : '--'}
+                        </td>
+                        <td className="py-2 px-3">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              onClick={() => handleToggleHistory(chemical.id)}
+                            >
+                              {expandedId === chemical.id ? 'Hide History' : 'History'}
+                            </Button>
+                            {canEdit && (
+                              <Button size="sm" onClick={() => setSelectedChemical(chemical)}>
+                                Change Price
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+
+                      {/* Price history */}
+                      {expandedId === chemical.id && (
+                        <tr className="border-b border-border-light bg-bg-secondary">
+                          <td colSpan={5} className="py-3 px-3">
+                            {historyLoading || !history ? (
+                              <p className="text-text-secondary">Loading history...</p>
+                            ) : (
+                              <table className="w-full text-sm">
+                                <thead>
+                                  <tr className="border-b border-border">
+                                    <th className="text-left py-1 px-2 text-text-secondary font-medium">Effective</th>
+                                    <th className="text-right py-1 px-2 text-text-secondary font-medium">Per Container</th>
+                                    <th className="text-right py-1 px-2 text-text-secondary font-medium">Per Gallon</th>
+                                    <th className="text-left py-1 px-2 text-text-secondary font-medium">Note</th>
+                                    <th className="text-left py-1 px-2 text-text-secondary font-medium">Client Notified</th>
+                                    <th className="py-1 px-2"></th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {history.changes.map((change) => (
+                                    <tr key={change.id} className="border-b border-border-light">
+                                      <td className="py-1 px-2 text-text-primary">
+                                        {formatCalendarDate(change.effectiveDate)}
+                                        {change.isScheduled && (
+                                          <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-warning/10 text-warning">
+                                            Scheduled
+                                          </span>
+                                        )}
+                                      </td>
+                                      <td className="py-1 px-2 text-text-primary text-right">
+                                        {formatCurrency(change.costPerContainer)}
+                                      </td>
+                                      <td className="py-1 px-2 text-text-primary text-right">
+                                        {formatCurrency(change.costPerGallon)}
+                                      </td>
+                                      <td className="py-1 px-2 text-text-secondary">{change.note || '--'}</td>
+                                      <td className="py-1 px-2 text-text-secondary">
+                                        {change.clientNotifiedAt ? formatDate(change.clientNotifiedAt) : '--'}
+                                      </td>
+                                      <td className="py-1 px-2 text-right">
+                                        {canEdit && change.isScheduled && (
+                                          <button
+                                            onClick={() => handleCancelChange(chemical.id, change.id)}
+                                            className="text-error hover:underline text-xs"
+                                          >
+                                            Cancel
+                                          </button>
+                                        )}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                  <tr>
+                                    <td className="py-1 px-2 text-text-secondary">Opening price</td>
+                                    <td className="py-1 px-2 text-text-secondary text-right">
+                                      {formatCurrency(history.openingPrice.costPerContainer)}
+                                    </td>
+                                    <td className="py-1 px-2 text-text-secondary text-right">
+                                      {formatCurrency(history.openingPrice.costPerGallon)}
+                                    </td>
+                                    <td colSpan={3}></td>
+                                  </tr>
+                                </tbody>
+                              </table>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+
+          {/* Price change report */}
+          <Card className="p-4">
+            <h3 className="text-lg font-semibold text-text-primary mb-1">Price Changes</h3>
+            <p className="text-sm text-text-secondary mb-4">
+              Changes over the last 12 months and any scheduled ahead.
+            </p>
+            {report.length === 0 ? (
+              <p className="text-text-secondary text-center py-4">No price changes</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left py-2 px-3 text-text-secondary font-medium">Effective</th>
+                      <th className="text-left py-2 px-3 text-text-secondary font-medium">Chemical</th>
+                      <th className="text-right py-2 px-3 text-text-secondary font-medium">Was (per gal)</th>
+                      <th className="text-right py-2 px-3 text-text-secondary font-medium">Now (per gal)</th>
+                      <th className="text-right py-2 px-3 text-text-secondary font-medium">Change</th>
+                      <th className="text-left py-2 px-3 text-text-secondary font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.map((row) => (
+                      <tr key={row.id} className="border-b border-border-light">
+                        <td className="py-2 px-3 text-text-primary">{formatCalendarDate(row.effectiveDate)}</td>
+                        <td className="py-2 px-3 text-text-primary">{row.chemicalName}</td>
+                        <td className="py-2 px-3 text-text-secondary text-right">
+                          {formatCurrency(row.previousCostPerGallon)}
+                        </td>
+                        <td className="py-2 px-3 text-text-primary text-right font-medium">
+                          {formatCurrency(row.costPerGallon)}
+                        </td>
+                        <td
+                          className={cn(
+                            'py-2 px-3 text-right font-medium',
+                            row.changePercent === null
+                              ? 'text-text-secondary'
+                              : row.changePercent > 0
+                                ? 'text-error'
+                                : 'text-success'
+                          )}
+                        >
+                          {row.changePercent !== null
+                            ? `${row.changePercent > 0 ? '+' : ''}${row.changePercent}%`
+                            : '--'}
+                        </td>
+                        <td className="py-2 px-3 text-text-secondary">
+                          {row.isScheduled ? 'Scheduled' : 'In effect'}
+                          {row.clientNotifiedAt && (
+                            <span className="block text-xs">Client notified</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+        </div>
+      )}
+
+      {/* Schedule Price Change Form */}
+      {selectedChemical && (
+        <PriceChangeForm
+          isOpen={!!selectedChemical}
+          onClose={() => setSelectedChemical(null)}
+          onSuccess={handleScheduleSuccess}
+          chemical={{
+            id: selectedChemical.id,
+            name: selectedChemical.chemicalMaster.name,
+            currentPrice: selectedChemical.currentPrice,
+          }}
+        />
+      )}
+    </PageContainer>
+  );
+}
@@ -0,0 +1,361 @@
+// ===========================================
+// FILE: src/app/(dashboard)/dashboard/CostTargets.tsx
+// PURPOSE: A client's cost-per-car targets, monthly budgets and how they're tracking
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// USED BY: /dashboard/o/[orgSlug]/targets
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { PageContainer, PageHeader } from '@/components/layout';
+import { Button, Card } from '@/components/ui';
+import { CostTargetForm } from '@/components/forms';
+import { cn, formatCalendarDate, formatCurrency, formatDate } from '@/lib/utils';
+import type { BudgetSummary, TargetVariance } from '@/lib/targets';
+import type { ChemicalType } from '@/types';
+
+/**
+ * Display labels for chemical types
+ */
+const CHEMICAL_TYPE_LABELS: Record<ChemicalType, string> = {
+  PREP_SOAP: 'Prep Soap',
+  HIGH_PH_PRESOAK: 'High pH Presoak',
+  LOW_PH_PRESOAK: 'Low pH Presoak',
+  WHEEL_TIRE_CLEANER: 'Wheel & Tire Cleaner',
+  FOAM_DETERGENT: 'Foam Detergent',
+  FRAGRANCE: 'Fragrance',
+  TRI_COLOR: 'Tri-Color',
+  PROTECTANT: 'Protectant',
+  DRY_AGENT: 'Dry Agent',
+  TIRE_SHINE: 'Tire Shine',
+  OTHER: 'Other',
+};
+
+interface CostTargetsProps {
+  organizationId: string;
+  organizationName: string;
+  sites: Array<{ id: string; name: string }>;
+  canEdit: boolean; // Distributor admins and org admins
+}
+
+interface CostTargetRow {
+  id: string;
+  siteId: string | null;
+  site: { id: string; name: string } | null;
+  chemicalType: ChemicalType | null;
+  targetCostPerCar: number | null;
+  monthlyBudget: number | null;
+  updatedAt: string;
+  updatedByUser: { firstName: string | null; lastName: string | null } | null;
+}
+
+interface TargetStatus {
+  variance: TargetVariance[];
+  budget: BudgetSummary | null;
+  sitesOverBudget: Array<{
+    siteId: string;
+    siteName: string;
+    chemicalType: ChemicalType | null;
+    monthlyBudget: number;
+    projectedMonthCost: number;
+    projectedVariance: number;
+  }>;
+}
+
+/**
+ * Label for a chemical type scope
+ */
+function chemicalTypeLabel(chemicalType: ChemicalType | null): string {
+  return chemicalType ? CHEMICAL_TYPE_LABELS[chemicalType] : 'All chemicals';
+}
+
+/**
+ * CostTargets Component
+ *
+ * WHY: A cost-per-car promise or a monthly budget only helps if someone
+ * sees it slipping. This page keeps the targets and the current standing
+ * side by side.
+ *
+ * FEATURES:
+ * - Cost per car vs. target over the last 30 days
+ * - Organization budget and sites projected over budget this month
+ * - Target list (add, edit, delete)
+ */
+export function CostTargets({
+  organizationId,
+  organizationName,
+  sites,
+  canEdit,
+}: CostTargetsProps) {
+  const [targets, setTargets] = useState<CostTargetRow[]>([]);
+  const [status, setStatus] = useState<TargetStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingTarget, setEditingTarget] = useState<CostTargetRow | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, [organizationId]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [targetsRes, summaryRes] = await Promise.all([
+        fetch(`/api/targets?organizationId=${organizationId}`),
+        fetch(`/api/analytics/summary?organizationId=${organizationId}&period=30`),
+      ]);
+
+      setTargets(targetsRes.ok ? await targetsRes.json() : []);
+      setStatus(summaryRes.ok ? (await summaryRes.json()).targets : null);
+    } catch (error) {
+      console.error('Error fetching cost targets:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (target: CostTargetRow) => {
+    if (!confirm('Delete this target?')) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/targets/${target.id}`, { method: 'DELETE' });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to delete target');
+      }
+
+      fetchData();
+    } catch (error: any) {
+      console.error('Error deleting cost target:', error);
+      alert(error.message || 'Failed to delete target. Please try again.');
+    }
+  };
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Targets & Budgets"
+        subtitle={`Cost per car and monthly chemical spend for ${organizationName}`}
+        action={
+          canEdit ? <Button onClick={() => setShowAddForm(true)}>Add Target</Button> : undefined
+        }
+      />
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="text-text-secondary">Loading targets...</div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* Current standing */}
+          {status && (status.variance.length > 0 || status.budget || status.sitesOverBudget.length > 0) && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {status.variance.length > 0 && (
+                <Card className="p-4">
+                  <h3 className="text-lg font-semibold text-text-primary mb-1">Cost Per Car vs. Target</h3>
+                  <p className="text-sm text-text-secondary mb-4">Last 30 days, sites with a target</p>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left py-2 px-3 text-text-secondary font-medium">Chemicals</th>
+                        <th className="text-right py-2 px-3 text-text-secondary font-medium">Actual</th>
+                        <th className="text-right py-2 px-3 text-text-secondary font-medium">Target</th>
+                        <th className="text-right py-2 px-3 text-text-secondary font-medium">Variance</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {status.variance.map((line) => (
+                        <tr key={line.chemicalType ?? 'ALL'} className="border-b border-border-light">
+                          <td className="py-2 px-3 text-text-primary">{chemicalTypeLabel(line.chemicalType)}</td>
+                          <td className="py-2 px-3 text-text-primary text-right">
+                            {formatCurrency(line.actualCostPerCar)}
+                          </td>
+                          <td className="py-2 px-3 text-text-secondary text-right">
+                            {formatCurrency(line.targetCostPerCar)}
+                          </td>
+                          <td
+                            className={cn(
+                              'py-2 px-3 text-right font-medium',
+                              line.isOverTarget ? 'text-error' : 'text-success'
+                            )}
+                          >
+                            {line.variancePercent > 0 ? '+' : ''}
+                            {line.variancePercent.toFixed(1)}%
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </Card>
+              )}
+
+              {(status.budget || status.sitesOverBudget.length > 0) && (
+                <Card className="p-4">
+                  <h3 className="text-lg font-semibold text-text-primary mb-1">This Month</h3>
+                  {status.budget && (
+                    <>
+                      <p className="text-sm text-text-secondary mb-4">
+                        Projected from spend through {formatCalendarDate(status.budget.asOf)} (day{' '}
+                        {status.budget.daysElapsed} of {status.budget.daysInMonth})
+                      </p>
+                      <table className="w-full text-sm mb-4">
+                        <thead>
+                          <tr className="border-b border-border">
+                            <th className="text-left py-2 px-3 text-text-secondary font-medium">Budget</th>
+                            <th className="text-right py-2 px-3 text-text-secondary font-medium">To Date</th>
+                            <th className="text-right py-2 px-3 text-text-secondary font-medium">Projected</th>
+                            <th className="text-right py-2 px-3 text-text-secondary font-medium">Budget</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {status.budget.budgets.map((line) => (
+                            <tr key={line.chemicalType ?? 'ALL'} className="border-b border-border-light">
+                              <td className="py-2 px-3 text-text-primary">{chemicalTypeLabel(line.chemicalType)}</td>
+                              <td className="py-2 px-3 text-text-secondary text-right">
+                                {formatCurrency(line.monthToDateCost)}
+                              </td>
+                              <td
+                                className={cn(
+                                  'py-2 px-3 text-right font-medium',
+                                  line.isOverBudget ? 'text-error' : 'text-text-primary'
+                                )}
+                              >
+                                {formatCurrency(line.projectedMonthCost)}
+                              </td>
+                              <td className="py-2 px-3 text-text-secondary text-right">
+                                {formatCurrency(line.monthlyBudget)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </>
+                  )}
+
+                  {status.sitesOverBudget.length > 0 ? (
+                    <div className="space-y-2">
+                      <h4 className="text-sm font-semibold text-text-primary">Sites Trending Over Budget</h4>
+                      {status.sitesOverBudget.map((site) => (
+                        <div
+                          key={site.siteId}
+                          className="flex items-center justify-between p-3 bg-error/10 border border-error/30 rounded-lg text-sm"
+                        >
+                          <span className="text-text-primary font-medium">
+                            {site.siteName}
+                            {site.chemicalType && (
+                              <span className="text-text-secondary font-normal">
+                                {' '}· {chemicalTypeLabel(site.chemicalType)}
+                              </span>
+                            )}
+                          </span>
+                          <span className="text-error">
+                            {formatCurrency(site.projectedMonthCost)} of {formatCurrency(site.monthlyBudget)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-text-secondary">No sites are projected over their budget.</p>
+                  )}
+                </Card>
+              )}
+            </div>
+          )}
+
+          {/* Target list */}
+          <Card className="p-4">
+            <h3 className="text-lg font-semibold text-text-primary mb-1">Targets</h3>
+            <p className="text-sm text-text-secondary mb-4">
+              Site targets override the organization&apos;s cost per car. An organization budget
+              covers all sites together.
+            </p>
+            {targets.length === 0 ? (
+              <p className="text-text-secondary text-center py-4">No targets set</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left py-2 px-3 text-text-secondary font-medium">Site</th>
+                      <th className="text-left py-2 px-3 text-text-secondary font-medium">Chemicals</th>
+                      <th className="text-right py-2 px-3 text-text-secondary font-medium">Cost/Car Target</th>
+                      <th className="text-right py-2 px-3 text-text-secondary font-medium">Monthly Budget</th>
+                      <th className="text-left py-2 px-3 text-text-secondary font-medium">Updated</th>
+                      {canEdit && <th className="py-2 px-3"></th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {targets.map((target) => (
+                      <tr key={target.id} className="border-b border-border-light">
+                        <td className="py-2 px-3 text-text-primary font-medium">
+                          {target.site?.name ?? 'All sites'}
+                        </td>
+                        <td className="py-2 px-3 text-text-primary">{chemicalTypeLabel(target.chemicalType)}</td>
+                        <td className="py-2 px-3 text-text-primary text-right">
+                          {target.targetCostPerCar !== null ? formatCurrency(target.targetCostPerCar) : '--'}
+                        </td>
+                        <td className="py-2 px-3 text-text-primary text-right">
+                          {target.monthlyBudget !== null ? formatCurrency(target.monthlyBudget) : '--'}
+                        </td>
+                        <td className="py-2 px-3 text-text-secondary">
+                          {formatDate(target.updatedAt)}
+                          {target.updatedByUser && (
+                            <span className="block text-xs">
+                              {[target.updatedByUser.firstName, target.updatedByUser.lastName]
+                                .filter(Boolean)
+                                .join(' ')}
+                            </span>
+                          )}
+                        </td>
+                        {canEdit && (
+                          <td className="py-2 px-3">
+                            <div className="flex justify-end gap-2">
+                              <Button variant="secondary" size="sm" onClick={() => setEditingTarget(target)}>
+                                Edit
+                              </Button>
+                              <button
+                                onClick={() => handleDelete(target)}
+                                className="text-error hover:underline text-xs"
+                              >
+                                Delete
+                              </button>
+                            </div>
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+        </div>
+      )}
+
+      {/* Add Target Form */}
+      <CostTargetForm
+        isOpen={showAddForm}
+        onClose={() => setShowAddForm(false)}
+        onSuccess={fetchData}
+        organizationId={organizationId}
+        sites={sites}
+      />
+
+      {/* Edit Target Form */}
+      {editingTarget && (
+        <CostTargetForm
+          isOpen={!!editingTarget}
+          onClose={() => setEditingTarget(null)}
+          onSuccess={fetchData}
+          organizationId={organizationId}
+          sites={sites}
+          target={editingTarget}
+        />
+      )}
+    </PageContainer>
+  );
+}
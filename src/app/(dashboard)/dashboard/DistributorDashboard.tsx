@@ -9,12 +9,21 @@
 
 import React, { useState } from 'react';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import { useLocation } from '@/contexts/LocationContext';
 import { Card, StatusBadge } from '@/components/ui';
 import { PageContainer, PageHeader } from '@/components/layout';
-import { LocationSwitcher } from '@/components/dashboard';
+import {
+  LocationSwitcher,
+  OverBudgetBadge,
+  RunOutBadge,
+  RUN_OUT_WARNING_DAYS,
+  VisitReminder,
+} from '@/components/dashboard';
 import { useFABAction } from '@/components/layout/FAB';
 import { ChevronDown, ChevronRight, MapPin, ArrowRight } from 'lucide-react';
+import { formatCalendarDate } from '@/lib/utils';
+import type { DashboardOrganization } from '@/lib/dashboard';
 
 interface DistributorDashboardProps {
   user: {
@@ -22,6 +31,7 @@ interface DistributorDashboardProps {
     lastName: string;
     role: string;
   };
+  organizations: DashboardOrganization[];
   organizationSlug?: string;
 }
 
@@ -38,8 +48,9 @@ interface DistributorDashboardProps {
  *
  * FEATURES:
  * - Client organization cards with stats
- * - Upcoming scheduled visits
+ * - Upcoming scheduled visits (with "runs out in N days" badges)
  * - Critical stock alerts across all clients
+ * - Sites projected over their monthly chemical budget
  * - Quick actions: Add new client, schedule visit
  *
  * EXAMPLE DATA SHOWN:
@@ -49,7 +60,12 @@ interface DistributorDashboardProps {
  * - Critical tanks count
  * - Last visit date
  */
-export function DistributorDashboard({ user, organizationSlug }: DistributorDashboardProps) {
+export function DistributorDashboard({
+  user,
+  organizations,
+  organizationSlug,
+}: DistributorDashboardProps) {
+  const router = useRouter();
   const { location } = useLocation();
 
   // Track which organization is expanded to show locations
@@ -71,10 +87,7 @@ export function DistributorDashboard({ user, organizationSlug }: DistributorDash
       ? {
           label: 'Add Client',
           icon: 'plus',
-          onClick: () => {
-            // TODO: Open add client modal
-            console.log('Add client');
-          },
+          onClick: () => router.push('/organizations'),
         }
       : location.type === 'ORG'
       ? {
@@ -88,56 +101,57 @@ export function DistributorDashboard({ user, organizationSlug }: DistributorDash
       : null
   );
 
-  // TODO: Fetch organizations from API
-  // This will be replaced with real data in Phase 5
-  const mockOrganizations = [
-    {
-      id: '1',
-      name: 'ABC Car Wash',
-      slug: 'abc-car-wash',
-      siteCount: 3,
-      nextVisit: '2026-01-20',
-      criticalTanks: 2,
-      lastVisit: '2026-01-10',
-      sites: [
-        { id: 's1', name: 'Main Street Location', slug: 'main-street', organizationId: '1' },
-        { id: 's2', name: 'Downtown Branch', slug: 'downtown', organizationId: '1' },
-        { id: 's3', name: 'Airport Location', slug: 'airport', organizationId: '1' },
-      ],
-    },
-    {
-      id: '2',
-      name: 'Quick Clean Express',
-      slug: 'quick-clean-express',
-      siteCount: 5,
-      nextVisit: '2026-01-22',
-      criticalTanks: 0,
-      lastVisit: '2026-01-12',
-      sites: [
-        { id: 's4', name: 'North Side', slug: 'north-side', organizationId: '2' },
-        { id: 's5', name: 'South Side', slug: 'south-side', organizationId: '2' },
-      ],
-    },
-    {
-      id: '3',
-      name: 'Premium Wash Co.',
-      slug: 'premium-wash-co',
-      siteCount: 2,
-      nextVisit: '2026-01-25',
-      criticalTanks: 1,
-      lastVisit: '2026-01-14',
-      sites: [
-        { id: 's6', name: 'Westgate Plaza', slug: 'westgate-plaza', organizationId: '3' },
-        { id: 's7', name: 'Eastside Mall', slug: 'eastside-mall', organizationId: '3' },
-      ],
-    },
-  ];
-
   // Find current org if viewing a specific organization
   const currentOrg = organizationSlug
-    ? mockOrganizations.find((o) => o.slug === organizationSlug)
+    ? organizations.find((o) => o.slug === organizationSlug)
     : null;
 
+  /**
+   * Next scheduled visit per site, soonest first
+   * WHY: Pairing each visit with the site's soonest run-out shows what
+   * to bring on the truck
+   */
+  const upcomingVisits = organizations
+    .flatMap((org) =>
+      org.sites
+        .filter((site) => site.nextVisit)
+        .map((site) => {
+          const date = `${site.nextVisit}T12:00:00`;
+          return {
+            id: site.id,
+            date,
+            siteId: site.id,
+            siteName: site.name,
+            organizationName: org.name,
+            type: (new Date(date).toDateString() === new Date().toDateString()
+              ? 'TODAY'
+              : 'SCHEDULED') as 'TODAY' | 'SCHEDULED',
+            runOut: site.runOut,
+          };
+        })
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const sitePaths = new Map(
+    organizations.flatMap((org) =>
+      org.sites.map((site) => [site.id, `/dashboard/o/${org.slug}/s/${site.slug}`] as const)
+    )
+  );
+
+  const runningLowCount = organizations.reduce(
+    (sum, org) =>
+      sum +
+      org.sites.filter(
+        (site) => site.runOut && site.runOut.daysUntilEmpty <= RUN_OUT_WARNING_DAYS
+      ).length,
+    0
+  );
+
+  const overBudgetCount = organizations.reduce(
+    (sum, org) => sum + org.sites.filter((site) => site.budget?.isOverBudget).length,
+    0
+  );
+
   return (
     <PageContainer>
       <PageHeader
@@ -145,7 +159,7 @@ export function DistributorDashboard({ user, organizationSlug }: DistributorDash
         subtitle="Here's what's happening with your clients"
         action={
           <LocationSwitcher
-            organizations={mockOrganizations.map((org) => ({
+            organizations={organizations.map((org) => ({
               id: org.id,
               name: org.name,
               slug: org.slug,
@@ -153,10 +167,7 @@ export function DistributorDashboard({ user, organizationSlug }: DistributorDash
             }))}
             currentLocation={location}
             canAddNew={true}
-            onAddNew={() => {
-              // TODO: Open add client modal
-              console.log('Add new client');
-            }}
+            onAddNew={() => router.push('/organizations')}
           />
         }
       />
@@ -165,14 +176,14 @@ export function DistributorDashboard({ user, organizationSlug }: DistributorDash
       {location.type === 'ALL' && (
         <div className="space-y-6">
           {/* Stats overview */}
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4">
             <Card>
               <div className="p-4">
                 <p className="text-sm text-text-secondary mb-1">
                   Total Clients
                 </p>
                 <p className="text-2xl font-bold text-text-primary">
-                  {mockOrganizations.length}
+                  {organizations.length}
                 </p>
               </div>
             </Card>
@@ -180,7 +191,7 @@ export function DistributorDashboard({ user, organizationSlug }: DistributorDash
               <div className="p-4">
                 <p className="text-sm text-text-secondary mb-1">Total Sites</p>
                 <p className="text-2xl font-bold text-text-primary">
-                  {mockOrganizations.reduce(
+                  {organizations.reduce(
                     (sum, org) => sum + org.siteCount,
                     0
                   )}
@@ -193,13 +204,48 @@ export function DistributorDashboard({ user, organizationSlug }: DistributorDash
                   Critical Alerts
                 </p>
                 <p className="text-2xl font-bold text-error">
-                  {mockOrganizations.reduce(
+                  {organizations.reduce(
                     (sum, org) => sum + org.criticalTanks,
                     0
                   )}
                 </p>
               </div>
             </Card>
+            <Card>
+              <div className="p-4">
+                <p className="text-sm text-text-secondary mb-1">
+                  Running Out ({RUN_OUT_WARNING_DAYS}d)
+                </p>
+                <p className={`text-2xl font-bold ${runningLowCount > 0 ? 'text-warning' : 'text-text-primary'}`}>
+                  {runningLowCount} {runningLowCount === 1 ? 'site' : 'sites'}
+                </p>
+              </div>
+            </Card>
+            <Card>
+              <div className="p-4">
+                <p className="text-sm text-text-secondary mb-1">
+                  Over Budget (projected)
+                </p>
+                <p className={`text-2xl font-bold ${overBudgetCount > 0 ? 'text-error' : 'text-text-primary'}`}>
+                  {overBudgetCount} {overBudgetCount === 1 ? 'site' : 'sites'}
+                </p>
+              </div>
+            </Card>
+          </div>
+
+          {/* Upcoming visits */}
+          <div>
+            <h2 className="text-lg font-semibold text-text-primary mb-4">
+              Upcoming Visits
+            </h2>
+            <VisitReminder
+              visits={upcomingVisits.slice(0, 5)}
+              showOrganization
+              onVisitClick={(_, siteId) => {
+                const path = sitePaths.get(siteId);
+                if (path) router.push(path);
+              }}
+            />
           </div>
 
           {/* Client list */}
@@ -208,7 +254,7 @@ export function DistributorDashboard({ user, organizationSlug }: DistributorDash
               Your Clients
             </h2>
             <div className="space-y-3">
-              {mockOrganizations.map((org) => {
+              {organizations.map((org) => {
                 const isExpanded = expandedOrgId === org.id;
                 return (
                   <div key={org.id}>
@@ -247,13 +293,13 @@ export function DistributorDashboard({ user, organizationSlug }: DistributorDash
                           <div>
                             <p className="text-text-tertiary">Next Visit</p>
                             <p className="text-text-primary font-medium">
-                              {new Date(org.nextVisit).toLocaleDateString()}
+                              {org.nextVisit ? formatCalendarDate(org.nextVisit) : 'Not scheduled'}
                             </p>
                           </div>
                           <div>
                             <p className="text-text-tertiary">Last Visit</p>
                             <p className="text-text-secondary">
-                              {new Date(org.lastVisit).toLocaleDateString()}
+                              {org.lastVisit ? formatCalendarDate(org.lastVisit) : 'Never'}
                             </p>
                           </div>
                         </div>
@@ -285,6 +331,12 @@ export function DistributorDashboard({ user, organizationSlug }: DistributorDash
                                 <span className="text-text-primary font-medium">
                                   {site.name}
                                 </span>
+                                <RunOutBadge
+                                  daysUntilEmpty={site.runOut?.daysUntilEmpty}
+                                  chemicalName={site.runOut?.chemicalName}
+                                  hideAboveDays={RUN_OUT_WARNING_DAYS}
+                                />
+                                <OverBudgetBadge budget={site.budget} />
                                 <ArrowRight className="w-4 h-4 text-text-tertiary ml-auto" />
                               </Link>
                             ))}
@@ -317,7 +369,7 @@ export function DistributorDashboard({ user, organizationSlug }: DistributorDash
               <div className="p-4">
                 <p className="text-sm text-text-secondary mb-1">Next Visit</p>
                 <p className="text-2xl font-bold text-text-primary">
-                  {new Date(currentOrg.nextVisit).toLocaleDateString()}
+                  {currentOrg.nextVisit ? formatCalendarDate(currentOrg.nextVisit) : 'Not scheduled'}
                 </p>
               </div>
             </Card>
@@ -335,9 +387,17 @@ export function DistributorDashboard({ user, organizationSlug }: DistributorDash
 
           {/* Site list */}
           <div>
-            <h2 className="text-lg font-semibold text-text-primary mb-4">
-              Sites
-            </h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-text-primary">
+                Sites
+              </h2>
+              <Link
+                href={`/dashboard/o/${currentOrg.slug}/targets`}
+                className="text-sm text-primary hover:underline"
+              >
+                Targets &amp; budgets
+              </Link>
+            </div>
             <div className="space-y-3">
               {currentOrg.sites.map((site) => (
                 <Link
@@ -351,8 +411,20 @@ export function DistributorDashboard({ user, organizationSlug }: DistributorDash
                         {site.name}
                       </h3>
                       <p className="text-sm text-text-secondary mt-1">
-                        Click to view site details
+                        {site.criticalTanks > 0
+                          ? `${site.criticalTanks} critical ${site.criticalTanks === 1 ? 'tank' : 'tanks'}`
+                          : 'All tanks OK'}
+                        {' · '}
+                        {site.lastVisit ? `Last visit ${formatCalendarDate(site.lastVisit)}` : 'No visits yet'}
                       </p>
+                      <div className="flex flex-wrap gap-2 mt-2 empty:hidden">
+                        <RunOutBadge
+                          daysUntilEmpty={site.runOut?.daysUntilEmpty}
+                          chemicalName={site.runOut?.chemicalName}
+                          hideAboveDays={RUN_OUT_WARNING_DAYS}
+                        />
+                        <OverBudgetBadge budget={site.budget} />
+                      </div>
                     </div>
                   </Card>
                 </Link>
@@ -9,11 +9,14 @@
 
 import React from 'react';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import { useLocation } from '@/contexts/LocationContext';
 import { Card, StatusBadge } from '@/components/ui';
 import { PageContainer, PageHeader } from '@/components/layout';
 import { LocationSwitcher } from '@/components/dashboard';
 import { useFABAction } from '@/components/layout/FAB';
+import { formatCalendarDate } from '@/lib/utils';
+import type { DashboardSite } from '@/lib/dashboard';
 
 interface OrganizationDashboardProps {
   user: {
@@ -23,7 +26,8 @@ interface OrganizationDashboardProps {
   };
   organizationId: string;
   organizationName: string;
-  organizationSlug?: string;
+  organizationSlug: string;
+  sites: DashboardSite[];
 }
 
 /**
@@ -45,16 +49,19 @@ interface OrganizationDashboardProps {
  * EXAMPLE DATA SHOWN:
  * - Site name and address
  * - Critical tanks count
- * - Average cost per car
+ * - Critical / low stock tank counts
  * - Cars washed today
+ * - Next scheduled visit
  * - Last visit date
  */
 export function OrganizationDashboard({
   user,
   organizationId,
   organizationName,
-  organizationSlug = 'default-org',
+  organizationSlug,
+  sites,
 }: OrganizationDashboardProps) {
+  const router = useRouter();
   const { location } = useLocation();
 
   /**
@@ -66,48 +73,12 @@ export function OrganizationDashboard({
       ? {
           label: 'Add Site',
           icon: 'plus',
-          onClick: () => {
-            // TODO: Open add site modal
-            console.log('Add site');
-          },
+          onClick: () => router.push('/sites'),
         }
       : null
   );
 
-  // TODO: Fetch sites from API
-  // This will be replaced with real data in Phase 5
-  const mockSites = [
-    {
-      id: '1',
-      name: 'Main Street Location',
-      slug: 'main-street',
-      address: '123 Main St',
-      criticalTanks: 2,
-      avgCostPerCar: 0.42,
-      carsToday: 87,
-      lastVisit: '2026-01-10',
-    },
-    {
-      id: '2',
-      name: 'Highway 101 Location',
-      slug: 'highway-101',
-      address: '456 Highway 101',
-      criticalTanks: 0,
-      avgCostPerCar: 0.38,
-      carsToday: 124,
-      lastVisit: '2026-01-12',
-    },
-    {
-      id: '3',
-      name: 'Downtown Location',
-      slug: 'downtown',
-      address: '789 Downtown Ave',
-      criticalTanks: 1,
-      avgCostPerCar: 0.45,
-      carsToday: 65,
-      lastVisit: '2026-01-14',
-    },
-  ];
+  const totalCritical = sites.reduce((sum, site) => sum + site.criticalTanks, 0);
 
   return (
     <PageContainer>
@@ -121,7 +92,7 @@ export function OrganizationDashboard({
                 id: organizationId,
                 name: organizationName,
                 slug: organizationSlug,
-                sites: mockSites.map((site) => ({
+                sites: sites.map((site) => ({
                   id: site.id,
                   name: site.name,
                   slug: site.slug,
@@ -131,10 +102,7 @@ export function OrganizationDashboard({
             ]}
             currentLocation={location}
             canAddNew={true}
-            onAddNew={() => {
-              // TODO: Open add site modal
-              console.log('Add new site');
-            }}
+            onAddNew={() => router.push('/sites')}
           />
         }
       />
@@ -148,7 +116,7 @@ export function OrganizationDashboard({
               <div className="p-4">
                 <p className="text-sm text-text-secondary mb-1">Total Sites</p>
                 <p className="text-2xl font-bold text-text-primary">
-                  {mockSites.length}
+                  {sites.length}
                 </p>
               </div>
             </Card>
@@ -156,23 +124,17 @@ export function OrganizationDashboard({
               <div className="p-4">
                 <p className="text-sm text-text-secondary mb-1">Cars Today</p>
                 <p className="text-2xl font-bold text-text-primary">
-                  {mockSites.reduce((sum, site) => sum + site.carsToday, 0)}
+                  {sites.reduce((sum, site) => sum + site.carsToday, 0)}
                 </p>
               </div>
             </Card>
             <Card>
               <div className="p-4">
                 <p className="text-sm text-text-secondary mb-1">
-                  Avg Cost/Car
+                  Low Stock
                 </p>
                 <p className="text-2xl font-bold text-text-primary">
-                  $
-                  {(
-                    mockSites.reduce(
-                      (sum, site) => sum + site.avgCostPerCar,
-                      0
-                    ) / mockSites.length
-                  ).toFixed(2)}
+                  {sites.reduce((sum, site) => sum + site.lowStockTanks, 0)}
                 </p>
               </div>
             </Card>
@@ -182,7 +144,7 @@ export function OrganizationDashboard({
                   Critical Alerts
                 </p>
                 <p className="text-2xl font-bold text-error">
-                  {mockSites.reduce((sum, site) => sum + site.criticalTanks, 0)}
+                  {totalCritical}
                 </p>
               </div>
             </Card>
@@ -190,11 +152,39 @@ export function OrganizationDashboard({
 
           {/* Site list */}
           <div>
-            <h2 className="text-lg font-semibold text-text-primary mb-4">
-              Your Locations
-            </h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-text-primary">
+                Your Locations
+              </h2>
+              <div className="flex items-center gap-4">
+                <Link
+                  href={`/dashboard/o/${organizationSlug}/targets`}
+                  className="text-sm text-primary hover:underline"
+                >
+                  Targets &amp; budgets
+                </Link>
+                {sites.length > 1 && (
+                  <Link
+                    href={`/dashboard/o/${organizationSlug}/analytics`}
+                    className="text-sm text-primary hover:underline"
+                  >
+                    Compare sites
+                  </Link>
+                )}
+              </div>
+            </div>
+            {sites.length === 0 && (
+              <Card>
+                <div className="p-6 text-center">
+                  <p className="text-text-secondary mb-2">No sites yet</p>
+                  <Link href="/sites" className="text-primary hover:underline">
+                    Add your first site
+                  </Link>
+                </div>
+              </Card>
+            )}
             <div className="space-y-3">
-              {mockSites.map((site) => (
+              {sites.map((site) => (
                 <Link
                   key={site.id}
                   href={`/dashboard/o/${organizationSlug}/s/${site.slug}`}
@@ -226,15 +216,15 @@ export function OrganizationDashboard({
                           </p>
                         </div>
                         <div>
-                          <p className="text-text-tertiary">Cost/Car</p>
+                          <p className="text-text-tertiary">Next Visit</p>
                           <p className="text-text-primary font-medium">
-                            ${site.avgCostPerCar.toFixed(2)}
+                            {site.nextVisit ? formatCalendarDate(site.nextVisit) : 'Not scheduled'}
                           </p>
                         </div>
                         <div>
                           <p className="text-text-tertiary">Last Visit</p>
                           <p className="text-text-secondary">
-                            {new Date(site.lastVisit).toLocaleDateString()}
+                            {site.lastVisit ? formatCalendarDate(site.lastVisit) : 'Never'}
                           </p>
                         </div>
                       </div>
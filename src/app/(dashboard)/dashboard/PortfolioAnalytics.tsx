@@ -0,0 +1,338 @@
+// ===========================================
+// FILE: src/app/(dashboard)/dashboard/PortfolioAnalytics.tsx
+// PURPOSE: Distributor portfolio revenue and consumption analytics
+// PRD REFERENCE: PRD Section 7 - Analytics & Reporting
+// USED BY: /dashboard/analytics (distributor roles)
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { PageContainer, PageHeader } from '@/components/layout';
+import { Card, Select } from '@/components/ui';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { PortfolioAnalytics as PortfolioData } from '@/lib/portfolio';
+
+interface PortfolioAnalyticsProps {
+  organizations: Array<{ id: string; name: string }>;
+}
+
+type PortfolioResponse = PortfolioData & {
+  moverWindowDays: number;
+  dropThreshold: number;
+};
+
+/**
+ * Format gallons for display
+ */
+function formatGallons(value: number): string {
+  return `${value.toLocaleString('en-US', { maximumFractionDigits: 1 })} gal`;
+}
+
+/**
+ * Format a YYYY-MM month for chart labels
+ */
+function formatMonth(month: string): string {
+  return new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    year: '2-digit',
+  });
+}
+
+/**
+ * PortfolioAnalytics Component
+ *
+ * WHY: Distributors need to know how much product each client takes and
+ * what it is worth, and to spot a client that has quietly switched
+ * suppliers before the next invoice cycle.
+ *
+ * FEATURES:
+ * - Delivered vs consumed gallons and value
+ * - Monthly trend chart
+ * - Breakdown by chemical and by client
+ * - Top movers (biggest consumption changes)
+ * - Clients whose consumption dropped sharply
+ */
+export function PortfolioAnalytics({ organizations }: PortfolioAnalyticsProps) {
+  const [organizationId, setOrganizationId] = useState('');
+  const [data, setData] = useState<PortfolioResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  /**
+   * Fetch portfolio when the client filter changes
+   */
+  useEffect(() => {
+    fetchPortfolio();
+  }, [organizationId]);
+
+  const fetchPortfolio = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams();
+      if (organizationId) {
+        params.set('organizationId', organizationId);
+      }
+
+      const res = await fetch(`/api/analytics/portfolio?${params.toString()}`);
+      setData(res.ok ? await res.json() : null);
+    } catch (error) {
+      console.error('Error fetching portfolio analytics:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const chartData =
+    data?.monthly.map((month) => ({
+      month: formatMonth(month.month),
+      delivered: month.deliveredGallons,
+      consumed: month.consumedGallons,
+    })) || [];
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Portfolio Analytics"
+        subtitle="Product delivered and consumed across your clients"
+      />
+
+      <div className="flex flex-wrap gap-4 mb-6">
+        <Select
+          value={organizationId}
+          onChange={(e) => setOrganizationId(e.target.value)}
+          className="w-full sm:w-auto"
+          options={[
+            { value: '', label: 'All Clients' },
+            ...organizations.map((org) => ({ value: org.id, label: org.name })),
+          ]}
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="text-text-secondary">Loading portfolio...</div>
+        </div>
+      ) : !data ? (
+        <Card>
+          <div className="p-6 text-center text-text-secondary">
+            Portfolio analytics are unavailable
+          </div>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {/* Totals */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              { label: 'Delivered', value: formatGallons(data.totals.deliveredGallons) },
+              { label: 'Delivered Value', value: formatCurrency(data.totals.deliveredValue) },
+              { label: 'Consumed', value: formatGallons(data.totals.consumedGallons) },
+              { label: 'Consumed Value', value: formatCurrency(data.totals.consumedValue) },
+            ].map((metric) => (
+              <Card key={metric.label}>
+                <div className="p-4">
+                  <p className="text-sm text-text-secondary mb-1">{metric.label}</p>
+                  <p className="text-2xl font-bold text-text-primary">{metric.value}</p>
+                </div>
+              </Card>
+            ))}
+          </div>
+
+          {/* Dropped clients */}
+          {data.droppedClients.length > 0 && (
+            <Card className="p-4">
+              <h3 className="text-lg font-semibold text-text-primary mb-1">
+                Consumption Drops
+              </h3>
+              <p className="text-sm text-text-secondary mb-4">
+                Clients using at least {data.dropThreshold}% less product in the last{' '}
+                {data.moverWindowDays} days than the {data.moverWindowDays} days before.
+              </p>
+              <div className="space-y-3">
+                {data.droppedClients.map((client) => (
+                  <div
+                    key={client.organizationId}
+                    className="flex items-center justify-between p-3 bg-error/10 border border-error/30 rounded-lg"
+                  >
+                    <div>
+                      <Link
+                        href={`/dashboard/o/${client.organizationSlug}`}
+                        className="font-medium text-text-primary hover:underline"
+                      >
+                        {client.organizationName}
+                      </Link>
+                      <p className="text-sm text-text-secondary">
+                        {formatGallons(client.recentConsumedGallons)} vs{' '}
+                        {formatGallons(client.priorConsumedGallons)}
+                      </p>
+                    </div>
+                    <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-error/20 text-error">
+                      {client.changePercent.toFixed(0)}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          )}
+
+          {/* Monthly trend */}
+          <Card className="p-4">
+            <h3 className="text-lg font-semibold text-text-primary mb-4">Monthly Volume</h3>
+            <div className="w-full h-64 sm:h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#E5E2DD" />
+                  <XAxis dataKey="month" stroke="#6B7280" style={{ fontSize: '12px' }} />
+                  <YAxis
+                    stroke="#6B7280"
+                    style={{ fontSize: '12px' }}
+                    tickFormatter={(value) => `${value}g`}
+                  />
+                  <Tooltip formatter={(value: number) => formatGallons(value)} />
+                  <Legend wrapperStyle={{ fontSize: '14px' }} />
+                  <Bar dataKey="delivered" name="Delivered" fill="#F97316" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="consumed" name="Consumed" fill="#34D239" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Top movers */}
+            <Card className="p-4">
+              <h3 className="text-lg font-semibold text-text-primary mb-1">Top Movers</h3>
+              <p className="text-sm text-text-secondary mb-4">
+                Consumption value, last {data.moverWindowDays} days vs the {data.moverWindowDays} before
+              </p>
+              {data.topMovers.length === 0 ? (
+                <p className="text-sm text-text-secondary">No change in this period</p>
+              ) : (
+                <div className="space-y-2">
+                  {data.topMovers.map((mover) => (
+                    <div
+                      key={mover.chemicalMasterId}
+                      className="flex items-center justify-between py-2 border-b border-border-light last:border-0"
+                    >
+                      <div>
+                        <p className="font-medium text-text-primary">{mover.chemicalName}</p>
+                        <p className="text-xs text-text-secondary">
+                          {formatCurrency(mover.recentConsumedValue)} vs{' '}
+                          {formatCurrency(mover.priorConsumedValue)}
+                        </p>
+                      </div>
+                      <span
+                        className={cn(
+                          'text-sm font-semibold',
+                          mover.change > 0 ? 'text-success' : 'text-error'
+                        )}
+                      >
+                        {mover.change > 0 ? '+' : '-'}
+                        {formatCurrency(Math.abs(mover.change))}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+
+            {/* By client */}
+            <Card className="p-4">
+              <h3 className="text-lg font-semibold text-text-primary mb-4">By Client</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left py-2 px-3 text-text-secondary font-medium">Client</th>
+                      <th className="text-right py-2 px-3 text-text-secondary font-medium">Delivered</th>
+                      <th className="text-right py-2 px-3 text-text-secondary font-medium">Consumed</th>
+                      <th className="text-right py-2 px-3 text-text-secondary font-medium">Value</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.byClient.map((client) => (
+                      <tr key={client.organizationId} className="border-b border-border-light">
+                        <td className="py-2 px-3">
+                          <Link
+                            href={`/dashboard/o/${client.organizationSlug}`}
+                            className="text-primary hover:underline"
+                          >
+                            {client.organizationName}
+                          </Link>
+                        </td>
+                        <td className="py-2 px-3 text-text-primary text-right">
+                          {formatGallons(client.deliveredGallons)}
+                        </td>
+                        <td className="py-2 px-3 text-text-primary text-right">
+                          {formatGallons(client.consumedGallons)}
+                        </td>
+                        <td className="py-2 px-3 text-text-primary text-right font-medium">
+                          {formatCurrency(client.consumedValue)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          </div>
+
+          {/* By chemical */}
+          <Card className="p-4">
+            <h3 className="text-lg font-semibold text-text-primary mb-4">By Chemical</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-2 px-3 text-text-secondary font-medium">Chemical</th>
+                    <th className="text-right py-2 px-3 text-text-secondary font-medium">Clients</th>
+                    <th className="text-right py-2 px-3 text-text-secondary font-medium">Delivered</th>
+                    <th className="text-right py-2 px-3 text-text-secondary font-medium">Delivered Value</th>
+                    <th className="text-right py-2 px-3 text-text-secondary font-medium">Consumed</th>
+                    <th className="text-right py-2 px-3 text-text-secondary font-medium">Consumed Value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.byChemical.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="py-4 px-3 text-center text-text-secondary">
+                        No product recorded in this period
+                      </td>
+                    </tr>
+                  )}
+                  {data.byChemical.map((chemical) => (
+                    <tr key={chemical.chemicalMasterId} className="border-b border-border-light">
+                      <td className="py-2 px-3 text-text-primary">{chemical.chemicalName}</td>
+                      <td className="py-2 px-3 text-text-primary text-right">{chemical.clientCount}</td>
+                      <td className="py-2 px-3 text-text-primary text-right">
+                        {formatGallons(chemical.deliveredGallons)}
+                      </td>
+                      <td className="py-2 px-3 text-text-primary text-right">
+                        {formatCurrency(chemical.deliveredValue)}
+                      </td>
+                      <td className="py-2 px-3 text-text-primary text-right">
+                        {formatGallons(chemical.consumedGallons)}
+                      </td>
+                      <td className="py-2 px-3 text-text-primary text-right font-medium">
+                        {formatCurrency(chemical.consumedValue)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        </div>
+      )}
+    </PageContainer>
+  );
+}
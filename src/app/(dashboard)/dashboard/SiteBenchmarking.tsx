@@ -0,0 +1,342 @@
+// ===========================================
+// FILE: src/app/(dashboard)/dashboard/SiteBenchmarking.tsx
+// PURPOSE: Ranks an organization's sites against each other
+// PRD REFERENCE: PRD Section 7.4 - Period Comparison
+// USED BY: /dashboard/o/[orgSlug]/analytics
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { PageContainer, PageHeader } from '@/components/layout';
+import { Card, Select } from '@/components/ui';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { OrganizationBenchmark, SiteBenchmark, BenchmarkOutlier } from '@/lib/benchmark';
+import type { ChemicalType, WashType } from '@/types';
+
+/**
+ * Fluid ounces per US gallon
+ * WHY: Gallons per car are tiny numbers; ounces read better on screen
+ */
+const OUNCES_PER_GALLON = 128;
+
+/**
+ * Display labels for wash types
+ */
+const WASH_TYPE_LABELS: Record<WashType, string> = {
+  EXPRESS: 'Express Exterior',
+  FULL_SERVICE: 'Full Service',
+  HAND_WASH: 'Hand Wash',
+  IN_BAY_AUTOMATIC: 'In-Bay Automatic',
+  TOUCHLESS_IBA: 'Touchless IBA',
+};
+
+/**
+ * Display labels for chemical types
+ */
+const CHEMICAL_TYPE_LABELS: Record<ChemicalType, string> = {
+  PREP_SOAP: 'Prep Soap',
+  HIGH_PH_PRESOAK: 'High pH Presoak',
+  LOW_PH_PRESOAK: 'Low pH Presoak',
+  WHEEL_TIRE_CLEANER: 'Wheel & Tire Cleaner',
+  FOAM_DETERGENT: 'Foam Detergent',
+  FRAGRANCE: 'Fragrance',
+  TRI_COLOR: 'Tri-Color',
+  PROTECTANT: 'Protectant',
+  DRY_AGENT: 'Dry Agent',
+  TIRE_SHINE: 'Tire Shine',
+  OTHER: 'Other',
+};
+
+interface SiteBenchmarkingProps {
+  organizationId: string;
+  organizationName: string;
+  organizationSlug: string;
+}
+
+/**
+ * Describe an outlier in plain words
+ */
+function describeOutlier(outlier: BenchmarkOutlier): string {
+  const direction = outlier.direction === 'high' ? 'High' : 'Low';
+  switch (outlier.metric) {
+    case 'costPerCar':
+      return `${direction} cost per car`;
+    case 'gallonsPerCar':
+      return `${direction} ${CHEMICAL_TYPE_LABELS[outlier.chemicalType!]} use`;
+    case 'visitCompliance':
+      return `${direction} visit compliance`;
+  }
+}
+
+/**
+ * Whether an outlier is bad news
+ * WHY: High usage and low compliance need attention; the opposite are
+ * worth knowing about but aren't problems
+ */
+function isProblem(outlier: BenchmarkOutlier): boolean {
+  return outlier.metric === 'visitCompliance'
+    ? outlier.direction === 'low'
+    : outlier.direction === 'high';
+}
+
+/**
+ * SiteBenchmarking Component
+ *
+ * WHY: Org totals hide which site is wasting chemical. Ranking sites
+ * side by side, adjusted for wash type, shows where to look.
+ *
+ * FEATURES:
+ * - Period and outlier threshold selectors
+ * - Ranking by cost per car (relative to wash type average)
+ * - Visit compliance per site
+ * - Usage per car for each chemical type, outliers highlighted
+ * - Drill-through to each site's analytics
+ */
+export function SiteBenchmarking({
+  organizationId,
+  organizationName,
+  organizationSlug,
+}: SiteBenchmarkingProps) {
+  const [period, setPeriod] = useState<'30' | '90' | '180'>('30');
+  const [threshold, setThreshold] = useState('2');
+  const [data, setData] = useState<OrganizationBenchmark | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  /**
+   * Fetch benchmarks when period or threshold changes
+   */
+  useEffect(() => {
+    fetchBenchmark();
+  }, [period, threshold]);
+
+  const fetchBenchmark = async () => {
+    try {
+      setLoading(true);
+      const endDate = new Date();
+      const startDate = new Date(endDate.getTime() - (Number(period) - 1) * 24 * 60 * 60 * 1000);
+      const params = new URLSearchParams({
+        organizationId,
+        startDate: startDate.toISOString().split('T')[0],
+        endDate: endDate.toISOString().split('T')[0],
+        outlierThreshold: threshold,
+      });
+
+      const res = await fetch(`/api/analytics/benchmark?${params.toString()}`);
+      setData(res.ok ? await res.json() : null);
+    } catch (error) {
+      console.error('Error fetching benchmark:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const siteHref = (site: SiteBenchmark) =>
+    `/dashboard/o/${organizationSlug}/s/${site.siteSlug}/analytics`;
+
+  const gallonsOutlier = (site: SiteBenchmark, type: ChemicalType) =>
+    site.outliers.find((o) => o.metric === 'gallonsPerCar' && o.chemicalType === type);
+
+  const flaggedSites = data?.sites.filter((site) => site.outliers.some(isProblem)) ?? [];
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Site Benchmarking"
+        subtitle={`Compare ${organizationName} locations`}
+      />
+
+      <div className="flex flex-wrap gap-4 mb-6">
+        <Select
+          value={period}
+          onChange={(e) => setPeriod(e.target.value as '30' | '90' | '180')}
+          className="w-full sm:w-auto"
+          options={[
+            { value: '30', label: 'Last 30 Days' },
+            { value: '90', label: 'Last 90 Days' },
+            { value: '180', label: 'Last 180 Days' },
+          ]}
+        />
+        <Select
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          className="w-full sm:w-auto"
+          options={[
+            { value: '1.5', label: 'Flag beyond 1.5 std dev' },
+            { value: '2', label: 'Flag beyond 2 std dev' },
+            { value: '3', label: 'Flag beyond 3 std dev' },
+          ]}
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="text-text-secondary">Loading benchmarks...</div>
+        </div>
+      ) : !data || data.sites.length === 0 ? (
+        <Card>
+          <div className="p-6 text-center text-text-secondary">
+            No active sites to compare
+          </div>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {/* Summary */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <Card>
+              <div className="p-4">
+                <p className="text-sm text-text-secondary mb-1">Avg. Cost Per Car</p>
+                <p className="text-2xl font-bold text-text-primary">
+                  {data.averages.costPerCar !== null ? formatCurrency(data.averages.costPerCar) : '--'}
+                </p>
+              </div>
+            </Card>
+            <Card>
+              <div className="p-4">
+                <p className="text-sm text-text-secondary mb-1">Avg. Visit Compliance</p>
+                <p className="text-2xl font-bold text-text-primary">
+                  {data.averages.visitCompliance.toFixed(0)}%
+                </p>
+              </div>
+            </Card>
+            <Card>
+              <div className="p-4">
+                <p className="text-sm text-text-secondary mb-1">Sites Needing Attention</p>
+                <p className={cn('text-2xl font-bold', flaggedSites.length > 0 ? 'text-error' : 'text-text-primary')}>
+                  {flaggedSites.length}
+                </p>
+              </div>
+            </Card>
+          </div>
+
+          {/* Ranking */}
+          <Card className="p-4">
+            <h3 className="text-lg font-semibold text-text-primary mb-1">Cost Per Car Ranking</h3>
+            <p className="text-sm text-text-secondary mb-4">
+              Index compares each site to the average for its wash type (1.00 = average).
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-2 px-3 text-text-secondary font-medium">#</th>
+                    <th className="text-left py-2 px-3 text-text-secondary font-medium">Site</th>
+                    <th className="text-left py-2 px-3 text-text-secondary font-medium">Wash Type</th>
+                    <th className="text-right py-2 px-3 text-text-secondary font-medium">Cost/Car</th>
+                    <th className="text-right py-2 px-3 text-text-secondary font-medium">Index</th>
+                    <th className="text-right py-2 px-3 text-text-secondary font-medium">Visits</th>
+                    <th className="text-left py-2 px-3 text-text-secondary font-medium">Flags</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.sites.map((site) => (
+                    <tr key={site.siteId} className="border-b border-border-light">
+                      <td className="py-2 px-3 text-text-secondary">{site.rank.costPerCar ?? '-'}</td>
+                      <td className="py-2 px-3">
+                        <Link href={siteHref(site)} className="text-primary hover:underline font-medium">
+                          {site.siteName}
+                        </Link>
+                      </td>
+                      <td className="py-2 px-3 text-text-secondary">{WASH_TYPE_LABELS[site.washType]}</td>
+                      <td className="py-2 px-3 text-text-primary text-right font-medium">
+                        {site.costPerCar !== null ? formatCurrency(site.costPerCar) : '--'}
+                        {site.carsEstimated && site.costPerCar !== null && (
+                          <span className="text-xs text-text-secondary"> (est.)</span>
+                        )}
+                      </td>
+                      <td className="py-2 px-3 text-text-primary text-right">
+                        {site.costIndex !== null ? site.costIndex.toFixed(2) : '--'}
+                      </td>
+                      <td className="py-2 px-3 text-text-primary text-right">
+                        {site.visitCount} / {site.expectedVisits.toFixed(0)}
+                        <span className="block text-xs text-text-secondary">
+                          {site.visitCompliance.toFixed(0)}%
+                        </span>
+                      </td>
+                      <td className="py-2 px-3">
+                        <div className="flex flex-wrap gap-1">
+                          {site.outliers.map((outlier, index) => (
+                            <span
+                              key={index}
+                              title={`${outlier.zScore > 0 ? '+' : ''}${outlier.zScore} std dev`}
+                              className={cn(
+                                'inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium',
+                                isProblem(outlier)
+                                  ? 'bg-error/10 text-error'
+                                  : 'bg-success/10 text-success'
+                              )}
+                            >
+                              {describeOutlier(outlier)}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+
+          {/* Usage per car by chemical type */}
+          {data.chemicalTypes.length > 0 && (
+            <Card className="p-4">
+              <h3 className="text-lg font-semibold text-text-primary mb-1">
+                Usage Per Car by Chemical Type
+              </h3>
+              <p className="text-sm text-text-secondary mb-4">
+                Ounces per car. Highlighted values are more than {data.outlierThreshold} standard
+                deviations from the organization, after adjusting for wash type.
+              </p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border">
+                      <th className="text-left py-2 px-3 text-text-secondary font-medium">Site</th>
+                      {data.chemicalTypes.map((type) => (
+                        <th key={type} className="text-right py-2 px-3 text-text-secondary font-medium">
+                          {CHEMICAL_TYPE_LABELS[type]}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.sites.map((site) => (
+                      <tr key={site.siteId} className="border-b border-border-light">
+                        <td className="py-2 px-3">
+                          <Link href={siteHref(site)} className="text-primary hover:underline">
+                            {site.siteName}
+                          </Link>
+                        </td>
+                        {data.chemicalTypes.map((type) => {
+                          const gallons = site.gallonsPerCarByType[type];
+                          const outlier = gallonsOutlier(site, type);
+                          return (
+                            <td
+                              key={type}
+                              className={cn(
+                                'py-2 px-3 text-right',
+                                outlier
+                                  ? isProblem(outlier)
+                                    ? 'text-error font-semibold'
+                                    : 'text-success font-semibold'
+                                  : 'text-text-primary'
+                              )}
+                            >
+                              {gallons !== undefined ? (gallons * OUNCES_PER_GALLON).toFixed(2) : '--'}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          )}
+        </div>
+      )}
+    </PageContainer>
+  );
+}
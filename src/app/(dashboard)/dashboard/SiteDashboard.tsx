@@ -7,7 +7,7 @@
 
 'use client';
 
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { Card, Tabs, StatusBadge } from '@/components/ui';
 import {
   PageContainer,
@@ -18,8 +18,13 @@ import {
   TankVisualization,
   TankGrid,
   CostPerCarChart,
+  SitePicker,
 } from '@/components/dashboard';
 import { useFABAction } from '@/components/layout/FAB';
+import { formatCalendarDate, getTankStatus } from '@/lib/utils';
+import type { SiteTank } from '@/lib/dashboard';
+import { UsageAnomalyReview } from './UsageAnomalyReview';
+import { SiteDeliveries } from './SiteDeliveries';
 
 interface SiteDashboardProps {
   user: {
@@ -30,8 +35,24 @@ interface SiteDashboardProps {
   siteId: string;
   siteName: string;
   organizationName?: string;
+  tanks: SiteTank[];
+  carsToday: number;
+  lastVisit: string | null;
+  nextVisit: string | null;
+  sites?: Array<{ id: string; name: string; slug: string; organizationSlug: string }>;
 }
 
+interface PackageCostTrend {
+  packages: Array<{ packageId: string; packageName: string }>;
+  summary: { hasPackageCarCounts: boolean };
+  trend: Array<{ periodStart: string; costs: Record<string, number> }>;
+}
+
+/**
+ * Line colors for per-package cost series
+ */
+const PACKAGE_COLORS = ['#34D239', '#3B82F6', '#F59E0B', '#8B5CF6', '#EF4444', '#14B8A6'];
+
 /**
  * Site Dashboard Component
  *
@@ -39,15 +60,18 @@ interface SiteDashboardProps {
  * inventory, usage analytics, and operational metrics for a specific location.
  *
  * FEATURES (PRD Section 6.3):
- * - Tank visualization grid with real-time status
+ * - Tank visualization grid from the latest visit readings
+ * - Flagged readings that need review (see lib/anomalies)
  * - Cost-per-car analytics chart
  * - Visit history and upcoming visits
  * - Quick actions: Log visit, update inventory, change equipment
+ * - Site picker for users assigned to several sites
  *
  * TABS:
  * - Overview: Tanks + analytics + reminders
  * - Chemicals: Full chemical catalog and configurations
  * - Visits: Visit history and scheduling
+ * - Deliveries: Delivery history with lot numbers
  * - Analytics: Detailed cost and usage reports
  *
  * EXAMPLE DATA SHOWN:
@@ -61,7 +85,15 @@ export function SiteDashboard({
   siteId,
   siteName,
   organizationName,
+  tanks,
+  carsToday,
+  lastVisit,
+  nextVisit,
+  sites = [],
 }: SiteDashboardProps) {
+  const [costPerCar, setCostPerCar] = useState<number | null>(null);
+  const [packageCosts, setPackageCosts] = useState<PackageCostTrend | null>(null);
+
   /**
    * Configure FAB for site actions
    * WHY: Quick access to common site operations
@@ -75,92 +107,48 @@ export function SiteDashboard({
     },
   });
 
-  // TODO: Fetch site data from API
-  // This will be replaced with real data in Phase 5
-  const mockChemicals = [
-    {
-      id: '1',
-      name: 'Pre-Soak',
-      currentGallons: 12.5,
-      totalGallons: 55,
-      alertThreshold: 15,
-      tankId: 'TANK-01',
-    },
-    {
-      id: '2',
-      name: 'Triple Foam',
-      currentGallons: 42.0,
-      totalGallons: 55,
-      alertThreshold: 15,
-      tankId: 'TANK-02',
-    },
-    {
-      id: '3',
-      name: 'Wax',
-      currentGallons: 8.2,
-      totalGallons: 30,
-      alertThreshold: 10,
-      tankId: 'TANK-03',
-    },
-    {
-      id: '4',
-      name: 'Tire Shine',
-      currentGallons: 18.5,
-      totalGallons: 30,
-      alertThreshold: 10,
-      tankId: 'TANK-04',
-    },
-    {
-      id: '5',
-      name: 'Spot-Free Rinse',
-      currentGallons: 25.0,
-      totalGallons: 55,
-      alertThreshold: 15,
-      tankId: 'TANK-05',
-    },
-    {
-      id: '6',
-      name: 'Clearcoat',
-      currentGallons: 3.5,
-      totalGallons: 15,
-      alertThreshold: 5,
-      tankId: 'TANK-06',
-    },
-  ];
-
-  const mockCostData = [
-    { date: 'Jan 1', siteCost: 0.42 },
-    { date: 'Jan 5', siteCost: 0.45 },
-    { date: 'Jan 10', siteCost: 0.38 },
-    { date: 'Jan 15', siteCost: 0.41 },
-  ];
+  /**
+   * Load 30-day cost per car and the weekly package cost trend
+   */
+  useEffect(() => {
+    Promise.all([
+      fetch(`/api/analytics/cost-per-car?siteId=${siteId}`),
+      fetch(`/api/analytics/package-cost?siteId=${siteId}`),
+    ])
+      .then(async ([costRes, packageRes]) => {
+        if (costRes.ok) {
+          const costData = await costRes.json();
+          setCostPerCar(costData.summary.totalCars > 0 ? costData.summary.costPerCar : null);
+        }
+        if (packageRes.ok) {
+          setPackageCosts(await packageRes.json());
+        }
+      })
+      .catch((error) => console.error('Error fetching site costs:', error));
+  }, [siteId]);
 
-  const mockCostLines = [
-    {
-      key: 'siteCost',
-      name: siteName,
-      color: '#34D239', // primary color
-    },
-  ];
+  const costChartData = packageCosts?.summary.hasPackageCarCounts
+    ? packageCosts.trend.map((t) => ({
+        date: new Date(t.periodStart).toLocaleDateString('en-US', {
+          month: 'short',
+          day: 'numeric',
+        }),
+        ...t.costs,
+      }))
+    : [];
 
-  const mockUpcomingVisits = [
-    {
-      id: '1',
-      date: '2026-01-20',
-      type: 'SCHEDULED',
-      distributor: 'ABC Chemical Supply',
-    },
-    {
-      id: '2',
-      date: '2026-01-27',
-      type: 'SCHEDULED',
-      distributor: 'ABC Chemical Supply',
-    },
-  ];
+  const costChartLines =
+    packageCosts?.packages.map((pkg, index) => ({
+      key: pkg.packageId,
+      name: pkg.packageName,
+      color: PACKAGE_COLORS[index % PACKAGE_COLORS.length],
+    })) || [];
 
   // Calculate critical alerts
-  const criticalCount = mockChemicals.filter(
-    (c) => c.currentGallons <= c.alertThreshold
+  const criticalCount = tanks.filter(
+    (tank) =>
+      getTankStatus(tank.currentGallons, tank.totalGallons, tank.alertThreshold ?? undefined) ===
+      'CRITICAL'
   ).length;
 
   return (
@@ -170,6 +158,7 @@ export function SiteDashboard({
         subtitle={organizationName || 'Site Dashboard'}
         action={
           <div className="flex items-center gap-2">
+            <SitePicker sites={sites} currentSiteId={siteId} />
             {criticalCount > 0 && (
               <StatusBadge
                 status="CRITICAL"
@@ -198,7 +187,7 @@ export function SiteDashboard({
                         Active Tanks
                       </p>
                       <p className="text-2xl font-bold text-text-primary">
-                        {mockChemicals.length}
+                        {tanks.length}
                       </p>
                     </div>
                   </Card>
@@ -215,10 +204,10 @@ export function SiteDashboard({
                   <Card>
                     <div className="p-4">
                       <p className="text-sm text-text-secondary mb-1">
-                        Cost/Car
+                        Cost/Car (30d)
                       </p>
                       <p className="text-2xl font-bold text-text-primary">
-                        $0.41
+                        {costPerCar !== null ? `$${costPerCar.toFixed(2)}` : '—'}
                       </p>
                     </div>
                   </Card>
@@ -228,76 +217,67 @@ export function SiteDashboard({
                         Next Visit
                       </p>
                       <p className="text-base font-bold text-text-primary">
-                        Jan 20
+                        {nextVisit ? formatCalendarDate(nextVisit) : 'Not scheduled'}
                       </p>
                     </div>
                   </Card>
                 </div>
 
+                {/* Flagged readings */}
+                <UsageAnomalyReview
+                  siteId={siteId}
+                  canAcknowledge={
+                    user.role === 'DISTRIBUTOR_ADMIN' || user.role === 'DISTRIBUTOR_USER'
+                  }
+                />
+
                 {/* Tank grid */}
                 <PageSection>
                   <h2 className="text-lg font-semibold text-text-primary mb-4">
                     Chemical Inventory
                   </h2>
-                  <TankGrid>
-                    {mockChemicals.map((chemical) => (
-                      <TankVisualization
-                        key={chemical.id}
-                        chemicalName={chemical.name}
-                        currentGallons={chemical.currentGallons}
-                        totalGallons={chemical.totalGallons}
-                        tankId={chemical.tankId}
-                        alertThreshold={chemical.alertThreshold}
-                      />
-                    ))}
-                  </TankGrid>
+                  {tanks.length === 0 ? (
+                    <Card>
+                      <div className="p-6 text-center text-text-secondary">
+                        No chemicals are configured for this site yet.
+                      </div>
+                    </Card>
+                  ) : (
+                    <TankGrid>
+                      {tanks.map((tank) => (
+                        <TankVisualization
+                          key={tank.id}
+                          chemicalName={tank.chemicalName}
+                          currentGallons={tank.currentGallons}
+                          totalGallons={tank.totalGallons}
+                          alertThreshold={tank.alertThreshold ?? undefined}
+                          daysUntilEmpty={tank.daysUntilEmpty}
+                        />
+                      ))}
+                    </TankGrid>
+                  )}
+                  <p className="text-sm text-text-tertiary mt-3">
+                    {lastVisit
+                      ? `Levels from the visit on ${formatCalendarDate(lastVisit)}`
+                      : 'No visits logged yet'}
+                    {` · ${carsToday} cars today`}
+                  </p>
                 </PageSection>
 
                 {/* Cost-per-car chart */}
                 <PageSection>
                   <h2 className="text-lg font-semibold text-text-primary mb-4">
-                    Cost Per Car Trend
+                    Cost Per Car by Package
                   </h2>
                   <Card>
                     <div className="p-6">
                       <CostPerCarChart
-                        data={mockCostData}
-                        lines={mockCostLines}
+                        data={costChartData}
+                        lines={costChartLines}
                       />
                     </div>
                   </Card>
                 </PageSection>
-
-                {/* Upcoming visits */}
-                <PageSection>
-                  <h2 className="text-lg font-semibold text-text-primary mb-4">
-                    Upcoming Visits
-                  </h2>
-                  <div className="space-y-3">
-                    {mockUpcomingVisits.map((visit) => (
-                      <Card key={visit.id}>
-                        <div className="p-4 flex items-center justify-between">
-                          <div>
-                            <p className="text-sm font-medium text-text-primary">
-                              {new Date(visit.date).toLocaleDateString(
-                                'en-US',
-                                {
-                                  weekday: 'long',
-                                  month: 'long',
-                                  day: 'numeric',
-                                }
-                              )}
-                            </p>
-                            <p className="text-sm text-text-secondary mt-1">
-                              {visit.distributor}
-                            </p>
-                          </div>
-                          <StatusBadge status="NORMAL" label={visit.type} />
-                        </div>
-                      </Card>
-                    ))}
-                  </div>
-                </PageSection>
               </div>
             ),
           },
@@ -335,6 +315,13 @@ export function SiteDashboard({
               </Card>
             ),
           },
+          {
+            id: 'deliveries',
+            label: 'Deliveries',
+            content: (
+              <SiteDeliveries siteId={siteId} canRecord={user.role !== 'SITE_USER'} />
+            ),
+          },
           {
             id: 'analytics',
             label: 'Analytics',
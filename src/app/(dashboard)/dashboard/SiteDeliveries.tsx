@@ -0,0 +1,195 @@
+// ===========================================
+// FILE: src/app/(dashboard)/dashboard/SiteDeliveries.tsx
+// PURPOSE: Site delivery history with lot numbers
+// PRD REFERENCE: PRD Section 6.2 - Chemical Entries, PRD Section 7.6 - Inventory Alerts
+// USED BY: SiteDashboard
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Button, Card, Input } from '@/components/ui';
+import { DeliveryForm } from '@/components/forms';
+import { formatCalendarDate } from '@/lib/utils';
+import type { DeliveryRecord } from '@/lib/deliveries';
+
+interface SiteDeliveriesProps {
+  siteId: string;
+  canRecord: boolean; // Everyone with site access except site users
+}
+
+/**
+ * SiteDeliveries Component
+ *
+ * WHY: When a customer complains about a product, the first question is
+ * which lot they received and when. This lists every delivery to the
+ * site, whether it came with a visit or on its own.
+ *
+ * FEATURES:
+ * - Deliveries from the last 90 days, newest first
+ * - Lot number search
+ * - Record, edit and delete standalone deliveries
+ * - Visit deliveries link to their visit
+ */
+export function SiteDeliveries({ siteId, canRecord }: SiteDeliveriesProps) {
+  const [deliveries, setDeliveries] = useState<DeliveryRecord[]>([]);
+  const [lotNumber, setLotNumber] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingDelivery, setEditingDelivery] = useState<DeliveryRecord | null>(null);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [siteId, lotNumber]);
+
+  const fetchDeliveries = async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ siteId });
+      if (lotNumber) params.append('lotNumber', lotNumber);
+
+      const res = await fetch(`/api/deliveries?${params.toString()}`);
+      setDeliveries(res.ok ? await res.json() : []);
+    } catch (error) {
+      console.error('Error fetching deliveries:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (delivery: DeliveryRecord) => {
+    if (!confirm('Delete this delivery?')) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/deliveries/${delivery.id}`, { method: 'DELETE' });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to delete delivery');
+      }
+
+      fetchDeliveries();
+    } catch (error: any) {
+      console.error('Error deleting delivery:', error);
+      alert(error.message || 'Failed to delete delivery. Please try again.');
+    }
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-text-primary">Deliveries</h3>
+          <p className="text-sm text-text-secondary">Last 90 days, from visits and drop-offs</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Search lot number"
+            value={lotNumber}
+            onChange={(e) => setLotNumber(e.target.value.trim())}
+          />
+          {canRecord && (
+            <Button onClick={() => setShowAddForm(true)}>Record Delivery</Button>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-text-secondary text-center py-4">Loading deliveries...</p>
+      ) : deliveries.length === 0 ? (
+        <p className="text-text-secondary text-center py-4">
+          {lotNumber ? `No deliveries of lot ${lotNumber}` : 'No deliveries recorded'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border">
+                <th className="text-left py-2 px-3 text-text-secondary font-medium">Date</th>
+                <th className="text-left py-2 px-3 text-text-secondary font-medium">Chemical</th>
+                <th className="text-right py-2 px-3 text-text-secondary font-medium">Containers</th>
+                <th className="text-right py-2 px-3 text-text-secondary font-medium">Gallons</th>
+                <th className="text-left py-2 px-3 text-text-secondary font-medium">Lot</th>
+                <th className="text-left py-2 px-3 text-text-secondary font-medium">Invoice</th>
+                <th className="text-left py-2 px-3 text-text-secondary font-medium">Delivered By</th>
+                <th className="py-2 px-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.map((delivery) => (
+                <tr key={`${delivery.source}-${delivery.id}`} className="border-b border-border-light">
+                  <td className="py-2 px-3 text-text-primary">
+                    {formatCalendarDate(delivery.deliveryDate)}
+                  </td>
+                  <td className="py-2 px-3 text-text-primary">
+                    {delivery.chemicalName}
+                    {delivery.notes && (
+                      <p className="text-xs text-text-secondary">{delivery.notes}</p>
+                    )}
+                  </td>
+                  <td className="py-2 px-3 text-text-primary text-right">{delivery.containerCount}</td>
+                  <td className="py-2 px-3 text-text-primary text-right">
+                    {delivery.gallons.toFixed(1)}
+                  </td>
+                  <td className="py-2 px-3 text-text-primary">{delivery.lotNumber ?? '--'}</td>
+                  <td className="py-2 px-3 text-text-secondary">{delivery.invoiceNumber ?? '--'}</td>
+                  <td className="py-2 px-3 text-text-secondary">
+                    {delivery.deliveredBy
+                      ? `${delivery.deliveredBy.firstName} ${delivery.deliveredBy.lastName}`
+                      : '--'}
+                  </td>
+                  <td className="py-2 px-3">
+                    {delivery.source === 'VISIT' ? (
+                      <Link
+                        href={`/visits?visitId=${delivery.visitLogId}`}
+                        className="text-primary hover:underline text-xs"
+                      >
+                        View visit
+                      </Link>
+                    ) : (
+                      canRecord && (
+                        <div className="flex justify-end gap-2">
+                          <Button variant="secondary" size="sm" onClick={() => setEditingDelivery(delivery)}>
+                            Edit
+                          </Button>
+                          <button
+                            onClick={() => handleDelete(delivery)}
+                            className="text-error hover:underline text-xs"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      )
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Record Delivery Form */}
+      <DeliveryForm
+        isOpen={showAddForm}
+        onClose={() => setShowAddForm(false)}
+        onSuccess={fetchDeliveries}
+        siteId={siteId}
+      />
+
+      {/* Edit Delivery Form */}
+      {editingDelivery && (
+        <DeliveryForm
+          isOpen={!!editingDelivery}
+          onClose={() => setEditingDelivery(null)}
+          onSuccess={fetchDeliveries}
+          siteId={siteId}
+          delivery={editingDelivery}
+        />
+      )}
+    </Card>
+  );
+}
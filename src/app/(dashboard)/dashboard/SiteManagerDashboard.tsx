@@ -0,0 +1,182 @@
+// ===========================================
+// FILE: src/app/(dashboard)/dashboard/SiteManagerDashboard.tsx
+// PURPOSE: Dashboard view for site managers
+// PRD REFERENCE: PRD Section 6.3 - Site Dashboard
+// USED BY: Main dashboard page
+// ===========================================
+
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { Card, StatusBadge } from '@/components/ui';
+import { PageContainer, PageHeader, PageSection } from '@/components/layout';
+import { SitePicker } from '@/components/dashboard';
+import { formatCalendarDate, formatNumber, getTankStatus } from '@/lib/utils';
+import type { DashboardSite, SiteTank } from '@/lib/dashboard';
+
+interface SiteManagerDashboardProps {
+  user: {
+    firstName: string;
+    lastName: string;
+    role: string;
+  };
+  sites: DashboardSite[];
+  tanksBySite: Record<string, SiteTank[]>;
+}
+
+/**
+ * Site Manager Dashboard Component
+ *
+ * WHY: Site managers run one or more locations for an organization. They
+ * need a roll-up of their assigned sites and the tanks that need attention,
+ * then drill into a site for full detail.
+ *
+ * FEATURES:
+ * - Stats across assigned sites (sites, critical tanks, cars today)
+ * - "Needs attention" list of critical and low stock tanks
+ * - Site cards linking to each site dashboard
+ * - Site picker for quick switching
+ */
+export function SiteManagerDashboard({ user, sites, tanksBySite }: SiteManagerDashboardProps) {
+  const attentionTanks = sites.flatMap((site) =>
+    (tanksBySite[site.id] || [])
+      .map((tank) => ({
+        ...tank,
+        site,
+        status: getTankStatus(tank.currentGallons, tank.totalGallons, tank.alertThreshold ?? undefined),
+      }))
+      .filter((tank) => tank.status !== 'NORMAL')
+  );
+
+  // Critical first, then lowest level
+  attentionTanks.sort((a, b) =>
+    a.status === b.status
+      ? a.currentGallons / a.totalGallons - b.currentGallons / b.totalGallons
+      : a.status === 'CRITICAL'
+      ? -1
+      : 1
+  );
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title={`Welcome back, ${user.firstName}!`}
+        subtitle={`Managing ${sites.length} ${sites.length === 1 ? 'site' : 'sites'}`}
+        action={<SitePicker sites={sites} placeholder="Go to site..." />}
+      />
+
+      <div className="space-y-6">
+        {/* Stats overview */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          <Card>
+            <div className="p-4">
+              <p className="text-sm text-text-secondary mb-1">Sites</p>
+              <p className="text-2xl font-bold text-text-primary">{sites.length}</p>
+            </div>
+          </Card>
+          <Card>
+            <div className="p-4">
+              <p className="text-sm text-text-secondary mb-1">Critical</p>
+              <p className="text-2xl font-bold text-error">
+                {sites.reduce((sum, site) => sum + site.criticalTanks, 0)}
+              </p>
+            </div>
+          </Card>
+          <Card>
+            <div className="p-4">
+              <p className="text-sm text-text-secondary mb-1">Low Stock</p>
+              <p className="text-2xl font-bold text-text-primary">
+                {sites.reduce((sum, site) => sum + site.lowStockTanks, 0)}
+              </p>
+            </div>
+          </Card>
+          <Card>
+            <div className="p-4">
+              <p className="text-sm text-text-secondary mb-1">Cars Today</p>
+              <p className="text-2xl font-bold text-text-primary">
+                {sites.reduce((sum, site) => sum + site.carsToday, 0)}
+              </p>
+            </div>
+          </Card>
+        </div>
+
+        {/* Needs attention */}
+        {attentionTanks.length > 0 && (
+          <PageSection>
+            <h2 className="text-lg font-semibold text-text-primary mb-4">
+              Needs Attention
+            </h2>
+            <Card>
+              <div className="divide-y divide-border-light">
+                {attentionTanks.map((tank) => (
+                  <Link
+                    key={tank.id}
+                    href={`/dashboard/o/${tank.site.organizationSlug}/s/${tank.site.slug}`}
+                    className="flex items-center justify-between gap-3 p-4 hover:bg-bg-tertiary transition-colors"
+                  >
+                    <div>
+                      <p className="font-medium text-text-primary">{tank.chemicalName}</p>
+                      <p className="text-sm text-text-secondary">
+                        {tank.site.name} · {formatNumber(tank.currentGallons, 1)} gal
+                      </p>
+                    </div>
+                    <StatusBadge status={tank.status} />
+                  </Link>
+                ))}
+              </div>
+            </Card>
+          </PageSection>
+        )}
+
+        {/* Site list */}
+        <PageSection>
+          <h2 className="text-lg font-semibold text-text-primary mb-4">Your Sites</h2>
+          <div className="space-y-3">
+            {sites.map((site) => (
+              <Link
+                key={site.id}
+                href={`/dashboard/o/${site.organizationSlug}/s/${site.slug}`}
+                className="block"
+              >
+                <Card className="cursor-pointer hover:border-primary transition-colors">
+                  <div className="p-4">
+                    <div className="flex items-start justify-between mb-3">
+                      <div>
+                        <h3 className="text-lg font-semibold text-text-primary mb-1">
+                          {site.name}
+                        </h3>
+                        <p className="text-sm text-text-secondary">{site.address}</p>
+                      </div>
+                      {site.criticalTanks > 0 && (
+                        <StatusBadge status="CRITICAL" label={`${site.criticalTanks} Critical`} />
+                      )}
+                    </div>
+                    <div className="grid grid-cols-3 gap-4 text-sm">
+                      <div>
+                        <p className="text-text-tertiary">Cars Today</p>
+                        <p className="text-text-primary font-medium">{site.carsToday}</p>
+                      </div>
+                      <div>
+                        <p className="text-text-tertiary">Next Visit</p>
+                        <p className="text-text-primary font-medium">
+                          {site.nextVisit ? formatCalendarDate(site.nextVisit) : 'Not scheduled'}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-text-tertiary">Last Visit</p>
+                        <p className="text-text-secondary">
+                          {site.lastVisit ? formatCalendarDate(site.lastVisit) : 'Never'}
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        </PageSection>
+      </div>
+    </PageContainer>
+  );
+}
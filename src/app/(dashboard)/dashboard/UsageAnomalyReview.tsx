@@ -0,0 +1,132 @@
+// ===========================================
+// FILE: src/app/(dashboard)/dashboard/UsageAnomalyReview.tsx
+// PURPOSE: Site "needs review" list of flagged chemical readings
+// PRD REFERENCE: PRD Section 6.2 - Chemical Entries
+// USED BY: SiteDashboard
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Button, Card } from '@/components/ui';
+import { AnomalyAcknowledgeForm } from '@/components/forms';
+import { formatCalendarDate } from '@/lib/utils';
+import type { UsageAnomalyType } from '@/types';
+
+interface ReviewAnomaly {
+  id: string;
+  type: UsageAnomalyType;
+  message: string;
+  entry: {
+    visitId: string;
+    visitDate: string;
+    chemicalName: string;
+  };
+}
+
+interface UsageAnomalyReviewProps {
+  siteId: string;
+  canAcknowledge: boolean;
+}
+
+/**
+ * Display labels for anomaly types
+ */
+const ANOMALY_TYPE_LABELS: Record<UsageAnomalyType, string> = {
+  NEGATIVE_USAGE: 'Negative Usage',
+  USAGE_SPIKE: 'Usage Spike',
+  OVER_CAPACITY: 'Over Capacity',
+};
+
+/**
+ * UsageAnomalyReview Component
+ *
+ * WHY: Stored usage never goes below zero, so a mis-keyed reading or a
+ * leaking drum is invisible on the charts. This list surfaces the flagged
+ * readings for a site until someone corrects or acknowledges them.
+ *
+ * FEATURES:
+ * - Open anomalies, newest first
+ * - Correct: opens the visit so the entry can be edited
+ * - Acknowledge (distributor users): clears the flag with a note
+ * - Hidden when nothing needs review
+ */
+export function UsageAnomalyReview({ siteId, canAcknowledge }: UsageAnomalyReviewProps) {
+  const [anomalies, setAnomalies] = useState<ReviewAnomaly[]>([]);
+  const [acknowledging, setAcknowledging] = useState<ReviewAnomaly | null>(null);
+
+  /**
+   * Fetch open anomalies for the site
+   */
+  useEffect(() => {
+    fetchAnomalies();
+  }, [siteId]);
+
+  const fetchAnomalies = async () => {
+    try {
+      const res = await fetch(`/api/anomalies?siteId=${siteId}`);
+      if (res.ok) {
+        setAnomalies(await res.json());
+      }
+    } catch (error) {
+      console.error('Error fetching usage anomalies:', error);
+    }
+  };
+
+  if (anomalies.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <Card className="p-4">
+        <h3 className="text-lg font-semibold text-text-primary mb-1">Needs Review</h3>
+        <p className="text-sm text-text-secondary mb-4">
+          Readings that don&apos;t add up. Correct the entry if it was mis-keyed, or
+          acknowledge it if it&apos;s right.
+        </p>
+        <div className="space-y-3">
+          {anomalies.map((anomaly) => (
+            <div
+              key={anomaly.id}
+              className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 bg-warning/10 border border-warning/30 rounded-lg"
+            >
+              <div>
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-text-primary">{anomaly.entry.chemicalName}</p>
+                  <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-warning/20 text-warning">
+                    {ANOMALY_TYPE_LABELS[anomaly.type]}
+                  </span>
+                </div>
+                <p className="text-sm text-text-secondary">
+                  {formatCalendarDate(anomaly.entry.visitDate)} · {anomaly.message}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Link
+                  href={`/visits?visitId=${anomaly.entry.visitId}`}
+                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-primary hover:underline"
+                >
+                  Correct
+                </Link>
+                {canAcknowledge && (
+                  <Button variant="secondary" size="sm" onClick={() => setAcknowledging(anomaly)}>
+                    Acknowledge
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </Card>
+
+      <AnomalyAcknowledgeForm
+        isOpen={!!acknowledging}
+        onClose={() => setAcknowledging(null)}
+        onSuccess={fetchAnomalies}
+        anomaly={acknowledging ?? undefined}
+      />
+    </>
+  );
+}
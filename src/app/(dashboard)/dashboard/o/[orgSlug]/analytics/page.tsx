@@ -1,13 +1,13 @@
 // ===========================================
 // FILE: src/app/(dashboard)/dashboard/o/[orgSlug]/analytics/page.tsx
-// PURPOSE: Organization-scoped analytics dashboard
+// PURPOSE: Organization-scoped analytics dashboard (site benchmarking)
 // ===========================================
 
 import React from 'react';
 import { auth } from '@/lib/auth';
-import { redirect } from 'next/navigation';
-import { PageContainer, PageHeader } from '@/components/layout';
-import { Card } from '@/components/ui';
+import { redirect, notFound } from 'next/navigation';
+import { prisma } from '@/lib/prisma';
+import { SiteBenchmarking } from '../../../SiteBenchmarking';
 
 interface OrgAnalyticsPageProps {
   params: Promise<{
@@ -20,6 +20,11 @@ interface OrgAnalyticsPageProps {
  *
  * WHY: Shows analytics scoped to a specific organization.
  * URL: /dashboard/o/[orgSlug]/analytics
+ *
+ * BEHAVIOR:
+ * - Distributors (client orgs) and org admins (own org) see site benchmarking
+ * - Site roles are sent back to /dashboard (they only see their sites)
+ * - Unknown or inaccessible organizations → 404
  */
 export default async function OrgAnalyticsPage({ params }: OrgAnalyticsPageProps) {
   const session = await auth();
@@ -29,26 +34,35 @@ export default async function OrgAnalyticsPage({ params }: OrgAnalyticsPageProps
     redirect('/login');
   }
 
-  // TODO Phase 5: Fetch organization and analytics data
-  const mockOrgName = 'ABC Car Wash'; // Will be fetched from DB
+  const { role } = session.user;
+
+  if (role !== 'DISTRIBUTOR_ADMIN' && role !== 'DISTRIBUTOR_USER' && role !== 'ORG_ADMIN') {
+    redirect('/dashboard');
+  }
+
+  const organization = await prisma.organization.findUnique({
+    where: { slug: orgSlug },
+    select: { id: true, name: true, slug: true, distributorId: true },
+  });
+
+  if (!organization) {
+    notFound();
+  }
+
+  const hasAccess =
+    role === 'ORG_ADMIN'
+      ? organization.id === session.user.organizationId
+      : !!session.user.distributorId && organization.distributorId === session.user.distributorId;
+
+  if (!hasAccess) {
+    notFound();
+  }
 
   return (
-    <PageContainer>
-      <PageHeader
-        title="Analytics Reports"
-        subtitle={`Performance metrics for ${mockOrgName}`}
-      />
-
-      <Card>
-        <div className="p-6 text-center">
-          <p className="text-text-secondary">
-            Analytics dashboard for organization: <strong>{orgSlug}</strong>
-          </p>
-          <p className="text-sm text-text-tertiary mt-2">
-            Phase 5 will implement full analytics with charts.
-          </p>
-        </div>
-      </Card>
-    </PageContainer>
+    <SiteBenchmarking
+      organizationId={organization.id}
+      organizationName={organization.name}
+      organizationSlug={organization.slug}
+    />
   );
 }
@@ -1,13 +1,13 @@
 // ===========================================
 // FILE: src/app/(dashboard)/dashboard/o/[orgSlug]/chemical/page.tsx
-// PURPOSE: Organization-scoped chemical catalog
+// PURPOSE: Organization-scoped chemical pricing and price history
 // ===========================================
 
 import React from 'react';
 import { auth } from '@/lib/auth';
-import { redirect } from 'next/navigation';
-import { PageContainer, PageHeader } from '@/components/layout';
-import { Card } from '@/components/ui';
+import { redirect, notFound } from 'next/navigation';
+import { prisma } from '@/lib/prisma';
+import { ChemicalPricing } from '../../../ChemicalPricing';
 
 interface OrgChemicalPageProps {
   params: Promise<{
@@ -18,8 +18,15 @@ interface OrgChemicalPageProps {
 /**
  * Organization Chemical List Page
  *
- * WHY: Shows chemicals configured for a specific organization.
+ * WHY: Shows chemicals configured for a specific organization, with
+ * current prices and price history.
  * URL: /dashboard/o/[orgSlug]/chemical
+ *
+ * BEHAVIOR:
+ * - Distributors (client orgs) and org admins (own org) see pricing
+ * - Only distributor admins can schedule or cancel price changes
+ * - Site roles are sent back to /dashboard
+ * - Unknown or inaccessible organizations → 404
  */
 export default async function OrgChemicalListPage({ params }: OrgChemicalPageProps) {
   const session = await auth();
@@ -29,26 +36,35 @@ export default async function OrgChemicalListPage({ params }: OrgChemicalPagePro
     redirect('/login');
   }
 
-  // TODO Phase 5: Fetch organization and chemical data
-  const mockOrgName = 'ABC Car Wash'; // Will be fetched from DB
+  const { role } = session.user;
+
+  if (role !== 'DISTRIBUTOR_ADMIN' && role !== 'DISTRIBUTOR_USER' && role !== 'ORG_ADMIN') {
+    redirect('/dashboard');
+  }
+
+  const organization = await prisma.organization.findUnique({
+    where: { slug: orgSlug },
+    select: { id: true, name: true, distributorId: true },
+  });
+
+  if (!organization) {
+    notFound();
+  }
+
+  const hasAccess =
+    role === 'ORG_ADMIN'
+      ? organization.id === session.user.organizationId
+      : !!session.user.distributorId && organization.distributorId === session.user.distributorId;
+
+  if (!hasAccess) {
+    notFound();
+  }
 
   return (
-    <PageContainer>
-      <PageHeader
-        title="Chemical List"
-        subtitle={`Chemical catalog for ${mockOrgName}`}
-      />
-
-      <Card>
-        <div className="p-6 text-center">
-          <p className="text-text-secondary">
-            Chemical catalog for organization: <strong>{orgSlug}</strong>
-          </p>
-          <p className="text-sm text-text-tertiary mt-2">
-            Phase 5 will implement full chemical management.
-          </p>
-        </div>
-      </Card>
-    </PageContainer>
+    <ChemicalPricing
+      organizationId={organization.id}
+      organizationName={organization.name}
+      canEdit={role === 'DISTRIBUTOR_ADMIN'}
+    />
   );
 }
@@ -8,6 +8,8 @@ import { auth } from '@/lib/auth';
 import { redirect, notFound } from 'next/navigation';
 import { DistributorDashboard } from '../../DistributorDashboard';
 import { OrganizationDashboard } from '../../OrganizationDashboard';
+import { prisma } from '@/lib/prisma';
+import { getDashboardSites, groupSitesByOrganization } from '@/lib/dashboard';
 
 interface OrgDashboardPageProps {
   params: Promise<{
@@ -22,8 +24,10 @@ interface OrgDashboardPageProps {
  * URL: /dashboard/o/[orgSlug]
  *
  * BEHAVIOR:
- * - Distributors see org overview with site list
- * - Org users see their organization dashboard
+ * - Distributors see org overview with site list (their clients only)
+ * - Org admins see their own organization dashboard
+ * - Site roles are sent back to /dashboard (they only see sites)
+ * - Unknown or inaccessible organizations → 404
  */
 export default async function OrgDashboardPage({ params }: OrgDashboardPageProps) {
   const session = await auth();
@@ -35,25 +39,33 @@ export default async function OrgDashboardPage({ params }: OrgDashboardPageProps
 
   const { firstName, lastName, role } = session.user;
 
-  // TODO Phase 5: Fetch organization by slug from database
-  // const organization = await prisma.organization.findUnique({
-  //   where: { slug: orgSlug },
-  //   include: { sites: true }
-  // });
-  // if (!organization) notFound();
+  const organization = await prisma.organization.findUnique({
+    where: { slug: orgSlug },
+    select: { id: true, name: true, slug: true, distributorId: true },
+  });
 
-  // Mock organization data for now
-  const mockOrganization = {
-    id: 'mock-org-1',
-    name: 'ABC Car Wash',
-    slug: orgSlug,
-  };
+  if (!organization) {
+    notFound();
+  }
 
   // DISTRIBUTOR ROLES: Show org-scoped distributor view
   if (role === 'DISTRIBUTOR_ADMIN' || role === 'DISTRIBUTOR_USER') {
+    if (!session.user.distributorId || organization.distributorId !== session.user.distributorId) {
+      notFound();
+    }
+
+    const [clients, sites] = await Promise.all([
+      prisma.organization.findMany({
+        where: { distributorId: session.user.distributorId },
+        select: { id: true, name: true, slug: true },
+      }),
+      getDashboardSites(session.user),
+    ]);
+
     return (
       <DistributorDashboard
         user={{ firstName, lastName, role }}
+        organizations={groupSitesByOrganization(sites, clients)}
         organizationSlug={orgSlug}
       />
     );
@@ -61,15 +73,21 @@ export default async function OrgDashboardPage({ params }: OrgDashboardPageProps
 
   // ORGANIZATION ROLES: Show organization dashboard
   if (role === 'ORG_ADMIN') {
+    if (organization.id !== session.user.organizationId) {
+      notFound();
+    }
+
     return (
       <OrganizationDashboard
         user={{ firstName, lastName, role }}
-        organizationId={mockOrganization.id}
-        organizationName={mockOrganization.name}
+        organizationId={organization.id}
+        organizationName={organization.name}
+        organizationSlug={organization.slug}
+        sites={await getDashboardSites(session.user)}
       />
     );
   }
 
-  // Fallback
-  return notFound();
+  // SITE ROLES: No organization-level view
+  redirect('/dashboard');
 }
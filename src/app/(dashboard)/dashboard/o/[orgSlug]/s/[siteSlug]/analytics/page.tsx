@@ -5,9 +5,9 @@
 
 import React from 'react';
 import { auth } from '@/lib/auth';
-import { redirect } from 'next/navigation';
-import { PageContainer, PageHeader } from '@/components/layout';
-import { Card } from '@/components/ui';
+import { redirect, notFound } from 'next/navigation';
+import { getDashboardSites } from '@/lib/dashboard';
+import { SiteAnalyticsDashboard } from '../../../../../../analytics/SiteAnalyticsDashboard';
 
 interface SiteAnalyticsPageProps {
   params: Promise<{
@@ -19,8 +19,14 @@ interface SiteAnalyticsPageProps {
 /**
  * Site Analytics Page
  *
- * WHY: Shows analytics scoped to a specific site.
+ * WHY: Shows analytics scoped to a specific site. Site benchmarking
+ * drills through to here.
  * URL: /dashboard/o/[orgSlug]/s/[siteSlug]/analytics
+ *
+ * BEHAVIOR:
+ * - Opens the site analytics dashboard on this site
+ * - The site selector lists the user's other sites in the same organization
+ * - Sites outside the user's scope → 404
  */
 export default async function SiteAnalyticsPage({ params }: SiteAnalyticsPageProps) {
   const session = await auth();
@@ -30,26 +36,17 @@ export default async function SiteAnalyticsPage({ params }: SiteAnalyticsPagePro
     redirect('/login');
   }
 
-  // TODO Phase 5: Fetch site and analytics data
-  const mockSiteName = 'Main Street Location'; // Will be fetched from DB
+  const orgSites = await getDashboardSites(session.user, { organizationSlug: orgSlug });
+  const site = orgSites.find((s) => s.slug === siteSlug);
 
-  return (
-    <PageContainer>
-      <PageHeader
-        title="Analytics Reports"
-        subtitle={`Performance metrics for ${mockSiteName}`}
-      />
+  if (!site) {
+    notFound();
+  }
 
-      <Card>
-        <div className="p-6 text-center">
-          <p className="text-text-secondary">
-            Analytics dashboard for site: <strong>{siteSlug}</strong> in <strong>{orgSlug}</strong>
-          </p>
-          <p className="text-sm text-text-tertiary mt-2">
-            Phase 5 will implement full analytics with charts.
-          </p>
-        </div>
-      </Card>
-    </PageContainer>
+  return (
+    <SiteAnalyticsDashboard
+      sites={orgSites.map((s) => ({ id: s.id, name: s.name, timeZone: s.timeZone }))}
+      defaultSiteId={site.id}
+    />
   );
 }
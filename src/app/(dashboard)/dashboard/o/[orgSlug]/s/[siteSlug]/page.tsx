@@ -5,8 +5,9 @@
 
 import React from 'react';
 import { auth } from '@/lib/auth';
-import { redirect } from 'next/navigation';
+import { redirect, notFound } from 'next/navigation';
 import { SiteDashboard } from '../../../../SiteDashboard';
+import { getDashboardSites, getSiteTanks } from '@/lib/dashboard';
 
 interface SiteDashboardPageProps {
   params: Promise<{
@@ -24,6 +25,8 @@ interface SiteDashboardPageProps {
  * BEHAVIOR:
  * - Shows site-specific dashboard with tanks, analytics, visit history
  * - All user roles can view their assigned sites
+ * - Sites outside the user's scope → 404 (existence is not revealed)
+ * - The site picker lists the user's other sites in the same organization
  */
 export default async function SiteDashboardPage({ params }: SiteDashboardPageProps) {
   const session = await auth();
@@ -35,35 +38,27 @@ export default async function SiteDashboardPage({ params }: SiteDashboardPagePro
 
   const { firstName, lastName, role } = session.user;
 
-  // TODO Phase 5: Fetch site by org slug and site slug from database
-  // const site = await prisma.site.findFirst({
-  //   where: {
-  //     slug: siteSlug,
-  //     organization: { slug: orgSlug }
-  //   },
-  //   include: { organization: true }
-  // });
-  // if (!site) notFound();
+  // Sites this user can see in the organization (scoped by role / UserSiteAccess)
+  const orgSites = await getDashboardSites(session.user, { organizationSlug: orgSlug });
+  const site = orgSites.find((s) => s.slug === siteSlug);
 
-  // Mock site data for now
-  const mockSite = {
-    id: 'mock-site-1',
-    name: 'Main Street Location',
-    slug: siteSlug,
-  };
+  if (!site) {
+    notFound();
+  }
 
-  const mockOrganization = {
-    id: 'mock-org-1',
-    name: 'ABC Car Wash',
-    slug: orgSlug,
-  };
+  const tanksBySite = await getSiteTanks([site.id]);
 
   return (
     <SiteDashboard
       user={{ firstName, lastName, role }}
-      siteId={mockSite.id}
-      siteName={mockSite.name}
-      organizationName={mockOrganization.name}
+      siteId={site.id}
+      siteName={site.name}
+      organizationName={site.organizationName}
+      tanks={tanksBySite.get(site.id) || []}
+      carsToday={site.carsToday}
+      lastVisit={site.lastVisit}
+      nextVisit={site.nextVisit}
+      sites={orgSites}
     />
   );
 }
@@ -0,0 +1,80 @@
+// ===========================================
+// FILE: src/app/(dashboard)/dashboard/o/[orgSlug]/targets/page.tsx
+// PURPOSE: Organization-scoped cost-per-car targets and monthly budgets
+// ===========================================
+
+import React from 'react';
+import { auth } from '@/lib/auth';
+import { redirect, notFound } from 'next/navigation';
+import { prisma } from '@/lib/prisma';
+import { CostTargets } from '../../../CostTargets';
+
+interface OrgTargetsPageProps {
+  params: Promise<{
+    orgSlug: string;
+  }>;
+}
+
+/**
+ * Organization Targets Page
+ *
+ * WHY: Targets and budgets are agreed per client; this is where they're
+ * set and where this month's projection is checked against them.
+ * URL: /dashboard/o/[orgSlug]/targets
+ *
+ * BEHAVIOR:
+ * - Distributors (client orgs) and org admins (own org) see targets
+ * - Distributor admins and org admins can change them
+ * - Site roles are sent back to /dashboard
+ * - Unknown or inaccessible organizations → 404
+ */
+export default async function OrgTargetsPage({ params }: OrgTargetsPageProps) {
+  const session = await auth();
+  const { orgSlug } = await params;
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  const { role } = session.user;
+
+  if (role !== 'DISTRIBUTOR_ADMIN' && role !== 'DISTRIBUTOR_USER' && role !== 'ORG_ADMIN') {
+    redirect('/dashboard');
+  }
+
+  const organization = await prisma.organization.findUnique({
+    where: { slug: orgSlug },
+    select: {
+      id: true,
+      name: true,
+      distributorId: true,
+      sites: {
+        where: { isActive: true },
+        select: { id: true, name: true },
+        orderBy: { name: 'asc' },
+      },
+    },
+  });
+
+  if (!organization) {
+    notFound();
+  }
+
+  const hasAccess =
+    role === 'ORG_ADMIN'
+      ? organization.id === session.user.organizationId
+      : !!session.user.distributorId && organization.distributorId === session.user.distributorId;
+
+  if (!hasAccess) {
+    notFound();
+  }
+
+  return (
+    <CostTargets
+      organizationId={organization.id}
+      organizationName={organization.name}
+      sites={organization.sites}
+      canEdit={role !== 'DISTRIBUTOR_USER'}
+    />
+  );
+}
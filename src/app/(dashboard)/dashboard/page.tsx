@@ -10,6 +10,13 @@ import { redirect } from 'next/navigation';
 import { DistributorDashboard } from './DistributorDashboard';
 import { OrganizationDashboard } from './OrganizationDashboard';
 import { SiteDashboard } from './SiteDashboard';
+import { SiteManagerDashboard } from './SiteManagerDashboard';
+import { prisma } from '@/lib/prisma';
+import {
+  getDashboardSites,
+  getSiteTanks,
+  groupSitesByOrganization,
+} from '@/lib/dashboard';
 
 /**
  * Dashboard Page
@@ -19,13 +26,14 @@ import { SiteDashboard } from './SiteDashboard';
  *
  * ROUTING LOGIC (PRD Section 6):
  * - DISTRIBUTOR_ADMIN → DistributorDashboard (can view all clients)
- * - DISTRIBUTOR_USER → DistributorDashboard (limited to assigned orgs)
+ * - DISTRIBUTOR_USER → DistributorDashboard (same client list)
  * - ORG_ADMIN → OrganizationDashboard (can view all org sites)
- * - ORG_USER → OrganizationDashboard (limited to assigned sites)
- * - SITE_USER → SiteDashboard (single site only)
+ * - SITE_MANAGER → SiteManagerDashboard (roll-up of assigned sites)
+ * - SITE_USER → SiteDashboard (first assigned site, picker to switch)
  *
  * DATA FETCHING:
- * - Server-side: Fetch user's org/distributor/site associations
+ * - Server-side: Distributor, organization and site context come from the
+ *   session; site roles are scoped through UserSiteAccess
  * - Pass to client components for rendering
  * - Client components handle location context changes
  *
@@ -42,7 +50,7 @@ export default async function DashboardPage() {
     redirect('/login');
   }
 
-  const { id: userId, firstName, lastName, role } = session.user;
+  const { firstName, lastName, role } = session.user;
 
   /**
    * Route to appropriate dashboard based on role
@@ -51,75 +59,116 @@ export default async function DashboardPage() {
 
   // DISTRIBUTOR ROLES: Show client portfolio
   if (role === 'DISTRIBUTOR_ADMIN' || role === 'DISTRIBUTOR_USER') {
-    // TODO Phase 5: Fetch distributor data from API
-    // const distributor = await prisma.distributor.findFirst({
-    //   where: { users: { some: { id: userId } } }
-    // });
+    const [clients, sites] = await Promise.all([
+      prisma.organization.findMany({
+        where: { distributorId: session.user.distributorId ?? undefined },
+        select: { id: true, name: true, slug: true },
+      }),
+      getDashboardSites(session.user),
+    ]);
 
     return (
       <DistributorDashboard
         user={{ firstName, lastName, role }}
+        organizations={session.user.distributorId ? groupSitesByOrganization(sites, clients) : []}
       />
     );
   }
 
   // ORGANIZATION ROLES: Show sites overview
   if (role === 'ORG_ADMIN') {
-    // TODO Phase 5: Fetch organization data from API
-    // const organization = await prisma.organization.findFirst({
-    //   where: { users: { some: { id: userId } } },
-    //   include: { sites: true }
-    // });
+    const organization = session.user.organizationId
+      ? await prisma.organization.findUnique({
+          where: { id: session.user.organizationId },
+          select: { id: true, name: true, slug: true },
+        })
+      : null;
 
-    // Mock data for now
-    const organizationId = 'mock-org-1';
-    const organizationName = 'ABC Car Wash';
+    if (!organization) {
+      return (
+        <NoAccessNotice
+          title="No Organization"
+          message="Your account is not linked to an organization. Please contact support."
+        />
+      );
+    }
 
     return (
       <OrganizationDashboard
         user={{ firstName, lastName, role }}
-        organizationId={organizationId}
-        organizationName={organizationName}
+        organizationId={organization.id}
+        organizationName={organization.name}
+        organizationSlug={organization.slug}
+        sites={await getDashboardSites(session.user)}
       />
     );
   }
 
-  // SITE ROLE: Show single site dashboard
-  if (role === 'SITE_USER') {
-    // TODO Phase 5: Fetch site assignment from API
-    // const siteAssignment = await prisma.siteUser.findFirst({
-    //   where: { userId },
-    //   include: {
-    //     site: {
-    //       include: { organization: true }
-    //     }
-    //   }
-    // });
-
-    // Mock data for now
-    const siteId = 'mock-site-1';
-    const siteName = 'Main Street Location';
-    const organizationName = 'ABC Car Wash';
+  // SITE ROLES: Scoped to sites granted through UserSiteAccess
+  if (role === 'SITE_MANAGER' || role === 'SITE_USER') {
+    const sites = await getDashboardSites(session.user);
+
+    if (sites.length === 0) {
+      return (
+        <NoAccessNotice
+          title="No Site Access"
+          message="You have not been given access to any sites yet. Ask your organization admin to grant access."
+        />
+      );
+    }
+
+    const tanksBySite = await getSiteTanks(
+      role === 'SITE_MANAGER' ? sites.map((site) => site.id) : [sites[0].id]
+    );
+
+    if (role === 'SITE_MANAGER') {
+      return (
+        <SiteManagerDashboard
+          user={{ firstName, lastName, role }}
+          sites={sites}
+          tanksBySite={Object.fromEntries(tanksBySite)}
+        />
+      );
+    }
+
+    const site = sites[0];
 
     return (
       <SiteDashboard
         user={{ firstName, lastName, role }}
-        siteId={siteId}
-        siteName={siteName}
-        organizationName={organizationName}
+        siteId={site.id}
+        siteName={site.name}
+        organizationName={site.organizationName}
+        tanks={tanksBySite.get(site.id) || []}
+        carsToday={site.carsToday}
+        lastVisit={site.lastVisit}
+        nextVisit={site.nextVisit}
+        sites={sites}
       />
     );
   }
 
   // Fallback: Unknown role
+  return (
+    <NoAccessNotice
+      title="Unknown User Role"
+      message={`Your account role (${role}) is not recognized. Please contact support.`}
+    />
+  );
+}
+
+/**
+ * Notice shown when the session has no dashboard context
+ */
+function NoAccessNotice({ title, message }: { title: string; message: string }) {
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
         <h2 className="text-lg font-semibold text-yellow-800 mb-2">
-          Unknown User Role
+          {title}
         </h2>
         <p className="text-yellow-700">
-          Your account role ({role}) is not recognized. Please contact support.
+          {message}
         </p>
       </div>
     </div>
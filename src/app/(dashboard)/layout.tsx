@@ -7,7 +7,7 @@
 import React, { Suspense } from 'react';
 import { auth } from '@/lib/auth';
 import { redirect } from 'next/navigation';
-import { Header } from '@/components/layout';
+import { Header, TabletIdleLock } from '@/components/layout';
 import { LocationProvider } from '@/contexts/LocationContext';
 import { DevToolProvider } from '@/contexts/DevToolContext';
 import { FABProvider } from '@/components/layout/FAB';
@@ -28,6 +28,7 @@ import { OrganizationTabMenu } from './OrganizationTabMenu';
  * - Location context provider for dashboard state
  * - Bottom navigation (mobile)
  * - FAB provider for context-aware actions
+ * - Auto-lock for tablet (PIN) sessions
  *
  * LAYOUT STRUCTURE:
  * ```
@@ -59,6 +60,8 @@ export default async function DashboardLayout({
     redirect('/login');
   }
 
+  const isTabletSession = session.user.authMethod === 'pin';
+
   return (
     <Suspense fallback={null}>
       <DevToolProvider>
@@ -73,8 +76,12 @@ export default async function DashboardLayout({
                   email: session.user.email || '',
                   role: session.user.role,
                 }}
+                isTabletSession={isTabletSession}
               />
 
+              {/* Shared tablets lock after inactivity */}
+              {isTabletSession && <TabletIdleLock />}
+
               {/* Tab menu for tablet/desktop - handles role-based visibility internally */}
               <DistributorTabMenu actualRole={session.user.role} />
 
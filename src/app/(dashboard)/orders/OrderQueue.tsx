@@ -0,0 +1,328 @@
+// ===========================================
+// FILE: src/app/(dashboard)/orders/OrderQueue.tsx
+// PURPOSE: Distributor queue of proposed, approved and delivered replenishment orders
+// PRD REFERENCE: PRD Section 7.6 - Inventory Alerts
+// USED BY: Orders page
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { PageContainer, PageHeader } from '@/components/layout';
+import { Button, Card, Select } from '@/components/ui';
+import { OrderEditForm } from '@/components/forms';
+import { cn, formatCalendarDate, formatDate } from '@/lib/utils';
+import type { ReplenishmentOrderStatus } from '@/types';
+
+interface OrderLine {
+  id: string;
+  chemicalSiteConfigId: string;
+  chemicalName: string;
+  containerType: string;
+  containerGallons: number;
+  suggestedContainers: number;
+  quantity: number;
+  gallons: number;
+  projectedOnHandGallons: number;
+  averageDailyUsage: number;
+  isRecorded: boolean;
+}
+
+interface ReplenishmentOrder {
+  id: string;
+  status: ReplenishmentOrderStatus;
+  deliverBy: string;
+  notes: string | null;
+  isEdited: boolean;
+  approvedAt: string | null;
+  deliveredAt: string | null;
+  site: { id: string; name: string; organization: { id: string; name: string; slug: string } };
+  approver: { firstName: string; lastName: string } | null;
+  deliverer: { firstName: string; lastName: string } | null;
+  lines: OrderLine[];
+}
+
+interface OrderQueueProps {
+  isAdmin: boolean; // Distributor admins approve and cancel
+}
+
+/**
+ * Badge styles for each order status
+ */
+const STATUS_STYLES: Record<ReplenishmentOrderStatus, string> = {
+  PROPOSED: 'bg-info/10 text-info',
+  APPROVED: 'bg-warning/10 text-warning',
+  DELIVERED: 'bg-success/10 text-success',
+  CANCELLED: 'bg-bg-tertiary text-text-secondary',
+};
+
+/**
+ * OrderQueue Component
+ *
+ * WHY: Each visit changes what a site will need by the next one. The queue
+ * turns burn rates into container counts so reps review orders instead
+ * of working them out.
+ *
+ * FEATURES:
+ * - Orders for each site's next scheduled visit, soonest first
+ * - Suggested vs. ordered containers per chemical
+ * - Edit quantities and notes before delivery
+ * - Approve (admins), mark delivered, cancel (admins)
+ * - Refresh suggestions on demand
+ */
+export function OrderQueue({ isAdmin }: OrderQueueProps) {
+  const [orders, setOrders] = useState<ReplenishmentOrder[]>([]);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [pendingOrderId, setPendingOrderId] = useState<string | null>(null);
+  const [editingOrder, setEditingOrder] = useState<ReplenishmentOrder | null>(null);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [statusFilter]);
+
+  const fetchOrders = async () => {
+    try {
+      setLoading(true);
+      const params = statusFilter ? `?status=${statusFilter}` : '';
+      const res = await fetch(`/api/orders${params}`);
+      setOrders(res.ok ? await res.json() : []);
+    } catch (error) {
+      console.error('Error fetching replenishment orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRefresh = async () => {
+    try {
+      setRefreshing(true);
+      const res = await fetch('/api/orders/refresh', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || 'Failed to refresh suggestions');
+      }
+
+      fetchOrders();
+    } catch (error: any) {
+      console.error('Error refreshing replenishment orders:', error);
+      alert(error.message || 'Failed to refresh suggestions. Please try again.');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleAction = async (order: ReplenishmentOrder, action: 'approve' | 'deliver' | 'cancel') => {
+    if (action === 'cancel' && !confirm(`Cancel the order for ${order.site.name}?`)) {
+      return;
+    }
+
+    try {
+      setPendingOrderId(order.id);
+      const res = await fetch(`/api/orders/${order.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || `Failed to ${action} order`);
+      }
+
+      fetchOrders();
+    } catch (error: any) {
+      console.error('Error updating replenishment order:', error);
+      alert(error.message || 'Failed to update order. Please try again.');
+    } finally {
+      setPendingOrderId(null);
+    }
+  };
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Orders"
+        subtitle="Deliveries sized for each site's next scheduled visit"
+        action={
+          <Button variant="secondary" onClick={handleRefresh} loading={refreshing} disabled={refreshing}>
+            Refresh Suggestions
+          </Button>
+        }
+      />
+
+      <div className="mb-6">
+        <Select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+          className="w-full sm:w-auto"
+          options={[
+            { value: '', label: 'Open orders' },
+            { value: 'PROPOSED', label: 'Proposed' },
+            { value: 'APPROVED', label: 'Approved' },
+            { value: 'DELIVERED', label: 'Delivered' },
+            { value: 'CANCELLED', label: 'Cancelled' },
+          ]}
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="text-text-secondary">Loading orders...</div>
+        </div>
+      ) : orders.length === 0 ? (
+        <Card className="p-8 text-center">
+          <p className="text-text-secondary">
+            No orders. Suggestions appear for sites with a scheduled visit whose chemicals
+            won&apos;t last until the one after.
+          </p>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {orders.map((order) => {
+            const isOpen = order.status === 'PROPOSED' || order.status === 'APPROVED';
+            const isPending = pendingOrderId === order.id;
+
+            return (
+              <Card key={order.id} className="p-4">
+                <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-lg font-semibold text-text-primary">{order.site.name}</h3>
+                      <span
+                        className={cn(
+                          'inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium capitalize',
+                          STATUS_STYLES[order.status]
+                        )}
+                      >
+                        {order.status.toLowerCase()}
+                      </span>
+                      {order.isEdited && (
+                        <span className="text-xs text-text-secondary">Edited</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-text-secondary">
+                      {order.site.organization.name} · Deliver by {formatCalendarDate(order.deliverBy)}
+                    </p>
+                    {order.approver && order.approvedAt && (
+                      <p className="text-xs text-text-secondary">
+                        Approved by {order.approver.firstName} {order.approver.lastName} on{' '}
+                        {formatDate(order.approvedAt)}
+                      </p>
+                    )}
+                    {order.deliverer && order.deliveredAt && (
+                      <p className="text-xs text-text-secondary">
+                        Delivered by {order.deliverer.firstName} {order.deliverer.lastName} on{' '}
+                        {formatDate(order.deliveredAt)}
+                      </p>
+                    )}
+                  </div>
+
+                  {isOpen && (
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => setEditingOrder(order)}
+                        disabled={isPending}
+                      >
+                        Edit
+                      </Button>
+                      {order.status === 'PROPOSED' && isAdmin && (
+                        <Button size="sm" onClick={() => handleAction(order, 'approve')} loading={isPending}>
+                          Approve
+                        </Button>
+                      )}
+                      {order.status === 'APPROVED' && (
+                        <Button size="sm" onClick={() => handleAction(order, 'deliver')} loading={isPending}>
+                          Mark Delivered
+                        </Button>
+                      )}
+                      {isAdmin && (
+                        <button
+                          onClick={() => handleAction(order, 'cancel')}
+                          disabled={isPending}
+                          className="text-error hover:underline text-xs"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-border">
+                        <th className="text-left py-2 px-3 text-text-secondary font-medium">Chemical</th>
+                        <th className="text-right py-2 px-3 text-text-secondary font-medium">Daily Use</th>
+                        <th className="text-right py-2 px-3 text-text-secondary font-medium">On Hand at Visit</th>
+                        <th className="text-right py-2 px-3 text-text-secondary font-medium">Suggested</th>
+                        <th className="text-right py-2 px-3 text-text-secondary font-medium">Order</th>
+                        <th className="text-right py-2 px-3 text-text-secondary font-medium">Gallons</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {order.lines.map((line) => (
+                        <tr key={line.id} className="border-b border-border-light">
+                          <td className="py-2 px-3 text-text-primary">
+                            {line.chemicalName}
+                            <p className="text-xs text-text-secondary">
+                              {line.containerGallons} gal containers
+                              {line.isRecorded && ' · Recorded'}
+                            </p>
+                          </td>
+                          <td className="py-2 px-3 text-text-secondary text-right">
+                            {line.averageDailyUsage.toFixed(1)} gal
+                          </td>
+                          <td className="py-2 px-3 text-text-secondary text-right">
+                            {line.projectedOnHandGallons.toFixed(1)} gal
+                          </td>
+                          <td className="py-2 px-3 text-text-secondary text-right">
+                            {line.suggestedContainers}
+                          </td>
+                          <td
+                            className={cn(
+                              'py-2 px-3 text-right font-medium',
+                              line.quantity !== line.suggestedContainers ? 'text-warning' : 'text-text-primary'
+                            )}
+                          >
+                            {line.quantity}
+                          </td>
+                          <td className="py-2 px-3 text-text-primary text-right">
+                            {line.gallons.toFixed(1)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {order.notes && (
+                  <p className="text-sm text-text-secondary mt-3">{order.notes}</p>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Edit Order Form */}
+      {editingOrder && (
+        <OrderEditForm
+          isOpen={!!editingOrder}
+          onClose={() => setEditingOrder(null)}
+          onSuccess={fetchOrders}
+          order={editingOrder}
+        />
+      )}
+    </PageContainer>
+  );
+}
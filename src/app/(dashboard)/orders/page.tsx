@@ -0,0 +1,45 @@
+// ===========================================
+// FILE: src/app/(dashboard)/orders/page.tsx
+// PURPOSE: Replenishment order queue page for distributors
+// PRD REFERENCE: PRD Section 7.6 - Inventory Alerts
+// ===========================================
+
+import React from 'react';
+import { auth } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { OrderQueue } from './OrderQueue';
+
+/**
+ * Orders Page
+ *
+ * WHY: Distributors review suggested deliveries for their clients' next
+ * visits, adjust them, and record when they're delivered.
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN, DISTRIBUTOR_USER
+ */
+export default async function OrdersPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  const { role } = session.user;
+
+  if (role !== 'DISTRIBUTOR_ADMIN' && role !== 'DISTRIBUTOR_USER') {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+          <h2 className="text-lg font-semibold text-yellow-800 mb-2">
+            Access Restricted
+          </h2>
+          <p className="text-yellow-700">
+            Only distributors can manage replenishment orders.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return <OrderQueue isAdmin={role === 'DISTRIBUTOR_ADMIN'} />;
+}
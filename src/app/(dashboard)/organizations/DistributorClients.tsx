@@ -0,0 +1,417 @@
+// ===========================================
+// FILE: src/app/(dashboard)/organizations/DistributorClients.tsx
+// PURPOSE: Distributor client organization management
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Distributor → Organization)
+// USED BY: Organizations page (distributor roles)
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { PageContainer, PageHeader } from '@/components/layout';
+import { Button, Card, ConfirmModal, Input, Modal, Select } from '@/components/ui';
+import { DEFAULT_TIMEZONE, TIMEZONE_OPTIONS, WEEK_START_OPTIONS } from '@/lib/timezone';
+
+interface ClientOrganization {
+  id: string;
+  name: string;
+  slug: string;
+  contactEmail: string | null;
+  sites: Array<{ id: string; name: string }>;
+}
+
+interface LinkRequest {
+  id: string;
+  inviteEmail: string | null;
+  createdAt: string;
+  organization: { id: string; name: string; slug: string };
+}
+
+interface DistributorClientsProps {
+  canEdit: boolean;
+}
+
+/**
+ * Blank create-organization form
+ */
+const EMPTY_ORGANIZATION = {
+  name: '',
+  contactEmail: '',
+  contactPhone: '',
+  timezone: DEFAULT_TIMEZONE,
+  weekStartsOn: '0',
+};
+
+/**
+ * DistributorClients Component
+ *
+ * WHY: Distributors manage which car wash organizations they serve.
+ *
+ * FEATURES:
+ * - List linked client organizations
+ * - Invite an existing organization by admin email or slug
+ * - Create a new organization on a client's behalf
+ * - Cancel pending invites, unlink clients
+ */
+export function DistributorClients({ canEdit }: DistributorClientsProps) {
+  const [organizations, setOrganizations] = useState<ClientOrganization[]>([]);
+  const [pendingRequests, setPendingRequests] = useState<LinkRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showInvite, setShowInvite] = useState(false);
+  const [showCreate, setShowCreate] = useState(false);
+  const [unlinking, setUnlinking] = useState<ClientOrganization | null>(null);
+  const [inviteTarget, setInviteTarget] = useState('');
+  const [inviteMessage, setInviteMessage] = useState('');
+  const [newOrg, setNewOrg] = useState(EMPTY_ORGANIZATION);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [orgsRes, requestsRes] = await Promise.all([
+        fetch('/api/organizations'),
+        fetch('/api/organizations/link-requests'),
+      ]);
+
+      if (orgsRes.ok) {
+        setOrganizations(await orgsRes.json());
+      }
+
+      if (requestsRes.ok) {
+        setPendingRequests(await requestsRes.json());
+      }
+    } catch (error) {
+      console.error('Error fetching organizations:', error);
+      alert('Failed to load organizations. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Send a link request
+   * WHY: Anything containing "@" is treated as an email, otherwise a slug
+   */
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = inviteTarget.trim();
+    if (!target) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/organizations/link-requests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(target.includes('@') ? { email: target } : { slug: target }),
+          message: inviteMessage.trim() || null,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to send invite');
+      }
+
+      setShowInvite(false);
+      setInviteTarget('');
+      setInviteMessage('');
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error sending link request:', error);
+      alert(error.message || 'Failed to send invite. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Create an organization on the client's behalf
+   */
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newOrg.name.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/organizations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newOrg.name.trim(),
+          contactEmail: newOrg.contactEmail.trim() || null,
+          contactPhone: newOrg.contactPhone.trim() || null,
+          timezone: newOrg.timezone,
+          weekStartsOn: parseInt(newOrg.weekStartsOn),
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to create organization');
+      }
+
+      setShowCreate(false);
+      setNewOrg(EMPTY_ORGANIZATION);
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error creating organization:', error);
+      alert(error.message || 'Failed to create organization. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Withdraw a pending invite
+   */
+  const handleCancelRequest = async (requestId: string) => {
+    try {
+      const response = await fetch(`/api/organizations/link-requests/${requestId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'cancel' }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to cancel invite');
+      }
+
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error cancelling link request:', error);
+      alert(error.message || 'Failed to cancel invite. Please try again.');
+    }
+  };
+
+  /**
+   * Unlink a client organization
+   */
+  const handleUnlink = async () => {
+    if (!unlinking) return;
+
+    try {
+      const response = await fetch(`/api/organizations/${unlinking.id}/unlink`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to unlink organization');
+      }
+
+      setUnlinking(null);
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error unlinking organization:', error);
+      alert(error.message || 'Failed to unlink organization. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <PageContainer>
+        <PageHeader title="Clients" subtitle="Loading clients..." />
+        <div className="flex justify-center items-center h-64">
+          <div className="text-text-secondary">Loading...</div>
+        </div>
+      </PageContainer>
+    );
+  }
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Clients"
+        subtitle={`${organizations.length} client ${organizations.length === 1 ? 'organization' : 'organizations'}`}
+        action={
+          canEdit ? (
+            <div className="flex gap-2">
+              <Button variant="secondary" onClick={() => setShowCreate(true)}>
+                Create Organization
+              </Button>
+              <Button onClick={() => setShowInvite(true)}>Invite Organization</Button>
+            </div>
+          ) : undefined
+        }
+      />
+
+      <div className="space-y-6">
+        {/* Pending invites */}
+        {pendingRequests.length > 0 && (
+          <Card className="p-4">
+            <h3 className="text-lg font-semibold text-text-primary mb-4">
+              Pending Invites
+            </h3>
+            <div className="space-y-3">
+              {pendingRequests.map((linkRequest) => (
+                <div
+                  key={linkRequest.id}
+                  className="flex items-center justify-between p-3 bg-bg-tertiary rounded-lg"
+                >
+                  <div>
+                    <p className="font-medium text-text-primary">
+                      {linkRequest.organization.name}
+                    </p>
+                    <p className="text-sm text-text-secondary">
+                      Sent {new Date(linkRequest.createdAt).toLocaleDateString()}
+                      {linkRequest.inviteEmail ? ` to ${linkRequest.inviteEmail}` : ''}
+                    </p>
+                  </div>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleCancelRequest(linkRequest.id)}
+                    >
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* Client organizations */}
+        {organizations.length === 0 ? (
+          <Card>
+            <div className="p-8 text-center">
+              <h3 className="text-lg font-semibold text-text-primary mb-2">
+                No clients yet
+              </h3>
+              <p className="text-text-secondary">
+                Invite an existing organization or create one for a new client
+              </p>
+            </div>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {organizations.map((org) => (
+              <Card key={org.id}>
+                <div className="p-4 flex items-start justify-between gap-3">
+                  <div>
+                    <h2 className="text-lg font-semibold text-text-primary">{org.name}</h2>
+                    <p className="text-sm text-text-secondary">
+                      {org.sites.length} {org.sites.length === 1 ? 'site' : 'sites'}
+                      {org.contactEmail ? ` · ${org.contactEmail}` : ''}
+                    </p>
+                  </div>
+                  {canEdit && (
+                    <Button variant="ghost" size="sm" onClick={() => setUnlinking(org)}>
+                      Unlink
+                    </Button>
+                  )}
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Invite Modal */}
+      <Modal isOpen={showInvite} onClose={() => setShowInvite(false)} title="Invite Organization">
+        <form onSubmit={handleInvite} className="p-6 space-y-4">
+          <Input
+            label="Admin Email or Organization Slug"
+            placeholder="owner@carwash.com or abc-car-wash"
+            value={inviteTarget}
+            onChange={(e) => setInviteTarget(e.target.value)}
+            helperText="The organization admin will be asked to accept the link"
+            required
+          />
+          <Input
+            label="Message (optional)"
+            value={inviteMessage}
+            onChange={(e) => setInviteMessage(e.target.value)}
+          />
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => setShowInvite(false)}
+              disabled={isSubmitting}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} loading={isSubmitting} className="flex-1">
+              Send Invite
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Create Modal */}
+      <Modal isOpen={showCreate} onClose={() => setShowCreate(false)} title="Create Organization">
+        <form onSubmit={handleCreate} className="p-6 space-y-4">
+          <Input
+            label="Organization Name"
+            placeholder="e.g., ABC Car Wash"
+            value={newOrg.name}
+            onChange={(e) => setNewOrg((prev) => ({ ...prev, name: e.target.value }))}
+            required
+          />
+          <Input
+            label="Contact Email"
+            type="email"
+            value={newOrg.contactEmail}
+            onChange={(e) => setNewOrg((prev) => ({ ...prev, contactEmail: e.target.value }))}
+          />
+          <Input
+            label="Contact Phone"
+            type="tel"
+            value={newOrg.contactPhone}
+            onChange={(e) => setNewOrg((prev) => ({ ...prev, contactPhone: e.target.value }))}
+          />
+          <Select
+            label="Time Zone"
+            value={newOrg.timezone}
+            onChange={(e) => setNewOrg((prev) => ({ ...prev, timezone: e.target.value }))}
+            options={TIMEZONE_OPTIONS}
+          />
+          <Select
+            label="Week Starts On"
+            value={newOrg.weekStartsOn}
+            onChange={(e) => setNewOrg((prev) => ({ ...prev, weekStartsOn: e.target.value }))}
+            options={WEEK_START_OPTIONS}
+          />
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => setShowCreate(false)}
+              disabled={isSubmitting}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting} loading={isSubmitting} className="flex-1">
+              Create
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Unlink Confirmation */}
+      {unlinking && (
+        <ConfirmModal
+          isOpen={!!unlinking}
+          onClose={() => setUnlinking(null)}
+          onConfirm={handleUnlink}
+          title="Unlink Client"
+          message={`Stop serving "${unlinking.name}"? They keep their data, but you will lose access to it.`}
+          confirmText="Unlink"
+          confirmVariant="destructive"
+        />
+      )}
+    </PageContainer>
+  );
+}
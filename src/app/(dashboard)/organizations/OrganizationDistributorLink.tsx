@@ -0,0 +1,286 @@
+// ===========================================
+// FILE: src/app/(dashboard)/organizations/OrganizationDistributorLink.tsx
+// PURPOSE: Organization admin view of the distributor link
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Distributor → Organization)
+// USED BY: Organizations page (ORG_ADMIN)
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { PageContainer, PageHeader } from '@/components/layout';
+import { Button, Card, ConfirmModal } from '@/components/ui';
+import type { DistributorLinkAction } from '@/types';
+
+interface LinkedDistributor {
+  id: string;
+  companyName: string;
+  contactEmail: string | null;
+}
+
+interface LinkAudit {
+  id: string;
+  action: DistributorLinkAction;
+  note: string | null;
+  createdAt: string;
+  distributor: { id: string; companyName: string };
+  performer: { id: string; firstName: string; lastName: string };
+}
+
+interface OrganizationDetail {
+  id: string;
+  name: string;
+  distributor: LinkedDistributor | null;
+  linkHistory: LinkAudit[];
+}
+
+interface LinkRequest {
+  id: string;
+  message: string | null;
+  createdAt: string;
+  distributor: LinkedDistributor;
+  requester: { id: string; firstName: string; lastName: string };
+}
+
+interface OrganizationDistributorLinkProps {
+  organizationId: string;
+}
+
+const ACTION_LABELS: Record<DistributorLinkAction, string> = {
+  CREATED: 'Created by distributor',
+  REQUESTED: 'Link requested',
+  ACCEPTED: 'Link accepted',
+  DECLINED: 'Link declined',
+  CANCELLED: 'Request cancelled',
+  UNLINKED: 'Unlinked',
+};
+
+/**
+ * OrganizationDistributorLink Component
+ *
+ * WHY: Organization admins decide which distributor services their sites.
+ * A distributor can only see the organization's data once the admin
+ * accepts its invite, and either side can end the relationship.
+ *
+ * FEATURES:
+ * - Current distributor with unlink
+ * - Pending invites with accept / decline
+ * - Link history
+ */
+export function OrganizationDistributorLink({ organizationId }: OrganizationDistributorLinkProps) {
+  const [organization, setOrganization] = useState<OrganizationDetail | null>(null);
+  const [pendingRequests, setPendingRequests] = useState<LinkRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showUnlink, setShowUnlink] = useState(false);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, [organizationId]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [orgRes, requestsRes] = await Promise.all([
+        fetch(`/api/organizations/${organizationId}`),
+        fetch('/api/organizations/link-requests'),
+      ]);
+
+      if (orgRes.ok) {
+        setOrganization(await orgRes.json());
+      }
+
+      if (requestsRes.ok) {
+        setPendingRequests(await requestsRes.json());
+      }
+    } catch (error) {
+      console.error('Error fetching distributor link:', error);
+      alert('Failed to load distributor details. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Accept or decline an invite
+   * WHY: Accepting replaces any current distributor
+   */
+  const handleRespond = async (requestId: string, action: 'accept' | 'decline') => {
+    if (
+      action === 'accept' &&
+      organization?.distributor &&
+      !confirm(`Accepting will replace ${organization.distributor.companyName} as your distributor. Continue?`)
+    ) {
+      return;
+    }
+
+    setRespondingId(requestId);
+    try {
+      const response = await fetch(`/api/organizations/link-requests/${requestId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to ${action} invite`);
+      }
+
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error responding to link request:', error);
+      alert(error.message || 'Failed to respond to invite. Please try again.');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  /**
+   * Unlink from the current distributor
+   */
+  const handleUnlink = async () => {
+    try {
+      const response = await fetch(`/api/organizations/${organizationId}/unlink`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to unlink distributor');
+      }
+
+      setShowUnlink(false);
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error unlinking distributor:', error);
+      alert(error.message || 'Failed to unlink distributor. Please try again.');
+    }
+  };
+
+  if (loading || !organization) {
+    return (
+      <PageContainer>
+        <PageHeader title="Distributor" subtitle="Loading..." />
+        <div className="flex justify-center items-center h-64">
+          <div className="text-text-secondary">Loading...</div>
+        </div>
+      </PageContainer>
+    );
+  }
+
+  return (
+    <PageContainer>
+      <PageHeader title="Distributor" subtitle={organization.name} />
+
+      <div className="space-y-6">
+        {/* Current distributor */}
+        <Card className="p-4">
+          <h3 className="text-lg font-semibold text-text-primary mb-4">
+            Current Distributor
+          </h3>
+          {organization.distributor ? (
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <p className="font-medium text-text-primary">
+                  {organization.distributor.companyName}
+                </p>
+                <p className="text-sm text-text-secondary">
+                  {organization.distributor.contactEmail}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setShowUnlink(true)}>
+                Unlink
+              </Button>
+            </div>
+          ) : (
+            <p className="text-text-secondary">
+              Not linked to a distributor. Ask your distributor to send an invite.
+            </p>
+          )}
+        </Card>
+
+        {/* Pending invites */}
+        {pendingRequests.length > 0 && (
+          <Card className="p-4">
+            <h3 className="text-lg font-semibold text-text-primary mb-4">
+              Pending Invites
+            </h3>
+            <div className="space-y-3">
+              {pendingRequests.map((linkRequest) => (
+                <div key={linkRequest.id} className="p-3 bg-bg-tertiary rounded-lg">
+                  <p className="font-medium text-text-primary">
+                    {linkRequest.distributor.companyName}
+                  </p>
+                  <p className="text-sm text-text-secondary">
+                    From {linkRequest.requester.firstName} {linkRequest.requester.lastName} on{' '}
+                    {new Date(linkRequest.createdAt).toLocaleDateString()}
+                  </p>
+                  {linkRequest.message && (
+                    <p className="text-sm text-text-primary mt-2">{linkRequest.message}</p>
+                  )}
+                  <div className="flex gap-2 mt-3">
+                    <Button
+                      size="sm"
+                      onClick={() => handleRespond(linkRequest.id, 'accept')}
+                      disabled={respondingId !== null}
+                      loading={respondingId === linkRequest.id}
+                    >
+                      Accept
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => handleRespond(linkRequest.id, 'decline')}
+                      disabled={respondingId !== null}
+                    >
+                      Decline
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* Link history */}
+        {organization.linkHistory.length > 0 && (
+          <Card className="p-4">
+            <h3 className="text-lg font-semibold text-text-primary mb-4">History</h3>
+            <ul className="space-y-2">
+              {organization.linkHistory.map((entry) => (
+                <li key={entry.id} className="text-sm">
+                  <span className="text-text-primary">
+                    {ACTION_LABELS[entry.action]} · {entry.distributor.companyName}
+                  </span>
+                  <span className="text-text-secondary">
+                    {' '}by {entry.performer.firstName} {entry.performer.lastName},{' '}
+                    {new Date(entry.createdAt).toLocaleDateString()}
+                  </span>
+                  {entry.note && (
+                    <p className="text-text-secondary">{entry.note}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </Card>
+        )}
+      </div>
+
+      {/* Unlink Confirmation */}
+      {organization.distributor && (
+        <ConfirmModal
+          isOpen={showUnlink}
+          onClose={() => setShowUnlink(false)}
+          onConfirm={handleUnlink}
+          title="Unlink Distributor"
+          message={`Unlink ${organization.distributor.companyName}? They will lose access to your sites and analytics.`}
+          confirmText="Unlink"
+          confirmVariant="destructive"
+        />
+      )}
+    </PageContainer>
+  );
+}
@@ -0,0 +1,54 @@
+// ===========================================
+// FILE: src/app/(dashboard)/organizations/page.tsx
+// PURPOSE: Distributor client management / organization distributor link
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Distributor → Organization)
+// ===========================================
+
+import React from 'react';
+import { auth } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { DistributorClients } from './DistributorClients';
+import { OrganizationDistributorLink } from './OrganizationDistributorLink';
+
+/**
+ * Organizations Page
+ *
+ * WHY: Distributors and car wash organizations link to each other through
+ * an invite / accept flow, and either side can end the link.
+ *
+ * ROUTING LOGIC:
+ * - DISTRIBUTOR_*: Client list, invites and create-on-behalf (admins only)
+ * - ORG_ADMIN: Current distributor, pending invites, unlink
+ * - Site roles: Not available
+ */
+export default async function OrganizationsPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  const { role } = session.user;
+
+  if (role === 'DISTRIBUTOR_ADMIN' || role === 'DISTRIBUTOR_USER') {
+    return <DistributorClients canEdit={role === 'DISTRIBUTOR_ADMIN'} />;
+  }
+
+  if (role === 'ORG_ADMIN' && session.user.organizationId) {
+    return <OrganizationDistributorLink organizationId={session.user.organizationId} />;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+        <h2 className="text-lg font-semibold text-yellow-800 mb-2">
+          Not Available
+        </h2>
+        <p className="text-yellow-700">
+          Organization management is available to distributor and organization
+          admins.
+        </p>
+      </div>
+    </div>
+  );
+}
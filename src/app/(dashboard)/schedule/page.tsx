@@ -1,6 +1,6 @@
 // ===========================================
 // FILE: src/app/(dashboard)/schedule/page.tsx
-// PURPOSE: Schedule page with calendar and list views
+// PURPOSE: Schedule page with calendar, list and day plan views
 // PRD REFERENCE: PRD Section 8 - Visit Scheduling
 // ===========================================
 
@@ -12,6 +12,7 @@ import { PageContainer, PageHeader } from '@/components/layout';
 import { Card, Button, Modal, Tabs } from '@/components/ui';
 import { ScheduleCalendar } from '@/components/dashboard/ScheduleCalendar';
 import { ScheduleList } from '@/components/dashboard/ScheduleList';
+import { RoutePlanner } from '@/components/dashboard/RoutePlanner';
 import { ScheduleForm, ScheduleFormData } from '@/components/forms/ScheduleForm';
 import { FAB } from '@/components/layout';
 
@@ -67,6 +68,7 @@ interface ReminderData {
  * - List view with status filtering
  * - Create/edit/complete/cancel schedules
  * - Reminder alerts for overdue visits
+ * - Day plan with route order (distributors)
  * - Role-based site access
  */
 export default function SchedulePage() {
@@ -233,6 +235,9 @@ export default function SchedulePage() {
     setSelectedSchedule(schedule);
   };
 
+  const isDistributor =
+    session?.user.role === 'DISTRIBUTOR_ADMIN' || session?.user.role === 'DISTRIBUTOR_USER';
+
   if (status === 'loading' || loading) {
     return (
       <PageContainer>
@@ -311,6 +316,7 @@ export default function SchedulePage() {
         tabs={[
           { id: 'calendar', label: 'Calendar' },
           { id: 'list', label: 'List' },
+          ...(isDistributor ? [{ id: 'day-plan', label: 'Day Plan' }] : []),
         ]}
         value={activeTab}
         onChange={setActiveTab}
@@ -341,6 +347,14 @@ export default function SchedulePage() {
         />
       )}
 
+      {/* Day Plan View */}
+      {activeTab === 'day-plan' && isDistributor && (
+        <RoutePlanner
+          currentUserId={session.user.id}
+          canPlanTeam={session.user.role === 'DISTRIBUTOR_ADMIN'}
+        />
+      )}
+
       {/* Create Schedule Modal */}
       <Modal
         isOpen={showCreateModal}
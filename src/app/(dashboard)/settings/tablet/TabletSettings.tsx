@@ -0,0 +1,454 @@
+// ===========================================
+// FILE: src/app/(dashboard)/settings/tablet/TabletSettings.tsx
+// PURPOSE: Personal PIN setup and shared tablet enrollment
+// PRD REFERENCE: PRD Section 4.2 - Secondary Authentication (PIN)
+// USED BY: Tablet settings page
+// ===========================================
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { signOut } from 'next-auth/react';
+import { PageContainer, PageHeader, PageSection } from '@/components/layout';
+import { Button, Card, ConfirmModal, Input, Modal, Select } from '@/components/ui';
+import { formatDate } from '@/lib/utils';
+
+interface SiteOption {
+  id: string;
+  name: string;
+}
+
+interface TabletDevice {
+  id: string;
+  name: string;
+  isActive: boolean;
+  lastUsedAt: string | null;
+  enrolledAt: string;
+  enroller: { firstName: string; lastName: string } | null;
+}
+
+interface CurrentDevice {
+  device: { id: string; name: string };
+  site: { id: string; name: string };
+}
+
+interface TabletSettingsProps {
+  userId: string;
+  canSetPin: boolean;
+  canManageTablets: boolean;
+  pinUpdatedAt: string | null;
+  sites: SiteOption[];
+}
+
+/**
+ * TabletSettings Component
+ *
+ * WHY: Tablet mode has two halves - each crew member needs a PIN, and the
+ * shared tablet needs to be enrolled to a site by a manager.
+ *
+ * FEATURES:
+ * - Set, change or remove your own PIN (site roles)
+ * - Enroll this browser as a site tablet (managers)
+ * - List and revoke a site's tablets (managers)
+ *
+ * BUSINESS LOGIC:
+ * - Enrolling happens on the tablet itself while the manager is signed in
+ *   with their password; afterwards "Switch to Tablet Mode" signs the
+ *   manager out and opens the PIN screen
+ */
+export function TabletSettings({
+  userId,
+  canSetPin,
+  canManageTablets,
+  pinUpdatedAt: initialPinUpdatedAt,
+  sites,
+}: TabletSettingsProps) {
+  const router = useRouter();
+  const [pinUpdatedAt, setPinUpdatedAt] = useState(initialPinUpdatedAt);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [pinErrors, setPinErrors] = useState<Record<string, string>>({});
+  const [isSavingPin, setIsSavingPin] = useState(false);
+  const [showRemovePin, setShowRemovePin] = useState(false);
+
+  const [siteId, setSiteId] = useState(sites[0]?.id ?? '');
+  const [devices, setDevices] = useState<TabletDevice[]>([]);
+  const [currentDevice, setCurrentDevice] = useState<CurrentDevice | null>(null);
+  const [showEnroll, setShowEnroll] = useState(false);
+  const [deviceName, setDeviceName] = useState('');
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [revokingDevice, setRevokingDevice] = useState<TabletDevice | null>(null);
+
+  useEffect(() => {
+    if (canManageTablets) {
+      fetchCurrentDevice();
+    }
+  }, [canManageTablets]);
+
+  useEffect(() => {
+    if (canManageTablets && siteId) {
+      fetchDevices(siteId);
+    }
+  }, [canManageTablets, siteId]);
+
+  /**
+   * Which tablet (if any) this browser is enrolled as
+   */
+  const fetchCurrentDevice = async () => {
+    try {
+      const response = await fetch('/api/tablet/roster');
+      setCurrentDevice(response.ok ? await response.json() : null);
+    } catch (error) {
+      console.error('Error fetching current tablet:', error);
+    }
+  };
+
+  const fetchDevices = async (forSiteId: string) => {
+    try {
+      const response = await fetch(`/api/tablet/devices?siteId=${forSiteId}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch tablets');
+      }
+      setDevices(await response.json());
+    } catch (error) {
+      console.error('Error fetching tablets:', error);
+      alert('Failed to load tablets. Please try again.');
+    }
+  };
+
+  /**
+   * Validate PIN entry
+   * WHY: Client-side validation for better UX
+   */
+  const validatePin = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!/^\d{4,6}$/.test(pin)) {
+      newErrors.pin = 'PIN must be 4-6 digits';
+    }
+
+    if (pin !== confirmPin) {
+      newErrors.confirmPin = "PINs don't match";
+    }
+
+    setPinErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSavePin = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validatePin()) {
+      return;
+    }
+
+    setIsSavingPin(true);
+
+    try {
+      const response = await fetch(`/api/users/${userId}/pin`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pin, confirmPin }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save PIN');
+      }
+
+      const result = await response.json();
+      setPinUpdatedAt(result.pinUpdatedAt);
+      setPin('');
+      setConfirmPin('');
+      alert('PIN saved');
+    } catch (error: any) {
+      console.error('Error saving PIN:', error);
+      alert(error.message || 'Failed to save PIN. Please try again.');
+    } finally {
+      setIsSavingPin(false);
+    }
+  };
+
+  const handleRemovePin = async () => {
+    try {
+      const response = await fetch(`/api/users/${userId}/pin`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to remove PIN');
+      }
+
+      setPinUpdatedAt(null);
+    } catch (error: any) {
+      console.error('Error removing PIN:', error);
+      alert(error.message || 'Failed to remove PIN. Please try again.');
+    } finally {
+      setShowRemovePin(false);
+    }
+  };
+
+  const handleEnroll = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!deviceName.trim()) {
+      alert('Enter a name for this tablet');
+      return;
+    }
+
+    setIsEnrolling(true);
+
+    try {
+      const response = await fetch('/api/tablet/devices', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ siteId, name: deviceName.trim() }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to enroll tablet');
+      }
+
+      setShowEnroll(false);
+      setDeviceName('');
+      await Promise.all([fetchDevices(siteId), fetchCurrentDevice()]);
+    } catch (error: any) {
+      console.error('Error enrolling tablet:', error);
+      alert(error.message || 'Failed to enroll tablet. Please try again.');
+    } finally {
+      setIsEnrolling(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revokingDevice) return;
+
+    try {
+      const response = await fetch(`/api/tablet/devices?deviceId=${revokingDevice.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to revoke tablet');
+      }
+
+      await Promise.all([fetchDevices(siteId), fetchCurrentDevice()]);
+    } catch (error: any) {
+      console.error('Error revoking tablet:', error);
+      alert(error.message || 'Failed to revoke tablet. Please try again.');
+    } finally {
+      setRevokingDevice(null);
+    }
+  };
+
+  /**
+   * Hand the enrolled tablet over to the crew
+   */
+  const switchToTabletMode = async () => {
+    await signOut({ redirect: false });
+    router.push('/tablet');
+    router.refresh();
+  };
+
+  return (
+    <PageContainer maxWidth="md">
+      <PageHeader
+        title="Tablet Mode"
+        subtitle="Sign in on the shared site tablet with a PIN"
+      />
+
+      {/* Personal PIN */}
+      {canSetPin && (
+        <PageSection>
+          <h2 className="text-lg font-semibold text-text-primary mb-3">Your PIN</h2>
+          <Card>
+            <form onSubmit={handleSavePin} className="p-4 space-y-4">
+              <p className="text-sm text-text-secondary">
+                {pinUpdatedAt
+                  ? `PIN last set ${formatDate(pinUpdatedAt)}.`
+                  : 'You have not set a PIN yet, so you will not appear on site tablets.'}
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Input
+                  label={pinUpdatedAt ? 'New PIN' : 'PIN'}
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={6}
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value)}
+                  error={pinErrors.pin}
+                  helperText="4-6 digits"
+                />
+                <Input
+                  label="Confirm PIN"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={6}
+                  value={confirmPin}
+                  onChange={(e) => setConfirmPin(e.target.value)}
+                  error={pinErrors.confirmPin}
+                />
+              </div>
+              <div className="flex gap-3">
+                <Button type="submit" loading={isSavingPin} disabled={isSavingPin}>
+                  {pinUpdatedAt ? 'Change PIN' : 'Set PIN'}
+                </Button>
+                {pinUpdatedAt && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    onClick={() => setShowRemovePin(true)}
+                  >
+                    Remove PIN
+                  </Button>
+                )}
+              </div>
+            </form>
+          </Card>
+        </PageSection>
+      )}
+
+      {/* Tablets */}
+      {canManageTablets && (
+        <PageSection>
+          <h2 className="text-lg font-semibold text-text-primary mb-3">Site Tablets</h2>
+
+          {/* This device */}
+          <Card className="mb-4">
+            <div className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+              <p className="text-sm text-text-secondary">
+                {currentDevice
+                  ? `This device is enrolled as "${currentDevice.device.name}" for ${currentDevice.site.name}.`
+                  : 'This device is not enrolled as a tablet.'}
+              </p>
+              {currentDevice && (
+                <Button variant="secondary" size="sm" onClick={switchToTabletMode}>
+                  Switch to Tablet Mode
+                </Button>
+              )}
+            </div>
+          </Card>
+
+          {sites.length === 0 ? (
+            <p className="text-sm text-text-secondary">You don&apos;t have access to any sites.</p>
+          ) : (
+            <>
+              <div className="flex flex-col md:flex-row md:items-end gap-3 mb-4">
+                <Select
+                  label="Site"
+                  value={siteId}
+                  onChange={(e) => setSiteId(e.target.value)}
+                  options={sites.map((site) => ({ value: site.id, label: site.name }))}
+                />
+                <Button onClick={() => setShowEnroll(true)}>Enroll This Device</Button>
+              </div>
+
+              {devices.length === 0 ? (
+                <p className="text-sm text-text-secondary">No tablets enrolled for this site.</p>
+              ) : (
+                <div className="space-y-3">
+                  {devices.map((device) => (
+                    <Card key={device.id} className={!device.isActive ? 'opacity-60' : ''}>
+                      <div className="p-4 flex items-center justify-between gap-3">
+                        <div>
+                          <p className="font-semibold text-text-primary">
+                            {device.name}
+                            {!device.isActive && (
+                              <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded-full bg-bg-tertiary text-text-secondary">
+                                Revoked
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-sm text-text-secondary">
+                            Enrolled {formatDate(device.enrolledAt)}
+                            {device.enroller &&
+                              ` by ${device.enroller.firstName} ${device.enroller.lastName}`}
+                            {' · '}
+                            {device.lastUsedAt
+                              ? `Last sign-in ${formatDate(device.lastUsedAt)}`
+                              : 'Never used'}
+                          </p>
+                        </div>
+                        {device.isActive && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setRevokingDevice(device)}
+                          >
+                            Revoke
+                          </Button>
+                        )}
+                      </div>
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </PageSection>
+      )}
+
+      {/* Enroll Modal */}
+      <Modal isOpen={showEnroll} onClose={() => setShowEnroll(false)} title="Enroll This Device">
+        <form onSubmit={handleEnroll} className="p-6 space-y-4">
+          <p className="text-sm text-text-secondary">
+            Crew members will be able to sign in on this browser with their PIN for{' '}
+            {sites.find((site) => site.id === siteId)?.name}.
+          </p>
+          <Input
+            label="Tablet Name"
+            placeholder="e.g., Equipment Room iPad"
+            value={deviceName}
+            onChange={(e) => setDeviceName(e.target.value)}
+            required
+          />
+          <div className="flex gap-3 pt-4">
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => setShowEnroll(false)}
+              disabled={isEnrolling}
+              className="flex-1"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              loading={isEnrolling}
+              disabled={isEnrolling}
+              className="flex-1"
+            >
+              Enroll
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Revoke Confirmation */}
+      <ConfirmModal
+        isOpen={!!revokingDevice}
+        onClose={() => setRevokingDevice(null)}
+        onConfirm={handleRevoke}
+        title="Revoke Tablet"
+        message={`PIN sign-in will stop working on "${revokingDevice?.name}". Continue?`}
+        confirmText="Revoke"
+        confirmVariant="destructive"
+      />
+
+      {/* Remove PIN Confirmation */}
+      <ConfirmModal
+        isOpen={showRemovePin}
+        onClose={() => setShowRemovePin(false)}
+        onConfirm={handleRemovePin}
+        title="Remove PIN"
+        message="You will no longer be able to sign in on site tablets until you set a new PIN."
+        confirmText="Remove PIN"
+        confirmVariant="destructive"
+      />
+    </PageContainer>
+  );
+}
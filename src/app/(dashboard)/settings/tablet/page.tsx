@@ -0,0 +1,77 @@
+// ===========================================
+// FILE: src/app/(dashboard)/settings/tablet/page.tsx
+// PURPOSE: Tablet mode settings (personal PIN and tablet enrollment)
+// PRD REFERENCE: PRD Section 4.2 - Secondary Authentication (PIN)
+// ===========================================
+
+import React from 'react';
+import { auth } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { prisma } from '@/lib/prisma';
+import { getAccessibleSiteWhere } from '@/lib/dashboard';
+import { TABLET_MANAGER_ROLES, TABLET_ROLES } from '@/lib/tablet';
+import { TabletSettings } from './TabletSettings';
+
+/**
+ * Tablet Settings Page
+ *
+ * WHY: Site users set the PIN they use on the shared tablet; managers
+ * enroll the tablet itself to a site.
+ *
+ * ACCESS:
+ * - PIN setup: SITE_MANAGER, SITE_USER
+ * - Tablet enrollment: ORG_ADMIN, SITE_MANAGER
+ * - Password sessions only (not from the tablet's own PIN session)
+ */
+export default async function TabletSettingsPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  const { id, role, authMethod } = session.user;
+  const canSetPin = TABLET_ROLES.includes(role);
+  const canManageTablets = TABLET_MANAGER_ROLES.includes(role);
+
+  if (authMethod !== 'password' || (!canSetPin && !canManageTablets)) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+          <h2 className="text-lg font-semibold text-yellow-800 mb-2">
+            Access Restricted
+          </h2>
+          <p className="text-yellow-700">
+            {authMethod !== 'password'
+              ? 'Sign in with your password to change tablet settings.'
+              : 'Tablet mode is available to site managers, site users and organization admins.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id },
+    select: { pinUpdatedAt: true },
+  });
+
+  const siteWhere = canManageTablets ? getAccessibleSiteWhere(session.user) : null;
+  const sites = siteWhere
+    ? await prisma.site.findMany({
+        where: siteWhere,
+        select: { id: true, name: true },
+        orderBy: { name: 'asc' },
+      })
+    : [];
+
+  return (
+    <TabletSettings
+      userId={id}
+      canSetPin={canSetPin}
+      canManageTablets={canManageTablets}
+      pinUpdatedAt={user?.pinUpdatedAt?.toISOString() ?? null}
+      sites={sites}
+    />
+  );
+}
@@ -0,0 +1,310 @@
+// ===========================================
+// FILE: src/app/(dashboard)/sites/SiteManagement.tsx
+// PURPOSE: Site list and management for organizations
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Organization → Site)
+// USED BY: Sites page
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { PageContainer, PageHeader } from '@/components/layout';
+import { Button, Card, ConfirmModal } from '@/components/ui';
+import { useFABAction } from '@/components/layout/FAB';
+import { SiteForm } from '@/components/forms/SiteForm';
+import type { WashType } from '@/types';
+
+interface Site {
+  id: string;
+  name: string;
+  slug: string;
+  address: string | null;
+  washType: WashType;
+  visitReminderDays: number;
+  timezone: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  visitWindowStart: string | null;
+  visitWindowEnd: string | null;
+  visitDurationMinutes: number;
+  isActive: boolean;
+  organization: {
+    id: string;
+    name: string;
+    slug: string;
+  };
+}
+
+interface SiteManagementProps {
+  organizationId?: string;
+  canEdit: boolean;
+}
+
+/**
+ * Display labels for wash types
+ */
+const WASH_TYPE_LABELS: Record<WashType, string> = {
+  EXPRESS: 'Express Exterior',
+  FULL_SERVICE: 'Full Service',
+  HAND_WASH: 'Hand Wash',
+  IN_BAY_AUTOMATIC: 'In-Bay Automatic',
+  TOUCHLESS_IBA: 'Touchless IBA',
+};
+
+/**
+ * SiteManagement Component
+ *
+ * WHY: Organization admins maintain the list of wash locations that
+ * chemicals, packages, visits and analytics hang off.
+ *
+ * FEATURES:
+ * - List active and deactivated sites
+ * - Add / edit sites (name, address, wash type, visit reminder)
+ * - Deactivate and reactivate sites (history is preserved)
+ */
+export function SiteManagement({ organizationId, canEdit }: SiteManagementProps) {
+  const [sites, setSites] = useState<Site[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingSite, setEditingSite] = useState<Site | null>(null);
+  const [deactivatingSite, setDeactivatingSite] = useState<Site | null>(null);
+
+  /**
+   * Configure FAB for adding sites
+   * WHY: Quick access to add a site (admins only)
+   */
+  useFABAction(
+    canEdit
+      ? {
+          label: 'Add Site',
+          icon: 'plus',
+          onClick: () => {
+            setEditingSite(null);
+            setShowForm(true);
+          },
+        }
+      : null
+  );
+
+  /**
+   * Fetch sites on mount
+   */
+  useEffect(() => {
+    fetchSites();
+  }, [organizationId]);
+
+  const fetchSites = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/sites${canEdit ? '?includeInactive=true' : ''}`);
+
+      if (!response.ok) {
+        throw new Error('Failed to fetch sites');
+      }
+
+      const data = await response.json();
+      setSites(data);
+    } catch (error) {
+      console.error('Error fetching sites:', error);
+      alert('Failed to load sites. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Deactivate a site
+   */
+  const handleDeactivate = async () => {
+    if (!deactivatingSite) return;
+
+    try {
+      const response = await fetch(`/api/sites/${deactivatingSite.id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to deactivate site');
+      }
+
+      await fetchSites();
+      setDeactivatingSite(null);
+    } catch (error: any) {
+      console.error('Error deactivating site:', error);
+      alert(error.message || 'Failed to deactivate site. Please try again.');
+    }
+  };
+
+  /**
+   * Reactivate a site
+   */
+  const handleReactivate = async (site: Site) => {
+    try {
+      const response = await fetch(`/api/sites/${site.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: true }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to reactivate site');
+      }
+
+      await fetchSites();
+    } catch (error: any) {
+      console.error('Error reactivating site:', error);
+      alert(error.message || 'Failed to reactivate site. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <PageContainer>
+        <PageHeader title="Sites" subtitle="Loading sites..." />
+        <div className="flex justify-center items-center h-64">
+          <div className="text-text-secondary">Loading...</div>
+        </div>
+      </PageContainer>
+    );
+  }
+
+  const activeCount = sites.filter((site) => site.isActive).length;
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Sites"
+        subtitle={`${activeCount} active ${activeCount === 1 ? 'site' : 'sites'}`}
+        action={
+          canEdit ? (
+            <Button
+              onClick={() => {
+                setEditingSite(null);
+                setShowForm(true);
+              }}
+            >
+              Add Site
+            </Button>
+          ) : undefined
+        }
+      />
+
+      {sites.length === 0 ? (
+        <Card>
+          <div className="p-8 text-center">
+            <h3 className="text-lg font-semibold text-text-primary mb-2">
+              No sites yet
+            </h3>
+            <p className="text-text-secondary mb-4">
+              {canEdit
+                ? 'Add your first wash location to start tracking chemicals and visits'
+                : 'No sites have been shared with you yet'}
+            </p>
+            {canEdit && (
+              <Button onClick={() => setShowForm(true)}>
+                Add Your First Site
+              </Button>
+            )}
+          </div>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {sites.map((site) => (
+            <Card key={site.id} className={site.isActive ? undefined : 'opacity-60'}>
+              <div className="p-4">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h2 className="text-lg font-semibold text-text-primary">
+                        {site.name}
+                      </h2>
+                      {!site.isActive && (
+                        <span className="px-2 py-0.5 text-xs font-medium bg-bg-tertiary text-text-secondary rounded">
+                          Inactive
+                        </span>
+                      )}
+                    </div>
+                    {site.address && (
+                      <p className="text-sm text-text-secondary">{site.address}</p>
+                    )}
+                    {!organizationId && (
+                      <p className="text-xs text-text-tertiary">{site.organization.name}</p>
+                    )}
+                  </div>
+                  {canEdit && (
+                    <div className="flex gap-2">
+                      {site.isActive ? (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setEditingSite(site);
+                              setShowForm(true);
+                            }}
+                          >
+                            Edit
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDeactivatingSite(site)}
+                          >
+                            Deactivate
+                          </Button>
+                        </>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleReactivate(site)}
+                        >
+                          Reactivate
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex flex-wrap gap-4 mt-3 text-sm text-text-secondary">
+                  <span>{WASH_TYPE_LABELS[site.washType]}</span>
+                  <span>Visit every {site.visitReminderDays} days</span>
+                </div>
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Add / Edit Site Modal */}
+      {canEdit && (
+        <SiteForm
+          key={editingSite?.id ?? 'new'}
+          isOpen={showForm}
+          onClose={() => {
+            setShowForm(false);
+            setEditingSite(null);
+          }}
+          onSuccess={fetchSites}
+          organizationId={organizationId}
+          site={editingSite ?? undefined}
+        />
+      )}
+
+      {/* Deactivate Confirmation */}
+      {deactivatingSite && (
+        <ConfirmModal
+          isOpen={!!deactivatingSite}
+          onClose={() => setDeactivatingSite(null)}
+          onConfirm={handleDeactivate}
+          title="Deactivate Site"
+          message={`Deactivate "${deactivatingSite.name}"? It will be hidden from lists, but its visit history and analytics are kept.`}
+          confirmText="Deactivate"
+          confirmVariant="destructive"
+        />
+      )}
+    </PageContainer>
+  );
+}
@@ -0,0 +1,56 @@
+// ===========================================
+// FILE: src/app/(dashboard)/sites/page.tsx
+// PURPOSE: Site management page - role-specific views
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Organization → Site)
+// ===========================================
+
+import React from 'react';
+import { auth } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { SiteManagement } from './SiteManagement';
+
+/**
+ * Sites Page
+ *
+ * WHY: Organization admins add, edit and deactivate their wash locations.
+ *
+ * ROUTING LOGIC:
+ * - ORG_ADMIN: Manage organization's sites
+ * - DISTRIBUTOR_*: View client sites (read-only)
+ * - SITE_MANAGER/SITE_USER: View assigned sites (read-only)
+ */
+export default async function SitesPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  const { role } = session.user;
+
+  // ORGANIZATION ADMIN: Manage sites
+  if (role === 'ORG_ADMIN') {
+    const organizationId = session.user.organizationId;
+
+    if (!organizationId) {
+      return (
+        <div className="container mx-auto px-4 py-8">
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+            <h2 className="text-lg font-semibold text-yellow-800 mb-2">
+              No Organization Assignment
+            </h2>
+            <p className="text-yellow-700">
+              Your account is not associated with an organization. Please
+              contact support.
+            </p>
+          </div>
+        </div>
+      );
+    }
+
+    return <SiteManagement organizationId={organizationId} canEdit={true} />;
+  }
+
+  // ALL OTHER ROLES: Read-only list of visible sites
+  return <SiteManagement canEdit={false} />;
+}
@@ -0,0 +1,507 @@
+// ===========================================
+// FILE: src/app/(dashboard)/team/TeamManagement.tsx
+// PURPOSE: Team member, invite and site access management
+// PRD REFERENCE: PRD Section 3 - User Roles & Permissions
+// USED BY: Team page
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { PageContainer, PageHeader } from '@/components/layout';
+import { Button, Card, ConfirmModal, Modal, Select } from '@/components/ui';
+import { useFABAction } from '@/components/layout/FAB';
+import { InviteUserForm } from '@/components/forms/InviteUserForm';
+import type { UserRole } from '@/types';
+
+interface SiteAccessGrant {
+  id: string;
+  grantedAt: string;
+  site: { id: string; name: string };
+  granter: { id: string; firstName: string; lastName: string } | null;
+}
+
+interface TeamMember {
+  id: string;
+  email: string | null;
+  firstName: string;
+  lastName: string;
+  role: UserRole;
+  isActive: boolean;
+  lastLoginAt: string | null;
+  pinUpdatedAt: string | null;
+  pinLockedUntil: string | null;
+  siteAccess: SiteAccessGrant[];
+}
+
+interface PendingInvite {
+  id: string;
+  email: string;
+  role: UserRole;
+  expiresAt: string;
+  expired: boolean;
+  inviter: { firstName: string; lastName: string };
+}
+
+interface SiteOption {
+  id: string;
+  name: string;
+}
+
+interface TeamManagementProps {
+  adminRole: 'DISTRIBUTOR_ADMIN' | 'ORG_ADMIN';
+  currentUserId: string;
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  DISTRIBUTOR_ADMIN: 'Distributor Admin',
+  DISTRIBUTOR_USER: 'Distributor User',
+  ORG_ADMIN: 'Organization Admin',
+  SITE_MANAGER: 'Site Manager',
+  SITE_USER: 'Site User',
+};
+
+const SITE_ROLES: UserRole[] = ['SITE_MANAGER', 'SITE_USER'];
+
+/**
+ * TeamManagement Component
+ *
+ * WHY: Registration only creates a company's first admin; everyone else
+ * joins through an invite.
+ *
+ * FEATURES:
+ * - Invite team members (FAB and header button)
+ * - Pending invites with resend / revoke
+ * - Change roles, deactivate / reactivate members
+ * - Grant and revoke site access (organization admins, site roles)
+ * - Reset tablet PINs (also clears a PIN lockout)
+ */
+export function TeamManagement({ adminRole, currentUserId }: TeamManagementProps) {
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [invites, setInvites] = useState<PendingInvite[]>([]);
+  const [sites, setSites] = useState<SiteOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showInviteForm, setShowInviteForm] = useState(false);
+  const [deactivatingMember, setDeactivatingMember] = useState<TeamMember | null>(null);
+  const [pinResetMember, setPinResetMember] = useState<TeamMember | null>(null);
+  const [accessMemberId, setAccessMemberId] = useState<string | null>(null);
+  const [siteToGrant, setSiteToGrant] = useState('');
+
+  const roleOptions = (
+    adminRole === 'DISTRIBUTOR_ADMIN'
+      ? ['DISTRIBUTOR_ADMIN', 'DISTRIBUTOR_USER']
+      : ['ORG_ADMIN', 'SITE_MANAGER', 'SITE_USER']
+  ).map((role) => ({ value: role as UserRole, label: ROLE_LABELS[role as UserRole] }));
+
+  const canManageSites = adminRole === 'ORG_ADMIN';
+  const accessMember = members.find((member) => member.id === accessMemberId) || null;
+
+  /**
+   * Configure FAB for inviting members
+   */
+  useFABAction({
+    label: 'Invite Member',
+    icon: 'plus',
+    onClick: () => setShowInviteForm(true),
+  });
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [membersRes, invitesRes, sitesRes] = await Promise.all([
+        fetch('/api/users'),
+        fetch('/api/invites'),
+        canManageSites ? fetch('/api/sites') : Promise.resolve(null),
+      ]);
+
+      if (!membersRes.ok) {
+        throw new Error('Failed to fetch team');
+      }
+
+      setMembers(await membersRes.json());
+
+      if (invitesRes.ok) {
+        setInvites(await invitesRes.json());
+      }
+
+      if (sitesRes?.ok) {
+        setSites(await sitesRes.json());
+      }
+    } catch (error) {
+      console.error('Error fetching team:', error);
+      alert('Failed to load team. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Update a member's role or status
+   */
+  const updateMember = async (memberId: string, data: { role?: UserRole; isActive?: boolean }) => {
+    try {
+      const response = await fetch(`/api/users/${memberId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update team member');
+      }
+
+      const updated: TeamMember = await response.json();
+      setMembers((prev) => prev.map((member) => (member.id === updated.id ? updated : member)));
+    } catch (error: any) {
+      console.error('Error updating team member:', error);
+      alert(error.message || 'Failed to update team member. Please try again.');
+    }
+  };
+
+  const handleDeactivate = async () => {
+    if (!deactivatingMember) return;
+    await updateMember(deactivatingMember.id, { isActive: false });
+    setDeactivatingMember(null);
+  };
+
+  /**
+   * Reset a member's tablet PIN
+   * WHY: Forgotten PINs are never revealed; the member sets a new one
+   */
+  const handleResetPin = async () => {
+    if (!pinResetMember) return;
+
+    try {
+      const response = await fetch(`/api/users/${pinResetMember.id}/pin`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to reset PIN');
+      }
+
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error resetting PIN:', error);
+      alert(error.message || 'Failed to reset PIN. Please try again.');
+    } finally {
+      setPinResetMember(null);
+    }
+  };
+
+  /**
+   * Resend or revoke a pending invite
+   */
+  const handleInviteAction = async (inviteId: string, action: 'resend' | 'revoke') => {
+    try {
+      const response = await fetch(
+        action === 'resend' ? `/api/invites/${inviteId}/resend` : `/api/invites/${inviteId}`,
+        { method: action === 'resend' ? 'POST' : 'DELETE' }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || `Failed to ${action} invite`);
+      }
+
+      if (action === 'resend') {
+        alert('Invite resent');
+      }
+
+      await fetchData();
+    } catch (error: any) {
+      console.error(`Error (${action}) invite:`, error);
+      alert(error.message || `Failed to ${action} invite. Please try again.`);
+    }
+  };
+
+  /**
+   * Grant or revoke site access for the member being edited
+   */
+  const handleSiteAccess = async (siteId: string, grant: boolean) => {
+    if (!accessMember || !siteId) return;
+
+    try {
+      const response = await fetch(
+        grant
+          ? `/api/users/${accessMember.id}/site-access`
+          : `/api/users/${accessMember.id}/site-access?siteId=${siteId}`,
+        grant
+          ? {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ siteId }),
+            }
+          : { method: 'DELETE' }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to update site access');
+      }
+
+      setSiteToGrant('');
+      await fetchData();
+    } catch (error: any) {
+      console.error('Error updating site access:', error);
+      alert(error.message || 'Failed to update site access. Please try again.');
+    }
+  };
+
+  if (loading) {
+    return (
+      <PageContainer>
+        <PageHeader title="Team" subtitle="Loading team..." />
+        <div className="flex justify-center items-center h-64">
+          <div className="text-text-secondary">Loading...</div>
+        </div>
+      </PageContainer>
+    );
+  }
+
+  const activeCount = members.filter((member) => member.isActive).length;
+  const grantableSites = accessMember
+    ? sites.filter((site) => !accessMember.siteAccess.some((access) => access.site.id === site.id))
+    : [];
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Team"
+        subtitle={`${activeCount} active ${activeCount === 1 ? 'member' : 'members'}`}
+        action={<Button onClick={() => setShowInviteForm(true)}>Invite Member</Button>}
+      />
+
+      <div className="space-y-6">
+        {/* Pending invites */}
+        {invites.length > 0 && (
+          <Card className="p-4">
+            <h3 className="text-lg font-semibold text-text-primary mb-4">Pending Invites</h3>
+            <div className="space-y-3">
+              {invites.map((invite) => (
+                <div
+                  key={invite.id}
+                  className="flex items-center justify-between gap-3 p-3 bg-bg-tertiary rounded-lg"
+                >
+                  <div>
+                    <p className="font-medium text-text-primary">{invite.email}</p>
+                    <p className="text-sm text-text-secondary">
+                      {ROLE_LABELS[invite.role]} ·{' '}
+                      {invite.expired
+                        ? 'Expired'
+                        : `Expires ${new Date(invite.expiresAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => handleInviteAction(invite.id, 'resend')}
+                    >
+                      Resend
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleInviteAction(invite.id, 'revoke')}
+                    >
+                      Revoke
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        {/* Members */}
+        <div className="space-y-3">
+          {members.map((member) => {
+            const isSelf = member.id === currentUserId;
+            const isSiteMember = SITE_ROLES.includes(member.role);
+            const isPinLocked =
+              !!member.pinLockedUntil && new Date(member.pinLockedUntil) > new Date();
+
+            return (
+              <Card key={member.id} className={!member.isActive ? 'opacity-60' : ''}>
+                <div className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                  <div>
+                    <p className="font-semibold text-text-primary">
+                      {member.firstName} {member.lastName}
+                      {isSelf && <span className="text-text-secondary font-normal"> (you)</span>}
+                      {!member.isActive && (
+                        <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded-full bg-bg-tertiary text-text-secondary">
+                          Inactive
+                        </span>
+                      )}
+                      {isPinLocked && (
+                        <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded-full bg-error/10 text-error">
+                          PIN locked
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-text-secondary">{member.email}</p>
+                    {isSiteMember && (
+                      <p className="text-sm text-text-secondary">
+                        {member.siteAccess.length > 0
+                          ? member.siteAccess.map((access) => access.site.name).join(', ')
+                          : 'No site access'}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Select
+                      value={member.role}
+                      onChange={(e) => updateMember(member.id, { role: e.target.value as UserRole })}
+                      options={roleOptions}
+                      disabled={isSelf || !member.isActive}
+                      aria-label={`Role for ${member.firstName} ${member.lastName}`}
+                    />
+                    {canManageSites && isSiteMember && member.isActive && (
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => setAccessMemberId(member.id)}
+                      >
+                        Sites
+                      </Button>
+                    )}
+                    {!isSelf && isSiteMember && (member.pinUpdatedAt || isPinLocked) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPinResetMember(member)}
+                      >
+                        Reset PIN
+                      </Button>
+                    )}
+                    {!isSelf &&
+                      (member.isActive ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDeactivatingMember(member)}
+                        >
+                          Deactivate
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => updateMember(member.id, { isActive: true })}
+                        >
+                          Reactivate
+                        </Button>
+                      ))}
+                  </div>
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Invite Modal */}
+      <InviteUserForm
+        isOpen={showInviteForm}
+        onClose={() => setShowInviteForm(false)}
+        onSuccess={fetchData}
+        roleOptions={roleOptions}
+      />
+
+      {/* Site Access Modal */}
+      {accessMember && (
+        <Modal
+          isOpen={!!accessMember}
+          onClose={() => {
+            setAccessMemberId(null);
+            setSiteToGrant('');
+          }}
+          title={`Site Access: ${accessMember.firstName} ${accessMember.lastName}`}
+        >
+          <div className="p-6 space-y-4">
+            {accessMember.siteAccess.length === 0 ? (
+              <p className="text-sm text-text-secondary">No site access yet</p>
+            ) : (
+              <ul className="space-y-2">
+                {accessMember.siteAccess.map((access) => (
+                  <li
+                    key={access.id}
+                    className="flex items-center justify-between p-3 bg-bg-tertiary rounded-lg"
+                  >
+                    <div>
+                      <p className="font-medium text-text-primary">{access.site.name}</p>
+                      <p className="text-xs text-text-secondary">
+                        Granted {new Date(access.grantedAt).toLocaleDateString()}
+                        {access.granter
+                          ? ` by ${access.granter.firstName} ${access.granter.lastName}`
+                          : ''}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleSiteAccess(access.site.id, false)}
+                    >
+                      Revoke
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {grantableSites.length > 0 && (
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Select
+                    label="Grant Access"
+                    value={siteToGrant}
+                    onChange={(e) => setSiteToGrant(e.target.value)}
+                    placeholder="Select a site"
+                    options={grantableSites.map((site) => ({ value: site.id, label: site.name }))}
+                  />
+                </div>
+                <Button
+                  onClick={() => handleSiteAccess(siteToGrant, true)}
+                  disabled={!siteToGrant}
+                >
+                  Grant
+                </Button>
+              </div>
+            )}
+          </div>
+        </Modal>
+      )}
+
+      {/* Deactivate Confirmation */}
+      {pinResetMember && (
+        <ConfirmModal
+          isOpen={!!pinResetMember}
+          onClose={() => setPinResetMember(null)}
+          onConfirm={handleResetPin}
+          title="Reset PIN"
+          message={`Remove ${pinResetMember.firstName} ${pinResetMember.lastName}'s tablet PIN? They will need to sign in with their password and set a new one.`}
+          confirmText="Reset PIN"
+          confirmVariant="destructive"
+        />
+      )}
+
+      {deactivatingMember && (
+        <ConfirmModal
+          isOpen={!!deactivatingMember}
+          onClose={() => setDeactivatingMember(null)}
+          onConfirm={handleDeactivate}
+          title="Deactivate Member"
+          message={`Deactivate ${deactivatingMember.firstName} ${deactivatingMember.lastName}? They will no longer be able to sign in, but their visit history is kept.`}
+          confirmText="Deactivate"
+          confirmVariant="destructive"
+        />
+      )}
+    </PageContainer>
+  );
+}
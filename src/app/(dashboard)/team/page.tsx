@@ -0,0 +1,45 @@
+// ===========================================
+// FILE: src/app/(dashboard)/team/page.tsx
+// PURPOSE: Team management page for distributor and organization admins
+// PRD REFERENCE: PRD Section 3 - User Roles & Permissions
+// ===========================================
+
+import React from 'react';
+import { auth } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import { TeamManagement } from './TeamManagement';
+
+/**
+ * Team Page
+ *
+ * WHY: Admins invite team members, change roles, deactivate users and
+ * control which sites site-level users can access.
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN, ORG_ADMIN
+ */
+export default async function TeamPage() {
+  const session = await auth();
+
+  if (!session) {
+    redirect('/login');
+  }
+
+  const { role, id } = session.user;
+
+  if (role !== 'DISTRIBUTOR_ADMIN' && role !== 'ORG_ADMIN') {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+          <h2 className="text-lg font-semibold text-yellow-800 mb-2">
+            Access Restricted
+          </h2>
+          <p className="text-yellow-700">
+            Only admins can manage the team.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return <TeamManagement adminRole={role} currentUserId={id} />;
+}
@@ -13,6 +13,15 @@ import { Button, Card, Tabs, ConfirmModal } from '@/components/ui';
 import { VisitLogForm } from '@/components/forms/VisitLogForm';
 import { ChemicalEntryForm } from '@/components/forms/ChemicalEntryForm';
 import { ServiceEntryForm } from '@/components/forms/ServiceEntryForm';
+import { AnomalyAcknowledgeForm } from '@/components/forms/AnomalyAcknowledgeForm';
+
+interface UsageAnomaly {
+  id: string;
+  type: string;
+  status: 'OPEN' | 'ACKNOWLEDGED';
+  message: string;
+  acknowledgementNote: string | null;
+}
 
 interface ChemicalEntry {
   id: string;
@@ -20,12 +29,14 @@ interface ChemicalEntry {
   levelGallons: number | null;
   levelInches: number | null;
   backstockCount: number;
+  backstockPartialGallons: number;
   backstockGallons: number;
   deliveryReceived: boolean;
   deliveryCount: number | null;
   deliveryGallons: number | null;
   totalOnHandGallons: number;
   notes: string | null;
+  anomalies: UsageAnomaly[];
   chemicalSiteConfig: {
     id: string;
     chemicalOrgConfig: {
@@ -93,6 +104,7 @@ interface VisitLog {
 interface VisitLogDetailProps {
   visitId: string;
   canEdit: boolean;
+  canReviewAnomalies: boolean;
   showPrivateFields: boolean;
   onBack: () => void;
   onDeleted: () => void;
@@ -108,12 +120,15 @@ interface VisitLogDetailProps {
  * - View visit details
  * - Edit visit notes
  * - Add/edit/delete chemical entries
+ * - Flagged readings (negative usage, spikes, over capacity), with
+ *   acknowledgement for distributor users
  * - Add/edit/delete service entries
  * - Delete visit
  */
 export function VisitLogDetail({
   visitId,
   canEdit,
+  canReviewAnomalies,
   showPrivateFields,
   onBack,
   onDeleted,
@@ -127,6 +142,7 @@ export function VisitLogDetail({
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [editingChemicalEntry, setEditingChemicalEntry] = useState<ChemicalEntry | null>(null);
   const [editingServiceEntry, setEditingServiceEntry] = useState<ServiceEntry | null>(null);
+  const [acknowledgingAnomaly, setAcknowledgingAnomaly] = useState<UsageAnomaly | null>(null);
 
   /**
    * Fetch visit details
@@ -409,6 +425,43 @@ export function VisitLogDetail({
                       </div>
                     </div>
 
+                    {/* Flagged readings */}
+                    {entry.anomalies.length > 0 && (
+                      <div className="mt-3 space-y-2">
+                        {entry.anomalies.map((anomaly) => (
+                          <div
+                            key={anomaly.id}
+                            className={`flex items-start justify-between gap-3 p-2 rounded-md text-sm ${
+                              anomaly.status === 'OPEN'
+                                ? 'bg-warning/10 border border-warning/30'
+                                : 'bg-bg-tertiary border border-border'
+                            }`}
+                          >
+                            <div>
+                              <p className={anomaly.status === 'OPEN' ? 'text-warning font-medium' : 'text-text-secondary'}>
+                                {anomaly.status === 'OPEN' ? 'Needs review: ' : 'Acknowledged: '}
+                                {anomaly.message}
+                              </p>
+                              {anomaly.acknowledgementNote && (
+                                <p className="text-xs text-text-tertiary mt-1">
+                                  {anomaly.acknowledgementNote}
+                                </p>
+                              )}
+                            </div>
+                            {canReviewAnomalies && anomaly.status === 'OPEN' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setAcknowledgingAnomaly(anomaly)}
+                              >
+                                Acknowledge
+                              </Button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
                     <div className="grid grid-cols-3 gap-4 mt-4 text-sm">
                       <div>
                         <p className="text-text-tertiary">Tank Level</p>
@@ -423,7 +476,10 @@ export function VisitLogDetail({
                       <div>
                         <p className="text-text-tertiary">Backstock</p>
                         <p className="text-text-primary">
-                          {entry.backstockCount} ({entry.backstockGallons} gal)
+                          {entry.backstockCount}
+                          {Number(entry.backstockPartialGallons) > 0 &&
+                            ` + ${entry.backstockPartialGallons} gal open`}{' '}
+                          ({entry.backstockGallons} gal)
                         </p>
                       </div>
                       <div>
@@ -628,6 +684,14 @@ export function VisitLogDetail({
         } : undefined}
       />
 
+      {/* Acknowledge Anomaly Modal */}
+      <AnomalyAcknowledgeForm
+        isOpen={!!acknowledgingAnomaly}
+        onClose={() => setAcknowledgingAnomaly(null)}
+        onSuccess={() => fetchVisit()}
+        anomaly={acknowledgingAnomaly ?? undefined}
+      />
+
       {/* Delete Confirmation */}
       <ConfirmModal
         isOpen={showDeleteConfirm}
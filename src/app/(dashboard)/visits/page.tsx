@@ -8,6 +8,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { useSession } from 'next-auth/react';
+import { useSearchParams } from 'next/navigation';
 import { VisitLogList } from './VisitLogList';
 import { VisitLogDetail } from './VisitLogDetail';
 
@@ -32,10 +33,14 @@ interface Site {
  * ROUTING:
  * - List view: Shows all visits with filtering
  * - Detail view: Shows single visit with entries
+ * - ?visitId= opens a visit directly (e.g. from the "needs review" list)
  */
 export default function VisitsPage() {
   const { data: session, status } = useSession();
-  const [selectedVisitId, setSelectedVisitId] = useState<string | null>(null);
+  const searchParams = useSearchParams();
+  const [selectedVisitId, setSelectedVisitId] = useState<string | null>(
+    searchParams.get('visitId')
+  );
   const [sites, setSites] = useState<Site[]>([]);
   const [loadingSites, setLoadingSites] = useState(true);
 
@@ -109,6 +114,10 @@ export default function VisitsPage() {
     role
   );
 
+  const canReviewAnomalies = ['DISTRIBUTOR_ADMIN', 'DISTRIBUTOR_USER'].includes(
+    role
+  );
+
   /**
    * Handle visit selection
    */
@@ -136,6 +145,7 @@ export default function VisitsPage() {
       <VisitLogDetail
         visitId={selectedVisitId}
         canEdit={canEdit}
+        canReviewAnomalies={canReviewAnomalies}
         showPrivateFields={showPrivateFields}
         onBack={handleBack}
         onDeleted={handleDeleted}
@@ -0,0 +1,115 @@
+// ===========================================
+// FILE: src/app/api/analytics/benchmark/route.ts
+// PURPOSE: API endpoint for ranking an organization's sites against each other
+// PRD REFERENCE: PRD Section 7.4 - Period Comparison
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { benchmarkQuerySchema } from '@/lib/validations';
+import { getOrganizationBenchmark } from '@/lib/benchmark';
+import { z } from 'zod';
+
+/**
+ * GET /api/analytics/benchmark
+ *
+ * Benchmark every site in an organization
+ *
+ * WHY: An owner with a dozen tunnels can see org totals but not which
+ * site is wasting chemical. Ranking sites against each other (adjusted
+ * for wash type) points at the one to look at.
+ *
+ * QUERY PARAMS:
+ * - organizationId: Organization to benchmark (required)
+ * - startDate / endDate: Date range (default last 30 days)
+ * - outlierThreshold: Standard deviations from the org mean to flag (default 2)
+ *
+ * ACCESS:
+ * - DISTRIBUTOR_ADMIN/DISTRIBUTOR_USER: Client organizations
+ * - ORG_ADMIN: Own organization
+ * - Site roles: Forbidden (the ranking reveals sites they aren't assigned to)
+ *
+ * RETURNS: OrganizationBenchmark (see lib/benchmark)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const validatedQuery = benchmarkQuerySchema.parse({
+      organizationId: searchParams.get('organizationId') || '',
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+      outlierThreshold: searchParams.get('outlierThreshold') || undefined,
+    });
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: validatedQuery.organizationId },
+      select: { id: true, name: true, distributorId: true },
+    });
+
+    if (!organization) {
+      return NextResponse.json({ error: 'Organization not found' }, { status: 404 });
+    }
+
+    // Verify access to organization
+    const { role, distributorId, organizationId } = session.user;
+    const hasAccess =
+      ((role === 'DISTRIBUTOR_ADMIN' || role === 'DISTRIBUTOR_USER') &&
+        !!distributorId &&
+        organization.distributorId === distributorId) ||
+      (role === 'ORG_ADMIN' && organization.id === organizationId);
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this organization' },
+        { status: 403 }
+      );
+    }
+
+    // Build date range
+    const endDate = validatedQuery.endDate ? new Date(validatedQuery.endDate) : new Date();
+    const startDate = validatedQuery.startDate
+      ? new Date(validatedQuery.startDate)
+      : new Date(endDate.getTime() - 29 * 24 * 60 * 60 * 1000); // Default 30 days
+
+    if (startDate > endDate) {
+      return NextResponse.json(
+        { error: 'Start date must be before or equal to end date' },
+        { status: 400 }
+      );
+    }
+
+    const benchmark = await getOrganizationBenchmark(
+      organization.id,
+      startDate,
+      endDate,
+      validatedQuery.outlierThreshold
+    );
+
+    return NextResponse.json({
+      organizationId: organization.id,
+      organizationName: organization.name,
+      ...benchmark,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error benchmarking sites:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
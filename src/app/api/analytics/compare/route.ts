@@ -0,0 +1,225 @@
+// ===========================================
+// FILE: src/app/api/analytics/compare/route.ts
+// PURPOSE: API endpoint for comparing two arbitrary periods
+// PRD REFERENCE: PRD Section 7.4 - Period Comparison
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { verifySiteAccess } from '@/lib/sites';
+import { comparisonQuerySchema } from '@/lib/validations';
+import { calculateCostPerCar, calculatePercentageChange } from '@/lib/analytics';
+import { getCarCountSummary } from '@/lib/carCounts';
+import { getChemicalUsageTotals } from '@/lib/rollups';
+import { z } from 'zod';
+
+/**
+ * Totals for one period
+ */
+interface PeriodMetrics {
+  visitCount: number;
+  totalUsage: number;
+  totalCost: number;
+  chemicals: Map<string, {
+    chemicalName: string;
+    chemicalType: string;
+    usage: number;
+    cost: number;
+  }>;
+}
+
+/**
+ * GET /api/analytics/compare
+ *
+ * Compare a site's metrics across two date ranges
+ *
+ * WHY: The summary endpoint only compares fixed 7/30/90-day windows.
+ * Owners ask "how did this month compare to the same month last year?",
+ * which needs arbitrary ranges.
+ *
+ * QUERY PARAMS:
+ * - siteId: Site to analyze (required)
+ * - currentStart / currentEnd: Current range (inclusive)
+ * - previousStart / previousEnd: Range to compare against (inclusive)
+ *
+ * BUSINESS LOGIC:
+ * - Usage and cost come from daily usage rollups in each range
+ * - Cost per car uses recorded car counts, estimating missing days
+ * - Changes are percentages from previous to current (calculatePercentageChange)
+ *
+ * RETURNS:
+ * {
+ *   siteId, current: { startDate, endDate }, previous: { startDate, endDate },
+ *   metrics: { visits, usageGallons, cost, cars, costPerCar } (each { current, previous, change }),
+ *   chemicals: [{ chemicalId, chemicalName, chemicalType, current, previous, usageChange, costChange }]
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const validatedQuery = comparisonQuerySchema.parse({
+      siteId: searchParams.get('siteId') || '',
+      currentStart: searchParams.get('currentStart') || '',
+      currentEnd: searchParams.get('currentEnd') || '',
+      previousStart: searchParams.get('previousStart') || '',
+      previousEnd: searchParams.get('previousEnd') || '',
+    });
+
+    // Verify access to site
+    const hasAccess = await verifySiteAccess(session, validatedQuery.siteId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    const currentStart = new Date(validatedQuery.currentStart);
+    const currentEnd = new Date(validatedQuery.currentEnd);
+    const previousStart = new Date(validatedQuery.previousStart);
+    const previousEnd = new Date(validatedQuery.previousEnd);
+
+    const [current, previous, currentCars, previousCars] = await Promise.all([
+      getPeriodMetrics(validatedQuery.siteId, currentStart, currentEnd),
+      getPeriodMetrics(validatedQuery.siteId, previousStart, previousEnd),
+      getCarCountSummary(prisma, [validatedQuery.siteId], currentStart, currentEnd),
+      getCarCountSummary(prisma, [validatedQuery.siteId], previousStart, previousEnd),
+    ]);
+
+    const currentCostPerCar = calculateCostPerCar(current.totalCost, currentCars.totalCars);
+    const previousCostPerCar = calculateCostPerCar(previous.totalCost, previousCars.totalCars);
+
+    // Per-chemical deltas, including chemicals used in only one period
+    const chemicalIds = new Set([...current.chemicals.keys(), ...previous.chemicals.keys()]);
+    const chemicals = Array.from(chemicalIds)
+      .map((chemicalId) => {
+        const now = current.chemicals.get(chemicalId);
+        const before = previous.chemicals.get(chemicalId);
+        const details = (now ?? before)!;
+
+        return {
+          chemicalId,
+          chemicalName: details.chemicalName,
+          chemicalType: details.chemicalType,
+          current: {
+            usageGallons: round(now?.usage ?? 0),
+            cost: round(now?.cost ?? 0),
+          },
+          previous: {
+            usageGallons: round(before?.usage ?? 0),
+            cost: round(before?.cost ?? 0),
+          },
+          usageChange: round(calculatePercentageChange(before?.usage ?? 0, now?.usage ?? 0), 1),
+          costChange: round(calculatePercentageChange(before?.cost ?? 0, now?.cost ?? 0), 1),
+        };
+      })
+      .sort((a, b) => b.current.cost - a.current.cost || b.previous.cost - a.previous.cost);
+
+    return NextResponse.json({
+      siteId: validatedQuery.siteId,
+      current: {
+        startDate: validatedQuery.currentStart,
+        endDate: validatedQuery.currentEnd,
+      },
+      previous: {
+        startDate: validatedQuery.previousStart,
+        endDate: validatedQuery.previousEnd,
+      },
+      metrics: {
+        visits: compareValues(previous.visitCount, current.visitCount, 0),
+        usageGallons: compareValues(previous.totalUsage, current.totalUsage),
+        cost: compareValues(previous.totalCost, current.totalCost),
+        cars: {
+          ...compareValues(previousCars.totalCars, currentCars.totalCars, 0),
+          isEstimated: currentCars.isEstimated || previousCars.isEstimated,
+        },
+        costPerCar: {
+          ...compareValues(previousCostPerCar, currentCostPerCar),
+          isEstimated: currentCars.isEstimated || previousCars.isEstimated,
+        },
+      },
+      chemicals,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error comparing analytics periods:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Round to a number of decimals
+ */
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Side-by-side values with percentage change
+ */
+function compareValues(previous: number, current: number, decimals = 2) {
+  return {
+    current: round(current, decimals),
+    previous: round(previous, decimals),
+    change: round(calculatePercentageChange(previous, current), 1),
+  };
+}
+
+/**
+ * Visit count, usage and cost for one site and period
+ * WHY: Usage and cost come from daily rollups (see lib/rollups) instead of
+ * loading every visit with its entries
+ */
+async function getPeriodMetrics(
+  siteId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<PeriodMetrics> {
+  const [visitCount, usageTotals] = await Promise.all([
+    prisma.visitLog.count({
+      where: {
+        siteId,
+        visitDate: { gte: startDate, lte: endDate },
+      },
+    }),
+    getChemicalUsageTotals(prisma, [siteId], startDate, endDate),
+  ]);
+
+  const metrics: PeriodMetrics = {
+    visitCount,
+    totalUsage: 0,
+    totalCost: 0,
+    chemicals: new Map(),
+  };
+
+  for (const total of usageTotals) {
+    metrics.totalUsage += total.usageGallons;
+    metrics.totalCost += total.cost;
+    metrics.chemicals.set(total.chemicalSiteConfigId, {
+      chemicalName: total.chemicalName,
+      chemicalType: total.chemicalType,
+      usage: total.usageGallons,
+      cost: total.cost,
+    });
+  }
+
+  return metrics;
+}
@@ -8,7 +8,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { costPerCarQuerySchema } from '@/lib/validations';
-import { calculateGpmWeightedCosts, calculateCostPerCar } from '@/lib/analytics';
+import { calculateCostPerCar } from '@/lib/analytics';
+import { getCarCountSummary, serializeCarCountSummary } from '@/lib/carCounts';
+import { getChemicalUsageTotals } from '@/lib/rollups';
+import { getSiteCalendar, verifySiteAccess } from '@/lib/sites';
+import { getSiteToday } from '@/lib/timezone';
 import { z } from 'zod';
 
 /**
@@ -17,7 +21,7 @@ import { z } from 'zod';
  * Analyze cost per car for a site with optional package breakdown
  *
  * WHY: Help operators understand their chemical costs per wash.
- * Uses GPM-weighted allocation when multiple applications share chemicals.
+ * Usage and cost come from the daily chemical rollups for the period.
  *
  * QUERY PARAMS:
  * - siteId: Site to analyze (required)
@@ -57,16 +61,24 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Build date range
+    // Build date range (default end is today in the site's time zone)
+    const { timeZone } = await getSiteCalendar(prisma, validatedQuery.siteId);
     const endDate = validatedQuery.endDate
       ? new Date(validatedQuery.endDate)
-      : new Date();
+      : getSiteToday(timeZone);
     const startDate = validatedQuery.startDate
       ? new Date(validatedQuery.startDate)
       : new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000); // Default 30 days
 
-    // Fetch visit data with chemical entries and car counts
-    const visits = await prisma.visitLog.findMany({
+    // Usage per chemical from daily rollups (see lib/rollups)
+    const chemicalUsage = await getChemicalUsageTotals(
+      prisma,
+      [validatedQuery.siteId],
+      startDate,
+      endDate
+    );
+
+    const visitCount = await prisma.visitLog.count({
       where: {
         siteId: validatedQuery.siteId,
         visitDate: {
@@ -74,112 +86,21 @@ export async function GET(request: NextRequest) {
           lte: endDate,
         },
       },
-      include: {
-        chemicalEntries: {
-          include: {
-            chemicalSiteConfig: {
-              include: {
-                chemicalOrgConfig: {
-                  include: {
-                    chemicalMaster: true,
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
-      orderBy: { visitDate: 'asc' },
     });
 
-    // Fetch site packages with car counts for the period
+    // Fetch active site packages (car counts per package come from the summary below)
     const packages = await prisma.washPackage.findMany({
       where: {
         siteId: validatedQuery.siteId,
         isActive: true,
       },
       include: {
-        chemicals: {
-          include: {
-            chemicalSiteApplication: {
-              include: {
-                chemicalSiteConfig: {
-                  include: {
-                    chemicalOrgConfig: {
-                      include: {
-                        chemicalMaster: true,
-                      },
-                    },
-                  },
-                },
-                injectorType: true,
-              },
-            },
-          },
+        _count: {
+          select: { chemicals: true },
         },
       },
     });
 
-    // Fetch chemical applications for GPM data
-    const applications = await prisma.chemicalSiteApplication.findMany({
-      where: {
-        chemicalSiteConfig: {
-          siteId: validatedQuery.siteId,
-        },
-      },
-      include: {
-        injectorType: true,
-        chemicalSiteConfig: {
-          include: {
-            chemicalOrgConfig: {
-              include: {
-                chemicalMaster: true,
-              },
-            },
-          },
-        },
-      },
-    });
-
-    // Calculate usage from visit entries
-    const chemicalUsageMap = new Map<string, {
-      chemicalId: string;
-      chemicalName: string;
-      chemicalType: string;
-      costPerGallon: number;
-      totalUsageGallons: number;
-    }>();
-
-    for (let i = 1; i < visits.length; i++) {
-      const prevVisit = visits[i - 1];
-      const currVisit = visits[i];
-
-      for (const entry of currVisit.chemicalEntries) {
-        const prevEntry = prevVisit.chemicalEntries.find(
-          (e: typeof entry) => e.chemicalSiteConfigId === entry.chemicalSiteConfigId
-        );
-
-        if (prevEntry && entry.calculatedUsageGallons) {
-          const configId = entry.chemicalSiteConfigId;
-          const chemicalMaster = entry.chemicalSiteConfig.chemicalOrgConfig.chemicalMaster;
-          const costPerGallon = Number(entry.chemicalSiteConfig.chemicalOrgConfig.costPerGallon || 0);
-
-          const existing = chemicalUsageMap.get(configId);
-          if (existing) {
-            existing.totalUsageGallons += Number(entry.calculatedUsageGallons);
-          } else {
-            chemicalUsageMap.set(configId, {
-              chemicalId: configId,
-              chemicalName: chemicalMaster.name,
-              chemicalType: chemicalMaster.type,
-              costPerGallon,
-              totalUsageGallons: Number(entry.calculatedUsageGallons),
-            });
-          }
-        }
-      }
-    }
-
     // Calculate total chemical cost
     let totalChemicalCost = 0;
     const chemicalBreakdown: Array<{
@@ -190,29 +111,35 @@ export async function GET(request: NextRequest) {
       totalCost: number;
     }> = [];
 
-    for (const [, usage] of chemicalUsageMap) {
-      const cost = usage.totalUsageGallons * usage.costPerGallon;
-      totalChemicalCost += cost;
+    for (const usage of chemicalUsage) {
+      totalChemicalCost += usage.cost;
 
       if (validatedQuery.includeBreakdown) {
         chemicalBreakdown.push({
-          chemicalId: usage.chemicalId,
+          chemicalId: usage.chemicalSiteConfigId,
           chemicalName: usage.chemicalName,
           chemicalType: usage.chemicalType,
-          gallonsUsed: usage.totalUsageGallons,
-          totalCost: cost,
+          gallonsUsed: usage.usageGallons,
+          totalCost: usage.cost,
         });
       }
     }
 
-    // Get total car count from packages (simplified - in production would come from car counter data)
-    // For now, estimate based on visit frequency
+    /**
+     * Car counts for the period
+     * WHY: Recorded counts are the real denominator; days without a count
+     * fall back to the default estimate and the response flags it
+     */
     const daysBetween = Math.ceil(
       (endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000)
     );
-    const visitCount = visits.length;
-    const estimatedCarsPerDay = 100; // Default estimate
-    const totalCars = daysBetween * estimatedCarsPerDay;
+    const carCounts = await getCarCountSummary(
+      prisma,
+      [validatedQuery.siteId],
+      startDate,
+      endDate
+    );
+    const totalCars = carCounts.totalCars;
 
     // Calculate cost per car
     const costPerCar = calculateCostPerCar(totalChemicalCost, totalCars);
@@ -227,10 +154,12 @@ export async function GET(request: NextRequest) {
       },
       summary: {
         totalChemicalCost: Math.round(totalChemicalCost * 100) / 100,
-        estimatedTotalCars: totalCars,
+        totalCars,
         costPerCar: Math.round(costPerCar * 100) / 100,
+        isEstimated: carCounts.isEstimated,
         visitCount,
       },
+      carCounts: serializeCarCountSummary(carCounts),
     };
 
     if (validatedQuery.includeBreakdown) {
@@ -245,7 +174,8 @@ export async function GET(request: NextRequest) {
         packageId: pkg.id,
         packageName: pkg.name,
         price: Number(pkg.singleWashPrice ?? 0),
-        chemicalCount: pkg.chemicals.length,
+        chemicalCount: pkg._count.chemicals,
+        carCount: carCounts.byPackage.get(pkg.id) ?? 0,
       }));
     }
 
@@ -265,44 +195,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
-/**
- * Verify user has access to the specified site
- */
-async function verifySiteAccess(session: any, siteId: string): Promise<boolean> {
-  const site = await prisma.site.findUnique({
-    where: { id: siteId },
-    include: {
-      organization: {
-        select: { distributorId: true },
-      },
-    },
-  });
-
-  if (!site) {
-    return false;
-  }
-
-  // Distributors can access their clients' sites
-  if (session.user.role === 'DISTRIBUTOR_ADMIN' || session.user.role === 'DISTRIBUTOR_USER') {
-    return site.organization.distributorId === session.user.distributorId;
-  }
-
-  // Org admins can access their org's sites
-  if (session.user.role === 'ORG_ADMIN') {
-    return site.organizationId === session.user.organizationId;
-  }
-
-  // Site users need explicit access
-  if (session.user.role === 'SITE_MANAGER' || session.user.role === 'SITE_USER') {
-    const access = await prisma.userSiteAccess.findFirst({
-      where: {
-        userId: session.user.id,
-        siteId,
-      },
-    });
-    return !!access;
-  }
-
-  return false;
-}
@@ -0,0 +1,572 @@
+// ===========================================
+// FILE: src/app/api/analytics/export/route.ts
+// PURPOSE: API endpoint for exporting site analytics as CSV, JSON or PDF
+// PRD REFERENCE: PRD Section 7 - Analytics & Reporting
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, canSeePrivateNotes } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { verifySiteAccess } from '@/lib/sites';
+import { exportQuerySchema, type ExportQueryInput } from '@/lib/validations';
+import { getCarCountSummary } from '@/lib/carCounts';
+import { getPackageCostSummary, type PackageCostSummary } from '@/lib/packageCost';
+import { getChemicalUsageTotals } from '@/lib/rollups';
+import { renderPdfReport, type PdfSection } from '@/lib/pdf';
+import { z } from 'zod';
+
+/**
+ * Fluid ounces per US gallon
+ */
+const OUNCES_PER_GALLON = 128;
+
+/**
+ * Brand used when a site's organization has no distributor
+ */
+const DEFAULT_BRAND = 'TrueLevel';
+
+/**
+ * Everything an export contains, before formatting
+ */
+interface ExportReport {
+  brand: string;
+  site: { id: string; name: string; slug: string; organizationName: string };
+  period: { startDate: string; endDate: string };
+  generatedAt: string;
+  visits: Array<{
+    visitDate: string;
+    technician: string;
+    publicNotes: string | null;
+    serviceNotes: string | null;
+    privateNotes?: string | null;
+    privateServiceNotes?: string | null;
+    chemicalEntryCount: number;
+  }>;
+  chemicalEntries?: Array<{
+    visitDate: string;
+    chemicalName: string;
+    entryMethod: string;
+    levelGallons: number | null;
+    backstockGallons: number;
+    deliveryGallons: number | null;
+    totalOnHandGallons: number;
+    usageGallons: number | null;
+  }>;
+  usage?: {
+    totalCars: number;
+    carsEstimated: boolean;
+    totalUsageGallons: number;
+    totalCost: number;
+    costPerCar: number;
+    chemicals: Array<{
+      chemicalName: string;
+      chemicalType: string;
+      usageGallons: number;
+      costPerGallon: number;
+      totalCost: number;
+      ouncesPerCar: number;
+    }>;
+  };
+  packageCosts?: PackageCostSummary;
+}
+
+/**
+ * GET /api/analytics/export
+ *
+ * Export a site's visit log and analytics for a date range
+ *
+ * WHY: Distributor reps hand owners a printed monthly report; owners and
+ * bookkeepers want the same numbers in a spreadsheet.
+ *
+ * QUERY PARAMS:
+ * - siteId: Site to export (required)
+ * - startDate / endDate: Date range (required, inclusive)
+ * - format: csv | json | pdf (default csv)
+ * - includeChemicals: Chemical entries per visit (default true)
+ * - includeUsage: Usage and cost per chemical (default true)
+ * - includePackages: GPM-weighted cost per package (default true)
+ *
+ * BUSINESS LOGIC:
+ * - The visit log is always included
+ * - Private notes are only exported for distributor users
+ * - PDF is rendered server-side and branded with the distributor's company name
+ *
+ * RETURNS: File download (Content-Disposition: attachment)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const validatedQuery = exportQuerySchema.parse({
+      siteId: searchParams.get('siteId') || '',
+      startDate: searchParams.get('startDate') || '',
+      endDate: searchParams.get('endDate') || '',
+      format: searchParams.get('format') || undefined,
+      includeChemicals: searchParams.get('includeChemicals') || undefined,
+      includePackages: searchParams.get('includePackages') || undefined,
+      includeUsage: searchParams.get('includeUsage') || undefined,
+    });
+
+    // Verify access to site
+    const hasAccess = await verifySiteAccess(session, validatedQuery.siteId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    const report = await buildExportReport(validatedQuery, canSeePrivateNotes(session.user.role));
+    const filename = `truelevel-${report.site.slug}-${report.period.startDate}-${report.period.endDate}`;
+
+    if (validatedQuery.format === 'json') {
+      return new NextResponse(JSON.stringify(report, null, 2), {
+        headers: {
+          'Content-Type': 'application/json; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.json"`,
+        },
+      });
+    }
+
+    if (validatedQuery.format === 'pdf') {
+      const pdf = renderPdfReport({
+        brand: report.brand,
+        title: `${report.site.name} Report`,
+        subtitle: `${report.site.organizationName} | ${report.period.startDate} to ${report.period.endDate}`,
+        footer: `Prepared by ${report.brand} | Generated ${report.generatedAt.split('T')[0]}`,
+        sections: buildPdfSections(report),
+      });
+
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+          'Content-Length': String(pdf.length),
+        },
+      });
+    }
+
+    return new NextResponse(streamCsv(report), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}.csv"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error exporting analytics:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Load the data for an export
+ */
+async function buildExportReport(
+  query: ExportQueryInput,
+  includePrivateNotes: boolean
+): Promise<ExportReport> {
+  const startDate = new Date(query.startDate);
+  const endDate = new Date(query.endDate);
+
+  const [site, visits] = await Promise.all([
+    prisma.site.findUniqueOrThrow({
+      where: { id: query.siteId },
+      include: {
+        organization: {
+          select: {
+            name: true,
+            distributor: { select: { companyName: true } },
+          },
+        },
+      },
+    }),
+    prisma.visitLog.findMany({
+      where: {
+        siteId: query.siteId,
+        visitDate: { gte: startDate, lte: endDate },
+      },
+      include: {
+        user: { select: { firstName: true, lastName: true } },
+        _count: { select: { chemicalEntries: true } },
+      },
+      orderBy: [{ visitDate: 'asc' }, { visitTime: 'asc' }],
+    }),
+  ]);
+
+  const report: ExportReport = {
+    brand: site.organization.distributor?.companyName || DEFAULT_BRAND,
+    site: {
+      id: site.id,
+      name: site.name,
+      slug: site.slug,
+      organizationName: site.organization.name,
+    },
+    period: {
+      startDate: startDate.toISOString().split('T')[0],
+      endDate: endDate.toISOString().split('T')[0],
+    },
+    generatedAt: new Date().toISOString(),
+    visits: visits.map((visit: typeof visits[number]) => ({
+      visitDate: visit.visitDate.toISOString().split('T')[0],
+      technician: `${visit.user.firstName} ${visit.user.lastName}`,
+      publicNotes: visit.publicNotes,
+      serviceNotes: visit.serviceNotes,
+      ...(includePrivateNotes && {
+        privateNotes: visit.privateNotes,
+        privateServiceNotes: visit.privateServiceNotes,
+      }),
+      chemicalEntryCount: visit._count.chemicalEntries,
+    })),
+  };
+
+  if (query.includeChemicals) {
+    const entries = await prisma.visitLogChemicalEntry.findMany({
+      where: {
+        visitLog: {
+          siteId: query.siteId,
+          visitDate: { gte: startDate, lte: endDate },
+        },
+      },
+      include: {
+        visitLog: { select: { visitDate: true } },
+        chemicalSiteConfig: {
+          select: {
+            chemicalOrgConfig: {
+              select: { chemicalMaster: { select: { name: true } } },
+            },
+          },
+        },
+      },
+      orderBy: [
+        { visitLog: { visitDate: 'asc' } },
+        { visitLog: { visitTime: 'asc' } },
+        { createdAt: 'asc' },
+      ],
+    });
+
+    report.chemicalEntries = entries.map((entry: typeof entries[number]) => ({
+      visitDate: entry.visitLog.visitDate.toISOString().split('T')[0],
+      chemicalName: entry.chemicalSiteConfig.chemicalOrgConfig.chemicalMaster.name,
+      entryMethod: entry.entryMethod,
+      levelGallons: entry.levelGallons !== null ? Number(entry.levelGallons) : null,
+      backstockGallons: Number(entry.backstockGallons),
+      deliveryGallons: entry.deliveryGallons !== null ? Number(entry.deliveryGallons) : null,
+      totalOnHandGallons: Number(entry.totalOnHandGallons),
+      usageGallons:
+        entry.calculatedUsageGallons !== null ? Number(entry.calculatedUsageGallons) : null,
+    }));
+  }
+
+  if (query.includeUsage) {
+    // Usage and cost per chemical from daily rollups (see lib/rollups)
+    const [carCounts, usageTotals] = await Promise.all([
+      getCarCountSummary(prisma, [query.siteId], startDate, endDate),
+      getChemicalUsageTotals(prisma, [query.siteId], startDate, endDate),
+    ]);
+
+    const chemicals = usageTotals
+      .map((chemical) => ({
+        chemicalName: chemical.chemicalName,
+        chemicalType: chemical.chemicalType,
+        usageGallons: Math.round(chemical.usageGallons * 100) / 100,
+        // Average price paid when the price changed during the period
+        costPerGallon: Math.round(chemical.costPerGallon * 100) / 100,
+        totalCost: Math.round(chemical.cost * 100) / 100,
+        ouncesPerCar:
+          carCounts.totalCars > 0
+            ? Math.round((chemical.usageGallons * OUNCES_PER_GALLON / carCounts.totalCars) * 100) / 100
+            : 0,
+      }))
+      .sort((a, b) => b.totalCost - a.totalCost);
+
+    const totalUsageGallons = chemicals.reduce((sum, c) => sum + c.usageGallons, 0);
+    const totalCost = chemicals.reduce((sum, c) => sum + c.totalCost, 0);
+
+    report.usage = {
+      totalCars: carCounts.totalCars,
+      carsEstimated: carCounts.isEstimated,
+      totalUsageGallons: Math.round(totalUsageGallons * 100) / 100,
+      totalCost: Math.round(totalCost * 100) / 100,
+      costPerCar:
+        carCounts.totalCars > 0 ? Math.round((totalCost / carCounts.totalCars) * 100) / 100 : 0,
+      chemicals,
+    };
+  }
+
+  if (query.includePackages) {
+    report.packageCosts = await getPackageCostSummary(query.siteId, startDate, endDate);
+  }
+
+  return report;
+}
+
+/**
+ * Quote a CSV field when needed (RFC 4180)
+ */
+function csvField(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Stream the report as a sectioned CSV
+ *
+ * WHY: Visit logs for a long range can be large; each section is
+ * written as it is formatted rather than built as one string
+ *
+ * FORMAT: A "# Section" line, a header row, data rows, then a blank line
+ */
+function streamCsv(report: ExportReport): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const includePrivate = report.visits.some((visit) => 'privateNotes' in visit);
+
+  function* sections(): Generator<string> {
+    yield `# ${report.brand} report: ${report.site.name} (${report.site.organizationName})\r\n`;
+    yield `# Period: ${report.period.startDate} to ${report.period.endDate}\r\n\r\n`;
+
+    yield '# Visit Log\r\n';
+    yield [
+      'Visit Date',
+      'Technician',
+      'Public Notes',
+      'Service Notes',
+      ...(includePrivate ? ['Private Notes', 'Private Service Notes'] : []),
+      'Chemical Entries',
+    ].join(',') + '\r\n';
+    for (const visit of report.visits) {
+      yield [
+        visit.visitDate,
+        visit.technician,
+        visit.publicNotes,
+        visit.serviceNotes,
+        ...(includePrivate ? [visit.privateNotes, visit.privateServiceNotes] : []),
+        visit.chemicalEntryCount,
+      ].map(csvField).join(',') + '\r\n';
+    }
+    yield '\r\n';
+
+    if (report.chemicalEntries) {
+      yield '# Chemical Entries\r\n';
+      yield 'Visit Date,Chemical,Entry Method,Level (gal),Backstock (gal),Delivery (gal),Total On Hand (gal),Usage (gal)\r\n';
+      for (const entry of report.chemicalEntries) {
+        yield [
+          entry.visitDate,
+          entry.chemicalName,
+          entry.entryMethod,
+          entry.levelGallons,
+          entry.backstockGallons,
+          entry.deliveryGallons,
+          entry.totalOnHandGallons,
+          entry.usageGallons,
+        ].map(csvField).join(',') + '\r\n';
+      }
+      yield '\r\n';
+    }
+
+    if (report.usage) {
+      yield '# Usage\r\n';
+      yield 'Chemical,Type,Usage (gal),Cost per Gallon,Total Cost,Oz per Car\r\n';
+      for (const chemical of report.usage.chemicals) {
+        yield [
+          chemical.chemicalName,
+          chemical.chemicalType,
+          chemical.usageGallons,
+          chemical.costPerGallon,
+          chemical.totalCost,
+          chemical.ouncesPerCar,
+        ].map(csvField).join(',') + '\r\n';
+      }
+      yield [
+        'Total',
+        '',
+        report.usage.totalUsageGallons,
+        '',
+        report.usage.totalCost,
+        '',
+      ].map(csvField).join(',') + '\r\n';
+      yield `Total Cars,${report.usage.totalCars}${report.usage.carsEstimated ? ' (includes estimates)' : ''}\r\n`;
+      yield `Cost per Car,${report.usage.costPerCar}\r\n\r\n`;
+    }
+
+    if (report.packageCosts) {
+      yield '# Package Costs\r\n';
+      yield 'Package,Price,Cars,Chemical Cost,Cost per Car\r\n';
+      for (const pkg of report.packageCosts.packages) {
+        yield [pkg.packageName, pkg.price, pkg.carCount, pkg.totalCost, pkg.costPerCar]
+          .map(csvField)
+          .join(',') + '\r\n';
+      }
+      yield `Unallocated Cost,${report.packageCosts.unallocatedCost}\r\n`;
+    }
+  }
+
+  const iterator = sections();
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const next = iterator.next();
+      if (next.done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(next.value));
+      }
+    },
+  });
+}
+
+/**
+ * Format a number with fixed decimals for the PDF
+ */
+function formatNumber(value: number | null, decimals = 2): string {
+  return value === null ? '-' : value.toFixed(decimals);
+}
+
+/**
+ * Format a dollar amount for the PDF
+ */
+function formatCurrency(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+/**
+ * Lay out the report as PDF sections
+ * NOTE: The printed visit log shows public notes only; private notes stay
+ * in the CSV/JSON exports, since printed reports are handed to owners
+ */
+function buildPdfSections(report: ExportReport): PdfSection[] {
+  const sections: PdfSection[] = [];
+
+  if (report.usage) {
+    sections.push(
+      { type: 'heading', text: 'Summary' },
+      {
+        type: 'keyValues',
+        items: [
+          { label: 'Visits', value: String(report.visits.length) },
+          {
+            label: 'Cars washed',
+            value: `${report.usage.totalCars.toLocaleString('en-US')}${report.usage.carsEstimated ? ' (includes estimates)' : ''}`,
+          },
+          { label: 'Chemical used', value: `${formatNumber(report.usage.totalUsageGallons)} gal` },
+          { label: 'Chemical cost', value: formatCurrency(report.usage.totalCost) },
+          { label: 'Cost per car', value: formatCurrency(report.usage.costPerCar) },
+        ],
+      },
+      { type: 'heading', text: 'Chemical Usage' },
+      {
+        type: 'table',
+        columns: [
+          { header: 'Chemical', width: 0.3 },
+          { header: 'Type', width: 0.16 },
+          { header: 'Usage (gal)', width: 0.14, align: 'right' },
+          { header: '$/gal', width: 0.12, align: 'right' },
+          { header: 'Cost', width: 0.15, align: 'right' },
+          { header: 'Oz/car', width: 0.13, align: 'right' },
+        ],
+        rows: report.usage.chemicals.map((chemical) => [
+          chemical.chemicalName,
+          chemical.chemicalType,
+          formatNumber(chemical.usageGallons),
+          formatCurrency(chemical.costPerGallon),
+          formatCurrency(chemical.totalCost),
+          formatNumber(chemical.ouncesPerCar),
+        ]),
+      }
+    );
+  }
+
+  if (report.packageCosts) {
+    sections.push(
+      { type: 'heading', text: 'Package Costs' },
+      {
+        type: 'table',
+        columns: [
+          { header: 'Package', width: 0.36 },
+          { header: 'Price', width: 0.14, align: 'right' },
+          { header: 'Cars', width: 0.14, align: 'right' },
+          { header: 'Chemical cost', width: 0.18, align: 'right' },
+          { header: 'Cost/car', width: 0.18, align: 'right' },
+        ],
+        rows: report.packageCosts.packages.map((pkg) => [
+          pkg.packageName,
+          formatCurrency(pkg.price),
+          pkg.carCount.toLocaleString('en-US'),
+          formatCurrency(pkg.totalCost),
+          formatCurrency(pkg.costPerCar),
+        ]),
+        emptyText: 'No active packages',
+      }
+    );
+    if (report.packageCosts.unallocatedCost > 0) {
+      sections.push({
+        type: 'paragraph',
+        text: `${formatCurrency(report.packageCosts.unallocatedCost)} of chemical cost was not assigned to a package.`,
+      });
+    }
+  }
+
+  sections.push(
+    { type: 'heading', text: 'Visit Log' },
+    {
+      type: 'table',
+      columns: [
+        { header: 'Date', width: 0.14 },
+        { header: 'Technician', width: 0.22 },
+        { header: 'Notes', width: 0.64 },
+      ],
+      rows: report.visits.map((visit) => [
+        visit.visitDate,
+        visit.technician,
+        [visit.publicNotes, visit.serviceNotes].filter(Boolean).join(' / '),
+      ]),
+      emptyText: 'No visits in this period',
+    }
+  );
+
+  if (report.chemicalEntries) {
+    sections.push(
+      { type: 'heading', text: 'Chemical Entries' },
+      {
+        type: 'table',
+        columns: [
+          { header: 'Date', width: 0.13 },
+          { header: 'Chemical', width: 0.27 },
+          { header: 'Level', width: 0.12, align: 'right' },
+          { header: 'Backstock', width: 0.12, align: 'right' },
+          { header: 'Delivery', width: 0.12, align: 'right' },
+          { header: 'On hand', width: 0.12, align: 'right' },
+          { header: 'Usage', width: 0.12, align: 'right' },
+        ],
+        rows: report.chemicalEntries.map((entry) => [
+          entry.visitDate,
+          entry.chemicalName,
+          formatNumber(entry.levelGallons),
+          formatNumber(entry.backstockGallons),
+          formatNumber(entry.deliveryGallons),
+          formatNumber(entry.totalOnHandGallons),
+          formatNumber(entry.usageGallons),
+        ]),
+      }
+    );
+  }
+
+  return sections;
+}
@@ -0,0 +1,126 @@
+// ===========================================
+// FILE: src/app/api/analytics/low-inventory/route.ts
+// PURPOSE: API endpoint for chemicals projected to run out soon
+// PRD REFERENCE: PRD Section 7.6 - Inventory Alerts
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { lowInventoryQuerySchema } from '@/lib/validations';
+import { getAccessibleSiteWhere } from '@/lib/dashboard';
+import { FORECAST_LOOKBACK_DAYS, getInventoryForecasts, sortByUrgency } from '@/lib/forecast';
+import { z } from 'zod';
+
+/**
+ * GET /api/analytics/low-inventory
+ *
+ * Chemicals projected to run out within a number of days
+ *
+ * WHY: Distributors plan deliveries and managers reorder before a tank
+ * runs dry, not after.
+ *
+ * QUERY PARAMS:
+ * - siteId: Limit to one site (optional)
+ * - organizationId: Limit to one organization (optional)
+ * - thresholdDays: Include chemicals running out within this many days (default 7)
+ *
+ * With neither siteId nor organizationId, every site the user can see is included.
+ *
+ * BUSINESS LOGIC:
+ * - Burn rate comes from the last FORECAST_LOOKBACK_DAYS of visit readings
+ * - On hand includes backstock
+ * - Results are sorted by urgency (soonest run-out first)
+ *
+ * RETURNS:
+ * {
+ *   thresholdDays, lookbackDays, asOf,
+ *   summary: { sitesAnalyzed, chemicalsForecast, belowThreshold, outOfStock },
+ *   chemicals: InventoryForecast[]
+ * }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const validatedQuery = lowInventoryQuerySchema.parse({
+      siteId: searchParams.get('siteId') || undefined,
+      organizationId: searchParams.get('organizationId') || undefined,
+      thresholdDays: searchParams.get('thresholdDays') || undefined,
+    });
+
+    const accessWhere = getAccessibleSiteWhere(session.user);
+    const sites = accessWhere
+      ? await prisma.site.findMany({
+          where: {
+            AND: [
+              accessWhere,
+              validatedQuery.siteId ? { id: validatedQuery.siteId } : {},
+              validatedQuery.organizationId
+                ? { organizationId: validatedQuery.organizationId }
+                : {},
+            ],
+          },
+          select: { id: true },
+        })
+      : [];
+
+    // A specific site or organization the user can't see is forbidden
+    if (sites.length === 0 && (validatedQuery.siteId || validatedQuery.organizationId)) {
+      return NextResponse.json(
+        {
+          error: validatedQuery.siteId
+            ? 'Forbidden: No access to this site'
+            : 'Forbidden: No access to this organization',
+        },
+        { status: 403 }
+      );
+    }
+
+    const asOf = new Date();
+    const forecasts = await getInventoryForecasts(
+      sites.map((site: { id: string }) => site.id),
+      asOf
+    );
+
+    const belowThreshold = sortByUrgency(
+      forecasts.filter(
+        (forecast) =>
+          forecast.daysUntilEmpty !== null &&
+          forecast.daysUntilEmpty <= validatedQuery.thresholdDays
+      )
+    );
+
+    return NextResponse.json({
+      thresholdDays: validatedQuery.thresholdDays,
+      lookbackDays: FORECAST_LOOKBACK_DAYS,
+      asOf: asOf.toISOString(),
+      summary: {
+        sitesAnalyzed: sites.length,
+        chemicalsForecast: forecasts.filter((forecast) => forecast.daysUntilEmpty !== null).length,
+        belowThreshold: belowThreshold.length,
+        outOfStock: belowThreshold.filter((forecast) => forecast.daysUntilEmpty === 0).length,
+      },
+      chemicals: belowThreshold,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching low inventory:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,231 @@
+// ===========================================
+// FILE: src/app/api/analytics/package-cost/route.ts
+// PURPOSE: API endpoint for per-package cost per car (GPM-weighted)
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { packageCostQuerySchema } from '@/lib/validations';
+import { getPeriodStart } from '@/lib/analytics';
+import { toCountDate } from '@/lib/carCounts';
+import { getSiteCalendar, verifySiteAccess } from '@/lib/sites';
+import { getSiteToday } from '@/lib/timezone';
+import {
+  allocatePackageCosts,
+  getPricedUsageEntries,
+  getSiteChemicalApplications,
+} from '@/lib/packageCost';
+import { z } from 'zod';
+
+/**
+ * GET /api/analytics/package-cost
+ *
+ * Per-package cost per car using GPM-weighted allocation
+ *
+ * WHY: A chemical shared by several applications (e.g. a high-GPM arch in
+ * the top package and a low-GPM arch in every package) shouldn't be split
+ * evenly. Allocating by GPM × cars shows what each package really costs.
+ *
+ * QUERY PARAMS:
+ * - siteId: Site to analyze (required)
+ * - packageId: Limit results to one package (optional)
+ * - startDate: Start of analysis period (default 30 days ago)
+ * - endDate: End of analysis period (default today)
+ *
+ * BUSINESS LOGIC:
+ * - Usage comes from visit entries (calculatedUsageGallons) in the period
+ * - Cars come from recorded per-package car counts
+ * - Usage of chemicals not assigned to any counted package is reported
+ *   as unallocated rather than spread across packages
+ * - Trend weeks start on the organization's configured week start day
+ *
+ * RETURNS: Package allocations with chemical breakdown and a weekly trend
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const validatedQuery = packageCostQuerySchema.parse({
+      siteId: searchParams.get('siteId') || '',
+      packageId: searchParams.get('packageId') || undefined,
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+    });
+
+    // Verify access to site
+    const hasAccess = await verifySiteAccess(session, validatedQuery.siteId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    // Build date range (default end is today in the site's time zone)
+    const calendar = await getSiteCalendar(prisma, validatedQuery.siteId);
+    const endDate = validatedQuery.endDate
+      ? new Date(validatedQuery.endDate)
+      : getSiteToday(calendar.timeZone);
+    const startDate = validatedQuery.startDate
+      ? new Date(validatedQuery.startDate)
+      : new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000); // Default 30 days
+
+    // Active applications with injector GPM and package assignments
+    const chemicals = await getSiteChemicalApplications(validatedQuery.siteId);
+
+    // Fetch usage recorded in the period, priced per visit date
+    const entries = await getPricedUsageEntries(validatedQuery.siteId, startDate, endDate);
+
+    // Fetch per-package car counts in the period
+    const packageCounts = await prisma.carCountByPackage.findMany({
+      where: {
+        carCountLog: {
+          siteId: validatedQuery.siteId,
+          logDate: {
+            gte: toCountDate(startDate),
+            lte: toCountDate(endDate),
+          },
+        },
+      },
+      select: {
+        washPackageId: true,
+        carCount: true,
+        carCountLog: {
+          select: { logDate: true },
+        },
+      },
+    });
+
+    const packages = await prisma.washPackage.findMany({
+      where: {
+        siteId: validatedQuery.siteId,
+        isActive: true,
+      },
+      orderBy: { displayOrder: 'asc' },
+    });
+
+    /**
+     * Bucket usage and car counts by week
+     * WHY: The whole-period totals drive the table; weekly buckets drive the chart
+     */
+    const usageTotals = new Map<string, number>();
+    const costTotals = new Map<string, number>();
+    const carTotals = new Map<string, number>();
+    const weeks = new Map<string, {
+      usage: Map<string, number>;
+      costs: Map<string, number>;
+      cars: Map<string, number>;
+    }>();
+
+    const getWeek = (date: Date) => {
+      const key = getPeriodStart(date, 'week', { weekStartsOn: calendar.weekStartsOn }).toISOString();
+      let week = weeks.get(key);
+      if (!week) {
+        week = { usage: new Map(), costs: new Map(), cars: new Map() };
+        weeks.set(key, week);
+      }
+      return week;
+    };
+
+    let totalChemicalCost = 0;
+    for (const entry of entries) {
+      const configId = entry.chemicalSiteConfigId;
+      totalChemicalCost += entry.cost;
+
+      usageTotals.set(configId, (usageTotals.get(configId) ?? 0) + entry.gallons);
+      costTotals.set(configId, (costTotals.get(configId) ?? 0) + entry.cost);
+      const week = getWeek(entry.visitDate);
+      week.usage.set(configId, (week.usage.get(configId) ?? 0) + entry.gallons);
+      week.costs.set(configId, (week.costs.get(configId) ?? 0) + entry.cost);
+    }
+
+    for (const count of packageCounts) {
+      const packageId = count.washPackageId;
+      carTotals.set(packageId, (carTotals.get(packageId) ?? 0) + count.carCount);
+      const week = getWeek(count.carCountLog.logDate);
+      week.cars.set(packageId, (week.cars.get(packageId) ?? 0) + count.carCount);
+    }
+
+    // Allocate the whole period
+    const allocations = allocatePackageCosts(chemicals, usageTotals, carTotals, costTotals);
+    const allocatedCost = allocations.reduce((sum, a) => sum + a.totalCost, 0);
+
+    const packageResults = packages
+      .filter((pkg: typeof packages[number]) =>
+        !validatedQuery.packageId || pkg.id === validatedQuery.packageId
+      )
+      .map((pkg: typeof packages[number]) => {
+        const allocation = allocations.find((a) => a.packageId === pkg.id);
+        return {
+          packageId: pkg.id,
+          packageName: pkg.name,
+          price: Number(pkg.singleWashPrice ?? 0),
+          carCount: carTotals.get(pkg.id) ?? 0,
+          totalCost: Math.round((allocation?.totalCost ?? 0) * 100) / 100,
+          costPerCar: Math.round((allocation?.costPerCar ?? 0) * 100) / 100,
+          chemicalBreakdown: (allocation?.chemicalBreakdown ?? [])
+            .map((chem) => ({
+              chemicalId: chem.chemicalId,
+              chemicalName: chem.chemicalName,
+              gallonsUsed: Math.round(chem.gallonsUsed * 100) / 100,
+              cost: Math.round(chem.cost * 100) / 100,
+              costPerCar: Math.round(chem.costPerCar * 100) / 100,
+            }))
+            .sort((a, b) => b.cost - a.cost),
+        };
+      });
+
+    // Allocate each week for the trend
+    const trend = Array.from(weeks.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([periodStart, week]) => {
+        const weekAllocations = allocatePackageCosts(chemicals, week.usage, week.cars, week.costs);
+        const costs: Record<string, number> = {};
+        for (const pkg of packageResults) {
+          const allocation = weekAllocations.find((a) => a.packageId === pkg.packageId);
+          costs[pkg.packageId] = Math.round((allocation?.costPerCar ?? 0) * 100) / 100;
+        }
+        return { periodStart, costs };
+      });
+
+    const totalPackageCars = Array.from(carTotals.values()).reduce((sum, cars) => sum + cars, 0);
+
+    return NextResponse.json({
+      siteId: validatedQuery.siteId,
+      period: {
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+      },
+      summary: {
+        totalChemicalCost: Math.round(totalChemicalCost * 100) / 100,
+        allocatedCost: Math.round(allocatedCost * 100) / 100,
+        unallocatedCost: Math.round((totalChemicalCost - allocatedCost) * 100) / 100,
+        totalPackageCars,
+        hasPackageCarCounts: totalPackageCars > 0,
+      },
+      packages: packageResults,
+      trend,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching package cost analytics:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
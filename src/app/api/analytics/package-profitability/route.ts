@@ -0,0 +1,107 @@
+// ===========================================
+// FILE: src/app/api/analytics/package-profitability/route.ts
+// PURPOSE: API endpoint for package profitability (chemical cost vs. prices)
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { packageProfitabilityQuerySchema } from '@/lib/validations';
+import { getSiteCalendar, verifySiteAccess } from '@/lib/sites';
+import { getSiteToday } from '@/lib/timezone';
+import { getSiteProfitability } from '@/lib/profitability';
+import { z } from 'zod';
+
+/**
+ * GET /api/analytics/package-profitability
+ *
+ * Chemical cost as a share of each package's wash and membership revenue
+ *
+ * WHY: Cost per car alone doesn't say whether a package makes money.
+ * Comparing it with what the package sells for shows where chemistry is
+ * eating the margin.
+ *
+ * QUERY PARAMS:
+ * - siteId: Site to analyze (required)
+ * - startDate: Start of analysis period (default 90 days ago)
+ * - endDate: End of analysis period (default today)
+ * - chemicalShareThreshold: Flag packages above this % of revenue (default 10)
+ * - memberWashesPerMonth: Used to price a member wash (default 4)
+ *
+ * BUSINESS LOGIC: See getSiteProfitability (lib/profitability)
+ *
+ * RETURNS: Per-package revenue, chemical cost and margin (per car, per
+ * month and monthly breakdown) plus site totals
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const validatedQuery = packageProfitabilityQuerySchema.parse({
+      siteId: searchParams.get('siteId') || '',
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+      chemicalShareThreshold: searchParams.get('chemicalShareThreshold') || undefined,
+      memberWashesPerMonth: searchParams.get('memberWashesPerMonth') || undefined,
+    });
+
+    // Verify access to site
+    const hasAccess = await verifySiteAccess(session, validatedQuery.siteId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    // Build date range (default end is today in the site's time zone)
+    const calendar = await getSiteCalendar(prisma, validatedQuery.siteId);
+    const endDate = validatedQuery.endDate
+      ? new Date(validatedQuery.endDate)
+      : getSiteToday(calendar.timeZone);
+    const startDate = validatedQuery.startDate
+      ? new Date(validatedQuery.startDate)
+      : new Date(endDate.getTime() - 90 * 24 * 60 * 60 * 1000); // Default 90 days
+
+    if (startDate > endDate) {
+      return NextResponse.json(
+        { error: 'Start date must be before or equal to end date' },
+        { status: 400 }
+      );
+    }
+
+    const profitability = await getSiteProfitability(validatedQuery.siteId, startDate, endDate, {
+      chemicalShareThreshold: validatedQuery.chemicalShareThreshold,
+      memberWashesPerMonth: validatedQuery.memberWashesPerMonth,
+    });
+
+    return NextResponse.json({
+      siteId: validatedQuery.siteId,
+      period: {
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+      },
+      ...profitability,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching package profitability:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+// ===========================================
+// FILE: src/app/api/analytics/portfolio/route.ts
+// PURPOSE: API endpoint for distributor portfolio revenue and consumption
+// PRD REFERENCE: PRD Section 7 - Analytics & Reporting
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { portfolioQuerySchema } from '@/lib/validations';
+import { getPortfolioAnalytics, MOVER_WINDOW_DAYS } from '@/lib/portfolio';
+import { z } from 'zod';
+
+/**
+ * GET /api/analytics/portfolio
+ *
+ * Delivered and consumed product across the distributor's clients
+ *
+ * WHY: The distributor dashboard lists clients, but not how much product
+ * each one takes or what it is worth. A client whose consumption falls
+ * off a cliff has usually switched suppliers.
+ *
+ * QUERY PARAMS:
+ * - organizationId: Limit to one client (optional)
+ * - startDate / endDate: Date range (default last 12 months)
+ * - dropThreshold: Percent consumption drop that flags a client (default 30)
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN, DISTRIBUTOR_USER
+ *
+ * RETURNS: PortfolioAnalytics (see lib/portfolio) plus moverWindowDays
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only distributor users can see their portfolio
+    const { role, distributorId } = session.user;
+    if ((role !== 'DISTRIBUTOR_ADMIN' && role !== 'DISTRIBUTOR_USER') || !distributorId) {
+      return NextResponse.json(
+        { error: 'Forbidden: Distributor access required' },
+        { status: 403 }
+      );
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const validatedQuery = portfolioQuerySchema.parse({
+      organizationId: searchParams.get('organizationId') || undefined,
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+      dropThreshold: searchParams.get('dropThreshold') || undefined,
+    });
+
+    // A specific client must belong to this distributor
+    if (validatedQuery.organizationId) {
+      const organization = await prisma.organization.findUnique({
+        where: { id: validatedQuery.organizationId },
+        select: { distributorId: true },
+      });
+      if (!organization || organization.distributorId !== distributorId) {
+        return NextResponse.json(
+          { error: 'Forbidden: No access to this organization' },
+          { status: 403 }
+        );
+      }
+    }
+
+    // Build date range
+    const endDate = validatedQuery.endDate ? new Date(validatedQuery.endDate) : new Date();
+    const startDate = validatedQuery.startDate
+      ? new Date(validatedQuery.startDate)
+      : new Date(Date.UTC(endDate.getUTCFullYear() - 1, endDate.getUTCMonth() + 1, 1)); // Default 12 months
+
+    if (startDate > endDate) {
+      return NextResponse.json(
+        { error: 'Start date must be before or equal to end date' },
+        { status: 400 }
+      );
+    }
+
+    const portfolio = await getPortfolioAnalytics(distributorId, {
+      organizationId: validatedQuery.organizationId,
+      startDate,
+      endDate,
+      dropThreshold: validatedQuery.dropThreshold,
+    });
+
+    return NextResponse.json({
+      ...portfolio,
+      moverWindowDays: MOVER_WINDOW_DAYS,
+      dropThreshold: validatedQuery.dropThreshold,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching portfolio analytics:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
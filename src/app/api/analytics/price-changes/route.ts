@@ -0,0 +1,146 @@
+// ===========================================
+// FILE: src/app/api/analytics/price-changes/route.ts
+// PURPOSE: API endpoint for the per-client price change report
+// PRD REFERENCE: PRD Section 7 - Analytics & Reporting
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { priceChangeReportQuerySchema } from '@/lib/validations';
+import { getPriceChangeReport } from '@/lib/prices';
+import { z } from 'zod';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * GET /api/analytics/price-changes
+ *
+ * Chemical price changes per client, with the price each one replaced
+ *
+ * WHY: A jump in a client's cost per car is often a price change rather
+ * than a usage problem. This report shows what changed and when.
+ *
+ * QUERY PARAMS:
+ * - organizationId: Limit to one client (optional)
+ * - startDate / endDate: Effective date range (default 12 months back
+ *   through 12 months ahead, so scheduled changes are included)
+ *
+ * ACCESS:
+ * - DISTRIBUTOR_ADMIN, DISTRIBUTOR_USER: own clients
+ * - ORG_ADMIN: own organization
+ *
+ * RETURNS: { period, clients: [{ organizationId, organizationName, changes }] }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const validatedQuery = priceChangeReportQuerySchema.parse({
+      organizationId: searchParams.get('organizationId') || undefined,
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+    });
+
+    // Resolve the clients in scope
+    const { role, distributorId, organizationId } = session.user;
+    let organizationIds: string[];
+
+    if (role === 'DISTRIBUTOR_ADMIN' || role === 'DISTRIBUTOR_USER') {
+      const clients = await prisma.organization.findMany({
+        where: {
+          distributorId,
+          ...(validatedQuery.organizationId && { id: validatedQuery.organizationId }),
+        },
+        select: { id: true },
+      });
+      organizationIds = clients.map((client: { id: string }) => client.id);
+
+      if (validatedQuery.organizationId && organizationIds.length === 0) {
+        return NextResponse.json(
+          { error: 'Forbidden: No access to this organization' },
+          { status: 403 }
+        );
+      }
+    } else if (role === 'ORG_ADMIN' && organizationId) {
+      if (validatedQuery.organizationId && validatedQuery.organizationId !== organizationId) {
+        return NextResponse.json(
+          { error: 'Forbidden: No access to this organization' },
+          { status: 403 }
+        );
+      }
+      organizationIds = [organizationId];
+    } else {
+      return NextResponse.json(
+        { error: 'Forbidden: Insufficient permissions' },
+        { status: 403 }
+      );
+    }
+
+    // Build date range
+    const now = Date.now();
+    const startDate = validatedQuery.startDate
+      ? new Date(validatedQuery.startDate)
+      : new Date(now - 365 * MS_PER_DAY);
+    const endDate = validatedQuery.endDate
+      ? new Date(validatedQuery.endDate)
+      : new Date(now + 365 * MS_PER_DAY);
+
+    if (startDate > endDate) {
+      return NextResponse.json(
+        { error: 'Start date must be before or equal to end date' },
+        { status: 400 }
+      );
+    }
+
+    const changes = await getPriceChangeReport(prisma, organizationIds, startDate, endDate);
+
+    // Group by client
+    const clients = new Map<string, {
+      organizationId: string;
+      organizationName: string;
+      changes: typeof changes;
+    }>();
+    for (const change of changes) {
+      let client = clients.get(change.organizationId);
+      if (!client) {
+        client = {
+          organizationId: change.organizationId,
+          organizationName: change.organizationName,
+          changes: [],
+        };
+        clients.set(change.organizationId, client);
+      }
+      client.changes.push(change);
+    }
+
+    return NextResponse.json({
+      period: {
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+      },
+      clients: Array.from(clients.values()).sort((a, b) =>
+        a.organizationName.localeCompare(b.organizationName)
+      ),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching price change report:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -8,7 +8,20 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { summaryQuerySchema } from '@/lib/validations';
-import { calculatePercentageChange } from '@/lib/analytics';
+import { calculatePercentageChange, calculateCostPerCar } from '@/lib/analytics';
+import { getCarCountSummary } from '@/lib/carCounts';
+import { getChemicalUsageTotals } from '@/lib/rollups';
+import {
+  getOrganizationBudgetSummary,
+  getSiteBudgetSummaries,
+  getTargetVariance,
+} from '@/lib/targets';
+import {
+  addCalendarDays,
+  DEFAULT_TIMEZONE,
+  getSiteToday,
+  resolveSiteTimeZone,
+} from '@/lib/timezone';
 import { z } from 'zod';
 
 /**
@@ -24,7 +37,14 @@ import { z } from 'zod';
  * - organizationId: Filter by organization (for distributor view)
  * - period: Time period (7, 30, or 90 days)
  *
- * RETURNS: Summary metrics with trend indicators
+ * BUSINESS LOGIC:
+ * - Periods are whole calendar days ending today in the sites' time zone
+ *   (see getScopeTimeZone); the previous period is the `period` days
+ *   before the current one
+ * - Every metric uses the same inclusive date ranges
+ *
+ * RETURNS: Summary metrics with trend indicators, plus variance against
+ * cost-per-car targets and month-to-date budget projections
  */
 export async function GET(request: NextRequest) {
   try {
@@ -53,78 +73,74 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Calculate date ranges
+    // Resolve the sites in scope
+    const siteWhere = toSiteWhere(siteFilter);
+    const sites = await prisma.site.findMany({
+      where: siteWhere,
+      select: {
+        id: true,
+        name: true,
+        organizationId: true,
+        timezone: true,
+        organization: { select: { timezone: true } },
+      },
+    });
+    const siteIds = sites.map((site: { id: string }) => site.id);
+    const sitesCount = siteIds.length;
+
+    // Calculate date ranges (inclusive calendar dates)
     const periodDays = parseInt(validatedQuery.period);
-    const now = new Date();
-    const currentStart = new Date(now.getTime() - periodDays * 24 * 60 * 60 * 1000);
-    const previousStart = new Date(currentStart.getTime() - periodDays * 24 * 60 * 60 * 1000);
+    const currentEnd = getSiteToday(getScopeTimeZone(sites));
+    const currentStart = addCalendarDays(currentEnd, -(periodDays - 1));
+    const previousEnd = addCalendarDays(currentStart, -1);
+    const previousStart = addCalendarDays(previousEnd, -(periodDays - 1));
 
-    // Fetch current period visits
-    const currentVisits = await prisma.visitLog.findMany({
+    // Calculate metrics for both periods from daily usage rollups
+    const currentMetrics = await getPeriodMetrics(siteFilter, siteIds, currentStart, currentEnd);
+    const previousMetrics = await getPeriodMetrics(siteFilter, siteIds, previousStart, previousEnd);
+
+    // Most recent visits
+    const recentVisits = await prisma.visitLog.findMany({
       where: {
         ...siteFilter,
         visitDate: {
           gte: currentStart,
-          lte: now,
+          lte: currentEnd,
         },
       },
-      include: {
-        chemicalEntries: {
-          include: {
-            chemicalSiteConfig: {
-              include: {
-                chemicalOrgConfig: true,
-              },
-            },
-          },
-        },
+      select: {
+        id: true,
+        visitDate: true,
         site: {
-          select: { id: true, name: true },
-        },
-      },
-    });
-
-    // Fetch previous period visits for comparison
-    const previousVisits = await prisma.visitLog.findMany({
-      where: {
-        ...siteFilter,
-        visitDate: {
-          gte: previousStart,
-          lt: currentStart,
+          select: { name: true },
         },
-      },
-      include: {
-        chemicalEntries: {
-          include: {
-            chemicalSiteConfig: {
-              include: {
-                chemicalOrgConfig: true,
-              },
-            },
-          },
+        _count: {
+          select: { chemicalEntries: true },
         },
       },
-    });
-
-    // Calculate current period metrics
-    const currentMetrics = calculatePeriodMetrics(currentVisits);
-    const previousMetrics = calculatePeriodMetrics(previousVisits);
-
-    // Fetch sites count
-    const sitesCount = await prisma.site.count({
-      where: siteFilter,
+      orderBy: { visitDate: 'desc' },
+      take: 5,
     });
 
     // Fetch active chemicals count
     const chemicalsCount = await prisma.chemicalSiteConfig.count({
       where: {
-        site: siteFilter,
+        site: siteWhere,
         isActive: true,
       },
     });
 
+    /**
+     * Car counts for both periods
+     * WHY: Cost per car uses recorded counts, estimating only missing days
+     */
+    const currentCars = await getCarCountSummary(prisma, siteIds, currentStart, currentEnd);
+    const previousCars = await getCarCountSummary(prisma, siteIds, previousStart, previousEnd);
+    const currentCostPerCar = calculateCostPerCar(currentMetrics.totalCost, currentCars.totalCars);
+    const previousCostPerCar = calculateCostPerCar(previousMetrics.totalCost, previousCars.totalCars);
+
     // Find low inventory chemicals
-    const latestEntries = await getLatestChemicalEntries(siteFilter);
+    const latestEntries = await getLatestChemicalEntries(siteIds, currentEnd);
     const lowInventoryCount = latestEntries.filter((entry) => {
       const dailyUsage = entry.avgDailyUsage;
       if (dailyUsage <= 0) return false;
@@ -132,6 +148,44 @@ export async function GET(request: NextRequest) {
       return daysRemaining <= 7;
     }).length;
 
+    /**
+     * Targets and budgets
+     * WHY: A single site shows its own budget; a single organization shows
+     * the organization budget. Sites projected over their own budget are
+     * listed either way.
+     */
+    const targetVariance = await getTargetVariance(prisma, sites, currentStart, currentEnd);
+    const siteBudgets = await getSiteBudgetSummaries(
+      prisma,
+      sites.map((site: typeof sites[number]) => ({
+        id: site.id,
+        organizationId: site.organizationId,
+        timeZone: resolveSiteTimeZone(site),
+      }))
+    );
+    const organizationIds = Array.from(
+      new Set(sites.map((site: typeof sites[number]) => site.organizationId))
+    );
+    const budget = validatedQuery.siteId
+      ? siteBudgets.get(validatedQuery.siteId) ?? null
+      : organizationIds.length === 1
+        ? await getOrganizationBudgetSummary(prisma, organizationIds[0] as string)
+        : null;
+    const sitesOverBudget = sites
+      .filter((site: typeof sites[number]) => siteBudgets.get(site.id)?.isOverBudget)
+      .map((site: typeof sites[number]) => {
+        const siteBudget = siteBudgets.get(site.id)!;
+        const overLine = siteBudget.budgets.find((line) => line.isOverBudget)!;
+        return {
+          siteId: site.id,
+          siteName: site.name,
+          chemicalType: overLine.chemicalType,
+          monthlyBudget: overLine.monthlyBudget,
+          projectedMonthCost: overLine.projectedMonthCost,
+          projectedVariance: overLine.projectedVariance,
+        };
+      });
+
     // Calculate percentage changes
     const visitChange = calculatePercentageChange(
       previousMetrics.visitCount,
@@ -145,14 +199,22 @@ export async function GET(request: NextRequest) {
       previousMetrics.totalUsage,
       currentMetrics.totalUsage
     );
+    const carsChange = calculatePercentageChange(
+      previousCars.totalCars,
+      currentCars.totalCars
+    );
+    const costPerCarChange = calculatePercentageChange(
+      previousCostPerCar,
+      currentCostPerCar
+    );
 
     return NextResponse.json({
       period: {
         days: periodDays,
         currentStart: currentStart.toISOString(),
-        currentEnd: now.toISOString(),
+        currentEnd: currentEnd.toISOString(),
         previousStart: previousStart.toISOString(),
-        previousEnd: currentStart.toISOString(),
+        previousEnd: previousEnd.toISOString(),
       },
       metrics: {
         sites: {
@@ -180,12 +242,33 @@ export async function GET(request: NextRequest) {
           change: Math.round(usageChange * 10) / 10,
           trend: usageChange >= 0 ? 'up' : 'down',
         },
+        cars: {
+          current: currentCars.totalCars,
+          previous: previousCars.totalCars,
+          change: Math.round(carsChange * 10) / 10,
+          trend: carsChange >= 0 ? 'up' : 'down',
+          isEstimated: currentCars.isEstimated || previousCars.isEstimated,
+          source: currentCars.source,
+        },
+        costPerCar: {
+          current: Math.round(currentCostPerCar * 100) / 100,
+          previous: Math.round(previousCostPerCar * 100) / 100,
+          change: Math.round(costPerCarChange * 10) / 10,
+          trend: costPerCarChange >= 0 ? 'up' : 'down',
+          isEstimated: currentCars.isEstimated || previousCars.isEstimated,
+          target: targetVariance.find((line) => line.chemicalType === null) ?? null,
+        },
+      },
+      targets: {
+        variance: targetVariance,
+        budget,
+        sitesOverBudget,
       },
-      recentActivity: currentVisits.slice(0, 5).map((visit: typeof currentVisits[number]) => ({
+      recentActivity: recentVisits.map((visit: typeof recentVisits[number]) => ({
         id: visit.id,
         date: visit.visitDate,
         siteName: visit.site.name,
-        chemicalEntryCount: visit.chemicalEntries.length,
+        chemicalEntryCount: visit._count.chemicalEntries,
       })),
       lowInventoryAlerts: latestEntries
         .filter((entry) => {
@@ -302,68 +385,106 @@ async function buildSiteFilter(
 }
 
 /**
- * Calculate metrics for a period's visits
+ * Convert a VisitLog site filter into a Site where clause
+ *
+ * WHY: buildSiteFilter returns a filter shaped for VisitLog queries
+ * ({ siteId } or { site: {...} }), which can't be passed to Site queries as-is
+ */
+function toSiteWhere(siteFilter: any): any {
+  if (siteFilter.site) {
+    return siteFilter.site;
+  }
+  return { id: siteFilter.siteId };
+}
+
+/**
+ * Time zone whose "today" ends the summary periods
+ *
+ * WHY: Usage, visits and car counts are stored by site-local calendar date,
+ * so periods must be counted in a site's zone, not the server's.
+ *
+ * BUSINESS LOGIC:
+ * - The sites' zone when they all share one (a single site always does)
+ * - Otherwise DEFAULT_TIMEZONE; US zones differ by at most a few hours,
+ *   so this only moves the boundary near midnight
+ */
+function getScopeTimeZone(
+  sites: Array<{ timezone: string | null; organization: { timezone: string } }>
+): string {
+  const timeZones = new Set(sites.map((site) => resolveSiteTimeZone(site)));
+  return timeZones.size === 1 ? Array.from(timeZones)[0] : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Calculate metrics for a period
+ *
+ * WHY: Usage and cost are summed from daily rollups in the database rather
+ * than by loading every visit with its entries.
  */
-function calculatePeriodMetrics(visits: any[]): {
+async function getPeriodMetrics(
+  siteFilter: any,
+  siteIds: string[],
+  startDate: Date,
+  endDate: Date
+): Promise<{
   visitCount: number;
   totalCost: number;
   totalUsage: number;
-} {
-  let totalCost = 0;
-  let totalUsage = 0;
-
-  for (const visit of visits) {
-    for (const entry of visit.chemicalEntries) {
-      const usage = Number(entry.calculatedUsageGallons || 0);
-      const costPerGallon = Number(entry.chemicalSiteConfig.chemicalOrgConfig.costPerGallon || 0);
-
-      totalUsage += usage;
-      totalCost += usage * costPerGallon;
-    }
-  }
+}> {
+  const visitCount = await prisma.visitLog.count({
+    where: {
+      ...siteFilter,
+      visitDate: {
+        gte: startDate,
+        lte: endDate,
+      },
+    },
+  });
+  const usageTotals = await getChemicalUsageTotals(prisma, siteIds, startDate, endDate);
 
   return {
-    visitCount: visits.length,
-    totalCost,
-    totalUsage,
+    visitCount,
+    totalCost: usageTotals.reduce((sum, usage) => sum + usage.cost, 0),
+    totalUsage: usageTotals.reduce((sum, usage) => sum + usage.usageGallons, 0),
   };
 }
 
 /**
- * Get latest chemical entries with average daily usage
+ * Get latest on-hand figures with average daily usage
+ *
+ * BUSINESS LOGIC:
+ * - On hand is the closing figure of each chemical's most recent visit day
+ * - Average daily usage is the last 30 days of usage divided by 30
+ *
+ * @param today - Last calendar date to include
  */
-async function getLatestChemicalEntries(siteFilter: any): Promise<Array<{
+async function getLatestChemicalEntries(siteIds: string[], today: Date): Promise<Array<{
   siteId: string;
   siteName: string;
   chemicalName: string;
   totalOnHand: number;
   avgDailyUsage: number;
 }>> {
-  // Get distinct site/chemical combinations with latest entry
-  const latestEntries = await prisma.visitLogChemicalEntry.findMany({
+  // Latest rollup row per site chemical
+  const latestRollups = await prisma.dailyChemicalUsage.findMany({
     where: {
-      visitLog: siteFilter,
+      siteId: { in: siteIds },
     },
     orderBy: {
-      visitLog: {
-        visitDate: 'desc',
-      },
+      usageDate: 'desc',
     },
     distinct: ['chemicalSiteConfigId'],
-    include: {
-      visitLog: {
-        select: {
-          visitDate: true,
-          site: {
-            select: { id: true, name: true },
-          },
-        },
+    select: {
+      chemicalSiteConfigId: true,
+      closingOnHandGallons: true,
+      site: {
+        select: { id: true, name: true },
       },
       chemicalSiteConfig: {
-        include: {
+        select: {
           chemicalOrgConfig: {
-            include: {
-              chemicalMaster: true,
+            select: {
+              chemicalMaster: { select: { name: true } },
             },
           },
         },
@@ -371,50 +492,22 @@ async function getLatestChemicalEntries(siteFilter: any): Promise<Array<{
     },
   });
 
-  // Calculate average daily usage for each
-  const results: Array<{
-    siteId: string;
-    siteName: string;
-    chemicalName: string;
-    totalOnHand: number;
-    avgDailyUsage: number;
-  }> = [];
-
-  for (const entry of latestEntries) {
-    // Get last 30 days of entries for this chemical
-    const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-
-    const recentEntries = await prisma.visitLogChemicalEntry.findMany({
-      where: {
-        chemicalSiteConfigId: entry.chemicalSiteConfigId,
-        visitLog: {
-          visitDate: {
-            gte: thirtyDaysAgo,
-          },
-        },
-      },
-      select: {
-        calculatedUsageGallons: true,
-        visitLog: {
-          select: { visitDate: true },
-        },
-      },
-    });
-
-    const totalUsage = recentEntries.reduce(
-      (sum: number, e: typeof recentEntries[number]) => sum + Number(e.calculatedUsageGallons || 0),
-      0
-    );
-    const avgDailyUsage = totalUsage / 30;
-
-    results.push({
-      siteId: entry.visitLog.site.id,
-      siteName: entry.visitLog.site.name,
-      chemicalName: entry.chemicalSiteConfig.chemicalOrgConfig.chemicalMaster.name,
-      totalOnHand: Number(entry.totalOnHandGallons),
-      avgDailyUsage,
-    });
-  }
-
-  return results;
+  // Last 30 days of usage for every chemical at once
+  const recentUsage = await getChemicalUsageTotals(
+    prisma,
+    siteIds,
+    addCalendarDays(today, -29),
+    today
+  );
+  const recentUsageByConfig = new Map(
+    recentUsage.map((usage) => [usage.chemicalSiteConfigId, usage.usageGallons])
+  );
+
+  return latestRollups.map((rollup: typeof latestRollups[number]) => ({
+    siteId: rollup.site.id,
+    siteName: rollup.site.name,
+    chemicalName: rollup.chemicalSiteConfig.chemicalOrgConfig.chemicalMaster.name,
+    totalOnHand: Number(rollup.closingOnHandGallons),
+    avgDailyUsage: (recentUsageByConfig.get(rollup.chemicalSiteConfigId) ?? 0) / 30,
+  }));
 }
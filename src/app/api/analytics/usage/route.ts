@@ -9,8 +9,16 @@ import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { usageQuerySchema } from '@/lib/validations';
 import { aggregateUsageByPeriod, calculateDailyUsage, calculateDaysUntilEmpty } from '@/lib/analytics';
+import { getCarCountSummary, serializeCarCountSummary } from '@/lib/carCounts';
+import { getSiteCalendar, verifySiteAccess } from '@/lib/sites';
+import { getSiteToday } from '@/lib/timezone';
 import { z } from 'zod';
 
+/**
+ * Fluid ounces per US gallon
+ */
+const OUNCES_PER_GALLON = 128;
+
 /**
  * GET /api/analytics/usage
  *
@@ -25,6 +33,10 @@ import { z } from 'zod';
  * - endDate: End of analysis period
  * - period: Aggregation period (day/week/month)
  *
+ * BUSINESS LOGIC:
+ * - Weeks start on the organization's configured week start day
+ * - Reads daily usage rollups (see lib/rollups), not raw visit entries
+ *
  * RETURNS: Usage trend data aggregated by period
  */
 export async function GET(request: NextRequest) {
@@ -56,45 +68,59 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Build date range
+    // Build date range (default end is today in the site's time zone)
+    const calendar = await getSiteCalendar(prisma, validatedQuery.siteId);
     const endDate = validatedQuery.endDate
       ? new Date(validatedQuery.endDate)
-      : new Date();
+      : getSiteToday(calendar.timeZone);
     const startDate = validatedQuery.startDate
       ? new Date(validatedQuery.startDate)
       : new Date(endDate.getTime() - 90 * 24 * 60 * 60 * 1000); // Default 90 days
 
-    // Build chemical filter
-    const chemicalFilter = validatedQuery.chemicalId
-      ? { chemicalSiteConfigId: validatedQuery.chemicalId }
-      : {};
-
-    // Fetch visit entries with usage data
-    const visits = await prisma.visitLog.findMany({
+    // Fetch daily usage rollups (one row per chemical per visit day)
+    const rollups = await prisma.dailyChemicalUsage.findMany({
       where: {
         siteId: validatedQuery.siteId,
-        visitDate: {
+        usageDate: {
           gte: startDate,
           lte: endDate,
         },
+        ...(validatedQuery.chemicalId
+          ? { chemicalSiteConfigId: validatedQuery.chemicalId }
+          : {}),
+      },
+      select: {
+        chemicalSiteConfigId: true,
+        usageDate: true,
+        usageGallons: true,
+        closingOnHandGallons: true,
       },
-      include: {
-        chemicalEntries: {
-          where: chemicalFilter,
-          include: {
-            chemicalSiteConfig: {
-              include: {
-                chemicalOrgConfig: {
-                  include: {
-                    chemicalMaster: true,
-                  },
-                },
-              },
-            },
+      orderBy: { usageDate: 'asc' },
+    });
+
+    const configs = await prisma.chemicalSiteConfig.findMany({
+      where: { siteId: validatedQuery.siteId },
+      select: {
+        id: true,
+        chemicalOrgConfig: {
+          select: {
+            chemicalMaster: { select: { name: true, type: true } },
           },
         },
       },
-      orderBy: { visitDate: 'asc' },
+    });
+    const configsById = new Map(
+      configs.map((config: typeof configs[number]) => [config.id, config])
+    );
+
+    const visitCount = await prisma.visitLog.count({
+      where: {
+        siteId: validatedQuery.siteId,
+        visitDate: {
+          gte: startDate,
+          lte: endDate,
+        },
+      },
     });
 
     // Group usage by chemical
@@ -106,34 +132,35 @@ export async function GET(request: NextRequest) {
       entries: Array<{ date: Date; usage: number }>;
     }>();
 
-    // Process visits to extract usage
-    for (const visit of visits) {
-      for (const entry of visit.chemicalEntries) {
-        const configId = entry.chemicalSiteConfigId;
-        const chemicalMaster = entry.chemicalSiteConfig.chemicalOrgConfig.chemicalMaster;
+    // Process daily rollups to extract usage
+    for (const rollup of rollups) {
+      const configId = rollup.chemicalSiteConfigId;
+      const config = configsById.get(configId);
+      if (!config) continue;
 
-        let chemData = chemicalUsageData.get(configId);
-        if (!chemData) {
-          chemData = {
-            chemicalId: configId,
-            chemicalName: chemicalMaster.name,
-            chemicalType: chemicalMaster.type,
-            currentOnHand: 0,
-            entries: [],
-          };
-          chemicalUsageData.set(configId, chemData);
-        }
+      let chemData = chemicalUsageData.get(configId);
+      if (!chemData) {
+        const chemicalMaster = config.chemicalOrgConfig.chemicalMaster;
+        chemData = {
+          chemicalId: configId,
+          chemicalName: chemicalMaster.name,
+          chemicalType: chemicalMaster.type,
+          currentOnHand: 0,
+          entries: [],
+        };
+        chemicalUsageData.set(configId, chemData);
+      }
 
-        // Update current on hand
-        chemData.currentOnHand = Number(entry.totalOnHandGallons);
+      // Update current on hand
+      chemData.currentOnHand = Number(rollup.closingOnHandGallons);
 
-        // Add usage entry if we have calculated usage
-        if (entry.calculatedUsageGallons) {
-          chemData.entries.push({
-            date: visit.visitDate,
-            usage: Number(entry.calculatedUsageGallons),
-          });
-        }
+      // Add usage for days that had any
+      const usage = Number(rollup.usageGallons);
+      if (usage > 0) {
+        chemData.entries.push({
+          date: rollup.usageDate,
+          usage,
+        });
       }
     }
 
@@ -145,6 +172,7 @@ export async function GET(request: NextRequest) {
       currentOnHand: number;
       totalUsage: number;
       averageDailyUsage: number;
+      ouncesPerCar: number;
       daysUntilEmpty: number;
       trend: Array<{
         periodStart: string;
@@ -157,6 +185,17 @@ export async function GET(request: NextRequest) {
       (endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000)
     );
 
+    /**
+     * Car counts for the period
+     * WHY: Usage per car (oz/car) normalizes usage for wash volume
+     */
+    const carCounts = await getCarCountSummary(
+      prisma,
+      [validatedQuery.siteId],
+      startDate,
+      endDate
+    );
+
     for (const [, chemData] of chemicalUsageData) {
       // Calculate total usage
       const totalUsage = chemData.entries.reduce((sum, e) => sum + e.usage, 0);
@@ -170,7 +209,8 @@ export async function GET(request: NextRequest) {
       // Aggregate by period
       const aggregated = aggregateUsageByPeriod(
         chemData.entries,
-        validatedQuery.period
+        validatedQuery.period,
+        { weekStartsOn: calendar.weekStartsOn }
       );
 
       chemicals.push({
@@ -180,6 +220,9 @@ export async function GET(request: NextRequest) {
         currentOnHand: Math.round(chemData.currentOnHand * 100) / 100,
         totalUsage: Math.round(totalUsage * 100) / 100,
         averageDailyUsage: Math.round(dailyUsage * 100) / 100,
+        ouncesPerCar: carCounts.totalCars > 0
+          ? Math.round((totalUsage * OUNCES_PER_GALLON / carCounts.totalCars) * 100) / 100
+          : 0,
         daysUntilEmpty: daysUntilEmpty === Infinity ? -1 : daysUntilEmpty,
         trend: aggregated.map((a) => ({
           periodStart: a.periodStart.toISOString(),
@@ -210,8 +253,11 @@ export async function GET(request: NextRequest) {
         totalChemicals: chemicals.length,
         totalUsageGallons: Math.round(totalUsageAll * 100) / 100,
         lowInventoryCount: lowInventoryChemicals.length,
-        visitCount: visits.length,
+        visitCount,
+        totalCars: carCounts.totalCars,
+        isEstimated: carCounts.isEstimated,
       },
+      carCounts: serializeCarCountSummary(carCounts),
       chemicals,
       lowInventoryAlerts: lowInventoryChemicals.map((c) => ({
         chemicalId: c.chemicalId,
@@ -235,41 +281,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
-/**
- * Verify user has access to the specified site
- */
-async function verifySiteAccess(session: any, siteId: string): Promise<boolean> {
-  const site = await prisma.site.findUnique({
-    where: { id: siteId },
-    include: {
-      organization: {
-        select: { distributorId: true },
-      },
-    },
-  });
-
-  if (!site) {
-    return false;
-  }
-
-  if (session.user.role === 'DISTRIBUTOR_ADMIN' || session.user.role === 'DISTRIBUTOR_USER') {
-    return site.organization.distributorId === session.user.distributorId;
-  }
-
-  if (session.user.role === 'ORG_ADMIN') {
-    return site.organizationId === session.user.organizationId;
-  }
-
-  if (session.user.role === 'SITE_MANAGER' || session.user.role === 'SITE_USER') {
-    const access = await prisma.userSiteAccess.findFirst({
-      where: {
-        userId: session.user.id,
-        siteId,
-      },
-    });
-    return !!access;
-  }
-
-  return false;
-}
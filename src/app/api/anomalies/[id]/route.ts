@@ -0,0 +1,119 @@
+// ===========================================
+// FILE: src/app/api/anomalies/[id]/route.ts
+// PURPOSE: API endpoint for reviewing a single usage anomaly
+// PRD REFERENCE: PRD Section 6.2 - Chemical Entries
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { updateUsageAnomalySchema } from '@/lib/validations';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/anomalies/[id]
+ *
+ * Acknowledge or reopen a usage anomaly
+ *
+ * WHY: Some flags are real and explained (a drum was moved to another bay,
+ * a delivery was logged late). Acknowledging takes them off the review
+ * list without changing the reading. Wrong readings are corrected through
+ * the chemical entry instead, which resolves the flag automatically.
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN, DISTRIBUTOR_USER (own clients only)
+ *
+ * BODY: UpdateUsageAnomalyInput
+ * RETURNS: Updated anomaly
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only distributor users review anomalies
+    const { role, distributorId } = session.user;
+    if ((role !== 'DISTRIBUTOR_ADMIN' && role !== 'DISTRIBUTOR_USER') || !distributorId) {
+      return NextResponse.json(
+        { error: 'Forbidden: Distributor access required' },
+        { status: 403 }
+      );
+    }
+
+    const anomaly = await prisma.usageAnomaly.findUnique({
+      where: { id },
+      select: {
+        status: true,
+        chemicalEntry: {
+          select: {
+            visitLog: {
+              select: {
+                site: {
+                  select: { organization: { select: { distributorId: true } } },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!anomaly) {
+      return NextResponse.json(
+        { error: 'Anomaly not found' },
+        { status: 404 }
+      );
+    }
+
+    if (anomaly.chemicalEntry.visitLog.site.organization.distributorId !== distributorId) {
+      return NextResponse.json(
+        { error: 'Forbidden: Access denied' },
+        { status: 403 }
+      );
+    }
+
+    if (anomaly.status === 'RESOLVED') {
+      return NextResponse.json(
+        { error: 'This anomaly has already been resolved by a corrected reading' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateUsageAnomalySchema.parse(body);
+
+    const acknowledged = validatedData.status === 'ACKNOWLEDGED';
+    const updated = await prisma.usageAnomaly.update({
+      where: { id },
+      data: {
+        status: validatedData.status,
+        acknowledgedAt: acknowledged ? new Date() : null,
+        acknowledgedBy: acknowledged ? session.user.id : null,
+        acknowledgementNote: acknowledged ? validatedData.note || null : null,
+      },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating usage anomaly:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+// ===========================================
+// FILE: src/app/api/anomalies/route.ts
+// PURPOSE: API endpoint for the usage anomaly "needs review" list
+// PRD REFERENCE: PRD Section 6.2 - Chemical Entries
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { usageAnomalyQuerySchema } from '@/lib/validations';
+import { getAccessibleSiteWhere } from '@/lib/dashboard';
+import { z } from 'zod';
+
+/**
+ * GET /api/anomalies
+ *
+ * Flagged chemical readings awaiting review
+ *
+ * WHY: Negative usage, spikes and impossible levels usually mean a
+ * mis-entry, a leak or theft. Someone needs to look at each one.
+ *
+ * QUERY PARAMS:
+ * - siteId: Limit to one site (optional)
+ * - status: OPEN (default), ACKNOWLEDGED or RESOLVED
+ * - limit: Max results (default 50)
+ *
+ * ACCESS: Any user, scoped to the sites they can see
+ *
+ * RETURNS: Array of anomalies with their entry, visit, site and chemical
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const validatedQuery = usageAnomalyQuerySchema.parse({
+      siteId: searchParams.get('siteId') || undefined,
+      status: searchParams.get('status') || undefined,
+      limit: searchParams.get('limit') || undefined,
+    });
+
+    const accessWhere = getAccessibleSiteWhere(session.user);
+    if (!accessWhere) {
+      return NextResponse.json([]);
+    }
+
+    const anomalies = await prisma.usageAnomaly.findMany({
+      where: {
+        status: validatedQuery.status,
+        chemicalEntry: {
+          visitLog: {
+            site: {
+              AND: [accessWhere, validatedQuery.siteId ? { id: validatedQuery.siteId } : {}],
+            },
+          },
+        },
+      },
+      include: {
+        acknowledger: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+        chemicalEntry: {
+          select: {
+            id: true,
+            visitLogId: true,
+            levelGallons: true,
+            totalOnHandGallons: true,
+            calculatedUsageGallons: true,
+            visitLog: {
+              select: {
+                visitDate: true,
+                site: { select: { id: true, name: true } },
+              },
+            },
+            chemicalSiteConfig: {
+              select: {
+                chemicalOrgConfig: {
+                  select: {
+                    chemicalMaster: { select: { name: true } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      orderBy: { detectedAt: 'desc' },
+      take: validatedQuery.limit,
+    });
+
+    return NextResponse.json(
+      anomalies.map((anomaly: typeof anomalies[number]) => ({
+        id: anomaly.id,
+        type: anomaly.type,
+        status: anomaly.status,
+        observedValue: Number(anomaly.observedValue),
+        expectedValue: anomaly.expectedValue === null ? null : Number(anomaly.expectedValue),
+        score: anomaly.score === null ? null : Number(anomaly.score),
+        message: anomaly.message,
+        detectedAt: anomaly.detectedAt,
+        acknowledgedAt: anomaly.acknowledgedAt,
+        acknowledgementNote: anomaly.acknowledgementNote,
+        acknowledger: anomaly.acknowledger,
+        resolvedAt: anomaly.resolvedAt,
+        entry: {
+          id: anomaly.chemicalEntry.id,
+          visitId: anomaly.chemicalEntry.visitLogId,
+          visitDate: anomaly.chemicalEntry.visitLog.visitDate,
+          siteId: anomaly.chemicalEntry.visitLog.site.id,
+          siteName: anomaly.chemicalEntry.visitLog.site.name,
+          chemicalName: anomaly.chemicalEntry.chemicalSiteConfig.chemicalOrgConfig.chemicalMaster.name,
+          levelGallons:
+            anomaly.chemicalEntry.levelGallons === null
+              ? null
+              : Number(anomaly.chemicalEntry.levelGallons),
+          totalOnHandGallons: Number(anomaly.chemicalEntry.totalOnHandGallons),
+          calculatedUsageGallons:
+            anomaly.chemicalEntry.calculatedUsageGallons === null
+              ? null
+              : Number(anomaly.chemicalEntry.calculatedUsageGallons),
+        },
+      }))
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching usage anomalies:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+// ===========================================
+// FILE: src/app/api/car-counts/import/route.ts
+// PURPOSE: API endpoint for bulk car count CSV upload
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { verifySiteAccess } from '@/lib/sites';
+import { saveCarCountLog, parseCarCountCsv, CarCountError } from '@/lib/carCounts';
+
+/**
+ * Maximum rows accepted per upload (a little over a year of daily counts)
+ */
+const MAX_IMPORT_ROWS = 400;
+
+/**
+ * POST /api/car-counts/import
+ *
+ * Import daily car counts from a CSV file
+ *
+ * WHY: Operators can export months of counts from their POS or tunnel
+ * controller and load them in one go.
+ *
+ * BODY: multipart/form-data
+ * - siteId: Site the counts belong to
+ * - file: CSV file (see parseCarCountCsv for the format)
+ *
+ * BUSINESS LOGIC:
+ * - All-or-nothing: any invalid row rejects the whole file
+ * - Days already recorded are replaced
+ *
+ * RETURNS: Number of days imported
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const siteId = formData.get('siteId');
+    const file = formData.get('file');
+
+    if (typeof siteId !== 'string' || !siteId) {
+      return NextResponse.json(
+        { error: 'siteId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { error: 'A CSV file is required' },
+        { status: 400 }
+      );
+    }
+
+    // Verify access to site
+    const hasAccess = await verifySiteAccess(session, siteId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    // Resolve package columns against the site's active packages
+    const packages = await prisma.washPackage.findMany({
+      where: { siteId, isActive: true },
+      select: { id: true, name: true },
+    });
+
+    const { rows, errors } = parseCarCountCsv(await file.text(), packages);
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'CSV contains invalid rows', details: errors },
+        { status: 400 }
+      );
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `CSV may contain at most ${MAX_IMPORT_ROWS} rows` },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      for (const row of rows) {
+        try {
+          await saveCarCountLog(tx, {
+            siteId,
+            logDate: row.logDate,
+            totalCars: row.totalCars,
+            packageCounts: row.packageCounts,
+            source: 'CSV_IMPORT',
+            enteredBy: session.user.id,
+          });
+        } catch (error) {
+          if (error instanceof CarCountError) {
+            throw new CarCountError(`Line ${row.line}: ${error.message}`);
+          }
+          throw error;
+        }
+      }
+    });
+
+    return NextResponse.json({ imported: rows.length }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CarCountError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error importing car counts:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
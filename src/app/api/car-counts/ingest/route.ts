@@ -0,0 +1,141 @@
+// ===========================================
+// FILE: src/app/api/car-counts/ingest/route.ts
+// PURPOSE: Authenticated push endpoint for tunnel controllers
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { carCountIngestSchema } from '@/lib/validations';
+import {
+  saveCarCountLog,
+  carCountApiKeyMatches,
+  getCarCountApiKeyPrefix,
+  CarCountError,
+} from '@/lib/carCounts';
+import { z } from 'zod';
+
+/**
+ * POST /api/car-counts/ingest
+ *
+ * Receive a day's car counts from a tunnel controller
+ *
+ * WHY: Controllers already count every car by package. Pushing those counts
+ * directly removes manual entry and keeps cost per car current.
+ *
+ * AUTHENTICATION:
+ * - Authorization: Bearer <site API key> (issued via /api/car-counts/keys)
+ * - No user session; the key identifies the site
+ *
+ * BODY: CarCountIngestInput
+ * - packageCounts may reference packages by washPackageId or packageName
+ * - packageCounts[].membershipCars splits each count into member and retail washes
+ *
+ * RETURNS: Saved CarCountLog with package counts
+ */
+export async function POST(request: NextRequest) {
+  try {
+    /**
+     * Authenticate controller
+     * WHY: Look up by the non-secret prefix, then compare the full hash
+     * in constant time
+     */
+    const authorization = request.headers.get('authorization') ?? '';
+    const apiKey = authorization.startsWith('Bearer ') ? authorization.slice(7).trim() : '';
+    const keyPrefix = getCarCountApiKeyPrefix(apiKey);
+
+    if (!keyPrefix) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const storedKey = await prisma.carCountApiKey.findUnique({
+      where: { keyPrefix },
+      include: {
+        site: { select: { id: true, isActive: true } },
+      },
+    });
+
+    if (
+      !storedKey ||
+      !storedKey.isActive ||
+      !storedKey.site.isActive ||
+      !carCountApiKeyMatches(apiKey, storedKey.keyHash)
+    ) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = carCountIngestSchema.parse(body);
+
+    /**
+     * Resolve package names to IDs
+     * WHY: Controllers send their own menu names (case-insensitive match)
+     */
+    let packageCounts: Array<{ washPackageId: string; carCount: number; membershipCars?: number }> | undefined;
+    if (validatedData.packageCounts) {
+      const packages = await prisma.washPackage.findMany({
+        where: { siteId: storedKey.siteId, isActive: true },
+        select: { id: true, name: true },
+      });
+
+      packageCounts = [];
+      for (const count of validatedData.packageCounts) {
+        const washPackageId =
+          count.washPackageId ??
+          packages.find(
+            (pkg: { id: string; name: string }) =>
+              pkg.name.toLowerCase() === count.packageName!.toLowerCase()
+          )?.id;
+
+        if (!washPackageId) {
+          return NextResponse.json(
+            { error: `Unknown package "${count.packageName}"` },
+            { status: 400 }
+          );
+        }
+
+        packageCounts.push({
+          washPackageId,
+          carCount: count.carCount,
+          membershipCars: count.membershipCars,
+        });
+      }
+    }
+
+    const carCount = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      const saved = await saveCarCountLog(tx, {
+        siteId: storedKey.siteId,
+        logDate: validatedData.logDate,
+        totalCars: validatedData.totalCars,
+        packageCounts,
+        source: 'CONTROLLER',
+      });
+
+      await tx.carCountApiKey.update({
+        where: { id: storedKey.id },
+        data: { lastUsedAt: new Date() },
+      });
+
+      return saved;
+    });
+
+    return NextResponse.json(carCount, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof CarCountError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error ingesting car counts:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,226 @@
+// ===========================================
+// FILE: src/app/api/car-counts/keys/route.ts
+// PURPOSE: API endpoints for tunnel controller API keys
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { verifySiteAccess } from '@/lib/sites';
+import { carCountApiKeySchema } from '@/lib/validations';
+import { generateCarCountApiKey } from '@/lib/carCounts';
+import { z } from 'zod';
+
+/**
+ * Roles allowed to manage controller keys
+ * WHY: Keys write data for a site without a user session
+ */
+const KEY_MANAGER_ROLES = ['ORG_ADMIN', 'SITE_MANAGER', 'DISTRIBUTOR_ADMIN'];
+
+/**
+ * Fields safe to return for a stored key (never the hash)
+ */
+const apiKeySelect = {
+  id: true,
+  siteId: true,
+  name: true,
+  keyPrefix: true,
+  isActive: true,
+  lastUsedAt: true,
+  createdAt: true,
+  creator: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+};
+
+/**
+ * GET /api/car-counts/keys
+ *
+ * List controller API keys for a site
+ *
+ * QUERY PARAMS:
+ * - siteId (required): Site to list keys for
+ *
+ * RETURNS: Array of keys (prefix only, no secret)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const siteId = searchParams.get('siteId');
+
+    if (!siteId) {
+      return NextResponse.json(
+        { error: 'siteId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!KEY_MANAGER_ROLES.includes(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Insufficient permissions to manage API keys' },
+        { status: 403 }
+      );
+    }
+
+    const hasAccess = await verifySiteAccess(session, siteId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    const keys = await prisma.carCountApiKey.findMany({
+      where: { siteId },
+      select: apiKeySelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json(keys);
+  } catch (error) {
+    console.error('Error fetching car count API keys:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/car-counts/keys
+ *
+ * Issue a new controller API key for a site
+ *
+ * BODY: CarCountApiKeyInput
+ *
+ * RETURNS: Created key including the plaintext `key`
+ * NOTE: The plaintext key is only ever returned here; only its hash is stored
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = carCountApiKeySchema.parse(body);
+
+    if (!KEY_MANAGER_ROLES.includes(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Insufficient permissions to manage API keys' },
+        { status: 403 }
+      );
+    }
+
+    const hasAccess = await verifySiteAccess(session, validatedData.siteId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    const { key, keyPrefix, keyHash } = generateCarCountApiKey();
+
+    const apiKey = await prisma.carCountApiKey.create({
+      data: {
+        siteId: validatedData.siteId,
+        name: validatedData.name,
+        keyPrefix,
+        keyHash,
+        createdBy: session.user.id,
+      },
+      select: apiKeySelect,
+    });
+
+    return NextResponse.json({ ...apiKey, key }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating car count API key:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/car-counts/keys?keyId=xxx
+ *
+ * Revoke a controller API key
+ *
+ * WHY: Soft revoke (isActive = false) keeps the key's history visible
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const keyId = searchParams.get('keyId');
+
+    if (!keyId) {
+      return NextResponse.json(
+        { error: 'keyId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!KEY_MANAGER_ROLES.includes(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Insufficient permissions to manage API keys' },
+        { status: 403 }
+      );
+    }
+
+    const apiKey = await prisma.carCountApiKey.findUnique({
+      where: { id: keyId },
+    });
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key not found' },
+        { status: 404 }
+      );
+    }
+
+    const hasAccess = await verifySiteAccess(session, apiKey.siteId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    await prisma.carCountApiKey.update({
+      where: { id: keyId },
+      data: { isActive: false },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking car count API key:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
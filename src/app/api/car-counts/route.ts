@@ -0,0 +1,158 @@
+// ===========================================
+// FILE: src/app/api/car-counts/route.ts
+// PURPOSE: API endpoints for daily car count list/manual entry
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { verifySiteAccess } from '@/lib/sites';
+import { carCountEntrySchema, carCountQuerySchema } from '@/lib/validations';
+import { saveCarCountLog, toCountDate, CarCountError } from '@/lib/carCounts';
+import { z } from 'zod';
+
+/**
+ * GET /api/car-counts
+ *
+ * Fetch daily car counts for a site
+ *
+ * WHY: Operators review and correct the counts that drive cost per car.
+ *
+ * QUERY PARAMS:
+ * - siteId: Site to list (required)
+ * - startDate: First day (default 30 days ago)
+ * - endDate: Last day (default today)
+ *
+ * RETURNS: Array of CarCountLog records with package counts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validatedQuery = carCountQuerySchema.parse({
+      siteId: searchParams.get('siteId') || '',
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+    });
+
+    // Verify access to site
+    const hasAccess = await verifySiteAccess(session, validatedQuery.siteId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    // Build date range
+    const endDate = toCountDate(validatedQuery.endDate ?? new Date());
+    const startDate = validatedQuery.startDate
+      ? toCountDate(validatedQuery.startDate)
+      : new Date(endDate.getTime() - 30 * 24 * 60 * 60 * 1000); // Default 30 days
+
+    const carCounts = await prisma.carCountLog.findMany({
+      where: {
+        siteId: validatedQuery.siteId,
+        logDate: { gte: startDate, lte: endDate },
+      },
+      include: {
+        packageCounts: {
+          include: {
+            washPackage: { select: { id: true, name: true } },
+          },
+        },
+        enteredByUser: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+      },
+      orderBy: { logDate: 'desc' },
+    });
+
+    return NextResponse.json(carCounts);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching car counts:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/car-counts
+ *
+ * Record a site's car count for a day (manual entry)
+ *
+ * WHY: Sites without a connected tunnel controller enter counts by hand.
+ *
+ * BUSINESS LOGIC:
+ * - Re-entering a day replaces that day's counts
+ * - Any user with access to the site may enter counts
+ *
+ * BODY: CarCountEntryInput
+ * RETURNS: Saved CarCountLog with package counts
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = carCountEntrySchema.parse(body);
+
+    // Verify access to site
+    const hasAccess = await verifySiteAccess(session, validatedData.siteId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    const carCount = await prisma.$transaction((tx: PrismaTransactionClient) =>
+      saveCarCountLog(tx, {
+        siteId: validatedData.siteId,
+        logDate: validatedData.logDate,
+        totalCars: validatedData.totalCars,
+        packageCounts: validatedData.packageCounts,
+        source: 'MANUAL',
+        enteredBy: session.user.id,
+      })
+    );
+
+    return NextResponse.json(carCount, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof CarCountError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error saving car count:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
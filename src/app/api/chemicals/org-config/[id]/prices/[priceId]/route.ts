@@ -0,0 +1,90 @@
+// ===========================================
+// FILE: src/app/api/chemicals/org-config/[id]/prices/[priceId]/route.ts
+// PURPOSE: API endpoint for cancelling a scheduled price change
+// PRD REFERENCE: PRD Section 3.2 - Organization Chemical Configuration
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getSiteToday } from '@/lib/timezone';
+
+interface RouteContext {
+  params: Promise<{ id: string; priceId: string }>;
+}
+
+/**
+ * DELETE /api/chemicals/org-config/[id]/prices/[priceId]
+ *
+ * Cancel a scheduled price change
+ *
+ * BUSINESS LOGIC:
+ * - Only changes that haven't taken effect can be cancelled; once in
+ *   effect they are history that reports depend on
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN (own clients only)
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id, priceId } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only distributor admins set pricing
+    if (session.user.role !== 'DISTRIBUTOR_ADMIN') {
+      return NextResponse.json(
+        { error: 'Forbidden: Only distributor admins can change pricing' },
+        { status: 403 }
+      );
+    }
+
+    const price = await prisma.chemicalPrice.findFirst({
+      where: { id: priceId, chemicalOrgConfigId: id },
+      select: {
+        id: true,
+        effectiveDate: true,
+        chemicalOrgConfig: {
+          select: {
+            organization: { select: { distributorId: true, timezone: true } },
+          },
+        },
+      },
+    });
+
+    if (!price) {
+      return NextResponse.json(
+        { error: 'Price change not found' },
+        { status: 404 }
+      );
+    }
+
+    const { organization } = price.chemicalOrgConfig;
+    if (organization.distributorId !== session.user.distributorId) {
+      return NextResponse.json(
+        { error: 'Forbidden: Organization not serviced by your distributor' },
+        { status: 403 }
+      );
+    }
+
+    if (price.effectiveDate <= getSiteToday(organization.timezone)) {
+      return NextResponse.json(
+        { error: 'This price change is already in effect and cannot be cancelled' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.chemicalPrice.delete({ where: { id: price.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling price change:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
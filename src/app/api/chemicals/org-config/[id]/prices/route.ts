@@ -0,0 +1,252 @@
+// ===========================================
+// FILE: src/app/api/chemicals/org-config/[id]/prices/route.ts
+// PURPOSE: API endpoints for an org chemical's price history and scheduled changes
+// PRD REFERENCE: PRD Section 3.2 - Organization Chemical Configuration
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { chemicalPriceSchema } from '@/lib/validations';
+import { getPriceBook, getPriceOn, sendPriceChangeEmail } from '@/lib/prices';
+import { getSiteToday } from '@/lib/timezone';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/chemicals/org-config/[id]/prices
+ *
+ * Price history for an org chemical
+ *
+ * ACCESS:
+ * - DISTRIBUTOR_ADMIN, DISTRIBUTOR_USER: own clients
+ * - Organization users: own organization
+ *
+ * RETURNS: Opening price, current price and every change (scheduled ones flagged)
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const config = await prisma.chemicalOrgConfig.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        organizationId: true,
+        organization: { select: { distributorId: true, timezone: true } },
+        chemicalMaster: { select: { name: true } },
+        prices: {
+          include: {
+            creator: { select: { id: true, firstName: true, lastName: true } },
+          },
+          orderBy: { effectiveDate: 'desc' },
+        },
+      },
+    });
+
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Chemical configuration not found' },
+        { status: 404 }
+      );
+    }
+
+    const { role } = session.user;
+    const hasAccess =
+      role === 'DISTRIBUTOR_ADMIN' || role === 'DISTRIBUTOR_USER'
+        ? config.organization.distributorId === session.user.distributorId
+        : config.organizationId === session.user.organizationId;
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const today = getSiteToday(config.organization.timezone);
+    const schedule = (await getPriceBook(prisma, [config.id])).get(config.id)!;
+
+    return NextResponse.json({
+      chemicalOrgConfigId: config.id,
+      chemicalName: config.chemicalMaster.name,
+      openingPrice: schedule.opening,
+      currentPrice: getPriceOn(schedule, today),
+      changes: config.prices.map((price: typeof config.prices[number]) => ({
+        id: price.id,
+        effectiveDate: price.effectiveDate,
+        costPerContainer: Number(price.costPerContainer),
+        costPerGallon: Number(price.costPerGallon),
+        note: price.note,
+        isScheduled: price.effectiveDate > today,
+        clientNotifiedAt: price.clientNotifiedAt,
+        createdAt: price.createdAt,
+        creator: price.creator,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching price history:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/chemicals/org-config/[id]/prices
+ *
+ * Schedule a price change for an org chemical
+ *
+ * WHY: Editing the price in place would revalue every past visit. A dated
+ * change leaves usage before the effective date at the old price.
+ *
+ * BUSINESS LOGIC:
+ * - Effective date must be today or later in the client's time zone
+ * - One change per chemical per effective date
+ * - notifyClient emails the client; a failed email doesn't undo the change
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN (own clients only)
+ *
+ * BODY: ChemicalPriceInput
+ * RETURNS: Created price change
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Only distributor admins set pricing
+    if (session.user.role !== 'DISTRIBUTOR_ADMIN') {
+      return NextResponse.json(
+        { error: 'Forbidden: Only distributor admins can change pricing' },
+        { status: 403 }
+      );
+    }
+
+    const config = await prisma.chemicalOrgConfig.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        organizationId: true,
+        organization: {
+          select: {
+            distributorId: true,
+            timezone: true,
+            distributor: { select: { companyName: true } },
+          },
+        },
+        chemicalMaster: { select: { name: true } },
+      },
+    });
+
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Chemical configuration not found' },
+        { status: 404 }
+      );
+    }
+
+    if (config.organization.distributorId !== session.user.distributorId) {
+      return NextResponse.json(
+        { error: 'Forbidden: Organization not serviced by your distributor' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = chemicalPriceSchema.parse(body);
+
+    const effectiveDate = new Date(validatedData.effectiveDate);
+    if (effectiveDate < getSiteToday(config.organization.timezone)) {
+      return NextResponse.json(
+        { error: 'Price changes cannot be backdated' },
+        { status: 400 }
+      );
+    }
+
+    const price = await prisma.chemicalPrice.create({
+      data: {
+        chemicalOrgConfigId: config.id,
+        effectiveDate,
+        costPerContainer: validatedData.costPerContainer,
+        costPerGallon: validatedData.costPerGallon,
+        note: validatedData.note || null,
+        createdBy: session.user.id,
+      },
+    });
+
+    let clientNotifiedAt: Date | null = null;
+    if (validatedData.notifyClient) {
+      try {
+        const schedule = (await getPriceBook(prisma, [config.id])).get(config.id)!;
+        const recipients = await sendPriceChangeEmail(prisma, {
+          organizationId: config.organizationId,
+          distributorName: config.organization.distributor?.companyName ?? 'Your distributor',
+          chemicalName: config.chemicalMaster.name,
+          effectiveDate,
+          previous: getPriceOn(schedule, new Date(effectiveDate.getTime() - 1)),
+          next: {
+            costPerContainer: validatedData.costPerContainer,
+            costPerGallon: validatedData.costPerGallon,
+          },
+          note: validatedData.note,
+        });
+
+        if (recipients > 0) {
+          clientNotifiedAt = new Date();
+          await prisma.chemicalPrice.update({
+            where: { id: price.id },
+            data: { clientNotifiedAt },
+          });
+        }
+      } catch (error) {
+        console.error('Error sending price change email:', error);
+      }
+    }
+
+    return NextResponse.json(
+      {
+        ...price,
+        costPerContainer: Number(price.costPerContainer),
+        costPerGallon: Number(price.costPerGallon),
+        clientNotifiedAt,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    // Handle unique constraint violation
+    if ((error as any).code === 'P2002') {
+      return NextResponse.json(
+        { error: 'A price change already exists for this chemical on that date' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error creating price change:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,158 @@
+// ===========================================
+// FILE: src/app/api/chemicals/org-config/[id]/route.ts
+// PURPOSE: API endpoint to change an org chemical's containers
+// PRD REFERENCE: PRD Section 3.2 - Organization Chemical Configuration
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { orgConfigContainerSchema } from '@/lib/validations';
+import { refreshProposedOrdersSafely } from '@/lib/replenishment';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/chemicals/org-config/[id]
+ *
+ * Change an org chemical's primary, custom or backstock container
+ *
+ * WHY: Clients replace tanks. Pointing the chemical at a custom container
+ * makes inch readings use that container's calibration chart.
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN (own clients only)
+ *
+ * BUSINESS LOGIC:
+ * - A custom container needs the HOLDING_TANK_CUSTOM primary container,
+ *   and must be one of the distributor's active containers
+ * - Its capacity becomes primaryContainerSizeGallons
+ * - Switching the primary container away from HOLDING_TANK_CUSTOM
+ *   unlinks the custom container
+ * - Proposed orders for the client's sites are refreshed (container sizes
+ *   change order quantities)
+ *
+ * BODY: OrgConfigContainerInput
+ * RETURNS: Updated ChemicalOrgConfig with its custom container
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'DISTRIBUTOR_ADMIN') {
+      return NextResponse.json(
+        { error: 'Forbidden: Only distributor admins can change chemical containers' },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.chemicalOrgConfig.findUnique({
+      where: { id },
+      include: { organization: { select: { distributorId: true } } },
+    });
+
+    if (!existing || existing.organization.distributorId !== session.user.distributorId) {
+      return NextResponse.json(
+        { error: 'Chemical configuration not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = orgConfigContainerSchema.parse(body);
+
+    const primaryContainer = validatedData.primaryContainer ?? existing.primaryContainer;
+    let customContainerId =
+      validatedData.customContainerId !== undefined
+        ? validatedData.customContainerId
+        : existing.customContainerId;
+    let primaryContainerSizeGallons =
+      validatedData.primaryContainerSizeGallons !== undefined
+        ? validatedData.primaryContainerSizeGallons
+        : existing.primaryContainerSizeGallons === null
+          ? null
+          : Number(existing.primaryContainerSizeGallons);
+
+    if (primaryContainer !== 'HOLDING_TANK_CUSTOM') {
+      if (validatedData.customContainerId) {
+        return NextResponse.json(
+          { error: 'Custom containers require the HOLDING_TANK_CUSTOM primary container' },
+          { status: 400 }
+        );
+      }
+      if (customContainerId && validatedData.primaryContainerSizeGallons === undefined) {
+        primaryContainerSizeGallons = null; // The custom container's capacity no longer applies
+      }
+      customContainerId = null;
+    }
+
+    /**
+     * Verify the custom container
+     * WHY: Only the distributor's own active containers can be picked
+     * (a container already linked stays usable after deactivation)
+     */
+    if (customContainerId) {
+      const customContainer = await prisma.customContainer.findUnique({
+        where: { id: customContainerId },
+      });
+
+      if (
+        !customContainer ||
+        customContainer.distributorId !== session.user.distributorId ||
+        (!customContainer.isActive && customContainerId !== existing.customContainerId)
+      ) {
+        return NextResponse.json(
+          { error: 'Custom container not found' },
+          { status: 404 }
+        );
+      }
+
+      primaryContainerSizeGallons = Number(customContainer.capacityGallons);
+    }
+
+    const orgConfig = await prisma.chemicalOrgConfig.update({
+      where: { id },
+      data: {
+        primaryContainer,
+        primaryContainerSizeGallons,
+        customContainerId,
+        ...(validatedData.backstockContainer !== undefined && {
+          backstockContainer: validatedData.backstockContainer,
+        }),
+      },
+      include: {
+        chemicalMaster: true,
+        customContainer: { select: { id: true, name: true } },
+      },
+    });
+
+    const sites = await prisma.site.findMany({
+      where: { organizationId: existing.organizationId },
+      select: { id: true },
+    });
+    await refreshProposedOrdersSafely(sites.map((site: { id: string }) => site.id));
+
+    return NextResponse.json(orgConfig);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating org config containers:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
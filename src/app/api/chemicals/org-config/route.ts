@@ -7,6 +7,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { getPriceBook, getPriceOn } from '@/lib/prices';
+import { getSiteToday } from '@/lib/timezone';
 import { z } from 'zod';
 
 /**
@@ -28,16 +30,25 @@ const containerTypeValues = [
 /**
  * Validation schema for chemical org config
  * PRD REFERENCE: Technical Spec - ChemicalOrgConfig schema
+ *
+ * NOTE: A custom container is only valid as a HOLDING_TANK_CUSTOM primary
+ * container; its capacity replaces primaryContainerSizeGallons
  */
-const chemicalOrgConfigSchema = z.object({
-  chemicalMasterId: z.string(),
-  organizationId: z.string(),
-  primaryContainer: z.enum(containerTypeValues),
-  primaryContainerSizeGallons: z.number().min(0).optional(),
-  backstockContainer: z.enum(containerTypeValues),
-  costPerContainer: z.number().min(0, 'Cost must be positive'),
-  costPerGallon: z.number().min(0, 'Cost must be positive'),
-});
+const chemicalOrgConfigSchema = z
+  .object({
+    chemicalMasterId: z.string(),
+    organizationId: z.string(),
+    primaryContainer: z.enum(containerTypeValues),
+    primaryContainerSizeGallons: z.number().min(0).optional(),
+    customContainerId: z.string().uuid('Invalid custom container ID').optional().nullable(),
+    backstockContainer: z.enum(containerTypeValues),
+    costPerContainer: z.number().min(0, 'Cost must be positive'),
+    costPerGallon: z.number().min(0, 'Cost must be positive'),
+  })
+  .refine((data) => !data.customContainerId || data.primaryContainer === 'HOLDING_TANK_CUSTOM', {
+    message: 'Custom containers require the HOLDING_TANK_CUSTOM primary container',
+    path: ['customContainerId'],
+  });
 
 /**
  * GET /api/chemicals/org-config
@@ -50,7 +61,8 @@ const chemicalOrgConfigSchema = z.object({
  * QUERY PARAMS:
  * - organizationId: Required
  *
- * RETURNS: Array of ChemicalOrgConfig records with chemical master details
+ * RETURNS: Array of ChemicalOrgConfig records with chemical master details,
+ * the price in effect today and the next scheduled price change (if any)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -88,7 +100,8 @@ export async function GET(request: NextRequest) {
       where: { organizationId },
       include: {
         chemicalMaster: true,
-        organization: { select: { id: true, name: true } },
+        organization: { select: { id: true, name: true, timezone: true } },
+        customContainer: { select: { id: true, name: true } },
       },
       orderBy: [
         { chemicalMaster: { type: 'asc' } },
@@ -96,7 +109,24 @@ export async function GET(request: NextRequest) {
       ],
     });
 
-    return NextResponse.json(orgConfigs);
+    // costPerContainer/costPerGallon on the config are the opening price;
+    // resolve what's in effect today from the price history
+    const priceBook = await getPriceBook(
+      prisma,
+      orgConfigs.map((config: typeof orgConfigs[number]) => config.id)
+    );
+
+    return NextResponse.json(
+      orgConfigs.map((config: typeof orgConfigs[number]) => {
+        const schedule = priceBook.get(config.id)!;
+        const today = getSiteToday(config.organization.timezone);
+        return {
+          ...config,
+          currentPrice: getPriceOn(schedule, today),
+          nextPriceChange: schedule.changes.find((change) => change.effectiveDate > today) ?? null,
+        };
+      })
+    );
   } catch (error) {
     console.error('Error fetching org configs:', error);
     return NextResponse.json(
@@ -196,9 +226,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    /**
+     * Verify the custom container
+     * WHY: Only the distributor's own active containers can be picked
+     */
+    let primaryContainerSizeGallons = validatedData.primaryContainerSizeGallons;
+    if (validatedData.customContainerId) {
+      const customContainer = await prisma.customContainer.findUnique({
+        where: { id: validatedData.customContainerId },
+      });
+
+      if (
+        !customContainer ||
+        customContainer.distributorId !== session.user.distributorId ||
+        !customContainer.isActive
+      ) {
+        return NextResponse.json(
+          { error: 'Custom container not found' },
+          { status: 404 }
+        );
+      }
+
+      primaryContainerSizeGallons = Number(customContainer.capacityGallons);
+    }
+
     // Create org config
     const orgConfig = await prisma.chemicalOrgConfig.create({
-      data: validatedData,
+      data: { ...validatedData, primaryContainerSizeGallons },
       include: {
         chemicalMaster: true,
         organization: { select: { id: true, name: true } },
@@ -0,0 +1,113 @@
+// ===========================================
+// FILE: src/app/api/containers/[id]/chart/route.ts
+// PURPOSE: API endpoint to calibrate a custom container
+// PRD REFERENCE: Implementation Guide - Section "Inch-to-Gallon Interpolation"
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { getCustomContainerPoints } from '@/lib/conversions';
+import { generateCalibrationChart } from '@/lib/containers';
+import { calibrationChartSchema } from '@/lib/validations';
+import type { ContainerShape } from '@/types';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PUT /api/containers/[id]/chart
+ *
+ * Replace a custom container's inch-to-gallon chart
+ *
+ * WHY: Inch readings on a custom container are converted with this chart,
+ * using the same interpolation as the standard container charts
+ *
+ * PERMISSIONS:
+ * - DISTRIBUTOR_ADMIN of the container's distributor
+ *
+ * BUSINESS LOGIC:
+ * - POINTS: Store the measured inch/gallon pairs
+ * - DIMENSIONS: Generate the chart from the stored dimensions
+ *   (cylinders and boxes only)
+ * - Existing readings keep the gallons they were saved with
+ *
+ * BODY: CalibrationChartInput
+ * RETURNS: { points } - the new chart (with the implicit 0" point)
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'DISTRIBUTOR_ADMIN') {
+      return NextResponse.json(
+        { error: 'Forbidden: Only distributor admins can calibrate custom containers' },
+        { status: 403 }
+      );
+    }
+
+    const container = await prisma.customContainer.findUnique({ where: { id } });
+    if (!container || container.distributorId !== session.user.distributorId) {
+      return NextResponse.json({ error: 'Custom container not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const validatedData = calibrationChartSchema.parse(body);
+
+    const chart =
+      validatedData.method === 'POINTS'
+        ? validatedData.points
+        : generateCalibrationChart(
+            {
+              shape: container.shape as ContainerShape,
+              heightInches: container.heightInches === null ? null : Number(container.heightInches),
+              diameterInches: container.diameterInches === null ? null : Number(container.diameterInches),
+              lengthInches: container.lengthInches === null ? null : Number(container.lengthInches),
+              widthInches: container.widthInches === null ? null : Number(container.widthInches),
+            },
+            validatedData.stepInches
+          );
+
+    if (chart.length === 0) {
+      return NextResponse.json(
+        { error: 'Only cylinder and rectangular containers can generate a chart. Enter readings instead.' },
+        { status: 400 }
+      );
+    }
+
+    const points = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      await tx.customContainerConversion.deleteMany({ where: { customContainerId: id } });
+      await tx.customContainerConversion.createMany({
+        data: chart.map((point) => ({
+          customContainerId: id,
+          inches: point.inches,
+          gallons: point.gallons,
+        })),
+      });
+
+      return getCustomContainerPoints(tx, id);
+    });
+
+    return NextResponse.json({ points });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error calibrating custom container:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
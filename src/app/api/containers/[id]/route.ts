@@ -0,0 +1,256 @@
+// ===========================================
+// FILE: src/app/api/containers/[id]/route.ts
+// PURPOSE: API endpoints to view, edit or delete a custom container
+// PRD REFERENCE: Implementation Guide - Section "Inch-to-Gallon Interpolation"
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { getCustomContainerPoints } from '@/lib/conversions';
+import { resolveCustomContainerSize } from '@/lib/containers';
+import { customContainerSchema, updateCustomContainerSchema } from '@/lib/validations';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Load a custom container from the user's distributor
+ *
+ * ACCESS:
+ * - DISTRIBUTOR_ADMIN / DISTRIBUTOR_USER: their own distributor's containers
+ */
+async function getAccessibleContainer(
+  user: { role: string; distributorId?: string | null },
+  id: string
+) {
+  if (
+    (user.role !== 'DISTRIBUTOR_ADMIN' && user.role !== 'DISTRIBUTOR_USER') ||
+    !user.distributorId
+  ) {
+    return { error: 'Forbidden: Only distributors can manage custom containers', status: 403 } as const;
+  }
+
+  const container = await prisma.customContainer.findUnique({
+    where: { id },
+    include: { _count: { select: { orgConfigs: true } } },
+  });
+
+  if (!container || container.distributorId !== user.distributorId) {
+    return { error: 'Custom container not found', status: 404 } as const;
+  }
+
+  return { container } as const;
+}
+
+/**
+ * GET /api/containers/[id]
+ *
+ * Fetch a custom container with its calibration chart
+ *
+ * PERMISSIONS:
+ * - DISTRIBUTOR_ADMIN / DISTRIBUTOR_USER of the container's distributor
+ *
+ * RETURNS: Custom container, chart points (with the implicit 0" point)
+ * and the org chemicals using it as their primary container
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const access = await getAccessibleContainer(session.user, id);
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const [points, orgConfigs] = await Promise.all([
+      getCustomContainerPoints(prisma, id),
+      prisma.chemicalOrgConfig.findMany({
+        where: { customContainerId: id },
+        select: {
+          id: true,
+          chemicalMaster: { select: { name: true } },
+          organization: { select: { id: true, name: true } },
+        },
+        orderBy: [{ organization: { name: 'asc' } }, { chemicalMaster: { name: 'asc' } }],
+      }),
+    ]);
+
+    return NextResponse.json({ ...access.container, points, orgConfigs });
+  } catch (error) {
+    console.error('Error fetching custom container:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/containers/[id]
+ *
+ * Edit a custom container
+ *
+ * PERMISSIONS:
+ * - DISTRIBUTOR_ADMIN of the container's distributor
+ *
+ * BUSINESS LOGIC:
+ * - Changes are merged with the stored container and re-checked
+ * - A new capacity is copied to the org chemicals using the container
+ *   (their primaryContainerSizeGallons drives tank fill and alerts)
+ * - The chart is left alone; regenerate or re-enter it after changing
+ *   dimensions
+ * - Inactive containers stay on existing configs but can't be picked again
+ *
+ * BODY: UpdateCustomContainerInput
+ * RETURNS: Updated custom container
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'DISTRIBUTOR_ADMIN') {
+      return NextResponse.json(
+        { error: 'Forbidden: Only distributor admins can edit custom containers' },
+        { status: 403 }
+      );
+    }
+
+    const access = await getAccessibleContainer(session.user, id);
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const body = await request.json();
+    const validatedData = updateCustomContainerSchema.parse(body);
+
+    const existing = access.container;
+    const toNumber = (value: unknown) => (value === null ? null : Number(value));
+    const merged = customContainerSchema.parse({
+      name: existing.name,
+      shape: existing.shape,
+      capacityGallons: Number(existing.capacityGallons),
+      heightInches: toNumber(existing.heightInches),
+      diameterInches: toNumber(existing.diameterInches),
+      lengthInches: toNumber(existing.lengthInches),
+      widthInches: toNumber(existing.widthInches),
+      notes: existing.notes,
+      isActive: existing.isActive,
+      ...validatedData,
+    });
+    const size = resolveCustomContainerSize(merged);
+
+    const container = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      const updated = await tx.customContainer.update({
+        where: { id },
+        data: {
+          name: merged.name,
+          shape: merged.shape,
+          ...size,
+          notes: merged.notes,
+          isActive: merged.isActive,
+        },
+      });
+
+      if (size.capacityGallons !== Number(existing.capacityGallons)) {
+        await tx.chemicalOrgConfig.updateMany({
+          where: { customContainerId: id },
+          data: { primaryContainerSizeGallons: size.capacityGallons },
+        });
+      }
+
+      return updated;
+    });
+
+    return NextResponse.json(container);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if ((error as any).code === 'P2002') {
+      return NextResponse.json(
+        { error: 'A custom container with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error updating custom container:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/containers/[id]
+ *
+ * Delete a custom container and its chart
+ *
+ * PERMISSIONS:
+ * - DISTRIBUTOR_ADMIN of the container's distributor
+ *
+ * BUSINESS LOGIC:
+ * - Containers in use by an org chemical can't be deleted (their inch
+ *   readings would lose their chart); deactivate them instead
+ *
+ * RETURNS: { success: true }
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'DISTRIBUTOR_ADMIN') {
+      return NextResponse.json(
+        { error: 'Forbidden: Only distributor admins can delete custom containers' },
+        { status: 403 }
+      );
+    }
+
+    const access = await getAccessibleContainer(session.user, id);
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const inUse = access.container._count.orgConfigs;
+    if (inUse > 0) {
+      return NextResponse.json(
+        {
+          error: `Container is used by ${inUse} chemical configuration${inUse === 1 ? '' : 's'}. Deactivate it instead.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    await prisma.customContainer.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting custom container:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+// ===========================================
+// FILE: src/app/api/containers/route.ts
+// PURPOSE: API endpoints for a distributor's custom container library
+// PRD REFERENCE: Implementation Guide - Section "Inch-to-Gallon Interpolation"
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { generateCalibrationChart, resolveCustomContainerSize } from '@/lib/containers';
+import { customContainerSchema } from '@/lib/validations';
+import { z } from 'zod';
+
+/**
+ * GET /api/containers
+ *
+ * List the distributor's custom containers
+ *
+ * WHY: Distributors install tanks the standard container types don't
+ * cover (35 gal cones, IBC totes). The library holds their sizes and
+ * calibration charts.
+ *
+ * PERMISSIONS:
+ * - DISTRIBUTOR_ADMIN / DISTRIBUTOR_USER
+ *
+ * RETURNS: Custom containers by name, with chart point and org config counts
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { role, distributorId } = session.user;
+    if ((role !== 'DISTRIBUTOR_ADMIN' && role !== 'DISTRIBUTOR_USER') || !distributorId) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only distributors can view custom containers' },
+        { status: 403 }
+      );
+    }
+
+    const containers = await prisma.customContainer.findMany({
+      where: { distributorId },
+      include: {
+        _count: { select: { conversions: true, orgConfigs: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json(containers);
+  } catch (error) {
+    console.error('Error fetching custom containers:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/containers
+ *
+ * Create a custom container
+ *
+ * PERMISSIONS:
+ * - DISTRIBUTOR_ADMIN
+ *
+ * BUSINESS LOGIC:
+ * - Cylinders and boxes get their capacity and a 1" chart from their
+ *   dimensions, so they can be measured in inches right away
+ * - Irregular containers need a chart entered before inch readings work
+ *
+ * BODY: CustomContainerInput
+ * RETURNS: Created custom container
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role !== 'DISTRIBUTOR_ADMIN' || !session.user.distributorId) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only distributor admins can create custom containers' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = customContainerSchema.parse(body);
+    const chart = generateCalibrationChart(validatedData);
+
+    const container = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      const created = await tx.customContainer.create({
+        data: {
+          distributorId: session.user.distributorId!,
+          name: validatedData.name,
+          shape: validatedData.shape,
+          ...resolveCustomContainerSize(validatedData),
+          notes: validatedData.notes,
+          isActive: validatedData.isActive,
+          createdBy: session.user.id,
+        },
+      });
+
+      if (chart.length > 0) {
+        await tx.customContainerConversion.createMany({
+          data: chart.map((point) => ({ customContainerId: created.id, ...point })),
+        });
+      }
+
+      return created;
+    });
+
+    return NextResponse.json(container, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if ((error as any).code === 'P2002') {
+      return NextResponse.json(
+        { error: 'A custom container with this name already exists' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error creating custom container:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+// ===========================================
+// FILE: src/app/api/conversions/route.ts
+// PURPOSE: API endpoint for inch-to-gallon conversion charts
+// PRD REFERENCE: Implementation Guide - Section "Inch-to-Gallon Interpolation"
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { verifySiteAccess } from '@/lib/sites';
+import { conversionQuerySchema } from '@/lib/validations';
+import {
+  getConversionPoints,
+  getPrimaryContainerChart,
+  convertInches,
+  InchConversionError,
+} from '@/lib/conversions';
+import type { ContainerType, ConversionPoint } from '@/types';
+import { z } from 'zod';
+
+/**
+ * Conversion chart response
+ */
+interface ConversionResponse {
+  containerType: ContainerType | undefined;
+  customContainer: { id: string; name: string } | null;
+  hasChart: boolean;
+  minInches: number | null;
+  maxInches: number | null;
+  points: ConversionPoint[];
+  inches?: number;
+  gallons?: number;
+}
+
+/**
+ * GET /api/conversions
+ *
+ * Fetch the inch-to-gallon chart for a container (optionally converting a reading)
+ *
+ * WHY: Technicians enter tank levels in inches. The entry form loads the
+ * chart once and interpolates as the tech types, so they see gallons live.
+ *
+ * QUERY PARAMS:
+ * - containerType: Container chart to return
+ * - chemicalSiteConfigId: Resolve container from the chemical's primaryContainer
+ *   (using its custom container's calibration if it has one)
+ * - inches: Optional reading to convert server-side
+ *
+ * ACCESS: Charts by containerType are shared; charts by chemical require
+ * access to the chemical's site (same rules as visits)
+ *
+ * RETURNS: Container type, custom container, chart range, conversion points
+ * and optional gallons
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validatedQuery = conversionQuerySchema.parse({
+      containerType: searchParams.get('containerType') || undefined,
+      chemicalSiteConfigId: searchParams.get('chemicalSiteConfigId') || undefined,
+      inches: searchParams.get('inches') || undefined,
+    });
+
+    /**
+     * Resolve the chart
+     * WHY: The primary container is configured per organization, so the
+     * form can ask by chemical without knowing the container itself
+     */
+    let containerType = validatedQuery.containerType as ContainerType | undefined;
+    let containerName: string;
+    let customContainer: { id: string; name: string } | null = null;
+    let points: ConversionPoint[];
+
+    if (containerType) {
+      containerName = containerType;
+      points = await getConversionPoints(prisma, containerType);
+    } else {
+      const siteConfig = await prisma.chemicalSiteConfig.findUnique({
+        where: { id: validatedQuery.chemicalSiteConfigId },
+        select: {
+          site: {
+            select: {
+              id: true,
+              organizationId: true,
+              organization: { select: { distributorId: true } },
+            },
+          },
+          chemicalOrgConfig: {
+            select: {
+              primaryContainer: true,
+              customContainer: { select: { id: true, name: true } },
+            },
+          },
+        },
+      });
+
+      if (!siteConfig) {
+        return NextResponse.json(
+          { error: 'Chemical configuration not found' },
+          { status: 404 }
+        );
+      }
+
+      const hasAccess = await verifySiteAccess(session, siteConfig.site);
+      if (!hasAccess) {
+        return NextResponse.json(
+          { error: 'Forbidden: No access to this site' },
+          { status: 403 }
+        );
+      }
+
+      const orgConfig = siteConfig.chemicalOrgConfig;
+      containerType = orgConfig.primaryContainer as ContainerType;
+      customContainer = orgConfig.customContainer;
+      ({ containerName, points } = await getPrimaryContainerChart(prisma, orgConfig));
+    }
+
+    const response: ConversionResponse = {
+      containerType,
+      customContainer,
+      hasChart: points.length > 0,
+      minInches: points.length > 0 ? points[0].inches : null,
+      maxInches: points.length > 0 ? points[points.length - 1].inches : null,
+      points,
+    };
+
+    if (validatedQuery.inches !== undefined) {
+      response.inches = validatedQuery.inches;
+      response.gallons = convertInches(points, validatedQuery.inches, containerName);
+    }
+
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof InchConversionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error fetching conversions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
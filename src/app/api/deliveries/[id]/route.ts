@@ -0,0 +1,216 @@
+// ===========================================
+// FILE: src/app/api/deliveries/[id]/route.ts
+// PURPOSE: API endpoints to correct or remove a standalone delivery
+// PRD REFERENCE: PRD Section 6.2 - Chemical Entries, PRD Section 7.6 - Inventory Alerts
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { verifySiteAccess } from '@/lib/sites';
+import { recalculateChemicalUsage } from '@/lib/usage';
+import { refreshProposedOrdersSafely } from '@/lib/replenishment';
+import { getSiteToday, resolveSiteTimeZone } from '@/lib/timezone';
+import { updateChemicalDeliverySchema } from '@/lib/validations';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Load a delivery the user can change
+ *
+ * ACCESS:
+ * - The user who recorded it, or DISTRIBUTOR_ADMIN / ORG_ADMIN
+ * - And access to the delivery's site
+ */
+async function getEditableDelivery(session: any, id: string) {
+  const delivery = await prisma.chemicalDelivery.findUnique({
+    where: { id },
+    include: {
+      site: {
+        select: {
+          id: true,
+          timezone: true,
+          organizationId: true,
+          organization: { select: { timezone: true, distributorId: true } },
+        },
+      },
+    },
+  });
+
+  if (!delivery || !(await verifySiteAccess(session, delivery.siteId))) {
+    return { error: 'Delivery not found', status: 404 } as const;
+  }
+
+  const canEdit =
+    session.user.id === delivery.recordedBy ||
+    session.user.role === 'DISTRIBUTOR_ADMIN' ||
+    session.user.role === 'ORG_ADMIN';
+
+  if (!canEdit) {
+    return {
+      error: 'Forbidden: Only the user who recorded the delivery or admins can change it',
+      status: 403,
+    } as const;
+  }
+
+  return { delivery } as const;
+}
+
+/**
+ * PATCH /api/deliveries/[id]
+ *
+ * Correct a standalone delivery
+ *
+ * BUSINESS LOGIC:
+ * - Same date and deliverer rules as recording one
+ * - Usage for the chemical is recalculated and proposed orders refreshed
+ *
+ * BODY: UpdateChemicalDeliveryInput
+ * RETURNS: Updated ChemicalDelivery
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await getEditableDelivery(session, id);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    const { delivery } = result;
+
+    const body = await request.json();
+    const validatedData = updateChemicalDeliverySchema.parse(body);
+
+    const deliveryDate = validatedData.deliveryDate
+      ? new Date(validatedData.deliveryDate)
+      : undefined;
+    if (deliveryDate && deliveryDate > getSiteToday(resolveSiteTimeZone(delivery.site))) {
+      return NextResponse.json(
+        { error: 'Deliveries cannot be dated in the future' },
+        { status: 400 }
+      );
+    }
+
+    if (validatedData.deliveredBy && !(await verifyDeliverer(delivery.site, validatedData.deliveredBy))) {
+      return NextResponse.json(
+        { error: 'Delivering user must belong to the site\'s distributor or organization' },
+        { status: 400 }
+      );
+    }
+
+    const updated = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      const saved = await tx.chemicalDelivery.update({
+        where: { id },
+        data: {
+          ...(deliveryDate && { deliveryDate }),
+          ...(validatedData.beforeVisit !== undefined && { beforeVisit: validatedData.beforeVisit }),
+          ...(validatedData.containerCount !== undefined && {
+            containerCount: validatedData.containerCount,
+          }),
+          ...(validatedData.gallons !== undefined && { gallons: validatedData.gallons }),
+          ...(validatedData.lotNumber !== undefined && { lotNumber: validatedData.lotNumber || null }),
+          ...(validatedData.invoiceNumber !== undefined && {
+            invoiceNumber: validatedData.invoiceNumber || null,
+          }),
+          ...(validatedData.notes !== undefined && { notes: validatedData.notes || null }),
+          ...(validatedData.deliveredBy !== undefined && { deliveredBy: validatedData.deliveredBy }),
+        },
+      });
+
+      await recalculateChemicalUsage(tx, delivery.chemicalSiteConfigId);
+
+      return saved;
+    });
+
+    await refreshProposedOrdersSafely([delivery.siteId]);
+
+    return NextResponse.json({ ...updated, gallons: Number(updated.gallons) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating delivery:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/deliveries/[id]
+ *
+ * Remove a standalone delivery recorded in error
+ *
+ * BUSINESS LOGIC:
+ * - Usage for the chemical is recalculated and proposed orders refreshed
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await getEditableDelivery(session, id);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    const { delivery } = result;
+
+    await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      await tx.chemicalDelivery.delete({ where: { id } });
+      await recalculateChemicalUsage(tx, delivery.chemicalSiteConfigId);
+    });
+
+    await refreshProposedOrdersSafely([delivery.siteId]);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting delivery:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Check that a delivering user belongs to the site's distributor or organization
+ */
+async function verifyDeliverer(
+  site: { organizationId: string; organization: { distributorId: string | null } },
+  userId: string
+): Promise<boolean> {
+  const user = await prisma.user.findFirst({
+    where: {
+      id: userId,
+      isActive: true,
+      OR: [
+        { organizationId: site.organizationId },
+        ...(site.organization.distributorId
+          ? [{ distributorId: site.organization.distributorId }]
+          : []),
+      ],
+    },
+    select: { id: true },
+  });
+
+  return !!user;
+}
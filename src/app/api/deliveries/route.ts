@@ -0,0 +1,246 @@
+// ===========================================
+// FILE: src/app/api/deliveries/route.ts
+// PURPOSE: API endpoints for a site's delivery history and standalone deliveries
+// PRD REFERENCE: PRD Section 6.2 - Chemical Entries, PRD Section 7.6 - Inventory Alerts
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { verifySiteAccess } from '@/lib/sites';
+import { getDeliveryHistory } from '@/lib/deliveries';
+import { recalculateChemicalUsage } from '@/lib/usage';
+import { linkDeliveredOrderLinesToDelivery, refreshProposedOrdersSafely } from '@/lib/replenishment';
+import { getSiteToday, resolveSiteTimeZone } from '@/lib/timezone';
+import { chemicalDeliverySchema, deliveryQuerySchema } from '@/lib/validations';
+import { z } from 'zod';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Default history window when no dates are given
+ */
+const DEFAULT_HISTORY_DAYS = 90;
+
+/**
+ * GET /api/deliveries
+ *
+ * List a site's deliveries, newest first
+ *
+ * QUERY PARAMS:
+ * - siteId: Site (required)
+ * - chemicalSiteConfigId: Limit to one chemical
+ * - lotNumber: Find deliveries of a lot
+ * - startDate/endDate: Delivery date range (default last 90 days)
+ *
+ * RETURNS: DeliveryRecord[] - standalone deliveries and deliveries
+ * recorded on visit chemical entries
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = deliveryQuerySchema.parse({
+      siteId: searchParams.get('siteId') || undefined,
+      chemicalSiteConfigId: searchParams.get('chemicalSiteConfigId') || undefined,
+      lotNumber: searchParams.get('lotNumber') || undefined,
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+    });
+
+    const hasAccess = await verifySiteAccess(session, query.siteId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    const endDate = query.endDate ? new Date(query.endDate) : new Date();
+    const startDate = query.startDate
+      ? new Date(query.startDate)
+      : new Date(endDate.getTime() - DEFAULT_HISTORY_DAYS * MS_PER_DAY);
+
+    const deliveries = await getDeliveryHistory(query.siteId, {
+      chemicalSiteConfigId: query.chemicalSiteConfigId,
+      lotNumber: query.lotNumber,
+      startDate,
+      endDate,
+    });
+
+    return NextResponse.json(deliveries);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching deliveries:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/deliveries
+ *
+ * Record a delivery made outside a visit's inventory count
+ *
+ * PERMISSIONS:
+ * - Any role with access to the site except SITE_USER
+ *
+ * BUSINESS LOGIC:
+ * - The site comes from the chemical's site config
+ * - Delivery dates can't be after today at the site
+ * - deliveredBy must belong to the site's distributor or organization
+ *   (defaults to the user recording it)
+ * - Usage for the chemical is recalculated, so the first visit count
+ *   after the delivery arrived includes it (see lib/deliveries)
+ * - Delivered replenishment order lines for the chemical are marked as
+ *   recorded (see lib/replenishment)
+ * - Proposed orders for the site are refreshed
+ *
+ * BODY: ChemicalDeliveryInput
+ * RETURNS: Created ChemicalDelivery
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.role === 'SITE_USER') {
+      return NextResponse.json(
+        { error: 'Forbidden: Insufficient permissions to record deliveries' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = chemicalDeliverySchema.parse(body);
+
+    const config = await prisma.chemicalSiteConfig.findUnique({
+      where: { id: validatedData.chemicalSiteConfigId },
+      select: {
+        id: true,
+        site: {
+          select: {
+            id: true,
+            timezone: true,
+            organizationId: true,
+            organization: { select: { timezone: true, distributorId: true } },
+          },
+        },
+      },
+    });
+
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Chemical configuration not found' },
+        { status: 404 }
+      );
+    }
+
+    const hasAccess = await verifySiteAccess(session, config.site.id);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to record deliveries for this site' },
+        { status: 403 }
+      );
+    }
+
+    const deliveryDate = new Date(validatedData.deliveryDate);
+    if (deliveryDate > getSiteToday(resolveSiteTimeZone(config.site))) {
+      return NextResponse.json(
+        { error: 'Deliveries cannot be dated in the future' },
+        { status: 400 }
+      );
+    }
+
+    const deliveredBy = validatedData.deliveredBy ?? session.user.id;
+    if (!(await verifyDeliverer(config.site, deliveredBy))) {
+      return NextResponse.json(
+        { error: 'Delivering user must belong to the site\'s distributor or organization' },
+        { status: 400 }
+      );
+    }
+
+    const delivery = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      const created = await tx.chemicalDelivery.create({
+        data: {
+          siteId: config.site.id,
+          chemicalSiteConfigId: config.id,
+          deliveryDate,
+          beforeVisit: validatedData.beforeVisit,
+          containerCount: validatedData.containerCount,
+          gallons: validatedData.gallons,
+          lotNumber: validatedData.lotNumber || null,
+          invoiceNumber: validatedData.invoiceNumber || null,
+          notes: validatedData.notes || null,
+          deliveredBy,
+          recordedBy: session.user.id,
+        },
+      });
+
+      await linkDeliveredOrderLinesToDelivery(tx, created);
+      await recalculateChemicalUsage(tx, config.id);
+
+      return created;
+    });
+
+    await refreshProposedOrdersSafely([config.site.id]);
+
+    return NextResponse.json(
+      { ...delivery, gallons: Number(delivery.gallons) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error recording delivery:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Check that a delivering user belongs to the site's distributor or organization
+ */
+async function verifyDeliverer(
+  site: { organizationId: string; organization: { distributorId: string | null } },
+  userId: string
+): Promise<boolean> {
+  const user = await prisma.user.findFirst({
+    where: {
+      id: userId,
+      isActive: true,
+      OR: [
+        { organizationId: site.organizationId },
+        ...(site.organization.distributorId
+          ? [{ distributorId: site.organization.distributorId }]
+          : []),
+      ],
+    },
+    select: { id: true },
+  });
+
+  return !!user;
+}
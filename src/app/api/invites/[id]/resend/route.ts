@@ -0,0 +1,103 @@
+// ===========================================
+// FILE: src/app/api/invites/[id]/resend/route.ts
+// PURPOSE: API endpoint for resending a team invite
+// PRD REFERENCE: PRD Section 3 - User Roles & Permissions
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  buildInviteUrl,
+  generateInviteToken,
+  getAssignableRoles,
+  getTeamName,
+  getTeamScope,
+  inviteSelect,
+  sendInviteEmail,
+} from '@/lib/team';
+import type { UserRole } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/invites/[id]/resend
+ *
+ * Resend a pending invite with a fresh link
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN, ORG_ADMIN of the inviting team
+ *
+ * BUSINESS LOGIC:
+ * - A new token is issued (the old link stops working)
+ * - The expiry is reset, so expired invites can be revived
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const teamScope = getTeamScope(session.user);
+    if (getAssignableRoles(session.user.role).length === 0 || !teamScope) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can manage invites' },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.userInvite.findFirst({
+      where: { id, ...teamScope },
+      select: { id: true, status: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Invite not found' }, { status: 404 });
+    }
+
+    if (existing.status !== 'PENDING') {
+      return NextResponse.json(
+        { error: 'Only pending invites can be resent' },
+        { status: 400 }
+      );
+    }
+
+    const { token, tokenHash, expiresAt } = generateInviteToken();
+
+    const invite = await prisma.userInvite.update({
+      where: { id },
+      data: { tokenHash, expiresAt },
+      select: inviteSelect,
+    });
+
+    try {
+      await sendInviteEmail({
+        email: invite.email,
+        role: invite.role as UserRole,
+        teamName: await getTeamName(teamScope),
+        inviterName: `${session.user.firstName} ${session.user.lastName}`,
+        inviteUrl: buildInviteUrl(request.nextUrl.origin, token),
+        expiresAt,
+      });
+    } catch (error) {
+      console.error('Error sending invite email:', error);
+      return NextResponse.json(
+        { error: 'Failed to send invite email' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({ ...invite, expired: false, emailSent: true });
+  } catch (error) {
+    console.error('Error resending invite:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+// ===========================================
+// FILE: src/app/api/invites/[id]/route.ts
+// PURPOSE: API endpoint for revoking a team invite
+// PRD REFERENCE: PRD Section 3 - User Roles & Permissions
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getAssignableRoles, getTeamScope } from '@/lib/team';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/invites/[id]
+ *
+ * Revoke a pending invite
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN, ORG_ADMIN of the inviting team
+ *
+ * BUSINESS LOGIC:
+ * - The invite link stops working immediately
+ * - The record is kept (status REVOKED) for history
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const teamScope = getTeamScope(session.user);
+    if (getAssignableRoles(session.user.role).length === 0 || !teamScope) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can manage invites' },
+        { status: 403 }
+      );
+    }
+
+    const invite = await prisma.userInvite.findFirst({
+      where: { id, ...teamScope },
+      select: { id: true, status: true },
+    });
+
+    if (!invite) {
+      return NextResponse.json({ error: 'Invite not found' }, { status: 404 });
+    }
+
+    if (invite.status !== 'PENDING') {
+      return NextResponse.json(
+        { error: 'Only pending invites can be revoked' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.userInvite.update({
+      where: { id },
+      data: { status: 'REVOKED' },
+    });
+
+    return NextResponse.json({ message: 'Invite revoked' });
+  } catch (error) {
+    console.error('Error revoking invite:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,207 @@
+// ===========================================
+// FILE: src/app/api/invites/accept/route.ts
+// PURPOSE: Public API endpoints for viewing and accepting a team invite
+// PRD REFERENCE: PRD Section 4 - Authentication System
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { hashPassword } from '@/lib/auth';
+import { acceptInviteSchema } from '@/lib/validations';
+import { getTeamName, hashInviteToken, InviteError, isSiteRole } from '@/lib/team';
+import { z } from 'zod';
+
+/**
+ * Load an invite by its plain token and check it can still be used
+ *
+ * @throws InviteError if the invite is unknown, used, revoked or expired
+ */
+async function findUsableInvite(client: PrismaTransactionClient, token: string) {
+  const invite = await client.userInvite.findUnique({
+    where: { tokenHash: hashInviteToken(token) },
+  });
+
+  if (!invite || invite.status === 'REVOKED') {
+    throw new InviteError('This invite link is invalid or has been revoked', 404);
+  }
+
+  if (invite.status === 'ACCEPTED') {
+    throw new InviteError('This invite has already been accepted. Please sign in.', 409);
+  }
+
+  if (invite.expiresAt < new Date()) {
+    throw new InviteError('This invite has expired. Ask your admin to resend it.', 410);
+  }
+
+  return invite;
+}
+
+/**
+ * GET /api/invites/accept?token=...
+ *
+ * Look up an invite so the accept page can show who is joining what
+ *
+ * ACCESS: Public (the token is the credential)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token');
+    if (!token) {
+      return NextResponse.json({ error: 'Invite token is required' }, { status: 400 });
+    }
+
+    const invite = await findUsableInvite(prisma, token);
+    const teamName = await getTeamName(
+      invite.distributorId
+        ? { distributorId: invite.distributorId }
+        : { organizationId: invite.organizationId! }
+    );
+
+    return NextResponse.json({
+      email: invite.email,
+      role: invite.role,
+      firstName: invite.firstName,
+      lastName: invite.lastName,
+      teamName,
+      expiresAt: invite.expiresAt,
+    });
+  } catch (error) {
+    if (error instanceof InviteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error fetching invite:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/invites/accept
+ *
+ * Accept an invite: create the user account and grant site access
+ *
+ * ACCESS: Public (the token is the credential)
+ *
+ * BUSINESS LOGIC:
+ * - The account email is the invited email (cannot be changed here)
+ * - Site roles get UserSiteAccess for invited sites that are still active,
+ *   recorded as granted by the inviting admin
+ * - The invite is marked ACCEPTED in the same transaction, so a token
+ *   cannot create two accounts
+ *
+ * REQUEST BODY:
+ * {
+ *   "token": "...",
+ *   "firstName": "Jane",
+ *   "lastName": "Smith",
+ *   "password": "SecurePass123",
+ *   "confirmPassword": "SecurePass123"
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedData = acceptInviteSchema.parse(body);
+    const passwordHash = await hashPassword(validatedData.password);
+
+    const user = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      const invite = await findUsableInvite(tx, validatedData.token);
+
+      const existingUser = await tx.user.findFirst({
+        where: { email: { equals: invite.email, mode: 'insensitive' } },
+        select: { id: true },
+      });
+
+      if (existingUser) {
+        throw new InviteError('An account with this email already exists. Please sign in.', 409);
+      }
+
+      // Claim the invite (guards against a concurrent accept)
+      const claimed = await tx.userInvite.updateMany({
+        where: { id: invite.id, status: 'PENDING' },
+        data: { status: 'ACCEPTED', acceptedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        throw new InviteError('This invite has already been accepted. Please sign in.', 409);
+      }
+
+      const newUser = await tx.user.create({
+        data: {
+          email: invite.email,
+          phone: validatedData.phone || null,
+          passwordHash,
+          role: invite.role,
+          firstName: validatedData.firstName,
+          lastName: validatedData.lastName,
+          distributorId: invite.distributorId,
+          organizationId: invite.organizationId,
+          isActive: true,
+        },
+      });
+
+      if (isSiteRole(invite.role) && invite.siteIds.length > 0) {
+        const sites = await tx.site.findMany({
+          where: {
+            id: { in: invite.siteIds },
+            organizationId: invite.organizationId ?? undefined,
+            isActive: true,
+          },
+          select: { id: true },
+        });
+
+        await tx.userSiteAccess.createMany({
+          data: sites.map((site: { id: string }) => ({
+            userId: newUser.id,
+            siteId: site.id,
+            grantedBy: invite.invitedBy,
+          })),
+        });
+      }
+
+      return newUser;
+    });
+
+    return NextResponse.json(
+      {
+        message: 'Invite accepted',
+        user: {
+          id: user.id,
+          email: user.email,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          role: user.role,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof InviteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    // Phone is unique across users
+    if (error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'Phone number already registered' },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error accepting invite:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,202 @@
+// ===========================================
+// FILE: src/app/api/invites/route.ts
+// PURPOSE: API endpoints for listing and sending team invites
+// PRD REFERENCE: PRD Section 3 - User Roles & Permissions
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { inviteSchema } from '@/lib/validations';
+import {
+  buildInviteUrl,
+  generateInviteToken,
+  getAssignableRoles,
+  getTeamName,
+  getTeamScope,
+  inviteSelect,
+  isSiteRole,
+  sendInviteEmail,
+} from '@/lib/team';
+import { z } from 'zod';
+
+/**
+ * GET /api/invites
+ *
+ * Fetch pending invites for the current admin's team
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN, ORG_ADMIN
+ *
+ * RETURNS: Array of invites, each with an `expired` flag
+ */
+export async function GET() {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const teamScope = getTeamScope(session.user);
+    if (getAssignableRoles(session.user.role).length === 0 || !teamScope) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can manage invites' },
+        { status: 403 }
+      );
+    }
+
+    const invites = await prisma.userInvite.findMany({
+      where: { ...teamScope, status: 'PENDING' },
+      select: inviteSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const now = new Date();
+    return NextResponse.json(
+      invites.map((invite) => ({ ...invite, expired: invite.expiresAt < now }))
+    );
+  } catch (error) {
+    console.error('Error fetching invites:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/invites
+ *
+ * Invite a new team member
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN (distributor roles), ORG_ADMIN (organization roles)
+ *
+ * BUSINESS LOGIC:
+ * - The invitee joins the inviting admin's distributor or organization
+ * - Site roles are granted access to the selected sites on acceptance
+ * - Re-inviting an email revokes its earlier pending invite
+ * - The invite is saved even if the email fails to send, so it can be resent
+ *
+ * REQUEST BODY:
+ * {
+ *   "email": "tech@abccarwash.com",
+ *   "role": "SITE_USER",
+ *   "siteIds": ["uuid"]
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const assignableRoles = getAssignableRoles(session.user.role);
+    const teamScope = getTeamScope(session.user);
+    if (assignableRoles.length === 0 || !teamScope) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can invite team members' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = inviteSchema.parse(body);
+    const email = validatedData.email.trim().toLowerCase();
+
+    if (!assignableRoles.includes(validatedData.role)) {
+      return NextResponse.json(
+        { error: 'Forbidden: You cannot invite users with this role' },
+        { status: 403 }
+      );
+    }
+
+    // Check the email is not already registered
+    const existingUser = await prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+      select: { id: true },
+    });
+
+    if (existingUser) {
+      return NextResponse.json(
+        { error: 'A user with this email already exists' },
+        { status: 409 }
+      );
+    }
+
+    // Site roles: every site must be an active site of the admin's organization
+    const siteIds = isSiteRole(validatedData.role) ? Array.from(new Set(validatedData.siteIds)) : [];
+    if (siteIds.length > 0) {
+      const siteCount = await prisma.site.count({
+        where: {
+          id: { in: siteIds },
+          organizationId: session.user.organizationId ?? undefined,
+          isActive: true,
+        },
+      });
+
+      if (siteCount !== siteIds.length) {
+        return NextResponse.json(
+          { error: 'One or more sites were not found in your organization' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { token, tokenHash, expiresAt } = generateInviteToken();
+
+    const invite = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      // Replace any earlier pending invite for this email
+      await tx.userInvite.updateMany({
+        where: { ...teamScope, email, status: 'PENDING' },
+        data: { status: 'REVOKED' },
+      });
+
+      return tx.userInvite.create({
+        data: {
+          ...teamScope,
+          email,
+          role: validatedData.role,
+          firstName: validatedData.firstName || null,
+          lastName: validatedData.lastName || null,
+          siteIds,
+          tokenHash,
+          expiresAt,
+          invitedBy: session.user.id,
+        },
+        select: inviteSelect,
+      });
+    });
+
+    let emailSent = true;
+    try {
+      await sendInviteEmail({
+        email,
+        role: validatedData.role,
+        teamName: await getTeamName(teamScope),
+        inviterName: `${session.user.firstName} ${session.user.lastName}`,
+        inviteUrl: buildInviteUrl(request.nextUrl.origin, token),
+        expiresAt,
+      });
+    } catch (error) {
+      console.error('Error sending invite email:', error);
+      emailSent = false;
+    }
+
+    return NextResponse.json({ ...invite, expired: false, emailSent }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating invite:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,220 @@
+// ===========================================
+// FILE: src/app/api/orders/[id]/route.ts
+// PURPOSE: API endpoints to edit, approve, deliver or cancel a replenishment order
+// PRD REFERENCE: PRD Section 7.6 - Inventory Alerts
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { getReplenishmentOrders } from '@/lib/replenishment';
+import { orderActionSchema, updateOrderSchema } from '@/lib/validations';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Allowed starting statuses, resulting status and required role for each action
+ */
+const ORDER_ACTIONS = {
+  approve: { from: ['PROPOSED'], status: 'APPROVED', adminOnly: true },
+  deliver: { from: ['APPROVED'], status: 'DELIVERED', adminOnly: false },
+  cancel: { from: ['PROPOSED', 'APPROVED'], status: 'CANCELLED', adminOnly: true },
+} as const;
+
+/**
+ * Load an order the user's distributor serves
+ *
+ * ACCESS:
+ * - DISTRIBUTOR_ADMIN / DISTRIBUTOR_USER: orders for their own clients
+ */
+async function getAccessibleOrder(
+  user: { role: string; distributorId?: string | null },
+  id: string
+) {
+  if (
+    (user.role !== 'DISTRIBUTOR_ADMIN' && user.role !== 'DISTRIBUTOR_USER') ||
+    !user.distributorId
+  ) {
+    return { error: 'Forbidden: Only distributors can manage orders', status: 403 } as const;
+  }
+
+  const order = await prisma.replenishmentOrder.findUnique({
+    where: { id },
+    include: {
+      lines: { select: { id: true } },
+      site: { select: { organization: { select: { distributorId: true } } } },
+    },
+  });
+
+  if (!order || order.site.organization.distributorId !== user.distributorId) {
+    return { error: 'Order not found', status: 404 } as const;
+  }
+
+  return { order } as const;
+}
+
+/**
+ * PATCH /api/orders/[id]
+ *
+ * Edit an order's notes or line quantities
+ *
+ * PERMISSIONS:
+ * - DISTRIBUTOR_ADMIN / DISTRIBUTOR_USER of the client's distributor
+ *
+ * BUSINESS LOGIC:
+ * - Only proposed or approved orders can be edited
+ * - Edited orders keep their quantities when suggestions are refreshed
+ * - A quantity of 0 drops the chemical from the delivery
+ *
+ * BODY: UpdateOrderInput
+ * RETURNS: Updated order
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateOrderSchema.parse(body);
+
+    const result = await getAccessibleOrder(session.user, id);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    const { order } = result;
+
+    if (order.status !== 'PROPOSED' && order.status !== 'APPROVED') {
+      return NextResponse.json(
+        { error: `Order is already ${order.status.toLowerCase()}` },
+        { status: 409 }
+      );
+    }
+
+    const lineIds = new Set(order.lines.map((line: typeof order.lines[number]) => line.id));
+    if (validatedData.lines?.some((line) => !lineIds.has(line.id))) {
+      return NextResponse.json(
+        { error: 'Order line does not belong to this order' },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      for (const line of validatedData.lines ?? []) {
+        await tx.replenishmentOrderLine.update({
+          where: { id: line.id },
+          data: { quantity: line.quantity },
+        });
+      }
+
+      await tx.replenishmentOrder.update({
+        where: { id },
+        data: {
+          isEdited: true,
+          ...(validatedData.notes !== undefined && { notes: validatedData.notes }),
+        },
+      });
+    });
+
+    const [updated] = await getReplenishmentOrders({ id });
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating replenishment order:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/orders/[id]
+ *
+ * Approve, deliver or cancel an order
+ *
+ * PERMISSIONS:
+ * - approve / cancel: DISTRIBUTOR_ADMIN of the client's distributor
+ * - deliver: DISTRIBUTOR_ADMIN / DISTRIBUTOR_USER of the client's distributor
+ *
+ * BUSINESS LOGIC:
+ * - PROPOSED → APPROVED → DELIVERED; proposed or approved orders can be cancelled
+ * - Delivered quantities pre-fill the delivery fields on the site's next
+ *   chemical entry for each chemical
+ *
+ * BODY: OrderActionInput
+ * RETURNS: Updated order
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { action } = orderActionSchema.parse(body);
+
+    const result = await getAccessibleOrder(session.user, id);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    const { order } = result;
+
+    const outcome = ORDER_ACTIONS[action];
+    if (outcome.adminOnly && session.user.role !== 'DISTRIBUTOR_ADMIN') {
+      return NextResponse.json(
+        { error: `Forbidden: Only distributor admins can ${action} orders` },
+        { status: 403 }
+      );
+    }
+
+    if (!(outcome.from as readonly string[]).includes(order.status)) {
+      return NextResponse.json(
+        { error: `Cannot ${action} an order that is ${order.status.toLowerCase()}` },
+        { status: 409 }
+      );
+    }
+
+    await prisma.replenishmentOrder.update({
+      where: { id },
+      data: {
+        status: outcome.status,
+        ...(action === 'approve' && { approvedAt: new Date(), approvedBy: session.user.id }),
+        ...(action === 'deliver' && { deliveredAt: new Date(), deliveredBy: session.user.id }),
+      },
+    });
+
+    const [updated] = await getReplenishmentOrders({ id });
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating replenishment order status:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+// ===========================================
+// FILE: src/app/api/orders/pending-deliveries/route.ts
+// PURPOSE: API endpoint for delivered orders not yet recorded at a site
+// PRD REFERENCE: PRD Section 7.6 - Inventory Alerts, PRD Section 5 - Visit Logging
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { verifySiteAccess } from '@/lib/sites';
+import { getPendingDeliveries } from '@/lib/replenishment';
+import { pendingDeliveriesQuerySchema } from '@/lib/validations';
+import { z } from 'zod';
+
+/**
+ * GET /api/orders/pending-deliveries
+ *
+ * Delivered order quantities waiting to be recorded on a chemical entry
+ *
+ * WHY: The chemical entry form pre-fills its delivery fields from these
+ *
+ * QUERY PARAMS:
+ * - siteId: Site (required)
+ *
+ * RETURNS: PendingDelivery[] - one per site chemical
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { siteId } = pendingDeliveriesQuerySchema.parse({
+      siteId: searchParams.get('siteId') || undefined,
+    });
+
+    const hasAccess = await verifySiteAccess(session, siteId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    const deliveries = await getPendingDeliveries(prisma, siteId);
+
+    return NextResponse.json(deliveries);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching pending deliveries:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+// ===========================================
+// FILE: src/app/api/orders/refresh/route.ts
+// PURPOSE: API endpoint to re-run reorder suggestions
+// PRD REFERENCE: PRD Section 7.6 - Inventory Alerts
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { refreshProposedOrders } from '@/lib/replenishment';
+import { orderRefreshSchema } from '@/lib/validations';
+import { z } from 'zod';
+
+/**
+ * POST /api/orders/refresh
+ *
+ * Rebuild proposed orders for the distributor's active sites
+ *
+ * WHY: Proposals refresh when visits are logged or rescheduled. This
+ * catches up after config changes (thresholds, containers) too.
+ *
+ * PERMISSIONS:
+ * - DISTRIBUTOR_ADMIN / DISTRIBUTOR_USER only
+ *
+ * BODY: OrderRefreshInput
+ * RETURNS: { refreshed } - proposals created or updated
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { role, distributorId } = session.user;
+    if ((role !== 'DISTRIBUTOR_ADMIN' && role !== 'DISTRIBUTOR_USER') || !distributorId) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only distributors can refresh the order queue' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { organizationId } = orderRefreshSchema.parse(body);
+
+    const sites = await prisma.site.findMany({
+      where: {
+        isActive: true,
+        organization: {
+          distributorId,
+          ...(organizationId && { id: organizationId }),
+        },
+      },
+      select: { id: true },
+    });
+
+    const refreshed = await refreshProposedOrders(
+      sites.map((site: typeof sites[number]) => site.id)
+    );
+
+    return NextResponse.json({ refreshed });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error refreshing replenishment orders:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
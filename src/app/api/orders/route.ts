@@ -0,0 +1,75 @@
+// ===========================================
+// FILE: src/app/api/orders/route.ts
+// PURPOSE: API endpoint for the distributor's replenishment order queue
+// PRD REFERENCE: PRD Section 7.6 - Inventory Alerts
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { getReplenishmentOrders } from '@/lib/replenishment';
+import { orderQuerySchema } from '@/lib/validations';
+import { z } from 'zod';
+
+/**
+ * GET /api/orders
+ *
+ * List replenishment orders for the distributor's clients
+ *
+ * QUERY PARAMS:
+ * - status: Limit to one status (default: proposed and approved)
+ * - organizationId: Limit to one client
+ *
+ * PERMISSIONS:
+ * - DISTRIBUTOR_ADMIN / DISTRIBUTOR_USER only
+ *
+ * RETURNS: Orders with site, lines and who approved / delivered them,
+ * soonest delivery first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { role, distributorId } = session.user;
+    if ((role !== 'DISTRIBUTOR_ADMIN' && role !== 'DISTRIBUTOR_USER') || !distributorId) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only distributors can view the order queue' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { status, organizationId } = orderQuerySchema.parse({
+      status: searchParams.get('status') || undefined,
+      organizationId: searchParams.get('organizationId') || undefined,
+    });
+
+    const orders = await getReplenishmentOrders({
+      status: status ?? { in: ['PROPOSED', 'APPROVED'] },
+      site: {
+        organization: {
+          distributorId,
+          ...(organizationId && { id: organizationId }),
+        },
+      },
+    });
+
+    return NextResponse.json(orders);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching replenishment orders:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,196 @@
+// ===========================================
+// FILE: src/app/api/organizations/[id]/route.ts
+// PURPOSE: API endpoints for single Organization operations
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Distributor → Organization)
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { updateOrganizationSchema } from '@/lib/validations';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/organizations/[id]
+ *
+ * Fetch a single organization
+ *
+ * RETURNS: Organization with distributor, sites and link history
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id },
+      include: {
+        distributor: {
+          select: { id: true, companyName: true, contactEmail: true },
+        },
+        sites: {
+          where: { isActive: true },
+          select: { id: true, name: true, slug: true },
+          orderBy: { name: 'asc' },
+        },
+      },
+    });
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const hasAccess = await verifyOrganizationAccess(session, organization);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this organization' },
+        { status: 403 }
+      );
+    }
+
+    /**
+     * Link history
+     * WHY: Admins on both sides can see who linked / unlinked and when.
+     * Distributors only see their own part of the history.
+     */
+    const isDistributor =
+      session.user.role === 'DISTRIBUTOR_ADMIN' || session.user.role === 'DISTRIBUTOR_USER';
+    const linkHistory =
+      isDistributor || session.user.role === 'ORG_ADMIN'
+        ? await prisma.distributorLinkAudit.findMany({
+            where: {
+              organizationId: id,
+              ...(isDistributor ? { distributorId: session.user.distributorId! } : {}),
+            },
+            include: {
+              distributor: { select: { id: true, companyName: true } },
+              performer: { select: { id: true, firstName: true, lastName: true } },
+            },
+            orderBy: { createdAt: 'desc' },
+            take: 20,
+          })
+        : [];
+
+    return NextResponse.json({ ...organization, linkHistory });
+  } catch (error) {
+    console.error('Error fetching organization:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/organizations/[id]
+ *
+ * Update organization details
+ *
+ * PERMISSIONS:
+ * - ORG_ADMIN: own organization
+ * - DISTRIBUTOR_ADMIN: linked client organizations
+ *
+ * BODY: UpdateOrganizationInput
+ * RETURNS: Updated Organization
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateOrganizationSchema.parse(body);
+
+    const allowedRoles = ['ORG_ADMIN', 'DISTRIBUTOR_ADMIN'];
+    if (!allowedRoles.includes(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Insufficient permissions to update organizations' },
+        { status: 403 }
+      );
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id },
+    });
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    const hasAccess = await verifyOrganizationAccess(session, organization);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const updated = await prisma.organization.update({
+      where: { id },
+      data: validatedData,
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating organization:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Verify user has access to the specified organization
+ */
+async function verifyOrganizationAccess(
+  session: any,
+  organization: { id: string; distributorId: string | null }
+): Promise<boolean> {
+  if (session.user.role === 'DISTRIBUTOR_ADMIN' || session.user.role === 'DISTRIBUTOR_USER') {
+    return !!session.user.distributorId && organization.distributorId === session.user.distributorId;
+  }
+
+  if (session.user.role === 'ORG_ADMIN') {
+    return organization.id === session.user.organizationId;
+  }
+
+  if (session.user.role === 'SITE_MANAGER' || session.user.role === 'SITE_USER') {
+    const access = await prisma.userSiteAccess.findFirst({
+      where: {
+        userId: session.user.id,
+        site: { organizationId: organization.id },
+      },
+    });
+    return !!access;
+  }
+
+  return false;
+}
@@ -0,0 +1,118 @@
+// ===========================================
+// FILE: src/app/api/organizations/[id]/unlink/route.ts
+// PURPOSE: API endpoint to end a distributor–organization link
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Distributor → Organization)
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { distributorUnlinkSchema } from '@/lib/validations';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/organizations/[id]/unlink
+ *
+ * Unlink an organization from its distributor
+ *
+ * WHY: Car washes change suppliers, and distributors drop clients. Either
+ * side can end the relationship without the other's approval.
+ *
+ * PERMISSIONS:
+ * - ORG_ADMIN: own organization
+ * - DISTRIBUTOR_ADMIN: organizations linked to their distributor
+ *
+ * BUSINESS LOGIC:
+ * - distributorId is cleared; the organization's data stays with it
+ * - An UNLINKED audit record keeps who did it, when, and why
+ *
+ * BODY: DistributorUnlinkInput
+ * RETURNS: { success: true }
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validatedData = distributorUnlinkSchema.parse(body);
+
+    const organization = await prisma.organization.findUnique({
+      where: { id },
+    });
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: 'Organization not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!organization.distributorId) {
+      return NextResponse.json(
+        { error: 'Organization is not linked to a distributor' },
+        { status: 400 }
+      );
+    }
+
+    /**
+     * Permission check
+     * WHY: Only admins on either side of the link can end it
+     */
+    const isOrgAdmin =
+      session.user.role === 'ORG_ADMIN' && session.user.organizationId === organization.id;
+    const isDistributorAdmin =
+      session.user.role === 'DISTRIBUTOR_ADMIN' &&
+      session.user.distributorId === organization.distributorId;
+
+    if (!isOrgAdmin && !isDistributorAdmin) {
+      return NextResponse.json(
+        { error: 'Forbidden: Insufficient permissions to unlink this organization' },
+        { status: 403 }
+      );
+    }
+
+    const distributorId = organization.distributorId;
+
+    await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      await tx.organization.update({
+        where: { id },
+        data: { distributorId: null },
+      });
+
+      await tx.distributorLinkAudit.create({
+        data: {
+          distributorId,
+          organizationId: id,
+          action: 'UNLINKED',
+          performedBy: session.user.id,
+          note: validatedData.reason || null,
+        },
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error unlinking organization:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
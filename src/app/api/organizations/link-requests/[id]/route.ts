@@ -0,0 +1,199 @@
+// ===========================================
+// FILE: src/app/api/organizations/link-requests/[id]/route.ts
+// PURPOSE: API endpoint to accept, decline or cancel a link request
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Distributor → Organization)
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { distributorLinkResponseSchema } from '@/lib/validations';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Request status and audit action for each response
+ */
+const RESPONSE_OUTCOMES = {
+  accept: { status: 'ACCEPTED', action: 'ACCEPTED' },
+  decline: { status: 'DECLINED', action: 'DECLINED' },
+  cancel: { status: 'CANCELLED', action: 'CANCELLED' },
+} as const;
+
+/**
+ * Raised inside the response transaction when a concurrent response wins
+ */
+class LinkRequestConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LinkRequestConflictError';
+  }
+}
+
+/**
+ * PUT /api/organizations/link-requests/[id]
+ *
+ * Respond to a pending link request
+ *
+ * PERMISSIONS:
+ * - accept / decline: ORG_ADMIN of the invited organization
+ * - cancel: DISTRIBUTOR_ADMIN of the requesting distributor
+ *
+ * BUSINESS LOGIC:
+ * - Accepting sets Organization.distributorId
+ * - Accepting fails if the organization linked elsewhere in the meantime
+ * - Other pending requests to the same organization are cancelled on accept
+ *
+ * BODY: DistributorLinkResponseInput
+ * RETURNS: Updated DistributorLinkRequest
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { action } = distributorLinkResponseSchema.parse(body);
+
+    const linkRequest = await prisma.distributorLinkRequest.findUnique({
+      where: { id },
+      include: {
+        organization: true,
+      },
+    });
+
+    if (!linkRequest) {
+      return NextResponse.json(
+        { error: 'Link request not found' },
+        { status: 404 }
+      );
+    }
+
+    /**
+     * Permission check
+     * WHY: The organization decides whether to accept; the distributor can
+     * only withdraw its own request
+     */
+    const isOrgAdmin =
+      session.user.role === 'ORG_ADMIN' &&
+      session.user.organizationId === linkRequest.organizationId;
+    const isDistributorAdmin =
+      session.user.role === 'DISTRIBUTOR_ADMIN' &&
+      session.user.distributorId === linkRequest.distributorId;
+
+    if ((action === 'cancel' && !isDistributorAdmin) || (action !== 'cancel' && !isOrgAdmin)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Insufficient permissions to respond to this request' },
+        { status: 403 }
+      );
+    }
+
+    if (linkRequest.status !== 'PENDING') {
+      return NextResponse.json(
+        { error: `Link request is already ${linkRequest.status.toLowerCase()}` },
+        { status: 409 }
+      );
+    }
+
+    if (action === 'accept' && linkRequest.organization.distributorId) {
+      return NextResponse.json(
+        { error: 'Organization is already linked to a distributor. Unlink it first.' },
+        { status: 409 }
+      );
+    }
+
+    const outcome = RESPONSE_OUTCOMES[action];
+
+    const updated = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      // Claim the request (guards against a concurrent accept or cancel)
+      const claimed = await tx.distributorLinkRequest.updateMany({
+        where: { id, status: 'PENDING' },
+        data: {
+          status: outcome.status,
+          respondedBy: session.user.id,
+          respondedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new LinkRequestConflictError('Link request has already been responded to');
+      }
+
+      if (action === 'accept') {
+        // Only link an organization that is still unlinked
+        const linked = await tx.organization.updateMany({
+          where: { id: linkRequest.organizationId, distributorId: null },
+          data: { distributorId: linkRequest.distributorId },
+        });
+
+        if (linked.count === 0) {
+          throw new LinkRequestConflictError(
+            'Organization is already linked to a distributor. Unlink it first.'
+          );
+        }
+
+        // Other distributors' pending invites no longer apply
+        await tx.distributorLinkRequest.updateMany({
+          where: {
+            organizationId: linkRequest.organizationId,
+            status: 'PENDING',
+            id: { not: id },
+          },
+          data: {
+            status: 'CANCELLED',
+            respondedBy: session.user.id,
+            respondedAt: new Date(),
+          },
+        });
+      }
+
+      await tx.distributorLinkAudit.create({
+        data: {
+          distributorId: linkRequest.distributorId,
+          organizationId: linkRequest.organizationId,
+          action: outcome.action,
+          performedBy: session.user.id,
+        },
+      });
+
+      return tx.distributorLinkRequest.findUniqueOrThrow({
+        where: { id },
+        include: {
+          distributor: {
+            select: { id: true, companyName: true },
+          },
+          organization: {
+            select: { id: true, name: true, slug: true, distributorId: true },
+          },
+        },
+      });
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof LinkRequestConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    console.error('Error responding to link request:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,223 @@
+// ===========================================
+// FILE: src/app/api/organizations/link-requests/route.ts
+// PURPOSE: API endpoints for distributor → organization link requests
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Distributor → Organization)
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { distributorLinkRequestSchema } from '@/lib/validations';
+import { z } from 'zod';
+
+/**
+ * Related records returned with each request
+ */
+const linkRequestInclude = {
+  distributor: {
+    select: { id: true, companyName: true, contactEmail: true },
+  },
+  organization: {
+    select: { id: true, name: true, slug: true },
+  },
+  requester: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+};
+
+/**
+ * GET /api/organizations/link-requests
+ *
+ * Fetch link requests for the current user's distributor or organization
+ *
+ * QUERY PARAMS:
+ * - status: Filter by status (default PENDING; "all" for every status)
+ *
+ * RETURNS: Array of DistributorLinkRequest records
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'PENDING';
+
+    let where: any;
+    if (session.user.role === 'DISTRIBUTOR_ADMIN' || session.user.role === 'DISTRIBUTOR_USER') {
+      where = { distributorId: session.user.distributorId };
+    } else if (session.user.role === 'ORG_ADMIN') {
+      where = { organizationId: session.user.organizationId };
+    } else {
+      return NextResponse.json(
+        { error: 'Forbidden: Access denied' },
+        { status: 403 }
+      );
+    }
+
+    if (status !== 'all') {
+      where.status = status;
+    }
+
+    const requests = await prisma.distributorLinkRequest.findMany({
+      where,
+      include: linkRequestInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json(requests);
+  } catch (error) {
+    console.error('Error fetching link requests:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/organizations/link-requests
+ *
+ * Invite an existing organization to link with the distributor
+ *
+ * WHY: Self-signup organizations have no distributor. The distributor finds
+ * them by admin email or slug, and the org admin decides whether to accept.
+ *
+ * PERMISSIONS: DISTRIBUTOR_ADMIN only
+ *
+ * BUSINESS LOGIC:
+ * - Email matches an org admin's login email or the org's contact email
+ * - Organizations already linked to a distributor can't be invited
+ *   (they must unlink first)
+ * - Only one pending request per distributor/organization pair
+ *
+ * BODY: DistributorLinkRequestInput
+ * RETURNS: Created DistributorLinkRequest
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = distributorLinkRequestSchema.parse(body);
+
+    if (session.user.role !== 'DISTRIBUTOR_ADMIN' || !session.user.distributorId) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only distributor admins can send link requests' },
+        { status: 403 }
+      );
+    }
+
+    const distributorId = session.user.distributorId;
+
+    /**
+     * Resolve the organization
+     * WHY: Slug is exact; email may belong to an org admin or the org contact
+     */
+    let organization = null;
+    if (validatedData.slug) {
+      organization = await prisma.organization.findUnique({
+        where: { slug: validatedData.slug.toLowerCase() },
+      });
+    } else if (validatedData.email) {
+      const email = validatedData.email.toLowerCase();
+      const orgAdmin = await prisma.user.findFirst({
+        where: {
+          email: { equals: email, mode: 'insensitive' },
+          role: 'ORG_ADMIN',
+          organizationId: { not: null },
+        },
+        select: { organizationId: true },
+      });
+
+      organization = orgAdmin
+        ? await prisma.organization.findUnique({ where: { id: orgAdmin.organizationId! } })
+        : await prisma.organization.findFirst({
+            where: { contactEmail: { equals: email, mode: 'insensitive' } },
+          });
+    }
+
+    if (!organization || !organization.isActive) {
+      return NextResponse.json(
+        { error: 'No organization found for that email or slug' },
+        { status: 404 }
+      );
+    }
+
+    if (organization.distributorId === distributorId) {
+      return NextResponse.json(
+        { error: 'Organization is already linked to your distributor' },
+        { status: 409 }
+      );
+    }
+
+    if (organization.distributorId) {
+      return NextResponse.json(
+        { error: 'Organization is already linked to another distributor' },
+        { status: 409 }
+      );
+    }
+
+    const existing = await prisma.distributorLinkRequest.findFirst({
+      where: {
+        distributorId,
+        organizationId: organization.id,
+        status: 'PENDING',
+      },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A link request to this organization is already pending' },
+        { status: 409 }
+      );
+    }
+
+    const linkRequest = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      const created = await tx.distributorLinkRequest.create({
+        data: {
+          distributorId,
+          organizationId: organization.id,
+          inviteEmail: validatedData.email || null,
+          message: validatedData.message || null,
+          requestedBy: session.user.id,
+        },
+        include: linkRequestInclude,
+      });
+
+      await tx.distributorLinkAudit.create({
+        data: {
+          distributorId,
+          organizationId: organization.id,
+          action: 'REQUESTED',
+          performedBy: session.user.id,
+          note: validatedData.message || null,
+        },
+      });
+
+      return created;
+    });
+
+    return NextResponse.json(linkRequest, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating link request:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
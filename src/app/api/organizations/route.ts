@@ -0,0 +1,176 @@
+// ===========================================
+// FILE: src/app/api/organizations/route.ts
+// PURPOSE: API endpoints for Organization list/create
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Distributor → Organization)
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { organizationSchema } from '@/lib/validations';
+import { generateOrganizationSlug } from '@/lib/organizations';
+import { z } from 'zod';
+
+/**
+ * GET /api/organizations
+ *
+ * Fetch organizations visible to the current user
+ *
+ * WHY: Distributors work across their client organizations; other roles
+ * need their own organization for context.
+ *
+ * SCOPING:
+ * - Distributors: client organizations linked to their distributor
+ * - Org admins: their own organization
+ * - Site managers/users: organizations of their assigned sites
+ *
+ * QUERY PARAMS:
+ * - includeSites: "false" to omit the active site list (included by default)
+ *
+ * RETURNS: Array of Organization records with sites
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const includeSites = searchParams.get('includeSites') !== 'false';
+
+    /**
+     * Build where clause based on role
+     * WHY: Users only see organizations within their scope
+     */
+    let where: any;
+    if (session.user.role === 'DISTRIBUTOR_ADMIN' || session.user.role === 'DISTRIBUTOR_USER') {
+      where = { distributorId: session.user.distributorId };
+    } else if (session.user.role === 'ORG_ADMIN') {
+      where = { id: session.user.organizationId };
+    } else if (session.user.role === 'SITE_MANAGER' || session.user.role === 'SITE_USER') {
+      where = {
+        sites: {
+          some: {
+            userAccess: { some: { userId: session.user.id } },
+          },
+        },
+      };
+    } else {
+      return NextResponse.json(
+        { error: 'Forbidden: Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const organizations = await prisma.organization.findMany({
+      where: { ...where, isActive: true },
+      include: {
+        distributor: {
+          select: { id: true, companyName: true },
+        },
+        sites: includeSites
+          ? {
+              where: { isActive: true },
+              select: { id: true, name: true, slug: true },
+              orderBy: { name: 'asc' },
+            }
+          : false,
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json(organizations);
+  } catch (error) {
+    console.error('Error fetching organizations:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/organizations
+ *
+ * Create an organization on behalf of a client
+ *
+ * WHY: Distributors often onboard a car wash before anyone there has an
+ * account. The organization is created already linked to the distributor.
+ *
+ * PERMISSIONS: DISTRIBUTOR_ADMIN only
+ *
+ * BODY: OrganizationInput
+ * RETURNS: Created Organization
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = organizationSchema.parse(body);
+
+    /**
+     * Permission check
+     * WHY: Self-signup organizations are created through registration;
+     * only distributor admins create organizations here
+     */
+    if (session.user.role !== 'DISTRIBUTOR_ADMIN' || !session.user.distributorId) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only distributor admins can create organizations' },
+        { status: 403 }
+      );
+    }
+
+    const distributorId = session.user.distributorId;
+
+    const organization = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      const slug = await generateOrganizationSlug(tx, validatedData.name);
+
+      const created = await tx.organization.create({
+        data: {
+          name: validatedData.name,
+          slug,
+          distributorId,
+          contactEmail: validatedData.contactEmail || null,
+          contactPhone: validatedData.contactPhone || null,
+          address: validatedData.address || null,
+          timezone: validatedData.timezone,
+          weekStartsOn: validatedData.weekStartsOn,
+        },
+      });
+
+      // Record the link in the audit trail
+      await tx.distributorLinkAudit.create({
+        data: {
+          distributorId,
+          organizationId: created.id,
+          action: 'CREATED',
+          performedBy: session.user.id,
+        },
+      });
+
+      return created;
+    });
+
+    return NextResponse.json(organization, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating organization:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
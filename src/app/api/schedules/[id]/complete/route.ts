@@ -8,6 +8,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { completeScheduledVisitSchema } from '@/lib/validations';
+import { refreshProposedOrdersSafely } from '@/lib/replenishment';
 import { z } from 'zod';
 
 interface RouteParams {
@@ -141,6 +142,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       },
     });
 
+    // The site's next visit is now a later one
+    await refreshProposedOrdersSafely([existingSchedule.siteId]);
+
     return NextResponse.json(completedSchedule);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -8,6 +8,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { updateScheduledVisitSchema } from '@/lib/validations';
+import { refreshProposedOrdersSafely } from '@/lib/replenishment';
 import { z } from 'zod';
 
 interface RouteParams {
@@ -157,6 +158,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       data: {
         ...(validatedData.scheduledDate && {
           scheduledDate: new Date(validatedData.scheduledDate),
+          routeOrder: null, // Joins the end of the new day's plan
         }),
         ...(validatedData.notes !== undefined && { notes: validatedData.notes }),
         ...(validatedData.status && { status: validatedData.status }),
@@ -171,6 +173,9 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       },
     });
 
+    // A new date changes what the next visit needs
+    await refreshProposedOrdersSafely([existingSchedule.siteId]);
+
     return NextResponse.json(updatedSchedule);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -252,6 +257,8 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       data: { status: 'CANCELLED' },
     });
 
+    await refreshProposedOrdersSafely([existingSchedule.siteId]);
+
     return NextResponse.json({ message: 'Scheduled visit cancelled' });
   } catch (error) {
     console.error('Error deleting scheduled visit:', error);
@@ -0,0 +1,282 @@
+// ===========================================
+// FILE: src/app/api/schedules/day-plan/route.ts
+// PURPOSE: API endpoints for a technician's day route plan
+// PRD REFERENCE: PRD Section 8 - Visit Scheduling
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { dayPlanQuerySchema, saveDayPlanSchema } from '@/lib/validations';
+import {
+  buildItinerary,
+  DEFAULT_DAY_START,
+  parseTimeOfDay,
+  planRoute,
+  RouteOptions,
+  RouteStop,
+} from '@/lib/routePlanning';
+import { z } from 'zod';
+
+/**
+ * Resolve the technician whose day is being planned
+ * WHY: Distributor users plan their own day; distributor admins plan
+ * anyone on their team
+ */
+async function getTechnician(session: any, userId: string | undefined) {
+  const role = session.user.role;
+  if (role !== 'DISTRIBUTOR_ADMIN' && role !== 'DISTRIBUTOR_USER') {
+    return { error: 'Forbidden: Only distributors can plan routes', status: 403 } as const;
+  }
+
+  const technicianId = userId ?? session.user.id;
+  if (technicianId !== session.user.id && role !== 'DISTRIBUTOR_ADMIN') {
+    return { error: "Forbidden: Only distributor admins can plan a teammate's day", status: 403 } as const;
+  }
+
+  const technician = await prisma.user.findFirst({
+    where: { id: technicianId, distributorId: session.user.distributorId },
+    select: { id: true, firstName: true, lastName: true },
+  });
+
+  if (!technician) {
+    return { error: 'Technician not found', status: 404 } as const;
+  }
+
+  return { technician } as const;
+}
+
+/**
+ * The technician's scheduled visits for a day, in saved route order
+ * (visits not yet placed follow, oldest first)
+ */
+async function getDayStops(distributorId: string, userId: string, date: string) {
+  const visits = await prisma.scheduledVisit.findMany({
+    where: {
+      userId,
+      scheduledDate: new Date(date),
+      status: 'SCHEDULED',
+      site: { organization: { distributorId } },
+    },
+    include: {
+      site: {
+        select: {
+          id: true,
+          name: true,
+          address: true,
+          latitude: true,
+          longitude: true,
+          visitWindowStart: true,
+          visitWindowEnd: true,
+          visitDurationMinutes: true,
+          organization: { select: { name: true } },
+        },
+      },
+    },
+    orderBy: [{ routeOrder: { sort: 'asc', nulls: 'last' } }, { createdAt: 'asc' }],
+  });
+
+  const stops: RouteStop[] = visits.map((visit) => ({
+    id: visit.id,
+    siteId: visit.site.id,
+    siteName: visit.site.name,
+    organizationName: visit.site.organization.name,
+    address: visit.site.address,
+    location:
+      visit.site.latitude !== null && visit.site.longitude !== null
+        ? { latitude: Number(visit.site.latitude), longitude: Number(visit.site.longitude) }
+        : null,
+    windowStart: parseTimeOfDay(visit.site.visitWindowStart),
+    windowEnd: parseTimeOfDay(visit.site.visitWindowEnd),
+    durationMinutes: visit.site.visitDurationMinutes,
+    notes: visit.notes,
+  }));
+
+  return {
+    stops,
+    isSaved: visits.length > 0 && visits.every((visit) => visit.routeOrder !== null),
+    hasSavedOrder: visits.some((visit) => visit.routeOrder !== null),
+  };
+}
+
+/**
+ * Start time and place for the plan
+ */
+function getRouteOptions(input: {
+  startTime?: string;
+  startLatitude?: number;
+  startLongitude?: number;
+}): RouteOptions {
+  return {
+    startMinutes: parseTimeOfDay(input.startTime ?? DEFAULT_DAY_START)!,
+    origin:
+      input.startLatitude !== undefined && input.startLongitude !== undefined
+        ? { latitude: input.startLatitude, longitude: input.startLongitude }
+        : null,
+  };
+}
+
+/**
+ * GET /api/schedules/day-plan
+ *
+ * Fetch a technician's visits for a day as an ordered itinerary
+ *
+ * WHY: Reps visit 6-10 washes a day and need the order to drive them in,
+ * with arrival times against each site's visit window.
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN (any teammate), DISTRIBUTOR_USER (own day)
+ *
+ * QUERY PARAMS: DayPlanQueryInput
+ *
+ * BUSINESS LOGIC:
+ * - Only SCHEDULED visits are planned
+ * - The saved order is used when there is one; otherwise (or with
+ *   optimize=true) a new order is proposed by lib/routePlanning
+ * - Proposed orders are not saved until PUT
+ *
+ * RETURNS: { date, technician, startTime, isSaved, isOptimized, itinerary }
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const validatedQuery = dayPlanQuerySchema.parse({
+      date: searchParams.get('date') || undefined,
+      userId: searchParams.get('userId') || undefined,
+      startTime: searchParams.get('startTime') || undefined,
+      startLatitude: searchParams.get('startLatitude') || undefined,
+      startLongitude: searchParams.get('startLongitude') || undefined,
+      optimize: searchParams.get('optimize') || undefined,
+    });
+
+    const access = await getTechnician(session, validatedQuery.userId);
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const options = getRouteOptions(validatedQuery);
+    const { stops, isSaved, hasSavedOrder } = await getDayStops(
+      session.user.distributorId!,
+      access.technician.id,
+      validatedQuery.date
+    );
+
+    const isOptimized = validatedQuery.optimize || !hasSavedOrder;
+    const ordered = isOptimized ? planRoute(stops, options) : stops;
+
+    return NextResponse.json({
+      date: validatedQuery.date,
+      technician: access.technician,
+      startTime: validatedQuery.startTime ?? DEFAULT_DAY_START,
+      isSaved: isSaved && !validatedQuery.optimize,
+      isOptimized,
+      itinerary: buildItinerary(ordered, options),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching day plan:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/schedules/day-plan
+ *
+ * Save the order of a technician's visits for a day
+ *
+ * WHY: Drag-to-reorder on the schedule page, and keeping an optimized
+ * order, both save here
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN (any teammate), DISTRIBUTOR_USER (own day)
+ *
+ * BUSINESS LOGIC:
+ * - scheduledVisitIds must list each of the day's scheduled visits
+ *   exactly once
+ * - Stop numbers are saved as ScheduledVisit.routeOrder (1-based)
+ *
+ * BODY: SaveDayPlanInput
+ * RETURNS: Same shape as GET, in the saved order
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = saveDayPlanSchema.parse(body);
+
+    const access = await getTechnician(session, validatedData.userId);
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const { stops } = await getDayStops(
+      session.user.distributorId!,
+      access.technician.id,
+      validatedData.date
+    );
+
+    const stopsById = new Map(stops.map((stop) => [stop.id, stop]));
+    const uniqueIds = new Set(validatedData.scheduledVisitIds);
+    if (
+      uniqueIds.size !== validatedData.scheduledVisitIds.length ||
+      uniqueIds.size !== stops.length ||
+      validatedData.scheduledVisitIds.some((id) => !stopsById.has(id))
+    ) {
+      return NextResponse.json(
+        { error: "Route must include each of the day's scheduled visits exactly once" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction(
+      validatedData.scheduledVisitIds.map((id, index) =>
+        prisma.scheduledVisit.update({
+          where: { id },
+          data: { routeOrder: index + 1 },
+        })
+      )
+    );
+
+    const ordered = validatedData.scheduledVisitIds.map((id) => stopsById.get(id)!);
+
+    return NextResponse.json({
+      date: validatedData.date,
+      technician: access.technician,
+      startTime: validatedData.startTime ?? DEFAULT_DAY_START,
+      isSaved: true,
+      isOptimized: false,
+      itinerary: buildItinerary(ordered, getRouteOptions(validatedData)),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error saving day plan:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -8,6 +8,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { reminderQuerySchema } from '@/lib/validations';
+import {
+  addCalendarDays,
+  calendarDaysBetween,
+  getSiteToday,
+  resolveSiteTimeZone,
+} from '@/lib/timezone';
 import { z } from 'zod';
 
 /**
@@ -19,6 +25,10 @@ import { z } from 'zod';
  * Uses each site's visitReminderDays setting to determine when
  * to show reminders.
  *
+ * BUSINESS LOGIC:
+ * - "Today" is the calendar date in each site's time zone, so a site
+ *   doesn't tip into overdue at 7pm Eastern when UTC rolls over
+ *
  * QUERY PARAMS:
  * - daysAhead: How many days ahead to look (default 7)
  * - includeOverdue: Include sites past due for visits (default true)
@@ -59,7 +69,7 @@ export async function GET(request: NextRequest) {
       },
       include: {
         organization: {
-          select: { id: true, name: true },
+          select: { id: true, name: true, timezone: true },
         },
         visitLogs: {
           orderBy: { visitDate: 'desc' },
@@ -83,9 +93,6 @@ export async function GET(request: NextRequest) {
       },
     });
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
     const overdue: any[] = [];
     const dueSoon: any[] = [];
     const upcoming: any[] = [];
@@ -95,23 +102,18 @@ export async function GET(request: NextRequest) {
       const lastVisit = site.visitLogs[0];
       const nextScheduled = site.scheduledVisits[0];
       const reminderDays = site.visitReminderDays;
+      const today = getSiteToday(resolveSiteTimeZone(site));
 
-      // Calculate days since last visit
+      // Calculate days since last visit (visit dates are calendar dates)
       let daysSinceLastVisit: number | null = null;
       if (lastVisit) {
-        const lastVisitDate = new Date(lastVisit.visitDate);
-        lastVisitDate.setHours(0, 0, 0, 0);
-        daysSinceLastVisit = Math.floor(
-          (today.getTime() - lastVisitDate.getTime()) / (1000 * 60 * 60 * 24)
-        );
+        daysSinceLastVisit = calendarDaysBetween(lastVisit.visitDate, today);
       }
 
       // Calculate next due date based on reminder days
       let nextDueDate: Date | null = null;
       if (lastVisit) {
-        nextDueDate = new Date(lastVisit.visitDate);
-        nextDueDate.setDate(nextDueDate.getDate() + reminderDays);
-        nextDueDate.setHours(0, 0, 0, 0);
+        nextDueDate = addCalendarDays(lastVisit.visitDate, reminderDays);
       }
 
       const siteInfo = {
@@ -130,11 +132,7 @@ export async function GET(request: NextRequest) {
 
       // If site has an upcoming scheduled visit, add to scheduled
       if (nextScheduled) {
-        const scheduledDate = new Date(nextScheduled.scheduledDate);
-        scheduledDate.setHours(0, 0, 0, 0);
-        const daysUntilScheduled = Math.floor(
-          (scheduledDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
-        );
+        const daysUntilScheduled = calendarDaysBetween(today, nextScheduled.scheduledDate);
 
         if (daysUntilScheduled <= validatedQuery.daysAhead) {
           scheduled.push({
@@ -160,9 +158,7 @@ export async function GET(request: NextRequest) {
 
       // Check if overdue
       if (nextDueDate && today > nextDueDate) {
-        const daysOverdue = Math.floor(
-          (today.getTime() - nextDueDate.getTime()) / (1000 * 60 * 60 * 24)
-        );
+        const daysOverdue = calendarDaysBetween(nextDueDate, today);
         if (validatedQuery.includeOverdue) {
           overdue.push({
             ...siteInfo,
@@ -172,9 +168,7 @@ export async function GET(request: NextRequest) {
         }
       } else if (nextDueDate) {
         // Calculate days until due
-        const daysUntilDue = Math.floor(
-          (nextDueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)
-        );
+        const daysUntilDue = calendarDaysBetween(today, nextDueDate);
 
         if (daysUntilDue <= 2) {
           dueSoon.push({
@@ -8,6 +8,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { createScheduledVisitSchema, scheduleQuerySchema, bulkScheduleSchema, recurringScheduleSchema } from '@/lib/validations';
+import { refreshProposedOrdersSafely } from '@/lib/replenishment';
 import { z } from 'zod';
 
 /**
@@ -184,6 +185,7 @@ export async function GET(request: NextRequest) {
  *
  * WHY: Schedule site visits for future dates.
  * Supports single, bulk, and recurring schedules.
+ * The site's proposed order is refreshed, since the next visit may have changed.
  *
  * BODY: CreateScheduledVisitInput | BulkScheduleInput | RecurringScheduleInput
  * RETURNS: Created ScheduledVisit record(s)
@@ -258,6 +260,8 @@ async function createSingleSchedule(session: any, body: any) {
     },
   });
 
+  await refreshProposedOrdersSafely([validatedData.siteId]);
+
   return NextResponse.json(schedule, { status: 201 });
 }
 
@@ -296,6 +300,8 @@ async function createBulkSchedules(session: any, body: any) {
     )
   );
 
+  await refreshProposedOrdersSafely([validatedData.siteId]);
+
   return NextResponse.json(
     { schedules, count: schedules.length },
     { status: 201 }
@@ -354,6 +360,8 @@ async function createRecurringSchedules(session: any, body: any) {
     )
   );
 
+  await refreshProposedOrdersSafely([validatedData.siteId]);
+
   return NextResponse.json(
     { schedules, count: schedules.length },
     { status: 201 }
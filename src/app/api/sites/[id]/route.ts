@@ -0,0 +1,240 @@
+// ===========================================
+// FILE: src/app/api/sites/[id]/route.ts
+// PURPOSE: API endpoints for single Site operations
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Organization → Site)
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { verifySiteAccess } from '@/lib/sites';
+import { updateSiteSchema } from '@/lib/validations';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/sites/[id]
+ *
+ * Fetch a single site
+ *
+ * RETURNS: Site with organization and record counts
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const site = await prisma.site.findUnique({
+      where: { id },
+      include: {
+        organization: {
+          select: { id: true, name: true, slug: true, distributorId: true },
+        },
+        _count: {
+          select: {
+            chemicalConfigs: true,
+            washPackages: true,
+            userAccess: true,
+          },
+        },
+      },
+    });
+
+    if (!site) {
+      return NextResponse.json(
+        { error: 'Site not found' },
+        { status: 404 }
+      );
+    }
+
+    const hasAccess = await verifySiteAccess(session, site);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(site);
+  } catch (error) {
+    console.error('Error fetching site:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/sites/[id]
+ *
+ * Update a site
+ *
+ * WHY: Sites change wash format, address or visit cadence over time
+ *
+ * PERMISSIONS:
+ * - Org admins and distributor admins can update any field
+ * - Site managers can update their site's details but not deactivate it
+ *
+ * BODY: UpdateSiteInput
+ * RETURNS: Updated Site
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = updateSiteSchema.parse(body);
+
+    /**
+     * Permission check
+     * WHY: Site users and distributor users are read-only
+     */
+    const allowedRoles = ['ORG_ADMIN', 'DISTRIBUTOR_ADMIN', 'SITE_MANAGER'];
+    if (!allowedRoles.includes(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Insufficient permissions to update sites' },
+        { status: 403 }
+      );
+    }
+
+    if (session.user.role === 'SITE_MANAGER' && validatedData.isActive !== undefined) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can activate or deactivate sites' },
+        { status: 403 }
+      );
+    }
+
+    const site = await prisma.site.findUnique({
+      where: { id },
+      include: {
+        organization: {
+          select: { distributorId: true },
+        },
+      },
+    });
+
+    if (!site) {
+      return NextResponse.json(
+        { error: 'Site not found' },
+        { status: 404 }
+      );
+    }
+
+    const hasAccess = await verifySiteAccess(session, site);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    const updated = await prisma.site.update({
+      where: { id },
+      data: validatedData,
+      include: {
+        organization: {
+          select: { id: true, name: true, slug: true },
+        },
+      },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating site:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/sites/[id]
+ *
+ * Deactivate a site
+ *
+ * WHY: Soft delete (isActive = false) preserves visit history and analytics
+ * for closed or sold locations
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    /**
+     * Permission check
+     * WHY: Only admins can deactivate sites
+     */
+    const allowedRoles = ['ORG_ADMIN', 'DISTRIBUTOR_ADMIN'];
+    if (!allowedRoles.includes(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Insufficient permissions to deactivate sites' },
+        { status: 403 }
+      );
+    }
+
+    const site = await prisma.site.findUnique({
+      where: { id },
+      include: {
+        organization: {
+          select: { distributorId: true },
+        },
+      },
+    });
+
+    if (!site) {
+      return NextResponse.json(
+        { error: 'Site not found' },
+        { status: 404 }
+      );
+    }
+
+    const hasAccess = await verifySiteAccess(session, site);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    await prisma.site.update({
+      where: { id },
+      data: { isActive: false },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deactivating site:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
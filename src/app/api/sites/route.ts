@@ -0,0 +1,206 @@
+// ===========================================
+// FILE: src/app/api/sites/route.ts
+// PURPOSE: API endpoints for Site list/create
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Organization → Site)
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { siteSchema } from '@/lib/validations';
+import { generateSiteSlug } from '@/lib/sites';
+import { z } from 'zod';
+
+/**
+ * GET /api/sites
+ *
+ * Fetch sites visible to the current user
+ *
+ * WHY: Site pickers, schedules, analytics and chemical configuration all
+ * need the list of sites a user can work with.
+ *
+ * SCOPING:
+ * - Distributors: sites of their client organizations
+ * - Org admins: sites in their organization
+ * - Site managers/users: sites granted via UserSiteAccess
+ *
+ * QUERY PARAMS:
+ * - assigned: "true" to return only sites explicitly assigned to the user
+ * - organizationId: Filter by organization (distributors)
+ * - includeInactive: "true" to include deactivated sites
+ *
+ * RETURNS: Array of Site records with organization
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Get query parameters
+    const { searchParams } = new URL(request.url);
+    const assigned = searchParams.get('assigned') === 'true';
+    const organizationId = searchParams.get('organizationId');
+    const includeInactive = searchParams.get('includeInactive') === 'true';
+
+    /**
+     * Build where clause based on role
+     * WHY: Users only see sites within their scope
+     */
+    const where: any = {};
+
+    if (session.user.role === 'DISTRIBUTOR_ADMIN' || session.user.role === 'DISTRIBUTOR_USER') {
+      where.organization = { distributorId: session.user.distributorId };
+      if (organizationId) {
+        where.organizationId = organizationId;
+      }
+    } else if (session.user.role === 'ORG_ADMIN') {
+      where.organizationId = session.user.organizationId;
+    } else if (session.user.role === 'SITE_MANAGER' || session.user.role === 'SITE_USER') {
+      where.userAccess = { some: { userId: session.user.id } };
+    } else {
+      return NextResponse.json(
+        { error: 'Forbidden: Access denied' },
+        { status: 403 }
+      );
+    }
+
+    // Restrict to explicitly assigned sites when requested
+    if (assigned) {
+      where.userAccess = { some: { userId: session.user.id } };
+    }
+
+    if (!includeInactive) {
+      where.isActive = true;
+    }
+
+    const sites = await prisma.site.findMany({
+      where,
+      include: {
+        organization: {
+          select: { id: true, name: true, slug: true },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json(sites);
+  } catch (error) {
+    console.error('Error fetching sites:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/sites
+ *
+ * Create a new site
+ *
+ * WHY: Organizations add wash locations as they grow
+ *
+ * BODY: SiteInput
+ * RETURNS: Created Site
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = siteSchema.parse(body);
+
+    /**
+     * Permission check
+     * WHY: Only org admins (own org) and distributor admins (client orgs)
+     * can create sites
+     */
+    let organizationId: string;
+
+    if (session.user.role === 'ORG_ADMIN') {
+      if (
+        !session.user.organizationId ||
+        (validatedData.organizationId && validatedData.organizationId !== session.user.organizationId)
+      ) {
+        return NextResponse.json(
+          { error: 'Forbidden: Organization not accessible' },
+          { status: 403 }
+        );
+      }
+      organizationId = session.user.organizationId;
+    } else if (session.user.role === 'DISTRIBUTOR_ADMIN') {
+      if (!validatedData.organizationId) {
+        return NextResponse.json(
+          { error: 'organizationId is required' },
+          { status: 400 }
+        );
+      }
+
+      const organization = await prisma.organization.findUnique({
+        where: { id: validatedData.organizationId },
+      });
+
+      if (!organization || organization.distributorId !== session.user.distributorId) {
+        return NextResponse.json(
+          { error: 'Forbidden: Organization not accessible' },
+          { status: 403 }
+        );
+      }
+      organizationId = organization.id;
+    } else {
+      return NextResponse.json(
+        { error: 'Forbidden: Insufficient permissions to create sites' },
+        { status: 403 }
+      );
+    }
+
+    // Create site with a slug unique within the organization
+    const site = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      const slug = await generateSiteSlug(tx, organizationId, validatedData.name);
+
+      return tx.site.create({
+        data: {
+          organizationId,
+          name: validatedData.name,
+          slug,
+          address: validatedData.address || null,
+          washType: validatedData.washType,
+          visitReminderDays: validatedData.visitReminderDays,
+          timezone: validatedData.timezone || null,
+          latitude: validatedData.latitude ?? null,
+          longitude: validatedData.longitude ?? null,
+          visitWindowStart: validatedData.visitWindowStart || null,
+          visitWindowEnd: validatedData.visitWindowEnd || null,
+          visitDurationMinutes: validatedData.visitDurationMinutes,
+        },
+        include: {
+          organization: {
+            select: { id: true, name: true, slug: true },
+          },
+        },
+      });
+    });
+
+    return NextResponse.json(site, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating site:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
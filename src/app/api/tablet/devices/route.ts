@@ -0,0 +1,234 @@
+// ===========================================
+// FILE: src/app/api/tablet/devices/route.ts
+// PURPOSE: API endpoints for enrolling and revoking shared site tablets
+// PRD REFERENCE: PRD Section 4.2 - Secondary Authentication (PIN)
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { verifySiteAccess } from '@/lib/sites';
+import { tabletDeviceSchema } from '@/lib/validations';
+import {
+  TABLET_DEVICE_COOKIE,
+  TABLET_DEVICE_COOKIE_MAX_AGE,
+  TABLET_MANAGER_ROLES,
+  generateDeviceToken,
+  getTabletDevice,
+  tabletDeviceSelect,
+} from '@/lib/tablet';
+import { z } from 'zod';
+
+/**
+ * GET /api/tablet/devices
+ *
+ * List tablets enrolled to a site
+ *
+ * QUERY PARAMS:
+ * - siteId (required): Site to list tablets for
+ *
+ * RETURNS: Array of devices (never the token)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const siteId = searchParams.get('siteId');
+
+    if (!siteId) {
+      return NextResponse.json(
+        { error: 'siteId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!TABLET_MANAGER_ROLES.includes(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Insufficient permissions to manage tablets' },
+        { status: 403 }
+      );
+    }
+
+    const hasAccess = await verifySiteAccess(session, siteId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    const devices = await prisma.tabletDevice.findMany({
+      where: { siteId },
+      select: tabletDeviceSelect,
+      orderBy: { enrolledAt: 'desc' },
+    });
+
+    return NextResponse.json(devices);
+  } catch (error) {
+    console.error('Error fetching tablet devices:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/tablet/devices
+ *
+ * Enroll the current browser as a tablet for a site
+ *
+ * BODY: TabletDeviceInput
+ *
+ * BUSINESS LOGIC:
+ * - The manager enrolls from the tablet itself, signed in with a password
+ * - The device token is set as an httpOnly cookie on this browser; only
+ *   its hash is stored
+ * - Re-enrolling a browser revokes the tablet it was previously enrolled as
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (
+      !TABLET_MANAGER_ROLES.includes(session.user.role) ||
+      session.user.authMethod !== 'password'
+    ) {
+      return NextResponse.json(
+        { error: 'Forbidden: A manager must sign in with a password to enroll a tablet' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = tabletDeviceSchema.parse(body);
+
+    const hasAccess = await verifySiteAccess(session, validatedData.siteId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    const previous = await getTabletDevice(request.cookies.get(TABLET_DEVICE_COOKIE)?.value);
+    if (previous) {
+      await prisma.tabletDevice.update({
+        where: { id: previous.id },
+        data: { isActive: false },
+      });
+    }
+
+    const { token, tokenHash } = await generateDeviceToken();
+
+    const device = await prisma.tabletDevice.create({
+      data: {
+        siteId: validatedData.siteId,
+        name: validatedData.name,
+        tokenHash,
+        enrolledBy: session.user.id,
+      },
+      select: tabletDeviceSelect,
+    });
+
+    const response = NextResponse.json(device, { status: 201 });
+    response.cookies.set(TABLET_DEVICE_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: TABLET_DEVICE_COOKIE_MAX_AGE,
+    });
+
+    return response;
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error enrolling tablet:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/tablet/devices?deviceId=xxx
+ *
+ * Revoke a tablet
+ *
+ * WHY: Soft revoke (isActive = false) keeps the device's history visible.
+ * PIN sign-in stops working on that browser immediately.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const deviceId = searchParams.get('deviceId');
+
+    if (!deviceId) {
+      return NextResponse.json(
+        { error: 'deviceId is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!TABLET_MANAGER_ROLES.includes(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Insufficient permissions to manage tablets' },
+        { status: 403 }
+      );
+    }
+
+    const device = await prisma.tabletDevice.findUnique({
+      where: { id: deviceId },
+    });
+
+    if (!device) {
+      return NextResponse.json(
+        { error: 'Tablet not found' },
+        { status: 404 }
+      );
+    }
+
+    const hasAccess = await verifySiteAccess(session, device.siteId);
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Forbidden: No access to this site' },
+        { status: 403 }
+      );
+    }
+
+    await prisma.tabletDevice.update({
+      where: { id: deviceId },
+      data: { isActive: false },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking tablet:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+// ===========================================
+// FILE: src/app/api/tablet/roster/route.ts
+// PURPOSE: Sign-in roster for an enrolled site tablet
+// PRD REFERENCE: PRD Section 4.2 - Secondary Authentication (PIN)
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { TABLET_DEVICE_COOKIE, getTabletDevice, getTabletRoster } from '@/lib/tablet';
+
+/**
+ * GET /api/tablet/roster
+ *
+ * Site and users for the tablet's PIN sign-in screen
+ *
+ * AUTH: None - authenticated by the enrolled device cookie
+ * (see middleware public paths)
+ *
+ * RETURNS:
+ * {
+ *   device: { id, name },
+ *   site: { id, name, slug, organizationSlug },
+ *   users: [{ id, firstName, lastInitial }]
+ * }
+ *
+ * SECURITY: Only first names and last initials are shown on a shared screen
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const device = await getTabletDevice(request.cookies.get(TABLET_DEVICE_COOKIE)?.value);
+
+    if (!device) {
+      return NextResponse.json(
+        { error: 'This device is not enrolled for tablet mode' },
+        { status: 401 }
+      );
+    }
+
+    const users = await getTabletRoster(device.siteId);
+
+    return NextResponse.json({
+      device: { id: device.id, name: device.name },
+      site: {
+        id: device.site.id,
+        name: device.site.name,
+        slug: device.site.slug,
+        organizationSlug: device.site.organization.slug,
+      },
+      users: users.map((user) => ({
+        id: user.id,
+        firstName: user.firstName,
+        lastInitial: user.lastName.charAt(0),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching tablet roster:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
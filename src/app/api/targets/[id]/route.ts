@@ -0,0 +1,154 @@
+// ===========================================
+// FILE: src/app/api/targets/[id]/route.ts
+// PURPOSE: API endpoints for a single cost target
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { updateCostTargetSchema } from '@/lib/validations';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Load a target and check the user can change it
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN (own clients), ORG_ADMIN (own organization)
+ */
+async function verifyTargetAccess(
+  user: { role: string; organizationId?: string | null; distributorId?: string | null },
+  id: string
+) {
+  const target = await prisma.costTarget.findUnique({
+    where: { id },
+    include: { organization: { select: { distributorId: true } } },
+  });
+
+  if (!target) {
+    return { error: 'Target not found', status: 404 } as const;
+  }
+
+  const { role } = user;
+  if (role !== 'DISTRIBUTOR_ADMIN' && role !== 'ORG_ADMIN') {
+    return { error: 'Forbidden: Insufficient permissions to manage targets', status: 403 } as const;
+  }
+
+  const hasAccess =
+    role === 'ORG_ADMIN'
+      ? target.organizationId === user.organizationId
+      : !!user.distributorId && target.organization.distributorId === user.distributorId;
+  if (!hasAccess) {
+    return { error: 'Forbidden: Access denied to this organization', status: 403 } as const;
+  }
+
+  return { target };
+}
+
+/**
+ * PATCH /api/targets/[id]
+ *
+ * Change a target's cost per car and/or monthly budget
+ *
+ * BUSINESS LOGIC:
+ * - A target must keep at least one value; delete it to remove both
+ *
+ * BODY: UpdateCostTargetInput
+ * RETURNS: Updated target
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const access = await verifyTargetAccess(session.user, id);
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const body = await request.json();
+    const validatedData = updateCostTargetSchema.parse(body);
+
+    const targetCostPerCar =
+      validatedData.targetCostPerCar !== undefined
+        ? validatedData.targetCostPerCar
+        : access.target.targetCostPerCar;
+    const monthlyBudget =
+      validatedData.monthlyBudget !== undefined
+        ? validatedData.monthlyBudget
+        : access.target.monthlyBudget;
+    if (targetCostPerCar === null && monthlyBudget === null) {
+      return NextResponse.json(
+        { error: 'Set a cost-per-car target or a monthly budget, or delete the target' },
+        { status: 400 }
+      );
+    }
+
+    const target = await prisma.costTarget.update({
+      where: { id },
+      data: {
+        ...validatedData,
+        updatedBy: session.user.id,
+      },
+    });
+
+    return NextResponse.json({
+      ...target,
+      targetCostPerCar: target.targetCostPerCar !== null ? Number(target.targetCostPerCar) : null,
+      monthlyBudget: target.monthlyBudget !== null ? Number(target.monthlyBudget) : null,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating cost target:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/targets/[id]
+ *
+ * Remove a target
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const access = await verifyTargetAccess(session.user, id);
+    if ('error' in access) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    await prisma.costTarget.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting cost target:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,223 @@
+// ===========================================
+// FILE: src/app/api/targets/route.ts
+// PURPOSE: API endpoints for cost-per-car targets and monthly budgets
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { costTargetSchema, costTargetQuerySchema } from '@/lib/validations';
+import { z } from 'zod';
+
+/**
+ * Check that the user can see (or change) an organization's targets
+ *
+ * ACCESS:
+ * - DISTRIBUTOR_ADMIN: own clients (read and write)
+ * - DISTRIBUTOR_USER: own clients (read only)
+ * - ORG_ADMIN: own organization (read and write)
+ */
+async function verifyOrganizationAccess(
+  user: { role: string; organizationId?: string | null; distributorId?: string | null },
+  organizationId: string,
+  write: boolean
+): Promise<{ error: string; status: number } | null> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { id: true, distributorId: true },
+  });
+
+  if (!organization) {
+    return { error: 'Organization not found', status: 404 };
+  }
+
+  const { role } = user;
+  const canWrite = role === 'DISTRIBUTOR_ADMIN' || role === 'ORG_ADMIN';
+  const canRead = canWrite || role === 'DISTRIBUTOR_USER';
+  if (!(write ? canWrite : canRead)) {
+    return { error: 'Forbidden: Insufficient permissions to manage targets', status: 403 };
+  }
+
+  const hasAccess =
+    role === 'ORG_ADMIN'
+      ? organization.id === user.organizationId
+      : !!user.distributorId && organization.distributorId === user.distributorId;
+  if (!hasAccess) {
+    return { error: 'Forbidden: Access denied to this organization', status: 403 };
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/targets
+ *
+ * List an organization's targets and budgets
+ *
+ * QUERY PARAMS:
+ * - organizationId: Organization (required)
+ *
+ * RETURNS: Targets, organization-wide first, then by site
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { organizationId } = costTargetQuerySchema.parse({
+      organizationId: searchParams.get('organizationId') || undefined,
+    });
+
+    const accessError = await verifyOrganizationAccess(session.user, organizationId, false);
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status });
+    }
+
+    const targets = await prisma.costTarget.findMany({
+      where: { organizationId },
+      include: {
+        site: { select: { id: true, name: true } },
+        updatedByUser: { select: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: [{ site: { name: 'asc' } }, { chemicalType: 'asc' }],
+    });
+
+    return NextResponse.json(
+      targets
+        .map((target: typeof targets[number]) => ({
+          ...target,
+          targetCostPerCar: target.targetCostPerCar !== null ? Number(target.targetCostPerCar) : null,
+          monthlyBudget: target.monthlyBudget !== null ? Number(target.monthlyBudget) : null,
+        }))
+        // Organization-wide targets first
+        .sort(
+          (a: { siteId: string | null }, b: { siteId: string | null }) =>
+            Number(a.siteId !== null) - Number(b.siteId !== null)
+        )
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching cost targets:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/targets
+ *
+ * Set a cost-per-car target and/or monthly budget
+ *
+ * BUSINESS LOGIC:
+ * - One target per organization/site/chemical type. The unique index
+ *   doesn't catch duplicates with a null site or type (NULLs are distinct
+ *   in Postgres), so the check is done here
+ * - A site target must belong to the organization
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN (own clients), ORG_ADMIN (own organization)
+ *
+ * BODY: CostTargetInput
+ * RETURNS: Created target
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = costTargetSchema.parse(body);
+
+    const accessError = await verifyOrganizationAccess(
+      session.user,
+      validatedData.organizationId,
+      true
+    );
+    if (accessError) {
+      return NextResponse.json({ error: accessError.error }, { status: accessError.status });
+    }
+
+    const siteId = validatedData.siteId || null;
+    const chemicalType = validatedData.chemicalType || null;
+
+    if (siteId) {
+      const site = await prisma.site.findFirst({
+        where: { id: siteId, organizationId: validatedData.organizationId },
+        select: { id: true },
+      });
+      if (!site) {
+        return NextResponse.json(
+          { error: 'Site not found in this organization' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const existing = await prisma.costTarget.findFirst({
+      where: { organizationId: validatedData.organizationId, siteId, chemicalType },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A target already exists for this site and chemical type' },
+        { status: 409 }
+      );
+    }
+
+    const target = await prisma.costTarget.create({
+      data: {
+        organizationId: validatedData.organizationId,
+        siteId,
+        chemicalType,
+        targetCostPerCar: validatedData.targetCostPerCar ?? null,
+        monthlyBudget: validatedData.monthlyBudget ?? null,
+        updatedBy: session.user.id,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        ...target,
+        targetCostPerCar: target.targetCostPerCar !== null ? Number(target.targetCostPerCar) : null,
+        monthlyBudget: target.monthlyBudget !== null ? Number(target.monthlyBudget) : null,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    // Handle unique constraint violation
+    if ((error as any).code === 'P2002') {
+      return NextResponse.json(
+        { error: 'A target already exists for this site and chemical type' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error creating cost target:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
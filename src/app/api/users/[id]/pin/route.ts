@@ -0,0 +1,165 @@
+// ===========================================
+// FILE: src/app/api/users/[id]/pin/route.ts
+// PURPOSE: API endpoints for setting and resetting a tablet-mode PIN
+// PRD REFERENCE: PRD Section 4.2 - Secondary Authentication (PIN)
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth, hashPin } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { pinCreationSchema } from '@/lib/validations';
+import { getTeamScope } from '@/lib/team';
+import { TABLET_ROLES } from '@/lib/tablet';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const ADMIN_ROLES = ['DISTRIBUTOR_ADMIN', 'ORG_ADMIN'];
+
+/**
+ * PUT /api/users/[id]/pin
+ *
+ * Set or change the signed-in user's own PIN
+ *
+ * ACCESS: SITE_MANAGER, SITE_USER (self only, password session)
+ *
+ * BUSINESS LOGIC:
+ * - A PIN session cannot change a PIN; someone else may be holding
+ *   the shared tablet
+ * - Setting a PIN clears any lockout
+ *
+ * REQUEST BODY: PinCreationInput
+ * {
+ *   "pin": "4821",
+ *   "confirmPin": "4821"
+ * }
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (id !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Forbidden: You can only set your own PIN' },
+        { status: 403 }
+      );
+    }
+
+    if (session.user.authMethod !== 'password') {
+      return NextResponse.json(
+        { error: 'Forbidden: Sign in with your password to change your PIN' },
+        { status: 403 }
+      );
+    }
+
+    if (!TABLET_ROLES.includes(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Tablet PINs are only available to site users' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = pinCreationSchema.parse(body);
+
+    const user = await prisma.user.update({
+      where: { id },
+      data: {
+        pinHash: await hashPin(validatedData.pin),
+        pinUpdatedAt: new Date(),
+        pinFailedAttempts: 0,
+        pinLockedUntil: null,
+      },
+      select: { id: true, pinUpdatedAt: true },
+    });
+
+    return NextResponse.json(user);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error setting PIN:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/users/[id]/pin
+ *
+ * Reset a PIN (removes it and clears any lockout)
+ *
+ * ACCESS: The user themselves (password session), or an admin of their team
+ *
+ * WHY: A forgotten or shared PIN is reset rather than revealed; the user
+ * sets a new one after signing in with their password
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (session.user.authMethod !== 'password') {
+      return NextResponse.json(
+        { error: 'Forbidden: Sign in with your password to reset a PIN' },
+        { status: 403 }
+      );
+    }
+
+    const isSelf = id === session.user.id;
+    const teamScope = getTeamScope(session.user);
+
+    if (!isSelf && (!ADMIN_ROLES.includes(session.user.role) || !teamScope)) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can reset another user\'s PIN' },
+        { status: 403 }
+      );
+    }
+
+    const member = await prisma.user.findFirst({
+      where: isSelf ? { id } : { id, ...teamScope },
+      select: { id: true },
+    });
+
+    if (!member) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await prisma.user.update({
+      where: { id },
+      data: {
+        pinHash: null,
+        pinUpdatedAt: null,
+        pinFailedAttempts: 0,
+        pinLockedUntil: null,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error resetting PIN:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,145 @@
+// ===========================================
+// FILE: src/app/api/users/[id]/route.ts
+// PURPOSE: API endpoint for changing a team member's role or status
+// PRD REFERENCE: PRD Section 3 - User Roles & Permissions
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { updateUserSchema } from '@/lib/validations';
+import { getAssignableRoles, getTeamScope, isSiteRole, teamMemberSelect } from '@/lib/team';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const ADMIN_ROLES = ['DISTRIBUTOR_ADMIN', 'ORG_ADMIN'];
+
+/**
+ * PUT /api/users/[id]
+ *
+ * Change a team member's role, or deactivate / reactivate them
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN, ORG_ADMIN of the member's team
+ *
+ * BUSINESS LOGIC:
+ * - Roles are limited to the admin's team (see getAssignableRoles)
+ * - Admins cannot change their own role or deactivate themselves
+ * - A team always keeps at least one active admin
+ * - Moving a user off a site role removes their site access grants
+ * - Deactivated users can no longer sign in; history they created is kept
+ *
+ * REQUEST BODY:
+ * {
+ *   "role": "SITE_MANAGER",
+ *   "isActive": false
+ * }
+ */
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const assignableRoles = getAssignableRoles(session.user.role);
+    const teamScope = getTeamScope(session.user);
+    if (assignableRoles.length === 0 || !teamScope) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can manage the team' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = updateUserSchema.parse(body);
+
+    const member = await prisma.user.findFirst({
+      where: { id, ...teamScope },
+      select: { id: true, role: true, isActive: true },
+    });
+
+    if (!member) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (
+      member.id === session.user.id &&
+      ((validatedData.role && validatedData.role !== member.role) || validatedData.isActive === false)
+    ) {
+      return NextResponse.json(
+        { error: 'You cannot change your own role or deactivate yourself' },
+        { status: 400 }
+      );
+    }
+
+    if (validatedData.role && !assignableRoles.includes(validatedData.role)) {
+      return NextResponse.json(
+        { error: 'Forbidden: You cannot assign this role' },
+        { status: 403 }
+      );
+    }
+
+    const newRole = validatedData.role ?? member.role;
+    const newIsActive = validatedData.isActive ?? member.isActive;
+
+    // Keep at least one active admin on the team
+    const losesAdmin =
+      ADMIN_ROLES.includes(member.role) &&
+      member.isActive &&
+      (!ADMIN_ROLES.includes(newRole) || !newIsActive);
+
+    if (losesAdmin) {
+      const otherAdmins = await prisma.user.count({
+        where: {
+          ...teamScope,
+          id: { not: member.id },
+          role: member.role,
+          isActive: true,
+        },
+      });
+
+      if (otherAdmins === 0) {
+        return NextResponse.json(
+          { error: 'The team must keep at least one active admin' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const user = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      if (isSiteRole(member.role) && !isSiteRole(newRole)) {
+        await tx.userSiteAccess.deleteMany({ where: { userId: member.id } });
+      }
+
+      return tx.user.update({
+        where: { id: member.id },
+        data: {
+          ...(validatedData.role !== undefined && { role: validatedData.role }),
+          ...(validatedData.isActive !== undefined && { isActive: validatedData.isActive }),
+        },
+        select: teamMemberSelect,
+      });
+    });
+
+    return NextResponse.json(user);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating user:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,167 @@
+// ===========================================
+// FILE: src/app/api/users/[id]/site-access/route.ts
+// PURPOSE: API endpoints for granting and revoking a user's site access
+// PRD REFERENCE: PRD Section 3 - User Roles & Permissions
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { siteAccessSchema } from '@/lib/validations';
+import { isSiteRole } from '@/lib/team';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Load a site-role member of the admin's organization
+ * WHY: Only SITE_MANAGER / SITE_USER access is scoped by UserSiteAccess
+ *
+ * @returns Error response, or null if the member can be managed
+ */
+async function verifyMemberAccess(session: any, userId: string): Promise<NextResponse | null> {
+  if (session.user.role !== 'ORG_ADMIN' || !session.user.organizationId) {
+    return NextResponse.json(
+      { error: 'Forbidden: Only organization admins can manage site access' },
+      { status: 403 }
+    );
+  }
+
+  const member = await prisma.user.findFirst({
+    where: { id: userId, organizationId: session.user.organizationId },
+    select: { role: true },
+  });
+
+  if (!member) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 });
+  }
+
+  if (!isSiteRole(member.role)) {
+    return NextResponse.json(
+      { error: 'Site access only applies to site managers and site users' },
+      { status: 400 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * POST /api/users/[id]/site-access
+ *
+ * Grant a user access to a site
+ *
+ * ACCESS: ORG_ADMIN of the user's organization
+ *
+ * BUSINESS LOGIC:
+ * - The site must be an active site of the organization
+ * - Granting existing access is a no-op
+ * - grantedBy records the admin
+ *
+ * REQUEST BODY:
+ * {
+ *   "siteId": "uuid"
+ * }
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const accessError = await verifyMemberAccess(session, id);
+    if (accessError) {
+      return accessError;
+    }
+
+    const body = await request.json();
+    const { siteId } = siteAccessSchema.parse(body);
+
+    const site = await prisma.site.findFirst({
+      where: { id: siteId, organizationId: session.user.organizationId!, isActive: true },
+      select: { id: true },
+    });
+
+    if (!site) {
+      return NextResponse.json({ error: 'Site not found' }, { status: 404 });
+    }
+
+    const access = await prisma.userSiteAccess.upsert({
+      where: { userId_siteId: { userId: id, siteId } },
+      create: { userId: id, siteId, grantedBy: session.user.id },
+      update: {},
+      select: {
+        id: true,
+        grantedAt: true,
+        site: { select: { id: true, name: true } },
+        granter: { select: { id: true, firstName: true, lastName: true } },
+      },
+    });
+
+    return NextResponse.json(access, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Validation error', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error granting site access:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/users/[id]/site-access?siteId=...
+ *
+ * Revoke a user's access to a site
+ *
+ * ACCESS: ORG_ADMIN of the user's organization
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const accessError = await verifyMemberAccess(session, id);
+    if (accessError) {
+      return accessError;
+    }
+
+    const siteId = request.nextUrl.searchParams.get('siteId');
+    if (!siteId) {
+      return NextResponse.json({ error: 'siteId is required' }, { status: 400 });
+    }
+
+    const { count } = await prisma.userSiteAccess.deleteMany({
+      where: { userId: id, siteId },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Site access not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Site access revoked' });
+  } catch (error) {
+    console.error('Error revoking site access:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+// ===========================================
+// FILE: src/app/api/users/route.ts
+// PURPOSE: API endpoint for listing team members
+// PRD REFERENCE: PRD Section 3 - User Roles & Permissions
+// ===========================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getAssignableRoles, getTeamScope, teamMemberSelect } from '@/lib/team';
+
+/**
+ * GET /api/users
+ *
+ * Fetch members of the current admin's team
+ *
+ * ACCESS: DISTRIBUTOR_ADMIN (distributor team), ORG_ADMIN (organization team)
+ *
+ * QUERY PARAMS:
+ * - includeInactive: Include deactivated users (default true)
+ *
+ * RETURNS: Array of users with their site access grants
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const session = await auth();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const teamScope = getTeamScope(session.user);
+    if (getAssignableRoles(session.user.role).length === 0 || !teamScope) {
+      return NextResponse.json(
+        { error: 'Forbidden: Only admins can view the team' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const includeInactive = searchParams.get('includeInactive') !== 'false';
+
+    const users = await prisma.user.findMany({
+      where: {
+        ...teamScope,
+        ...(includeInactive ? {} : { isActive: true }),
+      },
+      select: teamMemberSelect,
+      orderBy: [{ isActive: 'desc' }, { firstName: 'asc' }, { lastName: 'asc' }],
+    });
+
+    return NextResponse.json(users);
+  } catch (error) {
+    console.error('Error fetching team:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
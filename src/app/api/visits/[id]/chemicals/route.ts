@@ -6,8 +6,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
-import { prisma } from '@/lib/prisma';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
 import { chemicalEntrySchema, bulkChemicalEntriesSchema, updateChemicalEntrySchema } from '@/lib/validations';
+import { areChemicalsAtSite, recalculateChemicalUsage, recalculateUsageForChemicals } from '@/lib/usage';
+import { resolveChemicalEntry, ChemicalEntryError } from '@/lib/conversions';
+import { linkDeliveredOrderLines, refreshProposedOrdersSafely } from '@/lib/replenishment';
 import { z } from 'zod';
 
 interface RouteContext {
@@ -89,6 +92,21 @@ export async function GET(request: NextRequest, context: RouteContext) {
   }
 }
 
+/**
+ * Include shape for returning chemical entries
+ */
+const chemicalEntryInclude = {
+  chemicalSiteConfig: {
+    include: {
+      chemicalOrgConfig: {
+        include: {
+          chemicalMaster: true,
+        },
+      },
+    },
+  },
+};
+
 /**
  * POST /api/visits/[id]/chemicals
  *
@@ -96,6 +114,16 @@ export async function GET(request: NextRequest, context: RouteContext) {
  *
  * WHY: Record inventory measurements during visits
  *
+ * BUSINESS LOGIC:
+ * - INCHES entries are converted to gallons using the chemical's primary
+ *   container chart; out-of-range readings are rejected with a 400
+ * - calculatedUsageGallons is computed server-side from the previous entry
+ *   for the same chemical; any client-supplied value is ignored
+ * - Entries recorded after this one are re-cascaded
+ * - Chemicals must be configured at the visit's site
+ * - Entries with a delivery received mark pending delivered orders as recorded
+ * - The site's proposed order for its next visit is refreshed afterwards
+ *
  * BODY: ChemicalEntryInput or BulkChemicalEntriesInput
  * RETURNS: Created entries
  */
@@ -160,59 +188,109 @@ export async function POST(request: NextRequest, context: RouteContext) {
     if (body.entries) {
       const validatedData = bulkChemicalEntriesSchema.parse(body);
 
-      const entries = await prisma.visitLogChemicalEntry.createManyAndReturn({
-        data: validatedData.entries.map((entry) => ({
-          visitLogId: visitId,
-          chemicalSiteConfigId: entry.chemicalSiteConfigId,
-          entryMethod: entry.entryMethod,
-          levelGallons: entry.levelGallons,
-          levelInches: entry.levelInches,
-          backstockCount: entry.backstockCount,
-          backstockGallons: entry.backstockGallons,
-          deliveryReceived: entry.deliveryReceived,
-          deliveryCount: entry.deliveryCount,
-          deliveryGallons: entry.deliveryGallons,
-          totalOnHandGallons: entry.totalOnHandGallons,
-          calculatedUsageGallons: entry.calculatedUsageGallons,
-          notes: entry.notes,
-        })),
+      const atSite = await areChemicalsAtSite(
+        prisma,
+        visit.siteId,
+        validatedData.entries.map((entry) => entry.chemicalSiteConfigId)
+      );
+      if (!atSite) {
+        return NextResponse.json(
+          { error: "Chemical is not configured at this visit's site" },
+          { status: 400 }
+        );
+      }
+
+      const entries = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+        const resolvedEntries = [];
+        for (const entry of validatedData.entries) {
+          resolvedEntries.push({
+            ...entry,
+            ...(await resolveChemicalEntry(tx, entry.chemicalSiteConfigId, entry)),
+          });
+        }
+
+        const created = await tx.visitLogChemicalEntry.createManyAndReturn({
+          data: resolvedEntries.map((entry) => ({
+            visitLogId: visitId,
+            chemicalSiteConfigId: entry.chemicalSiteConfigId,
+            entryMethod: entry.entryMethod,
+            levelGallons: entry.levelGallons,
+            levelInches: entry.levelInches,
+            backstockCount: entry.backstockCount,
+            backstockPartialGallons: entry.backstockPartialGallons,
+            backstockGallons: entry.backstockGallons,
+            deliveryReceived: entry.deliveryReceived,
+            deliveryCount: entry.deliveryCount,
+            deliveryGallons: entry.deliveryGallons,
+            totalOnHandGallons: entry.totalOnHandGallons,
+            notes: entry.notes,
+          })),
+        });
+
+        await recalculateUsageForChemicals(
+          tx,
+          created.map((entry: { chemicalSiteConfigId: string }) => entry.chemicalSiteConfigId)
+        );
+        await linkDeliveredOrderLines(tx, created);
+
+        // Re-read so the response carries the computed usage
+        return tx.visitLogChemicalEntry.findMany({
+          where: { id: { in: created.map((entry: { id: string }) => entry.id) } },
+          orderBy: { createdAt: 'asc' },
+        });
       });
 
+      await refreshProposedOrdersSafely([visit.siteId]);
+
       return NextResponse.json(entries, { status: 201 });
     }
 
     // Single entry
     const validatedData = chemicalEntrySchema.parse(body);
 
-    const entry = await prisma.visitLogChemicalEntry.create({
-      data: {
-        visitLogId: visitId,
-        chemicalSiteConfigId: validatedData.chemicalSiteConfigId,
-        entryMethod: validatedData.entryMethod,
-        levelGallons: validatedData.levelGallons,
-        levelInches: validatedData.levelInches,
-        backstockCount: validatedData.backstockCount,
-        backstockGallons: validatedData.backstockGallons,
-        deliveryReceived: validatedData.deliveryReceived,
-        deliveryCount: validatedData.deliveryCount,
-        deliveryGallons: validatedData.deliveryGallons,
-        totalOnHandGallons: validatedData.totalOnHandGallons,
-        calculatedUsageGallons: validatedData.calculatedUsageGallons,
-        notes: validatedData.notes,
-      },
-      include: {
-        chemicalSiteConfig: {
-          include: {
-            chemicalOrgConfig: {
-              include: {
-                chemicalMaster: true,
-              },
-            },
-          },
+    if (!(await areChemicalsAtSite(prisma, visit.siteId, [validatedData.chemicalSiteConfigId]))) {
+      return NextResponse.json(
+        { error: "Chemical is not configured at this visit's site" },
+        { status: 400 }
+      );
+    }
+
+    const entry = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      const gallons = await resolveChemicalEntry(
+        tx,
+        validatedData.chemicalSiteConfigId,
+        validatedData
+      );
+
+      const created = await tx.visitLogChemicalEntry.create({
+        data: {
+          visitLogId: visitId,
+          chemicalSiteConfigId: validatedData.chemicalSiteConfigId,
+          entryMethod: validatedData.entryMethod,
+          levelGallons: gallons.levelGallons,
+          levelInches: validatedData.levelInches,
+          backstockCount: validatedData.backstockCount,
+          backstockPartialGallons: gallons.backstockPartialGallons,
+          backstockGallons: gallons.backstockGallons,
+          deliveryReceived: validatedData.deliveryReceived,
+          deliveryCount: validatedData.deliveryCount,
+          deliveryGallons: gallons.deliveryGallons,
+          totalOnHandGallons: gallons.totalOnHandGallons,
+          notes: validatedData.notes,
         },
-      },
+      });
+
+      await recalculateChemicalUsage(tx, created.chemicalSiteConfigId);
+      await linkDeliveredOrderLines(tx, [created]);
+
+      return tx.visitLogChemicalEntry.findUnique({
+        where: { id: created.id },
+        include: chemicalEntryInclude,
+      });
     });
 
+    await refreshProposedOrdersSafely([visit.siteId]);
+
     return NextResponse.json(entry, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -222,6 +300,10 @@ export async function POST(request: NextRequest, context: RouteContext) {
       );
     }
 
+    if (error instanceof ChemicalEntryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error('Error creating chemical entry:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -237,6 +319,11 @@ export async function POST(request: NextRequest, context: RouteContext) {
  *
  * WHY: Correct inventory measurements
  *
+ * BUSINESS LOGIC:
+ * - Usage for this entry and every later entry of the same chemical
+ *   is recalculated, since this entry is the next one's baseline
+ * - Usage anomalies are re-derived, so a corrected reading clears its flag
+ *
  * BODY: UpdateChemicalEntryInput (must include entry id)
  * RETURNS: Updated entry
  */
@@ -279,14 +366,16 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       );
     }
 
+    // Distributor users may also correct readings flagged for review
     const canEdit =
       session.user.id === visit.userId ||
       session.user.role === 'DISTRIBUTOR_ADMIN' ||
+      session.user.role === 'DISTRIBUTOR_USER' ||
       session.user.role === 'ORG_ADMIN';
 
     if (!canEdit) {
       return NextResponse.json(
-        { error: 'Forbidden: Only the visit creator or admins can edit entries' },
+        { error: 'Forbidden: Only the visit creator, distributors or admins can edit entries' },
         { status: 403 }
       );
     }
@@ -306,55 +395,80 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       );
     }
 
-    // Update entry
-    const entry = await prisma.visitLogChemicalEntry.update({
-      where: { id: validatedData.id },
-      data: {
-        ...(validatedData.entryMethod !== undefined && {
-          entryMethod: validatedData.entryMethod,
-        }),
-        ...(validatedData.levelGallons !== undefined && {
-          levelGallons: validatedData.levelGallons,
-        }),
-        ...(validatedData.levelInches !== undefined && {
-          levelInches: validatedData.levelInches,
-        }),
-        ...(validatedData.backstockCount !== undefined && {
-          backstockCount: validatedData.backstockCount,
-        }),
-        ...(validatedData.backstockGallons !== undefined && {
-          backstockGallons: validatedData.backstockGallons,
-        }),
-        ...(validatedData.deliveryReceived !== undefined && {
-          deliveryReceived: validatedData.deliveryReceived,
-        }),
-        ...(validatedData.deliveryCount !== undefined && {
-          deliveryCount: validatedData.deliveryCount,
-        }),
-        ...(validatedData.deliveryGallons !== undefined && {
-          deliveryGallons: validatedData.deliveryGallons,
-        }),
-        ...(validatedData.totalOnHandGallons !== undefined && {
-          totalOnHandGallons: validatedData.totalOnHandGallons,
-        }),
-        ...(validatedData.calculatedUsageGallons !== undefined && {
-          calculatedUsageGallons: validatedData.calculatedUsageGallons,
-        }),
-        ...(validatedData.notes !== undefined && {
-          notes: validatedData.notes,
-        }),
-      },
-      include: {
-        chemicalSiteConfig: {
-          include: {
-            chemicalOrgConfig: {
-              include: {
-                chemicalMaster: true,
-              },
-            },
-          },
+    // Update entry and re-cascade usage
+    const entry = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      /**
+       * Re-resolve gallons against the merged entry
+       * WHY: A partial update (e.g. only the backstock count) still changes
+       * the backstock gallons and total on hand
+       */
+      const gallons = await resolveChemicalEntry(tx, existingEntry.chemicalSiteConfigId, {
+        entryMethod: validatedData.entryMethod ?? existingEntry.entryMethod,
+        levelInches:
+          validatedData.levelInches !== undefined
+            ? validatedData.levelInches
+            : existingEntry.levelInches === null
+              ? null
+              : Number(existingEntry.levelInches),
+        levelGallons:
+          validatedData.levelGallons !== undefined
+            ? validatedData.levelGallons
+            : existingEntry.levelGallons === null
+              ? null
+              : Number(existingEntry.levelGallons),
+        backstockCount: validatedData.backstockCount ?? existingEntry.backstockCount,
+        backstockPartialGallons:
+          validatedData.backstockPartialGallons ?? Number(existingEntry.backstockPartialGallons),
+        backstockGallons: validatedData.backstockGallons ?? Number(existingEntry.backstockGallons),
+        deliveryReceived: validatedData.deliveryReceived ?? existingEntry.deliveryReceived,
+        deliveryCount:
+          validatedData.deliveryCount !== undefined
+            ? validatedData.deliveryCount
+            : existingEntry.deliveryCount,
+        deliveryGallons:
+          validatedData.deliveryGallons !== undefined
+            ? validatedData.deliveryGallons
+            : existingEntry.deliveryGallons === null
+              ? null
+              : Number(existingEntry.deliveryGallons),
+        totalOnHandGallons: validatedData.totalOnHandGallons,
+      });
+
+      await tx.visitLogChemicalEntry.update({
+        where: { id: validatedData.id },
+        data: {
+          ...(validatedData.entryMethod !== undefined && {
+            entryMethod: validatedData.entryMethod,
+          }),
+          levelGallons: gallons.levelGallons,
+          ...(validatedData.levelInches !== undefined && {
+            levelInches: validatedData.levelInches,
+          }),
+          ...(validatedData.backstockCount !== undefined && {
+            backstockCount: validatedData.backstockCount,
+          }),
+          backstockPartialGallons: gallons.backstockPartialGallons,
+          backstockGallons: gallons.backstockGallons,
+          ...(validatedData.deliveryReceived !== undefined && {
+            deliveryReceived: validatedData.deliveryReceived,
+          }),
+          ...(validatedData.deliveryCount !== undefined && {
+            deliveryCount: validatedData.deliveryCount,
+          }),
+          deliveryGallons: gallons.deliveryGallons,
+          totalOnHandGallons: gallons.totalOnHandGallons,
+          ...(validatedData.notes !== undefined && {
+            notes: validatedData.notes,
+          }),
         },
-      },
+      });
+
+      await recalculateChemicalUsage(tx, existingEntry.chemicalSiteConfigId);
+
+      return tx.visitLogChemicalEntry.findUnique({
+        where: { id: validatedData.id },
+        include: chemicalEntryInclude,
+      });
     });
 
     return NextResponse.json(entry);
@@ -366,6 +480,10 @@ export async function PUT(request: NextRequest, context: RouteContext) {
       );
     }
 
+    if (error instanceof ChemicalEntryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error('Error updating chemical entry:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -381,6 +499,10 @@ export async function PUT(request: NextRequest, context: RouteContext) {
  *
  * WHY: Remove incorrect entries
  *
+ * BUSINESS LOGIC:
+ * - The following entry for the same chemical is recalculated against
+ *   the entry before the deleted one
+ *
  * QUERY: entryId - the entry to delete
  */
 export async function DELETE(request: NextRequest, context: RouteContext) {
@@ -455,9 +577,13 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
       );
     }
 
-    // Delete entry
-    await prisma.visitLogChemicalEntry.delete({
-      where: { id: entryId },
+    // Delete entry and re-cascade usage
+    await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      await tx.visitLogChemicalEntry.delete({
+        where: { id: entryId },
+      });
+
+      await recalculateChemicalUsage(tx, existingEntry.chemicalSiteConfigId);
     });
 
     return NextResponse.json({ success: true });
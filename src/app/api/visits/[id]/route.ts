@@ -6,8 +6,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
-import { prisma } from '@/lib/prisma';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
 import { updateVisitLogSchema } from '@/lib/validations';
+import { recalculateUsageForChemicals } from '@/lib/usage';
 import { z } from 'zod';
 
 interface RouteContext {
@@ -63,6 +64,10 @@ export async function GET(request: NextRequest, context: RouteContext) {
                 },
               },
             },
+            anomalies: {
+              where: { status: { not: 'RESOLVED' } },
+              orderBy: { detectedAt: 'asc' },
+            },
           },
           orderBy: { createdAt: 'asc' },
         },
@@ -211,34 +216,53 @@ export async function PUT(request: NextRequest, context: RouteContext) {
     const body = await request.json();
     const validatedData = updateVisitLogSchema.parse(body);
 
-    // Update visit
-    const visit = await prisma.visitLog.update({
-      where: { id },
-      data: {
-        ...(validatedData.visitDate && {
-          visitDate: new Date(validatedData.visitDate),
-        }),
-        ...(validatedData.publicNotes !== undefined && {
-          publicNotes: validatedData.publicNotes,
-        }),
-        ...(validatedData.privateNotes !== undefined && {
-          privateNotes: validatedData.privateNotes,
-        }),
-        ...(validatedData.serviceNotes !== undefined && {
-          serviceNotes: validatedData.serviceNotes,
-        }),
-        ...(validatedData.privateServiceNotes !== undefined && {
-          privateServiceNotes: validatedData.privateServiceNotes,
-        }),
-      },
-      include: {
-        site: {
-          select: { id: true, name: true },
+    /**
+     * Update visit
+     * WHY: Moving a visit to another date changes its position in each
+     * chemical's history, so usage must be re-cascaded in the same transaction
+     */
+    const visit = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      const updatedVisit = await tx.visitLog.update({
+        where: { id },
+        data: {
+          ...(validatedData.visitDate && {
+            visitDate: new Date(validatedData.visitDate),
+          }),
+          ...(validatedData.publicNotes !== undefined && {
+            publicNotes: validatedData.publicNotes,
+          }),
+          ...(validatedData.privateNotes !== undefined && {
+            privateNotes: validatedData.privateNotes,
+          }),
+          ...(validatedData.serviceNotes !== undefined && {
+            serviceNotes: validatedData.serviceNotes,
+          }),
+          ...(validatedData.privateServiceNotes !== undefined && {
+            privateServiceNotes: validatedData.privateServiceNotes,
+          }),
         },
-        user: {
-          select: { id: true, firstName: true, lastName: true },
+        include: {
+          site: {
+            select: { id: true, name: true },
+          },
+          user: {
+            select: { id: true, firstName: true, lastName: true },
+          },
         },
-      },
+      });
+
+      if (validatedData.visitDate) {
+        const entries = await tx.visitLogChemicalEntry.findMany({
+          where: { visitLogId: id },
+          select: { chemicalSiteConfigId: true },
+        });
+        await recalculateUsageForChemicals(
+          tx,
+          entries.map((entry: { chemicalSiteConfigId: string }) => entry.chemicalSiteConfigId)
+        );
+      }
+
+      return updatedVisit;
     });
 
     return NextResponse.json(visit);
@@ -325,9 +349,25 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
       );
     }
 
-    // Delete visit (cascades to entries)
-    await prisma.visitLog.delete({
-      where: { id },
+    /**
+     * Delete visit (cascades to entries)
+     * WHY: The entries that followed this visit lose their baseline, so
+     * usage for each affected chemical is recalculated after the delete
+     */
+    await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      const entries = await tx.visitLogChemicalEntry.findMany({
+        where: { visitLogId: id },
+        select: { chemicalSiteConfigId: true },
+      });
+
+      await tx.visitLog.delete({
+        where: { id },
+      });
+
+      await recalculateUsageForChemicals(
+        tx,
+        entries.map((entry: { chemicalSiteConfigId: string }) => entry.chemicalSiteConfigId)
+      );
     });
 
     return NextResponse.json({ success: true });
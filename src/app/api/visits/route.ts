@@ -8,6 +8,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { prisma, PrismaTransactionClient } from '@/lib/prisma';
 import { visitLogSchema, completeVisitSchema, visitQuerySchema } from '@/lib/validations';
+import { areChemicalsAtSite, recalculateUsageForChemicals } from '@/lib/usage';
+import { resolveChemicalEntry, ChemicalEntryError } from '@/lib/conversions';
+import { linkDeliveredOrderLines, refreshProposedOrdersSafely } from '@/lib/replenishment';
 import { z } from 'zod';
 
 /**
@@ -171,6 +174,10 @@ export async function GET(request: NextRequest) {
  * WHY: Record site visits with inventory measurements and service notes.
  * Supports creating a complete visit with all entries in one request.
  *
+ * BUSINESS LOGIC:
+ * - Entries with a delivery received mark pending delivered orders as recorded
+ * - The site's proposed order for its next visit is refreshed afterwards
+ *
  * BODY: VisitLogInput OR CompleteVisitInput
  * RETURNS: Created VisitLog record
  */
@@ -186,11 +193,11 @@ export async function POST(request: NextRequest) {
 
     // Check if this is a complete visit request
     if (body.visit) {
-      return createCompleteVisit(session, body);
+      return await createCompleteVisit(session, body);
     }
 
     // Otherwise, create just the visit log
-    return createVisitLog(session, body);
+    return await createVisitLog(session, body);
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -199,6 +206,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof ChemicalEntryError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error('Error creating visit:', error);
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -261,6 +272,17 @@ async function createCompleteVisit(session: any, body: any) {
     );
   }
 
+  // Entries re-cascade their chemical's history, so they must be for this site
+  const chemicalIds = (validatedData.chemicalEntries ?? []).map(
+    (entry) => entry.chemicalSiteConfigId
+  );
+  if (!(await areChemicalsAtSite(prisma, validatedData.visit.siteId, chemicalIds))) {
+    return NextResponse.json(
+      { error: "Chemical is not configured at this visit's site" },
+      { status: 400 }
+    );
+  }
+
   // Create everything in a transaction
   const visit = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
     // Create visit log
@@ -278,23 +300,41 @@ async function createCompleteVisit(session: any, body: any) {
 
     // Create chemical entries if provided
     if (validatedData.chemicalEntries && validatedData.chemicalEntries.length > 0) {
-      await tx.visitLogChemicalEntry.createMany({
-        data: validatedData.chemicalEntries.map((entry) => ({
+      // Resolve gallons from inch readings and container counts
+      const chemicalEntries = [];
+      for (const entry of validatedData.chemicalEntries) {
+        chemicalEntries.push({
+          ...entry,
+          ...(await resolveChemicalEntry(tx, entry.chemicalSiteConfigId, entry)),
+        });
+      }
+
+      const created = await tx.visitLogChemicalEntry.createManyAndReturn({
+        data: chemicalEntries.map((entry) => ({
           visitLogId: newVisit.id,
           chemicalSiteConfigId: entry.chemicalSiteConfigId,
           entryMethod: entry.entryMethod,
           levelGallons: entry.levelGallons,
           levelInches: entry.levelInches,
           backstockCount: entry.backstockCount,
+          backstockPartialGallons: entry.backstockPartialGallons,
           backstockGallons: entry.backstockGallons,
           deliveryReceived: entry.deliveryReceived,
           deliveryCount: entry.deliveryCount,
           deliveryGallons: entry.deliveryGallons,
           totalOnHandGallons: entry.totalOnHandGallons,
-          calculatedUsageGallons: entry.calculatedUsageGallons,
           notes: entry.notes,
         })),
       });
+
+      // Compute usage server-side against each chemical's previous entry
+      await recalculateUsageForChemicals(
+        tx,
+        chemicalEntries.map((entry) => entry.chemicalSiteConfigId)
+      );
+
+      // Deliveries recorded here use up the delivered order lines
+      await linkDeliveredOrderLines(tx, created);
     }
 
     // Create service entries if provided
@@ -349,6 +389,9 @@ async function createCompleteVisit(session: any, body: any) {
     });
   });
 
+  // New readings change what the next visit needs
+  await refreshProposedOrdersSafely([validatedData.visit.siteId]);
+
   return NextResponse.json(visit, { status: 201 });
 }
 
@@ -18,6 +18,8 @@ interface MetricCard {
   trend?: 'up' | 'down' | 'neutral';
   format?: 'number' | 'currency' | 'percent';
   icon?: 'dollar' | 'chart' | 'package' | 'alert' | 'calendar' | 'flask';
+  detail?: string; // Secondary line, e.g. a target or budget comparison
+  highlight?: 'success' | 'warning' | 'error'; // Colors the detail line
 }
 
 interface AnalyticsSummaryCardsProps {
@@ -36,6 +38,7 @@ interface AnalyticsSummaryCardsProps {
  * - Percentage change indicators
  * - Trend arrows (up/down)
  * - Icon support for visual context
+ * - Optional detail line (e.g. variance against a target)
  * - Responsive grid layout
  *
  * @param metrics - Array of metric cards to display
@@ -233,6 +236,19 @@ export function AnalyticsSummaryCards({
                   <span className="text-xs text-text-tertiary">vs prev</span>
                 </div>
               )}
+              {metric.detail && (
+                <p
+                  className={cn(
+                    'text-xs mt-2',
+                    metric.highlight === 'success' && 'text-success',
+                    metric.highlight === 'warning' && 'text-warning',
+                    metric.highlight === 'error' && 'text-error',
+                    !metric.highlight && 'text-text-secondary'
+                  )}
+                >
+                  {metric.detail}
+                </p>
+              )}
             </div>
             {metric.icon && (
               <div className="p-2 bg-bg-tertiary rounded-lg text-text-secondary">
@@ -0,0 +1,50 @@
+// ===========================================
+// FILE: src/components/dashboard/OverBudgetBadge.tsx
+// PURPOSE: "Over budget" badge for month-to-date chemical spend projections
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// USED BY: Distributor dashboard
+// ===========================================
+
+import React from 'react';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+import { formatCurrency } from '@/lib/utils';
+
+interface OverBudgetBadgeProps {
+  budget: {
+    monthlyBudget: number;
+    projectedMonthCost: number;
+    isOverBudget: boolean;
+  } | null | undefined;
+  size?: 'sm' | 'md' | 'lg';
+  className?: string;
+}
+
+/**
+ * OverBudgetBadge Component
+ *
+ * WHY: Flags sites whose spend so far this month projects past their
+ * budget, while there's still time to adjust dosing or talk to the client.
+ *
+ * BUSINESS LOGIC:
+ * - Renders nothing without a budget or when on track
+ * - Shows the projected month cost against the budget
+ *
+ * EXAMPLE:
+ * ```tsx
+ * <OverBudgetBadge budget={site.budget} />
+ * ```
+ */
+export function OverBudgetBadge({ budget, size = 'sm', className }: OverBudgetBadgeProps) {
+  if (!budget || !budget.isOverBudget) {
+    return null;
+  }
+
+  return (
+    <StatusBadge
+      status="CRITICAL"
+      label={`Over budget: ${formatCurrency(budget.projectedMonthCost)} / ${formatCurrency(budget.monthlyBudget)}`}
+      size={size}
+      className={className}
+    />
+  );
+}
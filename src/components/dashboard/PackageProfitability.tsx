@@ -0,0 +1,236 @@
+// ===========================================
+// FILE: src/components/dashboard/PackageProfitability.tsx
+// PURPOSE: Package chemical cost vs. wash and membership prices
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// USED BY: SiteAnalyticsDashboard
+// ===========================================
+
+'use client';
+
+import React from 'react';
+import { Card, Select } from '@/components/ui';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { SiteProfitability } from '@/lib/profitability';
+
+/**
+ * Response shape of /api/analytics/package-profitability
+ * WHY: Dates arrive as ISO strings; everything else matches SiteProfitability
+ */
+export type PackageProfitabilityData = SiteProfitability & {
+  period: { startDate: string; endDate: string };
+};
+
+interface PackageProfitabilityProps {
+  data: PackageProfitabilityData | null;
+  threshold: string;
+  onThresholdChange: (threshold: string) => void;
+  loading?: boolean;
+  className?: string;
+}
+
+/**
+ * Format a chemical share for display
+ */
+function formatShare(percent: number | null): string {
+  return percent !== null ? `${percent.toFixed(1)}%` : '--';
+}
+
+/**
+ * Format a month bucket start for display
+ * WHY: Month starts are UTC midnight; local parsing would show the previous month
+ */
+function formatMonth(periodStart: string): string {
+  return new Date(periodStart).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * PackageProfitability Component
+ *
+ * WHY: Shows chemical cost as a share of what each package sells for, so
+ * operators can spot packages whose chemistry is eating the margin.
+ *
+ * FEATURES:
+ * - Retail / membership car split per package
+ * - Chemical share of the single wash price and of a member wash
+ * - Margin per car and average margin per month
+ * - Packages above the chosen chemical share flagged
+ * - Monthly margin per package
+ */
+export function PackageProfitability({
+  data,
+  threshold,
+  onThresholdChange,
+  loading = false,
+  className,
+}: PackageProfitabilityProps) {
+  const months = data?.packages[0]?.months.map((month) => month.periodStart) ?? [];
+  const hasCars = !!data && data.totals.cars > 0;
+
+  return (
+    <Card className={cn('p-4', className)}>
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-text-primary">Package Profitability</h3>
+          {data && (
+            <p className="text-sm text-text-secondary">
+              Member washes are valued at the monthly price ÷ {data.memberWashesPerMonth} washes.
+            </p>
+          )}
+        </div>
+        <Select
+          value={threshold}
+          onChange={(e) => onThresholdChange(e.target.value)}
+          className="w-full sm:w-auto"
+          options={[
+            { value: '5', label: 'Flag above 5% chemical share' },
+            { value: '10', label: 'Flag above 10% chemical share' },
+            { value: '15', label: 'Flag above 15% chemical share' },
+            { value: '20', label: 'Flag above 20% chemical share' },
+          ]}
+        />
+      </div>
+
+      {loading ? (
+        <p className="text-text-secondary text-center py-4">Loading profitability...</p>
+      ) : !data || !hasCars ? (
+        <p className="text-text-secondary text-center py-4">
+          Record car counts by package to see profitability
+        </p>
+      ) : (
+        <div className="space-y-6">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-2 px-3 text-text-secondary font-medium">Package</th>
+                  <th className="text-right py-2 px-3 text-text-secondary font-medium">Retail / Member Cars</th>
+                  <th className="text-right py-2 px-3 text-text-secondary font-medium">Chemical/Car</th>
+                  <th className="text-right py-2 px-3 text-text-secondary font-medium">Retail Share</th>
+                  <th className="text-right py-2 px-3 text-text-secondary font-medium">Member Share</th>
+                  <th className="text-right py-2 px-3 text-text-secondary font-medium">Margin/Car</th>
+                  <th className="text-right py-2 px-3 text-text-secondary font-medium">Margin/Month</th>
+                  <th className="text-right py-2 px-3 text-text-secondary font-medium">Chemical Share</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.packages.map((pkg) => (
+                  <tr key={pkg.packageId} className="border-b border-border-light">
+                    <td className="py-2 px-3 text-text-primary">
+                      {pkg.packageName}
+                      <p className="text-xs text-text-secondary">
+                        {pkg.singleWashPrice !== null ? formatCurrency(pkg.singleWashPrice) : 'No price'}
+                        {pkg.membershipPrice !== null && ` · ${formatCurrency(pkg.membershipPrice)}/mo`}
+                      </p>
+                    </td>
+                    <td className="py-2 px-3 text-text-primary text-right">
+                      {pkg.retailCars.toLocaleString()} / {pkg.membershipCars.toLocaleString()}
+                    </td>
+                    <td className="py-2 px-3 text-text-primary text-right">
+                      {formatCurrency(pkg.chemicalCostPerCar)}
+                    </td>
+                    <td className="py-2 px-3 text-text-primary text-right">
+                      {formatShare(pkg.retailChemicalSharePercent)}
+                    </td>
+                    <td className="py-2 px-3 text-text-primary text-right">
+                      {formatShare(pkg.membershipChemicalSharePercent)}
+                    </td>
+                    <td className="py-2 px-3 text-text-primary text-right">
+                      {formatCurrency(pkg.marginPerCar)}
+                    </td>
+                    <td className="py-2 px-3 text-text-primary text-right">
+                      {formatCurrency(pkg.averageMonthlyMargin)}
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      <span
+                        className={cn(
+                          'font-medium',
+                          pkg.isFlagged ? 'text-error' : 'text-text-primary'
+                        )}
+                      >
+                        {formatShare(pkg.chemicalSharePercent)}
+                      </span>
+                      {pkg.isFlagged && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-error/10 text-error">
+                          Over {data.chemicalShareThreshold}%
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="bg-bg-tertiary">
+                  <td className="py-2 px-3 font-semibold text-text-primary">Total</td>
+                  <td className="py-2 px-3 text-right font-semibold text-text-primary">
+                    {data.totals.retailCars.toLocaleString()} / {data.totals.membershipCars.toLocaleString()}
+                  </td>
+                  <td colSpan={3}></td>
+                  <td className="py-2 px-3 text-right font-semibold text-text-primary">
+                    {formatCurrency(data.totals.cars > 0 ? data.totals.margin / data.totals.cars : 0)}
+                  </td>
+                  <td className="py-2 px-3 text-right font-semibold text-text-primary">
+                    {formatCurrency(data.packages.reduce((sum, pkg) => sum + pkg.averageMonthlyMargin, 0))}
+                  </td>
+                  <td className="py-2 px-3 text-right font-semibold text-text-primary">
+                    {formatShare(data.totals.chemicalSharePercent)}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          {/* Monthly margin */}
+          {months.length > 1 && (
+            <div className="overflow-x-auto">
+              <h4 className="text-sm font-semibold text-text-primary mb-2">Margin by Month</h4>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-2 px-3 text-text-secondary font-medium">Package</th>
+                    {months.map((month) => (
+                      <th key={month} className="text-right py-2 px-3 text-text-secondary font-medium">
+                        {formatMonth(month)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.packages.map((pkg) => (
+                    <tr key={pkg.packageId} className="border-b border-border-light">
+                      <td className="py-2 px-3 text-text-primary">{pkg.packageName}</td>
+                      {pkg.months.map((month) => (
+                        <td
+                          key={month.periodStart}
+                          className={cn(
+                            'py-2 px-3 text-right',
+                            month.chemicalSharePercent !== null &&
+                              month.chemicalSharePercent > data.chemicalShareThreshold
+                              ? 'text-error'
+                              : 'text-text-primary'
+                          )}
+                        >
+                          {month.cars > 0 ? formatCurrency(month.margin) : '--'}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {data.totals.unallocatedCost > 0 && (
+            <p className="text-xs text-text-secondary">
+              {formatCurrency(data.totals.unallocatedCost)} of chemical cost is not assigned to a
+              package with recorded car counts and is left out of package margins.
+            </p>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,251 @@
+// ===========================================
+// FILE: src/components/dashboard/PeriodComparison.tsx
+// PURPOSE: Side-by-side comparison of two analytics periods
+// PRD REFERENCE: PRD Section 7.4 - Period Comparison
+// USED BY: SiteAnalyticsDashboard
+// ===========================================
+
+'use client';
+
+import React from 'react';
+import { Card, Select } from '@/components/ui';
+import { cn, formatCurrency } from '@/lib/utils';
+import type { ComparisonPreset } from '@/lib/analytics';
+
+interface ComparedValue {
+  current: number;
+  previous: number;
+  change: number;
+}
+
+/**
+ * Response shape of /api/analytics/compare
+ */
+export interface PeriodComparisonData {
+  current: { startDate: string; endDate: string };
+  previous: { startDate: string; endDate: string };
+  metrics: {
+    visits: ComparedValue;
+    usageGallons: ComparedValue;
+    cost: ComparedValue;
+    cars: ComparedValue & { isEstimated: boolean };
+    costPerCar: ComparedValue & { isEstimated: boolean };
+  };
+  chemicals: Array<{
+    chemicalId: string;
+    chemicalName: string;
+    chemicalType: string;
+    current: { usageGallons: number; cost: number };
+    previous: { usageGallons: number; cost: number };
+    usageChange: number;
+    costChange: number;
+  }>;
+}
+
+interface PeriodComparisonProps {
+  data: PeriodComparisonData | null;
+  preset: ComparisonPreset;
+  onPresetChange: (preset: ComparisonPreset) => void;
+  loading?: boolean;
+  className?: string;
+}
+
+/**
+ * Format a YYYY-MM-DD range for display
+ */
+function formatRange(range: { startDate: string; endDate: string }): string {
+  const format = (value: string) =>
+    new Date(`${value}T00:00:00`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  return `${format(range.startDate)} - ${format(range.endDate)}`;
+}
+
+/**
+ * Percentage change pill
+ * WHY: Whether "up" is good depends on the metric (more cars is good,
+ * higher cost per car is not)
+ */
+function ChangePill({ change, higherIsBetter }: { change: number; higherIsBetter: boolean }) {
+  const isNeutral = change === 0;
+  const isGood = higherIsBetter ? change > 0 : change < 0;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium',
+        isNeutral
+          ? 'bg-bg-tertiary text-text-secondary'
+          : isGood
+          ? 'bg-success/10 text-success'
+          : 'bg-error/10 text-error'
+      )}
+    >
+      {change > 0 ? '+' : ''}
+      {change.toFixed(1)}%
+    </span>
+  );
+}
+
+/**
+ * PeriodComparison Component
+ *
+ * WHY: Owners judge a month against last year's same month (seasonality)
+ * or against the period just before it (recent changes).
+ *
+ * FEATURES:
+ * - Preset selector (previous period / same month last year)
+ * - Visits, usage, cost, cars and cost per car side by side
+ * - Per-chemical usage and cost deltas
+ */
+export function PeriodComparison({
+  data,
+  preset,
+  onPresetChange,
+  loading = false,
+  className,
+}: PeriodComparisonProps) {
+  const rows = data
+    ? [
+        {
+          label: 'Visits',
+          value: data.metrics.visits,
+          format: (v: number) => v.toLocaleString(),
+          higherIsBetter: true,
+        },
+        {
+          label: 'Usage',
+          value: data.metrics.usageGallons,
+          format: (v: number) => `${v.toFixed(1)} gal`,
+          higherIsBetter: false,
+        },
+        {
+          label: 'Chemical Cost',
+          value: data.metrics.cost,
+          format: formatCurrency,
+          higherIsBetter: false,
+        },
+        {
+          label: data.metrics.cars.isEstimated ? 'Cars (est.)' : 'Cars',
+          value: data.metrics.cars,
+          format: (v: number) => v.toLocaleString(),
+          higherIsBetter: true,
+        },
+        {
+          label: data.metrics.costPerCar.isEstimated ? 'Cost Per Car (est.)' : 'Cost Per Car',
+          value: data.metrics.costPerCar,
+          format: formatCurrency,
+          higherIsBetter: false,
+        },
+      ]
+    : [];
+
+  return (
+    <Card className={cn('p-4', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-text-primary">Period Comparison</h3>
+        <Select
+          value={preset}
+          onChange={(e) => onPresetChange(e.target.value as ComparisonPreset)}
+          className="w-full sm:w-auto"
+          options={[
+            { value: 'previous_period', label: 'vs. Previous Period' },
+            { value: 'same_month_last_year', label: 'vs. Same Month Last Year' },
+          ]}
+        />
+      </div>
+
+      {loading || !data ? (
+        <p className="text-sm text-text-secondary py-6 text-center">
+          {loading ? 'Loading comparison...' : 'No comparison available'}
+        </p>
+      ) : (
+        <div className="space-y-6">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="text-left py-2 px-3 text-text-secondary font-medium">Metric</th>
+                  <th className="text-right py-2 px-3 text-text-secondary font-medium">
+                    Current
+                    <span className="block text-xs font-normal">{formatRange(data.current)}</span>
+                  </th>
+                  <th className="text-right py-2 px-3 text-text-secondary font-medium">
+                    Previous
+                    <span className="block text-xs font-normal">{formatRange(data.previous)}</span>
+                  </th>
+                  <th className="text-right py-2 px-3 text-text-secondary font-medium">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.label} className="border-b border-border-light">
+                    <td className="py-2 px-3 text-text-primary">{row.label}</td>
+                    <td className="py-2 px-3 text-text-primary text-right font-medium">
+                      {row.format(row.value.current)}
+                    </td>
+                    <td className="py-2 px-3 text-text-secondary text-right">
+                      {row.format(row.value.previous)}
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      <ChangePill change={row.value.change} higherIsBetter={row.higherIsBetter} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {data.chemicals.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="text-left py-2 px-3 text-text-secondary font-medium">Chemical</th>
+                    <th className="text-right py-2 px-3 text-text-secondary font-medium">
+                      Usage (gal)
+                    </th>
+                    <th className="text-right py-2 px-3 text-text-secondary font-medium">
+                      Usage Change
+                    </th>
+                    <th className="text-right py-2 px-3 text-text-secondary font-medium">Cost</th>
+                    <th className="text-right py-2 px-3 text-text-secondary font-medium">
+                      Cost Change
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.chemicals.map((chem) => (
+                    <tr key={chem.chemicalId} className="border-b border-border-light">
+                      <td className="py-2 px-3 text-text-primary">{chem.chemicalName}</td>
+                      <td className="py-2 px-3 text-text-primary text-right">
+                        {chem.current.usageGallons.toFixed(1)}
+                        <span className="text-text-secondary">
+                          {' '}/ {chem.previous.usageGallons.toFixed(1)}
+                        </span>
+                      </td>
+                      <td className="py-2 px-3 text-right">
+                        <ChangePill change={chem.usageChange} higherIsBetter={false} />
+                      </td>
+                      <td className="py-2 px-3 text-text-primary text-right">
+                        {formatCurrency(chem.current.cost)}
+                        <span className="text-text-secondary">
+                          {' '}/ {formatCurrency(chem.previous.cost)}
+                        </span>
+                      </td>
+                      <td className="py-2 px-3 text-right">
+                        <ChangePill change={chem.costChange} higherIsBetter={false} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
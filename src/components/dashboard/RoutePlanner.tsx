@@ -0,0 +1,377 @@
+// ===========================================
+// FILE: src/components/dashboard/RoutePlanner.tsx
+// PURPOSE: Ordered day plan for a technician with drag-to-reorder
+// PRD REFERENCE: PRD Section 8 - Visit Scheduling
+// USED BY: Schedule page
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, Button, Input, Select } from '@/components/ui';
+import { formatTimeOfDay, type DayItinerary, type ItineraryStop } from '@/lib/routePlanning';
+import { cn } from '@/lib/utils';
+
+interface DayPlan {
+  date: string;
+  technician: { id: string; firstName: string; lastName: string };
+  startTime: string;
+  isSaved: boolean;
+  isOptimized: boolean;
+  itinerary: DayItinerary;
+}
+
+interface Technician {
+  id: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface RoutePlannerProps {
+  currentUserId: string;
+  canPlanTeam: boolean; // Distributor admins plan any teammate's day
+  className?: string;
+}
+
+/**
+ * Today as YYYY-MM-DD in the browser's time zone
+ */
+function getLocalToday(): string {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/**
+ * Visit window for display, e.g. 9:00 AM - 1:00 PM
+ */
+function formatWindow(stop: ItineraryStop): string | null {
+  if (stop.windowStart === null && stop.windowEnd === null) {
+    return null;
+  }
+  const from = stop.windowStart === null ? 'Any time' : formatTimeOfDay(stop.windowStart);
+  const until = stop.windowEnd === null ? 'close' : formatTimeOfDay(stop.windowEnd);
+  return `${from} - ${until}`;
+}
+
+/**
+ * RoutePlanner Component
+ *
+ * WHY: Reps visit 6-10 washes a day. The plan puts the day's visits in
+ * driving order with arrival times against each site's visit window.
+ *
+ * FEATURES:
+ * - Pick a day, technician (admins) and start time
+ * - Proposed order from the route planner until an order is saved
+ * - Drag rows (or use the arrows) to reorder; each change is saved
+ * - Drive estimates, waits and late stops per visit
+ */
+export function RoutePlanner({ currentUserId, canPlanTeam, className }: RoutePlannerProps) {
+  const [date, setDate] = useState(getLocalToday);
+  const [technicianId, setTechnicianId] = useState(currentUserId);
+  const [startTime, setStartTime] = useState('08:00');
+  const [technicians, setTechnicians] = useState<Technician[]>([]);
+  const [plan, setPlan] = useState<DayPlan | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  /**
+   * Load the team for the technician picker (admins only)
+   */
+  useEffect(() => {
+    if (!canPlanTeam) {
+      return;
+    }
+
+    const fetchTechnicians = async () => {
+      try {
+        const response = await fetch('/api/users?includeInactive=false');
+        if (response.ok) {
+          const data = await response.json();
+          setTechnicians(
+            data.filter(
+              (user: any) => user.role === 'DISTRIBUTOR_ADMIN' || user.role === 'DISTRIBUTOR_USER'
+            )
+          );
+        }
+      } catch (error) {
+        console.error('Error fetching technicians:', error);
+      }
+    };
+
+    fetchTechnicians();
+  }, [canPlanTeam]);
+
+  /**
+   * Fetch the day plan (optionally asking for a fresh proposal)
+   */
+  const fetchPlan = useCallback(
+    async (optimize = false) => {
+      if (!date || !startTime) {
+        return;
+      }
+
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({ date, userId: technicianId, startTime });
+        if (optimize) {
+          params.set('optimize', 'true');
+        }
+
+        const response = await fetch(`/api/schedules/day-plan?${params}`);
+        if (!response.ok) {
+          const error = await response.json();
+          throw new Error(error.error || 'Failed to load day plan');
+        }
+
+        setPlan(await response.json());
+      } catch (error: any) {
+        console.error('Error fetching day plan:', error);
+        alert(error.message || 'Failed to load day plan. Please try again.');
+      } finally {
+        setLoading(false);
+      }
+    },
+    [date, technicianId, startTime]
+  );
+
+  useEffect(() => {
+    fetchPlan();
+  }, [fetchPlan]);
+
+  /**
+   * Save a visit order and show the recalculated plan
+   */
+  const saveOrder = async (stops: ItineraryStop[]) => {
+    try {
+      setIsSaving(true);
+      const response = await fetch('/api/schedules/day-plan', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date,
+          userId: technicianId,
+          startTime,
+          scheduledVisitIds: stops.map((stop) => stop.id),
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save route');
+      }
+
+      setPlan(await response.json());
+    } catch (error: any) {
+      console.error('Error saving day plan:', error);
+      alert(error.message || 'Failed to save route. Please try again.');
+      fetchPlan();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * Move a stop to a new position and save
+   */
+  const moveStop = (from: number, to: number) => {
+    if (!plan || from === to || to < 0 || to >= plan.itinerary.stops.length) {
+      return;
+    }
+    const stops = [...plan.itinerary.stops];
+    stops.splice(to, 0, stops.splice(from, 1)[0]);
+    saveOrder(stops);
+  };
+
+  const itinerary = plan?.itinerary;
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Day, technician and start time */}
+      <div className="flex flex-wrap gap-4 items-end">
+        <div className="w-44">
+          <Input
+            label="Day"
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+          />
+        </div>
+        {canPlanTeam && (
+          <div className="w-52">
+            <Select
+              label="Technician"
+              value={technicianId}
+              onChange={(e) => setTechnicianId(e.target.value)}
+              options={
+                technicians.length > 0
+                  ? technicians.map((tech) => ({
+                      value: tech.id,
+                      label: `${tech.firstName} ${tech.lastName}`,
+                    }))
+                  : [{ value: currentUserId, label: 'Me' }]
+              }
+            />
+          </div>
+        )}
+        <div className="w-32">
+          <Input
+            label="Start"
+            type="time"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+          />
+        </div>
+        <Button
+          variant="secondary"
+          onClick={() => fetchPlan(true)}
+          disabled={loading || isSaving || !itinerary || itinerary.stops.length < 2}
+        >
+          Optimize
+        </Button>
+        {plan && !plan.isSaved && itinerary && itinerary.stops.length > 0 && (
+          <Button onClick={() => saveOrder(itinerary.stops)} loading={isSaving} disabled={isSaving}>
+            Save Order
+          </Button>
+        )}
+      </div>
+
+      {loading && !plan ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="text-text-secondary">Loading day plan...</div>
+        </div>
+      ) : !itinerary || itinerary.stops.length === 0 ? (
+        <Card className="p-8 text-center">
+          <p className="text-text-secondary">No scheduled visits for this day</p>
+        </Card>
+      ) : (
+        <>
+          {/* Summary */}
+          <Card className="p-4">
+            <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+              <span className="text-text-primary font-medium">
+                {itinerary.stops.length} stop{itinerary.stops.length !== 1 ? 's' : ''}
+              </span>
+              <span className="text-text-secondary">
+                {itinerary.totalDriveMiles.toFixed(1)} mi · {itinerary.totalDriveMinutes} min driving
+              </span>
+              <span className="text-text-secondary">
+                {formatTimeOfDay(itinerary.startMinutes)} - {formatTimeOfDay(itinerary.endMinutes)}
+              </span>
+              {itinerary.lateStopCount > 0 && (
+                <span className="text-error">
+                  {itinerary.lateStopCount} stop{itinerary.lateStopCount !== 1 ? 's' : ''} past window
+                </span>
+              )}
+              {plan && !plan.isSaved && (
+                <span className="text-warning">Proposed order (not saved)</span>
+              )}
+            </div>
+            {itinerary.unlocatedStopCount > 0 && (
+              <p className="text-xs text-text-tertiary mt-2">
+                {itinerary.unlocatedStopCount} site{itinerary.unlocatedStopCount !== 1 ? 's have' : ' has'} no
+                coordinates, so drive times to {itinerary.unlocatedStopCount !== 1 ? 'them' : 'it'} aren&apos;t
+                estimated. Add coordinates on the Sites page.
+              </p>
+            )}
+          </Card>
+
+          {/* Stops */}
+          <div className={cn('space-y-2', isSaving && 'opacity-60 pointer-events-none')}>
+            {itinerary.stops.map((stop, index) => {
+              const visitWindow = formatWindow(stop);
+
+              return (
+                <Card
+                  key={stop.id}
+                  draggable
+                  onDragStart={() => setDragIndex(index)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={() => {
+                    if (dragIndex !== null) {
+                      moveStop(dragIndex, index);
+                    }
+                    setDragIndex(null);
+                  }}
+                  onDragEnd={() => setDragIndex(null)}
+                  className={cn(
+                    'p-4 cursor-move transition-all',
+                    dragIndex === index && 'opacity-50',
+                    stop.lateMinutes > 0 && 'border-error/40'
+                  )}
+                >
+                  {/* Drive from the previous stop */}
+                  <p className="text-xs text-text-tertiary mb-2">
+                    {stop.driveMinutes === null
+                      ? index === 0
+                        ? 'Start of day'
+                        : 'Drive time unknown'
+                      : `${stop.driveMiles?.toFixed(1)} mi · ${stop.driveMinutes} min drive`}
+                  </p>
+
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-start gap-3 flex-1 min-w-0">
+                      <span className="flex-shrink-0 w-7 h-7 rounded-full bg-primary/10 text-primary text-sm font-medium flex items-center justify-center">
+                        {index + 1}
+                      </span>
+                      <div className="min-w-0">
+                        <h4 className="font-medium text-text-primary truncate">{stop.siteName}</h4>
+                        {stop.organizationName && (
+                          <p className="text-sm text-text-secondary">{stop.organizationName}</p>
+                        )}
+                        {stop.address && (
+                          <p className="text-xs text-text-tertiary truncate">{stop.address}</p>
+                        )}
+                        {stop.notes && (
+                          <p className="text-sm text-text-tertiary mt-1 truncate">{stop.notes}</p>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex items-start gap-3">
+                      <div className="text-right text-sm">
+                        <p className="text-text-primary font-medium">
+                          {formatTimeOfDay(stop.startMinutes)} - {formatTimeOfDay(stop.departureMinutes)}
+                        </p>
+                        {visitWindow && <p className="text-xs text-text-secondary">Window {visitWindow}</p>}
+                        {stop.waitMinutes > 0 && (
+                          <p className="text-xs text-warning">Wait {stop.waitMinutes} min</p>
+                        )}
+                        {stop.lateMinutes > 0 && (
+                          <p className="text-xs text-error">{stop.lateMinutes} min past window</p>
+                        )}
+                      </div>
+
+                      {/* Arrows for touch screens, where dragging isn't available */}
+                      <div className="flex flex-col">
+                        <button
+                          type="button"
+                          onClick={() => moveStop(index, index - 1)}
+                          disabled={index === 0}
+                          className="px-2 text-text-secondary hover:text-primary disabled:opacity-30"
+                          aria-label="Move up"
+                        >
+                          ▲
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => moveStop(index, index + 1)}
+                          disabled={index === itinerary.stops.length - 1}
+                          className="px-2 text-text-secondary hover:text-primary disabled:opacity-30"
+                          aria-label="Move down"
+                        >
+                          ▼
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+// ===========================================
+// FILE: src/components/dashboard/RunOutBadge.tsx
+// PURPOSE: "Runs out in N days" badge for inventory forecasts
+// PRD REFERENCE: PRD Section 7.6 - Inventory Alerts
+// USED BY: TankVisualization, VisitReminder, dashboards
+// ===========================================
+
+import React from 'react';
+import { StatusBadge } from '@/components/ui/StatusBadge';
+
+/**
+ * Run-outs within this many days are critical (red)
+ */
+const RUN_OUT_CRITICAL_DAYS = 3;
+
+/**
+ * Run-outs within this many days are a warning (yellow)
+ * NOTE: Matches the low-inventory endpoint's default threshold
+ */
+export const RUN_OUT_WARNING_DAYS = 7;
+
+interface RunOutBadgeProps {
+  daysUntilEmpty: number | null | undefined;
+  chemicalName?: string;
+  hideAboveDays?: number;
+  size?: 'sm' | 'md' | 'lg';
+  className?: string;
+}
+
+/**
+ * Label for a days-until-empty forecast
+ */
+function getRunOutLabel(days: number): string {
+  if (days <= 0) return 'Out of stock';
+  if (days === 1) return 'Runs out tomorrow';
+  return `Runs out in ${days} days`;
+}
+
+/**
+ * RunOutBadge Component
+ *
+ * WHY: A tank's fill level says how much is left; the forecast says how
+ * long that lasts at the site's burn rate, which is what drives deliveries.
+ *
+ * BUSINESS LOGIC:
+ * - Within RUN_OUT_CRITICAL_DAYS: CRITICAL
+ * - Within RUN_OUT_WARNING_DAYS: LOW_STOCK
+ * - Otherwise: NORMAL
+ * - Renders nothing without a forecast, or beyond hideAboveDays
+ *
+ * EXAMPLE:
+ * ```tsx
+ * <RunOutBadge daysUntilEmpty={4} chemicalName="Tire Shine" />
+ * ```
+ */
+export function RunOutBadge({
+  daysUntilEmpty,
+  chemicalName,
+  hideAboveDays,
+  size = 'sm',
+  className,
+}: RunOutBadgeProps) {
+  if (daysUntilEmpty === null || daysUntilEmpty === undefined) {
+    return null;
+  }
+
+  if (hideAboveDays !== undefined && daysUntilEmpty > hideAboveDays) {
+    return null;
+  }
+
+  const status =
+    daysUntilEmpty <= RUN_OUT_CRITICAL_DAYS
+      ? 'CRITICAL'
+      : daysUntilEmpty <= RUN_OUT_WARNING_DAYS
+      ? 'LOW_STOCK'
+      : 'NORMAL';
+
+  const label = getRunOutLabel(daysUntilEmpty);
+
+  return (
+    <StatusBadge
+      status={status}
+      label={chemicalName ? `${chemicalName}: ${label}` : label}
+      size={size}
+      className={className}
+    />
+  );
+}
@@ -0,0 +1,61 @@
+// ===========================================
+// FILE: src/components/dashboard/SitePicker.tsx
+// PURPOSE: Site selector for users with access to several sites
+// PRD REFERENCE: PRD Section 5 - Navigation Architecture
+// USED BY: SiteDashboard, SiteManagerDashboard
+// ===========================================
+
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import { Select } from '@/components/ui';
+
+interface SitePickerSite {
+  id: string;
+  name: string;
+  slug: string;
+  organizationSlug: string;
+}
+
+interface SitePickerProps {
+  sites: SitePickerSite[];
+  currentSiteId?: string;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * SitePicker Component
+ *
+ * WHY: Site managers and site users are often assigned to more than one
+ * location. Unlike the LocationSwitcher, this only lists sites (no
+ * organization or "all locations" levels).
+ *
+ * BEHAVIOR:
+ * - Selecting a site navigates to /dashboard/o/[orgSlug]/s/[siteSlug]
+ * - Renders nothing for users with a single site
+ */
+export function SitePicker({ sites, currentSiteId, placeholder, className }: SitePickerProps) {
+  const router = useRouter();
+
+  if (sites.length < 2) {
+    return null;
+  }
+
+  return (
+    <Select
+      className={className}
+      aria-label="Select site"
+      value={currentSiteId ?? ''}
+      placeholder={currentSiteId ? undefined : placeholder || 'Select a site'}
+      options={sites.map((site) => ({ value: site.id, label: site.name }))}
+      onChange={(e) => {
+        const site = sites.find((s) => s.id === e.target.value);
+        if (site) {
+          router.push(`/dashboard/o/${site.organizationSlug}/s/${site.slug}`);
+        }
+      }}
+    />
+  );
+}
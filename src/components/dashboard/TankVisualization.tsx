@@ -8,6 +8,7 @@
 import React from 'react';
 import { cn, getTankStatus, formatNumber } from '@/lib/utils';
 import { StatusBadge } from '@/components/ui/StatusBadge';
+import { RunOutBadge } from './RunOutBadge';
 import type { TankStatus } from '@/types';
 
 interface TankVisualizationProps {
@@ -16,6 +17,7 @@ interface TankVisualizationProps {
   totalGallons: number;
   tankId?: string;
   alertThreshold?: number;
+  daysUntilEmpty?: number | null;
   className?: string;
   onClick?: () => void;
 }
@@ -60,6 +62,7 @@ interface TankVisualizationProps {
  * @param totalGallons - Total tank capacity in gallons
  * @param tankId - Tank identifier (e.g., "TK-01")
  * @param alertThreshold - Custom alert threshold in gallons
+ * @param daysUntilEmpty - Run-out forecast (shown as a badge when known)
  * @param onClick - Optional click handler (makes tank interactive)
  */
 export function TankVisualization({
@@ -68,6 +71,7 @@ export function TankVisualization({
   totalGallons,
   tankId,
   alertThreshold,
+  daysUntilEmpty,
   className,
   onClick,
 }: TankVisualizationProps) {
@@ -169,6 +173,9 @@ export function TankVisualization({
 
       {/* Status badge */}
       <StatusBadge status={status} size="sm" />
+
+      {/* Run-out forecast */}
+      <RunOutBadge daysUntilEmpty={daysUntilEmpty} className="mt-2" />
     </div>
   );
 }
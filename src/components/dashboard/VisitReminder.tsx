@@ -10,6 +10,7 @@
 import React from 'react';
 import { Card, StatusBadge } from '@/components/ui';
 import { cn } from '@/lib/utils';
+import { RunOutBadge, RUN_OUT_WARNING_DAYS } from './RunOutBadge';
 
 interface Visit {
   id: string;
@@ -20,6 +21,7 @@ interface Visit {
   type: 'SCHEDULED' | 'OVERDUE' | 'TODAY';
   distributor?: string;
   notes?: string;
+  runOut?: { chemicalName: string; daysUntilEmpty: number } | null; // Soonest run-out at the site
 }
 
 interface VisitReminderProps {
@@ -40,6 +42,7 @@ interface VisitReminderProps {
  * - Highlights overdue visits in red
  * - Shows today's visits prominently
  * - Quick navigation to site details
+ * - "Runs out in N days" badge when a chemical at the site is running low
  *
  * BUSINESS LOGIC:
  * - Overdue visits are critical (past due date, not completed)
@@ -169,6 +172,14 @@ export function VisitReminder({
                     {visit.organizationName}
                   </p>
                 )}
+                {visit.runOut && (
+                  <RunOutBadge
+                    daysUntilEmpty={visit.runOut.daysUntilEmpty}
+                    chemicalName={visit.runOut.chemicalName}
+                    hideAboveDays={RUN_OUT_WARNING_DAYS}
+                    className="mt-2"
+                  />
+                )}
               </div>
             </div>
 
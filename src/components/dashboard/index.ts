@@ -8,3 +8,10 @@ export { TankVisualization, TankGrid } from './TankVisualization';
 export { LocationSwitcher } from './LocationSwitcher';
 export { CostPerCarChart } from './CostPerCarChart';
 export { VisitReminder, VisitReminderList } from './VisitReminder';
+export { SitePicker } from './SitePicker';
+export { RunOutBadge, RUN_OUT_WARNING_DAYS } from './RunOutBadge';
+export { OverBudgetBadge } from './OverBudgetBadge';
+export { PeriodComparison } from './PeriodComparison';
+export type { PeriodComparisonData } from './PeriodComparison';
+export { PackageProfitability } from './PackageProfitability';
+export type { PackageProfitabilityData } from './PackageProfitability';
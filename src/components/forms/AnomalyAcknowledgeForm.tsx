@@ -0,0 +1,129 @@
+// ===========================================
+// FILE: src/components/forms/AnomalyAcknowledgeForm.tsx
+// PURPOSE: Form for acknowledging a flagged chemical reading
+// PRD REFERENCE: PRD Section 6.2 - Chemical Entries
+// USED BY: VisitLogDetail, UsageAnomalyReview
+// ===========================================
+
+'use client';
+
+import React, { useState } from 'react';
+import { Button, Modal } from '@/components/ui';
+
+interface AnomalyAcknowledgeFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  anomaly?: {
+    id: string;
+    message: string;
+  };
+}
+
+/**
+ * AnomalyAcknowledgeForm Component
+ *
+ * WHY: A flagged reading that is actually right (a drum moved between bays,
+ * a delivery logged late) should leave the review list with a note saying
+ * why, so the next person doesn't chase it again.
+ *
+ * FIELDS:
+ * - Note: Optional explanation stored with the acknowledgement
+ */
+export function AnomalyAcknowledgeForm({
+  isOpen,
+  onClose,
+  onSuccess,
+  anomaly,
+}: AnomalyAcknowledgeFormProps) {
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!anomaly) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/anomalies/${anomaly.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'ACKNOWLEDGED', note: note || null }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to acknowledge reading');
+      }
+
+      onSuccess();
+      handleClose();
+    } catch (error: any) {
+      console.error('Error acknowledging anomaly:', error);
+      alert(error.message || 'Failed to acknowledge reading. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle modal close
+   */
+  const handleClose = () => {
+    setNote('');
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Acknowledge Reading" size="sm">
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        {anomaly && <p className="text-text-primary">{anomaly.message}</p>}
+
+        <div>
+          <label className="block text-sm font-medium text-text-primary mb-1">
+            Note
+          </label>
+          <textarea
+            className="w-full px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary bg-bg-secondary text-text-primary"
+            rows={3}
+            maxLength={500}
+            placeholder="Why this reading is correct..."
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <p className="text-xs text-text-tertiary mt-1">
+            If the reading is wrong, edit the chemical entry instead
+          </p>
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3 pt-4">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={handleClose}
+            disabled={isSubmitting}
+            className="flex-1"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            loading={isSubmitting}
+            className="flex-1"
+          >
+            Acknowledge
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
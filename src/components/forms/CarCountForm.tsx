@@ -0,0 +1,374 @@
+// ===========================================
+// FILE: src/components/forms/CarCountForm.tsx
+// PURPOSE: Form for entering or importing daily car counts
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// USED BY: SiteAnalyticsDashboard
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button, Input, Modal, Tabs } from '@/components/ui';
+import { getLocalDateString } from '@/lib/timezone';
+
+interface WashPackage {
+  id: string;
+  name: string;
+}
+
+interface CarCountFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  siteId: string;
+}
+
+type EntryMode = 'manual' | 'csv';
+
+/**
+ * CarCountForm Component
+ *
+ * WHY: Cost per car is only as good as its car counts. Operators enter a
+ * day's counts by package (or just the total), or upload a CSV export
+ * from their POS / tunnel controller.
+ *
+ * FEATURES:
+ * - Manual entry: date, per-package counts (with membership washes) and/or total
+ * - CSV upload: one row per day (date,total,<package name>...)
+ * - Row-level errors from the import are listed for correction
+ *
+ * BUSINESS LOGIC:
+ * - Saving a date that already has counts replaces them
+ * - Total defaults to the sum of package counts when left blank
+ * - Membership washes are part of a package's count, not in addition to it
+ */
+export function CarCountForm({
+  isOpen,
+  onClose,
+  onSuccess,
+  siteId,
+}: CarCountFormProps) {
+  const [mode, setMode] = useState<EntryMode>('manual');
+  const [packages, setPackages] = useState<WashPackage[]>([]);
+  const [logDate, setLogDate] = useState(getLocalDateString());
+  const [totalCars, setTotalCars] = useState('');
+  const [packageCounts, setPackageCounts] = useState<Record<string, string>>({});
+  const [membershipCounts, setMembershipCounts] = useState<Record<string, string>>({});
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [importErrors, setImportErrors] = useState<Array<{ line: number; message: string }>>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Load the site's packages for per-package entry
+   */
+  useEffect(() => {
+    if (isOpen && siteId) {
+      fetch(`/api/packages?siteId=${siteId}`)
+        .then((res) => (res.ok ? res.json() : []))
+        .then((data) => setPackages(data))
+        .catch((error) => console.error('Error fetching packages:', error));
+    }
+  }, [isOpen, siteId]);
+
+  /**
+   * Sum of entered package counts
+   */
+  const packageTotal = Object.values(packageCounts).reduce(
+    (sum, value) => sum + (parseInt(value) || 0),
+    0
+  );
+
+  /**
+   * Validate manual entry
+   * WHY: Client-side validation for better UX
+   */
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!logDate) {
+      newErrors.logDate = 'Date is required';
+    }
+
+    const hasPackageCounts = Object.values(packageCounts).some((value) => value !== '');
+    if (!totalCars && !hasPackageCounts) {
+      newErrors.totalCars = 'Enter a total or at least one package count';
+    }
+
+    const overCounted = packages.find(
+      (pkg) => (parseInt(membershipCounts[pkg.id]) || 0) > (parseInt(packageCounts[pkg.id]) || 0)
+    );
+    if (overCounted) {
+      newErrors.membershipCars = `${overCounted.name}: members cannot exceed the package count`;
+    }
+
+    if (totalCars && parseInt(totalCars) < packageTotal) {
+      newErrors.totalCars = `Total cannot be less than the package sum (${packageTotal})`;
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  /**
+   * Submit manual entry
+   */
+  const handleManualSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validate()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const counts = Object.entries(packageCounts)
+        .filter(([, value]) => value !== '')
+        .map(([washPackageId, value]) => ({
+          washPackageId,
+          carCount: parseInt(value) || 0,
+          membershipCars: parseInt(membershipCounts[washPackageId]) || 0,
+        }));
+
+      const response = await fetch('/api/car-counts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          siteId,
+          logDate,
+          totalCars: totalCars ? parseInt(totalCars) : undefined,
+          packageCounts: counts.length > 0 ? counts : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save car counts');
+      }
+
+      onSuccess();
+      handleClose();
+    } catch (error: any) {
+      console.error('Error saving car counts:', error);
+      alert(error.message || 'Failed to save car counts. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Submit CSV import
+   * WHY: The import is all-or-nothing, so row errors are shown for correction
+   */
+  const handleCsvSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!csvFile) {
+      setErrors({ file: 'Choose a CSV file to upload' });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setImportErrors([]);
+
+    try {
+      const formData = new FormData();
+      formData.append('siteId', siteId);
+      formData.append('file', csvFile);
+
+      const response = await fetch('/api/car-counts/import', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        if (Array.isArray(result.details)) {
+          setImportErrors(result.details);
+          return;
+        }
+        throw new Error(result.error || 'Failed to import car counts');
+      }
+
+      alert(`Imported car counts for ${result.imported} day(s)`);
+      onSuccess();
+      handleClose();
+    } catch (error: any) {
+      console.error('Error importing car counts:', error);
+      alert(error.message || 'Failed to import car counts. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle modal close
+   * WHY: Reset form state when closing
+   */
+  const handleClose = () => {
+    setMode('manual');
+    setLogDate(getLocalDateString());
+    setTotalCars('');
+    setPackageCounts({});
+    setMembershipCounts({});
+    setCsvFile(null);
+    setErrors({});
+    setImportErrors([]);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Enter Car Counts">
+      <div className="p-6 space-y-4">
+        <Tabs
+          tabs={[
+            { id: 'manual', label: 'Manual Entry' },
+            { id: 'csv', label: 'Upload CSV' },
+          ]}
+          value={mode}
+          onChange={(tabId) => {
+            setMode(tabId as EntryMode);
+            setErrors({});
+          }}
+        />
+
+        {mode === 'manual' ? (
+          <form onSubmit={handleManualSubmit} className="space-y-4">
+            {/* Date */}
+            <Input
+              label="Date"
+              type="date"
+              value={logDate}
+              onChange={(e) => setLogDate(e.target.value)}
+              error={errors.logDate}
+              required
+            />
+
+            {/* Per-package counts */}
+            {packages.length > 0 && (
+              <div className="space-y-3">
+                <p className="text-sm font-medium text-text-primary">Cars by Package</p>
+                {packages.map((pkg) => (
+                  <div key={pkg.id} className="grid grid-cols-2 gap-3">
+                    <Input
+                      label={pkg.name}
+                      type="number"
+                      min="0"
+                      step="1"
+                      placeholder="0"
+                      value={packageCounts[pkg.id] ?? ''}
+                      onChange={(e) =>
+                        setPackageCounts((prev) => ({ ...prev, [pkg.id]: e.target.value }))
+                      }
+                    />
+                    <Input
+                      label="Of which members"
+                      type="number"
+                      min="0"
+                      step="1"
+                      placeholder="0"
+                      value={membershipCounts[pkg.id] ?? ''}
+                      onChange={(e) =>
+                        setMembershipCounts((prev) => ({ ...prev, [pkg.id]: e.target.value }))
+                      }
+                    />
+                  </div>
+                ))}
+                {errors.membershipCars && (
+                  <p className="text-sm text-error">{errors.membershipCars}</p>
+                )}
+              </div>
+            )}
+
+            {/* Total */}
+            <Input
+              label="Total Cars"
+              type="number"
+              min="0"
+              step="1"
+              placeholder={packageTotal > 0 ? String(packageTotal) : '0'}
+              value={totalCars}
+              onChange={(e) => setTotalCars(e.target.value)}
+              error={errors.totalCars}
+              helperText="Leave blank to use the sum of package counts"
+            />
+
+            {/* Actions */}
+            <div className="flex gap-3 pt-4">
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={handleClose}
+                disabled={isSubmitting}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                loading={isSubmitting}
+                className="flex-1"
+              >
+                Save Counts
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <form onSubmit={handleCsvSubmit} className="space-y-4">
+            <p className="text-sm text-text-secondary">
+              One row per day with a header row: <code>date,total</code> followed by
+              a column for each package name. Add a <code>&lt;package&gt; members</code>{' '}
+              column to record membership washes. Existing days are replaced.
+            </p>
+
+            <Input
+              label="CSV File"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => setCsvFile(e.target.files?.[0] ?? null)}
+              error={errors.file}
+            />
+
+            {/* Row errors */}
+            {importErrors.length > 0 && (
+              <div className="p-3 bg-error/10 border border-error/30 rounded-lg">
+                <p className="text-sm font-medium text-error mb-2">
+                  Nothing was imported. Fix these rows and try again:
+                </p>
+                <ul className="text-sm text-text-secondary list-disc pl-5 space-y-1">
+                  {importErrors.map((error, index) => (
+                    <li key={index}>Line {error.line}: {error.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex gap-3 pt-4">
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={handleClose}
+                disabled={isSubmitting}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSubmitting}
+                loading={isSubmitting}
+                className="flex-1"
+              >
+                Import CSV
+              </Button>
+            </div>
+          </form>
+        )}
+      </div>
+    </Modal>
+  );
+}
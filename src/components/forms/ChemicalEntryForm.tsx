@@ -7,14 +7,19 @@
 
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Button, Input, Select, Checkbox, Modal } from '@/components/ui';
+import { formatDate, inchesToGallons } from '@/lib/utils';
+import { CONTAINER_CATALOG, computeEntryGallons, getBackstockContainerGallons } from '@/lib/containers';
+import type { ContainerType, ConversionPoint } from '@/types';
+import type { PendingDelivery } from '@/lib/replenishment';
 
 interface ChemicalConfig {
   id: string;
   chemicalOrgConfig: {
     id: string;
     primaryContainer: string;
+    primaryContainerSizeGallons: string | null;
     backstockContainer: string;
     costPerGallon: string;
     chemicalMaster: {
@@ -31,11 +36,11 @@ interface ChemicalEntryFormData {
   levelGallons: string;
   levelInches: string;
   backstockCount: string;
+  backstockPartialGallons: string;
   backstockGallons: string;
   deliveryReceived: boolean;
   deliveryCount: string;
   deliveryGallons: string;
-  totalOnHandGallons: string;
   notes: string;
 }
 
@@ -52,6 +57,7 @@ interface ChemicalEntryFormProps {
     levelGallons: number | null;
     levelInches: number | null;
     backstockCount: number;
+    backstockPartialGallons: number;
     backstockGallons: number;
     deliveryReceived: boolean;
     deliveryCount: number | null;
@@ -71,15 +77,16 @@ interface ChemicalEntryFormProps {
  * - Select chemical from site's configured chemicals
  * - Entry method selection (gallons/inches/estimated)
  * - Primary container level
- * - Backstock count and gallons
- * - Delivery recording
+ * - Backstock and delivery gallons from container counts
+ * - Delivery recording, pre-filled from delivered replenishment orders
+ * - Live inch-to-gallon conversion using the primary container chart
  * - Auto-calculate total on hand
  *
  * FIELDS (PRD Section 6.2):
  * - Chemical: Required, which chemical to record
  * - Entry Method: How measurement was taken
  * - Level: Tank level in gallons or inches
- * - Backstock: Count and total gallons of backup containers
+ * - Backstock: Full backup containers plus gallons left in opened ones
  * - Delivery: If delivery was received during visit
  */
 export function ChemicalEntryForm({
@@ -98,11 +105,11 @@ export function ChemicalEntryForm({
     levelGallons: entry?.levelGallons?.toString() || '',
     levelInches: entry?.levelInches?.toString() || '',
     backstockCount: entry?.backstockCount?.toString() || '0',
+    backstockPartialGallons: entry?.backstockPartialGallons?.toString() || '0',
     backstockGallons: entry?.backstockGallons?.toString() || '0',
     deliveryReceived: entry?.deliveryReceived || false,
     deliveryCount: entry?.deliveryCount?.toString() || '',
     deliveryGallons: entry?.deliveryGallons?.toString() || '',
-    totalOnHandGallons: entry?.totalOnHandGallons?.toString() || '0',
     notes: entry?.notes || '',
   });
 
@@ -110,6 +117,24 @@ export function ChemicalEntryForm({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [chemicals, setChemicals] = useState<ChemicalConfig[]>([]);
   const [loadingChemicals, setLoadingChemicals] = useState(true);
+  const [conversionPoints, setConversionPoints] = useState<ConversionPoint[]>([]);
+  const [conversionUnavailable, setConversionUnavailable] = useState(false);
+  const [pendingDeliveries, setPendingDeliveries] = useState<PendingDelivery[]>([]);
+
+  const selectedChemical = chemicals.find(
+    (chem) => chem.id === formData.chemicalSiteConfigId
+  );
+  const backstockContainerGallons = selectedChemical
+    ? getBackstockContainerGallons(selectedChemical.chemicalOrgConfig)
+    : null;
+  const backstockContainerLabel = selectedChemical
+    ? CONTAINER_CATALOG[selectedChemical.chemicalOrgConfig.backstockContainer as ContainerType]?.label
+    : undefined;
+  const pendingDelivery = isEdit
+    ? undefined
+    : pendingDeliveries.find(
+        (delivery) => delivery.chemicalSiteConfigId === formData.chemicalSiteConfigId
+      );
 
   /**
    * Fetch available chemicals for this site
@@ -137,26 +162,143 @@ export function ChemicalEntryForm({
   };
 
   /**
-   * Calculate total on hand when values change
+   * Fetch delivered orders not yet recorded at this site
+   * WHY: New entries pre-fill their delivery fields from what was delivered
    */
   useEffect(() => {
-    const level = parseFloat(formData.levelGallons) || 0;
-    const backstock = parseFloat(formData.backstockGallons) || 0;
-    const delivery = formData.deliveryReceived
-      ? parseFloat(formData.deliveryGallons) || 0
-      : 0;
-
-    const total = level + backstock + delivery;
-    setFormData((prev) => ({
-      ...prev,
-      totalOnHandGallons: total.toFixed(2),
-    }));
-  }, [
-    formData.levelGallons,
-    formData.backstockGallons,
-    formData.deliveryReceived,
-    formData.deliveryGallons,
-  ]);
+    if (!isOpen || isEdit) {
+      return;
+    }
+
+    const fetchPendingDeliveries = async () => {
+      try {
+        const response = await fetch(`/api/orders/pending-deliveries?siteId=${siteId}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch pending deliveries');
+        }
+        setPendingDeliveries(await response.json());
+      } catch (error) {
+        console.error('Error fetching pending deliveries:', error);
+        setPendingDeliveries([]);
+      }
+    };
+
+    fetchPendingDeliveries();
+  }, [isOpen, isEdit, siteId]);
+
+  /**
+   * Select a chemical, pre-filling any delivery waiting to be recorded
+   * WHY: Switching away from a pre-filled chemical clears the delivery again
+   */
+  const handleChemicalChange = (chemicalSiteConfigId: string) => {
+    setFormData((prev) => {
+      const findDelivery = (id: string) =>
+        pendingDeliveries.find((delivery) => delivery.chemicalSiteConfigId === id);
+      const delivery = findDelivery(chemicalSiteConfigId);
+
+      if (delivery) {
+        return {
+          ...prev,
+          chemicalSiteConfigId,
+          deliveryReceived: true,
+          deliveryCount: delivery.deliveryCount.toString(),
+          deliveryGallons: delivery.deliveryGallons.toString(),
+        };
+      }
+
+      return {
+        ...prev,
+        chemicalSiteConfigId,
+        ...(findDelivery(prev.chemicalSiteConfigId) && {
+          deliveryReceived: false,
+          deliveryCount: '',
+          deliveryGallons: '',
+        }),
+      };
+    });
+  };
+
+  /**
+   * Fetch the conversion chart for the selected chemical's primary container
+   * WHY: Lets the tech see gallons as they type an inch reading. Asking by
+   * chemical picks up custom container calibrations.
+   */
+  useEffect(() => {
+    if (formData.entryMethod !== 'INCHES' || !formData.chemicalSiteConfigId) {
+      return;
+    }
+
+    const fetchConversions = async () => {
+      try {
+        const response = await fetch(
+          `/api/conversions?chemicalSiteConfigId=${formData.chemicalSiteConfigId}`
+        );
+        if (!response.ok) {
+          throw new Error('Failed to fetch conversion chart');
+        }
+        const data = await response.json();
+        setConversionPoints(data.points);
+        setConversionUnavailable(!data.hasChart);
+      } catch (error) {
+        console.error('Error fetching conversion chart:', error);
+        setConversionPoints([]);
+        setConversionUnavailable(true);
+      }
+    };
+
+    fetchConversions();
+  }, [formData.entryMethod, formData.chemicalSiteConfigId]);
+
+  /**
+   * Convert the inch reading with the loaded chart
+   * WHY: Mirrors the server-side conversion so the preview matches what is saved
+   */
+  const inchConversion = useMemo((): { gallons: number | null; error: string | null } => {
+    if (formData.entryMethod !== 'INCHES' || formData.levelInches === '') {
+      return { gallons: null, error: null };
+    }
+    if (conversionUnavailable) {
+      return {
+        gallons: null,
+        error: 'No inch chart for this container. Enter the level in gallons instead.',
+      };
+    }
+    if (conversionPoints.length === 0) {
+      return { gallons: null, error: null };
+    }
+
+    const inches = parseFloat(formData.levelInches);
+    const maxInches = conversionPoints[conversionPoints.length - 1].inches;
+    if (isNaN(inches) || inches < 0 || inches > maxInches) {
+      return { gallons: null, error: `Reading must be between 0 and ${maxInches} inches` };
+    }
+
+    return { gallons: inchesToGallons(conversionPoints, inches), error: null };
+  }, [formData.entryMethod, formData.levelInches, conversionPoints, conversionUnavailable]);
+
+  /**
+   * Backstock, delivery and total gallons
+   * WHY: Same calculation the server applies, so the preview matches what is saved
+   */
+  const entryGallons = useMemo(
+    () =>
+      computeEntryGallons(
+        {
+          levelGallons:
+            formData.entryMethod === 'INCHES'
+              ? inchConversion.gallons ?? 0
+              : parseFloat(formData.levelGallons) || 0,
+          backstockCount: parseInt(formData.backstockCount) || 0,
+          backstockPartialGallons: parseFloat(formData.backstockPartialGallons) || 0,
+          backstockGallons: parseFloat(formData.backstockGallons) || 0,
+          deliveryReceived: formData.deliveryReceived,
+          deliveryCount: formData.deliveryCount ? parseInt(formData.deliveryCount) : null,
+          deliveryGallons: formData.deliveryGallons ? parseFloat(formData.deliveryGallons) : null,
+        },
+        backstockContainerGallons
+      ),
+    [formData, inchConversion.gallons, backstockContainerGallons]
+  );
 
   /**
    * Validate form data
@@ -174,6 +316,8 @@ export function ChemicalEntryForm({
 
     if (formData.entryMethod === 'INCHES' && !formData.levelInches) {
       newErrors.levelInches = 'Level is required';
+    } else if (inchConversion.error) {
+      newErrors.levelInches = inchConversion.error;
     }
 
     setErrors(newErrors);
@@ -200,18 +344,27 @@ export function ChemicalEntryForm({
         ...(isEdit && { id: entry.id }),
         chemicalSiteConfigId: formData.chemicalSiteConfigId,
         entryMethod: formData.entryMethod,
-        levelGallons: formData.levelGallons ? parseFloat(formData.levelGallons) : null,
-        levelInches: formData.levelInches ? parseFloat(formData.levelInches) : null,
+        // Gallons for INCHES entries are converted server-side
+        levelGallons:
+          formData.entryMethod !== 'INCHES' && formData.levelGallons
+            ? parseFloat(formData.levelGallons)
+            : null,
+        levelInches:
+          formData.entryMethod === 'INCHES' && formData.levelInches
+            ? parseFloat(formData.levelInches)
+            : null,
         backstockCount: parseInt(formData.backstockCount) || 0,
-        backstockGallons: parseFloat(formData.backstockGallons) || 0,
+        backstockPartialGallons: entryGallons.backstockPartialGallons,
+        backstockGallons: entryGallons.backstockGallons,
         deliveryReceived: formData.deliveryReceived,
         deliveryCount: formData.deliveryReceived && formData.deliveryCount
           ? parseInt(formData.deliveryCount)
           : null,
-        deliveryGallons: formData.deliveryReceived && formData.deliveryGallons
-          ? parseFloat(formData.deliveryGallons)
-          : null,
-        totalOnHandGallons: parseFloat(formData.totalOnHandGallons) || 0,
+        deliveryGallons: formData.deliveryReceived ? entryGallons.deliveryGallons : null,
+        // The server recomputes the total; send it only when the level is known here
+        ...((formData.entryMethod !== 'INCHES' || inchConversion.gallons !== null) && {
+          totalOnHandGallons: entryGallons.totalOnHandGallons,
+        }),
         notes: formData.notes || null,
       };
 
@@ -246,11 +399,11 @@ export function ChemicalEntryForm({
       levelGallons: entry?.levelGallons?.toString() || '',
       levelInches: entry?.levelInches?.toString() || '',
       backstockCount: entry?.backstockCount?.toString() || '0',
+      backstockPartialGallons: entry?.backstockPartialGallons?.toString() || '0',
       backstockGallons: entry?.backstockGallons?.toString() || '0',
       deliveryReceived: entry?.deliveryReceived || false,
       deliveryCount: entry?.deliveryCount?.toString() || '',
       deliveryGallons: entry?.deliveryGallons?.toString() || '',
-      totalOnHandGallons: entry?.totalOnHandGallons?.toString() || '0',
       notes: entry?.notes || '',
     });
     setErrors({});
@@ -284,12 +437,7 @@ export function ChemicalEntryForm({
           ) : (
             <Select
               value={formData.chemicalSiteConfigId}
-              onChange={(e) =>
-                setFormData((prev) => ({
-                  ...prev,
-                  chemicalSiteConfigId: e.target.value,
-                }))
-              }
+              onChange={(e) => handleChemicalChange(e.target.value)}
               disabled={isEdit}
               options={[
                 { value: '', label: 'Select chemical...' },
@@ -354,8 +502,12 @@ export function ChemicalEntryForm({
             onChange={(e) =>
               setFormData((prev) => ({ ...prev, levelInches: e.target.value }))
             }
-            error={errors.levelInches}
-            helperText="Will be converted to gallons based on container type"
+            error={errors.levelInches || inchConversion.error || undefined}
+            helperText={
+              inchConversion.gallons !== null
+                ? `≈ ${inchConversion.gallons.toFixed(1)} gallons`
+                : 'Will be converted to gallons based on container type'
+            }
             required
           />
         )}
@@ -376,29 +528,61 @@ export function ChemicalEntryForm({
         )}
 
         {/* Backstock */}
-        <div className="grid grid-cols-2 gap-4">
-          <Input
-            label="Backstock Count"
-            type="number"
-            min={0}
-            value={formData.backstockCount}
-            onChange={(e) =>
-              setFormData((prev) => ({ ...prev, backstockCount: e.target.value }))
-            }
-            helperText="Number of backup containers"
-          />
-          <Input
-            label="Backstock Gallons"
-            type="number"
-            step="0.1"
-            min={0}
-            value={formData.backstockGallons}
-            onChange={(e) =>
-              setFormData((prev) => ({ ...prev, backstockGallons: e.target.value }))
-            }
-            helperText="Total gallons in backstock"
-          />
-        </div>
+        {backstockContainerGallons ? (
+          <div className="grid grid-cols-3 gap-4">
+            <Input
+              label="Full Containers"
+              type="number"
+              min={0}
+              value={formData.backstockCount}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, backstockCount: e.target.value }))
+              }
+              helperText={backstockContainerLabel}
+            />
+            <Input
+              label="Partial Gallons"
+              type="number"
+              step="0.1"
+              min={0}
+              value={formData.backstockPartialGallons}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, backstockPartialGallons: e.target.value }))
+              }
+              helperText="Left in opened containers"
+            />
+            <Input
+              label="Backstock Gallons"
+              value={entryGallons.backstockGallons.toFixed(2)}
+              disabled
+              helperText={`${backstockContainerGallons} gal per container`}
+            />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Backstock Count"
+              type="number"
+              min={0}
+              value={formData.backstockCount}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, backstockCount: e.target.value }))
+              }
+              helperText="Number of backup containers"
+            />
+            <Input
+              label="Backstock Gallons"
+              type="number"
+              step="0.1"
+              min={0}
+              value={formData.backstockGallons}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, backstockGallons: e.target.value }))
+              }
+              helperText="Total gallons in backstock (container size unknown)"
+            />
+          </div>
+        )}
 
         {/* Delivery */}
         <div className="border border-border rounded-md p-4">
@@ -414,6 +598,14 @@ export function ChemicalEntryForm({
             }
           />
 
+          {pendingDelivery && (
+            <p className="text-sm text-text-secondary mt-2">
+              Pre-filled from the order delivered
+              {pendingDelivery.deliveredAt && ` on ${formatDate(pendingDelivery.deliveredAt)}`}.
+              Adjust if what arrived was different.
+            </p>
+          )}
+
           {formData.deliveryReceived && (
             <div className="grid grid-cols-2 gap-4 mt-4">
               <Input
@@ -428,19 +620,28 @@ export function ChemicalEntryForm({
                   }))
                 }
               />
-              <Input
-                label="Delivery Gallons"
-                type="number"
-                step="0.1"
-                min={0}
-                value={formData.deliveryGallons}
-                onChange={(e) =>
-                  setFormData((prev) => ({
-                    ...prev,
-                    deliveryGallons: e.target.value,
-                  }))
-                }
-              />
+              {backstockContainerGallons ? (
+                <Input
+                  label="Delivery Gallons"
+                  value={(entryGallons.deliveryGallons ?? 0).toFixed(2)}
+                  disabled
+                  helperText={`${backstockContainerGallons} gal per container`}
+                />
+              ) : (
+                <Input
+                  label="Delivery Gallons"
+                  type="number"
+                  step="0.1"
+                  min={0}
+                  value={formData.deliveryGallons}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      deliveryGallons: e.target.value,
+                    }))
+                  }
+                />
+              )}
             </div>
           )}
         </div>
@@ -451,7 +652,7 @@ export function ChemicalEntryForm({
             Total On Hand
           </label>
           <p className="text-2xl font-bold text-text-primary">
-            {formData.totalOnHandGallons} gallons
+            {entryGallons.totalOnHandGallons.toFixed(2)} gallons
           </p>
           <p className="text-xs text-text-tertiary mt-1">
             Auto-calculated: Tank + Backstock + Delivery
@@ -0,0 +1,275 @@
+// ===========================================
+// FILE: src/components/forms/ContainerCalibrationForm.tsx
+// PURPOSE: Form for calibrating a custom container's inch-to-gallon chart
+// PRD REFERENCE: Implementation Guide - Section "Inch-to-Gallon Interpolation"
+// USED BY: ContainerLibrary
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button, Input, Modal, Select } from '@/components/ui';
+import { generateCalibrationChart } from '@/lib/containers';
+import type { ContainerShape } from '@/types';
+
+interface ContainerCalibrationFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  container: {
+    id: string;
+    name: string;
+    shape: ContainerShape;
+    heightInches: number | null;
+    diameterInches: number | null;
+    lengthInches: number | null;
+    widthInches: number | null;
+  };
+}
+
+interface ReadingRow {
+  inches: string;
+  gallons: string;
+}
+
+/**
+ * ContainerCalibrationForm Component
+ *
+ * WHY: Inch readings on a custom container are only as good as its chart.
+ * Cones and other odd shapes are calibrated by filling them a known amount
+ * at a time; cylinders and boxes can be worked out from their dimensions.
+ *
+ * FIELDS:
+ * - Method: Enter readings, or generate from dimensions (cylinder/rectangular)
+ * - Readings: Inch/gallon pairs, pre-filled with the current chart
+ * - Step: Inches between generated points
+ */
+export function ContainerCalibrationForm({
+  isOpen,
+  onClose,
+  onSuccess,
+  container,
+}: ContainerCalibrationFormProps) {
+  const canGenerate = container.shape !== 'IRREGULAR';
+
+  const [method, setMethod] = useState<'POINTS' | 'DIMENSIONS'>(canGenerate ? 'DIMENSIONS' : 'POINTS');
+  const [rows, setRows] = useState<ReadingRow[]>([]);
+  const [stepInches, setStepInches] = useState('1');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const preview = canGenerate
+    ? generateCalibrationChart(container, Number(stepInches) || 1)
+    : [];
+
+  /**
+   * Load the current chart as editable readings
+   */
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    const fetchChart = async () => {
+      try {
+        const response = await fetch(`/api/containers/${container.id}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch chart');
+        }
+        const data = await response.json();
+        const points: Array<{ inches: number; gallons: number }> = data.points;
+        setRows(
+          points.length > 0
+            ? points.map((point) => ({ inches: String(point.inches), gallons: String(point.gallons) }))
+            : [{ inches: '0', gallons: '0' }, { inches: '', gallons: '' }]
+        );
+      } catch (error) {
+        console.error('Error fetching container chart:', error);
+      }
+    };
+
+    fetchChart();
+  }, [isOpen, container.id]);
+
+  const updateRow = (index: number, field: keyof ReadingRow, value: string) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const points = rows
+      .filter((row) => row.inches !== '' && row.gallons !== '')
+      .map((row) => ({ inches: Number(row.inches), gallons: Number(row.gallons) }));
+
+    if (method === 'POINTS') {
+      const sorted = [...points].sort((a, b) => a.inches - b.inches);
+      const problem = sorted.findIndex(
+        (point, i) => i > 0 && (point.inches === sorted[i - 1].inches || point.gallons < sorted[i - 1].gallons)
+      );
+
+      if (points.length < 2) {
+        setError('Enter at least two readings');
+        return;
+      }
+      if (problem > 0) {
+        setError(`Check the readings at ${sorted[problem - 1].inches}" and ${sorted[problem].inches}"`);
+        return;
+      }
+    }
+
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/containers/${container.id}/chart`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          method === 'POINTS'
+            ? { method, points }
+            : { method, stepInches: Number(stepInches) || 1 }
+        ),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save chart');
+      }
+
+      onSuccess();
+      handleClose();
+    } catch (error: any) {
+      console.error('Error saving container chart:', error);
+      alert(error.message || 'Failed to save chart. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle modal close
+   */
+  const handleClose = () => {
+    setMethod(canGenerate ? 'DIMENSIONS' : 'POINTS');
+    setStepInches('1');
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={`Calibrate · ${container.name}`} size="md">
+      <form onSubmit={handleSubmit} className="p-6 space-y-4 max-h-[80vh] overflow-y-auto">
+        {canGenerate && (
+          <Select
+            label="Method"
+            value={method}
+            onChange={(e) => setMethod(e.target.value as 'POINTS' | 'DIMENSIONS')}
+            options={[
+              { value: 'DIMENSIONS', label: 'Generate from dimensions' },
+              { value: 'POINTS', label: 'Enter readings' },
+            ]}
+          />
+        )}
+
+        {method === 'DIMENSIONS' ? (
+          <>
+            <Input
+              label="Step (in)"
+              type="number"
+              min="0.25"
+              max="12"
+              step="0.25"
+              value={stepInches}
+              onChange={(e) => setStepInches(e.target.value)}
+              helperText="Inches between chart points"
+            />
+            {preview.length > 0 ? (
+              <p className="text-sm text-text-secondary">
+                {preview.length} points from 0 to {preview[preview.length - 1].inches}&quot; (
+                {preview[preview.length - 1].gallons.toFixed(1)} gal full)
+              </p>
+            ) : (
+              <p className="text-sm text-error">
+                Add the container&apos;s dimensions before generating a chart.
+              </p>
+            )}
+          </>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-sm text-text-secondary">
+              Fill the container a known amount at a time and record the dipstick reading.
+            </p>
+            <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-sm font-medium text-text-secondary">
+              <span>Inches</span>
+              <span>Gallons</span>
+              <span className="w-14" />
+            </div>
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={row.inches}
+                  onChange={(e) => updateRow(index, 'inches', e.target.value)}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={row.gallons}
+                  onChange={(e) => updateRow(index, 'gallons', e.target.value)}
+                />
+                <button
+                  type="button"
+                  onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                  className="w-14 text-error hover:underline text-xs"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              onClick={() => setRows((prev) => [...prev, { inches: '', gallons: '' }])}
+            >
+              Add Reading
+            </Button>
+            {error && <p className="text-sm text-error">{error}</p>}
+          </div>
+        )}
+
+        <p className="text-xs text-text-tertiary">
+          Saving replaces the current chart. Readings already recorded keep their gallons.
+        </p>
+
+        {/* Actions */}
+        <div className="flex gap-3 pt-4">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={handleClose}
+            disabled={isSubmitting}
+            className="flex-1"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={isSubmitting || (method === 'DIMENSIONS' && preview.length === 0)}
+            loading={isSubmitting}
+            className="flex-1"
+          >
+            Save Chart
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
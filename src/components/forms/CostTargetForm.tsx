@@ -0,0 +1,239 @@
+// ===========================================
+// FILE: src/components/forms/CostTargetForm.tsx
+// PURPOSE: Form for setting a cost-per-car target and monthly chemical budget
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// USED BY: CostTargets
+// ===========================================
+
+'use client';
+
+import React, { useState } from 'react';
+import { Button, Input, Modal, Select } from '@/components/ui';
+import type { ChemicalType } from '@/types';
+
+/**
+ * Display labels for chemical types
+ */
+const CHEMICAL_TYPE_LABELS: Record<ChemicalType, string> = {
+  PREP_SOAP: 'Prep Soap',
+  HIGH_PH_PRESOAK: 'High pH Presoak',
+  LOW_PH_PRESOAK: 'Low pH Presoak',
+  WHEEL_TIRE_CLEANER: 'Wheel & Tire Cleaner',
+  FOAM_DETERGENT: 'Foam Detergent',
+  FRAGRANCE: 'Fragrance',
+  TRI_COLOR: 'Tri-Color',
+  PROTECTANT: 'Protectant',
+  DRY_AGENT: 'Dry Agent',
+  TIRE_SHINE: 'Tire Shine',
+  OTHER: 'Other',
+};
+
+interface CostTargetFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  organizationId: string;
+  sites: Array<{ id: string; name: string }>;
+  target?: {
+    id: string;
+    siteId: string | null;
+    chemicalType: ChemicalType | null;
+    targetCostPerCar: number | null;
+    monthlyBudget: number | null;
+  }; // Edit an existing target (scope can't change)
+}
+
+/**
+ * CostTargetForm Component
+ *
+ * WHY: Distributors promise clients a cost per car and clients plan a
+ * monthly chemical spend. Recording both lets analytics show how actual
+ * costs compare before the month closes.
+ *
+ * FIELDS:
+ * - Site: One site, or organization-wide
+ * - Chemical type: One type, or all chemicals
+ * - Target cost per car (optional)
+ * - Monthly budget (optional; at least one of the two is required)
+ */
+export function CostTargetForm({
+  isOpen,
+  onClose,
+  onSuccess,
+  organizationId,
+  sites,
+  target,
+}: CostTargetFormProps) {
+  const [siteId, setSiteId] = useState(target?.siteId ?? '');
+  const [chemicalType, setChemicalType] = useState<string>(target?.chemicalType ?? '');
+  const [targetCostPerCar, setTargetCostPerCar] = useState(
+    target?.targetCostPerCar != null ? String(target.targetCostPerCar) : ''
+  );
+  const [monthlyBudget, setMonthlyBudget] = useState(
+    target?.monthlyBudget != null ? String(target.monthlyBudget) : ''
+  );
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Validate form fields
+   */
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (targetCostPerCar === '' && monthlyBudget === '') {
+      newErrors.targetCostPerCar = 'Set a cost-per-car target or a monthly budget';
+    }
+    if (targetCostPerCar !== '' && Number(targetCostPerCar) < 0) {
+      newErrors.targetCostPerCar = 'Enter a target of 0 or more';
+    }
+    if (monthlyBudget !== '' && Number(monthlyBudget) < 0) {
+      newErrors.monthlyBudget = 'Enter a budget of 0 or more';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validate()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    const values = {
+      targetCostPerCar: targetCostPerCar !== '' ? Number(targetCostPerCar) : null,
+      monthlyBudget: monthlyBudget !== '' ? Number(monthlyBudget) : null,
+    };
+
+    try {
+      const response = target
+        ? await fetch(`/api/targets/${target.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(values),
+          })
+        : await fetch('/api/targets', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              organizationId,
+              siteId: siteId || null,
+              chemicalType: chemicalType || null,
+              ...values,
+            }),
+          });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save target');
+      }
+
+      onSuccess();
+      handleClose();
+    } catch (error: any) {
+      console.error('Error saving cost target:', error);
+      alert(error.message || 'Failed to save target. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle modal close
+   */
+  const handleClose = () => {
+    setSiteId(target?.siteId ?? '');
+    setChemicalType(target?.chemicalType ?? '');
+    setTargetCostPerCar(target?.targetCostPerCar != null ? String(target.targetCostPerCar) : '');
+    setMonthlyBudget(target?.monthlyBudget != null ? String(target.monthlyBudget) : '');
+    setErrors({});
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={target ? 'Edit Target' : 'Add Target'}
+      size="md"
+    >
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        <Select
+          label="Site"
+          value={siteId}
+          onChange={(e) => setSiteId(e.target.value)}
+          disabled={!!target}
+          options={[
+            { value: '', label: 'All sites (organization-wide)' },
+            ...sites.map((site) => ({ value: site.id, label: site.name })),
+          ]}
+        />
+
+        <Select
+          label="Chemical Type"
+          value={chemicalType}
+          onChange={(e) => setChemicalType(e.target.value)}
+          disabled={!!target}
+          options={[
+            { value: '', label: 'All chemicals' },
+            ...(Object.keys(CHEMICAL_TYPE_LABELS) as ChemicalType[]).map((type) => ({
+              value: type,
+              label: CHEMICAL_TYPE_LABELS[type],
+            })),
+          ]}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Target Cost Per Car"
+            type="number"
+            min="0"
+            step="0.01"
+            value={targetCostPerCar}
+            onChange={(e) => setTargetCostPerCar(e.target.value)}
+            error={errors.targetCostPerCar}
+            helperText={siteId ? undefined : 'Applies to each site without its own target'}
+          />
+          <Input
+            label="Monthly Budget"
+            type="number"
+            min="0"
+            step="0.01"
+            value={monthlyBudget}
+            onChange={(e) => setMonthlyBudget(e.target.value)}
+            error={errors.monthlyBudget}
+            helperText={siteId ? undefined : 'Covers all sites together'}
+          />
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3 pt-4">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={handleClose}
+            disabled={isSubmitting}
+            className="flex-1"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            loading={isSubmitting}
+            className="flex-1"
+          >
+            {target ? 'Save Target' : 'Add Target'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,340 @@
+// ===========================================
+// FILE: src/components/forms/CustomContainerForm.tsx
+// PURPOSE: Form for adding or editing a custom container
+// PRD REFERENCE: Implementation Guide - Section "Inch-to-Gallon Interpolation"
+// USED BY: ContainerLibrary
+// ===========================================
+
+'use client';
+
+import React, { useState } from 'react';
+import { Button, Checkbox, Input, Modal, Select } from '@/components/ui';
+import { resolveCustomContainerSize } from '@/lib/containers';
+import type { ContainerShape } from '@/types';
+
+interface CustomContainerFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  container?: {
+    id: string;
+    name: string;
+    shape: ContainerShape;
+    capacityGallons: number;
+    heightInches: number | null;
+    diameterInches: number | null;
+    lengthInches: number | null;
+    widthInches: number | null;
+    notes: string | null;
+    isActive: boolean;
+  }; // Edit an existing container
+}
+
+interface CustomContainerFormData {
+  name: string;
+  shape: ContainerShape;
+  capacityGallons: string;
+  heightInches: string;
+  diameterInches: string;
+  lengthInches: string;
+  widthInches: string;
+  notes: string;
+  isActive: boolean;
+}
+
+/**
+ * Form values for a new or existing container
+ */
+function initialFormData(container: CustomContainerFormProps['container']): CustomContainerFormData {
+  const toField = (value: number | null | undefined) => (value ? String(value) : '');
+  return {
+    name: container?.name ?? '',
+    shape: container?.shape ?? 'CYLINDER',
+    capacityGallons: toField(container?.capacityGallons),
+    heightInches: toField(container?.heightInches),
+    diameterInches: toField(container?.diameterInches),
+    lengthInches: toField(container?.lengthInches),
+    widthInches: toField(container?.widthInches),
+    notes: container?.notes ?? '',
+    isActive: container?.isActive ?? true,
+  };
+}
+
+/**
+ * CustomContainerForm Component
+ *
+ * WHY: Distributors install tanks the standard container types don't
+ * cover. Measuring them once lets techs read them in inches.
+ *
+ * FIELDS:
+ * - Name: Required, unique per distributor
+ * - Shape: Cylinder, rectangular or irregular
+ * - Height and diameter (cylinder) or length and width (rectangular);
+ *   capacity is computed from them
+ * - Capacity: Required for irregular containers
+ * - Notes, and active (edit only)
+ */
+export function CustomContainerForm({
+  isOpen,
+  onClose,
+  onSuccess,
+  container,
+}: CustomContainerFormProps) {
+  const isEdit = !!container;
+
+  const [formData, setFormData] = useState<CustomContainerFormData>(() => initialFormData(container));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const toNumber = (value: string) => (value === '' ? null : Number(value));
+  const size = resolveCustomContainerSize({
+    shape: formData.shape,
+    capacityGallons: toNumber(formData.capacityGallons),
+    heightInches: toNumber(formData.heightInches),
+    diameterInches: toNumber(formData.diameterInches),
+    lengthInches: toNumber(formData.lengthInches),
+    widthInches: toNumber(formData.widthInches),
+  });
+
+  const setField = (field: keyof CustomContainerFormData) =>
+    (e: React.ChangeEvent<HTMLInputElement>) =>
+      setFormData((prev) => ({ ...prev, [field]: e.target.value }));
+
+  /**
+   * Validate form fields
+   */
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+    const required: Record<ContainerShape, Array<keyof CustomContainerFormData>> = {
+      CYLINDER: ['heightInches', 'diameterInches'],
+      RECTANGULAR: ['heightInches', 'lengthInches', 'widthInches'],
+      IRREGULAR: ['capacityGallons'],
+    };
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+    for (const field of required[formData.shape]) {
+      if (!(Number(formData[field]) > 0)) {
+        newErrors[field] = 'Must be greater than 0';
+      }
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validate()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    const values = {
+      name: formData.name.trim(),
+      shape: formData.shape,
+      capacityGallons: formData.shape === 'IRREGULAR' ? toNumber(formData.capacityGallons) : null,
+      heightInches: toNumber(formData.heightInches),
+      diameterInches: toNumber(formData.diameterInches),
+      lengthInches: toNumber(formData.lengthInches),
+      widthInches: toNumber(formData.widthInches),
+      notes: formData.notes || null,
+      ...(isEdit && { isActive: formData.isActive }),
+    };
+
+    try {
+      const response = await fetch(isEdit ? `/api/containers/${container.id}` : '/api/containers', {
+        method: isEdit ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save container');
+      }
+
+      onSuccess();
+      handleClose();
+    } catch (error: any) {
+      console.error('Error saving custom container:', error);
+      alert(error.message || 'Failed to save container. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle modal close
+   */
+  const handleClose = () => {
+    setFormData(initialFormData(container));
+    setErrors({});
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={isEdit ? 'Edit Container' : 'Add Container'}
+      size="md"
+    >
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        <Input
+          label="Name"
+          placeholder="e.g. 35 gal cone"
+          value={formData.name}
+          maxLength={100}
+          onChange={setField('name')}
+          error={errors.name}
+          required
+        />
+
+        <Select
+          label="Shape"
+          value={formData.shape}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, shape: e.target.value as ContainerShape }))
+          }
+          options={[
+            { value: 'CYLINDER', label: 'Cylinder (upright)' },
+            { value: 'RECTANGULAR', label: 'Rectangular (e.g. IBC tote)' },
+            { value: 'IRREGULAR', label: 'Irregular (e.g. cone) - calibrate by hand' },
+          ]}
+        />
+
+        {formData.shape !== 'IRREGULAR' && (
+          <div className="grid grid-cols-3 gap-4">
+            <Input
+              label="Height (in)"
+              type="number"
+              min="0"
+              step="0.1"
+              value={formData.heightInches}
+              onChange={setField('heightInches')}
+              error={errors.heightInches}
+              helperText="Inside, to the fill line"
+            />
+            {formData.shape === 'CYLINDER' ? (
+              <Input
+                label="Diameter (in)"
+                type="number"
+                min="0"
+                step="0.1"
+                value={formData.diameterInches}
+                onChange={setField('diameterInches')}
+                error={errors.diameterInches}
+              />
+            ) : (
+              <>
+                <Input
+                  label="Length (in)"
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={formData.lengthInches}
+                  onChange={setField('lengthInches')}
+                  error={errors.lengthInches}
+                />
+                <Input
+                  label="Width (in)"
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={formData.widthInches}
+                  onChange={setField('widthInches')}
+                  error={errors.widthInches}
+                />
+              </>
+            )}
+          </div>
+        )}
+
+        {formData.shape === 'IRREGULAR' ? (
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Capacity (gal)"
+              type="number"
+              min="0"
+              step="0.1"
+              value={formData.capacityGallons}
+              onChange={setField('capacityGallons')}
+              error={errors.capacityGallons}
+              required
+            />
+            <Input
+              label="Height (in)"
+              type="number"
+              min="0"
+              step="0.1"
+              value={formData.heightInches}
+              onChange={setField('heightInches')}
+              helperText="Optional, for reference"
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-text-secondary">
+            Capacity: {size.capacityGallons > 0 ? `${size.capacityGallons.toFixed(1)} gal` : '--'}
+          </p>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-text-primary mb-1">
+            Notes
+          </label>
+          <textarea
+            className="w-full px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary bg-bg-secondary text-text-primary"
+            rows={2}
+            maxLength={500}
+            placeholder="Optional notes, e.g. where this tank is installed..."
+            value={formData.notes}
+            onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
+          />
+        </div>
+
+        {isEdit && (
+          <Checkbox
+            label="Active"
+            description="Inactive containers can't be picked for new chemicals"
+            checked={formData.isActive}
+            onChange={(e) => setFormData((prev) => ({ ...prev, isActive: e.target.checked }))}
+          />
+        )}
+
+        {isEdit && (
+          <p className="text-xs text-text-tertiary">
+            Changing dimensions doesn&apos;t change the chart. Recalibrate afterwards.
+          </p>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3 pt-4">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={handleClose}
+            disabled={isSubmitting}
+            className="flex-1"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            loading={isSubmitting}
+            className="flex-1"
+          >
+            {isEdit ? 'Save Container' : 'Add Container'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,326 @@
+// ===========================================
+// FILE: src/components/forms/DeliveryForm.tsx
+// PURPOSE: Form for recording a delivery made outside a visit
+// PRD REFERENCE: PRD Section 6.2 - Chemical Entries, PRD Section 7.6 - Inventory Alerts
+// USED BY: SiteDeliveries
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button, Input, Modal, Select } from '@/components/ui';
+import { getLocalDateString } from '@/lib/timezone';
+
+interface SiteChemical {
+  id: string;
+  chemicalOrgConfig: {
+    chemicalMaster: { name: string };
+  };
+}
+
+interface DeliveryFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  siteId: string;
+  delivery?: {
+    id: string;
+    chemicalSiteConfigId: string;
+    deliveryDate: string;
+    beforeVisit: boolean;
+    containerCount: number;
+    gallons: number;
+    lotNumber: string | null;
+    invoiceNumber: string | null;
+    notes: string | null;
+  }; // Edit an existing delivery (chemical can't change)
+}
+
+interface DeliveryFormData {
+  chemicalSiteConfigId: string;
+  deliveryDate: string;
+  beforeVisit: string; // 'true' | 'false'
+  containerCount: string;
+  gallons: string;
+  lotNumber: string;
+  invoiceNumber: string;
+  notes: string;
+}
+
+/**
+ * Form values for a new or existing delivery
+ */
+function initialFormData(delivery: DeliveryFormProps['delivery']): DeliveryFormData {
+  return {
+    chemicalSiteConfigId: delivery?.chemicalSiteConfigId ?? '',
+    deliveryDate: delivery?.deliveryDate ?? getLocalDateString(),
+    beforeVisit: delivery?.beforeVisit ? 'true' : 'false',
+    containerCount: delivery ? String(delivery.containerCount) : '',
+    gallons: delivery ? String(delivery.gallons) : '',
+    lotNumber: delivery?.lotNumber ?? '',
+    invoiceNumber: delivery?.invoiceNumber ?? '',
+    notes: delivery?.notes ?? '',
+  };
+}
+
+/**
+ * DeliveryForm Component
+ *
+ * WHY: Product dropped off between visits changes what's on hand. Recording
+ * it keeps the next visit's usage right, and the lot number traces the
+ * product back to a batch.
+ *
+ * FIELDS:
+ * - Chemical: Required, one of the site's chemicals
+ * - Delivery date: Today or earlier
+ * - Arrival: Before or after that day's visit count (visit days only)
+ * - Containers and gallons delivered (gallons required)
+ * - Lot / batch number and invoice reference (optional)
+ * - Notes
+ */
+export function DeliveryForm({
+  isOpen,
+  onClose,
+  onSuccess,
+  siteId,
+  delivery,
+}: DeliveryFormProps) {
+  const isEdit = !!delivery;
+
+  const [formData, setFormData] = useState<DeliveryFormData>(() => initialFormData(delivery));
+  const [chemicals, setChemicals] = useState<SiteChemical[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Fetch the site's chemicals
+   */
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+
+    const fetchChemicals = async () => {
+      try {
+        const response = await fetch(`/api/chemicals/site-config?siteId=${siteId}`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch chemicals');
+        }
+        setChemicals(await response.json());
+      } catch (error) {
+        console.error('Error fetching chemicals:', error);
+      }
+    };
+
+    fetchChemicals();
+  }, [isOpen, siteId]);
+
+  /**
+   * Validate form fields
+   */
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.chemicalSiteConfigId) {
+      newErrors.chemicalSiteConfigId = 'Please select a chemical';
+    }
+    if (!formData.deliveryDate) {
+      newErrors.deliveryDate = 'Delivery date is required';
+    }
+    if (!(Number(formData.gallons) > 0)) {
+      newErrors.gallons = 'Enter the gallons delivered';
+    }
+    if (
+      formData.containerCount !== '' &&
+      (!Number.isInteger(Number(formData.containerCount)) || Number(formData.containerCount) < 0)
+    ) {
+      newErrors.containerCount = 'Enter whole containers (0 or more)';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validate()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    const values = {
+      deliveryDate: formData.deliveryDate,
+      beforeVisit: formData.beforeVisit === 'true',
+      containerCount: formData.containerCount !== '' ? Number(formData.containerCount) : 0,
+      gallons: Number(formData.gallons),
+      lotNumber: formData.lotNumber || null,
+      invoiceNumber: formData.invoiceNumber || null,
+      notes: formData.notes || null,
+    };
+
+    try {
+      const response = isEdit
+        ? await fetch(`/api/deliveries/${delivery.id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(values),
+          })
+        : await fetch('/api/deliveries', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              chemicalSiteConfigId: formData.chemicalSiteConfigId,
+              ...values,
+            }),
+          });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save delivery');
+      }
+
+      onSuccess();
+      handleClose();
+    } catch (error: any) {
+      console.error('Error saving delivery:', error);
+      alert(error.message || 'Failed to save delivery. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle modal close
+   */
+  const handleClose = () => {
+    setFormData(initialFormData(delivery));
+    setErrors({});
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={isEdit ? 'Edit Delivery' : 'Record Delivery'}
+      size="md"
+    >
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        <Select
+          label="Chemical"
+          value={formData.chemicalSiteConfigId}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, chemicalSiteConfigId: e.target.value }))
+          }
+          disabled={isEdit}
+          error={errors.chemicalSiteConfigId}
+          options={[
+            { value: '', label: 'Select chemical...' },
+            ...chemicals.map((chem) => ({
+              value: chem.id,
+              label: chem.chemicalOrgConfig.chemicalMaster.name,
+            })),
+          ]}
+        />
+
+        <Input
+          label="Delivery Date"
+          type="date"
+          max={getLocalDateString()}
+          value={formData.deliveryDate}
+          onChange={(e) => setFormData((prev) => ({ ...prev, deliveryDate: e.target.value }))}
+          error={errors.deliveryDate}
+          required
+        />
+
+        <Select
+          label="Arrived"
+          value={formData.beforeVisit}
+          onChange={(e) => setFormData((prev) => ({ ...prev, beforeVisit: e.target.value }))}
+          helperText="Only matters if a visit was logged the same day"
+          options={[
+            { value: 'false', label: "After that day's visit count" },
+            { value: 'true', label: "Before that day's visit count" },
+          ]}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Containers"
+            type="number"
+            min="0"
+            step="1"
+            value={formData.containerCount}
+            onChange={(e) => setFormData((prev) => ({ ...prev, containerCount: e.target.value }))}
+            error={errors.containerCount}
+          />
+          <Input
+            label="Gallons"
+            type="number"
+            min="0"
+            step="0.1"
+            value={formData.gallons}
+            onChange={(e) => setFormData((prev) => ({ ...prev, gallons: e.target.value }))}
+            error={errors.gallons}
+            required
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Lot / Batch Number"
+            value={formData.lotNumber}
+            maxLength={100}
+            onChange={(e) => setFormData((prev) => ({ ...prev, lotNumber: e.target.value }))}
+          />
+          <Input
+            label="Invoice Reference"
+            value={formData.invoiceNumber}
+            maxLength={100}
+            onChange={(e) => setFormData((prev) => ({ ...prev, invoiceNumber: e.target.value }))}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-text-primary mb-1">
+            Notes
+          </label>
+          <textarea
+            className="w-full px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary bg-bg-secondary text-text-primary"
+            rows={2}
+            maxLength={500}
+            placeholder="Optional notes about this delivery..."
+            value={formData.notes}
+            onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
+          />
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3 pt-4">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={handleClose}
+            disabled={isSubmitting}
+            className="flex-1"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            loading={isSubmitting}
+            className="flex-1"
+          >
+            {isEdit ? 'Save Delivery' : 'Record Delivery'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
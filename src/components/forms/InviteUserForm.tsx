@@ -0,0 +1,228 @@
+// ===========================================
+// FILE: src/components/forms/InviteUserForm.tsx
+// PURPOSE: Form for inviting a team member by email
+// PRD REFERENCE: PRD Section 3 - User Roles & Permissions
+// USED BY: TeamManagement
+// ===========================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button, Checkbox, Input, Modal, Select } from '@/components/ui';
+import type { UserRole } from '@/types';
+
+interface SiteOption {
+  id: string;
+  name: string;
+}
+
+interface InviteUserFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  roleOptions: Array<{ value: UserRole; label: string }>;
+}
+
+const SITE_ROLES: UserRole[] = ['SITE_MANAGER', 'SITE_USER'];
+
+/**
+ * InviteUserForm Component
+ *
+ * WHY: Admins add team members; the invitee receives an email link to
+ * set their own password.
+ *
+ * FIELDS:
+ * - Email: Required
+ * - First / Last Name: Optional (pre-fills the accept page)
+ * - Role: Limited to the admin's team
+ * - Sites: Required for site managers and site users
+ */
+export function InviteUserForm({
+  isOpen,
+  onClose,
+  onSuccess,
+  roleOptions,
+}: InviteUserFormProps) {
+  const [email, setEmail] = useState('');
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [role, setRole] = useState<UserRole>(roleOptions[roleOptions.length - 1]?.value);
+  const [siteIds, setSiteIds] = useState<string[]>([]);
+  const [sites, setSites] = useState<SiteOption[]>([]);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const needsSites = SITE_ROLES.includes(role);
+
+  /**
+   * Load the organization's sites for site roles
+   */
+  useEffect(() => {
+    if (isOpen && needsSites && sites.length === 0) {
+      fetch('/api/sites')
+        .then((res) => (res.ok ? res.json() : []))
+        .then((data) => setSites(data))
+        .catch((error) => console.error('Error fetching sites:', error));
+    }
+  }, [isOpen, needsSites, sites.length]);
+
+  /**
+   * Validate form data
+   * WHY: Client-side validation for better UX
+   */
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!email.trim() || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      newErrors.email = 'A valid email is required';
+    }
+
+    if (needsSites && siteIds.length === 0) {
+      newErrors.siteIds = 'Select at least one site';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const toggleSite = (siteId: string) => {
+    setSiteIds((prev) =>
+      prev.includes(siteId) ? prev.filter((id) => id !== siteId) : [...prev, siteId]
+    );
+  };
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validate()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch('/api/invites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          email: email.trim(),
+          role,
+          firstName: firstName.trim() || null,
+          lastName: lastName.trim() || null,
+          siteIds: needsSites ? siteIds : [],
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to send invite');
+      }
+
+      if (!result.emailSent) {
+        alert('The invite was saved, but the email could not be sent. Try resending it.');
+      }
+
+      onSuccess();
+      handleClose();
+    } catch (error: any) {
+      console.error('Error sending invite:', error);
+      alert(error.message || 'Failed to send invite. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle modal close
+   * WHY: Reset form state when closing
+   */
+  const handleClose = () => {
+    setEmail('');
+    setFirstName('');
+    setLastName('');
+    setRole(roleOptions[roleOptions.length - 1]?.value);
+    setSiteIds([]);
+    setErrors({});
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Invite Team Member">
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        <Input
+          label="Email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          error={errors.email}
+          required
+        />
+
+        <div className="grid grid-cols-2 gap-3">
+          <Input
+            label="First Name"
+            value={firstName}
+            onChange={(e) => setFirstName(e.target.value)}
+          />
+          <Input
+            label="Last Name"
+            value={lastName}
+            onChange={(e) => setLastName(e.target.value)}
+          />
+        </div>
+
+        <Select
+          label="Role"
+          value={role}
+          onChange={(e) => setRole(e.target.value as UserRole)}
+          options={roleOptions}
+        />
+
+        {/* Site access for site roles */}
+        {needsSites && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-text-primary">Sites</p>
+            {sites.length === 0 ? (
+              <p className="text-sm text-text-secondary">No sites available</p>
+            ) : (
+              sites.map((site) => (
+                <Checkbox
+                  key={site.id}
+                  label={site.name}
+                  checked={siteIds.includes(site.id)}
+                  onChange={() => toggleSite(site.id)}
+                />
+              ))
+            )}
+            {errors.siteIds && <p className="text-sm text-error">{errors.siteIds}</p>}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex gap-3 pt-4">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={handleClose}
+            disabled={isSubmitting}
+            className="flex-1"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            loading={isSubmitting}
+            className="flex-1"
+          >
+            Send Invite
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
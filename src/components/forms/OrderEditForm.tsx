@@ -0,0 +1,177 @@
+// ===========================================
+// FILE: src/components/forms/OrderEditForm.tsx
+// PURPOSE: Form for adjusting a replenishment order before delivery
+// PRD REFERENCE: PRD Section 7.6 - Inventory Alerts
+// USED BY: OrderQueue
+// ===========================================
+
+'use client';
+
+import React, { useState } from 'react';
+import { Button, Input, Modal } from '@/components/ui';
+
+interface OrderEditFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  order: {
+    id: string;
+    notes: string | null;
+    site: { name: string };
+    lines: Array<{
+      id: string;
+      chemicalName: string;
+      containerGallons: number;
+      suggestedContainers: number;
+      quantity: number;
+    }>;
+  };
+}
+
+/**
+ * Quantities keyed by order line ID
+ */
+function initialQuantities(lines: OrderEditFormProps['order']['lines']): Record<string, string> {
+  return Object.fromEntries(lines.map((line) => [line.id, String(line.quantity)]));
+}
+
+/**
+ * OrderEditForm Component
+ *
+ * WHY: Suggestions are a starting point. Reps know about upcoming
+ * promotions, storage limits and truck space that the burn rate doesn't.
+ *
+ * FIELDS:
+ * - Quantity per chemical, in whole backstock containers (0 drops it)
+ * - Notes for the delivery
+ */
+export function OrderEditForm({ isOpen, onClose, onSuccess, order }: OrderEditFormProps) {
+  const [quantities, setQuantities] = useState(() => initialQuantities(order.lines));
+  const [notes, setNotes] = useState(order.notes ?? '');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Validate form fields
+   */
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    for (const line of order.lines) {
+      const quantity = Number(quantities[line.id]);
+      if (quantities[line.id] === '' || !Number.isInteger(quantity) || quantity < 0) {
+        newErrors[line.id] = 'Enter whole containers (0 or more)';
+      }
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validate()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/orders/${order.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          notes: notes || null,
+          lines: order.lines.map((line) => ({
+            id: line.id,
+            quantity: Number(quantities[line.id]),
+          })),
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save order');
+      }
+
+      onSuccess();
+      handleClose();
+    } catch (error: any) {
+      console.error('Error saving replenishment order:', error);
+      alert(error.message || 'Failed to save order. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle modal close
+   */
+  const handleClose = () => {
+    setQuantities(initialQuantities(order.lines));
+    setNotes(order.notes ?? '');
+    setErrors({});
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={`Edit Order · ${order.site.name}`} size="md">
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        {order.lines.map((line) => (
+          <Input
+            key={line.id}
+            label={`${line.chemicalName} (${line.containerGallons} gal containers)`}
+            type="number"
+            min="0"
+            step="1"
+            value={quantities[line.id]}
+            onChange={(e) =>
+              setQuantities((prev) => ({ ...prev, [line.id]: e.target.value }))
+            }
+            error={errors[line.id]}
+            helperText={`Suggested: ${line.suggestedContainers}`}
+          />
+        ))}
+
+        <div>
+          <label className="block text-sm font-medium text-text-primary mb-1">
+            Notes
+          </label>
+          <textarea
+            className="w-full px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary bg-bg-secondary text-text-primary"
+            rows={2}
+            maxLength={500}
+            placeholder="Optional delivery notes..."
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3 pt-4">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={handleClose}
+            disabled={isSubmitting}
+            className="flex-1"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            loading={isSubmitting}
+            className="flex-1"
+          >
+            Save Order
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,217 @@
+// ===========================================
+// FILE: src/components/forms/PriceChangeForm.tsx
+// PURPOSE: Form for scheduling a chemical price change for a client
+// PRD REFERENCE: PRD Section 3.2 - Organization Chemical Configuration
+// USED BY: ChemicalPricing
+// ===========================================
+
+'use client';
+
+import React, { useState } from 'react';
+import { Button, Checkbox, Input, Modal } from '@/components/ui';
+import { formatCurrency } from '@/lib/utils';
+import { getLocalDateString } from '@/lib/timezone';
+
+interface PriceChangeFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  chemical?: {
+    id: string; // ChemicalOrgConfig ID
+    name: string;
+    currentPrice: {
+      costPerContainer: number;
+      costPerGallon: number;
+    };
+  };
+}
+
+/**
+ * PriceChangeForm Component
+ *
+ * WHY: Prices change on a date, not retroactively. Scheduling the change
+ * keeps usage before that date valued at the price the client actually paid.
+ *
+ * FIELDS:
+ * - Effective date: Today or later
+ * - Cost per container / per gallon: The new price
+ * - Note: Optional reason, included in the client email
+ * - Notify client: Email the client's contacts about the change
+ */
+export function PriceChangeForm({
+  isOpen,
+  onClose,
+  onSuccess,
+  chemical,
+}: PriceChangeFormProps) {
+  const [effectiveDate, setEffectiveDate] = useState(getLocalDateString());
+  const [costPerContainer, setCostPerContainer] = useState('');
+  const [costPerGallon, setCostPerGallon] = useState('');
+  const [note, setNote] = useState('');
+  const [notifyClient, setNotifyClient] = useState(true);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Validate form fields
+   */
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!effectiveDate) {
+      newErrors.effectiveDate = 'Effective date is required';
+    }
+    if (costPerContainer === '' || Number(costPerContainer) < 0) {
+      newErrors.costPerContainer = 'Enter a cost of 0 or more';
+    }
+    if (costPerGallon === '' || Number(costPerGallon) < 0) {
+      newErrors.costPerGallon = 'Enter a cost of 0 or more';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  /**
+   * Handle form submission
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!chemical || !validate()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/chemicals/org-config/${chemical.id}/prices`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          effectiveDate,
+          costPerContainer: Number(costPerContainer),
+          costPerGallon: Number(costPerGallon),
+          note: note || null,
+          notifyClient,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to schedule price change');
+      }
+
+      onSuccess();
+      handleClose();
+    } catch (error: any) {
+      console.error('Error scheduling price change:', error);
+      alert(error.message || 'Failed to schedule price change. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle modal close
+   */
+  const handleClose = () => {
+    setEffectiveDate(getLocalDateString());
+    setCostPerContainer('');
+    setCostPerGallon('');
+    setNote('');
+    setNotifyClient(true);
+    setErrors({});
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Schedule Price Change" size="md">
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        {chemical && (
+          <p className="text-sm text-text-secondary">
+            <span className="font-medium text-text-primary">{chemical.name}</span> is currently{' '}
+            {formatCurrency(chemical.currentPrice.costPerContainer)} per container /{' '}
+            {formatCurrency(chemical.currentPrice.costPerGallon)} per gallon.
+          </p>
+        )}
+
+        <Input
+          label="Effective Date"
+          type="date"
+          min={getLocalDateString()}
+          value={effectiveDate}
+          onChange={(e) => setEffectiveDate(e.target.value)}
+          error={errors.effectiveDate}
+          helperText="Usage on and after this date is valued at the new price"
+          required
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Cost Per Container"
+            type="number"
+            min="0"
+            step="0.01"
+            value={costPerContainer}
+            onChange={(e) => setCostPerContainer(e.target.value)}
+            error={errors.costPerContainer}
+            required
+          />
+          <Input
+            label="Cost Per Gallon"
+            type="number"
+            min="0"
+            step="0.01"
+            value={costPerGallon}
+            onChange={(e) => setCostPerGallon(e.target.value)}
+            error={errors.costPerGallon}
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-text-primary mb-1">
+            Note
+          </label>
+          <textarea
+            className="w-full px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary bg-bg-secondary text-text-primary"
+            rows={3}
+            maxLength={500}
+            placeholder="Reason for the change (included in the client email)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </div>
+
+        <Checkbox
+          label="Notify client"
+          description="Email the organization's contact and admins about this change"
+          checked={notifyClient}
+          onChange={(e) => setNotifyClient(e.target.checked)}
+        />
+
+        {/* Actions */}
+        <div className="flex gap-3 pt-4">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={handleClose}
+            disabled={isSubmitting}
+            className="flex-1"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            loading={isSubmitting}
+            className="flex-1"
+          >
+            Schedule Change
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
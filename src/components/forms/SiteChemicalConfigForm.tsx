@@ -69,13 +69,13 @@ export function SiteChemicalConfigForm({
   const fetchSites = async () => {
     try {
       setLoadingSites(true);
-      // TODO Phase 5: Create sites API endpoint
-      // For now, use mock data
-      setSites([
-        { id: 'site-1', name: 'Main Street Location' },
-        { id: 'site-2', name: 'Highway 101 Location' },
-        { id: 'site-3', name: 'Downtown Location' },
-      ]);
+      const response = await fetch('/api/sites');
+      if (!response.ok) {
+        throw new Error('Failed to fetch sites');
+      }
+
+      const data = await response.json();
+      setSites(data);
     } catch (error) {
       console.error('Error fetching sites:', error);
     } finally {
@@ -0,0 +1,366 @@
+// ===========================================
+// FILE: src/components/forms/SiteForm.tsx
+// PURPOSE: Form for creating/editing sites
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Organization → Site)
+// USED BY: SiteManagement
+// ===========================================
+
+'use client';
+
+import React, { useState } from 'react';
+import { Button, Input, Select, Modal } from '@/components/ui';
+import { TIMEZONE_OPTIONS } from '@/lib/timezone';
+import type { WashType } from '@/types';
+
+interface SiteFormData {
+  name: string;
+  address: string;
+  washType: WashType;
+  visitReminderDays: string;
+  timezone: string; // '' = organization default
+  latitude: string;
+  longitude: string;
+  visitWindowStart: string; // '' = any time
+  visitWindowEnd: string;
+  visitDurationMinutes: string;
+}
+
+interface SiteFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  organizationId?: string;
+  site?: {
+    id: string;
+    name: string;
+    address: string | null;
+    washType: WashType;
+    visitReminderDays: number;
+    timezone: string | null;
+    latitude: number | null;
+    longitude: number | null;
+    visitWindowStart: string | null;
+    visitWindowEnd: string | null;
+    visitDurationMinutes: number;
+  };
+}
+
+/**
+ * Wash type options
+ */
+const WASH_TYPE_OPTIONS = [
+  { value: 'EXPRESS', label: 'Express Exterior' },
+  { value: 'FULL_SERVICE', label: 'Full Service' },
+  { value: 'HAND_WASH', label: 'Hand Wash' },
+  { value: 'IN_BAY_AUTOMATIC', label: 'In-Bay Automatic' },
+  { value: 'TOUCHLESS_IBA', label: 'Touchless IBA' },
+];
+
+/**
+ * SiteForm Component
+ *
+ * WHY: Organizations add and maintain their wash locations.
+ *
+ * FEATURES:
+ * - Create new site (if no site prop)
+ * - Edit existing site (if site prop provided)
+ * - Form validation before submission
+ *
+ * FIELDS:
+ * - Name: Required (slug is generated from it on create)
+ * - Address: Optional
+ * - Wash Type: Required
+ * - Visit Reminder Days: Days between visits before a reminder (1-90)
+ * - Time Zone: Optional, defaults to the organization's time zone
+ * - Latitude/Longitude: Optional, for route planning
+ * - Visit Window: Optional local hours a technician can be on site
+ * - Visit Duration: Estimated minutes on site (5-480)
+ */
+export function SiteForm({
+  isOpen,
+  onClose,
+  onSuccess,
+  organizationId,
+  site,
+}: SiteFormProps) {
+  const isEdit = !!site;
+
+  const getInitialData = (): SiteFormData => ({
+    name: site?.name || '',
+    address: site?.address || '',
+    washType: site?.washType || 'EXPRESS',
+    visitReminderDays: String(site?.visitReminderDays ?? 14),
+    timezone: site?.timezone || '',
+    latitude: site?.latitude != null ? String(site.latitude) : '',
+    longitude: site?.longitude != null ? String(site.longitude) : '',
+    visitWindowStart: site?.visitWindowStart || '',
+    visitWindowEnd: site?.visitWindowEnd || '',
+    visitDurationMinutes: String(site?.visitDurationMinutes ?? 45),
+  });
+
+  const [formData, setFormData] = useState<SiteFormData>(getInitialData);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Validate form data
+   * WHY: Client-side validation for better UX
+   */
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Site name is required';
+    }
+
+    const reminderDays = parseInt(formData.visitReminderDays);
+    if (isNaN(reminderDays) || reminderDays < 1 || reminderDays > 90) {
+      newErrors.visitReminderDays = 'Enter a number of days between 1 and 90';
+    }
+
+    const latitude = formData.latitude === '' ? null : Number(formData.latitude);
+    const longitude = formData.longitude === '' ? null : Number(formData.longitude);
+    if ((latitude === null) !== (longitude === null)) {
+      newErrors.longitude = 'Enter both latitude and longitude, or neither';
+    } else if (latitude !== null && (isNaN(latitude) || latitude < -90 || latitude > 90)) {
+      newErrors.latitude = 'Enter a latitude between -90 and 90';
+    } else if (longitude !== null && (isNaN(longitude) || longitude < -180 || longitude > 180)) {
+      newErrors.longitude = 'Enter a longitude between -180 and 180';
+    }
+
+    if (
+      formData.visitWindowStart &&
+      formData.visitWindowEnd &&
+      formData.visitWindowStart >= formData.visitWindowEnd
+    ) {
+      newErrors.visitWindowEnd = 'Window must end after it starts';
+    }
+
+    const durationMinutes = parseInt(formData.visitDurationMinutes);
+    if (isNaN(durationMinutes) || durationMinutes < 5 || durationMinutes > 480) {
+      newErrors.visitDurationMinutes = 'Enter between 5 and 480 minutes';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  /**
+   * Handle form submission
+   * WHY: Create or update site via API
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validate()) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const url = isEdit ? `/api/sites/${site.id}` : '/api/sites';
+      const method = isEdit ? 'PUT' : 'POST';
+
+      const payload = {
+        name: formData.name.trim(),
+        address: formData.address.trim() || null,
+        washType: formData.washType,
+        visitReminderDays: parseInt(formData.visitReminderDays),
+        timezone: formData.timezone || null,
+        latitude: formData.latitude === '' ? null : Number(formData.latitude),
+        longitude: formData.longitude === '' ? null : Number(formData.longitude),
+        visitWindowStart: formData.visitWindowStart || null,
+        visitWindowEnd: formData.visitWindowEnd || null,
+        visitDurationMinutes: parseInt(formData.visitDurationMinutes),
+        ...(isEdit ? {} : { organizationId }),
+      };
+
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to save site');
+      }
+
+      // Success!
+      onSuccess();
+      handleClose();
+    } catch (error: any) {
+      console.error('Error saving site:', error);
+      alert(error.message || 'Failed to save site. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle modal close
+   * WHY: Reset form state when closing
+   */
+  const handleClose = () => {
+    setFormData(getInitialData());
+    setErrors({});
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={isEdit ? 'Edit Site' : 'Add Site'}
+    >
+      <form onSubmit={handleSubmit} className="p-6 space-y-4">
+        {/* Name */}
+        <Input
+          label="Site Name"
+          placeholder="e.g., Main Street Location"
+          value={formData.name}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, name: e.target.value }))
+          }
+          error={errors.name}
+          required
+        />
+
+        {/* Address */}
+        <Input
+          label="Address"
+          placeholder="123 Main St, Springfield"
+          value={formData.address}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, address: e.target.value }))
+          }
+        />
+
+        {/* Wash Type */}
+        <Select
+          label="Wash Type"
+          value={formData.washType}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, washType: e.target.value as WashType }))
+          }
+          options={WASH_TYPE_OPTIONS}
+          required
+        />
+
+        {/* Visit Reminder Days */}
+        <Input
+          label="Visit Reminder (days)"
+          type="number"
+          min="1"
+          max="90"
+          value={formData.visitReminderDays}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, visitReminderDays: e.target.value }))
+          }
+          error={errors.visitReminderDays}
+          helperText="Remind the team when a site hasn't been visited for this many days"
+        />
+
+        {/* Time Zone */}
+        <Select
+          label="Time Zone"
+          value={formData.timezone}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, timezone: e.target.value }))
+          }
+          options={[
+            { value: '', label: 'Organization default' },
+            // Keep a zone set through the API selectable even if it isn't listed
+            ...(formData.timezone && !TIMEZONE_OPTIONS.some((tz) => tz.value === formData.timezone)
+              ? [{ value: formData.timezone, label: formData.timezone }]
+              : []),
+            ...TIMEZONE_OPTIONS,
+          ]}
+        />
+
+        {/* Coordinates */}
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Latitude"
+            type="number"
+            step="any"
+            placeholder="e.g., 39.9526"
+            value={formData.latitude}
+            onChange={(e) =>
+              setFormData((prev) => ({ ...prev, latitude: e.target.value }))
+            }
+            error={errors.latitude}
+          />
+          <Input
+            label="Longitude"
+            type="number"
+            step="any"
+            placeholder="e.g., -75.1652"
+            value={formData.longitude}
+            onChange={(e) =>
+              setFormData((prev) => ({ ...prev, longitude: e.target.value }))
+            }
+            error={errors.longitude}
+          />
+        </div>
+        <p className="text-xs text-text-tertiary -mt-2">
+          Used to plan technician routes. Leave blank to skip drive estimates for this site.
+        </p>
+
+        {/* Visit Window */}
+        <div className="grid grid-cols-3 gap-4">
+          <Input
+            label="Visit From"
+            type="time"
+            value={formData.visitWindowStart}
+            onChange={(e) =>
+              setFormData((prev) => ({ ...prev, visitWindowStart: e.target.value }))
+            }
+          />
+          <Input
+            label="Visit Until"
+            type="time"
+            value={formData.visitWindowEnd}
+            onChange={(e) =>
+              setFormData((prev) => ({ ...prev, visitWindowEnd: e.target.value }))
+            }
+            error={errors.visitWindowEnd}
+          />
+          <Input
+            label="Visit (min)"
+            type="number"
+            min="5"
+            max="480"
+            value={formData.visitDurationMinutes}
+            onChange={(e) =>
+              setFormData((prev) => ({ ...prev, visitDurationMinutes: e.target.value }))
+            }
+            error={errors.visitDurationMinutes}
+          />
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3 pt-4">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={handleClose}
+            disabled={isSubmitting}
+            className="flex-1"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            loading={isSubmitting}
+            className="flex-1"
+          >
+            {isEdit ? 'Update' : 'Add'} Site
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+}
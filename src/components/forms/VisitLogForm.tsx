@@ -9,6 +9,7 @@
 
 import React, { useState } from 'react';
 import { Button, Input, Modal } from '@/components/ui';
+import { getLocalDateString } from '@/lib/timezone';
 
 interface VisitLogFormData {
   visitDate: string;
@@ -70,7 +71,7 @@ export function VisitLogForm({
   const [formData, setFormData] = useState<VisitLogFormData>({
     visitDate: visit?.visitDate
       ? new Date(visit.visitDate).toISOString().split('T')[0]
-      : new Date().toISOString().split('T')[0],
+      : getLocalDateString(),
     publicNotes: visit?.publicNotes || '',
     privateNotes: visit?.privateNotes || '',
     serviceNotes: visit?.serviceNotes || '',
@@ -148,7 +149,7 @@ export function VisitLogForm({
     setFormData({
       visitDate: visit?.visitDate
         ? new Date(visit.visitDate).toISOString().split('T')[0]
-        : new Date().toISOString().split('T')[0],
+        : getLocalDateString(),
       publicNotes: visit?.publicNotes || '',
       privateNotes: visit?.privateNotes || '',
       serviceNotes: visit?.serviceNotes || '',
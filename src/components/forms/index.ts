@@ -7,3 +7,13 @@
 export { ChemicalForm } from './ChemicalForm';
 export { SiteChemicalConfigForm } from './SiteChemicalConfigForm';
 export { ChemicalSiteApplicationForm } from './ChemicalSiteApplicationForm';
+export { CarCountForm } from './CarCountForm';
+export { SiteForm } from './SiteForm';
+export { InviteUserForm } from './InviteUserForm';
+export { AnomalyAcknowledgeForm } from './AnomalyAcknowledgeForm';
+export { PriceChangeForm } from './PriceChangeForm';
+export { CostTargetForm } from './CostTargetForm';
+export { OrderEditForm } from './OrderEditForm';
+export { DeliveryForm } from './DeliveryForm';
+export { CustomContainerForm } from './CustomContainerForm';
+export { ContainerCalibrationForm } from './ContainerCalibrationForm';
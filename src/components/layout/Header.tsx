@@ -21,6 +21,7 @@ interface HeaderProps {
     email: string | null;
     role: string;
   };
+  isTabletSession?: boolean;
   className?: string;
 }
 
@@ -64,8 +65,9 @@ interface HeaderProps {
  * ```
  *
  * @param user - Current user data
+ * @param isTabletSession - PIN session on a shared tablet (sign out locks the tablet)
  */
-export function Header({ user, className }: HeaderProps) {
+export function Header({ user, isTabletSession = false, className }: HeaderProps) {
   const router = useRouter();
   const [isUserMenuOpen, setIsUserMenuOpen] = useState(false);
   const userMenuRef = useRef<HTMLDivElement>(null);
@@ -77,11 +79,12 @@ export function Header({ user, className }: HeaderProps) {
 
   /**
    * Handle user sign out
-   * WHY: Sign out user and redirect to login page
+   * WHY: Sign out user and redirect to login page (or back to the PIN
+   * screen on a shared tablet)
    */
   const handleSignOut = async () => {
     await signOut({ redirect: false });
-    router.push('/login');
+    router.push(isTabletSession ? '/tablet' : '/login');
     router.refresh();
   };
 
@@ -267,6 +270,17 @@ export function Header({ user, className }: HeaderProps) {
                       <button className="w-full px-4 py-2 text-left text-sm text-text-primary hover:bg-bg-tertiary transition-colors duration-150">
                         👥 Team Management
                       </button>
+                      {!isTabletSession && (
+                        <button
+                          onClick={() => {
+                            setIsUserMenuOpen(false);
+                            router.push('/settings/tablet');
+                          }}
+                          className="w-full px-4 py-2 text-left text-sm text-text-primary hover:bg-bg-tertiary transition-colors duration-150"
+                        >
+                          🔢 Tablet Mode
+                        </button>
+                      )}
                       <button className="w-full px-4 py-2 text-left text-sm text-text-primary hover:bg-bg-tertiary transition-colors duration-150">
                         ❓ Support
                       </button>
@@ -278,7 +292,7 @@ export function Header({ user, className }: HeaderProps) {
                         onClick={handleSignOut}
                         className="w-full px-4 py-2 text-left text-sm text-error hover:bg-bg-tertiary transition-colors duration-150 font-medium"
                       >
-                        🚪 SIGN OUT
+                        {isTabletSession ? '🔒 LOCK TABLET' : '🚪 SIGN OUT'}
                       </button>
                     </div>
                   </div>
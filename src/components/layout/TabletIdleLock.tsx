@@ -0,0 +1,60 @@
+// ===========================================
+// FILE: src/components/layout/TabletIdleLock.tsx
+// PURPOSE: Auto-lock for PIN sessions on shared site tablets
+// PRD REFERENCE: PRD Section 4.2 - Secondary Authentication (PIN)
+// USED BY: Dashboard layout (PIN sessions only)
+// ===========================================
+
+'use client';
+
+import { useEffect } from 'react';
+import { signOut } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+
+/**
+ * Inactivity before a tablet session locks
+ */
+const TABLET_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'scroll'] as const;
+
+/**
+ * TabletIdleLock Component
+ *
+ * WHY: A shared tablet left on a page must not stay signed in as whoever
+ * used it last. After TABLET_IDLE_TIMEOUT_MS without interaction the
+ * session is signed out and the tablet returns to the PIN screen.
+ *
+ * NOTE: Renders nothing. The server also caps PIN sessions at
+ * PIN_SESSION_MAX_AGE regardless of activity.
+ */
+export function TabletIdleLock() {
+  const router = useRouter();
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>;
+
+    const lock = async () => {
+      await signOut({ redirect: false });
+      router.push('/tablet');
+      router.refresh();
+    };
+
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lock, TABLET_IDLE_TIMEOUT_MS);
+    };
+
+    resetTimer();
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, resetTimer, { passive: true })
+    );
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, resetTimer));
+    };
+  }, [router]);
+
+  return null;
+}
@@ -9,3 +9,4 @@ export { BottomNav, NavIcons, type BottomNavAction } from './BottomNav';
 export { PageContainer, PageHeader, PageSection } from './PageContainer';
 export { FAB, FABProvider, useFAB, useFABAction, type FABAction } from './FAB';
 export { TabMenu, TabMenuIcons, type TabMenuItem, type TabMenuAction } from './TabMenu';
+export { TabletIdleLock } from './TabletIdleLock';
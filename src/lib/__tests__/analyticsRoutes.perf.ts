@@ -0,0 +1,352 @@
+// ===========================================
+// FILE: src/lib/__tests__/analyticsRoutes.perf.ts
+// PURPOSE: Latency of the rollup-backed analytics routes on a 500-site dataset
+// PRD REFERENCE: PRD Section 7 - Analytics & Reporting
+// Run with: PERF_DATABASE_URL=... npm run test:perf (see "Performance Tests" in README.md)
+// ===========================================
+
+import { randomUUID } from 'node:crypto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { GET as getSummary } from '@/app/api/analytics/summary/route';
+import { GET as getUsage } from '@/app/api/analytics/usage/route';
+import { GET as getCostPerCar } from '@/app/api/analytics/cost-per-car/route';
+
+/**
+ * Session the routes see (filled in once the distributor is seeded)
+ */
+const session = vi.hoisted(() => ({
+  user: {
+    id: '',
+    role: 'DISTRIBUTOR_ADMIN',
+    distributorId: '',
+    organizationId: null as string | null,
+  },
+}));
+
+vi.mock('@/lib/auth', () => ({ auth: async () => session }));
+
+const SITE_COUNT = 500;
+const SITES_PER_ORGANIZATION = 25;
+const CHEMICALS_PER_SITE = 6;
+const HISTORY_DAYS = 180;
+const VISIT_INTERVAL_DAYS = 7;
+const TIME_ZONES = ['America/New_York', 'America/Chicago', 'America/Los_Angeles'];
+const CHEMICAL_TYPES = [
+  'PREP_SOAP',
+  'HIGH_PH_PRESOAK',
+  'WHEEL_TIRE_CLEANER',
+  'FOAM_DETERGENT',
+  'TRI_COLOR',
+  'PROTECTANT',
+] as const;
+
+/**
+ * Timed runs per route (after one warm-up run)
+ */
+const TIMED_RUNS = 5;
+
+/**
+ * Slowest timed run allowed per route, in ms
+ * WHY: The summary covers every site of the distributor; the others are
+ * one site over a 90-day range
+ */
+const LATENCY_BUDGET_MS = {
+  summary: 3000,
+  usage: 500,
+  costPerCar: 500,
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const INSERT_CHUNK_SIZE = 5000;
+
+/**
+ * Deterministic random numbers (mulberry32) so every run seeds the same data
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Insert rows in chunks (one statement per chunk)
+ */
+async function insertInChunks<T>(rows: T[], insert: (chunk: T[]) => Promise<unknown>) {
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    await insert(rows.slice(i, i + INSERT_CHUNK_SIZE));
+  }
+}
+
+/**
+ * Seed a distributor with SITE_COUNT sites of visit, rollup and car count history
+ *
+ * BUSINESS LOGIC:
+ * - Each site is visited every VISIT_INTERVAL_DAYS; each visit logs every
+ *   site chemical, with a delivery whenever on hand runs low
+ * - One rollup row per chemical per visit day, as lib/rollups stores them
+ * - A car count for every site every day
+ */
+async function seedDataset(runId: string) {
+  const random = createRandom(20260317);
+  const today = new Date(new Date().toISOString().split('T')[0]);
+  const firstDay = new Date(today.getTime() - (HISTORY_DAYS - 1) * MS_PER_DAY);
+
+  const distributor = await prisma.distributor.create({
+    data: { companyName: `Perf Test ${runId}` },
+  });
+  const user = await prisma.user.create({
+    data: {
+      email: `perf-${runId}@example.com`,
+      passwordHash: 'not-a-real-hash',
+      role: 'DISTRIBUTOR_ADMIN',
+      firstName: 'Perf',
+      lastName: 'Test',
+      distributorId: distributor.id,
+    },
+  });
+
+  const masters = await Promise.all(
+    CHEMICAL_TYPES.map((type, index) =>
+      prisma.chemicalMaster.create({
+        data: { name: `Perf Chemical ${index + 1}`, type, distributorId: distributor.id },
+      })
+    )
+  );
+
+  const organizations: Array<{ id: string; distributorId: string; name: string; slug: string; timezone: string }> = [];
+  const orgConfigs: Array<{
+    id: string;
+    chemicalMasterId: string;
+    organizationId: string;
+    primaryContainer: 'HOLDING_TANK_15GAL';
+    backstockContainer: 'DRUM_15GAL';
+    costPerContainer: number;
+    costPerGallon: number;
+  }> = [];
+  const sites: Array<{ id: string; organizationId: string; name: string; slug: string; washType: 'EXPRESS' }> = [];
+  const siteConfigs: Array<{ id: string; chemicalOrgConfigId: string; siteId: string }> = [];
+
+  for (let orgIndex = 0; orgIndex < SITE_COUNT / SITES_PER_ORGANIZATION; orgIndex++) {
+    const organizationId = randomUUID();
+    organizations.push({
+      id: organizationId,
+      distributorId: distributor.id,
+      name: `Perf Org ${orgIndex + 1}`,
+      slug: `perf-${runId}-org-${orgIndex + 1}`,
+      timezone: TIME_ZONES[orgIndex % TIME_ZONES.length],
+    });
+
+    const configIds = masters.map((master) => {
+      const costPerGallon = Math.round((8 + random() * 20) * 100) / 100;
+      const id = randomUUID();
+      orgConfigs.push({
+        id,
+        chemicalMasterId: master.id,
+        organizationId,
+        primaryContainer: 'HOLDING_TANK_15GAL',
+        backstockContainer: 'DRUM_15GAL',
+        costPerContainer: costPerGallon * 15,
+        costPerGallon,
+      });
+      return id;
+    });
+
+    for (let siteIndex = 0; siteIndex < SITES_PER_ORGANIZATION; siteIndex++) {
+      const siteId = randomUUID();
+      sites.push({
+        id: siteId,
+        organizationId,
+        name: `Perf Site ${orgIndex + 1}-${siteIndex + 1}`,
+        slug: `site-${siteIndex + 1}`,
+        washType: 'EXPRESS',
+      });
+      for (const chemicalOrgConfigId of configIds.slice(0, CHEMICALS_PER_SITE)) {
+        siteConfigs.push({ id: randomUUID(), chemicalOrgConfigId, siteId });
+      }
+    }
+  }
+
+  await prisma.organization.createMany({ data: organizations });
+  await prisma.chemicalOrgConfig.createMany({ data: orgConfigs });
+  await prisma.site.createMany({ data: sites });
+  await insertInChunks(siteConfigs, (chunk) => prisma.chemicalSiteConfig.createMany({ data: chunk }));
+
+  const visits: Array<{ id: string; siteId: string; userId: string; visitDate: Date }> = [];
+  const entries: Array<{
+    visitLogId: string;
+    chemicalSiteConfigId: string;
+    entryMethod: string;
+    levelGallons: number;
+    deliveryReceived: boolean;
+    deliveryCount: number | null;
+    deliveryGallons: number | null;
+    totalOnHandGallons: number;
+    calculatedUsageGallons: number | null;
+  }> = [];
+  const rollups: Array<{
+    siteId: string;
+    chemicalSiteConfigId: string;
+    usageDate: Date;
+    usageGallons: number;
+    entryCount: number;
+    closingOnHandGallons: number;
+  }> = [];
+  const carCounts: Array<{ siteId: string; logDate: Date; totalCars: number }> = [];
+
+  sites.forEach((site, siteIndex) => {
+    const configs = siteConfigs.filter((config) => config.siteId === site.id);
+    const onHand = new Map(configs.map((config) => [config.id, 30 + random() * 15]));
+
+    for (
+      let day = siteIndex % VISIT_INTERVAL_DAYS, visitNumber = 0;
+      day < HISTORY_DAYS;
+      day += VISIT_INTERVAL_DAYS, visitNumber++
+    ) {
+      const visitDate = new Date(firstDay.getTime() + day * MS_PER_DAY);
+      const visitLogId = randomUUID();
+      visits.push({ id: visitLogId, siteId: site.id, userId: user.id, visitDate });
+
+      for (const config of configs) {
+        const usage = Math.round((2 + random() * 10) * 100) / 100;
+        const delivery = onHand.get(config.id)! - usage < 10 ? 30 : 0;
+        const current = Math.round((onHand.get(config.id)! - usage + delivery) * 100) / 100;
+        onHand.set(config.id, current);
+
+        entries.push({
+          visitLogId,
+          chemicalSiteConfigId: config.id,
+          entryMethod: 'GALLONS',
+          levelGallons: Math.min(current, 15),
+          deliveryReceived: delivery > 0,
+          deliveryCount: delivery > 0 ? 2 : null,
+          deliveryGallons: delivery > 0 ? delivery : null,
+          totalOnHandGallons: current,
+          calculatedUsageGallons: visitNumber === 0 ? null : usage,
+        });
+        rollups.push({
+          siteId: site.id,
+          chemicalSiteConfigId: config.id,
+          usageDate: visitDate,
+          usageGallons: visitNumber === 0 ? 0 : usage,
+          entryCount: 1,
+          closingOnHandGallons: current,
+        });
+      }
+    }
+
+    for (let day = 0; day < HISTORY_DAYS; day++) {
+      carCounts.push({
+        siteId: site.id,
+        logDate: new Date(firstDay.getTime() + day * MS_PER_DAY),
+        totalCars: 150 + Math.floor(random() * 300),
+      });
+    }
+  });
+
+  await insertInChunks(visits, (chunk) => prisma.visitLog.createMany({ data: chunk }));
+  await insertInChunks(entries, (chunk) => prisma.visitLogChemicalEntry.createMany({ data: chunk }));
+  await insertInChunks(rollups, (chunk) => prisma.dailyChemicalUsage.createMany({ data: chunk }));
+  await insertInChunks(carCounts, (chunk) => prisma.carCountLog.createMany({ data: chunk }));
+
+  return { distributorId: distributor.id, userId: user.id, siteIds: sites.map((site) => site.id) };
+}
+
+/**
+ * Call a route handler once and return how long it took
+ */
+async function timeRequest(
+  handler: (request: NextRequest) => Promise<Response>,
+  url: string
+): Promise<number> {
+  const started = performance.now();
+  const response = await handler(new NextRequest(url));
+  const elapsed = performance.now() - started;
+
+  expect(response.status).toBe(200);
+  await response.json();
+  return elapsed;
+}
+
+/**
+ * Slowest of TIMED_RUNS requests after a warm-up
+ * WHY: The first call pays for connection setup and query planning
+ */
+async function slowestRun(
+  handler: (request: NextRequest) => Promise<Response>,
+  urls: string[]
+): Promise<number> {
+  await timeRequest(handler, urls[0]);
+
+  let slowest = 0;
+  for (let run = 0; run < TIMED_RUNS; run++) {
+    slowest = Math.max(slowest, await timeRequest(handler, urls[run % urls.length]));
+  }
+  return slowest;
+}
+
+describe('rollup-backed analytics routes at 500 sites', () => {
+  const runId = randomUUID().slice(0, 8);
+  let dataset: Awaited<ReturnType<typeof seedDataset>>;
+
+  beforeAll(async () => {
+    dataset = await seedDataset(runId);
+    session.user.id = dataset.userId;
+    session.user.distributorId = dataset.distributorId;
+  });
+
+  afterAll(async () => {
+    if (dataset) {
+      // Sites (and their history) cascade from organizations
+      await prisma.organization.deleteMany({ where: { distributorId: dataset.distributorId } });
+      await prisma.distributor.delete({ where: { id: dataset.distributorId } });
+    }
+    await prisma.$disconnect();
+  });
+
+  /**
+   * Sites spread across the dataset, one per timed run
+   */
+  const sampleSiteIds = () =>
+    Array.from({ length: TIMED_RUNS }, (_, i) =>
+      dataset.siteIds[Math.floor((i * dataset.siteIds.length) / TIMED_RUNS)]
+    );
+
+  it(`summarizes every site within ${LATENCY_BUDGET_MS.summary}ms`, async () => {
+    const slowest = await slowestRun(getSummary, [
+      'http://localhost/api/analytics/summary?period=90',
+    ]);
+
+    expect(slowest, `summary (${SITE_COUNT} sites, 90 days)`).toBeLessThan(
+      LATENCY_BUDGET_MS.summary
+    );
+  });
+
+  it(`returns a site's usage trend within ${LATENCY_BUDGET_MS.usage}ms`, async () => {
+    const slowest = await slowestRun(
+      getUsage,
+      sampleSiteIds().map(
+        (siteId) => `http://localhost/api/analytics/usage?siteId=${siteId}&period=week`
+      )
+    );
+
+    expect(slowest, 'usage (1 site, weekly)').toBeLessThan(LATENCY_BUDGET_MS.usage);
+  });
+
+  it(`returns a site's cost per car within ${LATENCY_BUDGET_MS.costPerCar}ms`, async () => {
+    const slowest = await slowestRun(
+      getCostPerCar,
+      sampleSiteIds().map(
+        (siteId) =>
+          `http://localhost/api/analytics/cost-per-car?siteId=${siteId}&includeBreakdown=true`
+      )
+    );
+
+    expect(slowest, 'cost-per-car (1 site, 30 days)').toBeLessThan(LATENCY_BUDGET_MS.costPerCar);
+  });
+});
@@ -0,0 +1,88 @@
+// ===========================================
+// FILE: src/lib/__tests__/deliveries.test.ts
+// PURPOSE: Crediting standalone deliveries to the visit interval they arrived in
+// PRD REFERENCE: PRD Section 6.2 - Chemical Entries
+// ===========================================
+
+import { describe, expect, it } from 'vitest';
+import { sumDeliveredGallons } from '@/lib/deliveries';
+import { detectChainAnomalies, type AnomalyChainEntry } from '@/lib/anomalies';
+
+const delivery = (date: string, gallons: number, beforeVisit: boolean) => ({
+  deliveryDate: new Date(date),
+  beforeVisit,
+  gallons,
+});
+
+describe('sumDeliveredGallons', () => {
+  it('counts deliveries dated between the two visits', () => {
+    const deliveries = [delivery('2026-03-04', 20, false), delivery('2026-03-05', 5, true)];
+
+    expect(sumDeliveredGallons(deliveries, new Date('2026-03-02'), new Date('2026-03-09'))).toBe(25);
+  });
+
+  it('credits a same-day delivery that arrived before the count to that visit', () => {
+    const deliveries = [delivery('2026-03-09', 55, true)];
+
+    expect(sumDeliveredGallons(deliveries, new Date('2026-03-02'), new Date('2026-03-09'))).toBe(55);
+    expect(sumDeliveredGallons(deliveries, new Date('2026-03-09'), new Date('2026-03-16'))).toBe(0);
+  });
+
+  it('credits a same-day delivery that arrived after the count to the next visit', () => {
+    const deliveries = [delivery('2026-03-09', 55, false)];
+
+    expect(sumDeliveredGallons(deliveries, new Date('2026-03-02'), new Date('2026-03-09'))).toBe(0);
+    expect(sumDeliveredGallons(deliveries, new Date('2026-03-09'), new Date('2026-03-16'))).toBe(55);
+  });
+
+  it('counts nothing between two visits on the same day', () => {
+    const deliveries = [delivery('2026-03-09', 55, true), delivery('2026-03-09', 30, false)];
+
+    expect(sumDeliveredGallons(deliveries, new Date('2026-03-09'), new Date('2026-03-09'))).toBe(0);
+  });
+});
+
+describe('same-day delivery before a visit count', () => {
+  /**
+   * Weekly visits using 10 gal a week; 55 gal arrives on the morning of
+   * March 30 and is in that afternoon's count
+   */
+  const visits = [
+    { date: '2026-03-02', onHand: 60 },
+    { date: '2026-03-09', onHand: 50 },
+    { date: '2026-03-16', onHand: 40 },
+    { date: '2026-03-23', onHand: 30 },
+    { date: '2026-03-30', onHand: 75 },
+    { date: '2026-04-06', onHand: 65 },
+  ];
+
+  const buildChain = (beforeVisit: boolean): AnomalyChainEntry[] => {
+    const deliveries = [delivery('2026-03-30', 55, beforeVisit)];
+    return visits.map((visit, i) => ({
+      id: visit.date,
+      visitDate: new Date(visit.date),
+      levelGallons: null,
+      totalOnHandGallons: visit.onHand,
+      deliveryGallons:
+        i === 0
+          ? 0
+          : sumDeliveredGallons(deliveries, new Date(visits[i - 1].date), new Date(visit.date)),
+    }));
+  };
+
+  it('raises no anomalies when the delivery is recorded as before the count', () => {
+    const chain = buildChain(true);
+
+    expect(chain.map((entry) => entry.deliveryGallons)).toEqual([0, 0, 0, 0, 55, 0]);
+    expect(detectChainAnomalies(chain, null)).toEqual([]);
+  });
+
+  it('reads as negative usage then a spike if credited to the next visit', () => {
+    const anomalies = detectChainAnomalies(buildChain(false), null);
+
+    expect(anomalies.map((anomaly) => [anomaly.chemicalEntryId, anomaly.type])).toEqual([
+      ['2026-03-30', 'NEGATIVE_USAGE'],
+      ['2026-04-06', 'USAGE_SPIKE'],
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+// ===========================================
+// FILE: src/lib/__tests__/timezone.test.ts
+// PURPOSE: Site-local midnights and analytics periods across DST changes
+// PRD REFERENCE: PRD Section 7 - Analytics & Reporting
+// ===========================================
+
+import { describe, expect, it } from 'vitest';
+import { zonedMidnightToUtc } from '@/lib/timezone';
+import { getPeriodEnd, getPeriodStart } from '@/lib/analytics';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * Length of a period from its start to the instant after its end
+ */
+function periodLength(start: Date, end: Date): number {
+  return end.getTime() + 1 - start.getTime();
+}
+
+describe('zonedMidnightToUtc', () => {
+  it('starts spring-forward days at the standard-time offset', () => {
+    // US clocks went forward at 2am on Sunday, March 8 2026
+    expect(zonedMidnightToUtc(new Date('2026-03-08'), 'America/New_York').toISOString()).toBe(
+      '2026-03-08T05:00:00.000Z'
+    );
+    expect(zonedMidnightToUtc(new Date('2026-03-09'), 'America/New_York').toISOString()).toBe(
+      '2026-03-09T04:00:00.000Z'
+    );
+    expect(zonedMidnightToUtc(new Date('2026-03-08'), 'America/Los_Angeles').toISOString()).toBe(
+      '2026-03-08T08:00:00.000Z'
+    );
+    expect(zonedMidnightToUtc(new Date('2026-03-09'), 'America/Los_Angeles').toISOString()).toBe(
+      '2026-03-09T07:00:00.000Z'
+    );
+  });
+
+  it('starts fall-back days at the daylight-time offset', () => {
+    // US clocks went back at 2am on Sunday, November 1 2026
+    expect(zonedMidnightToUtc(new Date('2026-11-01'), 'America/New_York').toISOString()).toBe(
+      '2026-11-01T04:00:00.000Z'
+    );
+    expect(zonedMidnightToUtc(new Date('2026-11-02'), 'America/New_York').toISOString()).toBe(
+      '2026-11-02T05:00:00.000Z'
+    );
+    expect(zonedMidnightToUtc(new Date('2026-11-01'), 'America/Los_Angeles').toISOString()).toBe(
+      '2026-11-01T07:00:00.000Z'
+    );
+    expect(zonedMidnightToUtc(new Date('2026-11-02'), 'America/Los_Angeles').toISOString()).toBe(
+      '2026-11-02T08:00:00.000Z'
+    );
+  });
+
+  it('handles European transitions, which fall on different days', () => {
+    // UK clocks went forward on March 29 and back on October 25 2026
+    expect(zonedMidnightToUtc(new Date('2026-03-29'), 'Europe/London').toISOString()).toBe(
+      '2026-03-29T00:00:00.000Z'
+    );
+    expect(zonedMidnightToUtc(new Date('2026-03-30'), 'Europe/London').toISOString()).toBe(
+      '2026-03-29T23:00:00.000Z'
+    );
+    expect(zonedMidnightToUtc(new Date('2026-10-25'), 'Europe/London').toISOString()).toBe(
+      '2026-10-24T23:00:00.000Z'
+    );
+    expect(zonedMidnightToUtc(new Date('2026-10-26'), 'Europe/London').toISOString()).toBe(
+      '2026-10-26T00:00:00.000Z'
+    );
+  });
+
+  it('starts the day at 1am where the transition skips midnight', () => {
+    // Chile moved from midnight straight to 1am on September 6 2026
+    expect(zonedMidnightToUtc(new Date('2026-09-06'), 'America/Santiago').toISOString()).toBe(
+      '2026-09-06T04:00:00.000Z'
+    );
+  });
+});
+
+describe('getPeriodStart / getPeriodEnd', () => {
+  it('makes the spring-forward day 23 hours long', () => {
+    const options = { timeZone: 'America/New_York' };
+    const start = getPeriodStart(new Date('2026-03-08T15:00:00Z'), 'day', options);
+    const end = getPeriodEnd(start, 'day', options);
+
+    expect(start.toISOString()).toBe('2026-03-08T05:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-03-09T03:59:59.999Z');
+    expect(periodLength(start, end)).toBe(23 * HOUR);
+  });
+
+  it('makes the fall-back day 25 hours long', () => {
+    const options = { timeZone: 'America/Los_Angeles' };
+    const start = getPeriodStart(new Date('2026-11-01T20:00:00Z'), 'day', options);
+    const end = getPeriodEnd(start, 'day', options);
+
+    expect(start.toISOString()).toBe('2026-11-01T07:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-11-02T07:59:59.999Z');
+    expect(periodLength(start, end)).toBe(25 * HOUR);
+  });
+
+  it('buckets a late-evening visit into the local day, not the UTC day', () => {
+    // 11:30pm Eastern on March 8 is already March 9 in UTC
+    const start = getPeriodStart(new Date('2026-03-09T03:30:00Z'), 'day', {
+      timeZone: 'America/New_York',
+    });
+
+    expect(start.toISOString()).toBe('2026-03-08T05:00:00.000Z');
+  });
+
+  it('starts a Sunday week at local midnight across spring-forward', () => {
+    const options = { timeZone: 'America/New_York', weekStartsOn: 0 };
+    const start = getPeriodStart(new Date('2026-03-11T15:00:00Z'), 'week', options);
+    const end = getPeriodEnd(start, 'week', options);
+
+    expect(start.toISOString()).toBe('2026-03-08T05:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-03-15T03:59:59.999Z');
+    expect(periodLength(start, end)).toBe(7 * DAY - HOUR);
+  });
+
+  it('starts a Sunday week at local midnight across fall-back', () => {
+    const options = { timeZone: 'America/Los_Angeles', weekStartsOn: 0 };
+    const start = getPeriodStart(new Date('2026-11-03T18:00:00Z'), 'week', options);
+    const end = getPeriodEnd(start, 'week', options);
+
+    expect(start.toISOString()).toBe('2026-11-01T07:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-11-08T07:59:59.999Z');
+    expect(periodLength(start, end)).toBe(7 * DAY + HOUR);
+  });
+
+  it('starts a Monday week at local midnight on both sides of a European change', () => {
+    const options = { timeZone: 'Europe/London', weekStartsOn: 1 };
+
+    const weekOfChange = getPeriodStart(new Date('2026-03-26T12:00:00Z'), 'week', options);
+    expect(weekOfChange.toISOString()).toBe('2026-03-23T00:00:00.000Z');
+    expect(getPeriodEnd(weekOfChange, 'week', options).toISOString()).toBe(
+      '2026-03-29T22:59:59.999Z'
+    );
+
+    const weekAfter = getPeriodStart(new Date('2026-04-01T12:00:00Z'), 'week', options);
+    expect(weekAfter.toISOString()).toBe('2026-03-29T23:00:00.000Z');
+  });
+
+  it('spans a whole local month containing a DST change', () => {
+    const options = { timeZone: 'America/New_York' };
+    const start = getPeriodStart(new Date('2026-03-20T12:00:00Z'), 'month', options);
+    const end = getPeriodEnd(start, 'month', options);
+
+    expect(start.toISOString()).toBe('2026-03-01T05:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-04-01T03:59:59.999Z');
+  });
+});
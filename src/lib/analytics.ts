@@ -5,10 +5,18 @@
 // USED BY: Analytics API routes, dashboard components
 // ===========================================
 
+import {
+  addCalendarDays,
+  getLocalTimeZone,
+  getSiteToday,
+  toZonedCalendarDate,
+  zonedMidnightToUtc,
+} from '@/lib/timezone';
+
 /**
  * Application data for GPM-weighted calculations
  */
-interface ApplicationData {
+export interface ApplicationData {
   id: string;
   gpm: number; // Gallons per minute from injector
   packages: Array<{
@@ -21,7 +29,7 @@ interface ApplicationData {
 /**
  * Chemical usage data from visit logs
  */
-interface ChemicalUsageData {
+export interface ChemicalUsageData {
   chemicalId: string;
   chemicalName: string;
   chemicalType: string;
@@ -33,7 +41,7 @@ interface ChemicalUsageData {
 /**
  * Package cost allocation result
  */
-interface PackageCostAllocation {
+export interface PackageCostAllocation {
   packageId: string;
   packageName: string;
   carCount: number;
@@ -138,6 +146,45 @@ export function calculateGpmWeightedCosts(
   return Array.from(packageMap.values());
 }
 
+/**
+ * Merge per-chemical allocations into one allocation per package
+ *
+ * WHY: calculateGpmWeightedCosts works one chemical at a time, but a
+ * package's cost per car is the sum across every chemical it applies.
+ *
+ * @param allocations - Results of calculateGpmWeightedCosts for each chemical
+ * @returns One allocation per package with combined cost and breakdown
+ */
+export function mergePackageCostAllocations(
+  allocations: PackageCostAllocation[][]
+): PackageCostAllocation[] {
+  const packageMap = new Map<string, PackageCostAllocation>();
+
+  for (const chemicalAllocations of allocations) {
+    for (const allocation of chemicalAllocations) {
+      const existing = packageMap.get(allocation.packageId);
+      if (!existing) {
+        packageMap.set(allocation.packageId, {
+          ...allocation,
+          chemicalBreakdown: [...allocation.chemicalBreakdown],
+        });
+        continue;
+      }
+
+      existing.totalCost += allocation.totalCost;
+      existing.chemicalBreakdown.push(...allocation.chemicalBreakdown);
+    }
+  }
+
+  for (const allocation of packageMap.values()) {
+    allocation.costPerCar = allocation.carCount > 0
+      ? allocation.totalCost / allocation.carCount
+      : 0;
+  }
+
+  return Array.from(packageMap.values());
+}
+
 /**
  * Calculate simple cost per car (non-weighted)
  *
@@ -152,6 +199,27 @@ export function calculateCostPerCar(totalCost: number, carCount: number): number
   return totalCost / carCount;
 }
 
+/**
+ * Calculate raw usage between two visits (may be negative)
+ *
+ * WHY: A negative figure means more product on hand than the previous
+ * reading plus deliveries allow - almost always a mis-entry or an
+ * unrecorded delivery. Anomaly detection needs the unclamped value.
+ *
+ * @param previousOnHand - Previous total on hand gallons
+ * @param currentOnHand - Current total on hand gallons
+ * @param deliveryGallons - Gallons delivered between visits
+ * @returns Usage in gallons (negative if on hand went up unexplained)
+ */
+export function calculateRawUsageBetweenVisits(
+  previousOnHand: number,
+  currentOnHand: number,
+  deliveryGallons: number = 0
+): number {
+  // Usage = Previous + Delivery - Current
+  return previousOnHand + deliveryGallons - currentOnHand;
+}
+
 /**
  * Calculate usage between two visits
  *
@@ -167,9 +235,8 @@ export function calculateUsageBetweenVisits(
   currentOnHand: number,
   deliveryGallons: number = 0
 ): number {
-  // Usage = Previous + Delivery - Current
-  const usage = previousOnHand + deliveryGallons - currentOnHand;
-  return Math.max(0, usage); // Can't have negative usage
+  const usage = calculateRawUsageBetweenVisits(previousOnHand, currentOnHand, deliveryGallons);
+  return Math.max(0, usage); // Can't have negative usage (flagged by lib/anomalies)
 }
 
 /**
@@ -203,6 +270,18 @@ export function calculateDaysUntilEmpty(
   return Math.floor(currentOnHand / dailyUsage);
 }
 
+/**
+ * Calendar settings for period bucketing
+ *
+ * NOTE: Calendar-date columns (visitDate, logDate) are already site-local
+ * days stored as UTC midnight, so they are bucketed in UTC (the default) with
+ * only weekStartsOn set. Pass the site's timeZone when bucketing timestamps.
+ */
+export interface PeriodOptions {
+  timeZone?: string; // Zone whose local days define the buckets (default UTC)
+  weekStartsOn?: number; // 0 = Sunday ... 6 = Saturday (default Sunday)
+}
+
 /**
  * Aggregate chemical usage by period
  *
@@ -210,19 +289,21 @@ export function calculateDaysUntilEmpty(
  *
  * @param entries - Array of usage entries with dates
  * @param period - Aggregation period ('day' | 'week' | 'month')
+ * @param options - Time zone and week start for the buckets
  * @returns Aggregated usage by period
  */
 export function aggregateUsageByPeriod(
   entries: Array<{ date: Date; usage: number }>,
-  period: 'day' | 'week' | 'month'
+  period: 'day' | 'week' | 'month',
+  options: PeriodOptions = {}
 ): Array<{ periodStart: Date; periodEnd: Date; totalUsage: number }> {
   if (entries.length === 0) return [];
 
   const sorted = [...entries].sort((a, b) => a.date.getTime() - b.date.getTime());
   const result: Array<{ periodStart: Date; periodEnd: Date; totalUsage: number }> = [];
 
-  let currentPeriodStart = getPeriodStart(sorted[0].date, period);
-  let currentPeriodEnd = getPeriodEnd(currentPeriodStart, period);
+  let currentPeriodStart = getPeriodStart(sorted[0].date, period, options);
+  let currentPeriodEnd = getPeriodEnd(currentPeriodStart, period, options);
   let currentTotal = 0;
 
   for (const entry of sorted) {
@@ -234,8 +315,8 @@ export function aggregateUsageByPeriod(
         totalUsage: currentTotal,
       });
 
-      currentPeriodStart = getPeriodStart(entry.date, period);
-      currentPeriodEnd = getPeriodEnd(currentPeriodStart, period);
+      currentPeriodStart = getPeriodStart(entry.date, period, options);
+      currentPeriodEnd = getPeriodEnd(currentPeriodStart, period, options);
       currentTotal = 0;
     }
     currentTotal += entry.usage;
@@ -253,44 +334,71 @@ export function aggregateUsageByPeriod(
 
 /**
  * Get period start date
+ *
+ * WHY: Buckets follow the site's calendar, not the server's. A server in
+ * UTC would otherwise put an evening East Coast visit in the next day.
+ *
+ * @param date - Instant or calendar date to bucket
+ * @param period - Aggregation period
+ * @param options - Time zone and week start (default UTC, Sunday)
+ * @returns Instant at which the period starts in the zone
  */
-function getPeriodStart(date: Date, period: 'day' | 'week' | 'month'): Date {
-  const result = new Date(date);
-  result.setHours(0, 0, 0, 0);
+export function getPeriodStart(
+  date: Date,
+  period: 'day' | 'week' | 'month',
+  options: PeriodOptions = {}
+): Date {
+  const { timeZone = 'UTC', weekStartsOn = 0 } = options;
+  const day = toZonedCalendarDate(date, timeZone);
 
   switch (period) {
     case 'day':
-      return result;
-    case 'week':
-      const day = result.getDay();
-      result.setDate(result.getDate() - day);
-      return result;
+      return zonedMidnightToUtc(day, timeZone);
+    case 'week': {
+      const daysIntoWeek = (day.getUTCDay() - weekStartsOn + 7) % 7;
+      return zonedMidnightToUtc(addCalendarDays(day, -daysIntoWeek), timeZone);
+    }
     case 'month':
-      result.setDate(1);
-      return result;
+      return zonedMidnightToUtc(
+        new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1)),
+        timeZone
+      );
   }
 }
 
 /**
  * Get period end date
+ *
+ * BUSINESS LOGIC:
+ * - The end is 1ms before the next period starts, found in the zone's
+ *   calendar, so DST days are 23 or 25 hours long
+ *
+ * @param periodStart - Start returned by getPeriodStart
+ * @param period - Aggregation period
+ * @param options - Same options passed to getPeriodStart
  */
-function getPeriodEnd(periodStart: Date, period: 'day' | 'week' | 'month'): Date {
-  const result = new Date(periodStart);
-
+export function getPeriodEnd(
+  periodStart: Date,
+  period: 'day' | 'week' | 'month',
+  options: PeriodOptions = {}
+): Date {
+  const { timeZone = 'UTC' } = options;
+  const start = toZonedCalendarDate(periodStart, timeZone);
+
+  let next: Date;
   switch (period) {
     case 'day':
-      result.setDate(result.getDate() + 1);
+      next = addCalendarDays(start, 1);
       break;
     case 'week':
-      result.setDate(result.getDate() + 7);
+      next = addCalendarDays(start, 7);
       break;
     case 'month':
-      result.setMonth(result.getMonth() + 1);
+      next = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
       break;
   }
 
-  result.setMilliseconds(result.getMilliseconds() - 1);
-  return result;
+  return new Date(zonedMidnightToUtc(next, timeZone).getTime() - 1);
 }
 
 /**
@@ -309,6 +417,113 @@ export function calculatePercentageChange(previous: number, current: number): nu
   return ((current - previous) / previous) * 100;
 }
 
+/**
+ * Arithmetic mean
+ *
+ * @param values - Values to average
+ * @returns Mean, or 0 for an empty list
+ */
+export function calculateMean(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Population standard deviation
+ *
+ * WHY: Outlier detection compares a value to the spread of its peers
+ *
+ * @param values - Values to measure
+ * @returns Standard deviation, or 0 for fewer than two values
+ */
+export function calculateStandardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const mean = calculateMean(values);
+  const variance = calculateMean(values.map((value) => (value - mean) ** 2));
+  return Math.sqrt(variance);
+}
+
+/**
+ * Standard deviations between a value and the mean
+ *
+ * @returns z-score, or 0 when there is no spread
+ */
+export function calculateZScore(value: number, mean: number, standardDeviation: number): number {
+  if (standardDeviation === 0) {
+    return 0;
+  }
+  return (value - mean) / standardDeviation;
+}
+
+/**
+ * Comparison presets offered by the analytics dashboard
+ */
+export type ComparisonPreset = 'previous_period' | 'same_month_last_year';
+
+/**
+ * Two date ranges to compare (YYYY-MM-DD, inclusive)
+ */
+export interface ComparisonRanges {
+  currentStart: string;
+  currentEnd: string;
+  previousStart: string;
+  previousEnd: string;
+}
+
+/**
+ * Build the date ranges for a comparison preset
+ *
+ * BUSINESS LOGIC:
+ * - previous_period: the last `periodDays` days vs the `periodDays` before them
+ * - same_month_last_year: this month to date vs the same days a year earlier
+ *   (clamped to the end of that month, e.g. Feb 29 -> Feb 28)
+ *
+ * @param preset - Comparison preset
+ * @param periodDays - Length of the current period (previous_period only)
+ * @param today - Last day of the current period as a calendar date
+ *   (default today in the local zone; pass getSiteToday for a site)
+ * @returns Current and previous ranges
+ */
+export function getComparisonRanges(
+  preset: ComparisonPreset,
+  periodDays: number,
+  today: Date = getSiteToday(getLocalTimeZone())
+): ComparisonRanges {
+  const toDateString = (date: Date) => date.toISOString().split('T')[0];
+  const end = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+
+  if (preset === 'same_month_last_year') {
+    const year = end.getUTCFullYear();
+    const month = end.getUTCMonth();
+    const lastDayLastYear = new Date(Date.UTC(year - 1, month + 1, 0)).getUTCDate();
+
+    return {
+      currentStart: toDateString(new Date(Date.UTC(year, month, 1))),
+      currentEnd: toDateString(end),
+      previousStart: toDateString(new Date(Date.UTC(year - 1, month, 1))),
+      previousEnd: toDateString(
+        new Date(Date.UTC(year - 1, month, Math.min(end.getUTCDate(), lastDayLastYear)))
+      ),
+    };
+  }
+
+  const dayMs = 24 * 60 * 60 * 1000;
+  const currentStart = new Date(end.getTime() - (periodDays - 1) * dayMs);
+  const previousEnd = new Date(currentStart.getTime() - dayMs);
+  const previousStart = new Date(previousEnd.getTime() - (periodDays - 1) * dayMs);
+
+  return {
+    currentStart: toDateString(currentStart),
+    currentEnd: toDateString(end),
+    previousStart: toDateString(previousStart),
+    previousEnd: toDateString(previousEnd),
+  };
+}
+
 /**
  * Format a number for analytics display
  *
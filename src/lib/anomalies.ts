@@ -0,0 +1,297 @@
+// ===========================================
+// FILE: src/lib/anomalies.ts
+// PURPOSE: Usage anomaly detection for visit chemical entries
+// PRD REFERENCE: PRD Section 6.2 - Chemical Entries, PRD Section 7.2 - Usage Trends
+// USED BY: Usage engine (lib/usage), anomaly review API
+// ===========================================
+
+import { PrismaTransactionClient } from '@/lib/prisma';
+import { calculateRawUsageBetweenVisits } from '@/lib/analytics';
+import { getPrimaryContainerGallons } from '@/lib/containers';
+import type { UsageAnomalyType } from '@/types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Reading slack before a negative usage or over-capacity level is flagged
+ * WHY: Dipstick and sight-glass readings are only good to about a quarter
+ * gallon; smaller discrepancies are measurement noise
+ */
+const MEASUREMENT_TOLERANCE_GALLONS = 0.25;
+
+/**
+ * Usage must exceed the expected amount by this factor to be a spike
+ */
+const SPIKE_RATIO = 3;
+
+/**
+ * Usage must also exceed the expected amount by at least this many gallons
+ * WHY: Low-volume chemicals (fragrances, tire shine) triple easily on a
+ * fraction of a gallon, which isn't worth a review
+ */
+const SPIKE_MIN_EXCESS_GALLONS = 2;
+
+/**
+ * Prior intervals needed before spikes are scored
+ */
+const SPIKE_MIN_HISTORY = 3;
+
+/**
+ * Most recent prior intervals used for the historical daily rate
+ */
+const SPIKE_HISTORY_INTERVALS = 10;
+
+/**
+ * Largest spike score that fits the Decimal(8, 2) column
+ */
+const MAX_SPIKE_SCORE = 999999.99;
+
+/**
+ * Entry values needed to scan a chemical's history
+ */
+export interface AnomalyChainEntry {
+  id: string;
+  visitDate: Date;
+  levelGallons: number | null;
+  totalOnHandGallons: number;
+  deliveryGallons: number; // Delivered since the previous entry (0 when none)
+}
+
+/**
+ * An anomaly found on a chemical entry
+ */
+export interface DetectedAnomaly {
+  chemicalEntryId: string;
+  type: UsageAnomalyType;
+  observedValue: number;
+  expectedValue: number | null;
+  score: number | null; // Spikes: multiple of the expected usage
+  message: string;
+}
+
+/**
+ * Round to 2 decimals (matches Decimal(8, 2) columns)
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Scan a chemical's ordered entry history for anomalies
+ *
+ * WHY: Usage is clamped at zero before it is stored, which hides mis-entries,
+ * and nothing flags a stuck injector or leaking drum. Scoring each interval
+ * against the chemical's own history catches both.
+ *
+ * BUSINESS LOGIC:
+ * - NEGATIVE_USAGE: Previous + Delivery - Current is below zero (on hand went
+ *   up with no delivery to explain it)
+ * - USAGE_SPIKE: Usage is at least SPIKE_RATIO times the historical daily
+ *   rate over the same number of days, and SPIKE_MIN_EXCESS_GALLONS over it.
+ *   The rate comes from the last SPIKE_HISTORY_INTERVALS un-flagged
+ *   intervals and needs SPIKE_MIN_HISTORY of them.
+ * - OVER_CAPACITY: Primary container level is above its capacity
+ * - Flagged intervals are left out of the rate so one bad reading doesn't
+ *   mask the next
+ *
+ * @param chain - Entries for one site chemical in visit order
+ * @param capacityGallons - Primary container capacity (null if unknown)
+ * @returns Anomalies found, in chain order
+ */
+export function detectChainAnomalies(
+  chain: AnomalyChainEntry[],
+  capacityGallons: number | null
+): DetectedAnomaly[] {
+  const anomalies: DetectedAnomaly[] = [];
+  const history: Array<{ usage: number; days: number }> = [];
+
+  for (let i = 0; i < chain.length; i++) {
+    const entry = chain[i];
+
+    if (
+      capacityGallons !== null &&
+      entry.levelGallons !== null &&
+      entry.levelGallons > capacityGallons + MEASUREMENT_TOLERANCE_GALLONS
+    ) {
+      anomalies.push({
+        chemicalEntryId: entry.id,
+        type: 'OVER_CAPACITY',
+        observedValue: round2(entry.levelGallons),
+        expectedValue: capacityGallons,
+        score: null,
+        message: `Level of ${round2(entry.levelGallons)} gal is above the ${capacityGallons} gal container capacity`,
+      });
+    }
+
+    const previous = chain[i - 1];
+    if (!previous) continue;
+
+    const usage = calculateRawUsageBetweenVisits(
+      previous.totalOnHandGallons,
+      entry.totalOnHandGallons,
+      entry.deliveryGallons
+    );
+    // Same-day visits count as one day so the rate stays meaningful
+    const days = Math.max(
+      1,
+      Math.round((entry.visitDate.getTime() - previous.visitDate.getTime()) / MS_PER_DAY)
+    );
+
+    if (usage < -MEASUREMENT_TOLERANCE_GALLONS) {
+      anomalies.push({
+        chemicalEntryId: entry.id,
+        type: 'NEGATIVE_USAGE',
+        observedValue: round2(usage),
+        expectedValue: null,
+        score: null,
+        message: `On hand rose by ${round2(-usage)} gal more than recorded deliveries explain`,
+      });
+      continue;
+    }
+
+    const recent = history.slice(-SPIKE_HISTORY_INTERVALS);
+    if (recent.length >= SPIKE_MIN_HISTORY) {
+      const historyDays = recent.reduce((sum, interval) => sum + interval.days, 0);
+      const dailyRate = recent.reduce((sum, interval) => sum + interval.usage, 0) / historyDays;
+      const expected = dailyRate * days;
+
+      // A history that rounds to no usage has no meaningful ratio to report
+      if (
+        round2(expected) > 0 &&
+        usage > expected * SPIKE_RATIO &&
+        usage - expected >= SPIKE_MIN_EXCESS_GALLONS
+      ) {
+        const score = Math.min(round2(usage / expected), MAX_SPIKE_SCORE);
+        anomalies.push({
+          chemicalEntryId: entry.id,
+          type: 'USAGE_SPIKE',
+          observedValue: round2(usage),
+          expectedValue: round2(expected),
+          score,
+          message: `Used ${round2(usage)} gal over ${days} day${days === 1 ? '' : 's'}, ${score}x the usual ${round2(expected)} gal`,
+        });
+        continue;
+      }
+    }
+
+    history.push({ usage: Math.max(0, usage), days });
+  }
+
+  return anomalies;
+}
+
+/**
+ * Store the anomalies found in a chemical's history
+ *
+ * WHY: Anomalies are re-derived whenever usage is recalculated, so a
+ * corrected reading clears its flag and an edit upstream can raise a new one.
+ *
+ * BUSINESS LOGIC:
+ * - New anomalies are created OPEN
+ * - Existing anomalies keep their status (an acknowledgement survives
+ *   recalculation); their values are refreshed
+ * - RESOLVED anomalies that reappear are reopened
+ * - Anomalies no longer detected are marked RESOLVED
+ *
+ * @param tx - Prisma transaction client
+ * @param chemicalSiteConfigId - Site chemical the chain belongs to
+ * @param chain - Entries for the site chemical in visit order
+ */
+export async function syncUsageAnomalies(
+  tx: PrismaTransactionClient,
+  chemicalSiteConfigId: string,
+  chain: AnomalyChainEntry[]
+): Promise<void> {
+  const [siteConfig, existing] = await Promise.all([
+    tx.chemicalSiteConfig.findUnique({
+      where: { id: chemicalSiteConfigId },
+      select: {
+        chemicalOrgConfig: {
+          select: { primaryContainer: true, primaryContainerSizeGallons: true },
+        },
+      },
+    }),
+    tx.usageAnomaly.findMany({
+      where: { chemicalEntry: { chemicalSiteConfigId } },
+      select: {
+        id: true,
+        chemicalEntryId: true,
+        type: true,
+        status: true,
+        observedValue: true,
+        expectedValue: true,
+      },
+    }),
+  ]);
+
+  if (!siteConfig) return;
+
+  const capacityGallons = getPrimaryContainerGallons(siteConfig.chemicalOrgConfig);
+
+  const detected = detectChainAnomalies(chain, capacityGallons);
+  const existingByKey = new Map(
+    existing.map((anomaly: typeof existing[number]) => [
+      `${anomaly.chemicalEntryId}:${anomaly.type}`,
+      anomaly,
+    ])
+  );
+  const now = new Date();
+
+  for (const anomaly of detected) {
+    const key = `${anomaly.chemicalEntryId}:${anomaly.type}`;
+    const stored = existingByKey.get(key);
+    existingByKey.delete(key);
+
+    const values = {
+      observedValue: anomaly.observedValue,
+      expectedValue: anomaly.expectedValue,
+      score: anomaly.score,
+      message: anomaly.message,
+    };
+
+    if (!stored) {
+      await tx.usageAnomaly.create({
+        data: {
+          chemicalEntryId: anomaly.chemicalEntryId,
+          type: anomaly.type,
+          ...values,
+        },
+      });
+      continue;
+    }
+
+    if (stored.status === 'RESOLVED') {
+      await tx.usageAnomaly.update({
+        where: { id: stored.id },
+        data: {
+          ...values,
+          status: 'OPEN',
+          detectedAt: now,
+          resolvedAt: null,
+          acknowledgedAt: null,
+          acknowledgedBy: null,
+          acknowledgementNote: null,
+        },
+      });
+      continue;
+    }
+
+    const storedExpected = stored.expectedValue === null ? null : Number(stored.expectedValue);
+    if (Number(stored.observedValue) !== anomaly.observedValue || storedExpected !== anomaly.expectedValue) {
+      await tx.usageAnomaly.update({
+        where: { id: stored.id },
+        data: values,
+      });
+    }
+  }
+
+  // Whatever is left was not detected this time
+  for (const stale of existingByKey.values()) {
+    if (stale.status === 'RESOLVED') continue;
+
+    await tx.usageAnomaly.update({
+      where: { id: stale.id },
+      data: { status: 'RESOLVED', resolvedAt: now },
+    });
+  }
+}
@@ -109,14 +109,36 @@ export function canSeePrivateNotes(role: string): boolean {
 // NEXTAUTH.JS CONFIGURATION
 // ===========================================
 
-import NextAuth, { type DefaultSession } from 'next-auth';
+import NextAuth, { CredentialsSignin, type DefaultSession } from 'next-auth';
 import CredentialsProvider from 'next-auth/providers/credentials';
 import { PrismaAdapter } from '@auth/prisma-adapter';
 import { prisma } from './prisma';
+import { pinLoginSchema } from './validations/auth';
+import {
+  PIN_SESSION_MAX_AGE,
+  TABLET_ROLES,
+  getDeviceTokenFromCookieHeader,
+  getTabletDevice,
+  recordPinFailure,
+} from './tablet';
 
 // Define UserRole type locally since Prisma may not export it
 type UserRole = 'DISTRIBUTOR_ADMIN' | 'DISTRIBUTOR_USER' | 'ORG_ADMIN' | 'SITE_MANAGER' | 'SITE_USER';
 
+/**
+ * How the current session was established
+ * - password: email/password login
+ * - pin: PIN login on an enrolled site tablet (tablet mode)
+ */
+type AuthMethod = 'password' | 'pin';
+
+/**
+ * How often a session re-reads the user's status and role, in seconds
+ * WHY: Deactivating a user or changing their role must reach sessions
+ * already signed in, not wait out the 7-day token
+ */
+const USER_REFRESH_INTERVAL = 60;
+
 /**
  * Extend NextAuth types to include custom fields
  * WHY: Add TrueLevel-specific user data to session
@@ -131,6 +153,8 @@ declare module 'next-auth' {
       lastName: string;
       distributorId: string | null;
       organizationId: string | null;
+      authMethod: AuthMethod;
+      tabletSiteId: string | null;
     } & DefaultSession['user'];
   }
 
@@ -142,9 +166,28 @@ declare module 'next-auth' {
     lastName: string;
     distributorId: string | null;
     organizationId: string | null;
+    authMethod?: AuthMethod;
+    tabletSiteId?: string | null;
   }
 }
 
+/**
+ * PIN sign-in errors
+ * WHY: The `code` reaches the tablet's sign-in screen, so it can tell a
+ * wrong PIN apart from a lockout or an unenrolled device
+ */
+class InvalidPinError extends CredentialsSignin {
+  code = 'invalid_pin';
+}
+
+class PinLockedError extends CredentialsSignin {
+  code = 'pin_locked';
+}
+
+class TabletNotEnrolledError extends CredentialsSignin {
+  code = 'device_not_enrolled';
+}
+
 /**
  * NextAuth.js configuration
  * WHY: Handle authentication for email/password login
@@ -152,7 +195,8 @@ declare module 'next-auth' {
  *
  * FEATURES:
  * - Email/password authentication
- * - JWT sessions (7 days with remember me)
+ * - PIN authentication on enrolled site tablets (PRD Section 4.2)
+ * - JWT sessions (7 days with remember me; PIN sessions one shift)
  * - Custom user data in session
  * - Secure password verification
  */
@@ -219,6 +263,86 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
           lastName: user.lastName,
           distributorId: user.distributorId,
           organizationId: user.organizationId,
+          authMethod: 'password',
+          tabletSiteId: null,
+        };
+      },
+    }),
+
+    /**
+     * PIN provider for shared site tablets
+     *
+     * BUSINESS LOGIC:
+     * - Only works from a browser enrolled to a site (device cookie)
+     * - User must be an active site-role user with access to that site
+     * - PIN_MAX_ATTEMPTS wrong PINs lock the user out of PIN sign-in
+     */
+    CredentialsProvider({
+      id: 'pin',
+      name: 'pin',
+      credentials: {
+        userId: { label: 'User', type: 'text' },
+        pin: { label: 'PIN', type: 'password' },
+        siteId: { label: 'Site', type: 'text' },
+      },
+      async authorize(credentials, request) {
+        const parsed = pinLoginSchema.safeParse(credentials);
+        if (!parsed.success) {
+          throw new InvalidPinError();
+        }
+        const { userId, pin, siteId } = parsed.data;
+
+        // Device must be enrolled to the site being signed in to
+        const device = await getTabletDevice(
+          getDeviceTokenFromCookieHeader(request.headers.get('cookie'))
+        );
+        if (!device || device.siteId !== siteId) {
+          throw new TabletNotEnrolledError();
+        }
+
+        const user = await prisma.user.findFirst({
+          where: {
+            id: userId,
+            isActive: true,
+            role: { in: TABLET_ROLES },
+            siteAccess: { some: { siteId } },
+          },
+        });
+
+        if (!user || !user.pinHash) {
+          throw new InvalidPinError();
+        }
+
+        if (user.pinLockedUntil && user.pinLockedUntil > new Date()) {
+          throw new PinLockedError();
+        }
+
+        const isValidPin = await verifyPin(pin, user.pinHash);
+        if (!isValidPin) {
+          const locked = await recordPinFailure(user.id);
+          throw locked ? new PinLockedError() : new InvalidPinError();
+        }
+
+        // Successful sign-in clears the failure count
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { pinFailedAttempts: 0, pinLockedUntil: null, lastLoginAt: new Date() },
+        });
+        await prisma.tabletDevice.update({
+          where: { id: device.id },
+          data: { lastUsedAt: new Date() },
+        });
+
+        return {
+          id: user.id,
+          email: user.email,
+          role: user.role,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          distributorId: user.distributorId,
+          organizationId: user.organizationId,
+          authMethod: 'pin',
+          tabletSiteId: siteId,
         };
       },
     }),
@@ -227,6 +351,15 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
     /**
      * JWT callback - Add custom fields to token
      * WHY: Store user data in JWT for fast session checks
+     *
+     * BUSINESS LOGIC:
+     * - PIN sessions expire PIN_SESSION_MAX_AGE after sign-in, regardless
+     *   of activity (returning null ends the session)
+     * - Every USER_REFRESH_INTERVAL the user is re-read: deactivated (or
+     *   deleted) users are signed out, and role and team changes apply
+     *   (a PIN session ends if the user leaves the tablet roles)
+     * - The re-read is skipped in the edge runtime (middleware), where
+     *   Prisma can't run; API routes and pages run it on the Node runtime
      */
     async jwt({ token, user }) {
       if (user) {
@@ -236,7 +369,44 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
         token.lastName = user.lastName;
         token.distributorId = user.distributorId;
         token.organizationId = user.organizationId;
+        token.authMethod = user.authMethod ?? 'password';
+        token.tabletSiteId = user.tabletSiteId ?? null;
+
+        if (token.authMethod === 'pin') {
+          token.pinSessionExpiresAt = Date.now() + PIN_SESSION_MAX_AGE * 1000;
+        }
+        token.userRefreshedAt = Date.now();
+      } else if (
+        process.env.NEXT_RUNTIME !== 'edge' &&
+        Date.now() - ((token.userRefreshedAt as number | undefined) ?? 0) > USER_REFRESH_INTERVAL * 1000
+      ) {
+        const current = await prisma.user.findUnique({
+          where: { id: token.id as string },
+          select: { isActive: true, role: true, distributorId: true, organizationId: true },
+        });
+
+        if (!current || !current.isActive) {
+          return null;
+        }
+
+        // PIN sessions are only for tablet roles
+        if (token.authMethod === 'pin' && !TABLET_ROLES.includes(current.role)) {
+          return null;
+        }
+
+        token.role = current.role;
+        token.distributorId = current.distributorId;
+        token.organizationId = current.organizationId;
+        token.userRefreshedAt = Date.now();
       }
+
+      if (
+        token.authMethod === 'pin' &&
+        Date.now() > ((token.pinSessionExpiresAt as number | undefined) ?? 0)
+      ) {
+        return null;
+      }
+
       return token;
     },
 
@@ -252,6 +422,8 @@ export const { handlers, auth, signIn, signOut } = NextAuth({
         session.user.lastName = token.lastName as string;
         session.user.distributorId = token.distributorId as string | null;
         session.user.organizationId = token.organizationId as string | null;
+        session.user.authMethod = (token.authMethod as AuthMethod | undefined) ?? 'password';
+        session.user.tabletSiteId = (token.tabletSiteId as string | null | undefined) ?? null;
       }
       return session;
     },
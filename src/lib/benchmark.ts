@@ -0,0 +1,345 @@
+// ===========================================
+// FILE: src/lib/benchmark.ts
+// PURPOSE: Multi-site benchmarking within an organization
+// PRD REFERENCE: PRD Section 7.4 - Period Comparison
+// USED BY: Benchmark API, organization analytics page
+// ===========================================
+
+import { prisma } from '@/lib/prisma';
+import {
+  calculateCostPerCar,
+  calculateMean,
+  calculateStandardDeviation,
+  calculateZScore,
+} from '@/lib/analytics';
+import { getCarCountSummary } from '@/lib/carCounts';
+import { getChemicalUsageTotals } from '@/lib/rollups';
+import type { ChemicalType, WashType } from '@/types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Metrics sites are benchmarked on
+ */
+export type BenchmarkMetric = 'costPerCar' | 'gallonsPerCar' | 'visitCompliance';
+
+/**
+ * A metric where a site is far from its peers
+ */
+export interface BenchmarkOutlier {
+  metric: BenchmarkMetric;
+  chemicalType?: ChemicalType; // gallonsPerCar only
+  value: number;
+  peerAverage: number; // Wash type average (org average for visit compliance)
+  zScore: number;
+  direction: 'high' | 'low';
+}
+
+/**
+ * One site's benchmark results
+ */
+export interface SiteBenchmark {
+  siteId: string;
+  siteName: string;
+  siteSlug: string;
+  washType: WashType;
+  visitCount: number;
+  expectedVisits: number;
+  visitCompliance: number; // Percent of expected visits made (capped at 100)
+  totalCars: number;
+  carsEstimated: boolean;
+  totalUsageGallons: number;
+  totalCost: number;
+  costPerCar: number | null; // null when no usage was recorded
+  costIndex: number | null; // Cost per car relative to the wash type average (1 = average)
+  gallonsPerCarByType: Partial<Record<ChemicalType, number>>;
+  rank: {
+    costPerCar: number | null; // 1 = lowest cost index
+    visitCompliance: number; // 1 = most compliant
+  };
+  outliers: BenchmarkOutlier[];
+}
+
+/**
+ * Benchmark results for an organization
+ */
+export interface OrganizationBenchmark {
+  startDate: string;
+  endDate: string;
+  outlierThreshold: number;
+  chemicalTypes: ChemicalType[];
+  washTypes: Array<{
+    washType: WashType;
+    siteCount: number;
+    averageCostPerCar: number | null;
+  }>;
+  averages: {
+    costPerCar: number | null;
+    visitCompliance: number;
+  };
+  sites: SiteBenchmark[];
+}
+
+/**
+ * Round to a number of decimals
+ */
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Express each value relative to the average of its wash type
+ *
+ * WHY: An express tunnel and a full-service wash use very different
+ * amounts of chemical per car; comparing raw numbers would flag every
+ * full-service site. Dividing by the wash type average puts all sites
+ * on one scale (1 = typical for its wash type).
+ *
+ * NOTE: A wash type with a single site always normalizes to 1
+ */
+function normalizeByWashType(
+  values: Array<{ siteId: string; washType: WashType; value: number }>
+): Map<string, { normalized: number; peerAverage: number }> {
+  const byWashType = new Map<WashType, number[]>();
+  for (const { washType, value } of values) {
+    byWashType.set(washType, [...(byWashType.get(washType) ?? []), value]);
+  }
+
+  const result = new Map<string, { normalized: number; peerAverage: number }>();
+  for (const { siteId, washType, value } of values) {
+    const peerAverage = calculateMean(byWashType.get(washType) ?? []);
+    result.set(siteId, {
+      normalized: peerAverage > 0 ? value / peerAverage : 1,
+      peerAverage,
+    });
+  }
+  return result;
+}
+
+/**
+ * Find sites whose normalized value is more than `threshold` standard
+ * deviations from the organization mean
+ */
+function findOutliers(
+  normalized: Map<string, { normalized: number; peerAverage: number }>,
+  threshold: number
+): Map<string, { zScore: number; peerAverage: number }> {
+  const values = Array.from(normalized.values()).map((entry) => entry.normalized);
+  const mean = calculateMean(values);
+  const standardDeviation = calculateStandardDeviation(values);
+
+  const outliers = new Map<string, { zScore: number; peerAverage: number }>();
+  for (const [siteId, entry] of normalized) {
+    const zScore = calculateZScore(entry.normalized, mean, standardDeviation);
+    if (Math.abs(zScore) > threshold) {
+      outliers.set(siteId, { zScore: round(zScore), peerAverage: entry.peerAverage });
+    }
+  }
+  return outliers;
+}
+
+/**
+ * Benchmark every active site in an organization
+ *
+ * BUSINESS LOGIC:
+ * - Cost per car = chemical cost / cars (recorded counts, estimated gaps)
+ * - Gallons per car is computed per ChemicalType
+ * - Visit compliance = visits / expected visits, where a site expects one
+ *   visit every visitReminderDays
+ * - Cost and gallons per car are normalized by WashType before ranking and
+ *   outlier detection; visit compliance is compared org-wide
+ * - Sites with no recorded usage are left out of usage rankings
+ *
+ * @param organizationId - Organization to benchmark
+ * @param startDate - First day of the period (inclusive)
+ * @param endDate - Last day of the period (inclusive)
+ * @param outlierThreshold - Standard deviations that count as an outlier
+ */
+export async function getOrganizationBenchmark(
+  organizationId: string,
+  startDate: Date,
+  endDate: Date,
+  outlierThreshold: number
+): Promise<OrganizationBenchmark> {
+  const sites = await prisma.site.findMany({
+    where: { organizationId, isActive: true },
+    select: { id: true, name: true, slug: true, washType: true, visitReminderDays: true },
+    orderBy: { name: 'asc' },
+  });
+  const siteIds = sites.map((site: typeof sites[number]) => site.id);
+
+  const [visitCounts, usageTotals, carSummaries] = await Promise.all([
+    prisma.visitLog.groupBy({
+      by: ['siteId'],
+      where: {
+        siteId: { in: siteIds },
+        visitDate: { gte: startDate, lte: endDate },
+      },
+      _count: { _all: true },
+    }),
+    // Usage and cost from daily rollups (see lib/rollups)
+    getChemicalUsageTotals(prisma, siteIds, startDate, endDate),
+    Promise.all(
+      siteIds.map((siteId: string) => getCarCountSummary(prisma, [siteId], startDate, endDate))
+    ),
+  ]);
+
+  const periodDays = Math.max(
+    1,
+    Math.round((endDate.getTime() - startDate.getTime()) / MS_PER_DAY) + 1
+  );
+
+  // Totals per site
+  const totals = new Map<string, {
+    visitCount: number;
+    usage: number;
+    cost: number;
+    usageByType: Map<ChemicalType, number>;
+  }>();
+  for (const siteId of siteIds) {
+    totals.set(siteId, { visitCount: 0, usage: 0, cost: 0, usageByType: new Map() });
+  }
+  for (const row of visitCounts) {
+    totals.get(row.siteId)!.visitCount = row._count._all;
+  }
+  for (const total of usageTotals) {
+    const siteTotals = totals.get(total.siteId)!;
+    const type = total.chemicalType as ChemicalType;
+    siteTotals.usage += total.usageGallons;
+    siteTotals.cost += total.cost;
+    siteTotals.usageByType.set(type, (siteTotals.usageByType.get(type) ?? 0) + total.usageGallons);
+  }
+
+  const benchmarks: SiteBenchmark[] = sites.map((site: typeof sites[number], index: number) => {
+    const siteTotals = totals.get(site.id)!;
+    const cars = carSummaries[index];
+    const expectedVisits = periodDays / site.visitReminderDays;
+
+    const gallonsPerCarByType: Partial<Record<ChemicalType, number>> = {};
+    if (cars.totalCars > 0) {
+      for (const [type, usage] of siteTotals.usageByType) {
+        if (usage > 0) {
+          gallonsPerCarByType[type] = round(usage / cars.totalCars, 4);
+        }
+      }
+    }
+
+    return {
+      siteId: site.id,
+      siteName: site.name,
+      siteSlug: site.slug,
+      washType: site.washType,
+      visitCount: siteTotals.visitCount,
+      expectedVisits: round(expectedVisits, 1),
+      visitCompliance: round(Math.min(100, (siteTotals.visitCount / expectedVisits) * 100), 1),
+      totalCars: cars.totalCars,
+      carsEstimated: cars.isEstimated,
+      totalUsageGallons: round(siteTotals.usage),
+      totalCost: round(siteTotals.cost),
+      costPerCar:
+        siteTotals.usage > 0 && cars.totalCars > 0
+          ? round(calculateCostPerCar(siteTotals.cost, cars.totalCars))
+          : null,
+      costIndex: null,
+      gallonsPerCarByType,
+      rank: { costPerCar: null, visitCompliance: 0 },
+      outliers: [],
+    };
+  });
+
+  const byId = new Map(benchmarks.map((benchmark) => [benchmark.siteId, benchmark]));
+
+  // Cost per car: normalize, rank and flag
+  const costValues = benchmarks
+    .filter((b) => b.costPerCar !== null)
+    .map((b) => ({ siteId: b.siteId, washType: b.washType, value: b.costPerCar! }));
+  const costNormalized = normalizeByWashType(costValues);
+  for (const [siteId, entry] of costNormalized) {
+    byId.get(siteId)!.costIndex = round(entry.normalized);
+  }
+  Array.from(costNormalized.entries())
+    .sort(([, a], [, b]) => a.normalized - b.normalized)
+    .forEach(([siteId], index) => {
+      byId.get(siteId)!.rank.costPerCar = index + 1;
+    });
+  for (const [siteId, outlier] of findOutliers(costNormalized, outlierThreshold)) {
+    const benchmark = byId.get(siteId)!;
+    benchmark.outliers.push({
+      metric: 'costPerCar',
+      value: benchmark.costPerCar!,
+      peerAverage: round(outlier.peerAverage),
+      zScore: outlier.zScore,
+      direction: outlier.zScore > 0 ? 'high' : 'low',
+    });
+  }
+
+  // Gallons per car, one comparison per chemical type
+  const chemicalTypes = Array.from(
+    new Set(benchmarks.flatMap((b) => Object.keys(b.gallonsPerCarByType) as ChemicalType[]))
+  ).sort();
+  for (const type of chemicalTypes) {
+    const values = benchmarks
+      .filter((b) => b.gallonsPerCarByType[type] !== undefined)
+      .map((b) => ({ siteId: b.siteId, washType: b.washType, value: b.gallonsPerCarByType[type]! }));
+    for (const [siteId, outlier] of findOutliers(normalizeByWashType(values), outlierThreshold)) {
+      const benchmark = byId.get(siteId)!;
+      benchmark.outliers.push({
+        metric: 'gallonsPerCar',
+        chemicalType: type,
+        value: benchmark.gallonsPerCarByType[type]!,
+        peerAverage: round(outlier.peerAverage, 4),
+        zScore: outlier.zScore,
+        direction: outlier.zScore > 0 ? 'high' : 'low',
+      });
+    }
+  }
+
+  // Visit compliance is independent of wash type: compare org-wide
+  const complianceValues = new Map(
+    benchmarks.map((b) => [b.siteId, { normalized: b.visitCompliance, peerAverage: 0 }])
+  );
+  const averageCompliance = calculateMean(benchmarks.map((b) => b.visitCompliance));
+  [...benchmarks]
+    .sort((a, b) => b.visitCompliance - a.visitCompliance)
+    .forEach((benchmark, index) => {
+      benchmark.rank.visitCompliance = index + 1;
+    });
+  for (const [siteId, outlier] of findOutliers(complianceValues, outlierThreshold)) {
+    const benchmark = byId.get(siteId)!;
+    benchmark.outliers.push({
+      metric: 'visitCompliance',
+      value: benchmark.visitCompliance,
+      peerAverage: round(averageCompliance, 1),
+      zScore: outlier.zScore,
+      direction: outlier.zScore > 0 ? 'high' : 'low',
+    });
+  }
+
+  // Wash type summary
+  const washTypes = Array.from(new Set(benchmarks.map((b) => b.washType))).map((washType) => {
+    const peers = benchmarks.filter((b) => b.washType === washType);
+    const costs = peers.filter((b) => b.costPerCar !== null).map((b) => b.costPerCar!);
+    return {
+      washType,
+      siteCount: peers.length,
+      averageCostPerCar: costs.length > 0 ? round(calculateMean(costs)) : null,
+    };
+  });
+
+  return {
+    startDate: startDate.toISOString().split('T')[0],
+    endDate: endDate.toISOString().split('T')[0],
+    outlierThreshold,
+    chemicalTypes,
+    washTypes,
+    averages: {
+      costPerCar: costValues.length > 0 ? round(calculateMean(costValues.map((c) => c.value))) : null,
+      visitCompliance: round(averageCompliance, 1),
+    },
+    // Best cost index first; sites without usage last
+    sites: benchmarks.sort(
+      (a, b) => (a.rank.costPerCar ?? Infinity) - (b.rank.costPerCar ?? Infinity)
+    ),
+  };
+}
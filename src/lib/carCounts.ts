@@ -0,0 +1,550 @@
+// ===========================================
+// FILE: src/lib/carCounts.ts
+// PURPOSE: Car count ingestion and lookup for cost-per-car analytics
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// USED BY: Car count API routes, analytics API routes
+// ===========================================
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { PrismaTransactionClient } from '@/lib/prisma';
+import type { CarCountSource } from '@/types';
+
+/**
+ * Cars per day assumed for site-days with no recorded count
+ *
+ * WHY: Keeps cost-per-car meaningful for sites that haven't started
+ * reporting counts yet. Any use of it is flagged in API responses.
+ */
+export const DEFAULT_ESTIMATED_CARS_PER_DAY = 100;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Error raised when car count data is invalid for a site
+ *
+ * WHY: Routes translate this into a 400 (e.g. unknown package, total
+ * lower than the package sum) instead of a 500.
+ */
+export class CarCountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CarCountError';
+  }
+}
+
+/**
+ * Normalize a date to UTC midnight
+ * WHY: Car counts are stored as calendar days (@db.Date)
+ */
+export function toCountDate(date: Date | string): Date {
+  const d = typeof date === 'string' ? new Date(date) : date;
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+// ===========================================
+// SAVING COUNTS
+// ===========================================
+
+interface SaveCarCountInput {
+  siteId: string;
+  logDate: Date | string;
+  totalCars?: number;
+  packageCounts?: Array<{ washPackageId: string; carCount: number; membershipCars?: number }>;
+  source: CarCountSource;
+  enteredBy?: string | null;
+}
+
+/**
+ * Create or replace a site's car count for a day
+ *
+ * WHY: Manual entry, CSV import and controller pushes all land here, so a
+ * re-sent day overwrites the previous figures instead of double counting.
+ *
+ * BUSINESS LOGIC:
+ * - Packages must be active packages of the site
+ * - totalCars defaults to the package sum and may not be lower than it
+ * - A package's membership cars may not exceed its car count
+ * - Package counts for the day are replaced, not merged
+ * - A package count without membershipCars keeps the day's previous
+ *   membership split (capped at the new count), so a re-sent day that
+ *   doesn't carry memberships doesn't erase them; new packages get 0
+ *
+ * @returns The saved CarCountLog with package counts
+ * @throws CarCountError for invalid packages or totals
+ */
+export async function saveCarCountLog(
+  client: PrismaTransactionClient,
+  input: SaveCarCountInput
+) {
+  const packageCounts = input.packageCounts ?? [];
+  const packageSum = packageCounts.reduce((sum, pkg) => sum + pkg.carCount, 0);
+
+  if (packageCounts.length > 0) {
+    const packageIds = packageCounts.map((pkg) => pkg.washPackageId);
+
+    if (new Set(packageIds).size !== packageIds.length) {
+      throw new CarCountError('Each package may only appear once per day');
+    }
+
+    const validPackages = await client.washPackage.count({
+      where: { id: { in: packageIds }, siteId: input.siteId, isActive: true },
+    });
+
+    if (validPackages !== packageIds.length) {
+      throw new CarCountError('One or more packages are not active packages of this site');
+    }
+
+    if (packageCounts.some((pkg) => (pkg.membershipCars ?? 0) > pkg.carCount)) {
+      throw new CarCountError('Membership cars cannot exceed the package car count');
+    }
+  }
+
+  const totalCars = input.totalCars ?? packageSum;
+  if (totalCars < packageSum) {
+    throw new CarCountError(
+      `Total cars (${totalCars}) cannot be lower than the package sum (${packageSum})`
+    );
+  }
+
+  const logDate = toCountDate(input.logDate);
+
+  const log = await client.carCountLog.upsert({
+    where: {
+      siteId_logDate: { siteId: input.siteId, logDate },
+    },
+    update: {
+      totalCars,
+      source: input.source,
+      enteredBy: input.enteredBy ?? null,
+    },
+    create: {
+      siteId: input.siteId,
+      logDate,
+      totalCars,
+      source: input.source,
+      enteredBy: input.enteredBy ?? null,
+    },
+  });
+
+  const previousMembership = new Map<string, number>();
+  if (packageCounts.some((pkg) => pkg.membershipCars === undefined)) {
+    const previous = await client.carCountByPackage.findMany({
+      where: { carCountLogId: log.id },
+      select: { washPackageId: true, membershipCars: true },
+    });
+    for (const row of previous) {
+      previousMembership.set(row.washPackageId, row.membershipCars);
+    }
+  }
+
+  await client.carCountByPackage.deleteMany({
+    where: { carCountLogId: log.id },
+  });
+
+  if (packageCounts.length > 0) {
+    await client.carCountByPackage.createMany({
+      data: packageCounts.map((pkg) => ({
+        carCountLogId: log.id,
+        washPackageId: pkg.washPackageId,
+        carCount: pkg.carCount,
+        membershipCars:
+          pkg.membershipCars ??
+          Math.min(previousMembership.get(pkg.washPackageId) ?? 0, pkg.carCount),
+      })),
+    });
+  }
+
+  return client.carCountLog.findUnique({
+    where: { id: log.id },
+    include: {
+      packageCounts: {
+        include: {
+          washPackage: { select: { id: true, name: true } },
+        },
+      },
+    },
+  });
+}
+
+// ===========================================
+// READING COUNTS
+// ===========================================
+
+/**
+ * Car count totals for a set of sites over a period
+ */
+export interface CarCountSummary {
+  totalCars: number;
+  actualCars: number;
+  estimatedCars: number;
+  siteDays: number;
+  siteDaysWithData: number;
+  isEstimated: boolean;
+  source: 'ACTUAL' | 'PARTIAL_ESTIMATE' | 'ESTIMATED';
+  byPackage: Map<string, number>;
+}
+
+/**
+ * Sum recorded car counts for sites over a date range
+ *
+ * WHY: Cost per car needs a real denominator. Site-days without a recorded
+ * count fall back to DEFAULT_ESTIMATED_CARS_PER_DAY so partial data still
+ * produces a usable number, and the result says how much was estimated.
+ *
+ * @param client - Prisma client or transaction client
+ * @param siteIds - Sites to include
+ * @param startDate - First day of the period (inclusive)
+ * @param endDate - Last day of the period (inclusive)
+ * @returns Actual, estimated and per-package car counts
+ */
+export async function getCarCountSummary(
+  client: PrismaTransactionClient,
+  siteIds: string[],
+  startDate: Date,
+  endDate: Date
+): Promise<CarCountSummary> {
+  const start = toCountDate(startDate);
+  const end = toCountDate(endDate);
+  const days = Math.max(0, Math.round((end.getTime() - start.getTime()) / MS_PER_DAY) + 1);
+  const siteDays = days * siteIds.length;
+
+  const where = {
+    siteId: { in: siteIds },
+    logDate: { gte: start, lte: end },
+  };
+
+  const [totals, packageTotals] = await Promise.all([
+    client.carCountLog.aggregate({
+      where,
+      _sum: { totalCars: true },
+      _count: { _all: true },
+    }),
+    client.carCountByPackage.groupBy({
+      by: ['washPackageId'],
+      where: { carCountLog: where },
+      _sum: { carCount: true },
+    }),
+  ]);
+
+  const actualCars = totals._sum.totalCars ?? 0;
+  const siteDaysWithData = totals._count._all;
+  const missingSiteDays = Math.max(0, siteDays - siteDaysWithData);
+  const estimatedCars = missingSiteDays * DEFAULT_ESTIMATED_CARS_PER_DAY;
+
+  const byPackage = new Map<string, number>();
+  for (const row of packageTotals) {
+    byPackage.set(row.washPackageId, row._sum.carCount ?? 0);
+  }
+
+  let source: CarCountSummary['source'] = 'ACTUAL';
+  if (siteDaysWithData === 0 && siteDays > 0) {
+    source = 'ESTIMATED';
+  } else if (missingSiteDays > 0) {
+    source = 'PARTIAL_ESTIMATE';
+  }
+
+  return {
+    totalCars: actualCars + estimatedCars,
+    actualCars,
+    estimatedCars,
+    siteDays,
+    siteDaysWithData,
+    isEstimated: estimatedCars > 0,
+    source,
+    byPackage,
+  };
+}
+
+/**
+ * Car counts per site over a period
+ *
+ * WHY: Per-site targets and budgets need each site's own denominator;
+ * one grouped query replaces a getCarCountSummary call per site
+ *
+ * BUSINESS LOGIC: Same estimation as getCarCountSummary, applied per site
+ *
+ * @returns Total (actual + estimated) cars keyed by siteId
+ */
+export async function getCarCountsBySite(
+  client: PrismaTransactionClient,
+  siteIds: string[],
+  startDate: Date,
+  endDate: Date
+): Promise<Map<string, { totalCars: number; isEstimated: boolean }>> {
+  const start = toCountDate(startDate);
+  const end = toCountDate(endDate);
+  const days = Math.max(0, Math.round((end.getTime() - start.getTime()) / MS_PER_DAY) + 1);
+
+  const totals = siteIds.length > 0
+    ? await client.carCountLog.groupBy({
+        by: ['siteId'],
+        where: { siteId: { in: siteIds }, logDate: { gte: start, lte: end } },
+        _sum: { totalCars: true },
+        _count: { _all: true },
+      })
+    : [];
+  const totalsBySite = new Map(
+    totals.map((row: typeof totals[number]) => [row.siteId, row])
+  );
+
+  const bySite = new Map<string, { totalCars: number; isEstimated: boolean }>();
+  for (const siteId of siteIds) {
+    const row = totalsBySite.get(siteId);
+    const missingDays = Math.max(0, days - (row?._count._all ?? 0));
+    bySite.set(siteId, {
+      totalCars: (row?._sum.totalCars ?? 0) + missingDays * DEFAULT_ESTIMATED_CARS_PER_DAY,
+      isEstimated: missingDays > 0,
+    });
+  }
+
+  return bySite;
+}
+
+/**
+ * Format a car count summary for API responses
+ * WHY: Consistent "carCounts" block across analytics routes
+ */
+export function serializeCarCountSummary(summary: CarCountSummary) {
+  return {
+    totalCars: summary.totalCars,
+    actualCars: summary.actualCars,
+    estimatedCars: summary.estimatedCars,
+    siteDays: summary.siteDays,
+    siteDaysWithData: summary.siteDaysWithData,
+    isEstimated: summary.isEstimated,
+    source: summary.source,
+    estimatedCarsPerDay: summary.isEstimated ? DEFAULT_ESTIMATED_CARS_PER_DAY : null,
+  };
+}
+
+// ===========================================
+// CSV IMPORT
+// ===========================================
+
+/**
+ * Parsed CSV row ready to save
+ */
+export interface ParsedCarCountRow {
+  line: number;
+  logDate: string;
+  totalCars?: number;
+  packageCounts: Array<{ washPackageId: string; carCount: number; membershipCars?: number }>;
+}
+
+/**
+ * Split a CSV line into fields
+ * WHY: Package names may contain commas, so quoted fields are supported
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+
+  return fields;
+}
+
+/**
+ * Parse a bulk car count CSV
+ *
+ * WHY: Operators export daily counts from their POS/tunnel controller as
+ * a spreadsheet, one row per day.
+ *
+ * FORMAT:
+ * ```
+ * date,total,Basic,Deluxe,Ultimate,Ultimate members
+ * 2026-01-15,412,200,150,62,48
+ * ```
+ * - "date" column is required (any format Date.parse accepts)
+ * - "total" column is optional; other columns must match package names
+ * - "<package> members" columns give the membership part of that
+ *   package's count; without one, a re-imported day keeps its split
+ * - Empty cells are skipped
+ *
+ * @param text - Raw CSV text
+ * @param packages - Site packages used to resolve column headers
+ * @returns Parsed rows and per-line errors
+ */
+export function parseCarCountCsv(
+  text: string,
+  packages: Array<{ id: string; name: string }>
+): { rows: ParsedCarCountRow[]; errors: Array<{ line: number; message: string }> } {
+  const rows: ParsedCarCountRow[] = [];
+  const errors: Array<{ line: number; message: string }> = [];
+
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length === 0) {
+    return { rows, errors: [{ line: 1, message: 'File is empty' }] };
+  }
+
+  const headers = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+  const dateIndex = headers.indexOf('date');
+  const totalIndex = headers.indexOf('total');
+
+  if (dateIndex === -1) {
+    return { rows, errors: [{ line: 1, message: 'Missing "date" column' }] };
+  }
+
+  // Resolve package and membership columns by name (case-insensitive)
+  const packageColumns: Array<{ index: number; washPackageId: string }> = [];
+  const membershipColumns = new Map<string, number>();
+  headers.forEach((header, index) => {
+    if (index === dateIndex || index === totalIndex) return;
+    const pkg = packages.find((p) => p.name.toLowerCase() === header);
+    if (pkg) {
+      packageColumns.push({ index, washPackageId: pkg.id });
+      return;
+    }
+    const memberPkg = packages.find((p) => `${p.name.toLowerCase()} members` === header);
+    if (memberPkg) {
+      membershipColumns.set(memberPkg.id, index);
+      return;
+    }
+    errors.push({ line: 1, message: `Unknown package column "${header}"` });
+  });
+
+  membershipColumns.forEach((index, washPackageId) => {
+    if (!packageColumns.some((column) => column.washPackageId === washPackageId)) {
+      errors.push({
+        line: 1,
+        message: `Column "${headers[index]}" needs a matching package column`,
+      });
+    }
+  });
+
+  const parseCount = (value: string, lineNumber: number, label: string): number | undefined => {
+    if (value === '') return undefined;
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) {
+      errors.push({ line: lineNumber, message: `Invalid ${label} count "${value}"` });
+      return undefined;
+    }
+    return count;
+  };
+
+  for (let i = 1; i < lines.length; i++) {
+    const lineNumber = i + 1;
+    const fields = splitCsvLine(lines[i]);
+    const dateValue = fields[dateIndex] ?? '';
+
+    if (isNaN(Date.parse(dateValue))) {
+      errors.push({ line: lineNumber, message: `Invalid date "${dateValue}"` });
+      continue;
+    }
+
+    const row: ParsedCarCountRow = {
+      line: lineNumber,
+      logDate: dateValue,
+      totalCars: totalIndex === -1 ? undefined : parseCount(fields[totalIndex] ?? '', lineNumber, 'total'),
+      packageCounts: [],
+    };
+
+    for (const column of packageColumns) {
+      const count = parseCount(fields[column.index] ?? '', lineNumber, headers[column.index]);
+      const membershipIndex = membershipColumns.get(column.washPackageId);
+      const membershipLabel = membershipIndex === undefined ? '' : headers[membershipIndex];
+      const membershipCars = membershipIndex === undefined
+        ? undefined
+        : parseCount(fields[membershipIndex] ?? '', lineNumber, membershipLabel);
+
+      if (count === undefined) {
+        if (membershipCars !== undefined) {
+          errors.push({
+            line: lineNumber,
+            message: `"${membershipLabel}" given without a "${headers[column.index]}" count`,
+          });
+        }
+        continue;
+      }
+
+      if (membershipCars !== undefined && membershipCars > count) {
+        errors.push({
+          line: lineNumber,
+          message: `"${membershipLabel}" (${membershipCars}) exceeds the "${headers[column.index]}" count (${count})`,
+        });
+        continue;
+      }
+
+      row.packageCounts.push({ washPackageId: column.washPackageId, carCount: count, membershipCars });
+    }
+
+    if (row.totalCars === undefined && row.packageCounts.length === 0) {
+      errors.push({ line: lineNumber, message: 'Row has no car counts' });
+      continue;
+    }
+
+    rows.push(row);
+  }
+
+  return { rows, errors };
+}
+
+// ===========================================
+// CONTROLLER API KEYS
+// ===========================================
+
+/**
+ * Hash a controller API key for storage
+ * WHY: Keys are high-entropy random strings, so a fast SHA-256 is
+ * sufficient (unlike passwords, which use bcrypt)
+ */
+export function hashCarCountApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Check a presented controller API key against a stored hash
+ * WHY: Compared in constant time, so response timing doesn't reveal how
+ * much of the hash matched
+ */
+export function carCountApiKeyMatches(key: string, keyHash: string): boolean {
+  const presented = Buffer.from(hashCarCountApiKey(key), 'hex');
+  const stored = Buffer.from(keyHash, 'hex');
+
+  return presented.length === stored.length && timingSafeEqual(presented, stored);
+}
+
+/**
+ * Generate a new controller API key
+ *
+ * FORMAT: tlcc_<prefix>_<secret>
+ * - prefix is stored in plain text for lookup
+ * - the full key is only returned once, at creation
+ */
+export function generateCarCountApiKey(): {
+  key: string;
+  keyPrefix: string;
+  keyHash: string;
+} {
+  const keyPrefix = randomBytes(6).toString('hex');
+  const secret = randomBytes(24).toString('base64url');
+  const key = `tlcc_${keyPrefix}_${secret}`;
+
+  return { key, keyPrefix, keyHash: hashCarCountApiKey(key) };
+}
+
+/**
+ * Extract the lookup prefix from a controller API key
+ * @returns Prefix, or null if the key is malformed
+ */
+export function getCarCountApiKeyPrefix(key: string): string | null {
+  const match = /^tlcc_([0-9a-f]{12})_[A-Za-z0-9_-]+$/.exec(key);
+  return match ? match[1] : null;
+}
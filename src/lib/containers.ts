@@ -0,0 +1,238 @@
+// ===========================================
+// FILE: src/lib/containers.ts
+// PURPOSE: Container catalog, gallon math for container counts and custom container charts
+// PRD REFERENCE: PRD Section 6.2 - Chemical Entries, PRD Section 7.6 - Inventory Alerts
+// USED BY: Chemical entry and container API routes, ChemicalEntryForm, CustomContainerForm,
+//          dashboards, anomalies, replenishment
+// ===========================================
+
+import type { ContainerShape, ContainerType, ConversionPoint } from '@/types';
+
+/**
+ * Nominal gallons of each container type
+ * NOTE: ChemicalOrgConfig.primaryContainerSizeGallons overrides these for
+ * the primary container (and is required for custom holding tanks)
+ */
+export const CONTAINER_CATALOG: Record<ContainerType, { label: string; gallons: number | null }> = {
+  HOLDING_TANK_10GAL: { label: '10 gal holding tank', gallons: 10 },
+  HOLDING_TANK_15GAL: { label: '15 gal holding tank', gallons: 15 },
+  HOLDING_TANK_20GAL: { label: '20 gal holding tank', gallons: 20 },
+  HOLDING_TANK_CUSTOM: { label: 'Custom holding tank', gallons: null },
+  JUG_1GAL: { label: '1 gal jug', gallons: 1 },
+  JUG_2_5GAL: { label: '2.5 gal jug', gallons: 2.5 },
+  PAIL_5GAL: { label: '5 gal pail', gallons: 5 },
+  DRUM_15GAL: { label: '15 gal drum', gallons: 15 },
+  DRUM_30GAL: { label: '30 gal drum', gallons: 30 },
+  DRUM_55GAL: { label: '55 gal drum', gallons: 55 },
+};
+
+/**
+ * Container fields of a ChemicalOrgConfig
+ */
+interface ContainerConfig {
+  primaryContainer: string;
+  primaryContainerSizeGallons: unknown; // Decimal or number, null when unset
+  backstockContainer: string;
+}
+
+/**
+ * Gallons held by a full primary container
+ *
+ * @returns The configured size, else the catalog size (null if unknown)
+ */
+export function getPrimaryContainerGallons(
+  config: Omit<ContainerConfig, 'backstockContainer'>
+): number | null {
+  if (config.primaryContainerSizeGallons) {
+    return Number(config.primaryContainerSizeGallons);
+  }
+  return CONTAINER_CATALOG[config.primaryContainer as ContainerType]?.gallons ?? null;
+}
+
+/**
+ * Gallons held by a full backstock container
+ *
+ * WHY: Backstock and deliveries are counted in backstock containers. A
+ * custom size only applies when backstock uses the primary container type.
+ *
+ * @returns The catalog size, else the primary size for the same type (null if unknown)
+ */
+export function getBackstockContainerGallons(config: ContainerConfig): number | null {
+  const catalogGallons = CONTAINER_CATALOG[config.backstockContainer as ContainerType]?.gallons;
+  if (catalogGallons) {
+    return catalogGallons;
+  }
+  if (config.backstockContainer === config.primaryContainer && config.primaryContainerSizeGallons) {
+    return Number(config.primaryContainerSizeGallons);
+  }
+  return null;
+}
+
+/**
+ * Allowed difference between a submitted and a computed total on hand
+ * WHY: Absorbs rounding in clients that sum with floats
+ */
+export const TOTAL_ON_HAND_TOLERANCE_GALLONS = 0.1;
+
+/**
+ * Inputs for computing an entry's gallons
+ */
+export interface EntryGallonInputs {
+  levelGallons: number;
+  backstockCount: number;
+  backstockPartialGallons: number;
+  backstockGallons: number; // As entered; used when the container size is unknown
+  deliveryReceived: boolean;
+  deliveryCount: number | null;
+  deliveryGallons: number | null; // As entered; used when the container size is unknown
+}
+
+/**
+ * Compute backstock, delivery and total gallons for a chemical entry
+ *
+ * WHY: Technicians count containers, not gallons. Deriving gallons from
+ * counts keeps backstock consistent across techs, and the entry form and
+ * API share this so the preview matches what is saved.
+ *
+ * BUSINESS LOGIC:
+ * - Backstock = full containers × container size + partially used gallons
+ * - Delivery = delivered containers × container size
+ * - Without a known container size, the entered gallons are used as-is
+ *   (and partial gallons are already part of them)
+ * - Total on hand = Tank + Backstock + Delivery
+ *
+ * @param inputs - Entry values
+ * @param containerGallons - Size of one backstock container (null if unknown)
+ */
+export function computeEntryGallons(
+  inputs: EntryGallonInputs,
+  containerGallons: number | null
+): {
+  backstockGallons: number;
+  backstockPartialGallons: number;
+  deliveryGallons: number | null;
+  totalOnHandGallons: number;
+} {
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const backstockPartialGallons = containerGallons ? inputs.backstockPartialGallons : 0;
+  const backstockGallons = containerGallons
+    ? inputs.backstockCount * containerGallons + backstockPartialGallons
+    : inputs.backstockGallons;
+
+  let deliveryGallons = inputs.deliveryGallons;
+  if (inputs.deliveryReceived && containerGallons && inputs.deliveryCount !== null) {
+    deliveryGallons = inputs.deliveryCount * containerGallons;
+  }
+  const deliveredGallons = inputs.deliveryReceived ? deliveryGallons ?? 0 : 0;
+
+  return {
+    backstockGallons: round(backstockGallons),
+    backstockPartialGallons: round(backstockPartialGallons),
+    deliveryGallons: deliveryGallons === null ? null : round(deliveryGallons),
+    totalOnHandGallons: round(inputs.levelGallons + backstockGallons + deliveredGallons),
+  };
+}
+
+/**
+ * Cubic inches in a US gallon
+ */
+const CUBIC_INCHES_PER_GALLON = 231;
+
+/**
+ * Measurements of a custom container
+ */
+export interface ContainerDimensions {
+  shape: ContainerShape;
+  heightInches?: number | null;
+  diameterInches?: number | null; // CYLINDER
+  lengthInches?: number | null; // RECTANGULAR
+  widthInches?: number | null; // RECTANGULAR
+}
+
+/**
+ * Gallons held by each inch of height
+ *
+ * @returns Gallons per inch, or null for irregular shapes and missing measurements
+ */
+export function getGallonsPerInch(dimensions: ContainerDimensions): number | null {
+  if (dimensions.shape === 'CYLINDER' && dimensions.diameterInches) {
+    const radius = dimensions.diameterInches / 2;
+    return (Math.PI * radius * radius) / CUBIC_INCHES_PER_GALLON;
+  }
+  if (dimensions.shape === 'RECTANGULAR' && dimensions.lengthInches && dimensions.widthInches) {
+    return (dimensions.lengthInches * dimensions.widthInches) / CUBIC_INCHES_PER_GALLON;
+  }
+  return null;
+}
+
+/**
+ * Generate an inch-to-gallon chart from a container's dimensions
+ *
+ * WHY: Upright cylinders and boxes fill linearly, so their chart follows
+ * from the cross-section. Irregular tanks (cones) must be calibrated by
+ * hand instead.
+ *
+ * BUSINESS LOGIC:
+ * - One point every stepInches from 0 to the container height
+ * - The full height is always the last point
+ *
+ * @param dimensions - Shape and measurements
+ * @param stepInches - Spacing between points (default 1")
+ * @returns Chart points, or an empty chart if it can't be generated
+ */
+export function generateCalibrationChart(
+  dimensions: ContainerDimensions,
+  stepInches: number = 1
+): ConversionPoint[] {
+  const gallonsPerInch = getGallonsPerInch(dimensions);
+  const height = dimensions.heightInches;
+  if (!gallonsPerInch || !height) {
+    return [];
+  }
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const points: ConversionPoint[] = [];
+
+  for (let inches = 0; inches < height; inches = round(inches + stepInches)) {
+    points.push({ inches, gallons: round(inches * gallonsPerInch) });
+  }
+  points.push({ inches: round(height), gallons: round(height * gallonsPerInch) });
+
+  return points;
+}
+
+/**
+ * Measurements and capacity to store for a custom container
+ *
+ * BUSINESS LOGIC:
+ * - Measurements the shape doesn't use are dropped
+ * - Cylinders and boxes take their capacity from their dimensions;
+ *   irregular containers keep the capacity entered
+ *
+ * @param container - Shape, measurements and entered capacity
+ */
+export function resolveCustomContainerSize(
+  container: ContainerDimensions & { capacityGallons?: number | null }
+): {
+  heightInches: number | null;
+  diameterInches: number | null;
+  lengthInches: number | null;
+  widthInches: number | null;
+  capacityGallons: number;
+} {
+  const { shape } = container;
+  const gallonsPerInch = getGallonsPerInch(container);
+  const heightInches = container.heightInches ?? null;
+
+  return {
+    heightInches,
+    diameterInches: shape === 'CYLINDER' ? container.diameterInches ?? null : null,
+    lengthInches: shape === 'RECTANGULAR' ? container.lengthInches ?? null : null,
+    widthInches: shape === 'RECTANGULAR' ? container.widthInches ?? null : null,
+    capacityGallons:
+      gallonsPerInch && heightInches
+        ? Math.round(gallonsPerInch * heightInches * 100) / 100
+        : container.capacityGallons ?? 0,
+  };
+}
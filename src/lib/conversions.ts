@@ -0,0 +1,265 @@
+// ===========================================
+// FILE: src/lib/conversions.ts
+// PURPOSE: Server-side gallon resolution for chemical entries (inch conversion, container counts)
+// PRD REFERENCE: Implementation Guide - Section "Inch-to-Gallon Interpolation"
+// USED BY: Conversions API route, chemical entry API routes
+// ===========================================
+
+import { PrismaTransactionClient } from '@/lib/prisma';
+import { inchesToGallons } from '@/lib/utils';
+import {
+  computeEntryGallons,
+  getBackstockContainerGallons,
+  TOTAL_ON_HAND_TOLERANCE_GALLONS,
+} from '@/lib/containers';
+import type { ContainerType, ConversionPoint } from '@/types';
+
+/**
+ * Error raised when a chemical entry's gallons cannot be resolved
+ *
+ * WHY: Routes translate this into a 400 with a message the technician
+ * can act on (re-measure, recount, or switch entry method), instead of a 500.
+ */
+export class ChemicalEntryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChemicalEntryError';
+  }
+}
+
+/**
+ * Error raised when an inch reading cannot be converted
+ */
+export class InchConversionError extends ChemicalEntryError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InchConversionError';
+  }
+}
+
+/**
+ * Turn stored chart rows into conversion points
+ *
+ * WHY: Seeded charts start at the first measurable mark (e.g. 2.5" = 1 gal
+ * in a 5 gal pail). An empty container reads 0", so an implicit 0/0 point
+ * is added to make the bottom of the chart convertible.
+ */
+function toConversionPoints(rows: Array<{ inches: unknown; gallons: unknown }>): ConversionPoint[] {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const points = rows.map((row) => ({
+    inches: Number(row.inches),
+    gallons: Number(row.gallons),
+  }));
+
+  if (points[0].inches > 0) {
+    points.unshift({ inches: 0, gallons: 0 });
+  }
+
+  return points;
+}
+
+/**
+ * Load the conversion chart for a container type
+ *
+ * @param client - Prisma client or transaction client
+ * @param containerType - Container to load the chart for
+ * @returns Conversion points sorted by inches (empty if no chart exists)
+ */
+export async function getConversionPoints(
+  client: PrismaTransactionClient,
+  containerType: ContainerType
+): Promise<ConversionPoint[]> {
+  const rows = await client.inchGallonConversion.findMany({
+    where: { containerType },
+    orderBy: { inches: 'asc' },
+  });
+
+  return toConversionPoints(rows);
+}
+
+/**
+ * Load the calibration chart for a custom container
+ *
+ * @param client - Prisma client or transaction client
+ * @param customContainerId - Custom container to load the chart for
+ * @returns Conversion points sorted by inches (empty if not calibrated)
+ */
+export async function getCustomContainerPoints(
+  client: PrismaTransactionClient,
+  customContainerId: string
+): Promise<ConversionPoint[]> {
+  const rows = await client.customContainerConversion.findMany({
+    where: { customContainerId },
+    orderBy: { inches: 'asc' },
+  });
+
+  return toConversionPoints(rows);
+}
+
+/**
+ * Load the chart for an org chemical's primary container
+ *
+ * WHY: A custom container's calibration replaces the chart of its
+ * container type (HOLDING_TANK_CUSTOM has none of its own)
+ *
+ * @param client - Prisma client or transaction client
+ * @param orgConfig - Primary container and custom container (if any)
+ * @returns Display name of the container and its conversion points
+ */
+export async function getPrimaryContainerChart(
+  client: PrismaTransactionClient,
+  orgConfig: {
+    primaryContainer: string;
+    customContainer: { id: string; name: string } | null;
+  }
+): Promise<{ containerName: string; points: ConversionPoint[] }> {
+  if (orgConfig.customContainer) {
+    return {
+      containerName: orgConfig.customContainer.name,
+      points: await getCustomContainerPoints(client, orgConfig.customContainer.id),
+    };
+  }
+
+  return {
+    containerName: orgConfig.primaryContainer,
+    points: await getConversionPoints(client, orgConfig.primaryContainer as ContainerType),
+  };
+}
+
+/**
+ * Convert an inch reading to gallons with a container's chart
+ *
+ * @param points - Conversion points sorted by inches
+ * @param inches - Measured inches from the bottom of the container
+ * @param containerName - Container named in error messages
+ * @returns Interpolated gallons
+ * @throws InchConversionError if no chart exists or the reading is out of range
+ */
+export function convertInches(
+  points: ConversionPoint[],
+  inches: number,
+  containerName: string
+): number {
+  if (points.length === 0) {
+    throw new InchConversionError(
+      `No inch conversion chart exists for ${containerName}. Enter the level in gallons instead.`
+    );
+  }
+
+  const maxInches = points[points.length - 1].inches;
+  if (inches < 0 || inches > maxInches) {
+    throw new InchConversionError(
+      `Reading of ${inches}" is out of range for ${containerName} (0-${maxInches}")`
+    );
+  }
+
+  return inchesToGallons(points, inches);
+}
+
+/**
+ * Fields of a chemical entry involved in gallon resolution
+ */
+interface ChemicalEntryFields {
+  entryMethod: string;
+  levelInches?: number | null;
+  levelGallons?: number | null;
+  backstockCount?: number;
+  backstockPartialGallons?: number;
+  backstockGallons?: number;
+  deliveryReceived?: boolean;
+  deliveryCount?: number | null;
+  deliveryGallons?: number | null;
+  totalOnHandGallons?: number;
+}
+
+/**
+ * Resolve the gallons to persist for a chemical entry
+ *
+ * WHY: Technicians measure tanks with a dipstick and count containers.
+ * The level is converted with the primary container's chart (or its
+ * custom container's calibration), backstock
+ * and delivery gallons come from counts and the backstock container
+ * size, and the total on hand is computed here rather than trusted
+ * from the client.
+ *
+ * BUSINESS LOGIC:
+ * - INCHES entries convert levelInches; other methods keep levelGallons
+ * - Backstock and delivery gallons follow computeEntryGallons
+ * - Total on hand = Tank + Backstock + Delivery (same as the entry form)
+ * - A submitted total must match the computed one (within rounding)
+ *
+ * @param client - Prisma client or transaction client
+ * @param chemicalSiteConfigId - Site chemical the entry is for
+ * @param entry - Entry fields as submitted (merged with stored values on update)
+ * @returns Gallon fields to persist
+ * @throws InchConversionError if the reading can't be converted
+ * @throws ChemicalEntryError if the chemical is unknown or the total doesn't add up
+ */
+export async function resolveChemicalEntry(
+  client: PrismaTransactionClient,
+  chemicalSiteConfigId: string,
+  entry: ChemicalEntryFields
+): Promise<{
+  levelGallons: number | null | undefined;
+  backstockGallons: number;
+  backstockPartialGallons: number;
+  deliveryGallons: number | null;
+  totalOnHandGallons: number;
+}> {
+  const siteConfig = await client.chemicalSiteConfig.findUnique({
+    where: { id: chemicalSiteConfigId },
+    select: {
+      chemicalOrgConfig: {
+        select: {
+          primaryContainer: true,
+          primaryContainerSizeGallons: true,
+          backstockContainer: true,
+          customContainer: { select: { id: true, name: true } },
+        },
+      },
+    },
+  });
+
+  if (!siteConfig) {
+    throw new ChemicalEntryError('Chemical configuration not found for this entry');
+  }
+
+  const orgConfig = siteConfig.chemicalOrgConfig;
+  let levelGallons = entry.levelGallons;
+
+  if (entry.entryMethod === 'INCHES') {
+    if (entry.levelInches === null || entry.levelInches === undefined) {
+      throw new InchConversionError('levelInches is required when entryMethod is INCHES');
+    }
+
+    const chart = await getPrimaryContainerChart(client, orgConfig);
+    levelGallons = convertInches(chart.points, entry.levelInches, chart.containerName);
+  }
+
+  const gallons = computeEntryGallons(
+    {
+      levelGallons: levelGallons ?? 0,
+      backstockCount: entry.backstockCount ?? 0,
+      backstockPartialGallons: entry.backstockPartialGallons ?? 0,
+      backstockGallons: entry.backstockGallons ?? 0,
+      deliveryReceived: entry.deliveryReceived ?? false,
+      deliveryCount: entry.deliveryCount ?? null,
+      deliveryGallons: entry.deliveryGallons ?? null,
+    },
+    getBackstockContainerGallons(orgConfig)
+  );
+
+  if (
+    entry.totalOnHandGallons !== undefined &&
+    Math.abs(entry.totalOnHandGallons - gallons.totalOnHandGallons) > TOTAL_ON_HAND_TOLERANCE_GALLONS
+  ) {
+    throw new ChemicalEntryError(
+      `Total on hand of ${entry.totalOnHandGallons} gal doesn't match tank + backstock + delivery (${gallons.totalOnHandGallons} gal)`
+    );
+  }
+
+  return { levelGallons, ...gallons };
+}
@@ -0,0 +1,327 @@
+// ===========================================
+// FILE: src/lib/dashboard.ts
+// PURPOSE: Session-scoped data loading for the role dashboards
+// PRD REFERENCE: PRD Section 6 - Dashboards
+// USED BY: Dashboard server pages
+// ===========================================
+
+import { prisma } from '@/lib/prisma';
+import { getTankStatus } from '@/lib/utils';
+import { toCountDate } from '@/lib/carCounts';
+import { getInventoryForecasts } from '@/lib/forecast';
+import { getSiteBudgetSummaries } from '@/lib/targets';
+import { addCalendarDays, getSiteToday, resolveSiteTimeZone } from '@/lib/timezone';
+import { getPrimaryContainerGallons } from '@/lib/containers';
+
+interface SessionUser {
+  id: string;
+  role: string;
+  distributorId: string | null;
+  organizationId: string | null;
+  tabletSiteId?: string | null;
+}
+
+/**
+ * Inventory tile for one chemical at a site
+ */
+export interface SiteTank {
+  id: string;
+  chemicalName: string;
+  currentGallons: number;
+  totalGallons: number;
+  alertThreshold: number | null;
+  lastReadingDate: string | null;
+  daysUntilEmpty: number | null; // Forecast incl. backstock; null when unknown
+}
+
+/**
+ * Site card data for dashboards
+ */
+export interface DashboardSite {
+  id: string;
+  name: string;
+  slug: string;
+  address: string | null;
+  organizationId: string;
+  organizationName: string;
+  organizationSlug: string;
+  timeZone: string;
+  criticalTanks: number;
+  lowStockTanks: number;
+  carsToday: number;
+  lastVisit: string | null;
+  nextVisit: string | null;
+  runOut: { chemicalName: string; daysUntilEmpty: number } | null; // Soonest run-out
+  budget: {
+    monthlyBudget: number;
+    projectedMonthCost: number;
+    isOverBudget: boolean; // Any of the site's budgets projected over
+  } | null; // Site's all-chemicals budget (or first by type); null without one
+}
+
+/**
+ * Organization card data for dashboards
+ */
+export interface DashboardOrganization {
+  id: string;
+  name: string;
+  slug: string;
+  siteCount: number;
+  criticalTanks: number;
+  lastVisit: string | null;
+  nextVisit: string | null;
+  sites: DashboardSite[];
+}
+
+/**
+ * Where clause for the sites a user can see
+ *
+ * BUSINESS LOGIC (PRD Section 3):
+ * - Distributor roles: every site of their client organizations
+ * - ORG_ADMIN: every site of their organization
+ * - SITE_MANAGER / SITE_USER: sites granted through UserSiteAccess
+ * - Tablet (PIN) sessions: only the site the tablet is enrolled to
+ *
+ * @returns Where clause, or null if the user can see no sites
+ */
+export function getAccessibleSiteWhere(user: SessionUser) {
+  if (user.tabletSiteId) {
+    return {
+      id: user.tabletSiteId,
+      isActive: true,
+      userAccess: { some: { userId: user.id } },
+    };
+  }
+
+  if (user.role === 'DISTRIBUTOR_ADMIN' || user.role === 'DISTRIBUTOR_USER') {
+    return user.distributorId
+      ? { isActive: true, organization: { distributorId: user.distributorId } }
+      : null;
+  }
+
+  if (user.role === 'ORG_ADMIN') {
+    return user.organizationId
+      ? { isActive: true, organizationId: user.organizationId }
+      : null;
+  }
+
+  return { isActive: true, userAccess: { some: { userId: user.id } } };
+}
+
+/**
+ * Load current inventory tiles for sites
+ *
+ * BUSINESS LOGIC:
+ * - One tile per active chemical at the site
+ * - Level comes from the most recent visit reading (primary container
+ *   level, falling back to total on hand)
+ * - Chemicals never read show as empty until their first visit
+ * - Days until empty comes from the visit-history forecast
+ *
+ * @returns Tiles keyed by siteId
+ */
+export async function getSiteTanks(siteIds: string[]): Promise<Map<string, SiteTank[]>> {
+  const forecasts = await getInventoryForecasts(siteIds);
+  const daysUntilEmptyById = new Map(
+    forecasts.map((forecast) => [forecast.chemicalId, forecast.daysUntilEmpty])
+  );
+
+  const configs = await prisma.chemicalSiteConfig.findMany({
+    where: { siteId: { in: siteIds }, isActive: true },
+    include: {
+      chemicalOrgConfig: {
+        include: { chemicalMaster: { select: { name: true } } },
+      },
+      visitLogEntries: {
+        orderBy: [
+          { visitLog: { visitDate: 'desc' } },
+          { visitLog: { visitTime: 'desc' } },
+          { createdAt: 'desc' },
+        ],
+        take: 1,
+        include: { visitLog: { select: { visitDate: true } } },
+      },
+    },
+  });
+
+  const tanksBySite = new Map<string, SiteTank[]>();
+
+  for (const config of configs) {
+    const orgConfig = config.chemicalOrgConfig;
+    const latest = config.visitLogEntries[0];
+    const currentGallons = latest
+      ? Number(latest.levelGallons ?? latest.totalOnHandGallons)
+      : 0;
+    const capacity = getPrimaryContainerGallons(orgConfig);
+
+    const tanks = tanksBySite.get(config.siteId) || [];
+    tanks.push({
+      id: config.id,
+      chemicalName: orgConfig.chemicalMaster.name,
+      currentGallons,
+      // Without a known capacity, show the reading as a full tank
+      totalGallons: Math.max(capacity ?? currentGallons, currentGallons, 1),
+      alertThreshold: config.alertThresholdGallons ? Number(config.alertThresholdGallons) : null,
+      lastReadingDate: latest ? latest.visitLog.visitDate.toISOString().split('T')[0] : null,
+      daysUntilEmpty: daysUntilEmptyById.get(config.id) ?? null,
+    });
+    tanksBySite.set(config.siteId, tanks);
+  }
+
+  tanksBySite.forEach((tanks) => tanks.sort((a, b) => a.chemicalName.localeCompare(b.chemicalName)));
+
+  return tanksBySite;
+}
+
+/**
+ * Load dashboard cards for the sites a user can see
+ *
+ * BUSINESS LOGIC:
+ * - "Cars today" and the next visit use today's date in each site's time
+ *   zone. Every zone's today is within a day of UTC's, so one query loads
+ *   that window and each site picks its own day.
+ *
+ * @param user - Session user
+ * @param filter - Optional narrowing to one organization (by id or slug)
+ */
+export async function getDashboardSites(
+  user: SessionUser,
+  filter: { organizationId?: string; organizationSlug?: string } = {}
+): Promise<DashboardSite[]> {
+  const accessWhere = getAccessibleSiteWhere(user);
+  if (!accessWhere) {
+    return [];
+  }
+
+  const utcToday = toCountDate(new Date());
+  const windowStart = addCalendarDays(utcToday, -1);
+
+  const sites = await prisma.site.findMany({
+    where: {
+      AND: [
+        accessWhere,
+        filter.organizationId ? { organizationId: filter.organizationId } : {},
+        filter.organizationSlug ? { organization: { slug: filter.organizationSlug } } : {},
+      ],
+    },
+    include: {
+      organization: { select: { id: true, name: true, slug: true, timezone: true } },
+      visitLogs: {
+        orderBy: { visitDate: 'desc' },
+        take: 1,
+        select: { visitDate: true },
+      },
+      scheduledVisits: {
+        where: { status: 'SCHEDULED', scheduledDate: { gte: windowStart } },
+        orderBy: { scheduledDate: 'asc' },
+        take: 2,
+        select: { scheduledDate: true },
+      },
+      carCountLogs: {
+        where: { logDate: { gte: windowStart, lte: addCalendarDays(utcToday, 1) } },
+        select: { logDate: true, totalCars: true },
+      },
+    },
+    orderBy: [{ organization: { name: 'asc' } }, { name: 'asc' }],
+  });
+
+  const tanksBySite = await getSiteTanks(sites.map((site: { id: string }) => site.id));
+  const budgetsBySite = await getSiteBudgetSummaries(
+    prisma,
+    sites.map((site: typeof sites[number]) => ({
+      id: site.id,
+      organizationId: site.organizationId,
+      timeZone: resolveSiteTimeZone(site),
+    }))
+  );
+
+  return sites.map((site: typeof sites[number]) => {
+    const timeZone = resolveSiteTimeZone(site);
+    const today = getSiteToday(timeZone);
+    const tanks = tanksBySite.get(site.id) || [];
+    const statuses = tanks.map((tank) =>
+      getTankStatus(tank.currentGallons, tank.totalGallons, tank.alertThreshold ?? undefined)
+    );
+    const soonest = tanks
+      .filter((tank) => tank.daysUntilEmpty !== null)
+      .sort((a, b) => (a.daysUntilEmpty as number) - (b.daysUntilEmpty as number))[0];
+
+    const todayCount = site.carCountLogs.find(
+      (log: { logDate: Date }) => log.logDate.getTime() === today.getTime()
+    );
+    const nextVisit = site.scheduledVisits.find(
+      (visit: { scheduledDate: Date }) => visit.scheduledDate >= today
+    );
+    const budget = budgetsBySite.get(site.id);
+
+    return {
+      id: site.id,
+      name: site.name,
+      slug: site.slug,
+      address: site.address,
+      organizationId: site.organization.id,
+      organizationName: site.organization.name,
+      organizationSlug: site.organization.slug,
+      timeZone,
+      criticalTanks: statuses.filter((status) => status === 'CRITICAL').length,
+      lowStockTanks: statuses.filter((status) => status === 'LOW_STOCK').length,
+      carsToday: todayCount?.totalCars ?? 0,
+      lastVisit: site.visitLogs[0]?.visitDate.toISOString().split('T')[0] ?? null,
+      nextVisit: nextVisit?.scheduledDate.toISOString().split('T')[0] ?? null,
+      runOut: soonest
+        ? { chemicalName: soonest.chemicalName, daysUntilEmpty: soonest.daysUntilEmpty as number }
+        : null,
+      budget: budget
+        ? {
+            monthlyBudget: budget.budgets[0].monthlyBudget,
+            projectedMonthCost: budget.budgets[0].projectedMonthCost,
+            isOverBudget: budget.isOverBudget,
+          }
+        : null,
+    };
+  });
+}
+
+/**
+ * Group site cards by organization
+ * WHY: Distributor and location-switcher views are organized by client
+ *
+ * @param sites - Site cards
+ * @param organizations - Organizations to include even with no sites
+ */
+export function groupSitesByOrganization(
+  sites: DashboardSite[],
+  organizations: Array<{ id: string; name: string; slug: string }> = []
+): DashboardOrganization[] {
+  const byOrg = new Map<string, DashboardOrganization>();
+
+  for (const org of organizations) {
+    byOrg.set(org.id, { ...org, siteCount: 0, criticalTanks: 0, lastVisit: null, nextVisit: null, sites: [] });
+  }
+
+  for (const site of sites) {
+    const org = byOrg.get(site.organizationId) || {
+      id: site.organizationId,
+      name: site.organizationName,
+      slug: site.organizationSlug,
+      siteCount: 0,
+      criticalTanks: 0,
+      lastVisit: null,
+      nextVisit: null,
+      sites: [],
+    };
+
+    org.sites.push(site);
+    org.siteCount += 1;
+    org.criticalTanks += site.criticalTanks;
+    if (site.lastVisit && (!org.lastVisit || site.lastVisit > org.lastVisit)) {
+      org.lastVisit = site.lastVisit;
+    }
+    if (site.nextVisit && (!org.nextVisit || site.nextVisit < org.nextVisit)) {
+      org.nextVisit = site.nextVisit;
+    }
+    byOrg.set(org.id, org);
+  }
+
+  return Array.from(byOrg.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
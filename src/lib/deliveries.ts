@@ -0,0 +1,164 @@
+// ===========================================
+// FILE: src/lib/deliveries.ts
+// PURPOSE: Delivery history and deliveries made between visits
+// PRD REFERENCE: PRD Section 6.2 - Chemical Entries, PRD Section 7.6 - Inventory Alerts
+// USED BY: Usage engine, forecast, portfolio analytics, delivery API routes
+// ===========================================
+
+import { prisma } from '@/lib/prisma';
+
+/**
+ * One delivery in a site's history
+ * WHY: Deliveries are recorded either on a visit's chemical entry or on
+ * their own; the history shows both side by side
+ */
+export interface DeliveryRecord {
+  id: string; // ChemicalDelivery or VisitLogChemicalEntry ID
+  source: 'DELIVERY' | 'VISIT';
+  deliveryDate: string; // YYYY-MM-DD
+  beforeVisit: boolean; // Arrived before that day's visit count
+  chemicalSiteConfigId: string;
+  chemicalName: string;
+  containerCount: number;
+  gallons: number;
+  lotNumber: string | null;
+  invoiceNumber: string | null;
+  notes: string | null;
+  deliveredBy: { id: string; firstName: string; lastName: string } | null;
+  visitLogId: string | null; // Set for deliveries recorded on a visit
+}
+
+/**
+ * Total gallons delivered after one visit's count and before the next
+ *
+ * WHY: Standalone deliveries count toward the first visit count after them.
+ * Deliveries only carry a date, so on a visit day the delivery says
+ * whether it arrived before or after that day's count (beforeVisit).
+ *
+ * BUSINESS LOGIC:
+ * - Dated strictly between the two visit dates: counted
+ * - Dated on the previous visit's day: counted unless it arrived before
+ *   that day's count (the count already includes it)
+ * - Dated on the current visit's day: counted only if it arrived before
+ *   that day's count
+ * - Two visits on the same day share that day's deliveries with the
+ *   visits either side, so nothing is counted between them
+ *
+ * @param deliveries - Standalone deliveries for one site chemical
+ * @param from - Previous visit date
+ * @param to - Current visit date
+ */
+export function sumDeliveredGallons(
+  deliveries: Array<{ deliveryDate: Date; beforeVisit: boolean; gallons: unknown }>,
+  from: Date,
+  to: Date
+): number {
+  return deliveries
+    .filter((delivery) => {
+      const date = delivery.deliveryDate.getTime();
+      const afterFrom = date > from.getTime() || (date === from.getTime() && !delivery.beforeVisit);
+      const beforeTo = date < to.getTime() || (date === to.getTime() && delivery.beforeVisit);
+      return afterFrom && beforeTo;
+    })
+    .reduce((sum, delivery) => sum + Number(delivery.gallons), 0);
+}
+
+/**
+ * Delivery history for a site, newest first
+ *
+ * BUSINESS LOGIC:
+ * - Standalone deliveries come from ChemicalDelivery
+ * - Visit deliveries are chemical entries with deliveryReceived set;
+ *   they have no lot or invoice, and the visit's tech delivered them
+ * - Filtering by lot number only matches standalone deliveries
+ *
+ * @param siteId - Site
+ * @param options.chemicalSiteConfigId - Limit to one chemical
+ * @param options.lotNumber - Limit to one lot
+ * @param options.startDate - First delivery date (inclusive)
+ * @param options.endDate - Last delivery date (inclusive)
+ */
+export async function getDeliveryHistory(
+  siteId: string,
+  options: {
+    chemicalSiteConfigId?: string;
+    lotNumber?: string;
+    startDate: Date;
+    endDate: Date;
+  }
+): Promise<DeliveryRecord[]> {
+  const { chemicalSiteConfigId, lotNumber, startDate, endDate } = options;
+  const chemicalName = {
+    select: {
+      chemicalOrgConfig: { select: { chemicalMaster: { select: { name: true } } } },
+    },
+  };
+  const userSelect = { select: { id: true, firstName: true, lastName: true } };
+
+  const [deliveries, entries] = await Promise.all([
+    prisma.chemicalDelivery.findMany({
+      where: {
+        siteId,
+        deliveryDate: { gte: startDate, lte: endDate },
+        ...(chemicalSiteConfigId && { chemicalSiteConfigId }),
+        ...(lotNumber && { lotNumber: { equals: lotNumber, mode: 'insensitive' as const } }),
+      },
+      include: { chemicalSiteConfig: chemicalName, deliverer: userSelect },
+    }),
+    lotNumber
+      ? Promise.resolve([])
+      : prisma.visitLogChemicalEntry.findMany({
+          where: {
+            deliveryReceived: true,
+            visitLog: { siteId, visitDate: { gte: startDate, lte: endDate } },
+            ...(chemicalSiteConfigId && { chemicalSiteConfigId }),
+          },
+          select: {
+            id: true,
+            chemicalSiteConfigId: true,
+            deliveryCount: true,
+            deliveryGallons: true,
+            notes: true,
+            chemicalSiteConfig: chemicalName,
+            visitLog: { select: { id: true, visitDate: true, user: userSelect } },
+          },
+        }),
+  ]);
+
+  const records: DeliveryRecord[] = [
+    ...deliveries.map((delivery: typeof deliveries[number]) => ({
+      id: delivery.id,
+      source: 'DELIVERY' as const,
+      deliveryDate: delivery.deliveryDate.toISOString().split('T')[0],
+      beforeVisit: delivery.beforeVisit,
+      chemicalSiteConfigId: delivery.chemicalSiteConfigId,
+      chemicalName: delivery.chemicalSiteConfig.chemicalOrgConfig.chemicalMaster.name,
+      containerCount: delivery.containerCount,
+      gallons: Number(delivery.gallons),
+      lotNumber: delivery.lotNumber,
+      invoiceNumber: delivery.invoiceNumber,
+      notes: delivery.notes,
+      deliveredBy: delivery.deliverer,
+      visitLogId: null,
+    })),
+    ...entries.map((entry: typeof entries[number]) => ({
+      id: entry.id,
+      source: 'VISIT' as const,
+      deliveryDate: entry.visitLog.visitDate.toISOString().split('T')[0],
+      beforeVisit: true,
+      chemicalSiteConfigId: entry.chemicalSiteConfigId,
+      chemicalName: entry.chemicalSiteConfig.chemicalOrgConfig.chemicalMaster.name,
+      containerCount: entry.deliveryCount ?? 0,
+      gallons: Number(entry.deliveryGallons ?? 0),
+      lotNumber: null,
+      invoiceNumber: null,
+      notes: entry.notes,
+      deliveredBy: entry.visitLog.user,
+      visitLogId: entry.visitLog.id,
+    })),
+  ];
+
+  return records.sort(
+    (a, b) => b.deliveryDate.localeCompare(a.deliveryDate) || a.chemicalName.localeCompare(b.chemicalName)
+  );
+}
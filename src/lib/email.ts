@@ -0,0 +1,125 @@
+// ===========================================
+// FILE: src/lib/email.ts
+// PURPOSE: Pluggable transactional email delivery
+// USED BY: Invite routes
+// ===========================================
+
+/**
+ * Outgoing email message
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Email transport
+ * WHY: Delivery is swappable - local development logs messages instead of
+ * sending them, production posts to an email provider
+ */
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Console transport
+ * WHY: Lets developers copy invite links from the server log without
+ * configuring an email provider
+ */
+export const consoleTransport: EmailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log(
+      [
+        '----- EMAIL (not sent) -----',
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text,
+        '----------------------------',
+      ].join('\n')
+    );
+  },
+};
+
+/**
+ * Resend transport
+ * WHY: Plain HTTP API, so no SDK dependency is needed
+ *
+ * ENV:
+ * - RESEND_API_KEY: API key
+ * - EMAIL_FROM: Verified sender, e.g. "TrueLevel <no-reply@truelevel.app>"
+ */
+export function createResendTransport(apiKey: string, from: string): EmailTransport {
+  return {
+    name: 'resend',
+    async send(message) {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from,
+          to: message.to,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Email delivery failed (${response.status}): ${await response.text()}`);
+      }
+    },
+  };
+}
+
+let activeTransport: EmailTransport | null = null;
+
+/**
+ * Override the email transport
+ * WHY: Scripts and future providers can plug in their own delivery
+ */
+export function setEmailTransport(transport: EmailTransport): void {
+  activeTransport = transport;
+}
+
+/**
+ * Resolve the email transport
+ *
+ * BUSINESS LOGIC:
+ * - An explicitly set transport wins
+ * - RESEND_API_KEY configured → Resend
+ * - Otherwise → console (development default)
+ */
+export function getEmailTransport(): EmailTransport {
+  if (activeTransport) {
+    return activeTransport;
+  }
+
+  if (process.env.RESEND_API_KEY) {
+    activeTransport = createResendTransport(
+      process.env.RESEND_API_KEY,
+      process.env.EMAIL_FROM || 'TrueLevel <no-reply@truelevel.app>'
+    );
+  } else {
+    if (process.env.NODE_ENV === 'production') {
+      console.warn('RESEND_API_KEY is not set - emails will be logged, not sent');
+    }
+    activeTransport = consoleTransport;
+  }
+
+  return activeTransport;
+}
+
+/**
+ * Send an email through the active transport
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  await getEmailTransport().send(message);
+}
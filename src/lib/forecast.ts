@@ -0,0 +1,188 @@
+// ===========================================
+// FILE: src/lib/forecast.ts
+// PURPOSE: Days-until-empty forecasting from visit history
+// PRD REFERENCE: PRD Section 7.6 - Inventory Alerts
+// USED BY: Low-inventory API, dashboard data loaders
+// ===========================================
+
+import { prisma } from '@/lib/prisma';
+import { calculateDailyUsage, calculateDaysUntilEmpty } from '@/lib/analytics';
+import { sumDeliveredGallons } from '@/lib/deliveries';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Visit history used to compute a chemical's burn rate
+ * WHY: Long enough to span several visits, short enough to follow
+ * seasonal volume changes
+ */
+export const FORECAST_LOOKBACK_DAYS = 60;
+
+/**
+ * Run-out forecast for one chemical at a site
+ */
+export interface InventoryForecast {
+  chemicalId: string; // ChemicalSiteConfig ID
+  chemicalName: string;
+  chemicalType: string;
+  siteId: string;
+  siteName: string;
+  organizationId: string;
+  organizationName: string;
+  onHandAtLastReading: number; // Tank level + backstock + deliveries
+  deliveredSinceReading: number; // Standalone deliveries on or after the last reading date
+  estimatedOnHand: number; // Projected forward to today
+  lastReadingDate: string;
+  averageDailyUsage: number;
+  daysUntilEmpty: number | null; // null when there is no usage to project from
+  projectedEmptyDate: string | null;
+}
+
+/**
+ * Forecast when each chemical at the given sites runs out
+ *
+ * BUSINESS LOGIC:
+ * - Burn rate = usage recorded between the first and last readings in the
+ *   lookback window, divided by the days between those readings
+ * - On hand is the last reading's total (primary level plus backstock)
+ *   plus standalone deliveries since, drawn down at the burn rate for the
+ *   days since that reading
+ * - Chemicals with fewer than two readings in the window, or no usage,
+ *   have no projection (daysUntilEmpty = null)
+ *
+ * @param siteIds - Sites to forecast
+ * @param asOf - Date to project to (default now)
+ * @returns Forecasts for every active chemical read in the lookback window
+ */
+export async function getInventoryForecasts(
+  siteIds: string[],
+  asOf: Date = new Date()
+): Promise<InventoryForecast[]> {
+  if (siteIds.length === 0) {
+    return [];
+  }
+
+  const lookbackStart = new Date(asOf.getTime() - FORECAST_LOOKBACK_DAYS * MS_PER_DAY);
+
+  const [entries, deliveries] = await Promise.all([
+    prisma.visitLogChemicalEntry.findMany({
+      where: {
+        chemicalSiteConfig: { siteId: { in: siteIds }, isActive: true },
+        visitLog: { visitDate: { gte: lookbackStart, lte: asOf } },
+      },
+      select: {
+        chemicalSiteConfigId: true,
+        totalOnHandGallons: true,
+        calculatedUsageGallons: true,
+        visitLog: { select: { visitDate: true } },
+        chemicalSiteConfig: {
+          select: {
+            site: {
+              select: {
+                id: true,
+                name: true,
+                organization: { select: { id: true, name: true } },
+              },
+            },
+            chemicalOrgConfig: {
+              select: { chemicalMaster: { select: { name: true, type: true } } },
+            },
+          },
+        },
+      },
+      orderBy: [
+        { visitLog: { visitDate: 'asc' } },
+        { visitLog: { visitTime: 'asc' } },
+        { createdAt: 'asc' },
+      ],
+    }),
+    prisma.chemicalDelivery.findMany({
+      where: {
+        siteId: { in: siteIds },
+        deliveryDate: { gte: lookbackStart, lte: asOf },
+      },
+      select: { chemicalSiteConfigId: true, deliveryDate: true, beforeVisit: true, gallons: true },
+    }),
+  ]);
+
+  // Group readings by site chemical (already in visit order)
+  const byChemical = new Map<string, typeof entries>();
+  for (const entry of entries) {
+    const chain = byChemical.get(entry.chemicalSiteConfigId) || [];
+    chain.push(entry);
+    byChemical.set(entry.chemicalSiteConfigId, chain);
+  }
+
+  const forecasts: InventoryForecast[] = [];
+
+  for (const [chemicalId, chain] of byChemical) {
+    const first = chain[0];
+    const latest = chain[chain.length - 1];
+    const { site, chemicalOrgConfig } = latest.chemicalSiteConfig;
+
+    // The first reading's usage belongs to the period before the window
+    const totalUsage = chain
+      .slice(1)
+      .reduce((sum, entry) => sum + Number(entry.calculatedUsageGallons ?? 0), 0);
+    const daysBetween =
+      (latest.visitLog.visitDate.getTime() - first.visitLog.visitDate.getTime()) / MS_PER_DAY;
+    const dailyUsage = daysBetween >= 1 ? calculateDailyUsage(totalUsage, daysBetween) : 0;
+
+    const onHandAtLastReading = Number(latest.totalOnHandGallons);
+    const deliveredSinceReading = sumDeliveredGallons(
+      deliveries.filter(
+        (delivery: typeof deliveries[number]) => delivery.chemicalSiteConfigId === chemicalId
+      ),
+      latest.visitLog.visitDate,
+      new Date(asOf.getTime() + MS_PER_DAY)
+    );
+    const daysSinceReading = Math.max(
+      0,
+      (asOf.getTime() - latest.visitLog.visitDate.getTime()) / MS_PER_DAY
+    );
+    const estimatedOnHand = Math.max(
+      0,
+      onHandAtLastReading + deliveredSinceReading - dailyUsage * daysSinceReading
+    );
+
+    const daysUntilEmpty = calculateDaysUntilEmpty(estimatedOnHand, dailyUsage);
+    const hasProjection = daysUntilEmpty !== Infinity;
+
+    forecasts.push({
+      chemicalId,
+      chemicalName: chemicalOrgConfig.chemicalMaster.name,
+      chemicalType: chemicalOrgConfig.chemicalMaster.type,
+      siteId: site.id,
+      siteName: site.name,
+      organizationId: site.organization.id,
+      organizationName: site.organization.name,
+      onHandAtLastReading: Math.round(onHandAtLastReading * 100) / 100,
+      deliveredSinceReading: Math.round(deliveredSinceReading * 100) / 100,
+      estimatedOnHand: Math.round(estimatedOnHand * 100) / 100,
+      lastReadingDate: latest.visitLog.visitDate.toISOString().split('T')[0],
+      averageDailyUsage: Math.round(dailyUsage * 100) / 100,
+      daysUntilEmpty: hasProjection ? daysUntilEmpty : null,
+      projectedEmptyDate: hasProjection
+        ? new Date(asOf.getTime() + daysUntilEmpty * MS_PER_DAY).toISOString().split('T')[0]
+        : null,
+    });
+  }
+
+  return forecasts;
+}
+
+/**
+ * Order forecasts by urgency
+ * WHY: The chemical that runs out first is the one to deliver first;
+ * ties go to the faster-burning chemical
+ */
+export function sortByUrgency(forecasts: InventoryForecast[]): InventoryForecast[] {
+  return [...forecasts].sort((a, b) => {
+    const aDays = a.daysUntilEmpty ?? Infinity;
+    const bDays = b.daysUntilEmpty ?? Infinity;
+    if (aDays !== bDays) {
+      return aDays - bDays;
+    }
+    return b.averageDailyUsage - a.averageDailyUsage;
+  });
+}
@@ -0,0 +1,45 @@
+// ===========================================
+// FILE: src/lib/organizations.ts
+// PURPOSE: Organization helpers shared by organization routes
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Distributor → Organization)
+// USED BY: Organizations API routes
+// ===========================================
+
+import { PrismaTransactionClient } from '@/lib/prisma';
+import { slugify } from '@/lib/utils';
+
+/**
+ * Generate a globally unique organization slug
+ *
+ * WHY: Organization URLs are /dashboard/o/[orgSlug], and slugs are also how
+ * a distributor finds an existing organization to link with.
+ *
+ * BUSINESS LOGIC:
+ * - "ABC Car Wash" → "abc-car-wash", then "abc-car-wash-2"...
+ *
+ * @param client - Prisma client or transaction client
+ * @param name - Organization name to derive the slug from
+ * @returns Unique slug
+ */
+export async function generateOrganizationSlug(
+  client: PrismaTransactionClient,
+  name: string
+): Promise<string> {
+  const baseSlug = slugify(name) || 'organization';
+
+  const existing = await client.organization.findMany({
+    where: { slug: { startsWith: baseSlug } },
+    select: { slug: true },
+  });
+  const taken = new Set(existing.map((org: { slug: string }) => org.slug));
+
+  if (!taken.has(baseSlug)) {
+    return baseSlug;
+  }
+
+  let suffix = 2;
+  while (taken.has(`${baseSlug}-${suffix}`)) {
+    suffix++;
+  }
+  return `${baseSlug}-${suffix}`;
+}
@@ -0,0 +1,286 @@
+// ===========================================
+// FILE: src/lib/packageCost.ts
+// PURPOSE: GPM-weighted per-package cost allocation for a site
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// USED BY: Package cost, package profitability and export API routes
+// ===========================================
+
+import { prisma } from '@/lib/prisma';
+import {
+  calculateGpmWeightedCosts,
+  mergePackageCostAllocations,
+  type ChemicalUsageData,
+  type PackageCostAllocation,
+} from '@/lib/analytics';
+import { toCountDate } from '@/lib/carCounts';
+import { getCostPerGallonOn, getPriceBook } from '@/lib/prices';
+
+/**
+ * Site chemical with its applications and the packages that use them
+ */
+export interface ChemicalApplications {
+  chemicalId: string;
+  chemicalName: string;
+  chemicalType: string;
+  chemicalOrgConfigId: string;
+  costPerGallon: number; // Opening price; period costs come from lib/prices
+  applications: Array<{
+    id: string;
+    gpm: number;
+    packages: Array<{ packageId: string; packageName: string }>;
+  }>;
+}
+
+/**
+ * Usage recorded on a visit, valued at the price in effect that day
+ */
+export interface PricedUsageEntry {
+  chemicalSiteConfigId: string;
+  visitDate: Date;
+  gallons: number;
+  cost: number;
+}
+
+/**
+ * Package cost totals for a period
+ */
+export interface PackageCostSummary {
+  totalChemicalCost: number;
+  allocatedCost: number;
+  unallocatedCost: number;
+  packages: Array<{
+    packageId: string;
+    packageName: string;
+    price: number;
+    carCount: number;
+    totalCost: number;
+    costPerCar: number;
+  }>;
+}
+
+/**
+ * Load a site's active chemical applications, grouped by site chemical
+ *
+ * @param siteId - Site to load
+ * @returns Applications keyed by ChemicalSiteConfig ID
+ */
+export async function getSiteChemicalApplications(
+  siteId: string
+): Promise<Map<string, ChemicalApplications>> {
+  const applications = await prisma.chemicalSiteApplication.findMany({
+    where: {
+      isActive: true,
+      chemicalSiteConfig: { siteId },
+    },
+    include: {
+      injectorType: true,
+      chemicalSiteConfig: {
+        include: {
+          chemicalOrgConfig: {
+            include: {
+              chemicalMaster: true,
+            },
+          },
+        },
+      },
+      packageChemicals: {
+        where: {
+          washPackage: { isActive: true },
+        },
+        include: {
+          washPackage: {
+            select: { id: true, name: true },
+          },
+        },
+      },
+    },
+  });
+
+  const chemicals = new Map<string, ChemicalApplications>();
+  for (const app of applications) {
+    const config = app.chemicalSiteConfig;
+    let chemical = chemicals.get(config.id);
+    if (!chemical) {
+      chemical = {
+        chemicalId: config.id,
+        chemicalName: config.chemicalOrgConfig.chemicalMaster.name,
+        chemicalType: config.chemicalOrgConfig.chemicalMaster.type,
+        chemicalOrgConfigId: config.chemicalOrgConfigId,
+        costPerGallon: Number(config.chemicalOrgConfig.costPerGallon || 0),
+        applications: [],
+      };
+      chemicals.set(config.id, chemical);
+    }
+
+    chemical.applications.push({
+      id: app.id,
+      gpm: Number(app.injectorType.gpm),
+      packages: app.packageChemicals.map((pc: typeof app.packageChemicals[number]) => ({
+        packageId: pc.washPackage.id,
+        packageName: pc.washPackage.name,
+      })),
+    });
+  }
+
+  return chemicals;
+}
+
+/**
+ * Usage recorded at a site in a period, priced per visit date
+ *
+ * WHY: Package cost and profitability allocate the same
+ * priced usage; loading it in one place keeps their totals in agreement
+ *
+ * @param siteId - Site to load
+ * @param startDate - First visit date (inclusive)
+ * @param endDate - Last visit date (inclusive)
+ */
+export async function getPricedUsageEntries(
+  siteId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<PricedUsageEntry[]> {
+  const entries = await prisma.visitLogChemicalEntry.findMany({
+    where: {
+      calculatedUsageGallons: { not: null },
+      visitLog: { siteId, visitDate: { gte: startDate, lte: endDate } },
+    },
+    select: {
+      chemicalSiteConfigId: true,
+      calculatedUsageGallons: true,
+      chemicalSiteConfig: { select: { chemicalOrgConfigId: true } },
+      visitLog: { select: { visitDate: true } },
+    },
+  });
+
+  // Usage is valued at the price in effect on each visit date
+  const priceBook = await getPriceBook(
+    prisma,
+    entries.map((entry: typeof entries[number]) => entry.chemicalSiteConfig.chemicalOrgConfigId)
+  );
+
+  return entries.map((entry: typeof entries[number]) => {
+    const gallons = Number(entry.calculatedUsageGallons);
+    return {
+      chemicalSiteConfigId: entry.chemicalSiteConfigId,
+      visitDate: entry.visitLog.visitDate,
+      gallons,
+      cost:
+        gallons *
+        getCostPerGallonOn(priceBook, entry.chemicalSiteConfig.chemicalOrgConfigId, entry.visitLog.visitDate),
+    };
+  });
+}
+
+/**
+ * Run GPM-weighted allocation for every chemical and merge per package
+ *
+ * @param chemicals - Site chemicals with applications and package assignments
+ * @param usage - Gallons used per site chemical
+ * @param cars - Cars washed per package
+ * @param costs - Dollars spent per site chemical at the prices in effect
+ *   (default: usage at the opening price)
+ * @returns One allocation per package with at least one counted car
+ */
+export function allocatePackageCosts(
+  chemicals: Map<string, ChemicalApplications>,
+  usage: Map<string, number>,
+  cars: Map<string, number>,
+  costs?: Map<string, number>
+): PackageCostAllocation[] {
+  const allocations: PackageCostAllocation[][] = [];
+
+  for (const chemical of chemicals.values()) {
+    const totalUsageGallons = usage.get(chemical.chemicalId) ?? 0;
+    if (totalUsageGallons <= 0) continue;
+
+    const totalCost = costs?.get(chemical.chemicalId);
+
+    const chemicalData: ChemicalUsageData = {
+      chemicalId: chemical.chemicalId,
+      chemicalName: chemical.chemicalName,
+      chemicalType: chemical.chemicalType,
+      costPerGallon: totalCost !== undefined ? totalCost / totalUsageGallons : chemical.costPerGallon,
+      totalUsageGallons,
+      applications: chemical.applications.map((app) => ({
+        id: app.id,
+        gpm: app.gpm,
+        packages: app.packages.map((pkg) => ({
+          ...pkg,
+          carCount: cars.get(pkg.packageId) ?? 0,
+        })),
+      })),
+    };
+
+    allocations.push(calculateGpmWeightedCosts(chemicalData));
+  }
+
+  return mergePackageCostAllocations(allocations);
+}
+
+/**
+ * Per-package cost totals for a site and period
+ *
+ * WHY: Reports need the whole-period package table without the weekly
+ * trend the package cost chart builds
+ *
+ * BUSINESS LOGIC: Same allocation as /api/analytics/package-cost
+ */
+export async function getPackageCostSummary(
+  siteId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<PackageCostSummary> {
+  const [chemicals, entries, packageCounts, packages] = await Promise.all([
+    getSiteChemicalApplications(siteId),
+    getPricedUsageEntries(siteId, startDate, endDate),
+    prisma.carCountByPackage.findMany({
+      where: {
+        carCountLog: {
+          siteId,
+          logDate: { gte: toCountDate(startDate), lte: toCountDate(endDate) },
+        },
+      },
+      select: { washPackageId: true, carCount: true },
+    }),
+    prisma.washPackage.findMany({
+      where: { siteId, isActive: true },
+      orderBy: { displayOrder: 'asc' },
+    }),
+  ]);
+
+  const usageTotals = new Map<string, number>();
+  const costTotals = new Map<string, number>();
+  let totalChemicalCost = 0;
+  for (const entry of entries) {
+    const configId = entry.chemicalSiteConfigId;
+    totalChemicalCost += entry.cost;
+    usageTotals.set(configId, (usageTotals.get(configId) ?? 0) + entry.gallons);
+    costTotals.set(configId, (costTotals.get(configId) ?? 0) + entry.cost);
+  }
+
+  const carTotals = new Map<string, number>();
+  for (const count of packageCounts) {
+    carTotals.set(count.washPackageId, (carTotals.get(count.washPackageId) ?? 0) + count.carCount);
+  }
+
+  const allocations = allocatePackageCosts(chemicals, usageTotals, carTotals, costTotals);
+  const allocatedCost = allocations.reduce((sum, a) => sum + a.totalCost, 0);
+
+  return {
+    totalChemicalCost: Math.round(totalChemicalCost * 100) / 100,
+    allocatedCost: Math.round(allocatedCost * 100) / 100,
+    unallocatedCost: Math.round((totalChemicalCost - allocatedCost) * 100) / 100,
+    packages: packages.map((pkg: typeof packages[number]) => {
+      const allocation = allocations.find((a) => a.packageId === pkg.id);
+      return {
+        packageId: pkg.id,
+        packageName: pkg.name,
+        price: Number(pkg.singleWashPrice ?? 0),
+        carCount: carTotals.get(pkg.id) ?? 0,
+        totalCost: Math.round((allocation?.totalCost ?? 0) * 100) / 100,
+        costPerCar: Math.round((allocation?.costPerCar ?? 0) * 100) / 100,
+      };
+    }),
+  };
+}
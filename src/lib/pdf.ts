@@ -0,0 +1,298 @@
+// ===========================================
+// FILE: src/lib/pdf.ts
+// PURPOSE: Minimal server-side PDF report renderer (no external services)
+// PRD REFERENCE: PRD Section 7 - Analytics & Reporting
+// USED BY: Analytics export API
+// ===========================================
+
+/**
+ * Table column in a report section
+ */
+export interface PdfColumn {
+  header: string;
+  width: number; // Fraction of the printable width (columns should sum to 1)
+  align?: 'left' | 'right';
+}
+
+/**
+ * One block of a report
+ */
+export type PdfSection =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'keyValues'; items: Array<{ label: string; value: string }> }
+  | { type: 'table'; columns: PdfColumn[]; rows: string[][]; emptyText?: string };
+
+/**
+ * A complete report
+ */
+export interface PdfReport {
+  brand: string; // Printed top-left on every page (e.g. distributor company name)
+  title: string;
+  subtitle?: string;
+  footer?: string;
+  sections: PdfSection[];
+}
+
+// US Letter, points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 48;
+const PRINTABLE_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_TOP = PAGE_HEIGHT - MARGIN - 36; // Below the brand header
+const CONTENT_BOTTOM = MARGIN + 24; // Above the footer
+
+const BODY_SIZE = 9;
+const ROW_HEIGHT = 14;
+
+// Brand color (#F97316-ish orange) and greys as PDF RGB
+const BRAND_RGB = '0.976 0.451 0.086';
+const TEXT_RGB = '0.15 0.15 0.15';
+const MUTED_RGB = '0.45 0.45 0.45';
+const RULE_RGB = '0.85 0.85 0.85';
+
+/**
+ * Escape text for a PDF string literal
+ * NOTE: Standard fonts use WinAnsi, so characters outside Latin-1 are replaced
+ */
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+/**
+ * Approximate Helvetica text width
+ * WHY: Embedding font metrics isn't worth it for tabular reports; an
+ * average glyph width keeps columns from overflowing
+ */
+function estimateWidth(text: string, size: number, bold = false): number {
+  return text.length * size * (bold ? 0.56 : 0.52);
+}
+
+/**
+ * Truncate text to fit a width, with an ellipsis
+ */
+function fitText(text: string, width: number, size: number, bold = false): string {
+  if (estimateWidth(text, size, bold) <= width) {
+    return text;
+  }
+  const maxChars = Math.max(1, Math.floor(width / (size * (bold ? 0.56 : 0.52))) - 3);
+  return `${text.slice(0, maxChars)}...`;
+}
+
+/**
+ * Word-wrap text to a width
+ */
+function wrapText(text: string, width: number, size: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && estimateWidth(candidate, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Render a report to PDF bytes
+ *
+ * LAYOUT:
+ * - Brand name and title on every page, "Page n of N" footer
+ * - Tables paginate and repeat their header row on each new page
+ * - Helvetica / Helvetica-Bold (built into every PDF reader)
+ *
+ * @returns PDF file contents
+ */
+export function renderPdfReport(report: PdfReport): Buffer {
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = CONTENT_TOP;
+
+  const text = (
+    value: string,
+    x: number,
+    atY: number,
+    { size = BODY_SIZE, bold = false, rgb = TEXT_RGB }: { size?: number; bold?: boolean; rgb?: string } = {}
+  ) => {
+    ops.push(
+      `BT ${rgb} rg /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${atY.toFixed(2)} Td (${escapePdfText(value)}) Tj ET`
+    );
+  };
+
+  const rule = (atY: number, rgb = RULE_RGB) => {
+    ops.push(`${rgb} RG 0.5 w ${MARGIN} ${atY.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${atY.toFixed(2)} l S`);
+  };
+
+  const newPage = () => {
+    ops = [];
+    pages.push(ops);
+    text(report.brand, MARGIN, PAGE_HEIGHT - MARGIN, { size: 14, bold: true, rgb: BRAND_RGB });
+    const title = fitText(report.title, PRINTABLE_WIDTH / 2, 10, true);
+    text(title, PAGE_WIDTH - MARGIN - estimateWidth(title, 10, true), PAGE_HEIGHT - MARGIN, {
+      size: 10,
+      bold: true,
+    });
+    rule(PAGE_HEIGHT - MARGIN - 10, BRAND_RGB);
+    y = CONTENT_TOP;
+  };
+
+  /**
+   * Start a new page if `height` doesn't fit
+   * @returns true if a page break happened
+   */
+  const ensureSpace = (height: number): boolean => {
+    if (y - height < CONTENT_BOTTOM) {
+      newPage();
+      return true;
+    }
+    return false;
+  };
+
+  const tableRow = (columns: PdfColumn[], cells: string[], bold = false) => {
+    let x = MARGIN;
+    columns.forEach((column, index) => {
+      const width = column.width * PRINTABLE_WIDTH;
+      const cell = fitText(cells[index] ?? '', width - 6, BODY_SIZE, bold);
+      const cellX =
+        column.align === 'right' ? x + width - 4 - estimateWidth(cell, BODY_SIZE, bold) : x + 2;
+      text(cell, cellX, y, { bold });
+      x += width;
+    });
+    y -= ROW_HEIGHT;
+  };
+
+  newPage();
+
+  // Title block
+  text(report.title, MARGIN, y, { size: 18, bold: true });
+  y -= 22;
+  if (report.subtitle) {
+    text(report.subtitle, MARGIN, y, { size: 10, rgb: MUTED_RGB });
+    y -= 18;
+  }
+  y -= 6;
+
+  for (const section of report.sections) {
+    switch (section.type) {
+      case 'heading':
+        ensureSpace(40);
+        y -= 8;
+        text(section.text, MARGIN, y, { size: 12, bold: true });
+        y -= 6;
+        rule(y);
+        y -= 14;
+        break;
+
+      case 'paragraph':
+        for (const line of wrapText(section.text, PRINTABLE_WIDTH, BODY_SIZE)) {
+          ensureSpace(ROW_HEIGHT);
+          text(line, MARGIN, y, { rgb: MUTED_RGB });
+          y -= ROW_HEIGHT;
+        }
+        y -= 4;
+        break;
+
+      case 'keyValues':
+        for (const item of section.items) {
+          ensureSpace(ROW_HEIGHT);
+          text(item.label, MARGIN, y, { rgb: MUTED_RGB });
+          text(fitText(item.value, PRINTABLE_WIDTH * 0.65, BODY_SIZE, true), MARGIN + PRINTABLE_WIDTH * 0.35, y, {
+            bold: true,
+          });
+          y -= ROW_HEIGHT;
+        }
+        y -= 4;
+        break;
+
+      case 'table': {
+        const headers = section.columns.map((column) => column.header);
+        ensureSpace(ROW_HEIGHT * 2);
+        tableRow(section.columns, headers, true);
+        rule(y + ROW_HEIGHT - 4);
+
+        if (section.rows.length === 0) {
+          text(section.emptyText ?? 'No data for this period', MARGIN + 2, y, { rgb: MUTED_RGB });
+          y -= ROW_HEIGHT;
+        }
+
+        for (const row of section.rows) {
+          if (ensureSpace(ROW_HEIGHT)) {
+            tableRow(section.columns, headers, true);
+            rule(y + ROW_HEIGHT - 4);
+          }
+          tableRow(section.columns, row);
+        }
+        y -= 6;
+        break;
+      }
+    }
+  }
+
+  // Footers (page count is known now)
+  pages.forEach((pageOps, index) => {
+    ops = pageOps;
+    const pageLabel = `Page ${index + 1} of ${pages.length}`;
+    if (report.footer) {
+      text(fitText(report.footer, PRINTABLE_WIDTH * 0.7, 8), MARGIN, MARGIN, { size: 8, rgb: MUTED_RGB });
+    }
+    text(pageLabel, PAGE_WIDTH - MARGIN - estimateWidth(pageLabel, 8), MARGIN, { size: 8, rgb: MUTED_RGB });
+  });
+
+  return serializePdf(pages.map((pageOps) => pageOps.join('\n')));
+}
+
+/**
+ * Assemble page content streams into a PDF file
+ *
+ * OBJECTS: 1 catalog, 2 page tree, 3-4 fonts, then a page + content
+ * stream pair per page
+ */
+function serializePdf(contents: string[]): Buffer {
+  const objects: string[] = [];
+  const pageIds = contents.map((_, index) => 5 + index * 2);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${contents.length} >>`
+  );
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  contents.forEach((content, index) => {
+    const contentId = pageIds[index] + 1;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+    objects.push(
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    pdf += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
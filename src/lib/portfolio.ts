@@ -0,0 +1,369 @@
+// ===========================================
+// FILE: src/lib/portfolio.ts
+// PURPOSE: Distributor portfolio analytics (delivered vs consumed product)
+// PRD REFERENCE: PRD Section 7 - Analytics & Reporting
+// USED BY: Portfolio API, distributor analytics page
+// ===========================================
+
+import { prisma } from '@/lib/prisma';
+import { calculatePercentageChange } from '@/lib/analytics';
+import { getCostPerGallonOn, getPriceBook } from '@/lib/prices';
+import type { ChemicalType } from '@/types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Length of the recent and prior windows compared for movers and drops
+ * WHY: A quarter smooths out visit timing (a delivery landing just inside
+ * or outside a month) while still catching a lost client quickly
+ */
+export const MOVER_WINDOW_DAYS = 90;
+
+/**
+ * Number of top movers returned
+ */
+const TOP_MOVER_COUNT = 5;
+
+/**
+ * Gallons and their value
+ */
+export interface ProductTotals {
+  deliveredGallons: number;
+  deliveredValue: number;
+  consumedGallons: number;
+  consumedValue: number;
+}
+
+/**
+ * Portfolio analytics for a distributor
+ */
+export interface PortfolioAnalytics {
+  startDate: string;
+  endDate: string;
+  totals: ProductTotals;
+  byChemical: Array<ProductTotals & {
+    chemicalMasterId: string;
+    chemicalName: string;
+    chemicalType: ChemicalType;
+    clientCount: number;
+  }>;
+  byClient: Array<ProductTotals & {
+    organizationId: string;
+    organizationName: string;
+    organizationSlug: string;
+  }>;
+  monthly: Array<ProductTotals & { month: string }>; // month = YYYY-MM
+  topMovers: Array<{
+    chemicalMasterId: string;
+    chemicalName: string;
+    recentConsumedValue: number;
+    priorConsumedValue: number;
+    change: number; // Dollars
+    changePercent: number;
+  }>;
+  droppedClients: Array<{
+    organizationId: string;
+    organizationName: string;
+    organizationSlug: string;
+    recentConsumedGallons: number;
+    priorConsumedGallons: number;
+    changePercent: number;
+  }>;
+}
+
+/**
+ * Empty totals
+ */
+function emptyTotals(): ProductTotals {
+  return { deliveredGallons: 0, deliveredValue: 0, consumedGallons: 0, consumedValue: 0 };
+}
+
+/**
+ * Round every field of a totals object
+ */
+function roundTotals(totals: ProductTotals): ProductTotals {
+  return {
+    deliveredGallons: Math.round(totals.deliveredGallons * 100) / 100,
+    deliveredValue: Math.round(totals.deliveredValue * 100) / 100,
+    consumedGallons: Math.round(totals.consumedGallons * 100) / 100,
+    consumedValue: Math.round(totals.consumedValue * 100) / 100,
+  };
+}
+
+/**
+ * Delivered and consumed product across a distributor's clients
+ *
+ * BUSINESS LOGIC:
+ * - Delivered = deliveryGallons recorded on visit chemical entries plus
+ *   standalone deliveries (valued on their delivery date)
+ * - Consumed = daily usage rollups (calculated usage, see lib/rollups)
+ * - Both are valued at the client's price per gallon in effect on the
+ *   day (what the client pays for that product, see lib/prices)
+ * - Top movers compare consumption value in the last MOVER_WINDOW_DAYS
+ *   against the window before it, by chemical
+ * - Dropped clients consumed at least dropThreshold percent fewer gallons
+ *   in the recent window than the prior one (a likely competitor win)
+ *
+ * @param distributorId - Distributor whose clients to include
+ * @param options.organizationId - Limit to one client (optional)
+ * @param options.startDate - First day of the period (inclusive)
+ * @param options.endDate - Last day of the period (inclusive)
+ * @param options.dropThreshold - Percent drop that flags a client
+ */
+export async function getPortfolioAnalytics(
+  distributorId: string,
+  options: {
+    organizationId?: string;
+    startDate: Date;
+    endDate: Date;
+    dropThreshold: number;
+  }
+): Promise<PortfolioAnalytics> {
+  const { organizationId, startDate, endDate, dropThreshold } = options;
+
+  // Windows for movers / drops end at the period end
+  const recentStart = new Date(endDate.getTime() - (MOVER_WINDOW_DAYS - 1) * MS_PER_DAY);
+  const priorStart = new Date(recentStart.getTime() - MOVER_WINDOW_DAYS * MS_PER_DAY);
+  const queryStart = priorStart < startDate ? priorStart : startDate;
+
+  const clientWhere = {
+    distributorId,
+    ...(organizationId && { id: organizationId }),
+  };
+
+  const chemicalSiteConfigSelect = {
+    select: {
+      chemicalOrgConfigId: true,
+      chemicalOrgConfig: {
+        select: {
+          chemicalMaster: { select: { id: true, name: true, type: true } },
+        },
+      },
+    },
+  };
+
+  const [clients, usageRows, visitDeliveries, deliveries] = await Promise.all([
+    prisma.organization.findMany({
+      where: clientWhere,
+      select: { id: true, name: true, slug: true },
+      orderBy: { name: 'asc' },
+    }),
+    // Consumption from daily rollups (see lib/rollups)
+    prisma.dailyChemicalUsage.findMany({
+      where: {
+        usageDate: { gte: queryStart, lte: endDate },
+        usageGallons: { gt: 0 },
+        site: { organization: clientWhere },
+      },
+      select: {
+        usageDate: true,
+        usageGallons: true,
+        site: { select: { organizationId: true } },
+        chemicalSiteConfig: chemicalSiteConfigSelect,
+      },
+    }),
+    prisma.visitLogChemicalEntry.findMany({
+      where: {
+        deliveryGallons: { gt: 0 },
+        visitLog: {
+          visitDate: { gte: queryStart, lte: endDate },
+          site: { organization: clientWhere },
+        },
+      },
+      select: {
+        deliveryGallons: true,
+        visitLog: {
+          select: {
+            visitDate: true,
+            site: { select: { organizationId: true } },
+          },
+        },
+        chemicalSiteConfig: chemicalSiteConfigSelect,
+      },
+    }),
+    prisma.chemicalDelivery.findMany({
+      where: {
+        deliveryDate: { gte: queryStart, lte: endDate },
+        site: { organization: clientWhere },
+      },
+      select: {
+        gallons: true,
+        deliveryDate: true,
+        site: { select: { organizationId: true } },
+        chemicalSiteConfig: chemicalSiteConfigSelect,
+      },
+    }),
+  ]);
+
+  // One list of dated product movements: rollup days consume, visit
+  // entries and standalone deliveries deliver
+  const entries = [
+    ...usageRows.map((row: typeof usageRows[number]) => ({
+      date: row.usageDate,
+      organizationId: row.site.organizationId,
+      chemicalSiteConfig: row.chemicalSiteConfig,
+      delivered: 0,
+      consumed: Number(row.usageGallons),
+    })),
+    ...visitDeliveries.map((entry: typeof visitDeliveries[number]) => ({
+      date: entry.visitLog.visitDate,
+      organizationId: entry.visitLog.site.organizationId,
+      chemicalSiteConfig: entry.chemicalSiteConfig,
+      delivered: Number(entry.deliveryGallons || 0),
+      consumed: 0,
+    })),
+    ...deliveries.map((delivery: typeof deliveries[number]) => ({
+      date: delivery.deliveryDate,
+      organizationId: delivery.site.organizationId,
+      chemicalSiteConfig: delivery.chemicalSiteConfig,
+      delivered: Number(delivery.gallons),
+      consumed: 0,
+    })),
+  ];
+
+  const priceBook = await getPriceBook(
+    prisma,
+    entries.map((entry: typeof entries[number]) => entry.chemicalSiteConfig.chemicalOrgConfigId)
+  );
+
+  const totals = emptyTotals();
+  const byChemical = new Map<string, ProductTotals & {
+    chemicalName: string;
+    chemicalType: ChemicalType;
+    clients: Set<string>;
+  }>();
+  const byClient = new Map<string, ProductTotals>(
+    clients.map((client: typeof clients[number]) => [client.id, emptyTotals()])
+  );
+  const monthly = new Map<string, ProductTotals>();
+
+  // Consumption per window for movers and drops
+  const chemicalWindows = new Map<string, { name: string; recent: number; prior: number }>();
+  const clientWindows = new Map<string, { recent: number; prior: number }>();
+
+  for (const entry of entries) {
+    const orgConfig = entry.chemicalSiteConfig.chemicalOrgConfig;
+    const chemical = orgConfig.chemicalMaster;
+    const clientId = entry.organizationId;
+    const costPerGallon = getCostPerGallonOn(
+      priceBook,
+      entry.chemicalSiteConfig.chemicalOrgConfigId,
+      entry.date
+    );
+    const { delivered, consumed } = entry;
+
+    // Movers and drops use their own windows
+    if (entry.date >= priorStart) {
+      const window = entry.date >= recentStart ? 'recent' : 'prior';
+      const chemicalWindow = chemicalWindows.get(chemical.id) ?? { name: chemical.name, recent: 0, prior: 0 };
+      chemicalWindow[window] += consumed * costPerGallon;
+      chemicalWindows.set(chemical.id, chemicalWindow);
+
+      const clientWindow = clientWindows.get(clientId) ?? { recent: 0, prior: 0 };
+      clientWindow[window] += consumed;
+      clientWindows.set(clientId, clientWindow);
+    }
+
+    if (entry.date < startDate) continue;
+
+    const add = (target: ProductTotals) => {
+      target.deliveredGallons += delivered;
+      target.deliveredValue += delivered * costPerGallon;
+      target.consumedGallons += consumed;
+      target.consumedValue += consumed * costPerGallon;
+    };
+
+    add(totals);
+
+    let chemicalTotals = byChemical.get(chemical.id);
+    if (!chemicalTotals) {
+      chemicalTotals = {
+        ...emptyTotals(),
+        chemicalName: chemical.name,
+        chemicalType: chemical.type as ChemicalType,
+        clients: new Set(),
+      };
+      byChemical.set(chemical.id, chemicalTotals);
+    }
+    add(chemicalTotals);
+    chemicalTotals.clients.add(clientId);
+
+    const clientTotals = byClient.get(clientId);
+    if (clientTotals) add(clientTotals);
+
+    const month = entry.date.toISOString().slice(0, 7);
+    const monthTotals = monthly.get(month) ?? emptyTotals();
+    add(monthTotals);
+    monthly.set(month, monthTotals);
+  }
+
+  // Fill months without activity so trends don't skip
+  const months: string[] = [];
+  const cursor = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), 1));
+  while (cursor <= endDate) {
+    months.push(cursor.toISOString().slice(0, 7));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+
+  const topMovers = Array.from(chemicalWindows.entries())
+    .map(([chemicalMasterId, window]) => ({
+      chemicalMasterId,
+      chemicalName: window.name,
+      recentConsumedValue: Math.round(window.recent * 100) / 100,
+      priorConsumedValue: Math.round(window.prior * 100) / 100,
+      change: Math.round((window.recent - window.prior) * 100) / 100,
+      changePercent: Math.round(calculatePercentageChange(window.prior, window.recent) * 10) / 10,
+    }))
+    .filter((mover) => mover.change !== 0)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+    .slice(0, TOP_MOVER_COUNT);
+
+  const droppedClients = clients
+    .map((client: typeof clients[number]) => {
+      const window = clientWindows.get(client.id) ?? { recent: 0, prior: 0 };
+      return {
+        organizationId: client.id,
+        organizationName: client.name,
+        organizationSlug: client.slug,
+        recentConsumedGallons: Math.round(window.recent * 100) / 100,
+        priorConsumedGallons: Math.round(window.prior * 100) / 100,
+        changePercent: Math.round(calculatePercentageChange(window.prior, window.recent) * 10) / 10,
+      };
+    })
+    .filter(
+      (client: { priorConsumedGallons: number; changePercent: number }) =>
+        client.priorConsumedGallons > 0 && client.changePercent <= -dropThreshold
+    )
+    .sort(
+      (a: { changePercent: number }, b: { changePercent: number }) => a.changePercent - b.changePercent
+    );
+
+  return {
+    startDate: startDate.toISOString().split('T')[0],
+    endDate: endDate.toISOString().split('T')[0],
+    totals: roundTotals(totals),
+    byChemical: Array.from(byChemical.entries())
+      .map(([chemicalMasterId, chemical]) => ({
+        chemicalMasterId,
+        chemicalName: chemical.chemicalName,
+        chemicalType: chemical.chemicalType,
+        clientCount: chemical.clients.size,
+        ...roundTotals(chemical),
+      }))
+      .sort((a, b) => b.consumedValue - a.consumedValue),
+    byClient: clients
+      .map((client: typeof clients[number]) => ({
+        organizationId: client.id,
+        organizationName: client.name,
+        organizationSlug: client.slug,
+        ...roundTotals(byClient.get(client.id) ?? emptyTotals()),
+      }))
+      .sort((a: ProductTotals, b: ProductTotals) => b.consumedValue - a.consumedValue),
+    monthly: months.map((month) => ({
+      month,
+      ...roundTotals(monthly.get(month) ?? emptyTotals()),
+    })),
+    topMovers,
+    droppedClients,
+  };
+}
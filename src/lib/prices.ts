@@ -0,0 +1,279 @@
+// ===========================================
+// FILE: src/lib/prices.ts
+// PURPOSE: Effective-dated chemical pricing (price history and scheduled changes)
+// PRD REFERENCE: PRD Section 3.2 - Organization Chemical Configuration, PRD Section 7 - Analytics & Reporting
+// USED BY: Cost analytics, price change API routes and report
+// ===========================================
+
+import { PrismaTransactionClient } from '@/lib/prisma';
+import { sendEmail } from '@/lib/email';
+import { formatCurrency } from '@/lib/utils';
+import { getSiteToday } from '@/lib/timezone';
+
+/**
+ * A chemical's price
+ */
+export interface ChemicalPriceValues {
+  costPerContainer: number;
+  costPerGallon: number;
+}
+
+/**
+ * Every price an org chemical has had or is scheduled to have
+ *
+ * BUSINESS LOGIC:
+ * - opening: ChemicalOrgConfig's own price, in effect until the first change
+ * - changes: ChemicalPrice records in effective date order
+ */
+export interface PriceSchedule {
+  opening: ChemicalPriceValues;
+  changes: Array<ChemicalPriceValues & { effectiveDate: Date }>;
+}
+
+/**
+ * Price schedules keyed by ChemicalOrgConfig ID
+ */
+export type PriceBook = Map<string, PriceSchedule>;
+
+/**
+ * A price change with the price it replaced
+ */
+export interface PriceChangeReportRow {
+  id: string;
+  organizationId: string;
+  organizationName: string;
+  chemicalOrgConfigId: string;
+  chemicalName: string;
+  effectiveDate: Date;
+  previousCostPerGallon: number;
+  costPerGallon: number;
+  previousCostPerContainer: number;
+  costPerContainer: number;
+  changePercent: number | null; // Per gallon; null when the previous price was 0
+  note: string | null;
+  isScheduled: boolean; // Not yet in effect
+  clientNotifiedAt: Date | null;
+}
+
+/**
+ * Price in effect on a calendar date
+ *
+ * @param schedule - Schedule for one org chemical
+ * @param date - Calendar date (UTC midnight, e.g. a visit date)
+ *
+ * @example
+ * ```ts
+ * const schedule = {
+ *   opening: { costPerContainer: 500, costPerGallon: 10 },
+ *   changes: [{ effectiveDate: new Date('2026-11-01'), costPerContainer: 550, costPerGallon: 11 }],
+ * };
+ * getPriceOn(schedule, new Date('2026-10-31')).costPerGallon // 10
+ * getPriceOn(schedule, new Date('2026-11-01')).costPerGallon // 11
+ * ```
+ */
+export function getPriceOn(schedule: PriceSchedule, date: Date): ChemicalPriceValues {
+  let price: ChemicalPriceValues = schedule.opening;
+  for (const change of schedule.changes) {
+    if (change.effectiveDate > date) break;
+    price = change;
+  }
+  return { costPerContainer: price.costPerContainer, costPerGallon: price.costPerGallon };
+}
+
+/**
+ * Cost per gallon of an org chemical on a calendar date
+ *
+ * @returns 0 when the chemical isn't in the book
+ */
+export function getCostPerGallonOn(book: PriceBook, chemicalOrgConfigId: string, date: Date): number {
+  const schedule = book.get(chemicalOrgConfigId);
+  return schedule ? getPriceOn(schedule, date).costPerGallon : 0;
+}
+
+/**
+ * Load price schedules for org chemicals
+ *
+ * WHY: Usage has to be valued at the price in effect on the visit date, so
+ * a price increase today doesn't rewrite last year's cost-per-car.
+ *
+ * @param client - Prisma client or transaction client
+ * @param chemicalOrgConfigIds - Org chemicals to load (duplicates ignored)
+ */
+export async function getPriceBook(
+  client: PrismaTransactionClient,
+  chemicalOrgConfigIds: string[]
+): Promise<PriceBook> {
+  const ids = Array.from(new Set(chemicalOrgConfigIds));
+  if (ids.length === 0) {
+    return new Map();
+  }
+
+  const configs = await client.chemicalOrgConfig.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      costPerContainer: true,
+      costPerGallon: true,
+      prices: {
+        select: { effectiveDate: true, costPerContainer: true, costPerGallon: true },
+        orderBy: { effectiveDate: 'asc' },
+      },
+    },
+  });
+
+  return new Map(
+    configs.map((config: typeof configs[number]) => [
+      config.id,
+      {
+        opening: {
+          costPerContainer: Number(config.costPerContainer || 0),
+          costPerGallon: Number(config.costPerGallon || 0),
+        },
+        changes: config.prices.map((price: typeof config.prices[number]) => ({
+          effectiveDate: price.effectiveDate,
+          costPerContainer: Number(price.costPerContainer),
+          costPerGallon: Number(price.costPerGallon),
+        })),
+      },
+    ])
+  );
+}
+
+/**
+ * Price changes for organizations, with the price each one replaced
+ *
+ * @param client - Prisma client or transaction client
+ * @param organizationIds - Clients to include
+ * @param startDate - First effective date (inclusive)
+ * @param endDate - Last effective date (inclusive)
+ * @returns Changes, newest effective date first (scheduled = after today in the client's zone)
+ */
+export async function getPriceChangeReport(
+  client: PrismaTransactionClient,
+  organizationIds: string[],
+  startDate: Date,
+  endDate: Date
+): Promise<PriceChangeReportRow[]> {
+  if (organizationIds.length === 0) {
+    return [];
+  }
+
+  const changes = await client.chemicalPrice.findMany({
+    where: {
+      effectiveDate: { gte: startDate, lte: endDate },
+      chemicalOrgConfig: { organizationId: { in: organizationIds } },
+    },
+    select: {
+      id: true,
+      chemicalOrgConfigId: true,
+      effectiveDate: true,
+      costPerContainer: true,
+      costPerGallon: true,
+      note: true,
+      clientNotifiedAt: true,
+      chemicalOrgConfig: {
+        select: {
+          organization: { select: { id: true, name: true, timezone: true } },
+          chemicalMaster: { select: { name: true } },
+        },
+      },
+    },
+    orderBy: { effectiveDate: 'desc' },
+  });
+
+  const book = await getPriceBook(
+    client,
+    changes.map((change: typeof changes[number]) => change.chemicalOrgConfigId)
+  );
+
+  return changes.map((change: typeof changes[number]) => {
+    const schedule = book.get(change.chemicalOrgConfigId)!;
+    const previous = getPriceOn(schedule, new Date(change.effectiveDate.getTime() - 1));
+    const costPerGallon = Number(change.costPerGallon);
+    const today = getSiteToday(change.chemicalOrgConfig.organization.timezone);
+
+    return {
+      id: change.id,
+      organizationId: change.chemicalOrgConfig.organization.id,
+      organizationName: change.chemicalOrgConfig.organization.name,
+      chemicalOrgConfigId: change.chemicalOrgConfigId,
+      chemicalName: change.chemicalOrgConfig.chemicalMaster.name,
+      effectiveDate: change.effectiveDate,
+      previousCostPerGallon: previous.costPerGallon,
+      costPerGallon,
+      previousCostPerContainer: previous.costPerContainer,
+      costPerContainer: Number(change.costPerContainer),
+      changePercent:
+        previous.costPerGallon > 0
+          ? Math.round(((costPerGallon - previous.costPerGallon) / previous.costPerGallon) * 1000) / 10
+          : null,
+      note: change.note,
+      isScheduled: change.effectiveDate > today,
+      clientNotifiedAt: change.clientNotifiedAt,
+    };
+  });
+}
+
+/**
+ * Email a client about a price change
+ *
+ * BUSINESS LOGIC:
+ * - Goes to the organization's contact email and its active org admins
+ * - Nothing is sent if the organization has no addresses on file
+ *
+ * @returns Number of recipients
+ */
+export async function sendPriceChangeEmail(
+  client: PrismaTransactionClient,
+  params: {
+    organizationId: string;
+    distributorName: string;
+    chemicalName: string;
+    effectiveDate: Date;
+    previous: ChemicalPriceValues;
+    next: ChemicalPriceValues;
+    note?: string | null;
+  }
+): Promise<number> {
+  const { organizationId, distributorName, chemicalName, effectiveDate, previous, next, note } = params;
+
+  const organization = await client.organization.findUnique({
+    where: { id: organizationId },
+    select: {
+      name: true,
+      contactEmail: true,
+      users: {
+        where: { role: 'ORG_ADMIN', isActive: true, email: { not: null } },
+        select: { email: true },
+      },
+    },
+  });
+
+  if (!organization) {
+    return 0;
+  }
+
+  const recipients = new Set<string>();
+  if (organization.contactEmail) recipients.add(organization.contactEmail);
+  for (const user of organization.users) {
+    if (user.email) recipients.add(user.email);
+  }
+
+  const effective = effectiveDate.toISOString().split('T')[0];
+  for (const to of recipients) {
+    await sendEmail({
+      to,
+      subject: `${chemicalName} price change effective ${effective}`,
+      text: [
+        `${distributorName} is changing the price of ${chemicalName} for ${organization.name}.`,
+        '',
+        `Effective ${effective}:`,
+        `  Per gallon: ${formatCurrency(previous.costPerGallon)} → ${formatCurrency(next.costPerGallon)}`,
+        `  Per container: ${formatCurrency(previous.costPerContainer)} → ${formatCurrency(next.costPerContainer)}`,
+        ...(note ? ['', note] : []),
+      ].join('\n'),
+    });
+  }
+
+  return recipients.size;
+}
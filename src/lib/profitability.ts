@@ -0,0 +1,288 @@
+// ===========================================
+// FILE: src/lib/profitability.ts
+// PURPOSE: Package profitability (chemical cost vs. wash and membership prices)
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// USED BY: Package profitability API route
+// ===========================================
+
+import { prisma } from '@/lib/prisma';
+import { getPeriodStart } from '@/lib/analytics';
+import { toCountDate } from '@/lib/carCounts';
+import {
+  allocatePackageCosts,
+  getPricedUsageEntries,
+  getSiteChemicalApplications,
+} from '@/lib/packageCost';
+
+/**
+ * Chemical share of revenue (%) above which a package is flagged
+ */
+export const DEFAULT_CHEMICAL_SHARE_THRESHOLD = 10;
+
+/**
+ * Washes an average member takes per month
+ *
+ * WHY: membershipPrice is a monthly fee, not a ticket price. Dividing it
+ * by typical washes per month gives the revenue behind one member wash.
+ */
+export const DEFAULT_MEMBER_WASHES_PER_MONTH = 4;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const AVERAGE_DAYS_PER_MONTH = 30.44;
+
+/**
+ * Revenue, chemical cost and margin for a set of cars
+ */
+export interface ProfitabilityFigures {
+  cars: number;
+  retailCars: number;
+  membershipCars: number;
+  revenue: number;
+  chemicalCost: number;
+  margin: number;
+  chemicalSharePercent: number | null; // null when there is no revenue
+}
+
+/**
+ * Profitability of one wash package over a period
+ */
+export interface PackageProfitability extends ProfitabilityFigures {
+  packageId: string;
+  packageName: string;
+  singleWashPrice: number | null;
+  membershipPrice: number | null; // Per month
+  membershipRevenuePerWash: number | null;
+  chemicalCostPerCar: number;
+  revenuePerCar: number;
+  marginPerCar: number;
+  retailChemicalSharePercent: number | null; // Cost per car vs. single wash price
+  membershipChemicalSharePercent: number | null; // Cost per car vs. revenue per member wash
+  averageMonthlyMargin: number;
+  isFlagged: boolean; // Chemical share above the threshold
+  months: Array<{ periodStart: string } & ProfitabilityFigures>;
+}
+
+/**
+ * Package profitability for a site
+ */
+export interface SiteProfitability {
+  chemicalShareThreshold: number;
+  memberWashesPerMonth: number;
+  totals: ProfitabilityFigures & { unallocatedCost: number };
+  packages: PackageProfitability[];
+}
+
+/**
+ * Round to cents
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Chemical cost as a percentage of revenue, to one decimal
+ */
+function sharePercent(cost: number, revenue: number): number | null {
+  return revenue > 0 ? Math.round((cost / revenue) * 1000) / 10 : null;
+}
+
+/**
+ * Build figures for a package's cars and allocated chemical cost
+ */
+function buildFigures(
+  cars: { total: number; membership: number },
+  chemicalCost: number,
+  prices: { retail: number; perMemberWash: number }
+): ProfitabilityFigures {
+  const retailCars = cars.total - cars.membership;
+  const revenue = retailCars * prices.retail + cars.membership * prices.perMemberWash;
+
+  return {
+    cars: cars.total,
+    retailCars,
+    membershipCars: cars.membership,
+    revenue: round2(revenue),
+    chemicalCost: round2(chemicalCost),
+    margin: round2(revenue - chemicalCost),
+    chemicalSharePercent: sharePercent(chemicalCost, revenue),
+  };
+}
+
+/**
+ * Compare each package's chemical cost with what its cars bring in
+ *
+ * WHY: Operators price packages without knowing what the chemistry in
+ * them costs. Chemical cost as a share of the ticket shows which packages
+ * are underpriced (or over-applied).
+ *
+ * BUSINESS LOGIC:
+ * - Chemical cost per package is the GPM-weighted allocation used by the
+ *   package cost report, priced on each visit date
+ * - Retail cars earn the single wash price; member cars earn the monthly
+ *   membership price divided by memberWashesPerMonth
+ * - Packages without a price earn nothing, so their share is null (not flagged)
+ * - Monthly figures are allocated within each calendar month, like the
+ *   package cost trend, so they needn't add up to the period exactly
+ *
+ * @param siteId - Site to analyze
+ * @param startDate - First calendar date (inclusive)
+ * @param endDate - Last calendar date (inclusive)
+ * @param options - Flag threshold (%) and member washes per month
+ */
+export async function getSiteProfitability(
+  siteId: string,
+  startDate: Date,
+  endDate: Date,
+  options: { chemicalShareThreshold?: number; memberWashesPerMonth?: number } = {}
+): Promise<SiteProfitability> {
+  const {
+    chemicalShareThreshold = DEFAULT_CHEMICAL_SHARE_THRESHOLD,
+    memberWashesPerMonth = DEFAULT_MEMBER_WASHES_PER_MONTH,
+  } = options;
+
+  const [chemicals, entries, packageCounts, packages] = await Promise.all([
+    getSiteChemicalApplications(siteId),
+    getPricedUsageEntries(siteId, startDate, endDate),
+    prisma.carCountByPackage.findMany({
+      where: {
+        carCountLog: {
+          siteId,
+          logDate: { gte: toCountDate(startDate), lte: toCountDate(endDate) },
+        },
+      },
+      select: {
+        washPackageId: true,
+        carCount: true,
+        membershipCars: true,
+        carCountLog: { select: { logDate: true } },
+      },
+    }),
+    prisma.washPackage.findMany({
+      where: { siteId, isActive: true },
+      orderBy: { displayOrder: 'asc' },
+    }),
+  ]);
+
+  /**
+   * Bucket usage and cars for the period and by month
+   */
+  type Bucket = {
+    usage: Map<string, number>;
+    costs: Map<string, number>;
+    cars: Map<string, number>;
+    membershipCars: Map<string, number>;
+  };
+  const newBucket = (): Bucket => ({
+    usage: new Map(),
+    costs: new Map(),
+    cars: new Map(),
+    membershipCars: new Map(),
+  });
+  const add = (map: Map<string, number>, key: string, value: number) =>
+    map.set(key, (map.get(key) ?? 0) + value);
+
+  const period = newBucket();
+  const months = new Map<string, Bucket>();
+  const getMonth = (date: Date) => {
+    const key = getPeriodStart(date, 'month').toISOString();
+    let month = months.get(key);
+    if (!month) {
+      month = newBucket();
+      months.set(key, month);
+    }
+    return month;
+  };
+
+  let totalChemicalCost = 0;
+  for (const entry of entries) {
+    totalChemicalCost += entry.cost;
+    for (const bucket of [period, getMonth(entry.visitDate)]) {
+      add(bucket.usage, entry.chemicalSiteConfigId, entry.gallons);
+      add(bucket.costs, entry.chemicalSiteConfigId, entry.cost);
+    }
+  }
+
+  for (const count of packageCounts) {
+    for (const bucket of [period, getMonth(count.carCountLog.logDate)]) {
+      add(bucket.cars, count.washPackageId, count.carCount);
+      add(bucket.membershipCars, count.washPackageId, count.membershipCars);
+    }
+  }
+
+  const allocate = (bucket: Bucket) =>
+    allocatePackageCosts(chemicals, bucket.usage, bucket.cars, bucket.costs);
+  const periodAllocations = allocate(period);
+  const monthAllocations = Array.from(months.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([periodStart, bucket]) => ({ periodStart, bucket, allocations: allocate(bucket) }));
+
+  const periodMonths =
+    (Math.round((toCountDate(endDate).getTime() - toCountDate(startDate).getTime()) / MS_PER_DAY) + 1) /
+    AVERAGE_DAYS_PER_MONTH;
+
+  const results: PackageProfitability[] = packages.map((pkg: typeof packages[number]) => {
+    const singleWashPrice = pkg.singleWashPrice !== null ? Number(pkg.singleWashPrice) : null;
+    const membershipPrice = pkg.membershipPrice !== null ? Number(pkg.membershipPrice) : null;
+    const membershipRevenuePerWash =
+      membershipPrice !== null ? membershipPrice / memberWashesPerMonth : null;
+    const prices = { retail: singleWashPrice ?? 0, perMemberWash: membershipRevenuePerWash ?? 0 };
+
+    const allocatedCost = (allocations: typeof periodAllocations) =>
+      allocations.find((a) => a.packageId === pkg.id)?.totalCost ?? 0;
+    const carsIn = (bucket: Bucket) => ({
+      total: bucket.cars.get(pkg.id) ?? 0,
+      membership: bucket.membershipCars.get(pkg.id) ?? 0,
+    });
+
+    const figures = buildFigures(carsIn(period), allocatedCost(periodAllocations), prices);
+    const chemicalCostPerCar = figures.cars > 0 ? figures.chemicalCost / figures.cars : 0;
+    const revenuePerCar = figures.cars > 0 ? figures.revenue / figures.cars : 0;
+
+    return {
+      packageId: pkg.id,
+      packageName: pkg.name,
+      singleWashPrice,
+      membershipPrice,
+      membershipRevenuePerWash:
+        membershipRevenuePerWash !== null ? round2(membershipRevenuePerWash) : null,
+      ...figures,
+      chemicalCostPerCar: round2(chemicalCostPerCar),
+      revenuePerCar: round2(revenuePerCar),
+      marginPerCar: round2(revenuePerCar - chemicalCostPerCar),
+      retailChemicalSharePercent:
+        singleWashPrice !== null ? sharePercent(chemicalCostPerCar, singleWashPrice) : null,
+      membershipChemicalSharePercent:
+        membershipRevenuePerWash !== null
+          ? sharePercent(chemicalCostPerCar, membershipRevenuePerWash)
+          : null,
+      averageMonthlyMargin: periodMonths > 0 ? round2(figures.margin / periodMonths) : 0,
+      isFlagged:
+        figures.chemicalSharePercent !== null && figures.chemicalSharePercent > chemicalShareThreshold,
+      months: monthAllocations.map(({ periodStart, bucket, allocations }) => ({
+        periodStart,
+        ...buildFigures(carsIn(bucket), allocatedCost(allocations), prices),
+      })),
+    };
+  });
+
+  const sum = (key: 'cars' | 'retailCars' | 'membershipCars' | 'revenue' | 'chemicalCost') =>
+    results.reduce((total, pkg) => total + pkg[key], 0);
+  const revenue = round2(sum('revenue'));
+  const chemicalCost = round2(sum('chemicalCost'));
+
+  return {
+    chemicalShareThreshold,
+    memberWashesPerMonth,
+    totals: {
+      cars: sum('cars'),
+      retailCars: sum('retailCars'),
+      membershipCars: sum('membershipCars'),
+      revenue,
+      chemicalCost,
+      margin: round2(revenue - chemicalCost),
+      chemicalSharePercent: sharePercent(chemicalCost, revenue),
+      unallocatedCost: round2(totalChemicalCost - chemicalCost),
+    },
+    packages: results,
+  };
+}
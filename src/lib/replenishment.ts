@@ -0,0 +1,563 @@
+// ===========================================
+// FILE: src/lib/replenishment.ts
+// PURPOSE: Reorder suggestions and the replenishment order queue
+// PRD REFERENCE: PRD Section 7.6 - Inventory Alerts, PRD Section 8 - Visit Scheduling
+// USED BY: Order API routes, visit and schedule API routes, chemical entry form
+// ===========================================
+
+import type { Prisma } from '@prisma/client';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { getInventoryForecasts } from '@/lib/forecast';
+import { getBackstockContainerGallons } from '@/lib/containers';
+import { getSiteToday, resolveSiteTimeZone } from '@/lib/timezone';
+import type { ContainerType } from '@/types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Days a delivery must last when there is no visit after the next one
+ * WHY: Matches the default visit reminder interval for a site
+ */
+export const DEFAULT_VISIT_INTERVAL_DAYS = 14;
+
+/**
+ * Proposed quantity for one chemical at a site's next visit
+ */
+export interface ReorderSuggestion {
+  chemicalSiteConfigId: string;
+  chemicalName: string;
+  containerType: ContainerType;
+  containerGallons: number;
+  averageDailyUsage: number;
+  estimatedOnHand: number; // Today
+  projectedOnHandGallons: number; // At the next visit, before delivery
+  requiredGallons: number; // To last until the following visit, above the alert threshold
+  suggestedContainers: number;
+}
+
+/**
+ * Reorder suggestions for a site's next scheduled visit
+ */
+export interface ReplenishmentPlan {
+  siteId: string;
+  scheduledVisitId: string;
+  visitDate: Date;
+  coverUntil: Date; // The visit after next (or the usual interval past it)
+  suggestions: ReorderSuggestion[]; // Only chemicals that need a delivery
+}
+
+/**
+ * A delivered order line not yet recorded on a chemical entry or as a
+ * standalone delivery
+ */
+export interface PendingDelivery {
+  chemicalSiteConfigId: string;
+  deliveryCount: number; // Containers
+  deliveryGallons: number;
+  deliveredAt: string | null;
+}
+
+/**
+ * Round to 2 decimals (matches Decimal(8, 2) columns)
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Whole calendar days between two dates
+ */
+function daysBetween(from: Date, to: Date): number {
+  return Math.max(0, Math.round((to.getTime() - from.getTime()) / MS_PER_DAY));
+}
+
+/**
+ * Work out what each site needs at its next scheduled visit
+ *
+ * WHY: Reps size deliveries by hand after every visit. The forecast
+ * already knows each chemical's burn rate and what's left.
+ *
+ * BUSINESS LOGIC:
+ * - On hand at the visit = today's estimate less burn rate × days to the visit
+ * - A delivery must last until the visit after (or the interval since the
+ *   last visit, DEFAULT_VISIT_INTERVAL_DAYS without one) and still leave
+ *   the chemical's alert threshold in stock
+ * - Shortfall is rounded up to whole backstock containers
+ * - Chemicals with no burn rate, or whose backstock container size is
+ *   unknown (custom tanks without a size), get no suggestion
+ * - Sites without a scheduled visit get no plan
+ *
+ * @param siteIds - Sites to plan
+ * @param now - Current instant (default now)
+ */
+export async function getReplenishmentPlans(
+  siteIds: string[],
+  now: Date = new Date()
+): Promise<ReplenishmentPlan[]> {
+  if (siteIds.length === 0) {
+    return [];
+  }
+
+  const [sites, forecasts] = await Promise.all([
+    prisma.site.findMany({
+      where: { id: { in: siteIds }, isActive: true },
+      select: {
+        id: true,
+        timezone: true,
+        organization: { select: { timezone: true } },
+        visitLogs: {
+          orderBy: { visitDate: 'desc' },
+          take: 1,
+          select: { visitDate: true },
+        },
+        scheduledVisits: {
+          where: { status: 'SCHEDULED', scheduledDate: { gte: new Date(now.getTime() - MS_PER_DAY) } },
+          orderBy: { scheduledDate: 'asc' },
+          take: 3,
+          select: { id: true, scheduledDate: true },
+        },
+        chemicalConfigs: {
+          where: { isActive: true },
+          select: {
+            id: true,
+            alertThresholdGallons: true,
+            chemicalOrgConfig: {
+              select: {
+                backstockContainer: true,
+                primaryContainer: true,
+                primaryContainerSizeGallons: true,
+                chemicalMaster: { select: { name: true } },
+              },
+            },
+          },
+        },
+      },
+    }),
+    getInventoryForecasts(siteIds, now),
+  ]);
+
+  const forecastsById = new Map(forecasts.map((forecast) => [forecast.chemicalId, forecast]));
+  const plans: ReplenishmentPlan[] = [];
+
+  for (const site of sites) {
+    const today = getSiteToday(resolveSiteTimeZone(site), now);
+    const upcoming = site.scheduledVisits.filter(
+      (visit: { scheduledDate: Date }) => visit.scheduledDate >= today
+    );
+    const nextVisit = upcoming[0];
+    if (!nextVisit) continue;
+
+    const lastVisitDate = site.visitLogs[0]?.visitDate;
+    const interval =
+      lastVisitDate && nextVisit.scheduledDate > lastVisitDate
+        ? daysBetween(lastVisitDate, nextVisit.scheduledDate)
+        : DEFAULT_VISIT_INTERVAL_DAYS;
+    const coverUntil =
+      upcoming[1]?.scheduledDate ?? new Date(nextVisit.scheduledDate.getTime() + interval * MS_PER_DAY);
+
+    const daysToVisit = daysBetween(today, nextVisit.scheduledDate);
+    const daysToCover = daysBetween(nextVisit.scheduledDate, coverUntil);
+
+    const suggestions: ReorderSuggestion[] = [];
+    for (const config of site.chemicalConfigs) {
+      const forecast = forecastsById.get(config.id);
+      if (!forecast || forecast.averageDailyUsage <= 0) continue;
+
+      const orgConfig = config.chemicalOrgConfig;
+      const containerType = orgConfig.backstockContainer as ContainerType;
+      const containerGallons = getBackstockContainerGallons(orgConfig);
+      if (!containerGallons) continue;
+
+      const projectedOnHand = Math.max(
+        0,
+        forecast.estimatedOnHand - forecast.averageDailyUsage * daysToVisit
+      );
+      const requiredGallons =
+        forecast.averageDailyUsage * daysToCover + Number(config.alertThresholdGallons ?? 0);
+      const shortfall = requiredGallons - projectedOnHand;
+      if (shortfall <= 0) continue;
+
+      suggestions.push({
+        chemicalSiteConfigId: config.id,
+        chemicalName: orgConfig.chemicalMaster.name,
+        containerType,
+        containerGallons,
+        averageDailyUsage: forecast.averageDailyUsage,
+        estimatedOnHand: forecast.estimatedOnHand,
+        projectedOnHandGallons: round2(projectedOnHand),
+        requiredGallons: round2(requiredGallons),
+        suggestedContainers: Math.ceil(shortfall / containerGallons),
+      });
+    }
+
+    suggestions.sort((a, b) => a.chemicalName.localeCompare(b.chemicalName));
+    plans.push({
+      siteId: site.id,
+      scheduledVisitId: nextVisit.id,
+      visitDate: nextVisit.scheduledDate,
+      coverUntil,
+      suggestions,
+    });
+  }
+
+  return plans;
+}
+
+/**
+ * Bring proposed orders in line with the latest suggestions
+ *
+ * WHY: Each visit changes on-hand figures and burn rates, so the proposal
+ * for the next visit is redone rather than kept from when it was first made.
+ *
+ * BUSINESS LOGIC:
+ * - One proposal per site, for its next scheduled visit
+ * - Sites with an approved or delivered order for that visit are left alone
+ * - Unedited proposals are replaced; hand-edited ones keep their
+ *   quantities and have the suggestions updated, and chemicals newly
+ *   suggested are added as lines (at the suggested quantity)
+ * - Unedited proposals for other visits (completed, cancelled or moved)
+ *   are removed, as are unedited proposals with nothing to order
+ *
+ * @param siteIds - Sites to refresh
+ * @returns Number of proposals created or updated
+ */
+export async function refreshProposedOrders(siteIds: string[]): Promise<number> {
+  const plans = await getReplenishmentPlans(siteIds);
+  const planBySite = new Map(plans.map((plan) => [plan.siteId, plan]));
+  let changed = 0;
+
+  await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+    const openOrders = await tx.replenishmentOrder.findMany({
+      where: { siteId: { in: siteIds }, status: { in: ['PROPOSED', 'APPROVED', 'DELIVERED'] } },
+      include: { lines: true },
+    });
+
+    for (const siteId of siteIds) {
+      const plan = planBySite.get(siteId);
+      const siteOrders = openOrders.filter(
+        (order: typeof openOrders[number]) => order.siteId === siteId
+      );
+
+      // Drop unedited proposals that no longer match the next visit
+      const stale = siteOrders.filter(
+        (order: typeof openOrders[number]) =>
+          order.status === 'PROPOSED' &&
+          !order.isEdited &&
+          order.scheduledVisitId !== plan?.scheduledVisitId
+      );
+      if (stale.length > 0) {
+        await tx.replenishmentOrder.deleteMany({
+          where: { id: { in: stale.map((order: typeof openOrders[number]) => order.id) } },
+        });
+      }
+
+      if (!plan) continue;
+
+      const forVisit = siteOrders.filter(
+        (order: typeof openOrders[number]) => order.scheduledVisitId === plan.scheduledVisitId
+      );
+      if (forVisit.some((order: typeof openOrders[number]) => order.status !== 'PROPOSED')) {
+        continue;
+      }
+
+      const proposal = forVisit[0];
+      const lineData = plan.suggestions.map((suggestion) => ({
+        chemicalSiteConfigId: suggestion.chemicalSiteConfigId,
+        containerType: suggestion.containerType,
+        containerGallons: suggestion.containerGallons,
+        suggestedContainers: suggestion.suggestedContainers,
+        quantity: suggestion.suggestedContainers,
+        projectedOnHandGallons: suggestion.projectedOnHandGallons,
+        averageDailyUsage: suggestion.averageDailyUsage,
+      }));
+
+      if (proposal?.isEdited) {
+        for (const line of proposal.lines) {
+          const suggestion = plan.suggestions.find(
+            (s) => s.chemicalSiteConfigId === line.chemicalSiteConfigId
+          );
+          await tx.replenishmentOrderLine.update({
+            where: { id: line.id },
+            data: {
+              suggestedContainers: suggestion?.suggestedContainers ?? 0,
+              ...(suggestion && {
+                projectedOnHandGallons: suggestion.projectedOnHandGallons,
+                averageDailyUsage: suggestion.averageDailyUsage,
+              }),
+            },
+          });
+        }
+
+        // Chemicals that need ordering since the proposal was edited
+        const added = lineData.filter(
+          (line) =>
+            !proposal.lines.some(
+              (existing: typeof proposal.lines[number]) =>
+                existing.chemicalSiteConfigId === line.chemicalSiteConfigId
+            )
+        );
+        if (added.length > 0) {
+          await tx.replenishmentOrderLine.createMany({
+            data: added.map((line) => ({ ...line, orderId: proposal.id })),
+          });
+        }
+        changed++;
+        continue;
+      }
+
+      if (proposal) {
+        await tx.replenishmentOrder.delete({ where: { id: proposal.id } });
+      }
+      if (lineData.length === 0) continue;
+
+      await tx.replenishmentOrder.create({
+        data: {
+          siteId,
+          scheduledVisitId: plan.scheduledVisitId,
+          deliverBy: plan.visitDate,
+          lines: { create: lineData },
+        },
+      });
+      changed++;
+    }
+  });
+
+  return changed;
+}
+
+/**
+ * Refresh proposals without failing the caller
+ * WHY: Visits and schedules must save even if the proposal can't be redone;
+ * the queue can be refreshed by hand
+ */
+export async function refreshProposedOrdersSafely(siteIds: string[]): Promise<void> {
+  try {
+    await refreshProposedOrders(siteIds);
+  } catch (error) {
+    console.error('Error refreshing replenishment proposals:', error);
+  }
+}
+
+/**
+ * Delivered order lines a site hasn't recorded on a chemical entry or as a
+ * standalone delivery yet
+ *
+ * WHY: Pre-fills the delivery fields on the next chemical entry, so the
+ * tech confirms what arrived instead of re-keying it.
+ *
+ * @param client - Prisma client or transaction client
+ * @param siteId - Site
+ * @returns Deliveries summed per site chemical
+ */
+export async function getPendingDeliveries(
+  client: PrismaTransactionClient,
+  siteId: string
+): Promise<PendingDelivery[]> {
+  const lines = await client.replenishmentOrderLine.findMany({
+    where: {
+      visitLogEntryId: null,
+      chemicalDeliveryId: null,
+      quantity: { gt: 0 },
+      order: { siteId, status: 'DELIVERED' },
+    },
+    include: { order: { select: { deliveredAt: true } } },
+  });
+
+  const byChemical = new Map<string, PendingDelivery>();
+  for (const line of lines) {
+    const pending = byChemical.get(line.chemicalSiteConfigId) ?? {
+      chemicalSiteConfigId: line.chemicalSiteConfigId,
+      deliveryCount: 0,
+      deliveryGallons: 0,
+      deliveredAt: null,
+    };
+    pending.deliveryCount += line.quantity;
+    pending.deliveryGallons = round2(
+      pending.deliveryGallons + line.quantity * Number(line.containerGallons)
+    );
+    const deliveredAt = line.order.deliveredAt?.toISOString() ?? null;
+    if (deliveredAt && (!pending.deliveredAt || deliveredAt > pending.deliveredAt)) {
+      pending.deliveredAt = deliveredAt;
+    }
+    byChemical.set(line.chemicalSiteConfigId, pending);
+  }
+
+  return Array.from(byChemical.values());
+}
+
+/**
+ * Pending delivered lines for a chemical that fit within a recorded delivery
+ *
+ * WHY: Two orders can be delivered before the next visit. A delivery that
+ * only covers one of them must leave the other pending.
+ *
+ * BUSINESS LOGIC:
+ * - Lines are taken oldest delivery first
+ * - A line is taken only if its gallons fit in what is left of the
+ *   delivery (within rounding); lines that don't fit stay pending
+ *
+ * @param tx - Transaction client
+ * @param chemicalSiteConfigId - Site chemical delivered
+ * @param deliveredGallons - Gallons recorded as delivered
+ * @returns IDs of the lines the delivery covers
+ */
+async function matchPendingLines(
+  tx: PrismaTransactionClient,
+  chemicalSiteConfigId: string,
+  deliveredGallons: number
+): Promise<string[]> {
+  const lines = await tx.replenishmentOrderLine.findMany({
+    where: {
+      chemicalSiteConfigId,
+      visitLogEntryId: null,
+      chemicalDeliveryId: null,
+      quantity: { gt: 0 },
+      order: { status: 'DELIVERED' },
+    },
+    select: { id: true, quantity: true, containerGallons: true },
+    orderBy: [{ order: { deliveredAt: 'asc' } }, { id: 'asc' }],
+  });
+
+  let remaining = deliveredGallons;
+  const matched: string[] = [];
+  for (const line of lines) {
+    const lineGallons = line.quantity * Number(line.containerGallons);
+    if (lineGallons > remaining + 0.01) continue;
+
+    matched.push(line.id);
+    remaining -= lineGallons;
+  }
+
+  return matched;
+}
+
+/**
+ * Mark delivered order lines as recorded by new chemical entries
+ *
+ * BUSINESS LOGIC:
+ * - Only entries with a delivery received consume pending lines
+ * - Lines are linked up to the gallons the entry received (see
+ *   matchPendingLines), so they aren't pre-filled again; the rest stay
+ *   pending for the next entry
+ *
+ * @param tx - Transaction client
+ * @param entries - Newly created chemical entries
+ */
+export async function linkDeliveredOrderLines(
+  tx: PrismaTransactionClient,
+  entries: Array<{
+    id: string;
+    chemicalSiteConfigId: string;
+    deliveryReceived: boolean;
+    deliveryGallons: unknown;
+  }>
+): Promise<void> {
+  for (const entry of entries) {
+    if (!entry.deliveryReceived) continue;
+
+    const lineIds = await matchPendingLines(
+      tx,
+      entry.chemicalSiteConfigId,
+      Number(entry.deliveryGallons ?? 0)
+    );
+    if (lineIds.length === 0) continue;
+
+    await tx.replenishmentOrderLine.updateMany({
+      where: { id: { in: lineIds }, visitLogEntryId: null, chemicalDeliveryId: null },
+      data: { visitLogEntryId: entry.id },
+    });
+  }
+}
+
+/**
+ * Mark delivered order lines as recorded by a new standalone delivery
+ *
+ * WHY: An order dropped off between visits is recorded as a standalone
+ * delivery; left pending, it would be pre-filled on the next chemical
+ * entry and counted twice.
+ *
+ * BUSINESS LOGIC:
+ * - Same as linkDeliveredOrderLines: lines are linked up to the gallons
+ *   delivered (see matchPendingLines)
+ * - Deleting the delivery makes its lines pending again
+ *
+ * @param tx - Transaction client
+ * @param delivery - Newly created ChemicalDelivery
+ */
+export async function linkDeliveredOrderLinesToDelivery(
+  tx: PrismaTransactionClient,
+  delivery: { id: string; chemicalSiteConfigId: string; gallons: unknown }
+): Promise<void> {
+  const lineIds = await matchPendingLines(
+    tx,
+    delivery.chemicalSiteConfigId,
+    Number(delivery.gallons)
+  );
+  if (lineIds.length === 0) return;
+
+  await tx.replenishmentOrderLine.updateMany({
+    where: { id: { in: lineIds }, visitLogEntryId: null, chemicalDeliveryId: null },
+    data: { chemicalDeliveryId: delivery.id },
+  });
+}
+
+/**
+ * Load replenishment orders with their site and lines, ready for API responses
+ *
+ * WHY: The queue and the single-order routes return the same shape.
+ * Decimals become numbers and each line carries its chemical name.
+ *
+ * @param where - Prisma filter on ReplenishmentOrder
+ */
+export async function getReplenishmentOrders(where: Prisma.ReplenishmentOrderWhereInput) {
+  const orders = await prisma.replenishmentOrder.findMany({
+    where,
+    orderBy: [{ deliverBy: 'asc' }, { createdAt: 'asc' }],
+    include: {
+      site: {
+        select: {
+          id: true,
+          name: true,
+          organization: { select: { id: true, name: true, slug: true } },
+        },
+      },
+      approver: { select: { id: true, firstName: true, lastName: true } },
+      deliverer: { select: { id: true, firstName: true, lastName: true } },
+      lines: {
+        include: {
+          chemicalSiteConfig: {
+            select: {
+              chemicalOrgConfig: { select: { chemicalMaster: { select: { name: true } } } },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  return orders.map((order: typeof orders[number]) => {
+    const { lines, ...rest } = order;
+
+    return {
+      ...rest,
+      deliverBy: order.deliverBy.toISOString().split('T')[0],
+      lines: lines
+        .map((line: typeof lines[number]) => ({
+          id: line.id,
+          chemicalSiteConfigId: line.chemicalSiteConfigId,
+          chemicalName: line.chemicalSiteConfig.chemicalOrgConfig.chemicalMaster.name,
+          containerType: line.containerType,
+          containerGallons: Number(line.containerGallons),
+          suggestedContainers: line.suggestedContainers,
+          quantity: line.quantity,
+          gallons: round2(line.quantity * Number(line.containerGallons)),
+          projectedOnHandGallons: Number(line.projectedOnHandGallons),
+          averageDailyUsage: Number(line.averageDailyUsage),
+          isRecorded: line.visitLogEntryId !== null || line.chemicalDeliveryId !== null,
+        }))
+        .sort((a: { chemicalName: string }, b: { chemicalName: string }) =>
+          a.chemicalName.localeCompare(b.chemicalName)
+        ),
+    };
+  });
+}
@@ -0,0 +1,287 @@
+// ===========================================
+// FILE: src/lib/rollups.ts
+// PURPOSE: Daily per-site, per-chemical usage rollups for analytics
+// PRD REFERENCE: PRD Section 7 - Analytics & Reporting
+// USED BY: Usage engine (lib/usage), analytics API routes, targets, benchmark and portfolio analytics, rollup rebuild script
+// ===========================================
+
+import { PrismaTransactionClient } from '@/lib/prisma';
+import { getPriceBook, getPriceOn } from '@/lib/prices';
+
+/**
+ * Entry values needed to roll a chemical's history up by day
+ */
+export interface RollupChainEntry {
+  visitDate: Date;
+  usageGallons: number | null; // null for the first entry in history
+  totalOnHandGallons: number;
+}
+
+/**
+ * One day of usage for a site chemical
+ */
+export interface DailyUsageRow {
+  usageDate: Date;
+  usageGallons: number;
+  entryCount: number;
+  closingOnHandGallons: number; // On hand after the day's last entry
+}
+
+/**
+ * Usage and cost for a site chemical over a date range
+ */
+export interface ChemicalUsageTotal {
+  chemicalSiteConfigId: string;
+  siteId: string;
+  chemicalName: string;
+  chemicalType: string;
+  costPerGallon: number; // Average over the range when the price changed mid-range
+  usageGallons: number;
+  cost: number;
+}
+
+/**
+ * Round to 2 decimals (matches Decimal(10, 2) columns)
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Collapse a chemical's ordered entry history into one row per visit date
+ *
+ * WHY: Analytics only ever bucket by day or coarser, so a day's entries can
+ * be summed once when they change instead of on every request.
+ *
+ * @param chain - Entries for the site chemical in visit order
+ * @returns Rows in date order
+ *
+ * @example
+ * ```ts
+ * buildDailyUsageRows([
+ *   { visitDate: new Date('2026-03-02'), usageGallons: null, totalOnHandGallons: 40 },
+ *   { visitDate: new Date('2026-03-09'), usageGallons: 6, totalOnHandGallons: 34 },
+ *   { visitDate: new Date('2026-03-09'), usageGallons: 1.5, totalOnHandGallons: 32.5 },
+ * ])
+ * // [
+ * //   { usageDate: 2026-03-02, usageGallons: 0, entryCount: 1, closingOnHandGallons: 40 },
+ * //   { usageDate: 2026-03-09, usageGallons: 7.5, entryCount: 2, closingOnHandGallons: 32.5 },
+ * // ]
+ * ```
+ */
+export function buildDailyUsageRows(chain: RollupChainEntry[]): DailyUsageRow[] {
+  const rows = new Map<number, DailyUsageRow>();
+
+  for (const entry of chain) {
+    const key = entry.visitDate.getTime();
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        usageDate: entry.visitDate,
+        usageGallons: 0,
+        entryCount: 0,
+        closingOnHandGallons: 0,
+      };
+      rows.set(key, row);
+    }
+
+    row.usageGallons = round2(row.usageGallons + (entry.usageGallons ?? 0));
+    row.entryCount++;
+    row.closingOnHandGallons = entry.totalOnHandGallons;
+  }
+
+  return Array.from(rows.values());
+}
+
+/**
+ * Bring a site chemical's stored rollups in line with its entry history
+ *
+ * WHY: Called from the usage engine every time a chain is recalculated, so
+ * rollups change in the same transaction as the entries they summarize.
+ *
+ * BUSINESS LOGIC:
+ * - Only days whose figures changed are written
+ * - Days with no entries left (deleted or re-dated visits) are removed
+ *
+ * @param tx - Prisma transaction client
+ * @param siteId - Site the chemical belongs to
+ * @param chemicalSiteConfigId - Site chemical the chain belongs to
+ * @param chain - Entries for the site chemical in visit order
+ * @returns Number of rows written or removed
+ */
+export async function syncDailyUsageRollups(
+  tx: PrismaTransactionClient,
+  siteId: string,
+  chemicalSiteConfigId: string,
+  chain: RollupChainEntry[]
+): Promise<number> {
+  const existing = await tx.dailyChemicalUsage.findMany({
+    where: { chemicalSiteConfigId },
+    select: {
+      id: true,
+      usageDate: true,
+      usageGallons: true,
+      entryCount: true,
+      closingOnHandGallons: true,
+    },
+  });
+  const existingByDate = new Map(
+    existing.map((row: typeof existing[number]) => [row.usageDate.getTime(), row])
+  );
+  let changedCount = 0;
+
+  for (const row of buildDailyUsageRows(chain)) {
+    const stored = existingByDate.get(row.usageDate.getTime());
+    existingByDate.delete(row.usageDate.getTime());
+
+    const values = {
+      usageGallons: row.usageGallons,
+      entryCount: row.entryCount,
+      closingOnHandGallons: row.closingOnHandGallons,
+    };
+
+    if (!stored) {
+      await tx.dailyChemicalUsage.create({
+        data: { siteId, chemicalSiteConfigId, usageDate: row.usageDate, ...values },
+      });
+      changedCount++;
+      continue;
+    }
+
+    if (
+      Number(stored.usageGallons) !== row.usageGallons ||
+      stored.entryCount !== row.entryCount ||
+      Number(stored.closingOnHandGallons) !== row.closingOnHandGallons
+    ) {
+      await tx.dailyChemicalUsage.update({
+        where: { id: stored.id },
+        data: values,
+      });
+      changedCount++;
+    }
+  }
+
+  // Whatever is left has no entries any more
+  const staleIds = Array.from(existingByDate.values()).map((row) => row.id);
+  if (staleIds.length > 0) {
+    await tx.dailyChemicalUsage.deleteMany({ where: { id: { in: staleIds } } });
+    changedCount += staleIds.length;
+  }
+
+  return changedCount;
+}
+
+/**
+ * Usage and cost per site chemical over a date range
+ *
+ * WHY: Summing a handful of daily rows per chemical in the database replaces
+ * loading every visit with its entries and configs into memory.
+ *
+ * BUSINESS LOGIC:
+ * - Each day's usage is valued at the price in effect that day (see lib/prices)
+ * - Day-level rows are only read for chemicals whose price changed in the range
+ * - Chemicals with no usage rows in the range are omitted
+ *
+ * @param client - Prisma client or transaction client
+ * @param siteIds - Sites to include
+ * @param startDate - First calendar date (inclusive)
+ * @param endDate - Last calendar date (inclusive)
+ * @param chemicalSiteConfigId - Limit to one site chemical (optional)
+ */
+export async function getChemicalUsageTotals(
+  client: PrismaTransactionClient,
+  siteIds: string[],
+  startDate: Date,
+  endDate: Date,
+  chemicalSiteConfigId?: string
+): Promise<ChemicalUsageTotal[]> {
+  if (siteIds.length === 0) {
+    return [];
+  }
+
+  const grouped = await client.dailyChemicalUsage.groupBy({
+    by: ['chemicalSiteConfigId'],
+    where: {
+      siteId: { in: siteIds },
+      usageDate: { gte: startDate, lte: endDate },
+      ...(chemicalSiteConfigId ? { chemicalSiteConfigId } : {}),
+    },
+    _sum: { usageGallons: true },
+  });
+
+  if (grouped.length === 0) {
+    return [];
+  }
+
+  const configs = await client.chemicalSiteConfig.findMany({
+    where: {
+      id: { in: grouped.map((group: typeof grouped[number]) => group.chemicalSiteConfigId) },
+    },
+    select: {
+      id: true,
+      siteId: true,
+      chemicalOrgConfigId: true,
+      chemicalOrgConfig: {
+        select: {
+          chemicalMaster: { select: { name: true, type: true } },
+        },
+      },
+    },
+  });
+  const configsById = new Map(
+    configs.map((config: typeof configs[number]) => [config.id, config])
+  );
+  const priceBook = await getPriceBook(
+    client,
+    configs.map((config: typeof configs[number]) => config.chemicalOrgConfigId)
+  );
+
+  // Chemicals whose price changed inside the range are valued day by day
+  const repricedConfigIds = configs
+    .filter((config: typeof configs[number]) =>
+      priceBook.get(config.chemicalOrgConfigId)?.changes.some(
+        (change) => change.effectiveDate > startDate && change.effectiveDate <= endDate
+      )
+    )
+    .map((config: typeof configs[number]) => config.id);
+  const repricedCosts = new Map<string, number>();
+  if (repricedConfigIds.length > 0) {
+    const days = await client.dailyChemicalUsage.findMany({
+      where: {
+        chemicalSiteConfigId: { in: repricedConfigIds },
+        usageDate: { gte: startDate, lte: endDate },
+      },
+      select: { chemicalSiteConfigId: true, usageDate: true, usageGallons: true },
+    });
+    for (const day of days) {
+      const config = configsById.get(day.chemicalSiteConfigId)!;
+      const price = getPriceOn(priceBook.get(config.chemicalOrgConfigId)!, day.usageDate);
+      repricedCosts.set(
+        day.chemicalSiteConfigId,
+        (repricedCosts.get(day.chemicalSiteConfigId) ?? 0) + Number(day.usageGallons) * price.costPerGallon
+      );
+    }
+  }
+
+  const totals: ChemicalUsageTotal[] = [];
+  for (const group of grouped) {
+    const config = configsById.get(group.chemicalSiteConfigId);
+    const schedule = config && priceBook.get(config.chemicalOrgConfigId);
+    if (!config || !schedule) continue;
+
+    const usageGallons = Number(group._sum.usageGallons ?? 0);
+    const endPrice = getPriceOn(schedule, endDate).costPerGallon;
+    const cost = repricedCosts.get(config.id) ?? usageGallons * endPrice;
+    totals.push({
+      chemicalSiteConfigId: config.id,
+      siteId: config.siteId,
+      chemicalName: config.chemicalOrgConfig.chemicalMaster.name,
+      chemicalType: config.chemicalOrgConfig.chemicalMaster.type,
+      costPerGallon: usageGallons > 0 ? cost / usageGallons : endPrice,
+      usageGallons,
+      cost,
+    });
+  }
+
+  return totals;
+}
@@ -0,0 +1,360 @@
+// ===========================================
+// FILE: src/lib/routePlanning.ts
+// PURPOSE: Day route planning for technicians (stop order, drive and arrival estimates)
+// PRD REFERENCE: PRD Section 8 - Visit Scheduling
+// USED BY: Schedule day plan API, route planner
+// ===========================================
+
+/**
+ * Straight-line miles are stretched by this much to approximate roads
+ * WHY: No maps service; city and suburban routes run ~30% over crow-flies
+ */
+export const ROAD_DISTANCE_FACTOR = 1.3;
+
+/**
+ * Average driving speed between washes, in mph
+ */
+export const AVERAGE_DRIVE_SPEED_MPH = 35;
+
+/**
+ * Time a technician starts the day when none is given ("HH:MM")
+ */
+export const DEFAULT_DAY_START = '08:00';
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+/**
+ * Cost of each minute a stop runs past its window, in minutes of day length
+ * WHY: Finishing the day later is always better than missing a window
+ */
+const LATE_MINUTE_PENALTY = 10;
+
+/**
+ * Improvement passes over a route before settling
+ * WHY: Days are 6-10 stops; a handful of passes converges
+ */
+const MAX_IMPROVEMENT_PASSES = 25;
+
+export interface RoutePoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Drive estimate between two points
+ */
+export interface DriveEstimate {
+  miles: number;
+  minutes: number;
+}
+
+/**
+ * A scheduled visit to place in a technician's day
+ * NOTE: Times are minutes after midnight, site-local wall clock
+ */
+export interface RouteStop {
+  id: string; // ScheduledVisit ID
+  siteId: string;
+  siteName: string;
+  organizationName: string | null;
+  address: string | null;
+  location: RoutePoint | null; // null = site has no coordinates
+  windowStart: number | null; // Earliest arrival on site; null = any time
+  windowEnd: number | null; // Visit must be finished by; null = any time
+  durationMinutes: number;
+  notes: string | null;
+}
+
+/**
+ * A stop with its estimated timings
+ */
+export interface ItineraryStop extends RouteStop {
+  driveMiles: number | null; // From the previous stop (or start point); null = unknown
+  driveMinutes: number | null;
+  arrivalMinutes: number;
+  waitMinutes: number; // Arrived before the window opened
+  startMinutes: number;
+  departureMinutes: number;
+  lateMinutes: number; // Finished after the window closed
+}
+
+/**
+ * A technician's day in visit order
+ */
+export interface DayItinerary {
+  stops: ItineraryStop[];
+  startMinutes: number;
+  endMinutes: number; // Departure from the last stop
+  totalDriveMiles: number;
+  totalDriveMinutes: number;
+  lateStopCount: number;
+  unlocatedStopCount: number; // Stops without coordinates (no drive estimate)
+}
+
+export interface RouteOptions {
+  startMinutes: number;
+  origin?: RoutePoint | null; // Where the technician starts; null = at the first stop
+}
+
+/**
+ * Precomputed drives between the stops (and the start point, last row)
+ */
+interface RouteMatrix {
+  stops: RouteStop[];
+  drives: (DriveEstimate | null)[][];
+  originIndex: number | null;
+  startMinutes: number;
+}
+
+/**
+ * Parse "HH:MM" into minutes after midnight
+ *
+ * @returns Minutes, or null for empty or malformed input
+ */
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+/**
+ * Format minutes after midnight as a clock time, e.g. 9:05 AM
+ */
+export function formatTimeOfDay(minutes: number): string {
+  const total = Math.round(minutes);
+  const hours = Math.floor(total / 60) % 24;
+  const mins = total % 60;
+  const suffix = hours < 12 ? 'AM' : 'PM';
+  return `${hours % 12 || 12}:${String(mins).padStart(2, '0')} ${suffix}`;
+}
+
+/**
+ * Estimate the drive between two points
+ *
+ * BUSINESS LOGIC:
+ * - Great-circle distance × ROAD_DISTANCE_FACTOR
+ * - Minutes at AVERAGE_DRIVE_SPEED_MPH, rounded up
+ */
+export function estimateDrive(from: RoutePoint, to: RoutePoint): DriveEstimate {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  const straightMiles = 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)));
+  const miles = straightMiles * ROAD_DISTANCE_FACTOR;
+
+  return {
+    miles: Math.round(miles * 10) / 10,
+    minutes: Math.ceil((miles / AVERAGE_DRIVE_SPEED_MPH) * 60),
+  };
+}
+
+/**
+ * Drive estimates between every pair of stops, plus the start point
+ */
+function buildRouteMatrix(stops: RouteStop[], options: RouteOptions): RouteMatrix {
+  const points = [...stops.map((stop) => stop.location), options.origin ?? null];
+
+  return {
+    stops,
+    drives: points.map((from) =>
+      points.map((to) => (from && to ? estimateDrive(from, to) : null))
+    ),
+    originIndex: options.origin ? stops.length : null,
+    startMinutes: options.startMinutes,
+  };
+}
+
+/**
+ * Walk the stops in order, tracking the clock
+ *
+ * BUSINESS LOGIC:
+ * - Drive from the last stop with coordinates (or the start point)
+ * - Arriving before the window opens means waiting for it
+ * - Late = finishing after the window closes
+ * - Stops without coordinates add their visit time but no drive
+ */
+function simulateRoute(matrix: RouteMatrix, order: number[]): ItineraryStop[] {
+  let clock = matrix.startMinutes;
+  let previous = matrix.originIndex;
+
+  return order.map((index) => {
+    const stop = matrix.stops[index];
+    const drive = previous === null ? null : matrix.drives[previous][index];
+    const arrivalMinutes = clock + (drive?.minutes ?? 0);
+    const startMinutes = Math.max(arrivalMinutes, stop.windowStart ?? arrivalMinutes);
+    const departureMinutes = startMinutes + stop.durationMinutes;
+
+    clock = departureMinutes;
+    if (stop.location) {
+      previous = index;
+    }
+
+    return {
+      ...stop,
+      driveMiles: drive?.miles ?? null,
+      driveMinutes: drive?.minutes ?? null,
+      arrivalMinutes,
+      waitMinutes: startMinutes - arrivalMinutes,
+      startMinutes,
+      departureMinutes,
+      lateMinutes: stop.windowEnd === null ? 0 : Math.max(0, departureMinutes - stop.windowEnd),
+    };
+  });
+}
+
+/**
+ * Cost of a route: when the day ends, plus a penalty for late stops
+ * NOTE: Same clock rules as simulateRoute without building stops; the
+ * optimizer calls this thousands of times
+ */
+function routeCost(matrix: RouteMatrix, order: number[]): number {
+  let clock = matrix.startMinutes;
+  let previous = matrix.originIndex;
+  let late = 0;
+
+  for (const index of order) {
+    const stop = matrix.stops[index];
+    const drive = previous === null ? null : matrix.drives[previous][index];
+    const arrival = clock + (drive?.minutes ?? 0);
+    clock = Math.max(arrival, stop.windowStart ?? arrival) + stop.durationMinutes;
+    if (stop.windowEnd !== null) {
+      late += Math.max(0, clock - stop.windowEnd);
+    }
+    if (stop.location) {
+      previous = index;
+    }
+  }
+
+  return clock + late * LATE_MINUTE_PENALTY;
+}
+
+/**
+ * Build a route by always going to the stop that can be started soonest
+ * WHY: Respects time windows where plain nearest-neighbour would not
+ */
+function greedyRoute(matrix: RouteMatrix, candidates: number[], first: number | null): number[] {
+  const order = first === null ? [] : [first];
+  const remaining = candidates.filter((index) => index !== first);
+
+  while (remaining.length > 0) {
+    let bestPosition = 0;
+    let bestStart = Infinity;
+    let bestDrive = Infinity;
+
+    remaining.forEach((index, position) => {
+      const next = simulateRoute(matrix, [...order, index]).pop()!;
+      const drive = next.driveMinutes ?? 0;
+      if (next.startMinutes < bestStart || (next.startMinutes === bestStart && drive < bestDrive)) {
+        bestPosition = position;
+        bestStart = next.startMinutes;
+        bestDrive = drive;
+      }
+    });
+
+    order.push(remaining.splice(bestPosition, 1)[0]);
+  }
+
+  return order;
+}
+
+/**
+ * Improve a route with segment reversals (2-opt) and single-stop moves
+ * until neither helps
+ */
+function improveRoute(matrix: RouteMatrix, initial: number[]): number[] {
+  let best = initial;
+  let bestCost = routeCost(matrix, best);
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const reversed = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const movedLater = [...best];
+        movedLater.splice(j, 0, movedLater.splice(i, 1)[0]);
+        const movedEarlier = [...best];
+        movedEarlier.splice(i, 0, movedEarlier.splice(j, 1)[0]);
+
+        for (const candidate of [reversed, movedLater, movedEarlier]) {
+          const cost = routeCost(matrix, candidate);
+          if (cost < bestCost) {
+            best = candidate;
+            bestCost = cost;
+            improved = true;
+          }
+        }
+      }
+    }
+
+    if (!improved) {
+      break;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Order a technician's stops for the day
+ *
+ * WHY: Reps visit 6-10 washes a day. Ordering them by hand misses
+ * windows and doubles back.
+ *
+ * BUSINESS LOGIC:
+ * - Drives come from a local distance matrix (see estimateDrive)
+ * - Greedy construction from each possible first stop (or the start
+ *   point), then 2-opt and move improvements
+ * - Minimises the end of the day, with late minutes heavily penalised
+ * - Stops without coordinates keep their relative order at the end
+ *
+ * @param stops - The day's stops, in their current order
+ * @returns The same stops, reordered
+ */
+export function planRoute(stops: RouteStop[], options: RouteOptions): RouteStop[] {
+  const matrix = buildRouteMatrix(stops, options);
+  const located = stops.flatMap((stop, index) => (stop.location ? [index] : []));
+  const unlocated = stops.flatMap((stop, index) => (stop.location ? [] : [index]));
+
+  let best = located;
+  if (located.length > 1) {
+    const firstStops = matrix.originIndex === null ? located : [null];
+    let bestCost = Infinity;
+
+    for (const first of firstStops) {
+      const route = improveRoute(matrix, greedyRoute(matrix, located, first));
+      const cost = routeCost(matrix, route);
+      if (cost < bestCost) {
+        best = route;
+        bestCost = cost;
+      }
+    }
+  }
+
+  return [...best, ...unlocated].map((index) => stops[index]);
+}
+
+/**
+ * Timings for stops visited in the given order
+ */
+export function buildItinerary(stops: RouteStop[], options: RouteOptions): DayItinerary {
+  const matrix = buildRouteMatrix(stops, options);
+  const itinerary = simulateRoute(matrix, stops.map((_, index) => index));
+
+  return {
+    stops: itinerary,
+    startMinutes: options.startMinutes,
+    endMinutes: itinerary.length > 0 ? itinerary[itinerary.length - 1].departureMinutes : options.startMinutes,
+    totalDriveMiles: Math.round(itinerary.reduce((sum, stop) => sum + (stop.driveMiles ?? 0), 0) * 10) / 10,
+    totalDriveMinutes: itinerary.reduce((sum, stop) => sum + (stop.driveMinutes ?? 0), 0),
+    lateStopCount: itinerary.filter((stop) => stop.lateMinutes > 0).length,
+    unlocatedStopCount: itinerary.filter((stop) => !stop.location).length,
+  };
+}
@@ -0,0 +1,166 @@
+// ===========================================
+// FILE: src/lib/sites.ts
+// PURPOSE: Site helpers shared by site management routes
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Organization → Site)
+// USED BY: Sites API routes, site-scoped API routes (analytics, car counts,
+//          deliveries, orders, tablets, conversions)
+// ===========================================
+
+import type { Session } from 'next-auth';
+import { prisma, PrismaTransactionClient } from '@/lib/prisma';
+import { slugify } from '@/lib/utils';
+import { DEFAULT_TIMEZONE, resolveSiteTimeZone } from '@/lib/timezone';
+
+/**
+ * Generate a slug for a site that is unique within its organization
+ *
+ * WHY: Site URLs are /dashboard/o/[orgSlug]/s/[siteSlug], so two sites in
+ * the same organization can't share a slug (sites in different orgs can).
+ *
+ * BUSINESS LOGIC:
+ * - "Main Street" → "main-street", then "main-street-2", "main-street-3"...
+ * - Names with no usable characters fall back to "site"
+ *
+ * @param client - Prisma client or transaction client
+ * @param organizationId - Organization the site belongs to
+ * @param name - Site name to derive the slug from
+ * @returns Unique slug
+ */
+export async function generateSiteSlug(
+  client: PrismaTransactionClient,
+  organizationId: string,
+  name: string
+): Promise<string> {
+  const baseSlug = slugify(name) || 'site';
+
+  const existing = await client.site.findMany({
+    where: {
+      organizationId,
+      slug: { startsWith: baseSlug },
+    },
+    select: { slug: true },
+  });
+  const taken = new Set(existing.map((site: { slug: string }) => site.slug));
+
+  if (!taken.has(baseSlug)) {
+    return baseSlug;
+  }
+
+  let suffix = 2;
+  while (taken.has(`${baseSlug}-${suffix}`)) {
+    suffix++;
+  }
+  return `${baseSlug}-${suffix}`;
+}
+
+/**
+ * Calendar a site reports in
+ */
+export interface SiteCalendar {
+  timeZone: string;
+  weekStartsOn: number; // 0 = Sunday ... 6 = Saturday
+}
+
+/**
+ * Load the time zone and week start for a site
+ *
+ * WHY: "Today", reminders and weekly buckets follow the site's local
+ * calendar, not the server's (UTC on Vercel).
+ *
+ * BUSINESS LOGIC:
+ * - Site.timezone overrides Organization.timezone
+ * - Week start is set per organization
+ * - Unknown sites fall back to DEFAULT_TIMEZONE and Sunday
+ *
+ * @param client - Prisma client or transaction client
+ * @param siteId - Site to load
+ */
+export async function getSiteCalendar(
+  client: PrismaTransactionClient,
+  siteId: string
+): Promise<SiteCalendar> {
+  const site = await client.site.findUnique({
+    where: { id: siteId },
+    select: {
+      timezone: true,
+      organization: { select: { timezone: true, weekStartsOn: true } },
+    },
+  });
+
+  if (!site) {
+    return { timeZone: DEFAULT_TIMEZONE, weekStartsOn: 0 };
+  }
+
+  return {
+    timeZone: resolveSiteTimeZone(site),
+    weekStartsOn: site.organization.weekStartsOn,
+  };
+}
+
+/**
+ * Site with the fields needed to check access
+ */
+export interface SiteAccessTarget {
+  id: string;
+  organizationId: string;
+  organization: { distributorId: string | null };
+}
+
+/**
+ * Verify a user has access to a site
+ *
+ * WHY: Every site-scoped route applies the same role rules, so they share
+ * one check instead of each keeping a copy.
+ *
+ * BUSINESS LOGIC:
+ * - Distributor roles: sites of organizations linked to their distributor
+ * - ORG_ADMIN: sites of their own organization
+ * - SITE_MANAGER / SITE_USER: sites they've been granted (UserSiteAccess)
+ *
+ * @param session - Signed-in session
+ * @param site - Site ID, or a site already loaded with its organization
+ * @returns True if the user can access the site (false if it doesn't exist)
+ */
+export async function verifySiteAccess(
+  session: Session,
+  site: string | SiteAccessTarget
+): Promise<boolean> {
+  const target =
+    typeof site === 'string'
+      ? await prisma.site.findUnique({
+          where: { id: site },
+          select: {
+            id: true,
+            organizationId: true,
+            organization: { select: { distributorId: true } },
+          },
+        })
+      : site;
+
+  if (!target) {
+    return false;
+  }
+
+  // Distributors can access their clients' sites
+  if (session.user.role === 'DISTRIBUTOR_ADMIN' || session.user.role === 'DISTRIBUTOR_USER') {
+    return target.organization.distributorId === session.user.distributorId;
+  }
+
+  // Org admins can access their org's sites
+  if (session.user.role === 'ORG_ADMIN') {
+    return target.organizationId === session.user.organizationId;
+  }
+
+  // Site users need explicit access
+  if (session.user.role === 'SITE_MANAGER' || session.user.role === 'SITE_USER') {
+    const access = await prisma.userSiteAccess.findFirst({
+      where: {
+        userId: session.user.id,
+        siteId: target.id,
+      },
+    });
+    return !!access;
+  }
+
+  return false;
+}
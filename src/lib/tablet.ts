@@ -0,0 +1,193 @@
+// ===========================================
+// FILE: src/lib/tablet.ts
+// PURPOSE: Shared-tablet (PIN) mode helpers: device enrollment and lockout
+// PRD REFERENCE: PRD Section 4.2 - Secondary Authentication (PIN)
+// USED BY: NextAuth PIN provider, tablet and PIN API routes
+// ===========================================
+
+import { prisma } from '@/lib/prisma';
+import type { UserRole } from '@/types';
+
+/**
+ * Cookie holding an enrolled tablet's device token
+ * SECURITY: httpOnly - the token is only ever read server-side
+ */
+export const TABLET_DEVICE_COOKIE = 'truelevel-tablet-device';
+
+/**
+ * How long a tablet stays enrolled in the browser (seconds)
+ * NOTE: Managers can revoke a device at any time
+ */
+export const TABLET_DEVICE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+/**
+ * Absolute lifetime of a PIN session (seconds), roughly one shift
+ * WHY: Shared devices must not hold a session for the 7 days a
+ * password login gets
+ */
+export const PIN_SESSION_MAX_AGE = 8 * 60 * 60;
+
+/**
+ * Failed PIN attempts allowed before the user is locked out
+ */
+export const PIN_MAX_ATTEMPTS = 5;
+
+/**
+ * How long a PIN lockout lasts
+ */
+export const PIN_LOCKOUT_MINUTES = 15;
+
+/**
+ * Roles that can sign in on a site tablet
+ * NOTE: Only site-scoped users have the UserSiteAccess row the roster needs
+ */
+export const TABLET_ROLES: UserRole[] = ['SITE_MANAGER', 'SITE_USER'];
+
+/**
+ * Roles that can enroll and revoke tablets
+ */
+export const TABLET_MANAGER_ROLES: UserRole[] = ['ORG_ADMIN', 'SITE_MANAGER'];
+
+/**
+ * Device fields returned to clients
+ * SECURITY: Never expose tokenHash
+ */
+export const tabletDeviceSelect = {
+  id: true,
+  siteId: true,
+  name: true,
+  isActive: true,
+  lastUsedAt: true,
+  enrolledAt: true,
+  enroller: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+};
+
+/**
+ * Hash a device token for storage
+ * WHY: Uses Web Crypto rather than node:crypto because the NextAuth config
+ * (which verifies devices) is also loaded by middleware
+ */
+export async function hashDeviceToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Generate a new device token
+ * NOTE: The plaintext token only ever lives in the tablet's cookie
+ */
+export async function generateDeviceToken(): Promise<{ token: string; tokenHash: string }> {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  const token = Array.from(bytes)
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+  return { token, tokenHash: await hashDeviceToken(token) };
+}
+
+/**
+ * Read the device token from a raw Cookie header
+ * WHY: The credentials provider only receives the raw Request
+ */
+export function getDeviceTokenFromCookieHeader(cookieHeader: string | null): string | null {
+  if (!cookieHeader) {
+    return null;
+  }
+
+  for (const part of cookieHeader.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === TABLET_DEVICE_COOKIE) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Look up the active tablet for a device token
+ * @returns Device with its site, or null if unknown, revoked or the site is inactive
+ */
+export async function getTabletDevice(token: string | null | undefined) {
+  if (!token) {
+    return null;
+  }
+
+  const device = await prisma.tabletDevice.findUnique({
+    where: { tokenHash: await hashDeviceToken(token) },
+    include: {
+      site: {
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+          isActive: true,
+          organizationId: true,
+          organization: { select: { slug: true } },
+        },
+      },
+    },
+  });
+
+  if (!device || !device.isActive || !device.site.isActive) {
+    return null;
+  }
+
+  return device;
+}
+
+/**
+ * Users who can sign in on a site's tablet
+ *
+ * BUSINESS LOGIC:
+ * - Active site-role users with access to the site
+ * - Only users who have set a PIN appear on the roster
+ */
+export async function getTabletRoster(siteId: string) {
+  return prisma.user.findMany({
+    where: {
+      isActive: true,
+      role: { in: TABLET_ROLES },
+      pinHash: { not: null },
+      siteAccess: { some: { siteId } },
+    },
+    select: { id: true, firstName: true, lastName: true },
+    orderBy: [{ firstName: 'asc' }, { lastName: 'asc' }],
+  });
+}
+
+/**
+ * Record a failed PIN attempt
+ *
+ * BUSINESS LOGIC:
+ * - After PIN_MAX_ATTEMPTS consecutive failures the user is locked out
+ *   for PIN_LOCKOUT_MINUTES and the counter starts over
+ * - Password login is unaffected, so a locked user is never stranded
+ *
+ * @returns true if this attempt triggered a lockout
+ */
+export async function recordPinFailure(userId: string): Promise<boolean> {
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { pinFailedAttempts: { increment: 1 } },
+    select: { pinFailedAttempts: true },
+  });
+
+  if (user.pinFailedAttempts < PIN_MAX_ATTEMPTS) {
+    return false;
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      pinFailedAttempts: 0,
+      pinLockedUntil: new Date(Date.now() + PIN_LOCKOUT_MINUTES * 60 * 1000),
+    },
+  });
+
+  return true;
+}
@@ -0,0 +1,393 @@
+// ===========================================
+// FILE: src/lib/targets.ts
+// PURPOSE: Cost-per-car targets and monthly chemical budgets
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis, PRD Section 7.3 - Dashboard Summary
+// USED BY: Cost target API routes, analytics summary, dashboards
+// ===========================================
+
+import { PrismaTransactionClient } from '@/lib/prisma';
+import { getChemicalUsageTotals, type ChemicalUsageTotal } from '@/lib/rollups';
+import { getCarCountsBySite } from '@/lib/carCounts';
+import { getSiteToday } from '@/lib/timezone';
+import type { ChemicalType } from '@/types';
+
+/**
+ * A stored target (numbers instead of Decimals)
+ */
+export interface CostTargetRecord {
+  id: string;
+  organizationId: string;
+  siteId: string | null; // null = organization-wide
+  chemicalType: ChemicalType | null; // null = all chemicals
+  targetCostPerCar: number | null;
+  monthlyBudget: number | null;
+}
+
+/**
+ * Actual vs. target cost per car over a period
+ */
+export interface TargetVariance {
+  chemicalType: ChemicalType | null; // null = all chemicals
+  siteCount: number; // Sites with a target for this line
+  cars: number;
+  actualCost: number;
+  targetCost: number; // Σ site target × site cars
+  actualCostPerCar: number;
+  targetCostPerCar: number; // Car-weighted across sites
+  variance: number; // Per car; positive = over target
+  variancePercent: number;
+  isOverTarget: boolean;
+}
+
+/**
+ * Month-to-date spend projected to month end against a budget
+ */
+export interface BudgetStatus {
+  chemicalType: ChemicalType | null; // null = all chemicals
+  monthlyBudget: number;
+  monthToDateCost: number;
+  projectedMonthCost: number;
+  projectedVariance: number; // Projected minus budget; positive = over
+  isOverBudget: boolean;
+}
+
+/**
+ * Budgets for one site or organization for the current month
+ */
+export interface BudgetSummary {
+  monthStart: string; // YYYY-MM-DD
+  asOf: string; // YYYY-MM-DD (today in the scope's time zone)
+  daysElapsed: number;
+  daysInMonth: number;
+  budgets: BudgetStatus[]; // All chemicals first, then by chemical type
+  isOverBudget: boolean; // Any budget projected over
+}
+
+/**
+ * Round to cents
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Load targets for organizations
+ *
+ * @param client - Prisma client or transaction client
+ * @param organizationIds - Organizations to load (site targets included)
+ */
+export async function getCostTargets(
+  client: PrismaTransactionClient,
+  organizationIds: string[]
+): Promise<CostTargetRecord[]> {
+  if (organizationIds.length === 0) {
+    return [];
+  }
+
+  const targets = await client.costTarget.findMany({
+    where: { organizationId: { in: organizationIds } },
+  });
+
+  return targets.map((target: typeof targets[number]) => ({
+    id: target.id,
+    organizationId: target.organizationId,
+    siteId: target.siteId,
+    chemicalType: target.chemicalType,
+    targetCostPerCar: target.targetCostPerCar !== null ? Number(target.targetCostPerCar) : null,
+    monthlyBudget: target.monthlyBudget !== null ? Number(target.monthlyBudget) : null,
+  }));
+}
+
+/**
+ * Cost-per-car target that applies to a site
+ *
+ * BUSINESS LOGIC:
+ * - A site's own target wins; otherwise the organization-wide target applies
+ *   (a promised cost per car holds at every location)
+ * - Budgets are not inherited this way: an organization budget covers the
+ *   whole organization, not each site (see getBudgetSummary)
+ *
+ * @returns Target, or null if neither site nor organization sets one
+ */
+export function resolveTargetCostPerCar(
+  targets: CostTargetRecord[],
+  organizationId: string,
+  siteId: string,
+  chemicalType: ChemicalType | null
+): number | null {
+  const matches = (target: CostTargetRecord, scopeSiteId: string | null) =>
+    target.organizationId === organizationId &&
+    target.siteId === scopeSiteId &&
+    target.chemicalType === chemicalType &&
+    target.targetCostPerCar !== null;
+
+  return (
+    targets.find((target) => matches(target, siteId))?.targetCostPerCar ??
+    targets.find((target) => matches(target, null))?.targetCostPerCar ??
+    null
+  );
+}
+
+/**
+ * Compare actual cost per car with targets over a period
+ *
+ * WHY: Distributors sell on a promised cost per car; this is the number
+ * that says whether they're keeping the promise.
+ *
+ * BUSINESS LOGIC:
+ * - One line for all chemicals plus one per chemical type with a target
+ * - Each line only counts sites that have a target for it, so a site
+ *   without one doesn't dilute the comparison
+ * - Across sites the target is car-weighted (Σ target × cars ÷ Σ cars)
+ * - Lines with no cars are omitted
+ *
+ * @param client - Prisma client or transaction client
+ * @param sites - Sites in scope
+ * @param startDate - First calendar date (inclusive)
+ * @param endDate - Last calendar date (inclusive)
+ */
+export async function getTargetVariance(
+  client: PrismaTransactionClient,
+  sites: Array<{ id: string; organizationId: string }>,
+  startDate: Date,
+  endDate: Date
+): Promise<TargetVariance[]> {
+  const targets = await getCostTargets(
+    client,
+    Array.from(new Set(sites.map((site) => site.organizationId)))
+  );
+  if (!targets.some((target) => target.targetCostPerCar !== null)) {
+    return [];
+  }
+
+  const siteIds = sites.map((site) => site.id);
+  const [usageTotals, carsBySite] = await Promise.all([
+    getChemicalUsageTotals(client, siteIds, startDate, endDate),
+    getCarCountsBySite(client, siteIds, startDate, endDate),
+  ]);
+
+  const chemicalTypes = Array.from(
+    new Set(
+      targets
+        .filter((target) => target.targetCostPerCar !== null && target.chemicalType !== null)
+        .map((target) => target.chemicalType as ChemicalType)
+    )
+  ).sort();
+
+  const lines: TargetVariance[] = [];
+  for (const chemicalType of [null, ...chemicalTypes]) {
+    let siteCount = 0;
+    let cars = 0;
+    let actualCost = 0;
+    let targetCost = 0;
+
+    for (const site of sites) {
+      const target = resolveTargetCostPerCar(targets, site.organizationId, site.id, chemicalType);
+      if (target === null) continue;
+
+      const siteCars = carsBySite.get(site.id)?.totalCars ?? 0;
+      siteCount++;
+      cars += siteCars;
+      targetCost += target * siteCars;
+      actualCost += usageTotals
+        .filter((usage) =>
+          usage.siteId === site.id && (chemicalType === null || usage.chemicalType === chemicalType)
+        )
+        .reduce((sum, usage) => sum + usage.cost, 0);
+    }
+
+    if (cars === 0) continue;
+
+    const actualCostPerCar = actualCost / cars;
+    const targetCostPerCar = targetCost / cars;
+    const variance = actualCostPerCar - targetCostPerCar;
+
+    lines.push({
+      chemicalType,
+      siteCount,
+      cars,
+      actualCost: round2(actualCost),
+      targetCost: round2(targetCost),
+      actualCostPerCar: round2(actualCostPerCar),
+      targetCostPerCar: round2(targetCostPerCar),
+      variance: round2(variance),
+      variancePercent:
+        targetCostPerCar > 0 ? Math.round((variance / targetCostPerCar) * 1000) / 10 : 0,
+      isOverTarget: variance > 0,
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Current month's dates in a time zone
+ */
+function getMonthToDate(timeZone: string, now: Date) {
+  const today = getSiteToday(timeZone, now);
+  const year = today.getUTCFullYear();
+  const month = today.getUTCMonth();
+
+  return {
+    monthStart: new Date(Date.UTC(year, month, 1)),
+    today,
+    daysElapsed: today.getUTCDate(),
+    daysInMonth: new Date(Date.UTC(year, month + 1, 0)).getUTCDate(),
+  };
+}
+
+/**
+ * Project month-to-date spend against the budgets of one scope
+ *
+ * BUSINESS LOGIC:
+ * - Projection is straight-line: spend so far ÷ days elapsed × days in month
+ * - Usage is recorded at visits, so early-month projections swing with
+ *   visit timing; they settle as the month fills in
+ */
+function buildBudgetSummary(
+  budgetTargets: CostTargetRecord[],
+  usage: ChemicalUsageTotal[],
+  dates: ReturnType<typeof getMonthToDate>
+): BudgetSummary | null {
+  const withBudget = budgetTargets
+    .filter((target) => target.monthlyBudget !== null)
+    .sort((a, b) => (a.chemicalType ?? '').localeCompare(b.chemicalType ?? ''));
+  if (withBudget.length === 0) {
+    return null;
+  }
+
+  const budgets = withBudget.map((target): BudgetStatus => {
+    const monthToDateCost = usage
+      .filter((row) => target.chemicalType === null || row.chemicalType === target.chemicalType)
+      .reduce((sum, row) => sum + row.cost, 0);
+    const projectedMonthCost = (monthToDateCost / dates.daysElapsed) * dates.daysInMonth;
+    const monthlyBudget = target.monthlyBudget as number;
+
+    return {
+      chemicalType: target.chemicalType,
+      monthlyBudget,
+      monthToDateCost: round2(monthToDateCost),
+      projectedMonthCost: round2(projectedMonthCost),
+      projectedVariance: round2(projectedMonthCost - monthlyBudget),
+      isOverBudget: projectedMonthCost > monthlyBudget,
+    };
+  });
+
+  return {
+    monthStart: dates.monthStart.toISOString().split('T')[0],
+    asOf: dates.today.toISOString().split('T')[0],
+    daysElapsed: dates.daysElapsed,
+    daysInMonth: dates.daysInMonth,
+    budgets,
+    isOverBudget: budgets.some((budget) => budget.isOverBudget),
+  };
+}
+
+/**
+ * Month-to-date budget status per site
+ *
+ * WHY: Shows which sites are on course to overspend while there is still
+ * time to act, rather than after the invoice arrives.
+ *
+ * BUSINESS LOGIC:
+ * - Only a site's own budgets apply (see resolveTargetCostPerCar)
+ * - Months follow each site's time zone
+ * - Sites without a budget are omitted
+ *
+ * @param client - Prisma client or transaction client
+ * @param sites - Sites with their organization and time zone
+ * @param now - Current instant (default now)
+ * @returns Budget summaries keyed by siteId
+ */
+export async function getSiteBudgetSummaries(
+  client: PrismaTransactionClient,
+  sites: Array<{ id: string; organizationId: string; timeZone: string }>,
+  now: Date = new Date()
+): Promise<Map<string, BudgetSummary>> {
+  const summaries = new Map<string, BudgetSummary>();
+
+  const targets = await getCostTargets(
+    client,
+    Array.from(new Set(sites.map((site) => site.organizationId)))
+  );
+  const budgetedSites = sites.filter((site) =>
+    targets.some((target) => target.siteId === site.id && target.monthlyBudget !== null)
+  );
+
+  // Sites share a month-to-date window when their local "today" matches
+  const groups = new Map<string, { dates: ReturnType<typeof getMonthToDate>; siteIds: string[] }>();
+  for (const site of budgetedSites) {
+    const dates = getMonthToDate(site.timeZone, now);
+    const key = dates.today.toISOString();
+    const group = groups.get(key) ?? { dates, siteIds: [] };
+    group.siteIds.push(site.id);
+    groups.set(key, group);
+  }
+
+  for (const { dates, siteIds } of groups.values()) {
+    const usage = await getChemicalUsageTotals(client, siteIds, dates.monthStart, dates.today);
+    for (const siteId of siteIds) {
+      const summary = buildBudgetSummary(
+        targets.filter((target) => target.siteId === siteId),
+        usage.filter((row) => row.siteId === siteId),
+        dates
+      );
+      if (summary) summaries.set(siteId, summary);
+    }
+  }
+
+  return summaries;
+}
+
+/**
+ * Month-to-date status of an organization's own budgets
+ *
+ * BUSINESS LOGIC:
+ * - Organization budgets cover every active site of the organization
+ * - The month follows the organization's time zone
+ *
+ * @returns Summary, or null if the organization sets no budget
+ */
+export async function getOrganizationBudgetSummary(
+  client: PrismaTransactionClient,
+  organizationId: string,
+  now: Date = new Date()
+): Promise<BudgetSummary | null> {
+  const [organization, targets] = await Promise.all([
+    client.organization.findUnique({
+      where: { id: organizationId },
+      select: {
+        timezone: true,
+        sites: { where: { isActive: true }, select: { id: true } },
+      },
+    }),
+    client.costTarget.findMany({
+      where: { organizationId, siteId: null, monthlyBudget: { not: null } },
+    }),
+  ]);
+
+  if (!organization || targets.length === 0) {
+    return null;
+  }
+
+  const dates = getMonthToDate(organization.timezone, now);
+  const usage = await getChemicalUsageTotals(
+    client,
+    organization.sites.map((site: { id: string }) => site.id),
+    dates.monthStart,
+    dates.today
+  );
+
+  return buildBudgetSummary(
+    targets.map((target: typeof targets[number]) => ({
+      id: target.id,
+      organizationId: target.organizationId,
+      siteId: null,
+      chemicalType: target.chemicalType,
+      targetCostPerCar: null,
+      monthlyBudget: Number(target.monthlyBudget),
+    })),
+    usage,
+    dates
+  );
+}
@@ -0,0 +1,216 @@
+// ===========================================
+// FILE: src/lib/team.ts
+// PURPOSE: Team membership helpers (invites, role assignment, scoping)
+// PRD REFERENCE: PRD Section 3 - User Roles & Permissions
+// USED BY: Invites and users API routes
+// ===========================================
+
+import { createHash, randomBytes } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { sendEmail } from '@/lib/email';
+import type { UserRole } from '@/types';
+
+/**
+ * How long an invite link stays valid
+ */
+export const INVITE_EXPIRY_DAYS = 7;
+
+/**
+ * Roles that are scoped to individual sites via UserSiteAccess
+ */
+export const SITE_ROLES: UserRole[] = ['SITE_MANAGER', 'SITE_USER'];
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  DISTRIBUTOR_ADMIN: 'Distributor Admin',
+  DISTRIBUTOR_USER: 'Distributor User',
+  ORG_ADMIN: 'Organization Admin',
+  SITE_MANAGER: 'Site Manager',
+  SITE_USER: 'Site User',
+};
+
+/**
+ * Invite fields returned to clients
+ * SECURITY: Never expose tokenHash
+ */
+export const inviteSelect = {
+  id: true,
+  email: true,
+  role: true,
+  firstName: true,
+  lastName: true,
+  siteIds: true,
+  status: true,
+  expiresAt: true,
+  createdAt: true,
+  inviter: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+};
+
+export function isSiteRole(role: string): boolean {
+  return SITE_ROLES.includes(role as UserRole);
+}
+
+/**
+ * Roles an admin may invite or assign
+ *
+ * BUSINESS LOGIC (PRD Section 3):
+ * - DISTRIBUTOR_ADMIN: distributor team (admins and users)
+ * - ORG_ADMIN: organization team (admins, site managers, site users)
+ * - Everyone else manages no team
+ */
+export function getAssignableRoles(role: string): UserRole[] {
+  if (role === 'DISTRIBUTOR_ADMIN') {
+    return ['DISTRIBUTOR_ADMIN', 'DISTRIBUTOR_USER'];
+  }
+  if (role === 'ORG_ADMIN') {
+    return ['ORG_ADMIN', 'SITE_MANAGER', 'SITE_USER'];
+  }
+  return [];
+}
+
+/**
+ * Team a user belongs to, as a Prisma where fragment
+ * WHY: Distributor teams are keyed by distributorId, organization teams
+ * (including site roles) by organizationId
+ *
+ * @returns Where fragment, or null if the user has no team
+ */
+export function getTeamScope(user: {
+  role: string;
+  distributorId: string | null;
+  organizationId: string | null;
+}): { distributorId: string } | { organizationId: string } | null {
+  if ((user.role === 'DISTRIBUTOR_ADMIN' || user.role === 'DISTRIBUTOR_USER') && user.distributorId) {
+    return { distributorId: user.distributorId };
+  }
+  if (user.organizationId) {
+    return { organizationId: user.organizationId };
+  }
+  return null;
+}
+
+/**
+ * Display name of a team, for invite emails
+ */
+export async function getTeamName(
+  scope: { distributorId: string } | { organizationId: string }
+): Promise<string> {
+  if ('distributorId' in scope) {
+    const distributor = await prisma.distributor.findUnique({
+      where: { id: scope.distributorId },
+      select: { companyName: true },
+    });
+    return distributor?.companyName || 'your team';
+  }
+
+  const organization = await prisma.organization.findUnique({
+    where: { id: scope.organizationId },
+    select: { name: true },
+  });
+  return organization?.name || 'your team';
+}
+
+/**
+ * Hash an invite token for storage
+ * WHY: Tokens are high-entropy, so SHA-256 is sufficient; a leaked
+ * database row cannot be turned back into a working invite link
+ */
+export function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generate a one-time invite token and its expiry
+ * NOTE: The plain token only exists in the emailed link
+ */
+export function generateInviteToken(): {
+  token: string;
+  tokenHash: string;
+  expiresAt: Date;
+} {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+  return { token, tokenHash: hashInviteToken(token), expiresAt };
+}
+
+/**
+ * Build the accept-invite link
+ *
+ * @param origin - Public app URL (NEXTAUTH_URL, falling back to the request origin)
+ * @param token - Plain invite token
+ */
+export function buildInviteUrl(origin: string, token: string): string {
+  const baseUrl = process.env.NEXTAUTH_URL || origin;
+  return `${baseUrl.replace(/\/$/, '')}/accept-invite?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Email an invite link
+ */
+export async function sendInviteEmail(params: {
+  email: string;
+  role: UserRole;
+  teamName: string;
+  inviterName: string;
+  inviteUrl: string;
+  expiresAt: Date;
+}): Promise<void> {
+  const { email, role, teamName, inviterName, inviteUrl, expiresAt } = params;
+
+  await sendEmail({
+    to: email,
+    subject: `You're invited to join ${teamName} on TrueLevel`,
+    text: [
+      `${inviterName} invited you to join ${teamName} on TrueLevel as a ${ROLE_LABELS[role]}.`,
+      '',
+      'Set your password and activate your account:',
+      inviteUrl,
+      '',
+      `This link expires on ${expiresAt.toDateString()}.`,
+    ].join('\n'),
+  });
+}
+
+/**
+ * Invite error
+ * WHY: Lets the accept flow surface expired / used invites with the right
+ * status code from inside a transaction
+ */
+export class InviteError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'InviteError';
+    this.status = status;
+  }
+}
+
+/**
+ * Team member fields returned to clients
+ * SECURITY: Never expose password or PIN hashes
+ */
+export const teamMemberSelect = {
+  id: true,
+  email: true,
+  phone: true,
+  firstName: true,
+  lastName: true,
+  role: true,
+  isActive: true,
+  lastLoginAt: true,
+  createdAt: true,
+  pinUpdatedAt: true,
+  pinLockedUntil: true,
+  siteAccess: {
+    select: {
+      id: true,
+      grantedAt: true,
+      site: { select: { id: true, name: true } },
+      granter: { select: { id: true, firstName: true, lastName: true } },
+    },
+    orderBy: { grantedAt: 'asc' as const },
+  },
+};
@@ -0,0 +1,230 @@
+// ===========================================
+// FILE: src/lib/timezone.ts
+// PURPOSE: Site-local calendar helpers (time zones, "today", week starts)
+// PRD REFERENCE: PRD Section 7 - Analytics & Reporting, PRD Section 8.3 - Visit Reminders
+// USED BY: Analytics bucketing, dashboards, reminders, site and organization forms
+// ===========================================
+
+/**
+ * Time zone used when an organization hasn't picked one
+ */
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+/**
+ * Time zones offered in site and organization forms
+ * NOTE: Any valid IANA zone is accepted by the API; these cover US sites
+ */
+export const TIMEZONE_OPTIONS = [
+  { value: 'America/New_York', label: 'Eastern Time' },
+  { value: 'America/Chicago', label: 'Central Time' },
+  { value: 'America/Denver', label: 'Mountain Time' },
+  { value: 'America/Phoenix', label: 'Mountain Time (Arizona)' },
+  { value: 'America/Los_Angeles', label: 'Pacific Time' },
+  { value: 'America/Anchorage', label: 'Alaska Time' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii Time' },
+];
+
+/**
+ * Week start options (0 = Sunday ... 6 = Saturday, matching Date.getDay)
+ */
+export const WEEK_START_OPTIONS = [
+  { value: '0', label: 'Sunday' },
+  { value: '1', label: 'Monday' },
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Cached formatter that reports wall-clock parts in a zone
+ * WHY: Constructing Intl formatters is slow; analytics call this per entry
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock date and time of an instant in a zone
+ */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/**
+ * Check that a string is an IANA time zone this runtime knows
+ *
+ * @example
+ * ```ts
+ * isValidTimeZone('America/Chicago') // true
+ * isValidTimeZone('Central') // false
+ * ```
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Time zone of the current runtime
+ * WHY: Client components fall back to the browser's zone when a site's
+ * zone isn't known
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Offset of a zone from UTC at an instant (positive east of UTC)
+ *
+ * @example
+ * ```ts
+ * getTimeZoneOffsetMs(new Date('2026-01-15T12:00:00Z'), 'America/New_York') // -5 hours
+ * getTimeZoneOffsetMs(new Date('2026-07-15T12:00:00Z'), 'America/New_York') // -4 hours
+ * ```
+ */
+export function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const wallClockAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wallClockAsUtc - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * Calendar date of an instant in a zone
+ *
+ * WHY: Calendar dates (visit dates, car count days) are stored as UTC
+ * midnight (@db.Date). A 9pm Eastern visit is 1am UTC the next day, so the
+ * date has to be read in the site's zone, not the server's.
+ *
+ * @returns UTC midnight of the local date
+ *
+ * @example
+ * ```ts
+ * toZonedCalendarDate(new Date('2026-03-10T01:30:00Z'), 'America/New_York')
+ * // 2026-03-09T00:00:00.000Z
+ * ```
+ */
+export function toZonedCalendarDate(date: Date, timeZone: string): Date {
+  const p = getZonedParts(date, timeZone);
+  return new Date(Date.UTC(p.year, p.month - 1, p.day));
+}
+
+/**
+ * Today's calendar date in a zone
+ *
+ * @param timeZone - IANA zone of the site
+ * @param now - Current instant (default now)
+ * @returns UTC midnight of the local date, comparable with @db.Date columns
+ */
+export function getSiteToday(timeZone: string, now: Date = new Date()): Date {
+  return toZonedCalendarDate(now, timeZone);
+}
+
+/**
+ * Today's date (YYYY-MM-DD) in the runtime's zone
+ * WHY: Date inputs default to the user's today. toISOString() gives UTC's
+ * date, which is already tomorrow on a US evening.
+ */
+export function getLocalDateString(now: Date = new Date()): string {
+  return getSiteToday(getLocalTimeZone(), now).toISOString().split('T')[0];
+}
+
+/**
+ * Instant at which a calendar date starts in a zone
+ *
+ * WHY: On DST change days local midnight is not a fixed offset from UTC,
+ * and those days are 23 or 25 hours long.
+ *
+ * BUSINESS LOGIC:
+ * - The offset is looked up at the guessed instant, then re-checked at the
+ *   result in case the guess fell on the other side of a transition
+ * - Zones that skip midnight (e.g. America/Santiago) start the day at the
+ *   first instant that falls on the date
+ *
+ * @param calendarDate - UTC midnight of the local date
+ * @param timeZone - IANA zone
+ *
+ * @example
+ * ```ts
+ * zonedMidnightToUtc(new Date('2026-03-08'), 'America/New_York') // 2026-03-08T05:00:00.000Z
+ * zonedMidnightToUtc(new Date('2026-03-09'), 'America/New_York') // 2026-03-09T04:00:00.000Z
+ * ```
+ */
+export function zonedMidnightToUtc(calendarDate: Date, timeZone: string): Date {
+  const wallClock = Date.UTC(
+    calendarDate.getUTCFullYear(),
+    calendarDate.getUTCMonth(),
+    calendarDate.getUTCDate()
+  );
+  const firstOffset = getTimeZoneOffsetMs(new Date(wallClock), timeZone);
+  const guess = wallClock - firstOffset;
+  const secondOffset = getTimeZoneOffsetMs(new Date(guess), timeZone);
+
+  if (secondOffset === firstOffset) {
+    return new Date(guess);
+  }
+
+  const candidates = [wallClock - firstOffset, wallClock - secondOffset].sort((a, b) => a - b);
+  const onDate = candidates.find(
+    (candidate) => toZonedCalendarDate(new Date(candidate), timeZone).getTime() === wallClock
+  );
+  return new Date(onDate ?? candidates[1]);
+}
+
+/**
+ * Add whole days to a calendar date
+ * WHY: Calendar arithmetic in UTC never crosses a DST transition
+ */
+export function addCalendarDays(calendarDate: Date, days: number): Date {
+  return new Date(calendarDate.getTime() + days * MS_PER_DAY);
+}
+
+/**
+ * Whole days from one calendar date to another (negative if `to` is earlier)
+ */
+export function calendarDaysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Zone a site runs in
+ *
+ * @param site - Site with its own zone (optional) and its organization's default
+ */
+export function resolveSiteTimeZone(site: {
+  timezone: string | null;
+  organization: { timezone: string };
+}): string {
+  return site.timezone || site.organization.timezone || DEFAULT_TIMEZONE;
+}
@@ -0,0 +1,289 @@
+// ===========================================
+// FILE: src/lib/usage.ts
+// PURPOSE: Server-side chemical usage engine for visit log entries
+// PRD REFERENCE: PRD Section 6.2 - Chemical Entries, PRD Section 7.2 - Usage Trends
+// USED BY: Visit, chemical entry and delivery API routes
+// ===========================================
+
+import { PrismaTransactionClient } from '@/lib/prisma';
+import { calculateUsageBetweenVisits } from '@/lib/analytics';
+import { syncUsageAnomalies } from '@/lib/anomalies';
+import { syncDailyUsageRollups } from '@/lib/rollups';
+import { sumDeliveredGallons } from '@/lib/deliveries';
+
+/**
+ * Minimal entry shape needed to walk a chemical's history
+ */
+interface UsageChainEntry {
+  id: string;
+  levelGallons: unknown;
+  totalOnHandGallons: unknown;
+  deliveryReceived: boolean;
+  deliveryGallons: unknown;
+  calculatedUsageGallons: unknown;
+  visitLog: { visitDate: Date; siteId: string };
+}
+
+/**
+ * Standalone delivery shape needed to credit deliveries between visits
+ */
+interface ChainDelivery {
+  deliveryDate: Date;
+  beforeVisit: boolean;
+  gallons: unknown;
+}
+
+/**
+ * Fetch every entry for a site chemical in visit order
+ *
+ * WHY: Usage is always relative to the previous entry for the same
+ * chemicalSiteConfigId, so we need the full ordered history.
+ *
+ * ORDERING: visit date, then visit time, then entry creation time
+ * (handles two visits logged on the same day).
+ */
+async function getUsageChain(
+  tx: PrismaTransactionClient,
+  chemicalSiteConfigId: string
+): Promise<UsageChainEntry[]> {
+  return tx.visitLogChemicalEntry.findMany({
+    where: { chemicalSiteConfigId },
+    select: {
+      id: true,
+      levelGallons: true,
+      totalOnHandGallons: true,
+      deliveryReceived: true,
+      deliveryGallons: true,
+      calculatedUsageGallons: true,
+      visitLog: { select: { visitDate: true, siteId: true } },
+    },
+    orderBy: [
+      { visitLog: { visitDate: 'asc' } },
+      { visitLog: { visitTime: 'asc' } },
+      { createdAt: 'asc' },
+    ],
+  });
+}
+
+/**
+ * Fetch a site chemical's standalone deliveries
+ * WHY: Deliveries recorded outside a visit still raise on-hand between visits
+ */
+async function getChainDeliveries(
+  tx: PrismaTransactionClient,
+  chemicalSiteConfigId: string
+): Promise<ChainDelivery[]> {
+  return tx.chemicalDelivery.findMany({
+    where: { chemicalSiteConfigId },
+    select: { deliveryDate: true, beforeVisit: true, gallons: true },
+  });
+}
+
+/**
+ * Gallons delivered since the previous entry, as of this entry
+ *
+ * BUSINESS LOGIC:
+ * - Deliveries recorded on this entry
+ * - Plus standalone deliveries that arrived after the previous visit's
+ *   count and before this one's (see lib/deliveries)
+ */
+function getEntryDeliveryGallons(
+  previous: UsageChainEntry | undefined,
+  current: UsageChainEntry,
+  deliveries: ChainDelivery[]
+): number {
+  const entryDelivery = current.deliveryReceived ? Number(current.deliveryGallons ?? 0) : 0;
+  if (!previous) {
+    return entryDelivery;
+  }
+
+  return (
+    entryDelivery +
+    sumDeliveredGallons(deliveries, previous.visitLog.visitDate, current.visitLog.visitDate)
+  );
+}
+
+/**
+ * Compute usage for an entry against its predecessor
+ *
+ * WHY: The current totalOnHandGallons already includes anything delivered
+ * since the previous visit, so deliveries must be added back to the previous
+ * on-hand figure: Usage = Previous + Delivery - Current.
+ *
+ * @returns Usage in gallons (rounded to 2 decimals), or null for the first entry
+ */
+function computeEntryUsage(
+  previous: UsageChainEntry | undefined,
+  current: UsageChainEntry,
+  deliveryGallons: number
+): number | null {
+  if (!previous) {
+    return null;
+  }
+
+  const usage = calculateUsageBetweenVisits(
+    Number(previous.totalOnHandGallons),
+    Number(current.totalOnHandGallons),
+    deliveryGallons
+  );
+
+  return Math.round(usage * 100) / 100;
+}
+
+/**
+ * Recalculate usage for every entry of a site chemical
+ *
+ * WHY: Creating, editing or deleting a mid-history entry (or moving a visit
+ * to another date) changes the baseline for the entry that follows it.
+ * Walking the whole chain keeps every downstream usage figure correct.
+ *
+ * BUSINESS LOGIC:
+ * - First entry in history has no baseline, so its usage is null
+ * - Standalone deliveries between visits count toward the next entry
+ * - Only rows whose computed usage actually changed are written
+ * - Usage anomalies for the chemical are re-derived (see lib/anomalies)
+ * - Daily usage rollups for the chemical are re-synced (see lib/rollups)
+ *
+ * @param tx - Prisma transaction client
+ * @param chemicalSiteConfigId - Site chemical to recalculate
+ * @returns Number of entries updated
+ */
+export async function recalculateChemicalUsage(
+  tx: PrismaTransactionClient,
+  chemicalSiteConfigId: string
+): Promise<number> {
+  const [chain, deliveries] = await Promise.all([
+    getUsageChain(tx, chemicalSiteConfigId),
+    getChainDeliveries(tx, chemicalSiteConfigId),
+  ]);
+  const usages: Array<number | null> = [];
+  const deliveryGallons: number[] = [];
+  let updatedCount = 0;
+
+  for (let i = 0; i < chain.length; i++) {
+    const entry = chain[i];
+    const delivered = getEntryDeliveryGallons(chain[i - 1], entry, deliveries);
+    const usage = computeEntryUsage(chain[i - 1], entry, delivered);
+    usages.push(usage);
+    deliveryGallons.push(delivered);
+    const storedUsage =
+      entry.calculatedUsageGallons === null
+        ? null
+        : Number(entry.calculatedUsageGallons);
+
+    if (usage === storedUsage) {
+      continue;
+    }
+
+    await tx.visitLogChemicalEntry.update({
+      where: { id: entry.id },
+      data: { calculatedUsageGallons: usage },
+    });
+    updatedCount++;
+  }
+
+  await syncUsageAnomalies(
+    tx,
+    chemicalSiteConfigId,
+    chain.map((entry, i) => ({
+      id: entry.id,
+      visitDate: entry.visitLog.visitDate,
+      levelGallons: entry.levelGallons === null ? null : Number(entry.levelGallons),
+      totalOnHandGallons: Number(entry.totalOnHandGallons),
+      deliveryGallons: deliveryGallons[i],
+    }))
+  );
+
+  if (chain.length > 0) {
+    await syncDailyUsageRollups(
+      tx,
+      chain[0].visitLog.siteId,
+      chemicalSiteConfigId,
+      chain.map((entry, i) => ({
+        visitDate: entry.visitLog.visitDate,
+        usageGallons: usages[i],
+        totalOnHandGallons: Number(entry.totalOnHandGallons),
+      }))
+    );
+  } else {
+    await tx.dailyChemicalUsage.deleteMany({ where: { chemicalSiteConfigId } });
+  }
+
+  return updatedCount;
+}
+
+/**
+ * Recalculate usage for several site chemicals at once
+ *
+ * WHY: Visit-level changes (create, re-date, delete) touch one entry per
+ * chemical, and each chemical's history must be re-cascaded.
+ *
+ * @param tx - Prisma transaction client
+ * @param chemicalSiteConfigIds - Site chemicals to recalculate (duplicates ignored)
+ */
+export async function recalculateUsageForChemicals(
+  tx: PrismaTransactionClient,
+  chemicalSiteConfigIds: string[]
+): Promise<void> {
+  for (const configId of new Set(chemicalSiteConfigIds)) {
+    await recalculateChemicalUsage(tx, configId);
+  }
+}
+
+/**
+ * Check that site chemicals are configured at a given site
+ *
+ * WHY: Saving an entry re-cascades its chemical's whole history, so an ID
+ * from another site would rewrite that site's usage.
+ *
+ * @param client - Prisma client or transaction client
+ * @param siteId - Site of the visit the entries belong to
+ * @param chemicalSiteConfigIds - Site chemicals the entries are for
+ * @returns True if every chemical belongs to the site
+ */
+export async function areChemicalsAtSite(
+  client: PrismaTransactionClient,
+  siteId: string,
+  chemicalSiteConfigIds: string[]
+): Promise<boolean> {
+  const uniqueIds = Array.from(new Set(chemicalSiteConfigIds));
+  const count = await client.chemicalSiteConfig.count({
+    where: { id: { in: uniqueIds }, siteId },
+  });
+
+  return count === uniqueIds.length;
+}
+
+/**
+ * Rebuild a site chemical's daily rollups from its stored entries
+ *
+ * WHY: Backfills rollups for history logged before they existed, and repairs
+ * them if entries were changed outside the API. Stored usage is taken as-is.
+ *
+ * @param tx - Prisma transaction client
+ * @param chemicalSiteConfigId - Site chemical to rebuild
+ * @returns Number of rollup rows written or removed
+ */
+export async function rebuildChemicalUsageRollups(
+  tx: PrismaTransactionClient,
+  chemicalSiteConfigId: string
+): Promise<number> {
+  const chain = await getUsageChain(tx, chemicalSiteConfigId);
+
+  if (chain.length === 0) {
+    const { count } = await tx.dailyChemicalUsage.deleteMany({ where: { chemicalSiteConfigId } });
+    return count;
+  }
+
+  return syncDailyUsageRollups(
+    tx,
+    chain[0].visitLog.siteId,
+    chemicalSiteConfigId,
+    chain.map((entry) => ({
+      visitDate: entry.visitLog.visitDate,
+      usageGallons:
+        entry.calculatedUsageGallons === null ? null : Number(entry.calculatedUsageGallons),
+      totalOnHandGallons: Number(entry.totalOnHandGallons),
+    }))
+  );
+}
@@ -173,6 +173,20 @@ export function formatDate(date: Date | string): string {
   }).format(d);
 }
 
+/**
+ * Format a calendar date (YYYY-MM-DD) for display
+ * WHY: @db.Date values serialize as UTC midnight; parsing them as local time
+ * would show the previous day in US time zones
+ *
+ * @example
+ * ```ts
+ * formatCalendarDate('2026-01-20') // "Jan 20, 2026"
+ * ```
+ */
+export function formatCalendarDate(date: string): string {
+  return formatDate(new Date(`${date.slice(0, 10)}T12:00:00`));
+}
+
 /**
  * Calculate days between two dates
  * WHY: Used for visit reminder logic
@@ -189,3 +203,19 @@ export function daysBetween(date1: Date | string, date2: Date | string): number
   const diffTime = Math.abs(d2.getTime() - d1.getTime());
   return Math.floor(diffTime / (1000 * 60 * 60 * 24));
 }
+
+/**
+ * Convert a name to a URL slug
+ * WHY: Organization and site URLs use slugs (/dashboard/o/[orgSlug]/s/[siteSlug])
+ *
+ * @example
+ * ```ts
+ * slugify('Main Street Car Wash #2') // "main-street-car-wash-2"
+ * ```
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
@@ -115,10 +115,62 @@ export const comparisonQuerySchema = z.object({
   previousEnd: z.string().refine((val) => !isNaN(Date.parse(val)), {
     message: 'Invalid previous end date format',
   }),
+}).refine((data) => new Date(data.currentStart) <= new Date(data.currentEnd), {
+  message: 'Current start date must be before or equal to current end date',
+  path: ['currentEnd'],
+}).refine((data) => new Date(data.previousStart) <= new Date(data.previousEnd), {
+  message: 'Previous start date must be before or equal to previous end date',
+  path: ['previousEnd'],
 });
 
 export type ComparisonQueryInput = z.infer<typeof comparisonQuerySchema>;
 
+/**
+ * Site benchmarking query schema
+ * WHY: Rank an organization's sites against each other
+ * PRD REFERENCE: PRD Section 7.4 - Period Comparison
+ *
+ * PARAMETERS:
+ * - organizationId: Organization to benchmark
+ * - startDate/endDate: Date range (default last 30 days)
+ * - outlierThreshold: Standard deviations from the org mean that count as an outlier
+ */
+export const benchmarkQuerySchema = z.object({
+  organizationId: z.string().uuid('Invalid organization ID'),
+  startDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'Invalid start date format',
+  }).optional(),
+  endDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'Invalid end date format',
+  }).optional(),
+  outlierThreshold: z.coerce.number().min(0.5).max(5).default(2),
+});
+
+export type BenchmarkQueryInput = z.infer<typeof benchmarkQuerySchema>;
+
+/**
+ * Distributor portfolio query schema
+ * WHY: Delivered and consumed product across a distributor's clients
+ * PRD REFERENCE: PRD Section 7 - Analytics & Reporting
+ *
+ * PARAMETERS:
+ * - organizationId: Limit to one client (optional)
+ * - startDate/endDate: Date range (default last 12 months)
+ * - dropThreshold: Percent drop in consumption that flags a client
+ */
+export const portfolioQuerySchema = z.object({
+  organizationId: z.string().uuid('Invalid organization ID').optional(),
+  startDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'Invalid start date format',
+  }).optional(),
+  endDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'Invalid end date format',
+  }).optional(),
+  dropThreshold: z.coerce.number().min(5).max(100).default(30),
+});
+
+export type PortfolioQueryInput = z.infer<typeof portfolioQuerySchema>;
+
 /**
  * Package cost query schema
  * WHY: Analyze costs by wash package
@@ -137,6 +189,29 @@ export const packageCostQuerySchema = z.object({
 
 export type PackageCostQueryInput = z.infer<typeof packageCostQuerySchema>;
 
+/**
+ * Package profitability query schema
+ * WHY: Compare package chemical cost with wash and membership prices
+ * PRD REFERENCE: PRD Section 7.5 - Package Analysis
+ *
+ * PARAMETERS:
+ * - chemicalShareThreshold: Flag packages whose chemical cost exceeds this % of revenue
+ * - memberWashesPerMonth: Washes per member per month, to price a member wash
+ */
+export const packageProfitabilityQuerySchema = z.object({
+  siteId: z.string().uuid('Invalid site ID'),
+  startDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'Invalid start date format',
+  }).optional(),
+  endDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'Invalid end date format',
+  }).optional(),
+  chemicalShareThreshold: z.coerce.number().min(1).max(100).default(10),
+  memberWashesPerMonth: z.coerce.number().min(1).max(31).default(4),
+});
+
+export type PackageProfitabilityQueryInput = z.infer<typeof packageProfitabilityQuerySchema>;
+
 /**
  * Low inventory query schema
  * WHY: Find chemicals running low
@@ -150,9 +225,20 @@ export const lowInventoryQuerySchema = z.object({
 
 export type LowInventoryQueryInput = z.infer<typeof lowInventoryQuerySchema>;
 
+/**
+ * Boolean query string flag
+ * WHY: z.coerce.boolean() turns the string "false" into true; query
+ * strings need "true"/"false" parsed literally
+ */
+const queryFlag = (defaultValue: boolean) =>
+  z.enum(['true', 'false', '1', '0'])
+    .optional()
+    .transform((val) => (val === undefined ? defaultValue : val === 'true' || val === '1'));
+
 /**
  * Export query schema
  * WHY: Export analytics data to different formats
+ * PRD REFERENCE: PRD Section 7 - Analytics & Reporting
  */
 export const exportQuerySchema = z.object({
   siteId: z.string().uuid('Invalid site ID'),
@@ -163,9 +249,11 @@ export const exportQuerySchema = z.object({
     message: 'Invalid end date format',
   }),
   format: z.enum(['csv', 'json', 'pdf']).default('csv'),
-  includeChemicals: z.coerce.boolean().default(true),
-  includePackages: z.coerce.boolean().default(true),
-  includeUsage: z.coerce.boolean().default(true),
+  includeChemicals: queryFlag(true),
+  includePackages: queryFlag(true),
+  includeUsage: queryFlag(true),
+}).refine((data) => new Date(data.startDate) <= new Date(data.endDate), {
+  message: 'Start date must be before or equal to end date',
 });
 
 export type ExportQueryInput = z.infer<typeof exportQuerySchema>;
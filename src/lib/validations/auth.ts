@@ -118,10 +118,27 @@ export type PinCreationInput = z.infer<typeof pinCreationSchema>;
 /**
  * PIN login schema
  * WHY: Validate PIN login for tablet mode
+ *
+ * BUSINESS LOGIC:
+ * - The user picks their name from the tablet's roster, then enters a PIN
+ * - siteId must match the site the tablet is enrolled to
  */
 export const pinLoginSchema = z.object({
+  userId: z.string().uuid('Invalid user ID'),
   pin: pinSchema,
   siteId: z.string().uuid('Invalid site ID'),
 });
 
 export type PinLoginInput = z.infer<typeof pinLoginSchema>;
+
+/**
+ * Tablet enrollment schema
+ * WHY: A site manager enrolls a shared tablet to one site
+ * PRD REFERENCE: PRD Section 4.2 - Secondary Authentication (PIN)
+ */
+export const tabletDeviceSchema = z.object({
+  siteId: z.string().uuid('Invalid site ID'),
+  name: z.string().min(1, 'Device name is required').max(100),
+});
+
+export type TabletDeviceInput = z.infer<typeof tabletDeviceSchema>;
@@ -0,0 +1,109 @@
+// ===========================================
+// FILE: src/lib/validations/carCounts.ts
+// PURPOSE: Zod validation schemas for car count ingestion
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// USED BY: Car count forms, car count API routes
+// ===========================================
+
+import { z } from 'zod';
+
+/**
+ * Date string schema
+ * WHY: Car counts are recorded per calendar day
+ */
+const countDateSchema = z.string().refine((val) => !isNaN(Date.parse(val)), {
+  message: 'Invalid date format',
+});
+
+/**
+ * Package count schema
+ * WHY: Cars washed in a single package on a given day
+ *
+ * BUSINESS LOGIC:
+ * - membershipCars is the part of carCount redeemed on a membership
+ *   (the rest are retail sales); when omitted, the day's existing split
+ *   is kept (0 for a new count)
+ */
+export const packageCarCountSchema = z.object({
+  washPackageId: z.string().uuid('Invalid package ID'),
+  carCount: z.number().int().min(0, 'Car count cannot be negative'),
+  membershipCars: z.number().int().min(0, 'Car count cannot be negative').optional(),
+}).refine((data) => (data.membershipCars ?? 0) <= data.carCount, {
+  message: 'Membership cars cannot exceed the package car count',
+  path: ['membershipCars'],
+});
+
+export type PackageCarCountInput = z.infer<typeof packageCarCountSchema>;
+
+/**
+ * Daily car count schema (manual entry)
+ * WHY: Record how many cars a site washed on a day
+ * PRD REFERENCE: Technical Spec - CarCountEntry (byPackage or totalOnly)
+ *
+ * BUSINESS LOGIC:
+ * - Either totalCars, packageCounts, or both must be provided
+ * - If only packageCounts are given, totalCars is their sum
+ * - totalCars may exceed the package sum (e.g. free or unattributed washes)
+ */
+export const carCountEntrySchema = z.object({
+  siteId: z.string().uuid('Invalid site ID'),
+  logDate: countDateSchema,
+  totalCars: z.number().int().min(0, 'Car count cannot be negative').optional(),
+  packageCounts: z.array(packageCarCountSchema).optional(),
+}).refine((data) => data.totalCars !== undefined || (data.packageCounts && data.packageCounts.length > 0), {
+  message: 'Provide totalCars or at least one package count',
+  path: ['totalCars'],
+});
+
+export type CarCountEntryInput = z.infer<typeof carCountEntrySchema>;
+
+/**
+ * Controller push schema
+ * WHY: Tunnel controllers know their own menu names, not TrueLevel IDs,
+ * so packages may be identified by ID or by name
+ */
+export const carCountIngestSchema = z.object({
+  logDate: countDateSchema,
+  totalCars: z.number().int().min(0).optional(),
+  packageCounts: z.array(
+    z.object({
+      washPackageId: z.string().uuid('Invalid package ID').optional(),
+      packageName: z.string().min(1).optional(),
+      carCount: z.number().int().min(0),
+      membershipCars: z.number().int().min(0).optional(),
+    }).refine((data) => data.washPackageId || data.packageName, {
+      message: 'washPackageId or packageName is required',
+    }).refine((data) => (data.membershipCars ?? 0) <= data.carCount, {
+      message: 'Membership cars cannot exceed the package car count',
+      path: ['membershipCars'],
+    })
+  ).optional(),
+}).refine((data) => data.totalCars !== undefined || (data.packageCounts && data.packageCounts.length > 0), {
+  message: 'Provide totalCars or at least one package count',
+  path: ['totalCars'],
+});
+
+export type CarCountIngestInput = z.infer<typeof carCountIngestSchema>;
+
+/**
+ * Car count query schema
+ * WHY: List recorded counts for a site and date range
+ */
+export const carCountQuerySchema = z.object({
+  siteId: z.string().uuid('Invalid site ID'),
+  startDate: countDateSchema.optional(),
+  endDate: countDateSchema.optional(),
+});
+
+export type CarCountQueryInput = z.infer<typeof carCountQuerySchema>;
+
+/**
+ * Car count API key schema
+ * WHY: Issue a key for a site's tunnel controller
+ */
+export const carCountApiKeySchema = z.object({
+  siteId: z.string().uuid('Invalid site ID'),
+  name: z.string().min(1, 'Key name is required').max(100),
+});
+
+export type CarCountApiKeyInput = z.infer<typeof carCountApiKeySchema>;
@@ -0,0 +1,145 @@
+// ===========================================
+// FILE: src/lib/validations/containers.ts
+// PURPOSE: Zod validation schemas for custom containers and their calibration charts
+// PRD REFERENCE: Implementation Guide - Section "Inch-to-Gallon Interpolation"
+// USED BY: Custom container form, container and org chemical API routes
+// ===========================================
+
+import { z } from 'zod';
+import { containerTypeEnum } from './conversions';
+
+/**
+ * Container shape enum
+ * WHY: Match database enum for type safety
+ */
+export const containerShapeEnum = z.enum(['CYLINDER', 'RECTANGULAR', 'IRREGULAR']);
+
+const dimensionInches = z.number().positive('Must be greater than 0').max(1000);
+
+/**
+ * Custom container schema
+ * WHY: Distributors install tanks the standard container types don't cover
+ *
+ * BUSINESS LOGIC:
+ * - CYLINDER needs height and diameter; RECTANGULAR needs height, length
+ *   and width. Their capacity is computed from the dimensions.
+ * - IRREGULAR containers (cones) need a capacity and are calibrated by hand
+ */
+export const customContainerSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required').max(100),
+    shape: containerShapeEnum,
+    capacityGallons: z.number().positive('Capacity must be greater than 0').max(100000).optional().nullable(),
+    heightInches: dimensionInches.optional().nullable(),
+    diameterInches: dimensionInches.optional().nullable(),
+    lengthInches: dimensionInches.optional().nullable(),
+    widthInches: dimensionInches.optional().nullable(),
+    notes: z.string().max(500).optional().nullable(),
+    isActive: z.boolean().optional(),
+  })
+  .superRefine((data, ctx) => {
+    const required: Record<string, Array<keyof typeof data>> = {
+      CYLINDER: ['heightInches', 'diameterInches'],
+      RECTANGULAR: ['heightInches', 'lengthInches', 'widthInches'],
+      IRREGULAR: ['capacityGallons'],
+    };
+
+    for (const field of required[data.shape]) {
+      if (!data[field]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Required for ${data.shape.toLowerCase()} containers`,
+          path: [field],
+        });
+      }
+    }
+  });
+
+export type CustomContainerInput = z.infer<typeof customContainerSchema>;
+
+/**
+ * Update custom container schema
+ * WHY: The route merges changes with the stored container and re-checks
+ * them with customContainerSchema
+ */
+export const updateCustomContainerSchema = customContainerSchema.innerType().partial();
+
+export type UpdateCustomContainerInput = z.infer<typeof updateCustomContainerSchema>;
+
+/**
+ * Calibration chart schema
+ * WHY: Charts are entered as measured inch/gallon pairs, or generated from
+ * the container's dimensions
+ *
+ * BUSINESS LOGIC:
+ * - POINTS: At least two readings; no repeated inches, and gallons never
+ *   drop as inches rise
+ * - DIMENSIONS: One point every stepInches (cylinders and boxes only)
+ */
+export const calibrationChartSchema = z
+  .discriminatedUnion('method', [
+    z.object({
+      method: z.literal('POINTS'),
+      points: z
+        .array(
+          z.object({
+            inches: z.number().min(0).max(1000),
+            gallons: z.number().min(0).max(100000),
+          })
+        )
+        .min(2, 'Enter at least two readings')
+        .max(500),
+    }),
+    z.object({
+      method: z.literal('DIMENSIONS'),
+      stepInches: z.number().min(0.25).max(12).default(1),
+    }),
+  ])
+  .superRefine((data, ctx) => {
+    if (data.method !== 'POINTS') {
+      return;
+    }
+
+    const sorted = [...data.points].sort((a, b) => a.inches - b.inches);
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i].inches === sorted[i - 1].inches) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Reading at ${sorted[i].inches}" is entered twice`,
+          path: ['points'],
+        });
+        return;
+      }
+      if (sorted[i].gallons < sorted[i - 1].gallons) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Gallons drop between ${sorted[i - 1].inches}" and ${sorted[i].inches}"`,
+          path: ['points'],
+        });
+        return;
+      }
+    }
+  });
+
+export type CalibrationChartInput = z.infer<typeof calibrationChartSchema>;
+
+/**
+ * Org chemical container schema
+ * WHY: Switch an org chemical's containers, e.g. onto a custom container
+ * after a new tank is installed
+ *
+ * NOTE: A custom container is only valid as a HOLDING_TANK_CUSTOM primary
+ * container; its capacity replaces primaryContainerSizeGallons
+ */
+export const orgConfigContainerSchema = z
+  .object({
+    primaryContainer: containerTypeEnum.optional(),
+    primaryContainerSizeGallons: z.number().min(0).optional().nullable(),
+    customContainerId: z.string().uuid('Invalid custom container ID').optional().nullable(),
+    backstockContainer: containerTypeEnum.optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Nothing to update',
+  });
+
+export type OrgConfigContainerInput = z.infer<typeof orgConfigContainerSchema>;
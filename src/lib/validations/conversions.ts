@@ -0,0 +1,45 @@
+// ===========================================
+// FILE: src/lib/validations/conversions.ts
+// PURPOSE: Zod validation schemas for inch-to-gallon conversions
+// PRD REFERENCE: Implementation Guide - Section "Inch-to-Gallon Interpolation"
+// USED BY: Conversions API route, chemical entry form
+// ===========================================
+
+import { z } from 'zod';
+
+/**
+ * Container type enum
+ * WHY: Match database enum for type safety
+ */
+export const containerTypeEnum = z.enum([
+  'HOLDING_TANK_10GAL',
+  'HOLDING_TANK_15GAL',
+  'HOLDING_TANK_20GAL',
+  'HOLDING_TANK_CUSTOM',
+  'JUG_1GAL',
+  'JUG_2_5GAL',
+  'PAIL_5GAL',
+  'DRUM_15GAL',
+  'DRUM_30GAL',
+  'DRUM_55GAL',
+]);
+
+/**
+ * Conversion query schema
+ * WHY: Look up a conversion chart by container type, or by the site
+ * chemical whose primary container is being measured
+ *
+ * PARAMETERS:
+ * - containerType: Container chart to return
+ * - chemicalSiteConfigId: Resolve the container from the chemical's org config
+ * - inches: Optional reading to convert
+ */
+export const conversionQuerySchema = z.object({
+  containerType: containerTypeEnum.optional(),
+  chemicalSiteConfigId: z.string().uuid('Invalid chemical config ID').optional(),
+  inches: z.coerce.number().min(0).optional(),
+}).refine((data) => data.containerType || data.chemicalSiteConfigId, {
+  message: 'containerType or chemicalSiteConfigId is required',
+});
+
+export type ConversionQueryInput = z.infer<typeof conversionQuerySchema>;
@@ -0,0 +1,68 @@
+// ===========================================
+// FILE: src/lib/validations/deliveries.ts
+// PURPOSE: Zod validation schemas for chemical deliveries
+// PRD REFERENCE: PRD Section 6.2 - Chemical Entries, PRD Section 7.6 - Inventory Alerts
+// USED BY: Delivery form, delivery API routes
+// ===========================================
+
+import { z } from 'zod';
+
+/**
+ * Delivery schema
+ * WHY: Record a delivery made outside a visit's inventory count
+ *
+ * BUSINESS LOGIC:
+ * - deliveryDate is a calendar date at the site; the route rejects dates
+ *   after today in the site's time zone
+ * - beforeVisit only matters on a visit day: whether the delivery arrived
+ *   before that day's count (see lib/deliveries)
+ * - deliveredBy defaults to the user recording the delivery
+ */
+export const chemicalDeliverySchema = z.object({
+  chemicalSiteConfigId: z.string().uuid('Invalid chemical config ID'),
+  deliveryDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'Invalid delivery date format',
+  }),
+  beforeVisit: z.boolean().default(false),
+  containerCount: z.number().int().min(0).default(0),
+  gallons: z.number().positive('Gallons must be greater than 0'),
+  lotNumber: z.string().max(100).optional().nullable(),
+  invoiceNumber: z.string().max(100).optional().nullable(),
+  notes: z.string().max(500).optional().nullable(),
+  deliveredBy: z.string().uuid('Invalid user ID').optional().nullable(),
+});
+
+export type ChemicalDeliveryInput = z.infer<typeof chemicalDeliverySchema>;
+
+/**
+ * Update delivery schema
+ * WHY: The chemical can't change; delete and re-record instead
+ */
+export const updateChemicalDeliverySchema = chemicalDeliverySchema
+  .omit({ chemicalSiteConfigId: true })
+  .partial();
+
+export type UpdateChemicalDeliveryInput = z.infer<typeof updateChemicalDeliverySchema>;
+
+/**
+ * Delivery history query schema
+ *
+ * PARAMETERS:
+ * - siteId: Site (required)
+ * - chemicalSiteConfigId: Limit to one chemical
+ * - lotNumber: Find deliveries of a lot
+ * - startDate/endDate: Delivery date range (default last 90 days)
+ */
+export const deliveryQuerySchema = z.object({
+  siteId: z.string().uuid('Invalid site ID'),
+  chemicalSiteConfigId: z.string().uuid('Invalid chemical config ID').optional(),
+  lotNumber: z.string().max(100).optional(),
+  startDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'Invalid start date format',
+  }).optional(),
+  endDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'Invalid end date format',
+  }).optional(),
+});
+
+export type DeliveryQueryInput = z.infer<typeof deliveryQuerySchema>;
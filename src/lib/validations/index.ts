@@ -9,3 +9,13 @@ export * from './packages';
 export * from './visits';
 export * from './analytics';
 export * from './schedules';
+export * from './conversions';
+export * from './carCounts';
+export * from './sites';
+export * from './organizations';
+export * from './users';
+export * from './prices';
+export * from './targets';
+export * from './orders';
+export * from './deliveries';
+export * from './containers';
@@ -0,0 +1,85 @@
+// ===========================================
+// FILE: src/lib/validations/orders.ts
+// PURPOSE: Zod validation schemas for replenishment orders
+// PRD REFERENCE: PRD Section 7.6 - Inventory Alerts
+// USED BY: Order queue, order API routes, chemical entry form
+// ===========================================
+
+import { z } from 'zod';
+
+/**
+ * Replenishment order status enum
+ * WHY: Match database enum for type safety
+ */
+export const replenishmentOrderStatusEnum = z.enum(['PROPOSED', 'APPROVED', 'DELIVERED', 'CANCELLED']);
+
+/**
+ * Order queue query schema
+ *
+ * PARAMETERS:
+ * - status: Limit to one status (default: proposed and approved)
+ * - organizationId: Limit to one client
+ */
+export const orderQuerySchema = z.object({
+  status: replenishmentOrderStatusEnum.optional(),
+  organizationId: z.string().uuid('Invalid organization ID').optional(),
+});
+
+export type OrderQueryInput = z.infer<typeof orderQuerySchema>;
+
+/**
+ * Proposal refresh schema
+ * WHY: Re-run suggestions for every client, or one
+ */
+export const orderRefreshSchema = z.object({
+  organizationId: z.string().uuid('Invalid organization ID').optional(),
+});
+
+export type OrderRefreshInput = z.infer<typeof orderRefreshSchema>;
+
+/**
+ * Order edit schema
+ * WHY: Reps adjust quantities (in whole containers) before delivery
+ */
+export const updateOrderSchema = z
+  .object({
+    notes: z.string().max(500).optional().nullable(),
+    lines: z
+      .array(
+        z.object({
+          id: z.string().uuid('Invalid order line ID'),
+          quantity: z.number().int().min(0, 'Quantity must be 0 or more').max(999),
+        })
+      )
+      .optional(),
+  })
+  .refine((data) => data.notes !== undefined || (data.lines && data.lines.length > 0), {
+    message: 'Nothing to update',
+  });
+
+export type UpdateOrderInput = z.infer<typeof updateOrderSchema>;
+
+/**
+ * Order action schema
+ * BUSINESS LOGIC:
+ * - approve: PROPOSED → APPROVED
+ * - deliver: APPROVED → DELIVERED
+ * - cancel: PROPOSED or APPROVED → CANCELLED
+ */
+export const orderActionSchema = z.object({
+  action: z.enum(['approve', 'deliver', 'cancel']),
+});
+
+export type OrderActionInput = z.infer<typeof orderActionSchema>;
+
+/**
+ * Pending deliveries query schema
+ *
+ * PARAMETERS:
+ * - siteId: Site whose delivered orders to pre-fill from (required)
+ */
+export const pendingDeliveriesQuerySchema = z.object({
+  siteId: z.string().uuid('Invalid site ID'),
+});
+
+export type PendingDeliveriesQueryInput = z.infer<typeof pendingDeliveriesQuerySchema>;
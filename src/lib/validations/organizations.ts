@@ -0,0 +1,74 @@
+// ===========================================
+// FILE: src/lib/validations/organizations.ts
+// PURPOSE: Zod validation schemas for organizations and distributor links
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Distributor → Organization)
+// USED BY: Organization forms, organizations API routes
+// ===========================================
+
+import { z } from 'zod';
+import { timeZoneSchema } from './sites';
+
+/**
+ * Organization validation schema
+ * WHY: Distributors can set up a client organization on the client's behalf
+ *
+ * BUSINESS LOGIC:
+ * - timezone is the default for sites that don't set their own
+ * - weekStartsOn sets the first day of weekly analytics buckets
+ */
+export const organizationSchema = z.object({
+  name: z.string().min(1, 'Organization name is required').max(100),
+  contactEmail: z.string().email('Invalid email address').optional().nullable(),
+  contactPhone: z.string().max(30).optional().nullable(),
+  address: z.string().max(255).optional().nullable(),
+  timezone: timeZoneSchema.optional(),
+  weekStartsOn: z.number().int().min(0).max(6).optional(), // 0 = Sunday
+});
+
+export type OrganizationInput = z.infer<typeof organizationSchema>;
+
+/**
+ * Update organization schema
+ * NOTE: Slug is not regenerated on rename so existing links keep working
+ */
+export const updateOrganizationSchema = organizationSchema.partial();
+
+export type UpdateOrganizationInput = z.infer<typeof updateOrganizationSchema>;
+
+/**
+ * Distributor link request schema
+ * WHY: A distributor finds an existing organization by its admin's email
+ * or by its slug, and asks to become its distributor
+ */
+export const distributorLinkRequestSchema = z.object({
+  email: z.string().email('Invalid email address').optional(),
+  slug: z.string().min(1).optional(),
+  message: z.string().max(500).optional().nullable(),
+}).refine((data) => data.email || data.slug, {
+  message: 'Provide the organization email or slug',
+  path: ['email'],
+});
+
+export type DistributorLinkRequestInput = z.infer<typeof distributorLinkRequestSchema>;
+
+/**
+ * Link request response schema
+ * BUSINESS LOGIC:
+ * - accept / decline: organization admin
+ * - cancel: distributor admin who owns the request
+ */
+export const distributorLinkResponseSchema = z.object({
+  action: z.enum(['accept', 'decline', 'cancel']),
+});
+
+export type DistributorLinkResponseInput = z.infer<typeof distributorLinkResponseSchema>;
+
+/**
+ * Unlink schema
+ * WHY: Either side can end the relationship; the reason is kept in the audit trail
+ */
+export const distributorUnlinkSchema = z.object({
+  reason: z.string().max(500).optional().nullable(),
+});
+
+export type DistributorUnlinkInput = z.infer<typeof distributorUnlinkSchema>;
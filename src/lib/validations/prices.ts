@@ -0,0 +1,49 @@
+// ===========================================
+// FILE: src/lib/validations/prices.ts
+// PURPOSE: Zod validation schemas for chemical price changes
+// PRD REFERENCE: PRD Section 3.2 - Organization Chemical Configuration
+// USED BY: Price change form, price API routes
+// ===========================================
+
+import { z } from 'zod';
+
+/**
+ * Price change schema
+ * WHY: Distributors schedule new prices for a client's chemical
+ *
+ * BUSINESS LOGIC:
+ * - effectiveDate is a calendar date; the route rejects dates before
+ *   today in the client's time zone (history can't be rewritten)
+ * - notifyClient emails the client's contacts about the change
+ */
+export const chemicalPriceSchema = z.object({
+  effectiveDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'Invalid effective date format',
+  }),
+  costPerContainer: z.number().min(0, 'Cost must be positive'),
+  costPerGallon: z.number().min(0, 'Cost must be positive'),
+  note: z.string().max(500).optional().nullable(),
+  notifyClient: z.boolean().default(false),
+});
+
+export type ChemicalPriceInput = z.infer<typeof chemicalPriceSchema>;
+
+/**
+ * Price change report query schema
+ * WHY: Review price changes per client over a period
+ *
+ * PARAMETERS:
+ * - organizationId: Limit to one client (optional)
+ * - startDate/endDate: Effective date range (default last 12 months through scheduled changes)
+ */
+export const priceChangeReportQuerySchema = z.object({
+  organizationId: z.string().uuid('Invalid organization ID').optional(),
+  startDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'Invalid start date format',
+  }).optional(),
+  endDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'Invalid end date format',
+  }).optional(),
+});
+
+export type PriceChangeReportQueryInput = z.infer<typeof priceChangeReportQuerySchema>;
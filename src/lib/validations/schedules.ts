@@ -6,6 +6,7 @@
 // ===========================================
 
 import { z } from 'zod';
+import { timeOfDaySchema } from './sites';
 
 /**
  * Scheduled visit status enum
@@ -120,3 +121,68 @@ export const recurringScheduleSchema = z.object({
 });
 
 export type RecurringScheduleInput = z.infer<typeof recurringScheduleSchema>;
+
+/**
+ * Day plan start point fields
+ * WHY: The plan starts at a time and, optionally, a place (e.g. the
+ * warehouse); without a place the first stop has no drive
+ */
+const dayPlanStartFields = {
+  date: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: 'Invalid date format',
+  }),
+  userId: z.string().uuid('Invalid user ID').optional(),
+  startTime: timeOfDaySchema.optional(),
+  startLatitude: z.coerce.number().min(-90).max(90).optional(),
+  startLongitude: z.coerce.number().min(-180).max(180).optional(),
+};
+
+/**
+ * Check a start point has both coordinates
+ */
+function refineStartPoint(
+  data: { startLatitude?: number; startLongitude?: number },
+  ctx: z.RefinementCtx
+) {
+  if ((data.startLatitude === undefined) !== (data.startLongitude === undefined)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Start latitude and longitude must be set together',
+      path: ['startLongitude'],
+    });
+  }
+}
+
+/**
+ * Day plan query schema
+ * WHY: Show a technician's visits for a day in route order
+ *
+ * FIELDS:
+ * - date: Day to plan
+ * - userId: Technician (defaults to the current user)
+ * - startTime: When the day starts ("HH:MM", default 08:00)
+ * - startLatitude/startLongitude: Optional start point
+ * - optimize: "true" to propose a new order instead of the saved one
+ */
+export const dayPlanQuerySchema = z.object({
+  ...dayPlanStartFields,
+  optimize: z.enum(['true', 'false']).default('false').transform((val) => val === 'true'),
+}).superRefine(refineStartPoint);
+
+export type DayPlanQueryInput = z.infer<typeof dayPlanQuerySchema>;
+
+/**
+ * Save day plan schema
+ * WHY: Technicians reorder their day by hand, or keep an optimized order
+ *
+ * BUSINESS LOGIC:
+ * - scheduledVisitIds lists each of the day's scheduled visits once,
+ *   in visit order
+ */
+export const saveDayPlanSchema = z.object({
+  ...dayPlanStartFields,
+  scheduledVisitIds: z.array(z.string().uuid('Invalid scheduled visit ID'))
+    .min(1, 'At least one visit is required'),
+}).superRefine(refineStartPoint);
+
+export type SaveDayPlanInput = z.infer<typeof saveDayPlanSchema>;
@@ -0,0 +1,122 @@
+// ===========================================
+// FILE: src/lib/validations/sites.ts
+// PURPOSE: Zod validation schemas for site management
+// PRD REFERENCE: PRD Section 3 - Data Hierarchy (Organization → Site)
+// USED BY: Site forms, sites API routes
+// ===========================================
+
+import { z } from 'zod';
+import { isValidTimeZone } from '@/lib/timezone';
+
+/**
+ * Wash type enum
+ * WHY: Site's wash format drives default chemical setups
+ */
+export const washTypeEnum = z.enum([
+  'EXPRESS',
+  'FULL_SERVICE',
+  'HAND_WASH',
+  'IN_BAY_AUTOMATIC',
+  'TOUCHLESS_IBA',
+]);
+
+/**
+ * IANA time zone schema
+ * WHY: Sites report "today", reminders and weekly trends in local time
+ */
+export const timeZoneSchema = z.string().refine(isValidTimeZone, {
+  message: 'Invalid time zone',
+});
+
+/**
+ * Time of day schema ("HH:MM", 24-hour)
+ * WHY: Site visit windows are local wall-clock times
+ */
+export const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM (24-hour)');
+
+/**
+ * Route planning fields shared by create and update
+ * WHY: Coordinates and visit windows feed the technician day plan
+ */
+const siteRouteFields = {
+  latitude: z.number().min(-90).max(90).optional().nullable(),
+  longitude: z.number().min(-180).max(180).optional().nullable(),
+  visitWindowStart: timeOfDaySchema.optional().nullable(),
+  visitWindowEnd: timeOfDaySchema.optional().nullable(),
+};
+
+/**
+ * Check coordinates and visit windows are consistent
+ *
+ * BUSINESS LOGIC:
+ * - Latitude and longitude are set (or cleared) together
+ * - A window that has both ends must open before it closes
+ */
+function refineSiteRoute(
+  data: {
+    latitude?: number | null;
+    longitude?: number | null;
+    visitWindowStart?: string | null;
+    visitWindowEnd?: string | null;
+  },
+  ctx: z.RefinementCtx
+) {
+  const hasLatitude = data.latitude !== undefined && data.latitude !== null;
+  const hasLongitude = data.longitude !== undefined && data.longitude !== null;
+  if (hasLatitude !== hasLongitude) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Latitude and longitude must be set together',
+      path: ['longitude'],
+    });
+  }
+  if (data.visitWindowStart && data.visitWindowEnd && data.visitWindowStart >= data.visitWindowEnd) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Visit window must end after it starts',
+      path: ['visitWindowEnd'],
+    });
+  }
+}
+
+/**
+ * Site validation schema
+ * WHY: Organizations add wash locations they manage
+ *
+ * BUSINESS LOGIC:
+ * - organizationId is required for distributors creating a client site;
+ *   org admins always create sites in their own organization
+ * - Slug is generated from the name (unique per organization)
+ * - timezone is optional; null uses the organization's time zone
+ * - Coordinates, visit window and visit duration are used for route planning
+ */
+export const siteSchema = z.object({
+  organizationId: z.string().uuid('Invalid organization ID').optional(),
+  name: z.string().min(1, 'Site name is required').max(100),
+  address: z.string().max(255).optional().nullable(),
+  washType: washTypeEnum,
+  visitReminderDays: z.number().int().min(1, 'Must be at least 1 day').max(90, 'Cannot exceed 90 days').optional().default(14),
+  timezone: timeZoneSchema.optional().nullable(),
+  ...siteRouteFields,
+  visitDurationMinutes: z.number().int().min(5).max(480).optional().default(45),
+}).superRefine(refineSiteRoute);
+
+export type SiteInput = z.infer<typeof siteSchema>;
+
+/**
+ * Update site schema
+ * NOTE: Slug is not regenerated on rename so existing links keep working;
+ * latitude and longitude must be sent together
+ */
+export const updateSiteSchema = z.object({
+  name: z.string().min(1, 'Site name is required').max(100).optional(),
+  address: z.string().max(255).optional().nullable(),
+  washType: washTypeEnum.optional(),
+  visitReminderDays: z.number().int().min(1).max(90).optional(),
+  timezone: timeZoneSchema.optional().nullable(),
+  ...siteRouteFields,
+  visitDurationMinutes: z.number().int().min(5).max(480).optional(),
+  isActive: z.boolean().optional(),
+}).superRefine(refineSiteRoute);
+
+export type UpdateSiteInput = z.infer<typeof updateSiteSchema>;
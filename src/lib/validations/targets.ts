@@ -0,0 +1,78 @@
+// ===========================================
+// FILE: src/lib/validations/targets.ts
+// PURPOSE: Zod validation schemas for cost-per-car targets and budgets
+// PRD REFERENCE: PRD Section 7.1 - Cost Per Car Analysis
+// USED BY: Cost target form, cost target API routes
+// ===========================================
+
+import { z } from 'zod';
+
+/**
+ * Chemical type enum
+ * WHY: Match database enum for type safety
+ */
+export const chemicalTypeEnum = z.enum([
+  'PREP_SOAP',
+  'HIGH_PH_PRESOAK',
+  'LOW_PH_PRESOAK',
+  'WHEEL_TIRE_CLEANER',
+  'FOAM_DETERGENT',
+  'FRAGRANCE',
+  'TRI_COLOR',
+  'PROTECTANT',
+  'DRY_AGENT',
+  'TIRE_SHINE',
+  'OTHER',
+]);
+
+const targetCostPerCar = z.number().min(0, 'Target must be positive').max(9999.99).nullable();
+const monthlyBudget = z.number().min(0, 'Budget must be positive').max(99999999.99).nullable();
+
+/**
+ * Cost target schema
+ * WHY: Set a cost-per-car target and/or monthly budget
+ *
+ * BUSINESS LOGIC:
+ * - siteId omitted = organization-wide (site targets override for cost
+ *   per car; an organization budget covers all sites together)
+ * - chemicalType omitted = all chemicals
+ * - At least one of targetCostPerCar or monthlyBudget is required
+ */
+export const costTargetSchema = z
+  .object({
+    organizationId: z.string().uuid('Invalid organization ID'),
+    siteId: z.string().uuid('Invalid site ID').optional().nullable(),
+    chemicalType: chemicalTypeEnum.optional().nullable(),
+    targetCostPerCar: targetCostPerCar.optional(),
+    monthlyBudget: monthlyBudget.optional(),
+  })
+  .refine((data) => data.targetCostPerCar != null || data.monthlyBudget != null, {
+    message: 'Set a cost-per-car target or a monthly budget',
+    path: ['targetCostPerCar'],
+  });
+
+export type CostTargetInput = z.infer<typeof costTargetSchema>;
+
+/**
+ * Cost target update schema
+ * WHY: Scope (organization, site, chemical type) is fixed; change the values
+ * BUSINESS LOGIC: Clearing both values is rejected by the route - delete instead
+ */
+export const updateCostTargetSchema = z.object({
+  targetCostPerCar: targetCostPerCar.optional(),
+  monthlyBudget: monthlyBudget.optional(),
+});
+
+export type UpdateCostTargetInput = z.infer<typeof updateCostTargetSchema>;
+
+/**
+ * Cost target query schema
+ *
+ * PARAMETERS:
+ * - organizationId: Organization whose targets to list (required)
+ */
+export const costTargetQuerySchema = z.object({
+  organizationId: z.string().uuid('Invalid organization ID'),
+});
+
+export type CostTargetQueryInput = z.infer<typeof costTargetQuerySchema>;
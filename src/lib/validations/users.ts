@@ -0,0 +1,80 @@
+// ===========================================
+// FILE: src/lib/validations/users.ts
+// PURPOSE: Zod validation schemas for team invites and user management
+// PRD REFERENCE: PRD Section 3 - User Roles & Permissions
+// USED BY: Team management UI, invites and users API routes
+// ===========================================
+
+import { z } from 'zod';
+import { passwordSchema, phoneSchema } from './auth';
+
+/**
+ * User role enum
+ */
+export const userRoleEnum = z.enum([
+  'DISTRIBUTOR_ADMIN',
+  'DISTRIBUTOR_USER',
+  'ORG_ADMIN',
+  'SITE_MANAGER',
+  'SITE_USER',
+]);
+
+/**
+ * Invite schema
+ * WHY: Admins add team members by email; the invitee sets their own password
+ *
+ * BUSINESS LOGIC:
+ * - Site roles (SITE_MANAGER / SITE_USER) need at least one site
+ * - Other roles ignore siteIds
+ */
+export const inviteSchema = z.object({
+  email: z.string().email('Invalid email address'),
+  role: userRoleEnum,
+  firstName: z.string().max(100).optional().nullable(),
+  lastName: z.string().max(100).optional().nullable(),
+  siteIds: z.array(z.string().uuid('Invalid site ID')).default([]),
+}).refine(
+  (data) =>
+    !(data.role === 'SITE_MANAGER' || data.role === 'SITE_USER') || data.siteIds.length > 0,
+  { message: 'Select at least one site for site roles', path: ['siteIds'] }
+);
+
+export type InviteInput = z.infer<typeof inviteSchema>;
+
+/**
+ * Accept invite schema
+ * WHY: Invitee completes their profile and chooses a password
+ */
+export const acceptInviteSchema = z.object({
+  token: z.string().min(1, 'Invite token is required'),
+  firstName: z.string().min(1, 'First name is required'),
+  lastName: z.string().min(1, 'Last name is required'),
+  phone: phoneSchema,
+  password: passwordSchema,
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+});
+
+export type AcceptInviteInput = z.infer<typeof acceptInviteSchema>;
+
+/**
+ * Update team member schema
+ * WHY: Admins change a member's role or deactivate them
+ */
+export const updateUserSchema = z.object({
+  role: userRoleEnum.optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type UpdateUserInput = z.infer<typeof updateUserSchema>;
+
+/**
+ * Site access grant schema
+ */
+export const siteAccessSchema = z.object({
+  siteId: z.string().uuid('Invalid site ID'),
+});
+
+export type SiteAccessInput = z.infer<typeof siteAccessSchema>;
@@ -54,11 +54,16 @@ export type UpdateVisitLogInput = z.infer<typeof updateVisitLogSchema>;
  * FIELDS:
  * - entryMethod: How measurement was taken (gallons/inches/estimated)
  * - levelGallons/levelInches: Primary tank measurement
- * - backstockCount/backstockGallons: Backup inventory
+ * - backstockCount: Full backup containers
+ * - backstockPartialGallons: Gallons left in opened backup containers
+ * - backstockGallons: Backup inventory (derived from counts when the
+ *   backstock container size is known)
  * - deliveryReceived: Whether delivery was made during visit
- * - deliveryCount/deliveryGallons: Delivery details
- * - totalOnHandGallons: Calculated total inventory
- * - calculatedUsageGallons: Usage since last visit (calculated)
+ * - deliveryCount/deliveryGallons: Delivery details (gallons derived the same way)
+ * - totalOnHandGallons: Optional; checked against Tank + Backstock + Delivery
+ *
+ * NOTE: calculatedUsageGallons is not accepted from clients. It is computed
+ * server-side from the previous entry for the same chemical (src/lib/usage.ts).
  */
 export const chemicalEntrySchema = z.object({
   chemicalSiteConfigId: z.string().uuid('Invalid chemical config ID'),
@@ -66,12 +71,12 @@ export const chemicalEntrySchema = z.object({
   levelGallons: z.number().min(0).optional().nullable(),
   levelInches: z.number().min(0).optional().nullable(),
   backstockCount: z.number().int().min(0).default(0),
+  backstockPartialGallons: z.number().min(0).default(0),
   backstockGallons: z.number().min(0).default(0),
   deliveryReceived: z.boolean().default(false),
   deliveryCount: z.number().int().min(0).optional().nullable(),
   deliveryGallons: z.number().min(0).optional().nullable(),
-  totalOnHandGallons: z.number().min(0),
-  calculatedUsageGallons: z.number().optional().nullable(),
+  totalOnHandGallons: z.number().min(0).optional(),
   notes: z.string().optional().nullable(),
 });
 
@@ -96,12 +101,12 @@ export const updateChemicalEntrySchema = z.object({
   levelGallons: z.number().min(0).optional().nullable(),
   levelInches: z.number().min(0).optional().nullable(),
   backstockCount: z.number().int().min(0).optional(),
+  backstockPartialGallons: z.number().min(0).optional(),
   backstockGallons: z.number().min(0).optional(),
   deliveryReceived: z.boolean().optional(),
   deliveryCount: z.number().int().min(0).optional().nullable(),
   deliveryGallons: z.number().min(0).optional().nullable(),
   totalOnHandGallons: z.number().min(0).optional(),
-  calculatedUsageGallons: z.number().optional().nullable(),
   notes: z.string().optional().nullable(),
 });
 
@@ -180,3 +185,30 @@ export const visitQuerySchema = z.object({
 });
 
 export type VisitQueryInput = z.infer<typeof visitQuerySchema>;
+
+/**
+ * Usage anomaly query parameters schema
+ * WHY: Site "needs review" list
+ */
+export const usageAnomalyQuerySchema = z.object({
+  siteId: z.string().uuid().optional(),
+  status: z.enum(['OPEN', 'ACKNOWLEDGED', 'RESOLVED']).default('OPEN'),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type UsageAnomalyQueryInput = z.infer<typeof usageAnomalyQuerySchema>;
+
+/**
+ * Usage anomaly review schema
+ * WHY: Acknowledge a flagged reading (or reopen it)
+ *
+ * BUSINESS LOGIC:
+ * - RESOLVED is set by the usage engine when a reading is corrected,
+ *   never by hand
+ */
+export const updateUsageAnomalySchema = z.object({
+  status: z.enum(['OPEN', 'ACKNOWLEDGED']),
+  note: z.string().max(500).optional().nullable(),
+});
+
+export type UpdateUsageAnomalyInput = z.infer<typeof updateUsageAnomalySchema>;
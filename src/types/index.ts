@@ -34,6 +34,22 @@ export type ContainerType =
 
 export type WashType = 'EXPRESS' | 'FULL_SERVICE' | 'HAND_WASH' | 'IN_BAY_AUTOMATIC' | 'TOUCHLESS_IBA';
 
+export type CarCountSource = 'MANUAL' | 'CSV_IMPORT' | 'CONTROLLER';
+
+export type DistributorLinkStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'CANCELLED';
+
+export type DistributorLinkAction = 'CREATED' | 'REQUESTED' | 'ACCEPTED' | 'DECLINED' | 'CANCELLED' | 'UNLINKED';
+
+export type UserInviteStatus = 'PENDING' | 'ACCEPTED' | 'REVOKED';
+
+export type UsageAnomalyType = 'NEGATIVE_USAGE' | 'USAGE_SPIKE' | 'OVER_CAPACITY';
+
+export type UsageAnomalyStatus = 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED';
+
+export type ReplenishmentOrderStatus = 'PROPOSED' | 'APPROVED' | 'DELIVERED' | 'CANCELLED';
+
+export type ContainerShape = 'CYLINDER' | 'RECTANGULAR' | 'IRREGULAR';
+
 // ===========================================
 // USER & AUTH TYPES
 // ===========================================
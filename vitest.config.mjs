@@ -0,0 +1,20 @@
+// ===========================================
+// FILE: vitest.config.mjs
+// PURPOSE: Vitest configuration for unit tests of src/lib
+// ===========================================
+
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // Match the @/* path alias in tsconfig.json
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+  },
+});
@@ -0,0 +1,32 @@
+// ===========================================
+// FILE: vitest.perf.config.mjs
+// PURPOSE: Vitest configuration for database-backed performance tests
+// Run with: PERF_DATABASE_URL=... npm run test:perf
+// ===========================================
+
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+// Seed into a disposable database only, never DATABASE_URL
+if (!process.env.PERF_DATABASE_URL) {
+  throw new Error(
+    'PERF_DATABASE_URL must point to an empty, disposable database (see "Performance Tests" in README.md)'
+  );
+}
+
+export default defineConfig({
+  resolve: {
+    // Match the @/* path alias in tsconfig.json
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.perf.ts'],
+    env: { DATABASE_URL: process.env.PERF_DATABASE_URL },
+    hookTimeout: 15 * 60 * 1000,
+    testTimeout: 5 * 60 * 1000,
+    fileParallelism: false,
+  },
+});